@@ -5,11 +5,14 @@ import {
   QueryClientProvider,
   useQueryClient,
 } from "@tanstack/react-query";
+import * as Notifications from "expo-notifications";
 import { StatusBar } from "expo-status-bar";
 import React, { useEffect, useState } from "react";
 import { ErrorBoundary } from "react-error-boundary";
 import {
+  Alert,
   Dimensions,
+  Linking,
   Platform,
   Text as RNText,
   StyleSheet,
@@ -31,20 +34,24 @@ import { AuthProvider, useAuth } from "./contexts/AuthContext";
 import { UpgradeProvider, useUpgrade } from "./contexts/UpgradeContext";
 import { queryKeys } from "./hooks/queryKeys";
 import { fetchActivity } from "./hooks/useActivity";
-import { fetchBalances } from "./hooks/useBalances";
+import { balancesQueryKey, fetchBalances, GROUP_BALANCES_OPTIONS } from "./hooks/useBalances";
 import {
   useAddMember,
   useCreateGroup,
   useRemoveMember,
 } from "./hooks/useGroupMutations";
 import { fetchGroupDetails, useGroupDetails } from "./hooks/useGroups";
+import { useOfflineSync } from "./hooks/useOfflineQueue";
 import { useProfile } from "./hooks/useProfile";
 import {
   fetchTransactions,
   useCreateTransaction,
+  useDeleteAttachment,
   useDeleteTransaction,
   useUpdateTransaction,
+  useUploadAttachment,
 } from "./hooks/useTransactions";
+import { ActivityInboxScreen } from "./screens/ActivityInboxScreen";
 import { AddMemberScreen } from "./screens/AddMemberScreen";
 import { AuthScreen } from "./screens/AuthScreen";
 import { GroupDetailsScreen } from "./screens/GroupDetailsScreen";
@@ -53,9 +60,11 @@ import { GroupsListScreen } from "./screens/GroupsListScreen";
 import { ProfileSetupScreen } from "./screens/ProfileSetupScreen";
 import { TransactionFormScreen } from "./screens/TransactionFormScreen";
 import { darkTheme, lightTheme } from "./theme";
-import { Group, GroupWithMembers } from "./types";
+import { BudgetWarning, Group, GroupWithMembers, ReceiptChanges } from "./types";
 import { getDefaultCurrency } from "./utils/currency";
+import { getSettleUpGroupId } from "./utils/deepLinks";
 import { log, logError } from "./utils/logger";
+import { registerForPushNotifications } from "./utils/pushNotifications";
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -91,6 +100,7 @@ function AppContent() {
     mode: GroupStatsMode;
   } | null>(null);
   const prevSessionRef = React.useRef<Session | null>(null);
+  useOfflineSync();
   const groupsListRefetchRef = React.useRef<(() => void) | null>(null);
   const lastLoggedStateRef = React.useRef<string | null>(null);
   const stuckTimeoutRef = React.useRef<NodeJS.Timeout | null>(null);
@@ -101,17 +111,19 @@ function AppContent() {
           queryKey: queryKeys.group(groupId),
           queryFn: () => fetchGroupDetails(groupId),
         }),
-        queryClientInstance.prefetchQuery({
+        queryClientInstance.prefetchInfiniteQuery({
           queryKey: queryKeys.transactions(groupId),
-          queryFn: () => fetchTransactions(groupId),
+          queryFn: ({ pageParam }) => fetchTransactions(groupId, pageParam),
+          initialPageParam: null as string | null,
         }),
         queryClientInstance.prefetchQuery({
-          queryKey: queryKeys.balances(groupId),
-          queryFn: () => fetchBalances(groupId),
+          queryKey: balancesQueryKey(groupId, GROUP_BALANCES_OPTIONS),
+          queryFn: () => fetchBalances(groupId, GROUP_BALANCES_OPTIONS),
         }),
-        queryClientInstance.prefetchQuery({
+        queryClientInstance.prefetchInfiniteQuery({
           queryKey: queryKeys.activity(groupId),
-          queryFn: () => fetchActivity(groupId),
+          queryFn: ({ pageParam }) => fetchActivity(groupId, pageParam),
+          initialPageParam: null as string | null,
         }),
       ]);
     },
@@ -125,6 +137,40 @@ function AppContent() {
     }
   }, [queryClientInstance, session?.user?.id]);
 
+  // Register this device for push notifications once signed in
+  useEffect(() => {
+    if (!session?.user?.id) return;
+    registerForPushNotifications().catch((err) =>
+      logError(err, { context: "registerForPushNotifications" })
+    );
+  }, [session?.user?.id]);
+
+  // Tapping a push opens the activity inbox
+  useEffect(() => {
+    const subscription = Notifications.addNotificationResponseReceivedListener(() =>
+      setCurrentRoute("activity")
+    );
+    return () => subscription.remove();
+  }, []);
+
+  // Settle-up links from reminder emails open the group's "People You Owe"
+  useEffect(() => {
+    if (!session?.user?.id) return;
+
+    const openSettleUp = (url: string | null) => {
+      const groupId = getSettleUpGroupId(url);
+      if (!groupId) return;
+      setStatsContext({ groupId, mode: "i-owe" });
+      setCurrentRoute("group-stats");
+    };
+
+    Linking.getInitialURL()
+      .then(openSettleUp)
+      .catch((err) => logError(err, { context: "getInitialURL" }));
+    const subscription = Linking.addEventListener("url", ({ url }) => openSettleUp(url));
+    return () => subscription.remove();
+  }, [session?.user?.id]);
+
   // Debug routing / loading state to track "stuck on spinner" issues.
   // To avoid noisy duplicate breadcrumbs, only log when the state snapshot changes.
   useEffect(() => {
@@ -195,6 +241,8 @@ function AppContent() {
   const createTx = useCreateTransaction(onTransactionSuccess);
   const updateTx = useUpdateTransaction(onTransactionSuccess);
   const deleteTx = useDeleteTransaction(onTransactionSuccess);
+  const uploadAttachment = useUploadAttachment();
+  const deleteAttachment = useDeleteAttachment();
 
   // Reset navigation state on logout and login (only when session state changes)
   useEffect(() => {
@@ -265,23 +313,50 @@ function AppContent() {
     // Group details will be fetched via useGroupDetails hook
   };
 
-  const handleSaveTransaction = async (transactionData: any) => {
+  const handleSaveTransaction = async (transactionData: any, receipts?: ReceiptChanges) => {
     if (!selectedGroup) return;
 
+    let transactionId: number | undefined;
+    let budgetWarnings: BudgetWarning[] | undefined;
+    let pendingSync = false;
     if (editingTransaction) {
-      await updateTx.mutate({
+      const updated = await updateTx.mutate({
         ...transactionData,
         id: editingTransaction.id,
         group_id: selectedGroup.id,
         currency: transactionData.currency || getDefaultCurrency(),
       });
+      transactionId = editingTransaction.id;
+      pendingSync = !!updated?.pending_sync;
     } else {
-      await createTx.mutate({
+      const created = await createTx.mutate({
         ...transactionData,
         group_id: selectedGroup.id,
         currency: transactionData.currency || getDefaultCurrency(),
       });
+      transactionId = created?.id;
+      budgetWarnings = created?.budget_warnings;
+      pendingSync = !!created?.pending_sync;
+    }
+
+    // Receipts need the saved transaction's id, so they're applied afterwards
+    if (!transactionId || !receipts) return budgetWarnings;
+    if (pendingSync) {
+      if (receipts.added.length > 0 || receipts.removedIds.length > 0) {
+        Alert.alert(
+          "Saved Offline",
+          "This expense will sync when you're back online. Receipt changes weren't saved; add them again once it has synced."
+        );
+      }
+      return budgetWarnings;
+    }
+    for (const attachmentId of receipts.removedIds) {
+      await deleteAttachment.mutate({ id: attachmentId, transactionId, groupId: selectedGroup.id });
     }
+    for (const { uri: _uri, ...receipt } of receipts.added) {
+      await uploadAttachment.mutate({ ...receipt, transactionId, groupId: selectedGroup.id });
+    }
+    return budgetWarnings;
   };
 
   const handleDeleteTransaction = async () => {
@@ -289,6 +364,7 @@ function AppContent() {
     await deleteTx.mutate({
       id: editingTransaction.id,
       group_id: selectedGroup.id,
+      version: editingTransaction.version,
     });
   };
 
@@ -338,6 +414,27 @@ function AppContent() {
           onProfilePress={() => {
             setCurrentRoute("profile");
           }}
+          onActivityPress={() => setCurrentRoute("activity")}
+          onLogoutPress={signOut}
+        />
+        <StatusBar style={theme.dark ? "light" : "dark"} />
+      </>
+    );
+  }
+
+  // Show activity inbox across all groups
+  if (currentRoute === "activity") {
+    return (
+      <>
+        <ActivityInboxScreen />
+        <BottomNavBar
+          currentRoute={currentRoute}
+          onGroupsPress={() => {
+            setCurrentRoute("groups");
+            setGroupRefreshTrigger((prev) => prev + 1);
+          }}
+          onActivityPress={() => setCurrentRoute("activity")}
+          onProfilePress={() => setCurrentRoute("profile")}
           onLogoutPress={signOut}
         />
         <StatusBar style={theme.dark ? "light" : "dark"} />
@@ -357,7 +454,11 @@ function AppContent() {
             setEditingTransaction(null);
           }}
           onDelete={editingTransaction ? handleDeleteTransaction : undefined}
-          defaultCurrency={getDefaultCurrency()}
+          defaultCurrency={
+            selectedGroupDetails?.default_currency ||
+            selectedGroup.default_currency ||
+            getDefaultCurrency()
+          }
           groupId={selectedGroup.id}
         />
         <StatusBar style={theme.dark ? "light" : "dark"} />
@@ -436,6 +537,7 @@ function AppContent() {
             setStatsContext(null);
             setGroupRefreshTrigger((prev) => prev + 1);
           }}
+          onActivityPress={() => setCurrentRoute("activity")}
           onLogoutPress={signOut}
           onProfilePress={() => setCurrentRoute("profile")}
         />
@@ -476,6 +578,7 @@ function AppContent() {
           setGroupRefreshTrigger((prev) => prev + 1);
         }}
         onProfilePress={() => setCurrentRoute("profile")}
+        onActivityPress={() => setCurrentRoute("activity")}
         onLogoutPress={signOut}
       />
       <StatusBar style={theme.dark ? "light" : "dark"} />
@@ -119,6 +119,19 @@ module.exports = ({ config }) => {
         ],
         "expo-font",
         "expo-web-browser",
+        [
+          "expo-notifications",
+          {
+            "color": "#14B8A6"
+          }
+        ],
+        [
+          "expo-image-picker",
+          {
+            "photosPermission": "Allow ShareMoney to attach receipt photos to expenses.",
+            "cameraPermission": "Allow ShareMoney to take photos of receipts."
+          }
+        ],
         // Only include expo-dev-client plugin for development builds
         ...(isDevelopmentBuild ? ["expo-dev-client"] : [])
       ]
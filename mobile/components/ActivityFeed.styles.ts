@@ -64,6 +64,12 @@ export const styles = StyleSheet.create({
   activityTime: {
     // handled by font variant
   },
+  unreadDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginLeft: SPACING.sm,
+  },
   activityDescription: {
     // handled by font variant
   },
@@ -1,13 +1,14 @@
 import { MaterialCommunityIcons } from "@expo/vector-icons";
 import React from "react";
-import { View } from "react-native";
+import { Pressable, View } from "react-native";
 import { ActivityIndicator, Card, Text, useTheme } from "react-native-paper";
 import { ACTIVITY_FEED_UI, ACTIVITY_ICONS } from "../constants/activityFeed";
 import { useAuth } from "../contexts/AuthContext";
-import { ActivityItem } from "../types";
+import { ActivityItem, SettlementStatus } from "../types";
 import {
     formatActivityTime,
     getActivityColor,
+    getActivityDescription,
     getUserDisplayName,
     groupActivitiesByDate,
 } from "../utils/activityDescriptions";
@@ -17,12 +18,30 @@ interface ActivityFeedProps {
   items: ActivityItem[];
   loading: boolean;
   isFiltered?: boolean;
+  loadingMore?: boolean; // Older pages are loaded as the parent scrolls to the end
+  emptyMessage?: string;
+  // Current status of the group's settlements, by id; pending and disputed
+  // settlements are labelled in the feed
+  settlementStatuses?: Record<string, SettlementStatus>;
+  onSettlementPress?: (settlementId: string) => void;
+  // Opens the transaction's version history
+  onTransactionPress?: (transactionId: number) => void;
 }
 
+const SETTLEMENT_STATUS_LABELS: Partial<Record<SettlementStatus, string>> = {
+  pending: "Awaiting confirmation",
+  disputed: "Disputed",
+};
+
 export const ActivityFeed: React.FC<ActivityFeedProps> = ({
   items,
   loading,
   isFiltered,
+  loadingMore = false,
+  emptyMessage = "Activity feed will show all transaction changes made in this group.",
+  settlementStatuses,
+  onSettlementPress,
+  onTransactionPress,
 }) => {
   const theme = useTheme();
   const { session } = useAuth();
@@ -66,7 +85,7 @@ export const ActivityFeed: React.FC<ActivityFeedProps> = ({
               >
                 {isFiltered 
                   ? "Try adjusting your filters to see more activity."
-                  : "Activity feed will show all transaction changes made in this group."}
+                  : emptyMessage}
               </Text>
             </Card.Content>
           </Card>
@@ -111,20 +130,48 @@ export const ActivityFeed: React.FC<ActivityFeedProps> = ({
                 );
                 const activityColor = getActivityColor(activity.type);
 
-                // Get icon based on activity category (transaction vs settlement)
+                // Get icon based on activity category (transaction, settlement, group, comment or member)
                 // Action is indicated by color (green=created, orange=updated, red=deleted)
                 const getActivityIcon = (
                   type: ActivityItem["type"]
                 ): keyof typeof MaterialCommunityIcons.glyphMap => {
+                  if (type === "payment_reminder")
+                    return ACTIVITY_ICONS.REMINDER;
                   if (type.startsWith("settlement"))
                     return ACTIVITY_ICONS.SETTLEMENT;
+                  if (type.startsWith("group"))
+                    return ACTIVITY_ICONS.GROUP;
+                  if (type.startsWith("comment"))
+                    return ACTIVITY_ICONS.COMMENT;
+                  if (type === "member_invited" || type === "invitation_cancelled")
+                    return ACTIVITY_ICONS.INVITATION;
+                  if (type === "member_left" || type === "member_removed")
+                    return ACTIVITY_ICONS.MEMBER_LEFT;
+                  if (type.startsWith("member"))
+                    return ACTIVITY_ICONS.MEMBER_JOINED;
                   return ACTIVITY_ICONS.TRANSACTION;
                 };
 
                 const activityIcon = getActivityIcon(activity.type);
+                const settlementId = activity.settlement_id;
+                const settlementStatus = settlementId ? settlementStatuses?.[settlementId] : undefined;
+                const settlementStatusLabel = settlementStatus && SETTLEMENT_STATUS_LABELS[settlementStatus];
+                // Deleted settlements have no current status and can't be opened
+                const canOpenSettlement = !!onSettlementPress && !!settlementStatus;
+                const transactionId = activity.type.startsWith("transaction") ? activity.transaction_id : undefined;
+                const canOpenTransaction = !!onTransactionPress && !!transactionId;
                 
                 return (
-                  <View key={activity.id} style={styles.activityItem}>
+                  <Pressable
+                    key={activity.id}
+                    style={styles.activityItem}
+                    disabled={!canOpenSettlement && !canOpenTransaction}
+                    onPress={() => {
+                      if (canOpenTransaction) onTransactionPress?.(transactionId);
+                      else if (settlementId) onSettlementPress?.(settlementId);
+                    }}
+                    accessibilityRole={canOpenSettlement || canOpenTransaction ? "button" : undefined}
+                  >
                       {/* Left: Tonal Icon */}
                       <View
                         style={[
@@ -150,21 +197,50 @@ export const ActivityFeed: React.FC<ActivityFeedProps> = ({
                             <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
                                 {formatActivityTime(activity.changed_at)}
                             </Text>
+                            {activity.is_read === false && (
+                              <View
+                                style={[styles.unreadDot, { backgroundColor: theme.colors.primary }]}
+                                accessibilityLabel="Unread"
+                              />
+                            )}
                          </View>
+
+                         {activity.group_name && (
+                           <Text variant="labelSmall" style={{ color: theme.colors.primary }}>
+                             {activity.group_name}
+                           </Text>
+                         )}
                          
                          <Text 
                             variant="bodyMedium" 
-                            style={[styles.activityDescription, { color: theme.colors.onSurfaceVariant }]}
+                            style={[
+                              styles.activityDescription,
+                              {
+                                color: activity.is_read === false ? theme.colors.onSurface : theme.colors.onSurfaceVariant,
+                              },
+                            ]}
                          >
-                             {activity.description}
+                             {getActivityDescription(activity, currentUserId)}
                          </Text>
+
+                         {settlementStatusLabel && (
+                           <Text
+                             variant="labelSmall"
+                             style={{
+                               color: settlementStatus === "disputed" ? theme.colors.error : theme.colors.onSurfaceVariant,
+                             }}
+                           >
+                             {settlementStatusLabel}
+                           </Text>
+                         )}
                       </View>
-                  </View>
+                  </Pressable>
                 );
               })}
             </View>
           );
         })}
+        {loadingMore && <ActivityIndicator size="small" style={{ marginVertical: 16 }} />}
       </View>
     );
   } catch (error) {
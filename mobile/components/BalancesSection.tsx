@@ -21,6 +21,7 @@ interface BalancesSectionProps {
   defaultCurrency?: string;
   showOverallBalances?: boolean; // If false, hide overall balances section
   onSettleUp?: (balance: Balance) => void; // Callback when user wants to settle a balance
+  onRemind?: (balance: Balance) => void; // Callback to email a payment reminder to someone who owes
   currentUserId?: string; // Current user ID to determine if balance is payable
   groupMembers?: Array<{
     user_id: string;
@@ -38,6 +39,7 @@ export const BalancesSection: React.FC<BalancesSectionProps> = ({
   defaultCurrency = "USD",
   showOverallBalances = true,
   onSettleUp,
+  onRemind,
   currentUserId,
   groupMembers = [],
   participants = [],
@@ -268,6 +270,19 @@ export const BalancesSection: React.FC<BalancesSectionProps> = ({
                                   Pay
                                 </Button>
                               )}
+                              {onRemind &&
+                                balance.participant_id &&
+                                balance.user_id !== currentUserId && (
+                                  <Button
+                                    mode="text"
+                                    icon="bell-ring-outline"
+                                    onPress={() => onRemind(balance)}
+                                    compact
+                                    accessibilityLabel={`Remind ${getUserDisplayName(balance)}`}
+                                  >
+                                    Remind
+                                  </Button>
+                                )}
                             </View>
                           </View>
                         </TouchableRipple>
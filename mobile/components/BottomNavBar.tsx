@@ -1,16 +1,19 @@
 import React from "react";
 import { StyleSheet, View } from "react-native";
 import {
+  Badge,
   Icon,
   Surface,
   Text,
   TouchableRipple,
   useTheme,
 } from "react-native-paper";
+import { useUnreadActivityCount } from "../hooks/useActivity";
 import { ProfileIcon } from "./ProfileIcon";
 
 interface BottomNavBarProps {
   onGroupsPress: () => void;
+  onActivityPress: () => void;
   onLogoutPress: () => void;
   onProfilePress: () => void;
   currentRoute: string;
@@ -19,13 +22,16 @@ interface BottomNavBarProps {
 
 export const BottomNavBar: React.FC<BottomNavBarProps> = ({
   onGroupsPress,
+  onActivityPress,
   onLogoutPress,
   onProfilePress,
   currentRoute,
 }) => {
   const theme = useTheme();
   const isGroupsActive = currentRoute === "groups";
+  const isActivityActive = currentRoute === "activity";
   const isProfileActive = currentRoute === "profile";
+  const unreadActivityCount = useUnreadActivityCount();
 
   const renderItem = (
     label: string,
@@ -33,7 +39,8 @@ export const BottomNavBar: React.FC<BottomNavBarProps> = ({
     activeIcon: string,
     isActive: boolean,
     onPress: () => void,
-    isLogout: boolean = false
+    isLogout: boolean = false,
+    badgeCount: number = 0
   ) => {
     const iconColor = isLogout
       ? theme.colors.error
@@ -73,6 +80,11 @@ export const BottomNavBar: React.FC<BottomNavBarProps> = ({
               size={24}
               color={iconColor}
             />
+            {badgeCount > 0 && (
+              <Badge size={16} style={styles.badge}>
+                {badgeCount > 99 ? "99+" : badgeCount}
+              </Badge>
+            )}
           </View>
           <Text
             variant="labelMedium"
@@ -101,6 +113,15 @@ export const BottomNavBar: React.FC<BottomNavBarProps> = ({
           isGroupsActive,
           onGroupsPress
         )}
+        {renderItem(
+          "Activity",
+          "bell-outline",
+          "bell",
+          isActivityActive,
+          onActivityPress,
+          false,
+          unreadActivityCount
+        )}
         <TouchableRipple
           onPress={onProfilePress}
           style={styles.tab}
@@ -170,4 +191,9 @@ const styles = StyleSheet.create({
   label: {
     textAlign: "center",
   },
+  badge: {
+    position: "absolute",
+    top: 0,
+    right: 12,
+  },
 });
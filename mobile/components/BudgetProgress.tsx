@@ -0,0 +1,76 @@
+import React from "react";
+import { StyleSheet, View } from "react-native";
+import { ProgressBar, Text, useTheme } from "react-native-paper";
+import { Budget, BudgetPeriod, BudgetState, Category } from "../types";
+import { formatCurrency } from "../utils/currency";
+
+const PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  total: "Total",
+  monthly: "Monthly",
+};
+
+export const getBudgetLabel = (
+  budget: Pick<Budget, "category_id" | "period">,
+  categories: Category[]
+): string => {
+  const categoryName = budget.category_id
+    ? categories.find((c) => c.id === budget.category_id)?.name ?? "Category"
+    : "All expenses";
+  return `${categoryName} · ${PERIOD_LABELS[budget.period]}`;
+};
+
+interface BudgetProgressProps {
+  budget: Budget;
+  categories: Category[];
+}
+
+export const BudgetProgress: React.FC<BudgetProgressProps> = ({ budget, categories }) => {
+  const theme = useTheme();
+
+  const stateColors: Record<BudgetState, string> = {
+    ok: theme.colors.primary,
+    warning: "#F9AB00", // Google Yellow
+    exceeded: theme.colors.error,
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text variant="bodyMedium" numberOfLines={1} style={[styles.label, { color: theme.colors.onSurface }]}>
+          {getBudgetLabel(budget, categories)}
+        </Text>
+        <Text
+          variant="labelMedium"
+          style={{ color: budget.status === "ok" ? theme.colors.onSurfaceVariant : stateColors[budget.status] }}
+        >
+          {formatCurrency(budget.spent, budget.currency)} of {formatCurrency(budget.amount, budget.currency)}
+        </Text>
+      </View>
+      <ProgressBar
+        progress={Math.min(budget.percent_used / 100, 1)}
+        color={stateColors[budget.status]}
+        style={styles.bar}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 6,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    gap: 12,
+  },
+  label: {
+    flexShrink: 1,
+    fontWeight: "500",
+  },
+  bar: {
+    height: 6,
+    borderRadius: 3,
+  },
+});
@@ -9,12 +9,13 @@ import {
     TouchableRipple,
     useTheme
 } from "react-native-paper";
-import { Balance, Transaction } from "../types";
+import { Balance, Budget, Category, Transaction } from "../types";
 import { formatCurrency, formatTotals } from "../utils/currency";
-import { DebtEdge, simplifyDebts } from "../utils/debt";
+import { DebtEdge } from "../utils/debt";
+import { BudgetProgress } from "./BudgetProgress";
 
 interface GroupDashboardProps {
-  balances: Balance[];
+  debts: DebtEdge[]; // Suggested transfers from the server (GET /balances?simplify=true)
   transactions: Transaction[];
   currentUserId?: string;
   currentUserParticipantId?: string;
@@ -23,12 +24,15 @@ interface GroupDashboardProps {
   onSettlePress?: (balance: Balance) => void;
   onMyCostsPress?: () => void;
   onTotalCostsPress?: () => void;
+  budgets?: Budget[];
+  categories?: Category[];
+  onBudgetsPress?: () => void;
 }
 
 
 
 export const GroupDashboard: React.FC<GroupDashboardProps> = ({
-  balances,
+  debts,
   transactions,
   currentUserId,
   currentUserParticipantId,
@@ -37,16 +41,14 @@ export const GroupDashboard: React.FC<GroupDashboardProps> = ({
   onSettlePress,
   onMyCostsPress,
   onTotalCostsPress,
+  budgets = [],
+  categories = [],
+  onBudgetsPress,
 }) => {
   const theme = useTheme();
   const [showAllActions, setShowAllActions] = useState(false);
 
-  // 1. Calculate Debts (Action List)
-  const debts = useMemo(() => {
-    if (!currentUserId) return [];
-    return simplifyDebts(balances, currentUserId, defaultCurrency, currentUserParticipantId);
-  }, [balances, currentUserId, defaultCurrency]);
-
+  // 1. Debts involving me (Action List)
   const myDebts = useMemo(() => {
     if (!currentUserId) return [];
     const filtered = debts.filter(
@@ -256,6 +258,18 @@ export const GroupDashboard: React.FC<GroupDashboardProps> = ({
     </View>
   );
 
+  const renderBudgets = () => (
+    <Surface style={[styles.budgetsCard, { backgroundColor: theme.colors.surfaceVariant }]} elevation={0}>
+      <TouchableRipple onPress={onBudgetsPress} disabled={!onBudgetsPress}>
+        <View style={styles.budgetsContent}>
+          {budgets.map((budget) => (
+            <BudgetProgress key={budget.id} budget={budget} categories={categories} />
+          ))}
+        </View>
+      </TouchableRipple>
+    </Surface>
+  );
+
   return (
     <View style={styles.container}>
       {/* 2. Compact Stats (Top for Google design - Stats usually context) OR Bottom? User liked priority settlement.
@@ -297,6 +311,9 @@ export const GroupDashboard: React.FC<GroupDashboardProps> = ({
 
       {/* 2. Compact Stats */}
        {renderCompactInsights()}
+
+      {/* 3. Budget progress */}
+      {budgets.length > 0 && renderBudgets()}
     </View>
   );
 };
@@ -356,6 +373,14 @@ const styles = StyleSheet.create({
       gap: 12,
       padding: 16,
   },
+  budgetsCard: {
+      borderRadius: 16,
+      overflow: 'hidden',
+  },
+  budgetsContent: {
+      gap: 12,
+      padding: 16,
+  },
   miniIcon: {
       width: 32,
       height: 32,
@@ -0,0 +1,283 @@
+import React, { useMemo } from "react";
+import { TextInput as RNTextInput, StyleSheet, View } from "react-native";
+import { Button, Chip, IconButton, Text, useTheme } from "react-native-paper";
+import { TransactionItem } from "../types";
+import { formatCurrency, getCurrencySymbol } from "../utils/currency";
+import { calculateItemizedPreview } from "../utils/splits";
+
+// A receipt line item as edited in the form (raw input text)
+export interface ItemDraft {
+  key: string;
+  name: string;
+  price: string;
+  quantity: string;
+  participantIds: string[];
+}
+
+let nextDraftKey = 0;
+
+export const createItemDraft = (item?: TransactionItem): ItemDraft => ({
+  key: item?.id || `new-${nextDraftKey++}`,
+  name: item?.name || "",
+  price: item ? String(item.unit_price) : "",
+  quantity: item ? String(item.quantity) : "1",
+  participantIds: item?.participant_ids || [],
+});
+
+const parseNumber = (value: string) => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? 0 : parsed;
+};
+
+export const itemDraftsToItems = (drafts: ItemDraft[]): TransactionItem[] =>
+  drafts.map((draft) => ({
+    name: draft.name.trim(),
+    unit_price: parseNumber(draft.price),
+    quantity: parseNumber(draft.quantity) || 1,
+    participant_ids: draft.participantIds,
+  }));
+
+const cleanDecimal = (text: string) => {
+  const cleaned = text.replace(/[^0-9.]/g, "");
+  return cleaned.split(".").length > 2 ? null : cleaned;
+};
+
+interface ItemizedEditorProps {
+  items: ItemDraft[];
+  onItemsChange: (items: ItemDraft[]) => void;
+  taxAmount: string;
+  onTaxAmountChange: (value: string) => void;
+  tipAmount: string;
+  onTipAmountChange: (value: string) => void;
+  participants: { id: string; name: string }[]; // Participants items can be assigned to
+  currency: string;
+  disabled?: boolean;
+}
+
+export const ItemizedEditor: React.FC<ItemizedEditorProps> = ({
+  items,
+  onItemsChange,
+  taxAmount,
+  onTaxAmountChange,
+  tipAmount,
+  onTipAmountChange,
+  participants,
+  currency,
+  disabled,
+}) => {
+  const theme = useTheme();
+  const currencySymbol = getCurrencySymbol(currency);
+
+  const preview = useMemo(
+    () => calculateItemizedPreview(
+      itemDraftsToItems(items),
+      parseNumber(taxAmount),
+      parseNumber(tipAmount)
+    ),
+    [items, taxAmount, tipAmount]
+  );
+
+  const updateItem = (key: string, changes: Partial<ItemDraft>) => {
+    onItemsChange(items.map((item) => (item.key === key ? { ...item, ...changes } : item)));
+  };
+
+  const toggleParticipant = (item: ItemDraft, participantId: string) => {
+    updateItem(item.key, {
+      participantIds: item.participantIds.includes(participantId)
+        ? item.participantIds.filter((id) => id !== participantId)
+        : [...item.participantIds, participantId],
+    });
+  };
+
+  const renderAmountInput = (
+    value: string,
+    onChange: (value: string) => void,
+    suffix: string,
+    testID: string,
+    width = 96
+  ) => (
+    <View style={[styles.inputWrapper, { width, backgroundColor: theme.colors.surfaceVariant }]}>
+      <RNTextInput
+        value={value}
+        onChangeText={(text) => {
+          const cleaned = cleanDecimal(text);
+          if (cleaned !== null) onChange(cleaned);
+        }}
+        keyboardType="decimal-pad"
+        placeholder="0"
+        placeholderTextColor={theme.colors.onSurfaceVariant}
+        editable={!disabled}
+        style={[styles.input, { color: theme.colors.onSurface }]}
+        testID={testID}
+      />
+      <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+        {suffix}
+      </Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      {items.map((item, index) => (
+        <View
+          key={item.key}
+          style={[styles.item, { borderColor: theme.colors.outlineVariant }]}
+        >
+          <View style={styles.row}>
+            <RNTextInput
+              value={item.name}
+              onChangeText={(text) => updateItem(item.key, { name: text })}
+              placeholder={`Item ${index + 1}`}
+              placeholderTextColor={theme.colors.onSurfaceVariant}
+              editable={!disabled}
+              style={[styles.nameInput, { color: theme.colors.onSurface }]}
+              testID={`item-name-input-${index}`}
+            />
+            {renderAmountInput(
+              item.quantity,
+              (value) => updateItem(item.key, { quantity: value }),
+              "×",
+              `item-quantity-input-${index}`,
+              56
+            )}
+            {renderAmountInput(
+              item.price,
+              (value) => updateItem(item.key, { price: value }),
+              currencySymbol,
+              `item-price-input-${index}`
+            )}
+            <IconButton
+              icon="close"
+              size={18}
+              onPress={() => onItemsChange(items.filter((i) => i.key !== item.key))}
+              disabled={disabled || items.length === 1}
+              accessibilityLabel="Remove item"
+            />
+          </View>
+          <View style={styles.chipWrap}>
+            {participants.map((p) => {
+              const isSelected = item.participantIds.includes(p.id);
+              return (
+                <Chip
+                  key={p.id}
+                  compact
+                  selected={isSelected}
+                  onPress={() => toggleParticipant(item, p.id)}
+                  style={!isSelected && { backgroundColor: theme.colors.surfaceVariant }}
+                  disabled={disabled}
+                  testID={`item-participant-chip-${index}-${p.id}`}
+                >
+                  {p.name}
+                </Chip>
+              );
+            })}
+          </View>
+        </View>
+      ))}
+
+      <Button
+        mode="text"
+        icon="plus"
+        onPress={() => onItemsChange([...items, createItemDraft()])}
+        disabled={disabled}
+        style={styles.addButton}
+        testID="add-item-button"
+      >
+        Add item
+      </Button>
+
+      <View style={styles.row}>
+        <Text variant="bodyMedium" style={styles.label}>Tax</Text>
+        {renderAmountInput(taxAmount, onTaxAmountChange, currencySymbol, "tax-amount-input")}
+      </View>
+      <View style={styles.row}>
+        <Text variant="bodyMedium" style={styles.label}>Tip</Text>
+        {renderAmountInput(tipAmount, onTipAmountChange, currencySymbol, "tip-amount-input")}
+      </View>
+
+      <View style={styles.summary}>
+        {participants
+          .filter((p) => preview.amounts[p.id] !== undefined)
+          .map((p) => (
+            <View key={p.id} style={styles.summaryRow}>
+              <Text variant="bodyMedium" style={styles.label} numberOfLines={1}>
+                {p.name}
+              </Text>
+              <Text variant="bodyMedium" style={{ fontWeight: "600" }}>
+                {formatCurrency(preview.amounts[p.id], currency)}
+              </Text>
+            </View>
+          ))}
+        <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant, marginTop: 4 }}>
+          Total:{" "}
+          <Text style={{ color: theme.colors.primary, fontWeight: "600" }}>
+            {formatCurrency(preview.total, currency)}
+          </Text>
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+  },
+  item: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 8,
+    marginTop: 8,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 8,
+    gap: 8,
+  },
+  nameInput: {
+    flex: 1,
+    paddingVertical: 6,
+    fontSize: 16,
+  },
+  inputWrapper: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 8,
+    paddingHorizontal: 8,
+  },
+  input: {
+    flex: 1,
+    paddingVertical: 6,
+    fontSize: 16,
+    textAlign: "right",
+    marginRight: 4,
+  },
+  chipWrap: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+    marginTop: 8,
+  },
+  addButton: {
+    alignSelf: "flex-start",
+    marginTop: 8,
+  },
+  label: {
+    flex: 1,
+  },
+  summary: {
+    marginTop: 16,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    backgroundColor: "rgba(0,0,0,0.04)",
+    borderRadius: 12,
+    alignItems: "center",
+    gap: 4,
+  },
+  summaryRow: {
+    flexDirection: "row",
+    alignSelf: "stretch",
+    gap: 8,
+  },
+});
@@ -0,0 +1,132 @@
+import React from "react";
+import { Platform, StyleSheet, View } from "react-native";
+import { ActivityIndicator, Divider, List, Switch, Text, useTheme } from "react-native-paper";
+import { useAuth } from "../contexts/AuthContext";
+import { useGroups } from "../hooks/useGroups";
+import {
+  useNotificationPreferences,
+  useUpdateNotificationPreferences,
+} from "../hooks/useNotificationPreferences";
+import { NotificationEventType } from "../types";
+import { showErrorAlert } from "../utils/errorHandling";
+
+const EVENT_TYPES: { value: NotificationEventType; label: string; description: string; icon: string }[] = [
+  { value: "transactions", label: "Expenses", description: "Added, edited or deleted expenses you're part of", icon: "format-list-bulleted" },
+  { value: "settlements", label: "Settlements", description: "Payments to or from you", icon: "hand-coin" },
+  { value: "comments", label: "Comments", description: "Comments on your expenses and mentions", icon: "comment-text-outline" },
+  { value: "invitations", label: "Invitations", description: "Invitations to join a group", icon: "email-outline" },
+];
+
+/**
+ * Push notification preferences: event types and per-group mute, plus the
+ * weekly email digest
+ */
+export const NotificationSettings: React.FC = () => {
+  const theme = useTheme();
+  const { signOut } = useAuth();
+  const { data: preferences, isLoading } = useNotificationPreferences();
+  const { data: groups } = useGroups();
+  const updatePreferences = useUpdateNotificationPreferences();
+
+  const save = async (updates: Parameters<typeof updatePreferences.mutate>[0]) => {
+    try {
+      await updatePreferences.mutate(updates);
+    } catch (error) {
+      showErrorAlert(error, signOut, "Error");
+    }
+  };
+
+  const toggleGroupMute = (groupId: string) => {
+    if (!preferences) return;
+    const muted = preferences.muted_group_ids.includes(groupId);
+    void save({
+      muted_group_ids: muted
+        ? preferences.muted_group_ids.filter((id) => id !== groupId)
+        : [...preferences.muted_group_ids, groupId],
+    });
+  };
+
+  if (isLoading || !preferences) {
+    return <ActivityIndicator style={styles.loading} />;
+  }
+
+  return (
+    <View>
+      {Platform.OS === "web" && (
+        <Text variant="bodySmall" style={[styles.hint, { color: theme.colors.onSurfaceVariant }]}>
+          Push notifications are delivered to the mobile app.
+        </Text>
+      )}
+
+      {EVENT_TYPES.map((eventType) => (
+        <List.Item
+          key={eventType.value}
+          title={eventType.label}
+          description={eventType.description}
+          left={(props) => <List.Icon {...props} icon={eventType.icon} />}
+          right={() => (
+            <Switch
+              value={preferences[eventType.value]}
+              onValueChange={(value) => void save({ [eventType.value]: value })}
+              accessibilityLabel={`${eventType.label} notifications`}
+            />
+          )}
+        />
+      ))}
+
+      <Divider style={styles.divider} />
+      <List.Subheader>Email</List.Subheader>
+      <List.Item
+        title="Weekly digest"
+        description="Your balance and new expenses in each group, once a week"
+        left={(props) => <List.Icon {...props} icon="email-newsletter" />}
+        right={() => (
+          <Switch
+            value={preferences.weekly_digest}
+            onValueChange={(value) => void save({ weekly_digest: value })}
+            accessibilityLabel="Weekly email digest"
+          />
+        )}
+      />
+
+      {groups.length > 0 && (
+        <>
+          <Divider style={styles.divider} />
+          <List.Subheader>Groups</List.Subheader>
+          {groups.map((group) => (
+            <List.Item
+              key={group.id}
+              title={group.name}
+              description={preferences.muted_group_ids.includes(group.id) ? "Muted" : undefined}
+              left={(props) => (
+                <List.Icon
+                  {...props}
+                  icon={preferences.muted_group_ids.includes(group.id) ? "bell-off-outline" : "bell-outline"}
+                />
+              )}
+              right={() => (
+                <Switch
+                  value={!preferences.muted_group_ids.includes(group.id)}
+                  onValueChange={() => toggleGroupMute(group.id)}
+                  accessibilityLabel={`Notifications from ${group.name}`}
+                />
+              )}
+            />
+          ))}
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  loading: {
+    marginVertical: 16,
+  },
+  hint: {
+    marginBottom: 8,
+  },
+  divider: {
+    marginVertical: 8,
+  },
+});
@@ -0,0 +1,78 @@
+import React from "react";
+import { Image, Modal, ScrollView, StyleSheet, View } from "react-native";
+import { Appbar, Text, useTheme } from "react-native-paper";
+import { WEB_MAX_WIDTH } from "../constants/layout";
+
+interface ReceiptPreviewModalProps {
+  visible: boolean;
+  title?: string;
+  uris: string[]; // Signed URLs or local URIs of the receipt images
+  onDismiss: () => void;
+}
+
+export const ReceiptPreviewModal: React.FC<ReceiptPreviewModalProps> = ({
+  visible,
+  title = "Receipts",
+  uris,
+  onDismiss,
+}) => {
+  const theme = useTheme();
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={onDismiss}
+      presentationStyle="pageSheet"
+    >
+      <View style={[styles.rootContainer, { backgroundColor: theme.colors.background }]}>
+        <View style={styles.container}>
+          <Appbar.Header>
+            <Appbar.Action icon="close" onPress={onDismiss} />
+            <Appbar.Content title={title} />
+          </Appbar.Header>
+
+          <ScrollView contentContainerStyle={styles.scrollContent}>
+            {uris.length === 0 ? (
+              <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant, textAlign: "center" }}>
+                Receipt is unavailable. Pull to refresh and try again.
+              </Text>
+            ) : (
+              uris.map((uri) => (
+                <Image
+                  key={uri}
+                  source={{ uri }}
+                  style={[styles.image, { backgroundColor: theme.colors.surfaceVariant }]}
+                  resizeMode="contain"
+                  accessibilityLabel="Receipt image"
+                />
+              ))
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  rootContainer: {
+    flex: 1,
+    width: "100%",
+  },
+  container: {
+    flex: 1,
+    width: "100%",
+    maxWidth: WEB_MAX_WIDTH,
+    alignSelf: "center",
+  },
+  scrollContent: {
+    padding: 16,
+    gap: 16,
+  },
+  image: {
+    width: "100%",
+    aspectRatio: 3 / 4,
+    borderRadius: 12,
+  },
+});
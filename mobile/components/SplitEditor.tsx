@@ -0,0 +1,197 @@
+import React, { useMemo } from "react";
+import { TextInput as RNTextInput, StyleSheet, View } from "react-native";
+import { SegmentedButtons, Text, useTheme } from "react-native-paper";
+import { SplitMode } from "../types";
+import { formatCurrency, getCurrencySymbol } from "../utils/currency";
+import { SPLIT_MODE_OPTIONS, calculateSplitPreview } from "../utils/splits";
+
+interface SplitEditorProps {
+  mode: SplitMode;
+  onModeChange: (mode: SplitMode) => void;
+  participants: { id: string; name: string }[]; // Participants the expense is split among
+  values: Record<string, string>; // participant_id -> raw input text
+  onValueChange: (participantId: string, value: string) => void;
+  amount: number;
+  currency: string;
+  disabled?: boolean;
+  hideModeSelector?: boolean; // Used for entering payer amounts, which are always exact
+}
+
+export const SplitEditor: React.FC<SplitEditorProps> = ({
+  mode,
+  onModeChange,
+  participants,
+  values,
+  onValueChange,
+  amount,
+  currency,
+  disabled,
+  hideModeSelector,
+}) => {
+  const theme = useTheme();
+
+  const preview = useMemo(() => {
+    const numericValues: Record<string, number> = {};
+    participants.forEach((p) => {
+      const parsed = parseFloat(values[p.id] || "");
+      numericValues[p.id] = isNaN(parsed) ? 0 : parsed;
+    });
+    return calculateSplitPreview(
+      amount,
+      mode,
+      participants.map((p) => p.id),
+      numericValues
+    );
+  }, [amount, mode, participants, values]);
+
+  const inputSuffix =
+    mode === "exact" ? getCurrencySymbol(currency) : mode === "percentage" ? "%" : "×";
+
+  const renderRemaining = () => {
+    if (mode === "shares") {
+      return (
+        <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+          Total shares:{" "}
+          <Text style={{ color: theme.colors.primary, fontWeight: "600" }}>
+            {preview.totalShares}
+          </Text>
+        </Text>
+      );
+    }
+
+    const isAllocated = Math.abs(preview.remainingAmount) < 0.01 &&
+      (mode !== "percentage" || Math.abs(preview.remainingPercentage) < 0.01);
+    if (isAllocated) {
+      return (
+        <Text variant="bodyMedium" style={{ color: theme.colors.primary, fontWeight: "600" }}>
+          Fully allocated
+        </Text>
+      );
+    }
+
+    const label = preview.remainingAmount < 0 ? "Over by" : "Remaining";
+    return (
+      <Text variant="bodyMedium" style={{ color: theme.colors.error }}>
+        {label}:{" "}
+        <Text style={{ color: theme.colors.error, fontWeight: "600" }}>
+          {formatCurrency(Math.abs(preview.remainingAmount), currency)}
+          {mode === "percentage" && ` (${Math.abs(preview.remainingPercentage)}%)`}
+        </Text>
+      </Text>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {!hideModeSelector && (
+        <SegmentedButtons
+          value={mode}
+          onValueChange={(val: string) => onModeChange(val as SplitMode)}
+          buttons={SPLIT_MODE_OPTIONS.map((option) => ({
+            value: option.value,
+            label: option.label,
+            disabled,
+          }))}
+          density="small"
+        />
+      )}
+
+      {mode === "equal" ? (
+        participants.length > 0 && amount > 0 && (
+          <View style={styles.summary}>
+            <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+              Each person pays:{" "}
+              <Text style={{ color: theme.colors.primary, fontWeight: "600" }}>
+                {formatCurrency(amount / participants.length, currency)}
+              </Text>
+            </Text>
+          </View>
+        )
+      ) : (
+        <>
+          {participants.map((p) => (
+            <View key={p.id} style={styles.row}>
+              <Text variant="bodyMedium" style={styles.name} numberOfLines={1}>
+                {p.name}
+              </Text>
+              <View
+                style={[
+                  styles.inputWrapper,
+                  { backgroundColor: theme.colors.surfaceVariant },
+                ]}
+              >
+                <RNTextInput
+                  value={values[p.id] || ""}
+                  onChangeText={(text) => {
+                    const cleaned = text.replace(/[^0-9.]/g, "");
+                    if (cleaned.split(".").length > 2) return;
+                    onValueChange(p.id, cleaned);
+                  }}
+                  keyboardType="decimal-pad"
+                  placeholder="0"
+                  placeholderTextColor={theme.colors.onSurfaceVariant}
+                  editable={!disabled}
+                  style={[styles.input, { color: theme.colors.onSurface }]}
+                  testID={`split-value-input-${p.id}`}
+                />
+                <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+                  {inputSuffix}
+                </Text>
+              </View>
+              {mode !== "exact" && (
+                <Text
+                  variant="bodySmall"
+                  style={[styles.computed, { color: theme.colors.onSurfaceVariant }]}
+                >
+                  {formatCurrency(preview.amounts[p.id] || 0, currency)}
+                </Text>
+              )}
+            </View>
+          ))}
+          <View style={styles.summary}>{renderRemaining()}</View>
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 16,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 12,
+    gap: 8,
+  },
+  name: {
+    flex: 1,
+  },
+  inputWrapper: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    width: 96,
+  },
+  input: {
+    flex: 1,
+    paddingVertical: 6,
+    fontSize: 16,
+    textAlign: "right",
+    marginRight: 4,
+  },
+  computed: {
+    width: 72,
+    textAlign: "right",
+  },
+  summary: {
+    marginTop: 16,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    backgroundColor: "rgba(0,0,0,0.04)",
+    borderRadius: 12,
+    alignItems: "center",
+  },
+});
@@ -0,0 +1,158 @@
+import React, { useState } from "react";
+import { ScrollView, StyleSheet, View } from "react-native";
+import { Button, Dialog, Portal, Text, useTheme } from "react-native-paper";
+import { useOfflineQueue } from "../hooks/useOfflineQueue";
+import { formatCurrency } from "../utils/currency";
+import { QueuedMutation, SyncConflict } from "../utils/offlineQueue";
+
+interface SyncStatusBannerProps {
+  groupId: string;
+}
+
+const ACTION_LABELS: Record<QueuedMutation["action"], string> = {
+  create: "Adding",
+  update: "Editing",
+  delete: "Deleting",
+};
+
+function describeMutation(mutation: QueuedMutation): string {
+  const { payload } = mutation;
+  const subject = mutation.resource === "transaction"
+    ? payload && "description" in payload && payload.description ? `"${payload.description}"` : "an expense"
+    : payload?.amount !== undefined
+      ? `a settlement of ${formatCurrency(Number(payload.amount), payload.currency)}`
+      : "a settlement";
+  return `${ACTION_LABELS[mutation.action]} ${subject}`;
+}
+
+function describeConflict(conflict: SyncConflict): string {
+  switch (conflict.reason) {
+    case "deleted":
+      return "It was deleted before your change could sync.";
+    case "changed":
+      return "Someone else changed it while your change was waiting to sync.";
+    default:
+      return conflict.message || "The server didn't accept this change.";
+  }
+}
+
+/**
+ * Shows a group's changes that are waiting to sync and lets people resolve
+ * the ones that couldn't be applied
+ */
+export const SyncStatusBanner: React.FC<SyncStatusBannerProps> = ({ groupId }) => {
+  const theme = useTheme();
+  const { mutations, conflicts, syncNow, retryConflict, discardConflict } = useOfflineQueue();
+  const [showConflicts, setShowConflicts] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+
+  const pendingCount = mutations.filter((m) => m.groupId === groupId).length;
+  const groupConflicts = conflicts.filter((c) => c.mutation.groupId === groupId);
+
+  const handleSyncNow = async () => {
+    setSyncing(true);
+    await syncNow();
+    setSyncing(false);
+  };
+
+  if (pendingCount === 0 && groupConflicts.length === 0) return null;
+
+  return (
+    <>
+      {pendingCount > 0 && (
+        <View style={[styles.banner, { backgroundColor: theme.colors.surfaceVariant }]}>
+          <Text style={[styles.bannerText, { color: theme.colors.onSurfaceVariant }]}>
+            {pendingCount} change{pendingCount === 1 ? "" : "s"} waiting to sync
+          </Text>
+          <Button compact mode="text" onPress={handleSyncNow} loading={syncing} disabled={syncing}>
+            Sync now
+          </Button>
+        </View>
+      )}
+
+      {groupConflicts.length > 0 && (
+        <View style={[styles.banner, { backgroundColor: theme.colors.errorContainer }]}>
+          <Text style={[styles.bannerText, { color: theme.colors.onErrorContainer }]}>
+            {groupConflicts.length} change{groupConflicts.length === 1 ? "" : "s"} couldn't be synced
+          </Text>
+          <Button
+            compact
+            mode="text"
+            textColor={theme.colors.onErrorContainer}
+            onPress={() => setShowConflicts(true)}
+          >
+            Review
+          </Button>
+        </View>
+      )}
+
+      <Portal>
+        <Dialog
+          visible={showConflicts && groupConflicts.length > 0}
+          onDismiss={() => setShowConflicts(false)}
+        >
+          <Dialog.Title>Changes Not Synced</Dialog.Title>
+          <Dialog.ScrollArea>
+            <ScrollView contentContainerStyle={styles.conflictList}>
+              {groupConflicts.map((conflict) => (
+                <View
+                  key={conflict.mutation.id}
+                  style={[styles.conflictRow, { borderBottomColor: theme.colors.outlineVariant }]}
+                >
+                  <Text variant="bodyLarge">{describeMutation(conflict.mutation)}</Text>
+                  <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                    {describeConflict(conflict)}
+                  </Text>
+                  <View style={styles.conflictActions}>
+                    <Button compact onPress={() => discardConflict(conflict)}>
+                      Discard
+                    </Button>
+                    {conflict.reason === "changed" && (
+                      <Button compact onPress={() => retryConflict(conflict)}>
+                        Apply anyway
+                      </Button>
+                    )}
+                    {conflict.reason === "rejected" && (
+                      <Button compact onPress={() => retryConflict(conflict)}>
+                        Try again
+                      </Button>
+                    )}
+                  </View>
+                </View>
+              ))}
+            </ScrollView>
+          </Dialog.ScrollArea>
+          <Dialog.Actions>
+            <Button onPress={() => setShowConflicts(false)}>Close</Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 2,
+    width: "100%",
+  },
+  bannerText: {
+    fontSize: 12,
+    fontWeight: "bold",
+  },
+  conflictList: {
+    paddingVertical: 8,
+  },
+  conflictRow: {
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  conflictActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+  },
+});
@@ -52,6 +52,21 @@ export const styles = StyleSheet.create({
     alignItems: "center",
     width: '100%',
   },
+  receiptButton: {
+    margin: 0,
+    width: 24,
+    height: 24,
+  },
+  commentButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginLeft: 4,
+  },
+  pendingSync: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginLeft: 4,
+  },
   // Empty State
   emptyState: {
     alignItems: "center",
@@ -1,9 +1,11 @@
-import React from "react";
+import React, { useMemo, useState } from "react";
 import { Pressable, View } from "react-native";
-import { ActivityIndicator, Avatar, Surface, Text, useTheme } from "react-native-paper";
+import { ActivityIndicator, Avatar, IconButton, Surface, Text, useTheme } from "react-native-paper";
 import { useAuth } from "../contexts/AuthContext";
-import { Participant, Transaction } from "../types";
+import { Category, Participant, Transaction } from "../types";
 import { formatCurrency, getDefaultCurrency } from "../utils/currency";
+import { isTemporaryId } from "../utils/offlineQueue";
+import { ReceiptPreviewModal } from "./ReceiptPreviewModal";
 import { styles } from "./TransactionsSection.styles";
 
 interface TransactionsSectionProps {
@@ -12,6 +14,9 @@ interface TransactionsSectionProps {
   onEdit: (t: Transaction) => void;
   members: any[]; // Using any[] temporarily if GroupMember import has issues, but ideally GroupMember[]
   participants?: Participant[];
+  loadingMore?: boolean; // Older pages are loaded as the parent scrolls to the end
+  categories?: Category[];
+  onCommentsPress?: (t: Transaction) => void;
 }
 
 export const TransactionsSection: React.FC<TransactionsSectionProps> = ({
@@ -20,10 +25,18 @@ export const TransactionsSection: React.FC<TransactionsSectionProps> = ({
   onEdit,
   members = [],
   participants = [],
+  loadingMore = false,
+  categories = [],
+  onCommentsPress,
 }) => {
   const theme = useTheme();
   const { session } = useAuth();
   const currentUserId = session?.user?.id;
+  const [previewTransaction, setPreviewTransaction] = useState<Transaction | null>(null);
+  const categoryMap = useMemo(
+    () => new Map(categories.map((category) => [category.id, category])),
+    [categories]
+  );
 
   const getCategoryIcon = (category: string) => {
     // Simple mapping for now, can be expanded
@@ -37,11 +50,21 @@ export const TransactionsSection: React.FC<TransactionsSectionProps> = ({
   };
 
   const getPayerName = (transaction: Transaction) => {
+      // Multiple payers: show the largest payer plus how many others paid
+      if (transaction.payers && transaction.payers.length > 1) {
+          const primaryName = getParticipantName(transaction.paid_by_participant_id);
+          return `${primaryName} +${transaction.payers.length - 1}`;
+      }
+
+      return getParticipantName(transaction.paid_by_participant_id, transaction.paid_by);
+  };
+
+  const getParticipantName = (participantId?: string, legacyUserId?: string) => {
       // 1. Try resolving by participant_id from participants array first (for invited users)
-      if (transaction.paid_by_participant_id) {
+      if (participantId) {
           // Check participants first (includes invited users)
           const participant = participants.find(p => 
-            p.id === transaction.paid_by_participant_id
+            p.id === participantId
           );
           if (participant) {
               const baseName = participant.user_id === currentUserId ? "You" : (participant.full_name || participant.email?.split('@')[0] || participant.email || "Unknown");
@@ -50,8 +73,8 @@ export const TransactionsSection: React.FC<TransactionsSectionProps> = ({
           
           // Fallback to members lookup
           const payer = members.find(m => 
-            m.participant_id === transaction.paid_by_participant_id || 
-            m.id === transaction.paid_by_participant_id
+            m.participant_id === participantId || 
+            m.id === participantId
           );
           if (payer) {
               const baseName = payer.user_id === currentUserId ? "You" : (payer.full_name || payer.email?.split('@')[0] || payer.email || "Unknown");
@@ -60,9 +83,9 @@ export const TransactionsSection: React.FC<TransactionsSectionProps> = ({
       }
       
       // 2. Fallback to user_id
-      if (transaction.paid_by) {
-           if (transaction.paid_by === currentUserId) return "You";
-           const payer = members.find(m => m.user_id === transaction.paid_by);
+      if (legacyUserId) {
+           if (legacyUserId === currentUserId) return "You";
+           const payer = members.find(m => m.user_id === legacyUserId);
            if (payer) {
                return payer.full_name || payer.email?.split('@')[0] || payer.email || "Unknown";
            }
@@ -79,7 +102,8 @@ export const TransactionsSection: React.FC<TransactionsSectionProps> = ({
         <View style={styles.list}>
           {items.map((transaction, index) => {
             const currency = transaction.currency || getDefaultCurrency();
-            const categoryIcon = getCategoryIcon(transaction.category || "");
+            const linkedCategory = transaction.category_id ? categoryMap.get(transaction.category_id) : undefined;
+            const categoryIcon = linkedCategory?.icon || getCategoryIcon(transaction.category || "");
             const date = new Date(transaction.date);
             const now = new Date();
             const yesterday = new Date(now);
@@ -95,6 +119,8 @@ export const TransactionsSection: React.FC<TransactionsSectionProps> = ({
             }
 
             const payerName = getPayerName(transaction);
+            // Not on the server yet, so there's no thread to comment in
+            const isQueuedCreate = isTemporaryId(transaction.id);
 
             return (
               <Surface
@@ -111,11 +137,11 @@ export const TransactionsSection: React.FC<TransactionsSectionProps> = ({
                 >
                   <View style={styles.row}>
                     {/* Icon: Tonal Circle */}
-                    <View style={[styles.iconContainer, { backgroundColor: theme.colors.secondaryContainer }]}>
+                    <View style={[styles.iconContainer, { backgroundColor: linkedCategory?.color || theme.colors.secondaryContainer }]}>
                         <Avatar.Icon 
                           size={24} 
                           icon={categoryIcon} 
-                          color={theme.colors.onSecondaryContainer}
+                          color={linkedCategory ? "#FFFFFF" : theme.colors.onSecondaryContainer}
                           style={{ backgroundColor: 'transparent' }}
                         />
                     </View>
@@ -135,6 +161,54 @@ export const TransactionsSection: React.FC<TransactionsSectionProps> = ({
                           <Text variant="bodySmall" numberOfLines={1} style={{ color: theme.colors.onSurfaceVariant, flex: 1 }}>
                              {dateString} • {payerName} paid
                           </Text>
+                          {(transaction.attachments?.length || 0) > 0 && (
+                            <IconButton
+                              icon="paperclip"
+                              size={16}
+                              style={styles.receiptButton}
+                              iconColor={theme.colors.onSurfaceVariant}
+                              onPress={() => setPreviewTransaction(transaction)}
+                              accessibilityLabel="View receipts"
+                              testID={`receipt-button-${transaction.id}`}
+                            />
+                          )}
+                          {transaction.pending_sync && (
+                            <View
+                              style={styles.pendingSync}
+                              accessibilityLabel="Pending sync"
+                              testID={`pending-sync-${transaction.id}`}
+                            >
+                              <Avatar.Icon
+                                icon="cloud-upload-outline"
+                                size={24}
+                                color={theme.colors.onSurfaceVariant}
+                                style={{ backgroundColor: 'transparent' }}
+                              />
+                              <Text variant="labelSmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                                Pending sync
+                              </Text>
+                            </View>
+                          )}
+                          {onCommentsPress && !isQueuedCreate && (
+                            <Pressable
+                              onPress={() => onCommentsPress(transaction)}
+                              style={styles.commentButton}
+                              accessibilityLabel="View comments"
+                              testID={`comment-button-${transaction.id}`}
+                            >
+                              <Avatar.Icon
+                                icon={transaction.comment_count ? "comment-text-outline" : "comment-outline"}
+                                size={24}
+                                color={theme.colors.onSurfaceVariant}
+                                style={{ backgroundColor: 'transparent' }}
+                              />
+                              {!!transaction.comment_count && (
+                                <Text variant="labelSmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                                  {transaction.comment_count}
+                                </Text>
+                              )}
+                            </Pressable>
+                          )}
                       </View>
                     </View>
                   </View>
@@ -142,6 +216,7 @@ export const TransactionsSection: React.FC<TransactionsSectionProps> = ({
               </Surface>
             );
           })}
+          {loadingMore && <ActivityIndicator size="small" style={{ marginVertical: 16 }} />}
         </View>
       ) : (
         <View style={[styles.emptyState, { backgroundColor: theme.colors.surfaceVariant }]}>
@@ -154,6 +229,15 @@ export const TransactionsSection: React.FC<TransactionsSectionProps> = ({
           </Text>
         </View>
       )}
+
+      <ReceiptPreviewModal
+        visible={!!previewTransaction}
+        title={previewTransaction?.description || "Receipts"}
+        uris={(previewTransaction?.attachments || [])
+          .map((a) => a.url)
+          .filter((url): url is string => !!url)}
+        onDismiss={() => setPreviewTransaction(null)}
+      />
     </View>
   );
 };
@@ -13,6 +13,12 @@ export const ACTIVITY_FEED_UI = {
 export const ACTIVITY_ICONS = {
   TRANSACTION: 'receipt-text-outline',
   SETTLEMENT: 'handshake-outline',
+  GROUP: 'account-group-outline',
+  COMMENT: 'comment-text-outline',
+  MEMBER_JOINED: 'account-plus-outline',
+  MEMBER_LEFT: 'account-minus-outline',
+  INVITATION: 'email-outline',
+  REMINDER: 'bell-ring-outline',
   EMPTY_STATE: 'clipboard-text-outline',
 } as const;
 
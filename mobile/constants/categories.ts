@@ -0,0 +1,48 @@
+/**
+ * Constants for group categories
+ */
+
+// Icons offered when adding or editing a category (MaterialCommunityIcons)
+export const CATEGORY_ICONS = [
+  'receipt',
+  'food',
+  'coffee',
+  'glass-cocktail',
+  'cart',
+  'taxi',
+  'car',
+  'gas-station',
+  'airplane',
+  'bed',
+  'home',
+  'lightning-bolt',
+  'wifi',
+  'movie',
+  'music',
+  'shopping',
+  'gift',
+  'medical-bag',
+  'dumbbell',
+  'paw',
+  'school',
+  'tag',
+] as const;
+
+export const CATEGORY_COLORS = [
+  '#F44336',
+  '#FF9800',
+  '#FFC107',
+  '#4CAF50',
+  '#009688',
+  '#2196F3',
+  '#3F51B5',
+  '#9C27B0',
+  '#795548',
+  '#607D8B',
+] as const;
+
+export const UNCATEGORIZED = {
+  NAME: 'Uncategorized',
+  ICON: 'tag-off-outline',
+  COLOR: '#9E9E9E',
+} as const;
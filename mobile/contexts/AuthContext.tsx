@@ -15,6 +15,7 @@ import { Platform } from "react-native";
 import { AUTH_TIMEOUTS } from "../constants/auth";
 import { supabase } from "../supabase";
 import { log, logError } from "../utils/logger";
+import { unregisterPushNotifications } from "../utils/pushNotifications";
 
 // Complete the auth session when browser closes
 WebBrowser.maybeCompleteAuthSession();
@@ -417,6 +418,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
    */
   const signOut = useCallback(async () => {
     try {
+      // Needs the session, so it runs before signing out
+      await unregisterPushNotifications();
       const { error } = await supabase.auth.signOut();
       if (error) {
         logError(error, { context: "signOut" });
@@ -5,9 +5,18 @@ export const queryKeys = {
   profile: (userId: string | null) => ["profile", userId] as const,
   userProfiles: (userIds: string[]) => ["userProfiles", ...userIds.sort()] as const,
   transactions: (groupId: string) => ["transactions", groupId] as const,
+  transactionHistory: (transactionId: number) => ["transactionHistory", transactionId] as const,
   balances: (groupId: string) => ["balances", groupId] as const,
   activity: (groupId: string) => ["activity", groupId] as const,
+  activityInbox: ["activityInbox"] as const,
   invitations: (groupId: string) => ["invitations", groupId] as const,
   settlements: (groupId: string) => ["settlements", groupId] as const,
   participants: (groupId: string) => ["participants", groupId] as const,
+  exchangeRates: (groupId: string) => ["exchangeRates", groupId] as const,
+  recurringTransactions: (groupId: string) => ["recurringTransactions", groupId] as const,
+  categories: (groupId: string) => ["categories", groupId] as const,
+  budgets: (groupId: string) => ["budgets", groupId] as const,
+  trash: (groupId: string) => ["trash", groupId] as const,
+  notificationPreferences: ["notificationPreferences"] as const,
+  comments: (target: "transaction" | "settlement", id: number | string) => ["comments", target, String(id)] as const,
 };
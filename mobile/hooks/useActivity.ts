@@ -1,41 +1,118 @@
-import { useQuery } from "@tanstack/react-query";
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useMemo } from "react";
 import { useAuth } from "../contexts/AuthContext";
-import { ActivityFeedResponse } from "../types";
+import { ActivityFeedResponse, ActivityFilters } from "../types";
 import { fetchWithAuth } from "../utils/api";
 import { queryKeys } from "./queryKeys";
 
+/**
+ * Fetches a page of a group's activity, or of the inbox across all groups
+ * when groupId is null
+ */
 export async function fetchActivity(
-  groupId: string
+  groupId: string | null,
+  cursor?: string | null,
+  filters?: ActivityFilters,
+  limit: number = 50
 ): Promise<ActivityFeedResponse> {
-  const response = await fetchWithAuth(`/activity?group_id=${groupId}&limit=50`);
+  const params = new URLSearchParams({ limit: String(limit) });
+  if (groupId) params.set("group_id", groupId);
+  if (cursor) params.set("cursor", cursor);
+  Object.entries(filters ?? {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") params.set(key, String(value));
+  });
+  const response = await fetchWithAuth(`/activity?${params.toString()}`);
   if (!response.ok) {
     throw new Error(`Failed to fetch activity: ${response.status}`);
   }
   return response.json();
 }
 
-export function useActivity(groupId?: string | null) {
+function activityQueryKey(groupId: string | null, filters?: ActivityFilters) {
+  const key = groupId === null ? queryKeys.activityInbox : queryKeys.activity(groupId);
+  return filters ? [...key, filters] : key;
+}
+
+function useActivityPages(groupId: string | null, enabled: boolean, filters?: ActivityFilters) {
   const { user } = useAuth();
 
-  const query = useQuery<ActivityFeedResponse, Error>({
-    // Guarded by `enabled`, so groupId is always non-null inside queryFn
-    queryKey: groupId ? queryKeys.activity(groupId) : queryKeys.activity(""),
-    queryFn: () => fetchActivity(groupId as string),
-    enabled: !!user?.id && !!groupId,
-    // Use placeholderData so initial load still reports isLoading=true
-    placeholderData: { activities: [], total: 0, has_more: false },
+  const query = useInfiniteQuery({
+    queryKey: activityQueryKey(groupId, filters),
+    queryFn: ({ pageParam }) => fetchActivity(groupId, pageParam, filters),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage: ActivityFeedResponse) => lastPage.next_cursor,
+    enabled: !!user?.id && enabled,
     staleTime: 60_000,
   });
 
-  const data = query.data ?? { activities: [], total: 0, has_more: false };
+  const activities = useMemo(
+    () => query.data?.pages.flatMap((page) => page.activities) ?? [],
+    [query.data]
+  );
 
   return {
-    data: { activities: data.activities || [] },
+    data: { activities },
     isLoading: query.isLoading,
     isFetching: query.isFetching,
     error: query.error ?? null,
-    total: data.total || 0,
-    hasMore: data.has_more || false,
+    hasMore: query.hasNextPage,
+    isLoadingMore: query.isFetchingNextPage,
+    loadMore: query.fetchNextPage,
     refetch: query.refetch,
+    // Inbox only; the first page has the current count
+    unreadCount: query.data?.pages[0]?.unread_count ?? 0,
+  };
+}
+
+export function useActivity(groupId?: string | null, filters?: ActivityFilters) {
+  // Guarded by `enabled`, so groupId is always set inside queryFn
+  return useActivityPages(groupId ?? "", !!groupId, filters);
+}
+
+/**
+ * Activity across all of the user's groups, with read state
+ */
+export function useActivityInbox(filters?: ActivityFilters) {
+  return useActivityPages(null, true, filters);
+}
+
+/**
+ * Unread inbox items, for the navigation badge
+ */
+export function useUnreadActivityCount() {
+  const { user } = useAuth();
+
+  const query = useQuery<ActivityFeedResponse, Error>({
+    queryKey: [...queryKeys.activityInbox, "unread"],
+    queryFn: () => fetchActivity(null, null, undefined, 1),
+    enabled: !!user?.id,
+    staleTime: 60_000,
+  });
+
+  return query.data?.unread_count ?? 0;
+}
+
+export function useMarkActivityRead(onSuccess?: () => void) {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<{ last_read_at: string }, Error, { readUntil?: string } | void>({
+    mutationFn: async (variables) => {
+      const response = await fetchWithAuth("/activity/read", {
+        method: "POST",
+        body: JSON.stringify(variables?.readUntil ? { read_until: variables.readUntil } : {}),
+      });
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.activityInbox });
+      onSuccess?.();
+    },
+  });
+
+  return {
+    mutate: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: (mutation.error as Error | null) ?? null,
   };
 }
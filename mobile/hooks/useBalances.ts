@@ -4,10 +4,23 @@ import { BalancesResponse } from "../types";
 import { fetchWithAuth } from "../utils/api";
 import { queryKeys } from "./queryKeys";
 
+export type BalancesOptions = {
+  convert?: boolean; // Convert each group's balances into its settlement currency
+  simplify?: boolean; // Include the server's suggested transfers (simplified_debts)
+  confirmedOnly?: boolean; // Ignore settlements the receiver hasn't confirmed
+};
+
 export async function fetchBalances(
-  groupId?: string | null
+  groupId?: string | null,
+  options: BalancesOptions = {}
 ): Promise<BalancesResponse> {
-  const endpoint = groupId ? `/balances?group_id=${groupId}` : "/balances";
+  const params = new URLSearchParams();
+  if (groupId) params.set("group_id", groupId);
+  if (options.convert) params.set("convert", "true");
+  if (options.simplify) params.set("simplify", "true");
+  if (options.confirmedOnly) params.set("confirmed_only", "true");
+  const query = params.toString();
+  const endpoint = query ? `/balances?${query}` : "/balances";
   const response = await fetchWithAuth(endpoint);
   if (!response.ok) {
     throw new Error(`Failed to fetch balances: ${response.status}`);
@@ -15,13 +28,30 @@ export async function fetchBalances(
   return response.json();
 }
 
-export function useBalances(groupId?: string | null) {
+export function balancesQueryKey(groupId?: string | null, options: BalancesOptions = {}) {
+  // Use "all" for global fetch to differentiate from specific group fetches
+  const baseKey = groupId ? queryKeys.balances(groupId) : ["balances", "all"];
+  return [
+    ...baseKey,
+    ...(options.convert ? ["converted"] : []),
+    ...(options.simplify ? ["simplified"] : []),
+    ...(options.confirmedOnly ? ["confirmed"] : []),
+  ];
+}
+
+// Group screens convert into the settlement currency (a no-op when the group has none)
+// and use the server's debt simplification
+export const GROUP_BALANCES_OPTIONS: BalancesOptions = { convert: true, simplify: true };
+
+export function useBalances(
+  groupId?: string | null,
+  options: BalancesOptions = {}
+) {
   const { user } = useAuth();
 
   const query = useQuery<BalancesResponse, Error>({
-    // Use "all" for global fetch to differentiate from specific group fetches
-    queryKey: groupId ? queryKeys.balances(groupId) : ["balances", "all"],
-    queryFn: () => fetchBalances(groupId),
+    queryKey: balancesQueryKey(groupId, options),
+    queryFn: () => fetchBalances(groupId, options),
     enabled: !!user?.id && (!!groupId || groupId === null || groupId === undefined),
     staleTime: 5_000, // Reduced for testing responsiveness
   });
@@ -0,0 +1,129 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "../contexts/AuthContext";
+import { Budget, BudgetPeriod } from "../types";
+import { fetchWithAuth } from "../utils/api";
+import { queryKeys } from "./queryKeys";
+
+export async function fetchBudgets(groupId: string): Promise<Budget[]> {
+  const response = await fetchWithAuth(`/budgets?group_id=${groupId}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch budgets: ${response.status}`);
+  }
+  return response.json();
+}
+
+export function useBudgets(groupId?: string | null) {
+  const { user } = useAuth();
+
+  const query = useQuery<Budget[], Error>({
+    // Guarded by `enabled`, so groupId is always non-null inside queryFn
+    queryKey: groupId ? queryKeys.budgets(groupId) : queryKeys.budgets(""),
+    queryFn: () => fetchBudgets(groupId as string),
+    enabled: !!user?.id && !!groupId,
+    staleTime: 30_000,
+  });
+
+  return {
+    data: query.data ?? [],
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    error: query.error ?? null,
+    refetch: query.refetch,
+  };
+}
+
+export function useCreateBudget(onSuccess?: () => void) {
+  const queryClient = useQueryClient();
+
+  interface CreateBudgetInput {
+    group_id: string;
+    category_id?: string | null;
+    amount: number;
+    currency: string;
+    period: BudgetPeriod;
+  }
+
+  const mutation = useMutation<Budget, Error, CreateBudgetInput>({
+    mutationFn: async (budgetData) => {
+      const response = await fetchWithAuth("/budgets", {
+        method: "POST",
+        body: JSON.stringify(budgetData),
+      });
+
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.budgets(variables.group_id) });
+      onSuccess?.();
+    },
+  });
+
+  return {
+    mutate: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: (mutation.error as Error | null) ?? null,
+  };
+}
+
+export function useUpdateBudget(onSuccess?: () => void) {
+  const queryClient = useQueryClient();
+
+  interface UpdateBudgetInput {
+    id: string;
+    groupId: string;
+    category_id?: string | null;
+    amount?: number;
+    currency?: string;
+    period?: BudgetPeriod;
+  }
+
+  const mutation = useMutation<Budget, Error, UpdateBudgetInput>({
+    mutationFn: async ({ groupId: _groupId, ...budgetData }) => {
+      const response = await fetchWithAuth("/budgets", {
+        method: "PUT",
+        body: JSON.stringify(budgetData),
+      });
+
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.budgets(variables.groupId) });
+      onSuccess?.();
+    },
+  });
+
+  return {
+    mutate: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: (mutation.error as Error | null) ?? null,
+  };
+}
+
+export function useDeleteBudget(onSuccess?: () => void) {
+  const queryClient = useQueryClient();
+
+  interface DeleteBudgetInput {
+    id: string;
+    groupId: string;
+  }
+
+  const mutation = useMutation<DeleteBudgetInput, Error, DeleteBudgetInput>({
+    mutationFn: async (variables) => {
+      await fetchWithAuth(`/budgets?id=${variables.id}`, {
+        method: "DELETE",
+      });
+
+      return variables;
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.budgets(variables.groupId) });
+      onSuccess?.();
+    },
+  });
+
+  return {
+    mutate: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: (mutation.error as Error | null) ?? null,
+  };
+}
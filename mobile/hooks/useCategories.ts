@@ -0,0 +1,137 @@
+import type { QueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "../contexts/AuthContext";
+import { Category } from "../types";
+import { fetchWithAuth } from "../utils/api";
+import { queryKeys } from "./queryKeys";
+
+export async function fetchCategories(groupId: string): Promise<Category[]> {
+  const response = await fetchWithAuth(`/categories?group_id=${groupId}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch categories: ${response.status}`);
+  }
+  return response.json();
+}
+
+function invalidateCategoryAdjacents(queryClient: QueryClient, groupId?: string) {
+  if (!groupId) return;
+  queryClient.invalidateQueries({ queryKey: queryKeys.categories(groupId) });
+  // Deleting a category uncategorizes its transactions and removes its budgets
+  queryClient.invalidateQueries({ queryKey: queryKeys.transactions(groupId) });
+  queryClient.invalidateQueries({ queryKey: queryKeys.budgets(groupId) });
+}
+
+export function useCategories(groupId?: string | null) {
+  const { user } = useAuth();
+
+  const query = useQuery<Category[], Error>({
+    // Guarded by `enabled`, so groupId is always non-null inside queryFn
+    queryKey: groupId ? queryKeys.categories(groupId) : queryKeys.categories(""),
+    queryFn: () => fetchCategories(groupId as string),
+    enabled: !!user?.id && !!groupId,
+    staleTime: 60_000,
+  });
+
+  return {
+    data: query.data ?? [],
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    error: query.error ?? null,
+    refetch: query.refetch,
+  };
+}
+
+export function useCreateCategory(onSuccess?: () => void) {
+  const queryClient = useQueryClient();
+
+  interface CreateCategoryInput {
+    group_id: string;
+    name: string;
+    icon?: string;
+    color?: string;
+  }
+
+  const mutation = useMutation<Category, Error, CreateCategoryInput>({
+    mutationFn: async (categoryData) => {
+      const response = await fetchWithAuth("/categories", {
+        method: "POST",
+        body: JSON.stringify(categoryData),
+      });
+
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      invalidateCategoryAdjacents(queryClient, variables.group_id);
+      onSuccess?.();
+    },
+  });
+
+  return {
+    mutate: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: (mutation.error as Error | null) ?? null,
+  };
+}
+
+export function useUpdateCategory(onSuccess?: () => void) {
+  const queryClient = useQueryClient();
+
+  interface UpdateCategoryInput {
+    id: string;
+    groupId: string;
+    name?: string;
+    icon?: string;
+    color?: string;
+    position?: number;
+  }
+
+  const mutation = useMutation<Category, Error, UpdateCategoryInput>({
+    mutationFn: async ({ groupId: _groupId, ...categoryData }) => {
+      const response = await fetchWithAuth("/categories", {
+        method: "PUT",
+        body: JSON.stringify(categoryData),
+      });
+
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      invalidateCategoryAdjacents(queryClient, variables.groupId);
+      onSuccess?.();
+    },
+  });
+
+  return {
+    mutate: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: (mutation.error as Error | null) ?? null,
+  };
+}
+
+export function useDeleteCategory(onSuccess?: () => void) {
+  const queryClient = useQueryClient();
+
+  interface DeleteCategoryInput {
+    id: string;
+    groupId: string;
+  }
+
+  const mutation = useMutation<DeleteCategoryInput, Error, DeleteCategoryInput>({
+    mutationFn: async (variables) => {
+      await fetchWithAuth(`/categories?id=${variables.id}`, {
+        method: "DELETE",
+      });
+
+      return variables;
+    },
+    onSuccess: (_data, variables) => {
+      invalidateCategoryAdjacents(queryClient, variables.groupId);
+      onSuccess?.();
+    },
+  });
+
+  return {
+    mutate: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: (mutation.error as Error | null) ?? null,
+  };
+}
@@ -0,0 +1,143 @@
+import type { QueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "../contexts/AuthContext";
+import { Comment } from "../types";
+import { fetchWithAuth } from "../utils/api";
+import { queryKeys } from "./queryKeys";
+
+// The transaction or settlement a thread belongs to
+export type CommentTarget =
+  | { type: "transaction"; id: number }
+  | { type: "settlement"; id: string };
+
+export async function fetchComments(target: CommentTarget): Promise<Comment[]> {
+  const response = await fetchWithAuth(`/comments?${target.type}_id=${target.id}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch comments: ${response.status}`);
+  }
+  return response.json();
+}
+
+function invalidateCommentAdjacents(queryClient: QueryClient, target: CommentTarget, groupId: string) {
+  queryClient.invalidateQueries({ queryKey: queryKeys.comments(target.type, target.id) });
+  // Comment counts are shown on transaction rows and settlements
+  queryClient.invalidateQueries({
+    queryKey: target.type === "transaction" ? queryKeys.transactions(groupId) : queryKeys.settlements(groupId),
+  });
+  queryClient.invalidateQueries({ queryKey: queryKeys.activity(groupId) });
+}
+
+export function useComments(target?: CommentTarget | null) {
+  const { user } = useAuth();
+
+  const query = useQuery<Comment[], Error>({
+    // Guarded by `enabled`, so target is always non-null inside queryFn
+    queryKey: target ? queryKeys.comments(target.type, target.id) : queryKeys.comments("transaction", ""),
+    queryFn: () => fetchComments(target as CommentTarget),
+    enabled: !!user?.id && !!target,
+    staleTime: 15_000,
+  });
+
+  return {
+    data: query.data ?? [],
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    error: query.error ?? null,
+    refetch: query.refetch,
+  };
+}
+
+export function useCreateComment(onSuccess?: () => void) {
+  const queryClient = useQueryClient();
+
+  interface CreateCommentInput {
+    target: CommentTarget;
+    groupId: string;
+    body: string;
+    mentioned_participant_ids?: string[];
+  }
+
+  const mutation = useMutation<Comment, Error, CreateCommentInput>({
+    mutationFn: async ({ target, groupId: _groupId, ...commentData }) => {
+      const response = await fetchWithAuth("/comments", {
+        method: "POST",
+        body: JSON.stringify({ ...commentData, [`${target.type}_id`]: target.id }),
+      });
+
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      invalidateCommentAdjacents(queryClient, variables.target, variables.groupId);
+      onSuccess?.();
+    },
+  });
+
+  return {
+    mutate: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: (mutation.error as Error | null) ?? null,
+  };
+}
+
+export function useUpdateComment(onSuccess?: () => void) {
+  const queryClient = useQueryClient();
+
+  interface UpdateCommentInput {
+    id: string;
+    target: CommentTarget;
+    groupId: string;
+    body: string;
+    mentioned_participant_ids?: string[];
+  }
+
+  const mutation = useMutation<Comment, Error, UpdateCommentInput>({
+    mutationFn: async ({ target: _target, groupId: _groupId, ...commentData }) => {
+      const response = await fetchWithAuth("/comments", {
+        method: "PUT",
+        body: JSON.stringify(commentData),
+      });
+
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      invalidateCommentAdjacents(queryClient, variables.target, variables.groupId);
+      onSuccess?.();
+    },
+  });
+
+  return {
+    mutate: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: (mutation.error as Error | null) ?? null,
+  };
+}
+
+export function useDeleteComment(onSuccess?: () => void) {
+  const queryClient = useQueryClient();
+
+  interface DeleteCommentInput {
+    id: string;
+    target: CommentTarget;
+    groupId: string;
+  }
+
+  const mutation = useMutation<DeleteCommentInput, Error, DeleteCommentInput>({
+    mutationFn: async (variables) => {
+      await fetchWithAuth(`/comments?id=${variables.id}`, {
+        method: "DELETE",
+      });
+
+      return variables;
+    },
+    onSuccess: (_data, variables) => {
+      invalidateCommentAdjacents(queryClient, variables.target, variables.groupId);
+      onSuccess?.();
+    },
+  });
+
+  return {
+    mutate: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: (mutation.error as Error | null) ?? null,
+  };
+}
@@ -0,0 +1,134 @@
+import type { QueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "../contexts/AuthContext";
+import { ExchangeRate } from "../types";
+import { fetchWithAuth } from "../utils/api";
+import { queryKeys } from "./queryKeys";
+
+export async function fetchExchangeRates(groupId: string): Promise<ExchangeRate[]> {
+  const response = await fetchWithAuth(`/exchange-rates?group_id=${groupId}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch exchange rates: ${response.status}`);
+  }
+  return response.json();
+}
+
+function invalidateExchangeRateAdjacents(queryClient: QueryClient, groupId?: string) {
+  if (!groupId) return;
+  queryClient.invalidateQueries({ queryKey: queryKeys.exchangeRates(groupId) });
+  queryClient.invalidateQueries({ queryKey: ["balances"] }); // Converted balances depend on rates
+  queryClient.invalidateQueries({ queryKey: queryKeys.balances(groupId) });
+}
+
+export function useExchangeRates(groupId?: string | null) {
+  const { user } = useAuth();
+
+  const query = useQuery<ExchangeRate[], Error>({
+    // Guarded by `enabled`, so groupId is always non-null inside queryFn
+    queryKey: groupId ? queryKeys.exchangeRates(groupId) : queryKeys.exchangeRates(""),
+    queryFn: () => fetchExchangeRates(groupId as string),
+    enabled: !!user?.id && !!groupId,
+    staleTime: 60_000,
+  });
+
+  return {
+    data: query.data ?? [],
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    error: query.error ?? null,
+    refetch: query.refetch,
+  };
+}
+
+export function useAddExchangeRate(onSuccess?: () => void) {
+  const queryClient = useQueryClient();
+
+  interface AddExchangeRateInput {
+    group_id: string;
+    base_currency: string;
+    quote_currency: string;
+    rate: number;
+    effective_date?: string;
+  }
+
+  const mutation = useMutation<ExchangeRate[], Error, AddExchangeRateInput>({
+    mutationFn: async (rateData) => {
+      const response = await fetchWithAuth("/exchange-rates", {
+        method: "POST",
+        body: JSON.stringify(rateData),
+      });
+
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      invalidateExchangeRateAdjacents(queryClient, variables.group_id);
+      onSuccess?.();
+    },
+  });
+
+  return {
+    mutate: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: (mutation.error as Error | null) ?? null,
+  };
+}
+
+export function useImportExchangeRates(onSuccess?: () => void) {
+  const queryClient = useQueryClient();
+
+  interface ImportExchangeRatesInput {
+    group_id: string;
+    format: "csv" | "json";
+    content: string; // Contents of the CSV/JSON file
+  }
+
+  const mutation = useMutation<ExchangeRate[], Error, ImportExchangeRatesInput>({
+    mutationFn: async (importData) => {
+      const response = await fetchWithAuth("/exchange-rates", {
+        method: "POST",
+        body: JSON.stringify(importData),
+      });
+
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      invalidateExchangeRateAdjacents(queryClient, variables.group_id);
+      onSuccess?.();
+    },
+  });
+
+  return {
+    mutate: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: (mutation.error as Error | null) ?? null,
+  };
+}
+
+export function useDeleteExchangeRate(onSuccess?: () => void) {
+  const queryClient = useQueryClient();
+
+  interface DeleteExchangeRateInput {
+    id: string;
+    groupId: string;
+  }
+
+  const mutation = useMutation<DeleteExchangeRateInput, Error, DeleteExchangeRateInput>({
+    mutationFn: async (variables) => {
+      await fetchWithAuth(`/exchange-rates?id=${variables.id}`, {
+        method: "DELETE",
+      });
+
+      return variables;
+    },
+    onSuccess: (_data, variables) => {
+      invalidateExchangeRateAdjacents(queryClient, variables.groupId);
+      onSuccess?.();
+    },
+  });
+
+  return {
+    mutate: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: (mutation.error as Error | null) ?? null,
+  };
+}
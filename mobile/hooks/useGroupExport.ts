@@ -0,0 +1,36 @@
+import { useMutation } from "@tanstack/react-query";
+import { fetchWithAuth } from "../utils/api";
+import { shareTextFile } from "../utils/shareFile";
+
+export type ExportFormat = "csv" | "json";
+
+const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv",
+  json: "application/json",
+};
+
+export async function fetchGroupExport(
+  groupId: string,
+  format: ExportFormat
+): Promise<{ content: string; fileName: string }> {
+  const response = await fetchWithAuth(`/export?group_id=${groupId}&format=${format}`);
+  const disposition = response.headers.get("Content-Disposition") || "";
+  const fileName = /filename="([^"]+)"/.exec(disposition)?.[1] || `group-export.${format}`;
+  return { content: await response.text(), fileName };
+}
+
+// Downloads the group's ledger and opens the share sheet (download on web)
+export function useExportGroup() {
+  const mutation = useMutation<void, Error, { groupId: string; format: ExportFormat }>({
+    mutationFn: async ({ groupId, format }) => {
+      const { content, fileName } = await fetchGroupExport(groupId, format);
+      await shareTextFile(content, fileName, EXPORT_MIME_TYPES[format]);
+    },
+  });
+
+  return {
+    mutate: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: mutation.error,
+  };
+}
@@ -60,6 +60,7 @@ export function useCancelInvitation(onSuccess?: () => void) {
       });
       queryClient.invalidateQueries({ queryKey: queryKeys.group(data.groupId) });
       queryClient.invalidateQueries({ queryKey: queryKeys.participants(data.groupId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.activity(data.groupId) });
       onSuccess?.();
     },
   });
@@ -12,6 +12,7 @@ function invalidateGroupAdjacents(queryClient: QueryClient, groupId?: string) {
   queryClient.invalidateQueries({ queryKey: queryKeys.activity(groupId) });
   queryClient.invalidateQueries({ queryKey: queryKeys.invitations(groupId) });
   queryClient.invalidateQueries({ queryKey: queryKeys.settlements(groupId) });
+  queryClient.invalidateQueries({ queryKey: queryKeys.trash(groupId) });
   queryClient.invalidateQueries({ queryKey: queryKeys.participants(groupId) });
 }
 
@@ -75,6 +76,103 @@ export function useDeleteGroup(onSuccess?: () => void) {
   };
 }
 
+export function useUpdateSettlementCurrency(onSuccess?: () => void) {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async ({
+      groupId,
+      settlementCurrency,
+    }: {
+      groupId: string;
+      settlementCurrency: string | null; // null keeps balances per currency
+    }) => {
+      const response = await fetchWithAuth(`/groups/${groupId}`, {
+        method: "PUT",
+        body: JSON.stringify({ settlement_currency: settlementCurrency }),
+      });
+
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      invalidateGroupAdjacents(queryClient, variables.groupId);
+      onSuccess?.();
+    },
+  });
+
+  return {
+    mutate: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: (mutation.error as Error | null) ?? null,
+  };
+}
+
+export interface GroupSettingsUpdate {
+  name?: string;
+  description?: string | null;
+  default_currency?: string | null;
+  emoji?: string | null;
+  cover_color?: string | null;
+  trash_retention_days?: number;
+}
+
+export function useUpdateGroup(onSuccess?: () => void) {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async ({
+      groupId,
+      changes,
+    }: {
+      groupId: string;
+      changes: GroupSettingsUpdate; // null or "" clears an optional field
+    }) => {
+      const response = await fetchWithAuth(`/groups/${groupId}`, {
+        method: "PUT",
+        body: JSON.stringify(changes),
+      });
+
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      invalidateGroupAdjacents(queryClient, variables.groupId);
+      onSuccess?.();
+    },
+  });
+
+  return {
+    mutate: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: (mutation.error as Error | null) ?? null,
+  };
+}
+
+// Archives a settled group (read-only) or restores it
+export function useSetGroupArchived(onSuccess?: () => void) {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async ({ groupId, archived }: { groupId: string; archived: boolean }) => {
+      const response = await fetchWithAuth(`/groups/${groupId}`, {
+        method: "PUT",
+        body: JSON.stringify({ archived }),
+      });
+
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      invalidateGroupAdjacents(queryClient, variables.groupId);
+      onSuccess?.();
+    },
+  });
+
+  return {
+    mutate: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: (mutation.error as Error | null) ?? null,
+  };
+}
+
 export function useAddMember(onSuccess?: () => void) {
   const queryClient = useQueryClient();
 
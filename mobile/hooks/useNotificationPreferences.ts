@@ -0,0 +1,74 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "../contexts/AuthContext";
+import { NotificationPreferences } from "../types";
+import { fetchWithAuth } from "../utils/api";
+import { queryKeys } from "./queryKeys";
+
+export async function fetchNotificationPreferences(): Promise<NotificationPreferences> {
+  const response = await fetchWithAuth("/notifications/preferences");
+  if (!response.ok) {
+    throw new Error(`Failed to fetch notification preferences: ${response.status}`);
+  }
+  return response.json();
+}
+
+export function useNotificationPreferences() {
+  const { user } = useAuth();
+
+  const query = useQuery<NotificationPreferences, Error>({
+    queryKey: queryKeys.notificationPreferences,
+    queryFn: fetchNotificationPreferences,
+    enabled: !!user?.id,
+    staleTime: 60_000,
+  });
+
+  return {
+    data: query.data ?? null,
+    isLoading: query.isLoading,
+    error: query.error ?? null,
+    refetch: query.refetch,
+  };
+}
+
+export function useUpdateNotificationPreferences() {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<
+    NotificationPreferences,
+    Error,
+    Partial<NotificationPreferences>,
+    { previous?: NotificationPreferences }
+  >({
+    mutationFn: async (updates) => {
+      const response = await fetchWithAuth("/notifications/preferences", {
+        method: "PUT",
+        body: JSON.stringify(updates),
+      });
+
+      return response.json();
+    },
+    // Switches flip immediately and roll back if saving fails
+    onMutate: async (updates) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.notificationPreferences });
+      const previous = queryClient.getQueryData<NotificationPreferences>(queryKeys.notificationPreferences);
+      if (previous) {
+        queryClient.setQueryData(queryKeys.notificationPreferences, { ...previous, ...updates });
+      }
+      return { previous };
+    },
+    onError: (_error, _updates, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKeys.notificationPreferences, context.previous);
+      }
+    },
+    onSuccess: (preferences) => {
+      queryClient.setQueryData(queryKeys.notificationPreferences, preferences);
+    },
+  });
+
+  return {
+    mutate: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: (mutation.error as Error | null) ?? null,
+  };
+}
@@ -0,0 +1,100 @@
+import type { QueryClient } from "@tanstack/react-query";
+import { useQueryClient } from "@tanstack/react-query";
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+import { AppState } from "react-native";
+import { useAuth } from "../contexts/AuthContext";
+import { logError } from "../utils/logger";
+import {
+  discardConflict,
+  getOfflineQueueState,
+  hasQueuedMutations,
+  loadOfflineQueue,
+  ReplayResult,
+  replayOfflineQueue,
+  retryConflict,
+  subscribeToOfflineQueue,
+} from "../utils/offlineQueue";
+import { queryKeys } from "./queryKeys";
+
+const RETRY_INTERVAL_MS = 30_000;
+
+// Synced changes (and conflicts) alter server data the cached lists were built from
+function refreshAffectedGroups(queryClient: QueryClient, result: ReplayResult) {
+  const groupIds = new Set(
+    [...result.synced, ...result.conflicts.map((c) => c.mutation)]
+      .map((m) => m.groupId)
+      .filter((id): id is string => !!id)
+  );
+  if (groupIds.size === 0) return;
+
+  groupIds.forEach((groupId) => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.transactions(groupId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.settlements(groupId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.balances(groupId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.activity(groupId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.budgets(groupId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.trash(groupId) });
+  });
+  queryClient.invalidateQueries({ queryKey: ["balances"] }); // Invalidate all balances (including global)
+  queryClient.invalidateQueries({ queryKey: ["transactionHistory"] });
+}
+
+function syncOfflineQueue(queryClient: QueryClient): Promise<void> {
+  return replayOfflineQueue()
+    .then((result) => refreshAffectedGroups(queryClient, result))
+    .catch((err) => logError(err, { context: "syncOfflineQueue" }));
+}
+
+/**
+ * Changes waiting to be synced and the ones that couldn't be
+ */
+export function useOfflineQueue() {
+  const queryClient = useQueryClient();
+  const state = useSyncExternalStore(subscribeToOfflineQueue, getOfflineQueueState);
+
+  const syncNow = useCallback(() => syncOfflineQueue(queryClient), [queryClient]);
+
+  return {
+    mutations: state.mutations,
+    conflicts: state.conflicts,
+    syncNow,
+    retryConflict, // Requeued changes are picked up by useOfflineSync
+    discardConflict,
+  };
+}
+
+/**
+ * Loads the signed-in user's queue and replays it whenever changes are
+ * queued, when the app comes back to the foreground and periodically while
+ * changes are waiting
+ */
+export function useOfflineSync() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const pendingCount = useSyncExternalStore(
+    subscribeToOfflineQueue,
+    () => getOfflineQueueState().mutations.length
+  );
+
+  useEffect(() => {
+    loadOfflineQueue(user?.id ?? null).catch((err) =>
+      logError(err, { context: "loadOfflineQueue" })
+    );
+  }, [user?.id]);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener("change", (status) => {
+      if (status === "active" && hasQueuedMutations()) {
+        syncOfflineQueue(queryClient);
+      }
+    });
+    return () => subscription.remove();
+  }, [queryClient]);
+
+  useEffect(() => {
+    if (pendingCount === 0) return;
+    syncOfflineQueue(queryClient);
+    const interval = setInterval(() => syncOfflineQueue(queryClient), RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [pendingCount, queryClient]);
+}
@@ -0,0 +1,38 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { PaymentReminder } from "../types";
+import { fetchWithAuth } from "../utils/api";
+import { queryKeys } from "./queryKeys";
+
+interface SendReminderInput {
+  group_id: string;
+  participant_id: string; // Participant who owes money
+}
+
+/**
+ * Emails a participant what they owe in a group, with a settle-up link.
+ * Fails when the same pair was reminded in the last 24 hours.
+ */
+export function useSendReminder(onSuccess?: () => void) {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation<PaymentReminder, Error, SendReminderInput>({
+    mutationFn: async (input) => {
+      const response = await fetchWithAuth("/emails/reminders", {
+        method: "POST",
+        body: JSON.stringify(input),
+      });
+
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.activity(variables.group_id) });
+      onSuccess?.();
+    },
+  });
+
+  return {
+    mutate: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: (mutation.error as Error | null) ?? null,
+  };
+}
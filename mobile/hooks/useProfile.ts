@@ -10,6 +10,9 @@ export interface Profile {
   avatar_url?: string;
   phone?: string;
   country_code?: string;
+  upi_vpa?: string | null; // Payment handles, offered to groupmates when they settle up
+  paypal_me?: string | null;
+  iban?: string | null;
   profile_completed: boolean;
   created_at: string;
   updated_at: string;
@@ -0,0 +1,149 @@
+import type { QueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "../contexts/AuthContext";
+import { RecurrenceFrequency, RecurringTransaction, SplitMode, SplitValue } from "../types";
+import { fetchWithAuth } from "../utils/api";
+import { queryKeys } from "./queryKeys";
+
+export async function fetchRecurringTransactions(groupId: string): Promise<RecurringTransaction[]> {
+  const response = await fetchWithAuth(`/recurring-transactions?group_id=${groupId}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch recurring expenses: ${response.status}`);
+  }
+  return response.json();
+}
+
+function invalidateRecurringTransactionAdjacents(queryClient: QueryClient, groupId?: string) {
+  if (!groupId) return;
+  queryClient.invalidateQueries({ queryKey: queryKeys.recurringTransactions(groupId) });
+  // Creating a series can materialize its first occurrences right away
+  queryClient.invalidateQueries({ queryKey: queryKeys.transactions(groupId) });
+  queryClient.invalidateQueries({ queryKey: ["balances"] });
+  queryClient.invalidateQueries({ queryKey: queryKeys.balances(groupId) });
+  queryClient.invalidateQueries({ queryKey: queryKeys.activity(groupId) });
+}
+
+export function useRecurringTransactions(groupId?: string | null) {
+  const { user } = useAuth();
+
+  const query = useQuery<RecurringTransaction[], Error>({
+    // Guarded by `enabled`, so groupId is always non-null inside queryFn
+    queryKey: groupId ? queryKeys.recurringTransactions(groupId) : queryKeys.recurringTransactions(""),
+    queryFn: () => fetchRecurringTransactions(groupId as string),
+    enabled: !!user?.id && !!groupId,
+    staleTime: 60_000,
+  });
+
+  return {
+    data: query.data ?? [],
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    error: query.error ?? null,
+    refetch: query.refetch,
+  };
+}
+
+export function useCreateRecurringTransaction(onSuccess?: () => void) {
+  const queryClient = useQueryClient();
+
+  interface CreateRecurringTransactionInput {
+    group_id: string;
+    description: string;
+    amount: number;
+    currency: string;
+    category?: string;
+    paid_by_participant_id: string;
+    split_among_participant_ids?: string[];
+    split_mode?: SplitMode;
+    split_values?: SplitValue[];
+    frequency: RecurrenceFrequency;
+    interval_count?: number;
+    start_date: string;
+    end_date?: string | null;
+  }
+
+  const mutation = useMutation<RecurringTransaction, Error, CreateRecurringTransactionInput>({
+    mutationFn: async (seriesData) => {
+      const response = await fetchWithAuth("/recurring-transactions", {
+        method: "POST",
+        body: JSON.stringify(seriesData),
+      });
+
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      invalidateRecurringTransactionAdjacents(queryClient, variables.group_id);
+      onSuccess?.();
+    },
+  });
+
+  return {
+    mutate: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: (mutation.error as Error | null) ?? null,
+  };
+}
+
+export function useUpdateRecurringTransaction(onSuccess?: () => void) {
+  const queryClient = useQueryClient();
+
+  interface UpdateRecurringTransactionInput {
+    id: string;
+    groupId: string;
+    status?: "active" | "paused";
+    description?: string;
+    amount?: number;
+    category?: string | null;
+    end_date?: string | null;
+  }
+
+  const mutation = useMutation<RecurringTransaction, Error, UpdateRecurringTransactionInput>({
+    mutationFn: async ({ id, groupId: _groupId, ...updates }) => {
+      const response = await fetchWithAuth(`/recurring-transactions/${id}`, {
+        method: "PUT",
+        body: JSON.stringify(updates),
+      });
+
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      invalidateRecurringTransactionAdjacents(queryClient, variables.groupId);
+      onSuccess?.();
+    },
+  });
+
+  return {
+    mutate: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: (mutation.error as Error | null) ?? null,
+  };
+}
+
+export function useDeleteRecurringTransaction(onSuccess?: () => void) {
+  const queryClient = useQueryClient();
+
+  interface DeleteRecurringTransactionInput {
+    id: string;
+    groupId: string;
+  }
+
+  const mutation = useMutation<DeleteRecurringTransactionInput, Error, DeleteRecurringTransactionInput>({
+    mutationFn: async (variables) => {
+      await fetchWithAuth(`/recurring-transactions/${variables.id}`, {
+        method: "DELETE",
+      });
+
+      return variables;
+    },
+    onSuccess: (_data, variables) => {
+      invalidateRecurringTransactionAdjacents(queryClient, variables.groupId);
+      onSuccess?.();
+    },
+  });
+
+  return {
+    mutate: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: (mutation.error as Error | null) ?? null,
+  };
+}
@@ -1,9 +1,12 @@
 import type { QueryClient } from "@tanstack/react-query";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useMemo } from "react";
 import { useAuth } from "../contexts/AuthContext";
-import { SettlementsResponse } from "../types";
-import { fetchWithAuth } from "../utils/api";
+import { Settlement, SettlementsResponse } from "../types";
+import { fetchWithAuth, getVersionConflict, IDEMPOTENCY_KEY_HEADER } from "../utils/api";
+import { applyQueuedSettlements, sendOrQueue } from "../utils/offlineQueue";
 import { queryKeys } from "./queryKeys";
+import { useOfflineQueue } from "./useOfflineQueue";
 
 export async function fetchSettlements(groupId: string): Promise<SettlementsResponse> {
   const response = await fetchWithAuth(`/settlements?group_id=${groupId}`);
@@ -19,10 +22,12 @@ function invalidateSettlementAdjacents(queryClient: QueryClient, groupId?: strin
   queryClient.invalidateQueries({ queryKey: ["balances"] }); // Invalidate all balances (including global)
   queryClient.invalidateQueries({ queryKey: queryKeys.balances(groupId) });
   queryClient.invalidateQueries({ queryKey: queryKeys.activity(groupId) });
+  queryClient.invalidateQueries({ queryKey: queryKeys.trash(groupId) });
 }
 
 export function useSettlements(groupId?: string | null) {
   const { user } = useAuth();
+  const { mutations } = useOfflineQueue();
 
   const query = useQuery<SettlementsResponse, Error>({
     // Guarded by `enabled`, so groupId is always non-null inside queryFn
@@ -34,8 +39,13 @@ export function useSettlements(groupId?: string | null) {
     staleTime: 30_000,
   });
 
+  const settlements = useMemo(() => {
+    const fetched = query.data?.settlements ?? [];
+    return groupId ? applyQueuedSettlements(fetched, mutations, groupId) : fetched;
+  }, [query.data, mutations, groupId]);
+
   return {
-    data: { settlements: query.data?.settlements ?? [] },
+    data: { settlements },
     isLoading: query.isLoading,
     isFetching: query.isFetching,
     error: query.error ?? null,
@@ -55,12 +65,19 @@ export function useCreateSettlement(onSuccess?: () => void) {
     notes?: string;
   }
 
-  const mutation = useMutation<SettlementsResponse, Error, CreateSettlementInput>({
+  // null when queued to sync later
+  const mutation = useMutation<SettlementsResponse | null, Error, CreateSettlementInput>({
     mutationFn: async (settlementData) => {
-      const response = await fetchWithAuth("/settlements", {
-        method: "POST",
-        body: JSON.stringify(settlementData),
-      });
+      const { response, queued } = await sendOrQueue(
+        { resource: "settlement", action: "create", groupId: settlementData.group_id, payload: settlementData },
+        (idempotencyKey) => fetchWithAuth("/settlements", {
+          method: "POST",
+          body: JSON.stringify(settlementData),
+          headers: { [IDEMPOTENCY_KEY_HEADER]: idempotencyKey },
+        })
+      );
+
+      if (queued) return null;
 
       if (!response.ok) {
         throw new Error("Failed to create settlement");
@@ -92,14 +109,28 @@ export function useUpdateSettlement(onSuccess?: () => void) {
     group_id?: string;
     from_participant_id?: string;
     to_participant_id?: string;
+    version?: number; // The version the edit is based on
   }
 
-  const mutation = useMutation<SettlementsResponse, Error, UpdateSettlementInput>({
+  // null when queued to sync later
+  const mutation = useMutation<SettlementsResponse | null, Error, UpdateSettlementInput>({
     mutationFn: async (settlementData) => {
-      const response = await fetchWithAuth("/settlements", {
-        method: "PUT",
-        body: JSON.stringify(settlementData),
-      });
+      const { response, queued } = await sendOrQueue(
+        {
+          resource: "settlement",
+          action: "update",
+          groupId: settlementData.group_id,
+          targetId: settlementData.id,
+          payload: settlementData,
+          baseVersion: settlementData.version,
+        },
+        () => fetchWithAuth("/settlements", {
+          method: "PUT",
+          body: JSON.stringify(settlementData),
+        })
+      );
+
+      if (queued) return null;
 
       if (!response.ok) {
         throw new Error("Failed to update settlement");
@@ -112,6 +143,47 @@ export function useUpdateSettlement(onSuccess?: () => void) {
       invalidateSettlementAdjacents(queryClient, groupId);
       onSuccess?.();
     },
+    onError: (error, variables) => {
+      // Someone else saved first, so the cached copy is out of date
+      if (variables.group_id && getVersionConflict(error)) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.settlements(variables.group_id) });
+      }
+    },
+  });
+
+  return {
+    mutate: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: (mutation.error as Error | null) ?? null,
+  };
+}
+
+/**
+ * Confirms or disputes a settlement; only its receiver can do this
+ */
+export function useRespondToSettlement(onSuccess?: () => void) {
+  const queryClient = useQueryClient();
+
+  interface RespondToSettlementInput {
+    id: string;
+    groupId?: string;
+    status: "confirmed" | "disputed";
+    reason?: string;
+  }
+
+  const mutation = useMutation<{ settlement: Settlement }, Error, RespondToSettlementInput>({
+    mutationFn: async ({ id, status, reason }) => {
+      const action = status === "confirmed" ? "confirm" : "dispute";
+      const response = await fetchWithAuth(`/settlements/${id}/${action}`, {
+        method: "POST",
+        body: JSON.stringify(status === "disputed" && reason ? { reason } : {}),
+      });
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      invalidateSettlementAdjacents(queryClient, variables.groupId);
+      onSuccess?.();
+    },
   });
 
   return {
@@ -131,9 +203,14 @@ export function useDeleteSettlement(onSuccess?: () => void) {
 
   const mutation = useMutation<DeleteSettlementInput, Error, DeleteSettlementInput, { groupId?: string, previous?: SettlementsResponse }>({
     mutationFn: async (variables) => {
-      const response = await fetchWithAuth(`/settlements?id=${variables.id}`, {
-        method: "DELETE",
-      });
+      const { response, queued } = await sendOrQueue(
+        { resource: "settlement", action: "delete", groupId: variables.groupId, targetId: variables.id },
+        () => fetchWithAuth(`/settlements?id=${variables.id}`, {
+          method: "DELETE",
+        })
+      );
+
+      if (queued) return variables;
 
       if (!response.ok && response.status !== 204) {
         throw new Error("Failed to delete settlement");
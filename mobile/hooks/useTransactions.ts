@@ -1,27 +1,61 @@
-import type { QueryClient } from "@tanstack/react-query";
-import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { InfiniteData, QueryClient } from "@tanstack/react-query";
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useMemo } from "react";
 import { useAuth } from "../contexts/AuthContext";
-import { Transaction } from "../types";
-import { fetchWithAuth } from "../utils/api";
+import {
+  ReceiptUpload,
+  Transaction,
+  TransactionAttachment,
+  TransactionFilters,
+  TransactionHistoryResponse,
+  TransactionsPage,
+  TransactionVersion,
+} from "../types";
+import { fetchWithAuth, getVersionConflict, IDEMPOTENCY_KEY_HEADER } from "../utils/api";
+import { applyQueuedTransactions, sendOrQueue } from "../utils/offlineQueue";
 import { queryKeys } from "./queryKeys";
-
-export async function fetchTransactions(groupId?: string | null): Promise<Transaction[]> {
-  const endpoint = groupId ? `/transactions?group_id=${groupId}` : "/transactions";
-  const response = await fetchWithAuth(endpoint);
+import { useOfflineQueue } from "./useOfflineQueue";
+
+// Sending a limit asks for the paged response ({ transactions, next_cursor })
+const PAGE_SIZE = 50;
+
+export async function fetchTransactions(
+  groupId?: string | null,
+  cursor?: string | null,
+  filters?: TransactionFilters
+): Promise<TransactionsPage> {
+  const params = new URLSearchParams();
+  if (groupId) params.set("group_id", groupId);
+  params.set("limit", String(PAGE_SIZE));
+  if (cursor) params.set("cursor", cursor);
+  Object.entries(filters ?? {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") params.set(key, String(value));
+  });
+  const response = await fetchWithAuth(`/transactions?${params.toString()}`);
   if (!response.ok) {
     throw new Error(`Failed to fetch transactions: ${response.status}`);
   }
-  const transactions: Transaction[] = await response.json();
-
-  return transactions.sort((a, b) => {
-    const dateA = a.created_at
-      ? new Date(a.created_at).getTime()
-      : new Date(a.date).getTime();
-    const dateB = b.created_at
-      ? new Date(b.created_at).getTime()
-      : new Date(b.date).getTime();
-    return dateB - dateA;
-  });
+  return response.json();
+}
+
+// Unfiltered lists live under queryKeys.transactions so mutations can update
+// them optimistically; filtered lists are only refetched.
+function transactionsQueryKey(groupId: string, filters?: TransactionFilters) {
+  return filters ? [...queryKeys.transactions(groupId), filters] : queryKeys.transactions(groupId);
+}
+
+// Applies an optimistic change to every cached page of a group's transactions
+function updateCachedTransactions(
+  queryClient: QueryClient,
+  groupId: string,
+  update: (transactions: Transaction[], pageIndex: number) => Transaction[]
+) {
+  queryClient.setQueryData<InfiniteData<TransactionsPage>>(queryKeys.transactions(groupId), (old) =>
+    old && {
+      ...old,
+      pages: old.pages.map((page, index) => ({ ...page, transactions: update(page.transactions, index) })),
+    }
+  );
 }
 
 function invalidateTransactionAdjacents(queryClient: QueryClient, groupId?: string | null) {
@@ -30,27 +64,40 @@ function invalidateTransactionAdjacents(queryClient: QueryClient, groupId?: stri
   queryClient.invalidateQueries({ queryKey: ["balances"] }); // Invalidate all balances (including global)
   queryClient.invalidateQueries({ queryKey: queryKeys.balances(groupId) });
   queryClient.invalidateQueries({ queryKey: queryKeys.activity(groupId) });
+  queryClient.invalidateQueries({ queryKey: queryKeys.budgets(groupId) });
+  queryClient.invalidateQueries({ queryKey: queryKeys.trash(groupId) });
+  queryClient.invalidateQueries({ queryKey: ["transactionHistory"] });
 }
 
-export function useTransactions(groupId?: string | null) {
+export function useTransactions(groupId?: string | null, filters?: TransactionFilters) {
   const { user } = useAuth();
+  const { mutations } = useOfflineQueue();
 
-  const query = useQuery<Transaction[], Error>({
+  const query = useInfiniteQuery({
     // Guarded by `enabled`, so groupId is always defined inside queryFn
-    queryKey: groupId ? queryKeys.transactions(groupId) : queryKeys.transactions(""),
-    queryFn: () => fetchTransactions(groupId),
+    queryKey: transactionsQueryKey(groupId ?? "", filters),
+    queryFn: ({ pageParam }) => fetchTransactions(groupId, pageParam, filters),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage: TransactionsPage) => lastPage.next_cursor,
     enabled: !!user?.id && (!!groupId || groupId === null || groupId === undefined),
-    // Use placeholderData so initial load still reports isLoading=true
-    placeholderData: [],
     staleTime: 30_000,
   });
 
+  // Changes waiting to sync show in the group's full list, not filtered ones
+  const data = useMemo(() => {
+    const transactions = query.data?.pages.flatMap((page) => page.transactions) ?? [];
+    return groupId && !filters ? applyQueuedTransactions(transactions, mutations, groupId) : transactions;
+  }, [query.data, mutations, groupId, filters]);
+
   return {
-    data: query.data ?? [],
+    data,
     isLoading: query.isLoading,
     isFetching: query.isFetching,
     error: query.error ?? null,
     refetch: query.refetch,
+    hasMore: query.hasNextPage,
+    isLoadingMore: query.isFetchingNextPage,
+    loadMore: query.fetchNextPage,
   };
 }
 
@@ -66,12 +113,20 @@ type UpdateTransactionInput = BaseTransactionInput;
 export function useCreateTransaction(onSuccess?: () => void) {
   const queryClient = useQueryClient();
 
-  const mutation = useMutation<Transaction | null, Error, CreateTransactionInput, { previous?: Transaction[], groupId: string }>({
+  const mutation = useMutation<Transaction | null, Error, CreateTransactionInput, { previous?: InfiniteData<TransactionsPage>, groupId: string }>({
     mutationFn: async (transactionData) => {
-      const response = await fetchWithAuth("/transactions", {
-        method: "POST",
-        body: JSON.stringify(transactionData),
-      });
+      const { response, queued } = await sendOrQueue(
+        { resource: "transaction", action: "create", groupId: transactionData.group_id, payload: transactionData },
+        (idempotencyKey) => fetchWithAuth("/transactions", {
+          method: "POST",
+          body: JSON.stringify(transactionData),
+          headers: { [IDEMPOTENCY_KEY_HEADER]: idempotencyKey },
+        })
+      );
+
+      if (queued) {
+        return { ...(transactionData as Transaction), id: queued.targetId as number, pending_sync: true };
+      }
 
       if (!response.ok) {
         throw new Error("Failed to create transaction");
@@ -84,7 +139,7 @@ export function useCreateTransaction(onSuccess?: () => void) {
       if (!groupId) return { groupId, previous: undefined };
 
       await queryClient.cancelQueries({ queryKey: queryKeys.transactions(groupId) });
-      const previous = queryClient.getQueryData<Transaction[]>(
+      const previous = queryClient.getQueryData<InfiniteData<TransactionsPage>>(
         queryKeys.transactions(groupId)
       );
 
@@ -94,12 +149,8 @@ export function useCreateTransaction(onSuccess?: () => void) {
         created_at: new Date().toISOString(),
       };
 
-      queryClient.setQueryData<Transaction[]>(
-        queryKeys.transactions(groupId),
-        (old) => {
-          const current = old ?? [];
-          return [optimisticEntry, ...current];
-        }
+      updateCachedTransactions(queryClient, groupId, (transactions, pageIndex) =>
+        pageIndex === 0 ? [optimisticEntry, ...transactions] : transactions
       );
 
       return { previous, groupId };
@@ -112,8 +163,16 @@ export function useCreateTransaction(onSuccess?: () => void) {
         );
       }
     },
-    onSuccess: (_data, variables, context) => {
+    onSuccess: (data, variables, context) => {
       const groupId = variables.group_id;
+      if (data?.pending_sync) {
+        // Queued creates are shown from the queue rather than the optimistic entry
+        if (context?.groupId && context.previous) {
+          queryClient.setQueryData(queryKeys.transactions(context.groupId), context.previous);
+        }
+        onSuccess?.();
+        return;
+      }
       invalidateTransactionAdjacents(queryClient, groupId);
       if (context?.groupId) {
         queryClient.invalidateQueries({
@@ -134,12 +193,26 @@ export function useCreateTransaction(onSuccess?: () => void) {
 export function useUpdateTransaction(onSuccess?: () => void) {
   const queryClient = useQueryClient();
 
-  const mutation = useMutation<Transaction | null, Error, UpdateTransactionInput, { previous?: Transaction[], groupId: string }>({
+  const mutation = useMutation<Transaction | null, Error, UpdateTransactionInput, { previous?: InfiniteData<TransactionsPage>, groupId: string }>({
     mutationFn: async (transactionData) => {
-      const response = await fetchWithAuth("/transactions", {
-        method: "PUT",
-        body: JSON.stringify(transactionData),
-      });
+      const { response, queued } = await sendOrQueue(
+        {
+          resource: "transaction",
+          action: "update",
+          groupId: transactionData.group_id,
+          targetId: transactionData.id,
+          payload: transactionData,
+          baseVersion: transactionData.version,
+        },
+        () => fetchWithAuth("/transactions", {
+          method: "PUT",
+          body: JSON.stringify(transactionData),
+        })
+      );
+
+      if (queued) {
+        return { ...(transactionData as Transaction), pending_sync: true };
+      }
 
       if (!response.ok) {
         throw new Error("Failed to update transaction");
@@ -152,30 +225,37 @@ export function useUpdateTransaction(onSuccess?: () => void) {
       if (!groupId) return { groupId, previous: undefined };
 
       await queryClient.cancelQueries({ queryKey: queryKeys.transactions(groupId) });
-      const previous = queryClient.getQueryData<Transaction[]>(
+      const previous = queryClient.getQueryData<InfiniteData<TransactionsPage>>(
         queryKeys.transactions(groupId)
       );
 
-      queryClient.setQueryData<Transaction[]>(queryKeys.transactions(groupId), (old) => {
-          const current = old ?? [];
-          return current.map((tx) =>
-            tx.id === variables.id ? { ...tx, ...variables } : tx
-          );
-        }
+      updateCachedTransactions(queryClient, groupId, (transactions) =>
+        transactions.map((tx) =>
+          tx.id === variables.id ? { ...tx, ...variables } : tx
+        )
       );
 
       return { previous, groupId };
     },
-    onError: (_error, _variables, context) => {
+    onError: (error, _variables, context) => {
       if (context?.groupId && context.previous) {
         queryClient.setQueryData(
           queryKeys.transactions(context.groupId),
           context.previous
         );
       }
+      // Someone else saved first, so the cached copy is out of date
+      if (context?.groupId && getVersionConflict(error)) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.transactions(context.groupId) });
+      }
     },
-    onSuccess: (_data, variables, context) => {
+    onSuccess: (data, variables, context) => {
       const groupId = variables.group_id;
+      if (data?.pending_sync) {
+        // Keep the optimistic change; refetching would undo it until the queue syncs
+        onSuccess?.();
+        return;
+      }
       invalidateTransactionAdjacents(queryClient, groupId);
       if (context?.groupId) {
         queryClient.invalidateQueries({
@@ -197,15 +277,28 @@ export function useDeleteTransaction(onSuccess?: () => void) {
   const queryClient = useQueryClient();
 
   const mutation = useMutation<
-    { id: number; group_id?: string },
+    { id: number; group_id?: string; version?: number; pending_sync?: boolean },
     Error,
-    { id: number; group_id?: string },
-    { previous?: Transaction[], groupId?: string }
+    { id: number; group_id?: string; version?: number }, // version: what the delete is based on
+    { previous?: InfiniteData<TransactionsPage>, groupId?: string }
   >({
     mutationFn: async (variables) => {
-      const response = await fetchWithAuth(`/transactions?id=${variables.id}`, {
-        method: "DELETE",
-      });
+      const { response, queued } = await sendOrQueue(
+        {
+          resource: "transaction",
+          action: "delete",
+          groupId: variables.group_id,
+          targetId: variables.id,
+          baseVersion: variables.version,
+        },
+        () => fetchWithAuth(`/transactions?id=${variables.id}`, {
+          method: "DELETE",
+        })
+      );
+
+      if (queued) {
+        return { ...variables, pending_sync: true };
+      }
 
       if (!response.ok) {
         throw new Error("Failed to delete transaction");
@@ -218,13 +311,12 @@ export function useDeleteTransaction(onSuccess?: () => void) {
       if (!groupId) return { groupId, previous: undefined };
 
       await queryClient.cancelQueries({ queryKey: queryKeys.transactions(groupId) });
-      const previous = queryClient.getQueryData<Transaction[]>(
+      const previous = queryClient.getQueryData<InfiniteData<TransactionsPage>>(
         queryKeys.transactions(groupId)
       );
 
-      queryClient.setQueryData<Transaction[]>(
-        queryKeys.transactions(groupId),
-        (old) => (old ?? []).filter((tx) => tx.id !== variables.id)
+      updateCachedTransactions(queryClient, groupId, (transactions) =>
+        transactions.filter((tx) => tx.id !== variables.id)
       );
 
       return { previous, groupId };
@@ -237,8 +329,13 @@ export function useDeleteTransaction(onSuccess?: () => void) {
         );
       }
     },
-    onSuccess: (_data, variables, context) => {
+    onSuccess: (data, variables, context) => {
       const groupId = variables.group_id;
+      if (data?.pending_sync) {
+        // Keep the optimistic change; refetching would undo it until the queue syncs
+        onSuccess?.();
+        return;
+      }
       invalidateTransactionAdjacents(queryClient, groupId);
       if (context?.groupId) {
         queryClient.invalidateQueries({
@@ -255,3 +352,123 @@ export function useDeleteTransaction(onSuccess?: () => void) {
     error: (mutation.error as Error | null) ?? null,
   };
 }
+
+export function useUploadAttachment(onSuccess?: () => void) {
+  const queryClient = useQueryClient();
+
+  interface UploadAttachmentInput extends Omit<ReceiptUpload, "uri"> {
+    transactionId: number;
+    groupId: string;
+  }
+
+  const mutation = useMutation<TransactionAttachment, Error, UploadAttachmentInput>({
+    mutationFn: async ({ transactionId, groupId: _groupId, ...upload }) => {
+      const response = await fetchWithAuth(`/transactions/${transactionId}/attachments`, {
+        method: "POST",
+        body: JSON.stringify(upload),
+      });
+
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.transactions(variables.groupId) });
+      onSuccess?.();
+    },
+  });
+
+  return {
+    mutate: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: (mutation.error as Error | null) ?? null,
+  };
+}
+
+export function useDeleteAttachment(onSuccess?: () => void) {
+  const queryClient = useQueryClient();
+
+  interface DeleteAttachmentInput {
+    id: string;
+    transactionId: number;
+    groupId: string;
+  }
+
+  const mutation = useMutation<DeleteAttachmentInput, Error, DeleteAttachmentInput>({
+    mutationFn: async (variables) => {
+      await fetchWithAuth(
+        `/transactions/${variables.transactionId}/attachments?attachment_id=${variables.id}`,
+        { method: "DELETE" }
+      );
+
+      return variables;
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.transactions(variables.groupId) });
+      onSuccess?.();
+    },
+  });
+
+  return {
+    mutate: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: (mutation.error as Error | null) ?? null,
+  };
+}
+
+export async function fetchTransactionHistory(transactionId: number): Promise<TransactionVersion[]> {
+  const response = await fetchWithAuth(`/transactions/${transactionId}/history`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch transaction history: ${response.status}`);
+  }
+  const data: TransactionHistoryResponse = await response.json();
+  return data.versions;
+}
+
+export function useTransactionHistory(transactionId?: number | null) {
+  const { user } = useAuth();
+
+  const query = useQuery<TransactionVersion[], Error>({
+    // Guarded by `enabled`, so transactionId is always set inside queryFn
+    queryKey: queryKeys.transactionHistory(transactionId ?? 0),
+    queryFn: () => fetchTransactionHistory(transactionId as number),
+    enabled: !!user?.id && !!transactionId,
+  });
+
+  return {
+    data: query.data ?? [],
+    isLoading: query.isLoading,
+    error: query.error ?? null,
+    refetch: query.refetch,
+  };
+}
+
+// Saves an earlier version's fields as a new edit of the transaction
+export function useRestoreTransactionVersion(onSuccess?: () => void) {
+  const queryClient = useQueryClient();
+
+  interface RestoreVersionInput {
+    transactionId: number;
+    historyId: string;
+    groupId: string;
+  }
+
+  const mutation = useMutation<Transaction, Error, RestoreVersionInput>({
+    mutationFn: async ({ transactionId, historyId }) => {
+      const response = await fetchWithAuth(`/transactions/${transactionId}/history`, {
+        method: "POST",
+        body: JSON.stringify({ history_id: historyId }),
+      });
+
+      return response.json();
+    },
+    onSuccess: (_data, variables) => {
+      invalidateTransactionAdjacents(queryClient, variables.groupId);
+      onSuccess?.();
+    },
+  });
+
+  return {
+    mutate: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: (mutation.error as Error | null) ?? null,
+  };
+}
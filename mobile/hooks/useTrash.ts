@@ -0,0 +1,73 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "../contexts/AuthContext";
+import { TrashResponse } from "../types";
+import { fetchWithAuth } from "../utils/api";
+import { queryKeys } from "./queryKeys";
+
+export async function fetchTrash(groupId: string): Promise<TrashResponse> {
+  const response = await fetchWithAuth(`/trash?group_id=${groupId}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch trash: ${response.status}`);
+  }
+  return response.json();
+}
+
+export function useTrash(groupId?: string | null) {
+  const { user } = useAuth();
+
+  const query = useQuery<TrashResponse, Error>({
+    // Guarded by `enabled`, so groupId is always non-null inside queryFn
+    queryKey: groupId ? queryKeys.trash(groupId) : queryKeys.trash(""),
+    queryFn: () => fetchTrash(groupId as string),
+    enabled: !!user?.id && !!groupId,
+    staleTime: 30_000,
+  });
+
+  return {
+    data: query.data ?? null,
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    error: query.error ?? null,
+    refetch: query.refetch,
+  };
+}
+
+export function useRestoreFromTrash(onSuccess?: () => void) {
+  const queryClient = useQueryClient();
+
+  interface RestoreInput {
+    type: "transaction" | "settlement";
+    id: number | string;
+    groupId: string;
+  }
+
+  const mutation = useMutation<RestoreInput, Error, RestoreInput>({
+    mutationFn: async (variables) => {
+      await fetchWithAuth("/trash/restore", {
+        method: "POST",
+        body: JSON.stringify({ type: variables.type, id: variables.id }),
+      });
+
+      return variables;
+    },
+    onSuccess: (_data, variables) => {
+      const { groupId } = variables;
+      queryClient.invalidateQueries({ queryKey: queryKeys.trash(groupId) });
+      queryClient.invalidateQueries({
+        queryKey: variables.type === "transaction"
+          ? queryKeys.transactions(groupId)
+          : queryKeys.settlements(groupId),
+      });
+      queryClient.invalidateQueries({ queryKey: ["balances"] }); // Invalidate all balances (including global)
+      queryClient.invalidateQueries({ queryKey: queryKeys.activity(groupId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.budgets(groupId) });
+      onSuccess?.();
+    },
+  });
+
+  return {
+    mutate: mutation.mutateAsync,
+    isLoading: mutation.isPending,
+    error: (mutation.error as Error | null) ?? null,
+  };
+}
@@ -9,6 +9,9 @@ export interface UserProfile {
   avatar_url?: string | null;
   phone?: string | null;
   country_code?: string | null;
+  upi_vpa?: string | null; // Payment handles: only returned for people in a shared group
+  paypal_me?: string | null;
+  iban?: string | null;
   email?: string | null;
   profile_completed: boolean;
   created_at: string;
@@ -0,0 +1,144 @@
+import React, { useState } from "react";
+import {
+  Alert,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+  ScrollView,
+  StyleSheet,
+  View,
+} from "react-native";
+import { Appbar, Chip, Text, useTheme } from "react-native-paper";
+import { ActivityFeed } from "../components/ActivityFeed";
+import { WEB_MAX_WIDTH } from "../constants/layout";
+import { useActivityInbox, useMarkActivityRead } from "../hooks/useActivity";
+import { ActivityCategory } from "../types";
+import { getUserFriendlyErrorMessage } from "../utils/errorMessages";
+
+const CATEGORY_FILTERS: { value: ActivityCategory; label: string; icon: string }[] = [
+  { value: "transaction", label: "Expenses", icon: "format-list-bulleted" },
+  { value: "settlement", label: "Settlements", icon: "hand-coin" },
+  { value: "comment", label: "Comments", icon: "comment-text-outline" },
+  { value: "member", label: "Members", icon: "account-multiple-outline" },
+];
+
+export const ActivityInboxScreen: React.FC = () => {
+  const theme = useTheme();
+  const [category, setCategory] = useState<ActivityCategory | null>(null);
+
+  const {
+    data,
+    isLoading,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+    unreadCount,
+  } = useActivityInbox(category ? { type: category } : undefined);
+  const markRead = useMarkActivityRead();
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markRead.mutate();
+    } catch (error) {
+      Alert.alert("Error", getUserFriendlyErrorMessage(error));
+    }
+  };
+
+  // Load older activity when the list is scrolled near its end
+  const handleScroll = ({ nativeEvent }: NativeSyntheticEvent<NativeScrollEvent>) => {
+    if (!hasMore || isLoadingMore) return;
+    const { layoutMeasurement, contentOffset, contentSize } = nativeEvent;
+    if (layoutMeasurement.height + contentOffset.y >= contentSize.height - 400) {
+      loadMore();
+    }
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <Appbar.Header style={{ backgroundColor: theme.colors.background }}>
+        <Appbar.Content title="Activity" titleStyle={{ fontWeight: "bold" }} />
+        <Appbar.Action
+          icon="check-all"
+          onPress={handleMarkAllRead}
+          disabled={unreadCount === 0 || markRead.isLoading}
+          accessibilityLabel="Mark all as read"
+        />
+      </Appbar.Header>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        onScroll={handleScroll}
+        scrollEventThrottle={200}
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={styles.content}>
+          {unreadCount > 0 && (
+            <Text variant="bodyMedium" style={[styles.unreadText, { color: theme.colors.primary }]}>
+              {unreadCount} unread
+            </Text>
+          )}
+
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterRow}>
+            <Chip
+              selected={category === null}
+              onPress={() => setCategory(null)}
+              showSelectedCheck={true}
+              mode={category === null ? "flat" : "outlined"}
+              style={styles.filterChip}
+            >
+              All
+            </Chip>
+            {CATEGORY_FILTERS.map((filter) => (
+              <Chip
+                key={filter.value}
+                selected={category === filter.value}
+                onPress={() => setCategory(filter.value)}
+                showSelectedCheck={true}
+                icon={filter.icon}
+                mode={category === filter.value ? "flat" : "outlined"}
+                style={styles.filterChip}
+              >
+                {filter.label}
+              </Chip>
+            ))}
+          </ScrollView>
+
+          <ActivityFeed
+            items={data.activities}
+            loading={isLoading}
+            loadingMore={isLoadingMore}
+            isFiltered={category !== null}
+            emptyMessage="Activity from all of your groups will show up here."
+          />
+        </View>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  content: {
+    width: "100%",
+    maxWidth: WEB_MAX_WIDTH,
+    alignSelf: "center",
+  },
+  unreadText: {
+    marginBottom: 8,
+    fontWeight: "600",
+  },
+  filterRow: {
+    marginBottom: 8,
+  },
+  filterChip: {
+    marginRight: 8,
+  },
+});
@@ -0,0 +1,364 @@
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  View,
+} from "react-native";
+import {
+  Appbar,
+  Button,
+  Chip,
+  IconButton,
+  SegmentedButtons,
+  Text,
+  TextInput,
+  useTheme,
+} from "react-native-paper";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { BudgetProgress } from "../components/BudgetProgress";
+import { WEB_MAX_WIDTH } from "../constants/layout";
+import {
+  useBudgets,
+  useCreateBudget,
+  useDeleteBudget,
+  useUpdateBudget,
+} from "../hooks/useBudgets";
+import { useCategories } from "../hooks/useCategories";
+import { Budget, BudgetPeriod } from "../types";
+import { CURRENCIES } from "../utils/currency";
+import { getUserFriendlyErrorMessage } from "../utils/errorMessages";
+
+interface BudgetsScreenProps {
+  visible: boolean;
+  groupId: string;
+  defaultCurrency: string;
+  onDismiss: () => void;
+}
+
+export const BudgetsScreen: React.FC<BudgetsScreenProps> = ({
+  visible,
+  groupId,
+  defaultCurrency,
+  onDismiss,
+}) => {
+  const theme = useTheme();
+  const insets = useSafeAreaInsets();
+
+  const { data: budgets, isLoading: budgetsLoading } = useBudgets(visible ? groupId : null);
+  const { data: categories } = useCategories(visible ? groupId : null);
+  const createBudget = useCreateBudget();
+  const updateBudget = useUpdateBudget();
+  const deleteBudget = useDeleteBudget();
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [amount, setAmount] = useState("");
+  const [currency, setCurrency] = useState(defaultCurrency);
+  const [period, setPeriod] = useState<BudgetPeriod>("total");
+  const [categoryId, setCategoryId] = useState<string | null>(null);
+  const [amountError, setAmountError] = useState("");
+
+  const resetForm = () => {
+    setEditingId(null);
+    setAmount("");
+    setCurrency(defaultCurrency);
+    setPeriod("total");
+    setCategoryId(null);
+    setAmountError("");
+  };
+
+  useEffect(() => {
+    if (!visible) resetForm();
+  }, [visible]);
+
+  const handleEdit = (budget: Budget) => {
+    setEditingId(budget.id);
+    setAmount(String(budget.amount));
+    setCurrency(budget.currency);
+    setPeriod(budget.period);
+    setCategoryId(budget.category_id);
+    setAmountError("");
+  };
+
+  const handleSave = async () => {
+    const amountValue = parseFloat(amount);
+    if (isNaN(amountValue) || amountValue <= 0) {
+      setAmountError("Please enter a valid amount");
+      return;
+    }
+    if (
+      budgets.some(
+        (b) =>
+          b.id !== editingId &&
+          b.category_id === categoryId &&
+          b.period === period &&
+          b.currency === currency
+      )
+    ) {
+      setAmountError("A budget for this category, period and currency already exists");
+      return;
+    }
+    setAmountError("");
+
+    try {
+      if (editingId) {
+        await updateBudget.mutate({
+          id: editingId,
+          groupId,
+          amount: amountValue,
+          currency,
+          period,
+          category_id: categoryId,
+        });
+      } else {
+        await createBudget.mutate({
+          group_id: groupId,
+          amount: amountValue,
+          currency,
+          period,
+          category_id: categoryId,
+        });
+      }
+      resetForm();
+    } catch (error) {
+      Alert.alert("Error", getUserFriendlyErrorMessage(error));
+    }
+  };
+
+  const handleDelete = (budget: Budget) => {
+    Alert.alert("Delete Budget", "Delete this budget?", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await deleteBudget.mutate({ id: budget.id, groupId });
+            if (editingId === budget.id) resetForm();
+          } catch (error) {
+            Alert.alert("Error", getUserFriendlyErrorMessage(error));
+          }
+        },
+      },
+    ]);
+  };
+
+  const isSaving = createBudget.isLoading || updateBudget.isLoading;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={onDismiss}
+      presentationStyle="pageSheet"
+    >
+      <View style={[styles.rootContainer, { backgroundColor: theme.colors.background }]}>
+        <KeyboardAvoidingView
+          style={styles.container}
+          behavior={Platform.OS === "ios" ? "padding" : "height"}
+          keyboardVerticalOffset={insets.top}
+        >
+          <Appbar.Header>
+            <Appbar.Action icon="close" onPress={onDismiss} />
+            <Appbar.Content title="Budgets" />
+          </Appbar.Header>
+
+          <ScrollView
+            style={styles.scrollView}
+            contentContainerStyle={styles.scrollContent}
+            keyboardShouldPersistTaps="handled"
+          >
+            <View style={styles.section}>
+              {budgetsLoading ? (
+                <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+                  Loading...
+                </Text>
+              ) : budgets.length === 0 ? (
+                <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+                  No budgets yet. You'll be warned when spending reaches 80% and 100% of a budget.
+                </Text>
+              ) : (
+                budgets.map((budget) => (
+                  <View
+                    key={budget.id}
+                    style={[styles.budgetRow, { borderBottomColor: theme.colors.outlineVariant }]}
+                  >
+                    <View style={styles.budgetProgress}>
+                      <BudgetProgress budget={budget} categories={categories} />
+                    </View>
+                    <IconButton
+                      icon="pencil-outline"
+                      size={20}
+                      onPress={() => handleEdit(budget)}
+                      accessibilityLabel="Edit budget"
+                    />
+                    <IconButton
+                      icon="delete-outline"
+                      size={20}
+                      onPress={() => handleDelete(budget)}
+                      disabled={deleteBudget.isLoading}
+                      accessibilityLabel="Delete budget"
+                    />
+                  </View>
+                ))
+              )}
+            </View>
+
+            <View style={styles.section}>
+              <Text variant="labelLarge" style={styles.label}>
+                {editingId ? "Edit budget" : "Add budget"}
+              </Text>
+              <TextInput
+                label="Amount"
+                value={amount}
+                onChangeText={setAmount}
+                mode="outlined"
+                keyboardType="decimal-pad"
+                right={<TextInput.Affix text={currency} />}
+              />
+              {amountError ? (
+                <Text variant="bodySmall" style={[styles.errorText, { color: theme.colors.error }]}>
+                  {amountError}
+                </Text>
+              ) : null}
+
+              <Text variant="bodySmall" style={[styles.pickerLabel, { color: theme.colors.onSurfaceVariant }]}>
+                Period
+              </Text>
+              <SegmentedButtons
+                value={period}
+                onValueChange={(value) => setPeriod(value as BudgetPeriod)}
+                buttons={[
+                  { value: "total", label: "Total", icon: "flag-checkered" },
+                  { value: "monthly", label: "Monthly", icon: "calendar-month" },
+                ]}
+              />
+
+              <Text variant="bodySmall" style={[styles.pickerLabel, { color: theme.colors.onSurfaceVariant }]}>
+                Category
+              </Text>
+              <View style={styles.chipRow}>
+                <Chip
+                  selected={!categoryId}
+                  onPress={() => setCategoryId(null)}
+                  mode={!categoryId ? "flat" : "outlined"}
+                  style={styles.chip}
+                >
+                  All expenses
+                </Chip>
+                {categories.map((category) => (
+                  <Chip
+                    key={category.id}
+                    icon={category.icon}
+                    selected={categoryId === category.id}
+                    onPress={() => setCategoryId(category.id)}
+                    mode={categoryId === category.id ? "flat" : "outlined"}
+                    style={styles.chip}
+                  >
+                    {category.name}
+                  </Chip>
+                ))}
+              </View>
+
+              <Text variant="bodySmall" style={[styles.pickerLabel, { color: theme.colors.onSurfaceVariant }]}>
+                Currency
+              </Text>
+              <View style={styles.chipRow}>
+                {CURRENCIES.map((option) => (
+                  <Chip
+                    key={option.code}
+                    selected={currency === option.code}
+                    onPress={() => setCurrency(option.code)}
+                    mode={currency === option.code ? "flat" : "outlined"}
+                    style={styles.chip}
+                  >
+                    {option.code}
+                  </Chip>
+                ))}
+              </View>
+
+              <View style={styles.buttonRow}>
+                {editingId && (
+                  <Button mode="text" onPress={resetForm} style={styles.actionButton}>
+                    Cancel
+                  </Button>
+                )}
+                <Button
+                  mode="contained"
+                  onPress={handleSave}
+                  loading={isSaving}
+                  disabled={isSaving || !amount.trim()}
+                  style={styles.actionButton}
+                >
+                  {editingId ? "Save Budget" : "Add Budget"}
+                </Button>
+              </View>
+            </View>
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  rootContainer: {
+    flex: 1,
+    width: "100%",
+  },
+  container: {
+    flex: 1,
+    width: "100%",
+    maxWidth: WEB_MAX_WIDTH,
+    alignSelf: "center",
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  label: {
+    marginBottom: 8,
+    fontWeight: "600",
+  },
+  pickerLabel: {
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  budgetRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  budgetProgress: {
+    flex: 1,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    alignItems: "center",
+  },
+  chip: {
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  errorText: {
+    marginTop: 4,
+  },
+  buttonRow: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+  },
+  actionButton: {
+    marginTop: 12,
+    marginLeft: 8,
+  },
+});
@@ -0,0 +1,346 @@
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import {
+  Appbar,
+  Avatar,
+  Button,
+  IconButton,
+  Text,
+  TextInput,
+  useTheme,
+} from "react-native-paper";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { CATEGORY_COLORS, CATEGORY_ICONS } from "../constants/categories";
+import { WEB_MAX_WIDTH } from "../constants/layout";
+import {
+  useCategories,
+  useCreateCategory,
+  useDeleteCategory,
+  useUpdateCategory,
+} from "../hooks/useCategories";
+import { Category } from "../types";
+import { getUserFriendlyErrorMessage } from "../utils/errorMessages";
+
+interface CategoriesScreenProps {
+  visible: boolean;
+  groupId: string;
+  onDismiss: () => void;
+}
+
+export const CategoriesScreen: React.FC<CategoriesScreenProps> = ({
+  visible,
+  groupId,
+  onDismiss,
+}) => {
+  const theme = useTheme();
+  const insets = useSafeAreaInsets();
+
+  const { data: categories, isLoading: categoriesLoading } = useCategories(visible ? groupId : null);
+  const createCategory = useCreateCategory();
+  const updateCategory = useUpdateCategory();
+  const deleteCategory = useDeleteCategory();
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [icon, setIcon] = useState<string>(CATEGORY_ICONS[0]);
+  const [color, setColor] = useState<string>(CATEGORY_COLORS[0]);
+  const [nameError, setNameError] = useState("");
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName("");
+    setIcon(CATEGORY_ICONS[0]);
+    setColor(CATEGORY_COLORS[0]);
+    setNameError("");
+  };
+
+  useEffect(() => {
+    if (!visible) resetForm();
+  }, [visible]);
+
+  const handleEdit = (category: Category) => {
+    setEditingId(category.id);
+    setName(category.name);
+    setIcon(category.icon);
+    setColor(category.color);
+    setNameError("");
+  };
+
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setNameError("Please enter a name");
+      return;
+    }
+    if (categories.some((c) => c.id !== editingId && c.name.toLowerCase() === trimmed.toLowerCase())) {
+      setNameError("A category with this name already exists");
+      return;
+    }
+    setNameError("");
+
+    try {
+      if (editingId) {
+        await updateCategory.mutate({ id: editingId, groupId, name: trimmed, icon, color });
+      } else {
+        await createCategory.mutate({ group_id: groupId, name: trimmed, icon, color });
+      }
+      resetForm();
+    } catch (error) {
+      Alert.alert("Error", getUserFriendlyErrorMessage(error));
+    }
+  };
+
+  const handleDelete = (category: Category) => {
+    Alert.alert(
+      "Delete Category",
+      `Delete "${category.name}"? Its expenses will become uncategorized.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deleteCategory.mutate({ id: category.id, groupId });
+              if (editingId === category.id) resetForm();
+            } catch (error) {
+              Alert.alert("Error", getUserFriendlyErrorMessage(error));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const isSaving = createCategory.isLoading || updateCategory.isLoading;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={onDismiss}
+      presentationStyle="pageSheet"
+    >
+      <View style={[styles.rootContainer, { backgroundColor: theme.colors.background }]}>
+        <KeyboardAvoidingView
+          style={styles.container}
+          behavior={Platform.OS === "ios" ? "padding" : "height"}
+          keyboardVerticalOffset={insets.top}
+        >
+          <Appbar.Header>
+            <Appbar.Action icon="close" onPress={onDismiss} />
+            <Appbar.Content title="Categories" />
+          </Appbar.Header>
+
+          <ScrollView
+            style={styles.scrollView}
+            contentContainerStyle={styles.scrollContent}
+            keyboardShouldPersistTaps="handled"
+          >
+            <View style={styles.section}>
+              {categoriesLoading ? (
+                <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+                  Loading...
+                </Text>
+              ) : categories.length === 0 ? (
+                <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+                  No categories yet
+                </Text>
+              ) : (
+                categories.map((category) => (
+                  <View
+                    key={category.id}
+                    style={[styles.categoryRow, { borderBottomColor: theme.colors.outlineVariant }]}
+                  >
+                    <Avatar.Icon
+                      size={32}
+                      icon={category.icon}
+                      color="#FFFFFF"
+                      style={{ backgroundColor: category.color }}
+                    />
+                    <Text variant="bodyLarge" style={styles.categoryName}>
+                      {category.name}
+                    </Text>
+                    <IconButton
+                      icon="pencil-outline"
+                      size={20}
+                      onPress={() => handleEdit(category)}
+                      accessibilityLabel={`Edit ${category.name}`}
+                    />
+                    <IconButton
+                      icon="delete-outline"
+                      size={20}
+                      onPress={() => handleDelete(category)}
+                      disabled={deleteCategory.isLoading}
+                      accessibilityLabel={`Delete ${category.name}`}
+                    />
+                  </View>
+                ))
+              )}
+            </View>
+
+            <View style={styles.section}>
+              <Text variant="labelLarge" style={styles.label}>
+                {editingId ? "Edit category" : "Add category"}
+              </Text>
+              <View style={styles.inputRow}>
+                <Avatar.Icon
+                  size={48}
+                  icon={icon}
+                  color="#FFFFFF"
+                  style={{ backgroundColor: color }}
+                />
+                <TextInput
+                  label="Name"
+                  value={name}
+                  onChangeText={setName}
+                  mode="outlined"
+                  maxLength={50}
+                  style={styles.nameInput}
+                />
+              </View>
+              {nameError ? (
+                <Text variant="bodySmall" style={[styles.errorText, { color: theme.colors.error }]}>
+                  {nameError}
+                </Text>
+              ) : null}
+
+              <Text variant="bodySmall" style={[styles.pickerLabel, { color: theme.colors.onSurfaceVariant }]}>
+                Icon
+              </Text>
+              <View style={styles.chipRow}>
+                {CATEGORY_ICONS.map((option) => (
+                  <IconButton
+                    key={option}
+                    icon={option}
+                    size={20}
+                    mode={icon === option ? "contained" : undefined}
+                    onPress={() => setIcon(option)}
+                    accessibilityLabel={`Icon ${option}`}
+                  />
+                ))}
+              </View>
+
+              <Text variant="bodySmall" style={[styles.pickerLabel, { color: theme.colors.onSurfaceVariant }]}>
+                Color
+              </Text>
+              <View style={styles.chipRow}>
+                {CATEGORY_COLORS.map((option) => (
+                  <TouchableOpacity
+                    key={option}
+                    onPress={() => setColor(option)}
+                    accessibilityLabel={`Color ${option}`}
+                    style={[
+                      styles.swatch,
+                      { backgroundColor: option },
+                      color === option && { borderColor: theme.colors.onSurface },
+                    ]}
+                  />
+                ))}
+              </View>
+
+              <View style={styles.buttonRow}>
+                {editingId && (
+                  <Button mode="text" onPress={resetForm} style={styles.actionButton}>
+                    Cancel
+                  </Button>
+                )}
+                <Button
+                  mode="contained"
+                  onPress={handleSave}
+                  loading={isSaving}
+                  disabled={isSaving || !name.trim()}
+                  style={styles.actionButton}
+                >
+                  {editingId ? "Save Category" : "Add Category"}
+                </Button>
+              </View>
+            </View>
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  rootContainer: {
+    flex: 1,
+    width: "100%",
+  },
+  container: {
+    flex: 1,
+    width: "100%",
+    maxWidth: WEB_MAX_WIDTH,
+    alignSelf: "center",
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  label: {
+    marginBottom: 8,
+    fontWeight: "600",
+  },
+  pickerLabel: {
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  categoryRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 4,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  categoryName: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  inputRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  nameInput: {
+    flex: 1,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    alignItems: "center",
+  },
+  swatch: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    marginRight: 8,
+    marginBottom: 8,
+    borderWidth: 2,
+    borderColor: "transparent",
+  },
+  errorText: {
+    marginTop: 4,
+  },
+  buttonRow: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+  },
+  actionButton: {
+    marginTop: 12,
+    marginLeft: 8,
+  },
+});
@@ -0,0 +1,369 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  View,
+} from "react-native";
+import {
+  Appbar,
+  Avatar,
+  Chip,
+  IconButton,
+  Text,
+  TextInput,
+  useTheme,
+} from "react-native-paper";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { WEB_MAX_WIDTH } from "../constants/layout";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  CommentTarget,
+  useComments,
+  useCreateComment,
+  useDeleteComment,
+  useUpdateComment,
+} from "../hooks/useComments";
+import { useParticipants } from "../hooks/useParticipants";
+import { Comment, Participant } from "../types";
+import { formatActivityTime, getUserDisplayName } from "../utils/activityDescriptions";
+import { getUserFriendlyErrorMessage } from "../utils/errorMessages";
+
+interface CommentsScreenProps {
+  visible: boolean;
+  groupId: string;
+  target: CommentTarget | null;
+  title: string;
+  readOnly?: boolean; // Archived groups keep their threads but take no new comments
+  onDismiss: () => void;
+}
+
+const MAX_MENTION_SUGGESTIONS = 5;
+
+const getMentionName = (participant: Participant) =>
+  participant.full_name || participant.email?.split("@")[0] || "Unknown";
+
+// "@" followed by the partial name being typed at the end of the draft
+const MENTION_QUERY_PATTERN = /(^|\s)@([^\s@]*)$/;
+
+export const CommentsScreen: React.FC<CommentsScreenProps> = ({
+  visible,
+  groupId,
+  target,
+  title,
+  readOnly = false,
+  onDismiss,
+}) => {
+  const theme = useTheme();
+  const insets = useSafeAreaInsets();
+  const { session } = useAuth();
+  const currentUserId = session?.user?.id;
+
+  const { data: comments, isLoading: commentsLoading } = useComments(visible ? target : null);
+  const { data: participants = [] } = useParticipants(visible ? groupId : null);
+  const createComment = useCreateComment();
+  const updateComment = useUpdateComment();
+  const deleteComment = useDeleteComment();
+
+  const [draft, setDraft] = useState("");
+  const [mentionIds, setMentionIds] = useState<string[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const resetComposer = () => {
+    setDraft("");
+    setMentionIds([]);
+    setEditingId(null);
+  };
+
+  useEffect(() => {
+    if (!visible) resetComposer();
+  }, [visible]);
+
+  const participantMap = useMemo(
+    () => new Map(participants.map((p) => [p.id, p])),
+    [participants]
+  );
+
+  const mentionQuery = draft.match(MENTION_QUERY_PATTERN)?.[2];
+  const mentionSuggestions = useMemo(() => {
+    if (mentionQuery === undefined) return [];
+    const query = mentionQuery.toLowerCase();
+    return participants
+      .filter((p) => p.type !== "former" && getMentionName(p).toLowerCase().startsWith(query))
+      .slice(0, MAX_MENTION_SUGGESTIONS);
+  }, [mentionQuery, participants]);
+
+  const handleMention = (participant: Participant) => {
+    setDraft((current) =>
+      current.replace(MENTION_QUERY_PATTERN, (_match, prefix) => `${prefix}@${getMentionName(participant)} `)
+    );
+    setMentionIds((current) => (current.includes(participant.id) ? current : [...current, participant.id]));
+  };
+
+  const handleEdit = (comment: Comment) => {
+    setEditingId(comment.id);
+    setDraft(comment.body);
+    setMentionIds(comment.mentioned_participant_ids);
+  };
+
+  const handleSend = async () => {
+    const body = draft.trim();
+    if (!body || !target) return;
+
+    // Drop mentions whose @name was removed from the text
+    const mentioned_participant_ids = mentionIds.filter((id) => {
+      const participant = participantMap.get(id);
+      return participant && body.includes(`@${getMentionName(participant)}`);
+    });
+
+    try {
+      if (editingId) {
+        await updateComment.mutate({ id: editingId, target, groupId, body, mentioned_participant_ids });
+      } else {
+        await createComment.mutate({ target, groupId, body, mentioned_participant_ids });
+      }
+      resetComposer();
+    } catch (error) {
+      Alert.alert("Error", getUserFriendlyErrorMessage(error));
+    }
+  };
+
+  const handleDelete = (comment: Comment) => {
+    if (!target) return;
+    Alert.alert("Delete Comment", "Delete this comment?", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await deleteComment.mutate({ id: comment.id, target, groupId });
+            if (editingId === comment.id) resetComposer();
+          } catch (error) {
+            Alert.alert("Error", getUserFriendlyErrorMessage(error));
+          }
+        },
+      },
+    ]);
+  };
+
+  // Highlights the @names of mentioned participants
+  const renderBody = (comment: Comment) => {
+    const names = comment.mentioned_participant_ids
+      .map((id) => participantMap.get(id))
+      .filter((p): p is Participant => !!p)
+      .map((p) => `@${getMentionName(p)}`);
+    if (names.length === 0) return comment.body;
+
+    const escaped = names.map((name) => name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+    return comment.body.split(new RegExp(`(${escaped.join("|")})`, "g")).map((part, index) =>
+      names.includes(part) ? (
+        <Text key={index} style={{ color: theme.colors.primary, fontWeight: "600" }}>
+          {part}
+        </Text>
+      ) : (
+        part
+      )
+    );
+  };
+
+  const isSending = createComment.isLoading || updateComment.isLoading;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={onDismiss}
+      presentationStyle="pageSheet"
+    >
+      <View style={[styles.rootContainer, { backgroundColor: theme.colors.background }]}>
+        <KeyboardAvoidingView
+          style={styles.container}
+          behavior={Platform.OS === "ios" ? "padding" : "height"}
+          keyboardVerticalOffset={insets.top}
+        >
+          <Appbar.Header>
+            <Appbar.Action icon="close" onPress={onDismiss} />
+            <Appbar.Content title={title} />
+          </Appbar.Header>
+
+          <ScrollView
+            style={styles.scrollView}
+            contentContainerStyle={styles.scrollContent}
+            keyboardShouldPersistTaps="handled"
+          >
+            {commentsLoading ? (
+              <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+                Loading...
+              </Text>
+            ) : comments.length === 0 ? (
+              <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+                No comments yet. Use @ to mention someone.
+              </Text>
+            ) : (
+              comments.map((comment) => {
+                const isMine = !!currentUserId && comment.created_by === currentUserId;
+                const authorName = comment.author
+                  ? getUserDisplayName(comment.author.id, comment.author.email || "", currentUserId, comment.author.full_name)
+                  : "Former user";
+
+                return (
+                  <View key={comment.id} style={styles.commentRow}>
+                    {comment.author?.avatar_url ? (
+                      <Avatar.Image size={32} source={{ uri: comment.author.avatar_url }} />
+                    ) : (
+                      <Avatar.Text
+                        size={32}
+                        label={authorName.substring(0, 2).toUpperCase()}
+                        style={{ backgroundColor: theme.colors.surfaceVariant }}
+                        color={theme.colors.onSurfaceVariant}
+                      />
+                    )}
+                    <View style={styles.commentContent}>
+                      <View style={styles.commentHeader}>
+                        <Text variant="labelLarge" style={{ color: theme.colors.onSurface }}>
+                          {authorName}
+                        </Text>
+                        <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                          {formatActivityTime(comment.created_at)}
+                          {comment.edited_at ? " · edited" : ""}
+                        </Text>
+                      </View>
+                      <Text variant="bodyMedium" style={{ color: theme.colors.onSurface }}>
+                        {renderBody(comment)}
+                      </Text>
+                    </View>
+                    {isMine && !readOnly && (
+                      <View style={styles.commentActions}>
+                        <IconButton
+                          icon="pencil-outline"
+                          size={18}
+                          onPress={() => handleEdit(comment)}
+                          accessibilityLabel="Edit comment"
+                        />
+                        <IconButton
+                          icon="delete-outline"
+                          size={18}
+                          onPress={() => handleDelete(comment)}
+                          disabled={deleteComment.isLoading}
+                          accessibilityLabel="Delete comment"
+                        />
+                      </View>
+                    )}
+                  </View>
+                );
+              })
+            )}
+          </ScrollView>
+
+          {!readOnly && (
+            <View
+              style={[
+                styles.composer,
+                { borderTopColor: theme.colors.outlineVariant, paddingBottom: Math.max(insets.bottom, 8) },
+              ]}
+            >
+              {mentionSuggestions.length > 0 && (
+                <View style={styles.suggestionRow}>
+                  {mentionSuggestions.map((participant) => (
+                    <Chip
+                      key={participant.id}
+                      icon="at"
+                      onPress={() => handleMention(participant)}
+                      style={styles.suggestionChip}
+                    >
+                      {getMentionName(participant)}
+                    </Chip>
+                  ))}
+                </View>
+              )}
+              <View style={styles.inputRow}>
+                <TextInput
+                  mode="outlined"
+                  placeholder={editingId ? "Edit comment" : "Add a comment"}
+                  value={draft}
+                  onChangeText={setDraft}
+                  multiline
+                  maxLength={2000}
+                  style={styles.input}
+                />
+                {editingId && (
+                  <IconButton icon="close" onPress={resetComposer} accessibilityLabel="Cancel editing" />
+                )}
+                <IconButton
+                  icon={editingId ? "check" : "send"}
+                  mode="contained"
+                  onPress={handleSend}
+                  disabled={isSending || !draft.trim()}
+                  accessibilityLabel={editingId ? "Save comment" : "Send comment"}
+                />
+              </View>
+            </View>
+          )}
+        </KeyboardAvoidingView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  rootContainer: {
+    flex: 1,
+    width: "100%",
+  },
+  container: {
+    flex: 1,
+    width: "100%",
+    maxWidth: WEB_MAX_WIDTH,
+    alignSelf: "center",
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  commentRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 12,
+    marginBottom: 16,
+  },
+  commentContent: {
+    flex: 1,
+    gap: 2,
+  },
+  commentHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  commentActions: {
+    flexDirection: "row",
+  },
+  composer: {
+    paddingHorizontal: 12,
+    paddingTop: 8,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  suggestionRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginBottom: 4,
+  },
+  suggestionChip: {
+    marginRight: 8,
+    marginBottom: 4,
+  },
+  inputRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  input: {
+    flex: 1,
+    maxHeight: 120,
+  },
+});
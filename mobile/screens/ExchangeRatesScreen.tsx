@@ -0,0 +1,437 @@
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  View,
+} from "react-native";
+import {
+  Appbar,
+  Button,
+  Chip,
+  IconButton,
+  SegmentedButtons,
+  Text,
+  TextInput,
+  useTheme,
+} from "react-native-paper";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { WEB_MAX_WIDTH } from "../constants/layout";
+import {
+  useAddExchangeRate,
+  useDeleteExchangeRate,
+  useExchangeRates,
+  useImportExchangeRates,
+} from "../hooks/useExchangeRates";
+import { useUpdateSettlementCurrency } from "../hooks/useGroupMutations";
+import { CURRENCIES } from "../utils/currency";
+import { getUserFriendlyErrorMessage } from "../utils/errorMessages";
+
+interface ExchangeRatesScreenProps {
+  visible: boolean;
+  groupId: string;
+  settlementCurrency?: string | null;
+  onDismiss: () => void;
+}
+
+type ImportFormat = "csv" | "json";
+
+const IMPORT_PLACEHOLDERS: Record<ImportFormat, string> = {
+  csv: "base_currency,quote_currency,rate,effective_date\nEUR,USD,1.08,2025-01-01",
+  json: '{ "base": "EUR", "date": "2025-01-01", "rates": { "USD": 1.08 } }',
+};
+
+// Opens the browser file picker and resolves with the file's text (web only)
+function pickTextFile(): Promise<{ name: string; content: string } | null> {
+  return new Promise((resolve) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = ".csv,.json,text/csv,application/json";
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      resolve(file ? { name: file.name, content: await file.text() } : null);
+    };
+    input.click();
+  });
+}
+
+export const ExchangeRatesScreen: React.FC<ExchangeRatesScreenProps> = ({
+  visible,
+  groupId,
+  settlementCurrency,
+  onDismiss,
+}) => {
+  const theme = useTheme();
+  const insets = useSafeAreaInsets();
+
+  const { data: rates, isLoading: ratesLoading } = useExchangeRates(visible ? groupId : null);
+  const updateSettlementCurrency = useUpdateSettlementCurrency();
+  const addRate = useAddExchangeRate();
+  const importRates = useImportExchangeRates();
+  const deleteRate = useDeleteExchangeRate();
+
+  const [baseCurrency, setBaseCurrency] = useState("");
+  const [quoteCurrency, setQuoteCurrency] = useState("");
+  const [rate, setRate] = useState("");
+  const [effectiveDate, setEffectiveDate] = useState("");
+  const [rateError, setRateError] = useState("");
+  const [importFormat, setImportFormat] = useState<ImportFormat>("csv");
+  const [importContent, setImportContent] = useState("");
+
+  useEffect(() => {
+    if (!visible) {
+      setBaseCurrency("");
+      setRate("");
+      setEffectiveDate("");
+      setRateError("");
+      setImportContent("");
+      return;
+    }
+    // Most rates convert into the settlement currency
+    setQuoteCurrency(settlementCurrency || "");
+  }, [visible, settlementCurrency]);
+
+  const handleSelectCurrency = async (currency: string | null) => {
+    if (currency === (settlementCurrency || null)) return;
+    try {
+      await updateSettlementCurrency.mutate({ groupId, settlementCurrency: currency });
+    } catch (error) {
+      Alert.alert("Error", getUserFriendlyErrorMessage(error));
+    }
+  };
+
+  const handleAddRate = async () => {
+    const base = baseCurrency.trim().toUpperCase();
+    const quote = quoteCurrency.trim().toUpperCase();
+    const rateNum = parseFloat(rate);
+
+    if (base.length !== 3 || quote.length !== 3) {
+      setRateError("Currencies must be 3-letter codes (e.g., EUR)");
+      return;
+    }
+    if (base === quote) {
+      setRateError("Choose two different currencies");
+      return;
+    }
+    if (isNaN(rateNum) || rateNum <= 0) {
+      setRateError("Please enter a valid rate greater than 0");
+      return;
+    }
+    if (effectiveDate && !/^\d{4}-\d{2}-\d{2}$/.test(effectiveDate)) {
+      setRateError("Date must be in YYYY-MM-DD format");
+      return;
+    }
+    setRateError("");
+
+    try {
+      await addRate.mutate({
+        group_id: groupId,
+        base_currency: base,
+        quote_currency: quote,
+        rate: rateNum,
+        effective_date: effectiveDate || undefined,
+      });
+      setBaseCurrency("");
+      setRate("");
+      setEffectiveDate("");
+    } catch (error) {
+      Alert.alert("Error", getUserFriendlyErrorMessage(error));
+    }
+  };
+
+  const handleChooseFile = async () => {
+    const file = await pickTextFile();
+    if (!file) return;
+    setImportFormat(file.name.toLowerCase().endsWith(".json") ? "json" : "csv");
+    setImportContent(file.content);
+  };
+
+  const handleImport = async () => {
+    if (!importContent.trim()) return;
+    try {
+      const imported = await importRates.mutate({
+        group_id: groupId,
+        format: importFormat,
+        content: importContent,
+      });
+      setImportContent("");
+      Alert.alert("Rates imported", `${imported.length} exchange rate(s) saved`);
+    } catch (error) {
+      Alert.alert("Error", getUserFriendlyErrorMessage(error));
+    }
+  };
+
+  const handleDeleteRate = async (id: string) => {
+    try {
+      await deleteRate.mutate({ id, groupId });
+    } catch (error) {
+      Alert.alert("Error", getUserFriendlyErrorMessage(error));
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={onDismiss}
+      presentationStyle="pageSheet"
+    >
+      <View style={[styles.rootContainer, { backgroundColor: theme.colors.background }]}>
+        <KeyboardAvoidingView
+          style={styles.container}
+          behavior={Platform.OS === "ios" ? "padding" : "height"}
+          keyboardVerticalOffset={insets.top}
+        >
+          <Appbar.Header>
+            <Appbar.Action icon="close" onPress={onDismiss} />
+            <Appbar.Content title="Currency & Rates" />
+          </Appbar.Header>
+
+          <ScrollView
+            style={styles.scrollView}
+            contentContainerStyle={styles.scrollContent}
+            keyboardShouldPersistTaps="handled"
+          >
+            <View style={styles.section}>
+              <Text variant="labelLarge" style={styles.label}>
+                Settle in
+              </Text>
+              <Text variant="bodySmall" style={[styles.helpText, { color: theme.colors.onSurfaceVariant }]}>
+                Balances are converted into this currency before debts are simplified.
+              </Text>
+              <View style={styles.chipRow}>
+                <Chip
+                  selected={!settlementCurrency}
+                  onPress={() => handleSelectCurrency(null)}
+                  mode={!settlementCurrency ? "flat" : "outlined"}
+                  disabled={updateSettlementCurrency.isLoading}
+                  style={styles.chip}
+                >
+                  Keep separate
+                </Chip>
+                {CURRENCIES.map((currency) => (
+                  <Chip
+                    key={currency.code}
+                    selected={settlementCurrency === currency.code}
+                    onPress={() => handleSelectCurrency(currency.code)}
+                    mode={settlementCurrency === currency.code ? "flat" : "outlined"}
+                    disabled={updateSettlementCurrency.isLoading}
+                    style={styles.chip}
+                  >
+                    {currency.code}
+                  </Chip>
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <Text variant="labelLarge" style={styles.label}>
+                Exchange rates
+              </Text>
+              {ratesLoading ? (
+                <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+                  Loading...
+                </Text>
+              ) : rates.length === 0 ? (
+                <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+                  No exchange rates yet
+                </Text>
+              ) : (
+                rates.map((r) => (
+                  <View
+                    key={r.id}
+                    style={[styles.rateRow, { borderBottomColor: theme.colors.outlineVariant }]}
+                  >
+                    <View style={styles.rateText}>
+                      <Text variant="bodyLarge">
+                        1 {r.base_currency} = {Number(r.rate)} {r.quote_currency}
+                      </Text>
+                      <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                        {r.effective_date}
+                        {r.source === "import" ? " · imported" : ""}
+                      </Text>
+                    </View>
+                    <IconButton
+                      icon="delete-outline"
+                      size={20}
+                      onPress={() => handleDeleteRate(r.id)}
+                      disabled={deleteRate.isLoading}
+                    />
+                  </View>
+                ))
+              )}
+            </View>
+
+            <View style={styles.section}>
+              <Text variant="labelLarge" style={styles.label}>
+                Add rate
+              </Text>
+              <View style={styles.inputRow}>
+                <TextInput
+                  label="From"
+                  value={baseCurrency}
+                  onChangeText={(text) => setBaseCurrency(text.toUpperCase().slice(0, 3))}
+                  mode="outlined"
+                  autoCapitalize="characters"
+                  style={styles.currencyInput}
+                />
+                <TextInput
+                  label="To"
+                  value={quoteCurrency}
+                  onChangeText={(text) => setQuoteCurrency(text.toUpperCase().slice(0, 3))}
+                  mode="outlined"
+                  autoCapitalize="characters"
+                  style={styles.currencyInput}
+                />
+                <TextInput
+                  label="Rate"
+                  value={rate}
+                  onChangeText={setRate}
+                  keyboardType="decimal-pad"
+                  mode="outlined"
+                  style={styles.rateInput}
+                />
+              </View>
+              <TextInput
+                label="Effective date (YYYY-MM-DD, defaults to today)"
+                value={effectiveDate}
+                onChangeText={setEffectiveDate}
+                mode="outlined"
+                style={styles.dateInput}
+              />
+              {rateError ? (
+                <Text variant="bodySmall" style={[styles.errorText, { color: theme.colors.error }]}>
+                  {rateError}
+                </Text>
+              ) : null}
+              <Button
+                mode="contained"
+                onPress={handleAddRate}
+                loading={addRate.isLoading}
+                disabled={addRate.isLoading || !baseCurrency || !quoteCurrency || !rate}
+                style={styles.actionButton}
+              >
+                Save Rate
+              </Button>
+            </View>
+
+            <View style={styles.section}>
+              <Text variant="labelLarge" style={styles.label}>
+                Import rates
+              </Text>
+              <SegmentedButtons
+                value={importFormat}
+                onValueChange={(val: string) => setImportFormat(val as ImportFormat)}
+                buttons={[
+                  { value: "csv", label: "CSV" },
+                  { value: "json", label: "JSON" },
+                ]}
+                density="small"
+              />
+              {Platform.OS === "web" && (
+                <Button
+                  mode="outlined"
+                  icon="file-upload-outline"
+                  onPress={handleChooseFile}
+                  style={styles.actionButton}
+                >
+                  Choose File
+                </Button>
+              )}
+              <TextInput
+                label="File contents"
+                value={importContent}
+                onChangeText={setImportContent}
+                mode="outlined"
+                multiline
+                numberOfLines={5}
+                placeholder={IMPORT_PLACEHOLDERS[importFormat]}
+                style={styles.importInput}
+              />
+              <Button
+                mode="contained"
+                onPress={handleImport}
+                loading={importRates.isLoading}
+                disabled={importRates.isLoading || !importContent.trim()}
+                style={styles.actionButton}
+              >
+                Import
+              </Button>
+            </View>
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  rootContainer: {
+    flex: 1,
+    width: "100%",
+  },
+  container: {
+    flex: 1,
+    width: "100%",
+    maxWidth: WEB_MAX_WIDTH,
+    alignSelf: "center",
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  label: {
+    marginBottom: 8,
+    fontWeight: "600",
+  },
+  helpText: {
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  chip: {
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  rateRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 4,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  rateText: {
+    flex: 1,
+  },
+  inputRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  currencyInput: {
+    width: 80,
+  },
+  rateInput: {
+    flex: 1,
+  },
+  dateInput: {
+    marginTop: 8,
+  },
+  importInput: {
+    marginTop: 8,
+  },
+  errorText: {
+    marginTop: 4,
+  },
+  actionButton: {
+    marginTop: 12,
+  },
+});
@@ -1,5 +1,14 @@
 import React, { useEffect, useMemo, useState } from "react";
-import { Alert, BackHandler, Platform, ScrollView, StyleSheet, View } from "react-native";
+import {
+  Alert,
+  BackHandler,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  View,
+} from "react-native";
 import {
   ActivityIndicator,
   Appbar,
@@ -18,20 +27,25 @@ import { ActivityFeed } from "../components/ActivityFeed";
 import { GroupDashboard } from "../components/GroupDashboard";
 import { InvitationsList } from "../components/InvitationsList";
 import { MembersList } from "../components/MembersList";
+import { SyncStatusBanner } from "../components/SyncStatusBanner";
 import { TransactionsSection } from "../components/TransactionsSection";
 import { useAuth } from "../contexts/AuthContext";
 import { useActivity } from "../hooks/useActivity";
-import { useBalances } from "../hooks/useBalances";
+import { GROUP_BALANCES_OPTIONS, useBalances } from "../hooks/useBalances";
+import { useBudgets } from "../hooks/useBudgets";
+import { useCategories } from "../hooks/useCategories";
 import {
   useCancelInvitation,
   useGroupInvitations,
 } from "../hooks/useGroupInvitations";
+import { ExportFormat, useExportGroup } from "../hooks/useGroupExport";
 import { useAddMember, useRemoveMember } from "../hooks/useGroupMutations";
 import { useGroupDetails } from "../hooks/useGroups";
 import { useParticipants } from "../hooks/useParticipants";
 import {
   useCreateSettlement,
   useDeleteSettlement,
+  useRespondToSettlement,
   useSettlements,
   useUpdateSettlement,
 } from "../hooks/useSettlements";
@@ -41,15 +55,25 @@ import {
   GroupInvitation,
   GroupWithMembers,
   Settlement,
+  SettlementStatus,
   Transaction,
 } from "../types";
 import { getDefaultCurrency } from "../utils/currency";
+import { toDebtEdges } from "../utils/debt";
 import { showErrorAlert } from "../utils/errorHandling";
 import {
   getUserFriendlyErrorMessage,
   isSessionExpiredError,
 } from "../utils/errorMessages";
 import { GroupStatsMode } from "./GroupStatsScreen";
+import { BudgetsScreen } from "./BudgetsScreen";
+import { CategoriesScreen } from "./CategoriesScreen";
+import { CommentsScreen } from "./CommentsScreen";
+import { ExchangeRatesScreen } from "./ExchangeRatesScreen";
+import { GroupSettingsScreen } from "./GroupSettingsScreen";
+import { RecurringTransactionsScreen } from "./RecurringTransactionsScreen";
+import { TransactionHistoryScreen } from "./TransactionHistoryScreen";
+import { TrashScreen } from "./TrashScreen";
 import { SettlementFormScreen } from "./SettlementFormScreen";
 
 interface GroupDetailsScreenProps {
@@ -86,12 +110,42 @@ export const GroupDetailsScreen: React.FC<GroupDetailsScreenProps> = ({
     null
   );
   const [showMembers, setShowMembers] = useState<boolean>(false);
+  const [showExchangeRates, setShowExchangeRates] = useState<boolean>(false);
+  const [showCategories, setShowCategories] = useState<boolean>(false);
+  const [showBudgets, setShowBudgets] = useState<boolean>(false);
+  const [commentsTransaction, setCommentsTransaction] = useState<Transaction | null>(null);
+  const [historyTransactionId, setHistoryTransactionId] = useState<number | null>(null);
+  const [showRecurring, setShowRecurring] = useState<boolean>(false);
+  const [showTrash, setShowTrash] = useState<boolean>(false);
+  const [showExportDialog, setShowExportDialog] = useState<boolean>(false);
+  const [showGroupSettings, setShowGroupSettings] = useState<boolean>(false);
   const [listMode, setListMode] = useState<"transactions" | "activity">(
     "transactions"
   );
   const [showActivityFilters, setShowActivityFilters] = useState(false);
-  const [activityFilterType, setActivityFilterType] = useState<"all" | "expenses" | "settlements">("all");
+  const [activityFilterType, setActivityFilterType] = useState<"all" | "expenses" | "settlements" | "members">("all");
   const [activityFilterParticipantId, setActivityFilterParticipantId] = useState<string>("all");
+  // The type filter is applied by the server; the person filter matches
+  // involvement, so it stays client-side
+  const {
+    data: activityData,
+    isLoading: activityLoading,
+    refetch: refetchActivity,
+    hasMore: hasMoreActivity,
+    isLoadingMore: activityLoadingMore,
+    loadMore: loadMoreActivity,
+  } = useActivity(
+    initialGroup.id,
+    activityFilterType === "all"
+      ? undefined
+      : {
+          type: activityFilterType === "expenses"
+            ? "transaction"
+            : activityFilterType === "settlements"
+            ? "settlement"
+            : "member",
+        }
+  );
   
   // Web-compatible confirmation dialog state
   const [confirmDialog, setConfirmDialog] = useState<{
@@ -136,6 +190,9 @@ export const GroupDetailsScreen: React.FC<GroupDetailsScreenProps> = ({
     data: txData,
     isLoading: txLoading,
     refetch: refetchTx,
+    hasMore: hasMoreTx,
+    isLoadingMore: txLoadingMore,
+    loadMore: loadMoreTx,
   } = useTransactions(initialGroup.id);
   const {
     data: invitations = [] as GroupInvitation[],
@@ -145,21 +202,18 @@ export const GroupDetailsScreen: React.FC<GroupDetailsScreenProps> = ({
   const {
     data: participants = [],
   } = useParticipants(initialGroup.id);
+  const { data: categories } = useCategories(initialGroup.id);
+  const { data: budgets } = useBudgets(initialGroup.id);
   const {
     data: balancesData,
     isLoading: balancesLoading,
     refetch: refetchBalances,
-  } = useBalances(initialGroup.id);
+  } = useBalances(initialGroup.id, GROUP_BALANCES_OPTIONS);
   const {
     data: settlementsData,
     isLoading: settlementsLoading,
     refetch: refetchSettlements,
   } = useSettlements(initialGroup.id);
-  const {
-    data: activityData,
-    isLoading: activityLoading,
-    refetch: refetchActivity,
-  } = useActivity(initialGroup.id);
   const [cancellingInvitationId, setCancellingInvitationId] = useState<
     string | null
   >(null);
@@ -176,19 +230,18 @@ export const GroupDetailsScreen: React.FC<GroupDetailsScreenProps> = ({
     return map;
   }, [participants]);
 
+  const settlementStatuses = useMemo(() => {
+    const statuses: Record<string, SettlementStatus> = {};
+    settlementsData?.settlements.forEach((s) => {
+      statuses[s.id] = s.status;
+    });
+    return statuses;
+  }, [settlementsData]);
+
   // Filter activity items
   const filteredActivities = useMemo(() => {
     let items = activityData?.activities || [];
     
-    // Filter by type
-    if (activityFilterType !== "all") {
-      items = items.filter(item => {
-        if (activityFilterType === "expenses") return item.type.startsWith("transaction");
-        if (activityFilterType === "settlements") return item.type.startsWith("settlement");
-        return true;
-      });
-    }
-    
     // Filter by participant involvement
     if (activityFilterParticipantId !== "all") {
       items = items.filter(item => {
@@ -200,6 +253,7 @@ export const GroupDetailsScreen: React.FC<GroupDetailsScreenProps> = ({
         if (item.details?.transaction) {
           const t = item.details.transaction;
           if (t.paid_by_participant_id === activityFilterParticipantId) return true;
+          if (t.payers?.some(p => p.participant_id === activityFilterParticipantId)) return true;
           if (t.split_among_participant_ids?.includes(activityFilterParticipantId)) return true;
           if (t.splits?.some(s => s.participant_id === activityFilterParticipantId)) return true;
         }
@@ -211,12 +265,20 @@ export const GroupDetailsScreen: React.FC<GroupDetailsScreenProps> = ({
           if (s.to_participant_id === activityFilterParticipantId) return true;
         }
 
+        // 4. Check the member who joined, left or was invited
+        if (item.details?.member) {
+          const m = item.details.member;
+          if (m.user_id && userIdToParticipantId.get(m.user_id) === activityFilterParticipantId) return true;
+          const participant = participants.find(p => p.id === activityFilterParticipantId);
+          if (!m.user_id && m.email && participant?.email?.toLowerCase() === m.email.toLowerCase()) return true;
+        }
+
         return false;
       });
     }
     
     return items;
-  }, [activityData?.activities, activityFilterType, activityFilterParticipantId, userIdToParticipantId]);
+  }, [activityData?.activities, activityFilterParticipantId, userIdToParticipantId, participants]);
 
   // Auto sign-out on session expiration with alert
   useEffect(() => {
@@ -266,9 +328,14 @@ export const GroupDetailsScreen: React.FC<GroupDetailsScreenProps> = ({
   const createSettlement = useCreateSettlement(refetchAll);
   const updateSettlement = useUpdateSettlement(refetchAll);
   const deleteSettlement = useDeleteSettlement(refetchAll);
+  const respondToSettlement = useRespondToSettlement();
 
   // Use groupData directly, fallback to initialGroup while loading
   const group = groupData || initialGroup;
+  const debts = useMemo(
+    () => toDebtEdges(balancesData?.group_balances?.[0]),
+    [balancesData]
+  );
 
   // API already filters by group_id, so no need for client-side filtering
   const transactions = txData;
@@ -287,6 +354,17 @@ export const GroupDetailsScreen: React.FC<GroupDetailsScreenProps> = ({
     }
   }, [groupRefreshTrigger, refetchGroup]);
 
+  const { mutate: exportGroup, isLoading: isExporting } = useExportGroup();
+
+  const handleExport = async (format: ExportFormat) => {
+    setShowExportDialog(false);
+    try {
+      await exportGroup({ groupId: group.id, format });
+    } catch (err) {
+      showErrorAlert(err, signOut, "Export Failed");
+    }
+  };
+
   const handleLeaveGroup = async () => {
     const currentUserId = session?.user?.id;
     if (!currentUserId) {
@@ -456,8 +534,19 @@ export const GroupDetailsScreen: React.FC<GroupDetailsScreenProps> = ({
     notes?: string;
     from_participant_id?: string;
     to_participant_id?: string;
+    version?: number;
+  }) => {
+    await updateSettlement.mutate({ ...updateData, group_id: group.id });
+    setShowSettlementForm(false);
+    setEditingSettlement(null);
+  };
+
+  const handleSettlementRespond = async (data: {
+    id: string;
+    status: "confirmed" | "disputed";
+    reason?: string;
   }) => {
-    await updateSettlement.mutate(updateData);
+    await respondToSettlement.mutate({ ...data, groupId: group.id });
     setShowSettlementForm(false);
     setEditingSettlement(null);
   };
@@ -481,8 +570,12 @@ export const GroupDetailsScreen: React.FC<GroupDetailsScreenProps> = ({
   const isActiveMember =
     group.members?.some((m) => m.user_id === currentUserId && m.status === 'active') ?? false;
 
-  const canManageMembers = isActiveMember;
-  const canManageInvites = isActiveMember;
+  // Archived groups are read-only until restored
+  const isArchived = !!group.archived_at;
+  const canEdit = isActiveMember && !isArchived;
+
+  const canManageMembers = canEdit;
+  const canManageInvites = canEdit;
 
   const handleCancelInvitation = async (invitationId: string) => {
     const performCancel = async () => {
@@ -543,6 +636,19 @@ export const GroupDetailsScreen: React.FC<GroupDetailsScreenProps> = ({
     }
   };
 
+  // Load older transactions or activity when the list is scrolled near its end
+  const handleScroll = ({ nativeEvent }: NativeSyntheticEvent<NativeScrollEvent>) => {
+    if (showMembers) return;
+    const { layoutMeasurement, contentOffset, contentSize } = nativeEvent;
+    if (layoutMeasurement.height + contentOffset.y < contentSize.height - 400) return;
+
+    if (listMode === "transactions") {
+      if (hasMoreTx && !txLoadingMore) loadMoreTx();
+    } else if (hasMoreActivity && !activityLoadingMore) {
+      loadMoreActivity();
+    }
+  };
+
   if (groupLoading && !group.members) {
     return (
       <View
@@ -634,7 +740,7 @@ export const GroupDetailsScreen: React.FC<GroupDetailsScreenProps> = ({
           testID="back-button"
         />
         <Appbar.Content
-          title={showMembers ? "Group Members" : group.name}
+          title={showMembers ? "Group Members" : group.emoji ? `${group.emoji} ${group.name}` : group.name}
           titleStyle={{ fontWeight: "bold" }}
         />
         
@@ -666,6 +772,73 @@ export const GroupDetailsScreen: React.FC<GroupDetailsScreenProps> = ({
               }}
               title="View Members"
               leadingIcon="account-group"
+            />
+            <Menu.Item
+              onPress={() => {
+                handleCloseMenu();
+                setShowGroupSettings(true);
+              }}
+              title="Group Settings"
+              leadingIcon="cog-outline"
+            />
+            {!isArchived && (
+              <Menu.Item
+                onPress={() => {
+                  handleCloseMenu();
+                  setShowExchangeRates(true);
+                }}
+                title="Currency & Rates"
+                leadingIcon="currency-usd"
+              />
+            )}
+            {!isArchived && (
+              <Menu.Item
+                onPress={() => {
+                  handleCloseMenu();
+                  setShowCategories(true);
+                }}
+                title="Categories"
+                leadingIcon="tag-multiple-outline"
+              />
+            )}
+            {!isArchived && (
+              <Menu.Item
+                onPress={() => {
+                  handleCloseMenu();
+                  setShowBudgets(true);
+                }}
+                title="Budgets"
+                leadingIcon="chart-donut"
+              />
+            )}
+            {!isArchived && (
+              <Menu.Item
+                onPress={() => {
+                  handleCloseMenu();
+                  setShowRecurring(true);
+                }}
+                title="Recurring Expenses"
+                leadingIcon="calendar-sync"
+              />
+            )}
+            {!isArchived && (
+              <Menu.Item
+                onPress={() => {
+                  handleCloseMenu();
+                  setShowTrash(true);
+                }}
+                title="Recently Deleted"
+                leadingIcon="delete-restore"
+              />
+            )}
+            <Menu.Item
+              onPress={() => {
+                handleCloseMenu();
+                setShowExportDialog(true);
+              }}
+              title="Export"
+              leadingIcon="export-variant"
+              disabled={isExporting}
             />
               <Menu.Item
                 onPress={() => {
@@ -681,6 +854,15 @@ export const GroupDetailsScreen: React.FC<GroupDetailsScreenProps> = ({
         )}
       </Appbar.Header>
 
+      {/* Banner for archived groups */}
+      {isArchived && isMember && !showMembers && (
+          <View style={{ backgroundColor: theme.colors.surfaceVariant, paddingHorizontal: 16, paddingVertical: 8, alignItems: 'center', width: '100%' }}>
+            <Text style={{ color: theme.colors.onSurfaceVariant, fontSize: 12, fontWeight: 'bold' }}>
+              This group is archived and read-only
+            </Text>
+          </View>
+      )}
+
       {/* Banner for former members */}
       {!isActiveMember && isMember && !showMembers && (
           <View style={{ backgroundColor: theme.colors.errorContainer, paddingHorizontal: 16, paddingVertical: 8, alignItems: 'center', width: '100%' }}>
@@ -690,10 +872,14 @@ export const GroupDetailsScreen: React.FC<GroupDetailsScreenProps> = ({
           </View>
       )}
 
+      {!showMembers && <SyncStatusBanner groupId={group.id} />}
+
       <ScrollView
         style={styles.scrollView}
         contentContainerStyle={styles.scrollContent}
         showsVerticalScrollIndicator={false}
+        onScroll={handleScroll}
+        scrollEventThrottle={200}
       >
         {showMembers ? (
           // MEMBERS VIEW
@@ -731,18 +917,22 @@ export const GroupDetailsScreen: React.FC<GroupDetailsScreenProps> = ({
           // DASHBOARD & LIST VIEW
           <>
             <GroupDashboard
-              balances={balancesData?.group_balances?.[0]?.balances || []}
+              debts={debts}
               transactions={transactions || []}
               currentUserId={session?.user?.id}
               currentUserParticipantId={group.members?.find(m => m.user_id === session?.user?.id)?.participant_id}
               loading={balancesLoading}
-              defaultCurrency={getDefaultCurrency()}
+              defaultCurrency={group.default_currency || getDefaultCurrency()}
               onSettlePress={(balance) => {
+                  if (!canEdit) return;
                   setSettlingBalance(balance);
                   setShowSettlementForm(true);
               }}
               onMyCostsPress={() => handleStatNavigation("my-costs")}
               onTotalCostsPress={() => handleStatNavigation("total-costs")}
+              budgets={budgets}
+              categories={categories}
+              onBudgetsPress={isArchived ? undefined : () => setShowBudgets(true)}
             />
 
             <View
@@ -772,9 +962,12 @@ export const GroupDetailsScreen: React.FC<GroupDetailsScreenProps> = ({
               <TransactionsSection
                 items={transactions}
                 loading={txLoading}
-                onEdit={isActiveMember ? onEditTransaction : () => {}}
+                loadingMore={txLoadingMore}
+                categories={categories}
+                onEdit={canEdit ? onEditTransaction : () => {}}
                 members={group.members || []}
                 participants={participants}
+                onCommentsPress={isMember ? setCommentsTransaction : undefined}
               />
             ) : (
               <View style={[styles.sectionContent, styles.activitySection]}>
@@ -825,6 +1018,16 @@ export const GroupDetailsScreen: React.FC<GroupDetailsScreenProps> = ({
                       >
                         Settlements
                       </Chip>
+                      <Chip 
+                        selected={activityFilterType === "members"} 
+                        onPress={() => setActivityFilterType("members")}
+                        style={[styles.filterChip, activityFilterType === "members" && { backgroundColor: theme.colors.primaryContainer }]}
+                        showSelectedCheck={true}
+                        icon="account-multiple-outline"
+                        mode={activityFilterType === "members" ? "flat" : "outlined"}
+                      >
+                        Members
+                      </Chip>
                     </ScrollView>
 
                     <Text variant="labelLarge" style={[styles.filterLabel, { marginTop: 4 }]}>Filter by Person</Text>
@@ -858,7 +1061,14 @@ export const GroupDetailsScreen: React.FC<GroupDetailsScreenProps> = ({
                 <ActivityFeed
                   items={filteredActivities}
                   loading={activityLoading}
+                  loadingMore={activityLoadingMore}
                   isFiltered={activityFilterType !== "all" || activityFilterParticipantId !== "all"}
+                  settlementStatuses={settlementStatuses}
+                  onSettlementPress={(settlementId) => {
+                    const settlement = settlementsData?.settlements.find((s) => s.id === settlementId);
+                    if (settlement) handleEditSettlement(settlement);
+                  }}
+                  onTransactionPress={setHistoryTransactionId}
                 />
               </View>
             )}
@@ -869,7 +1079,7 @@ export const GroupDetailsScreen: React.FC<GroupDetailsScreenProps> = ({
         <View style={{ height: 80 }} />
       </ScrollView>
 
-      {!showMembers && isActiveMember && (
+      {!showMembers && canEdit && (
         <FAB
           icon="plus"
           style={[
@@ -890,17 +1100,10 @@ export const GroupDetailsScreen: React.FC<GroupDetailsScreenProps> = ({
         groupMembers={group.members || []}
         currentUserId={session?.user?.id || ""}
         groupId={group.id}
-        defaultCurrency={getDefaultCurrency()}
-        onSave={async (data) => {
-          if (editingSettlement) {
-            await handleSettlementUpdate({
-              id: editingSettlement.id,
-              ...data,
-            });
-          } else {
-            await handleSettlementSave(data);
-          }
-        }}
+        defaultCurrency={group.default_currency || getDefaultCurrency()}
+        onSave={handleSettlementSave}
+        onUpdate={handleSettlementUpdate}
+        onRespond={handleSettlementRespond}
         onDismiss={() => {
           setShowSettlementForm(false);
           setSettlingBalance(null);
@@ -908,6 +1111,87 @@ export const GroupDetailsScreen: React.FC<GroupDetailsScreenProps> = ({
         }}
       />
 
+      {/* Settlement currency and exchange rates modal */}
+      <ExchangeRatesScreen
+        visible={showExchangeRates}
+        groupId={group.id}
+        settlementCurrency={group.settlement_currency}
+        onDismiss={() => setShowExchangeRates(false)}
+      />
+
+      {/* Expense categories modal */}
+      <CategoriesScreen
+        visible={showCategories}
+        groupId={group.id}
+        onDismiss={() => setShowCategories(false)}
+      />
+
+      {/* Budgets modal */}
+      <BudgetsScreen
+        visible={showBudgets}
+        groupId={group.id}
+        defaultCurrency={group.default_currency || getDefaultCurrency()}
+        onDismiss={() => setShowBudgets(false)}
+      />
+
+      {/* Transaction comments modal */}
+      <CommentsScreen
+        visible={!!commentsTransaction}
+        groupId={group.id}
+        target={commentsTransaction ? { type: "transaction", id: commentsTransaction.id } : null}
+        title={commentsTransaction?.description || "Comments"}
+        readOnly={!canEdit}
+        onDismiss={() => setCommentsTransaction(null)}
+      />
+
+      {/* Group details and archiving modal */}
+      <GroupSettingsScreen
+        visible={showGroupSettings}
+        group={group}
+        hasOpenBalances={(balancesData?.group_balances?.[0]?.balances?.length ?? 0) > 0}
+        onDismiss={() => setShowGroupSettings(false)}
+      />
+
+      {/* Recurring expense series modal */}
+      <RecurringTransactionsScreen
+        visible={showRecurring}
+        groupId={group.id}
+        onDismiss={() => setShowRecurring(false)}
+      />
+
+      {/* Transaction version history */}
+      <TransactionHistoryScreen
+        visible={historyTransactionId !== null}
+        transactionId={historyTransactionId}
+        groupId={group.id}
+        readOnly={!canEdit}
+        onDismiss={() => setHistoryTransactionId(null)}
+      />
+
+      {/* Recently deleted expenses and settlements */}
+      <TrashScreen
+        visible={showTrash}
+        groupId={group.id}
+        onDismiss={() => setShowTrash(false)}
+      />
+
+      {/* Export format picker */}
+      <Portal>
+        <Dialog visible={showExportDialog} onDismiss={() => setShowExportDialog(false)}>
+          <Dialog.Title>Export Group</Dialog.Title>
+          <Dialog.Content>
+            <Text variant="bodyMedium">
+              Export all expenses, settlements and balances. CSV opens in spreadsheets; JSON keeps every detail.
+            </Text>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setShowExportDialog(false)}>Cancel</Button>
+            <Button onPress={() => handleExport("csv")}>CSV</Button>
+            <Button onPress={() => handleExport("json")}>JSON</Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+
       {/* Web-compatible confirmation dialog */}
       {Platform.OS === "web" && confirmDialog && (
         <Portal>
@@ -0,0 +1,354 @@
+import React, { useEffect, useState } from "react";
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import {
+  Appbar,
+  Button,
+  Chip,
+  Text,
+  TextInput,
+  useTheme,
+} from "react-native-paper";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { WEB_MAX_WIDTH } from "../constants/layout";
+import { useSetGroupArchived, useUpdateGroup } from "../hooks/useGroupMutations";
+import { Group } from "../types";
+import { CURRENCIES } from "../utils/currency";
+import { getUserFriendlyErrorMessage } from "../utils/errorMessages";
+
+interface GroupSettingsScreenProps {
+  visible: boolean;
+  group: Group;
+  hasOpenBalances: boolean; // Groups can only be archived once everyone is settled up
+  onDismiss: () => void;
+}
+
+const COVER_COLORS = [
+  "#F44336",
+  "#FF9800",
+  "#FFC107",
+  "#4CAF50",
+  "#009688",
+  "#2196F3",
+  "#3F51B5",
+  "#9C27B0",
+  "#795548",
+  "#607D8B",
+];
+
+const TRASH_RETENTION_OPTIONS = [7, 30, 90, 365];
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export const GroupSettingsScreen: React.FC<GroupSettingsScreenProps> = ({
+  visible,
+  group,
+  hasOpenBalances,
+  onDismiss,
+}) => {
+  const theme = useTheme();
+  const insets = useSafeAreaInsets();
+  const updateGroup = useUpdateGroup();
+  const setGroupArchived = useSetGroupArchived();
+
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [defaultCurrency, setDefaultCurrency] = useState<string | null>(null);
+  const [emoji, setEmoji] = useState("");
+  const [coverColor, setCoverColor] = useState<string | null>(null);
+  const [trashRetentionDays, setTrashRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+
+  const isArchived = !!group.archived_at;
+
+  useEffect(() => {
+    if (!visible) return;
+    setName(group.name);
+    setDescription(group.description || "");
+    setDefaultCurrency(group.default_currency || null);
+    setEmoji(group.emoji || "");
+    setCoverColor(group.cover_color || null);
+    setTrashRetentionDays(group.trash_retention_days ?? DEFAULT_TRASH_RETENTION_DAYS);
+  }, [visible, group]);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      Alert.alert("Error", "Please enter a group name");
+      return;
+    }
+    try {
+      await updateGroup.mutate({
+        groupId: group.id,
+        changes: {
+          name: name.trim(),
+          description: description.trim() || null,
+          default_currency: defaultCurrency,
+          emoji: emoji.trim() || null,
+          cover_color: coverColor,
+          trash_retention_days: trashRetentionDays,
+        },
+      });
+      onDismiss();
+    } catch (error) {
+      Alert.alert("Error", getUserFriendlyErrorMessage(error));
+    }
+  };
+
+  const handleSetArchived = async (archived: boolean) => {
+    try {
+      await setGroupArchived.mutate({ groupId: group.id, archived });
+      onDismiss();
+    } catch (error) {
+      Alert.alert("Error", getUserFriendlyErrorMessage(error));
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={onDismiss}
+      presentationStyle="pageSheet"
+    >
+      <View style={[styles.rootContainer, { backgroundColor: theme.colors.background }]}>
+        <KeyboardAvoidingView
+          style={styles.container}
+          behavior={Platform.OS === "ios" ? "padding" : "height"}
+          keyboardVerticalOffset={insets.top}
+        >
+          <Appbar.Header>
+            <Appbar.Action icon="close" onPress={onDismiss} />
+            <Appbar.Content title="Group Settings" />
+            {!isArchived && (
+              <Appbar.Action
+                icon="check"
+                onPress={handleSave}
+                disabled={updateGroup.isLoading}
+                accessibilityLabel="Save group settings"
+              />
+            )}
+          </Appbar.Header>
+
+          <ScrollView
+            style={styles.scrollView}
+            contentContainerStyle={styles.scrollContent}
+            keyboardShouldPersistTaps="handled"
+          >
+            {isArchived ? (
+              <View style={styles.section}>
+                <Text variant="bodyMedium" style={[styles.helpText, { color: theme.colors.onSurfaceVariant }]}>
+                  This group is archived. Restore it to add expenses or change its settings.
+                </Text>
+              </View>
+            ) : (
+              <>
+                <View style={styles.section}>
+                  <View style={styles.inputRow}>
+                    <TextInput
+                      label="Emoji"
+                      value={emoji}
+                      onChangeText={setEmoji}
+                      mode="outlined"
+                      maxLength={16}
+                      style={styles.emojiInput}
+                    />
+                    <TextInput
+                      label="Group Name"
+                      value={name}
+                      onChangeText={setName}
+                      mode="outlined"
+                      style={styles.nameInput}
+                    />
+                  </View>
+                  <TextInput
+                    label="Description (Optional)"
+                    value={description}
+                    onChangeText={setDescription}
+                    mode="outlined"
+                    multiline
+                    numberOfLines={3}
+                    style={styles.descriptionInput}
+                  />
+                </View>
+
+                <View style={styles.section}>
+                  <Text variant="labelLarge" style={styles.label}>
+                    Cover color
+                  </Text>
+                  <View style={styles.chipRow}>
+                    <Chip
+                      selected={!coverColor}
+                      onPress={() => setCoverColor(null)}
+                      mode={!coverColor ? "flat" : "outlined"}
+                      style={styles.chip}
+                    >
+                      Default
+                    </Chip>
+                    {COVER_COLORS.map((color) => (
+                      <TouchableOpacity
+                        key={color}
+                        onPress={() => setCoverColor(color)}
+                        accessibilityLabel={`Cover color ${color}`}
+                        style={[
+                          styles.swatch,
+                          { backgroundColor: color },
+                          coverColor === color && { borderColor: theme.colors.onSurface },
+                        ]}
+                      />
+                    ))}
+                  </View>
+                </View>
+
+                <View style={styles.section}>
+                  <Text variant="labelLarge" style={styles.label}>
+                    Default currency
+                  </Text>
+                  <Text variant="bodySmall" style={[styles.helpText, { color: theme.colors.onSurfaceVariant }]}>
+                    New expenses in this group start in this currency.
+                  </Text>
+                  <View style={styles.chipRow}>
+                    <Chip
+                      selected={!defaultCurrency}
+                      onPress={() => setDefaultCurrency(null)}
+                      mode={!defaultCurrency ? "flat" : "outlined"}
+                      style={styles.chip}
+                    >
+                      App default
+                    </Chip>
+                    {CURRENCIES.map((currency) => (
+                      <Chip
+                        key={currency.code}
+                        selected={defaultCurrency === currency.code}
+                        onPress={() => setDefaultCurrency(currency.code)}
+                        mode={defaultCurrency === currency.code ? "flat" : "outlined"}
+                        style={styles.chip}
+                      >
+                        {currency.code}
+                      </Chip>
+                    ))}
+                  </View>
+                </View>
+
+                <View style={styles.section}>
+                  <Text variant="labelLarge" style={styles.label}>
+                    Recently deleted
+                  </Text>
+                  <Text variant="bodySmall" style={[styles.helpText, { color: theme.colors.onSurfaceVariant }]}>
+                    Deleted expenses and settlements can be restored for this long, then they're removed for good.
+                  </Text>
+                  <View style={styles.chipRow}>
+                    {[...new Set([...TRASH_RETENTION_OPTIONS, trashRetentionDays])]
+                      .sort((a, b) => a - b)
+                      .map((days) => (
+                        <Chip
+                          key={days}
+                          selected={trashRetentionDays === days}
+                          onPress={() => setTrashRetentionDays(days)}
+                          mode={trashRetentionDays === days ? "flat" : "outlined"}
+                          style={styles.chip}
+                        >
+                          {days === 1 ? "1 day" : `${days} days`}
+                        </Chip>
+                      ))}
+                  </View>
+                </View>
+              </>
+            )}
+
+            <View style={styles.section}>
+              <Text variant="labelLarge" style={styles.label}>
+                {isArchived ? "Restore" : "Archive"}
+              </Text>
+              {!isArchived && (
+                <Text variant="bodySmall" style={[styles.helpText, { color: theme.colors.onSurfaceVariant }]}>
+                  {hasOpenBalances
+                    ? "Settle all balances before archiving this group."
+                    : "Archived groups are hidden from your groups list and can't be changed until restored."}
+                </Text>
+              )}
+              <Button
+                mode={isArchived ? "contained" : "outlined"}
+                icon={isArchived ? "archive-arrow-up-outline" : "archive-outline"}
+                onPress={() => handleSetArchived(!isArchived)}
+                loading={setGroupArchived.isLoading}
+                disabled={setGroupArchived.isLoading || (!isArchived && hasOpenBalances)}
+                style={styles.actionButton}
+              >
+                {isArchived ? "Restore Group" : "Archive Group"}
+              </Button>
+            </View>
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  rootContainer: {
+    flex: 1,
+    width: "100%",
+  },
+  container: {
+    flex: 1,
+    width: "100%",
+    maxWidth: WEB_MAX_WIDTH,
+    alignSelf: "center",
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  label: {
+    marginBottom: 8,
+    fontWeight: "600",
+  },
+  helpText: {
+    marginBottom: 8,
+  },
+  inputRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  emojiInput: {
+    width: 80,
+  },
+  nameInput: {
+    flex: 1,
+  },
+  descriptionInput: {
+    marginTop: 8,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    alignItems: "center",
+  },
+  chip: {
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  swatch: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    marginRight: 8,
+    marginBottom: 8,
+    borderWidth: 2,
+    borderColor: "transparent",
+  },
+  actionButton: {
+    marginTop: 4,
+  },
+});
@@ -1,5 +1,5 @@
 import React, { useEffect, useMemo, useState } from "react";
-import { BackHandler, ScrollView, StyleSheet, View } from "react-native";
+import { Alert, BackHandler, ScrollView, StyleSheet, View } from "react-native";
 import {
   ActivityIndicator,
   Appbar,
@@ -12,10 +12,13 @@ import {
 } from "react-native-paper";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { BalancesSection } from "../components/BalancesSection";
+import { UNCATEGORIZED } from "../constants/categories";
 import { useAuth } from "../contexts/AuthContext";
-import { useBalances } from "../hooks/useBalances";
+import { GROUP_BALANCES_OPTIONS, useBalances } from "../hooks/useBalances";
+import { useCategories } from "../hooks/useCategories";
 import { useGroupDetails } from "../hooks/useGroups";
 import { useParticipants } from "../hooks/useParticipants";
+import { useSendReminder } from "../hooks/usePaymentReminders";
 import { useCreateSettlement } from "../hooks/useSettlements";
 import { useTransactions } from "../hooks/useTransactions";
 import { Balance, GroupMember, Participant, Transaction } from "../types";
@@ -24,7 +27,8 @@ import {
   formatTotals,
   getDefaultCurrency,
 } from "../utils/currency";
-import { simplifyDebts } from "../utils/debt";
+import { toDebtEdges } from "../utils/debt";
+import { showErrorAlert } from "../utils/errorHandling";
 import { SettlementFormScreen } from "./SettlementFormScreen";
 
 export type GroupStatsMode = "my-costs" | "total-costs" | "settlement-plan" | "i-owe" | "im-owed";
@@ -74,7 +78,7 @@ export const GroupStatsScreen: React.FC<GroupStatsScreenProps> = ({
   const [activeMode, setActiveMode] = useState<GroupStatsMode>(mode);
   const theme = useTheme();
   const defaultCurrency = getDefaultCurrency();
-  const { session } = useAuth();
+  const { session, signOut } = useAuth();
   const [settlingBalance, setSettlingBalance] = useState<Balance | null>(null);
   const [settlementInitialData, setSettlementInitialData] = useState<{
     fromParticipantId: string;
@@ -113,17 +117,41 @@ export const GroupStatsScreen: React.FC<GroupStatsScreenProps> = ({
   const { data: groupData } = useGroupDetails(groupId);
   const {
     data: transactions,
-    isLoading: transactionsLoading,
+    isLoading: firstTransactionsPageLoading,
+    error: transactionsError,
     refetch: refetchTransactions,
+    hasMore: hasMoreTransactions,
+    isLoadingMore: isLoadingMoreTransactions,
+    loadMore: loadMoreTransactions,
   } = useTransactions(groupId);
   const {
     data: balancesData,
     isLoading: balancesLoading,
     refetch: refetchBalances,
-  } = useBalances(groupId);
+  } = useBalances(groupId, GROUP_BALANCES_OPTIONS);
   const createSettlement = useCreateSettlement(async () => {
     await Promise.all([refetchBalances(), refetchTransactions()]);
   });
+  const sendReminder = useSendReminder();
+
+  const handleRemind = async (balance: Balance) => {
+    if (!balance.participant_id || sendReminder.isLoading) return;
+    try {
+      await sendReminder.mutate({ group_id: groupId, participant_id: balance.participant_id });
+      Alert.alert("Reminder sent", "We emailed them what they owe and a link to settle up.");
+    } catch (error) {
+      showErrorAlert(error, signOut, "Couldn't send reminder");
+    }
+  };
+
+  // Cost breakdowns cover the whole ledger, so keep loading pages
+  useEffect(() => {
+    if (hasMoreTransactions && !isLoadingMoreTransactions && !transactionsError) {
+      loadMoreTransactions();
+    }
+  }, [hasMoreTransactions, isLoadingMoreTransactions, transactionsError, loadMoreTransactions]);
+  const transactionsLoading =
+    firstTransactionsPageLoading || (hasMoreTransactions && !transactionsError);
 
   // Handle Android hardware back button
   useEffect(() => {
@@ -140,6 +168,7 @@ export const GroupStatsScreen: React.FC<GroupStatsScreenProps> = ({
   }, [onBack]);
 
   const { data: participantsData = [] } = useParticipants(groupId);
+  const { data: categories } = useCategories(groupId);
   const members = groupData?.members || [];
   const participants = participantsData || [];
   const currentUserId = session?.user?.id;
@@ -278,14 +307,22 @@ export const GroupStatsScreen: React.FC<GroupStatsScreenProps> = ({
      transactions
         .filter(t => t.type !== 'income')
         .forEach(t => {
+            const currency = t.currency || defaultCurrency;
+            const addPayment = (payerPid: string, amount: number) => {
+              const userMap = map.get(payerPid) || new Map<string, number>();
+              const current = userMap.get(currency) || 0;
+              userMap.set(currency, current + amount);
+              map.set(payerPid, userMap);
+            };
+
+            if (t.payers && t.payers.length > 1) {
+              t.payers.forEach(payer => addPayment(payer.participant_id, payer.amount));
+              return;
+            }
+
             const payerPid = t.paid_by_participant_id || t.paid_by || t.user_id;
             if (!payerPid) return;
-            
-            const currency = t.currency || defaultCurrency;
-            const userMap = map.get(payerPid) || new Map<string, number>();
-            const current = userMap.get(currency) || 0;
-            userMap.set(currency, current + t.amount);
-            map.set(payerPid, userMap);
+            addPayment(payerPid, t.amount);
         });
      return map;
   }, [transactions, defaultCurrency]);
@@ -361,6 +398,55 @@ export const GroupStatsScreen: React.FC<GroupStatsScreenProps> = ({
       );
   }, [transactions, currentUserId]);
 
+  // Spending per category: the whole group's expenses, or only my share of them
+  const categoryBreakdown = useMemo(() => {
+    if (activeMode !== "my-costs" && activeMode !== "total-costs") return [];
+
+    const entries =
+      activeMode === "my-costs"
+        ? myTransactionBreakdown
+            .filter((entry) => entry.shareAmount !== null)
+            .map((entry) => ({
+              transaction: entry.transaction,
+              amount: entry.shareAmount as number,
+            }))
+        : (transactions || [])
+            .filter((transaction) => transaction.type !== "income")
+            .map((transaction) => ({ transaction, amount: transaction.amount }));
+
+    const categoryMap = new Map(categories.map((category) => [category.id, category]));
+    const breakdown = new Map<
+      string,
+      { key: string; name: string; icon: string; color: string; amounts: Map<string, number>; total: number }
+    >();
+
+    entries.forEach(({ transaction, amount }) => {
+      const category = transaction.category_id ? categoryMap.get(transaction.category_id) : undefined;
+      // Transactions whose category was deleted still carry its name as text
+      const fallbackName = transaction.category?.trim();
+      const key = category?.id ?? (fallbackName ? `name:${fallbackName.toLowerCase()}` : "uncategorized");
+
+      let entry = breakdown.get(key);
+      if (!entry) {
+        entry = {
+          key,
+          name: category?.name ?? fallbackName ?? UNCATEGORIZED.NAME,
+          icon: category?.icon ?? UNCATEGORIZED.ICON,
+          color: category?.color ?? UNCATEGORIZED.COLOR,
+          amounts: new Map(),
+          total: 0,
+        };
+        breakdown.set(key, entry);
+      }
+
+      const currency = transaction.currency || defaultCurrency;
+      entry.amounts.set(currency, (entry.amounts.get(currency) || 0) + amount);
+      entry.total += amount;
+    });
+
+    return Array.from(breakdown.values()).sort((a, b) => b.total - a.total);
+  }, [activeMode, myTransactionBreakdown, transactions, categories, defaultCurrency]);
+
   const filteredBalances = useMemo(() => {
     const balances = balancesData?.group_balances?.[0]?.balances || balancesData?.overall_balances || [];
     if (activeMode === "i-owe") {
@@ -383,9 +469,9 @@ export const GroupStatsScreen: React.FC<GroupStatsScreenProps> = ({
 
   const settlementEdges = useMemo(() => {
     if ((activeMode !== "total-costs" && activeMode !== "settlement-plan") || filteredBalances.length === 0) return [];
-    // Calculate full graph of settlements
-    return simplifyDebts(filteredBalances, currentUserId, defaultCurrency, currentUserParticipantId);
-  }, [filteredBalances, activeMode, currentUserId, defaultCurrency, currentUserParticipantId]);
+    // Full settlement plan computed by the server
+    return toDebtEdges(balancesData?.group_balances?.[0]);
+  }, [balancesData, filteredBalances, activeMode]);
 
   const resolveUserLabel = (userId: string | undefined, fallback?: string) => {
     if (userId) {
@@ -601,6 +687,60 @@ export const GroupStatsScreen: React.FC<GroupStatsScreenProps> = ({
 
   };
 
+  const renderCategoryBreakdown = () => {
+    if (transactionsLoading || categoryBreakdown.length === 0) return null;
+
+    // Bars compare categories by their summed amount across currencies
+    const largest = Math.max(...categoryBreakdown.map((entry) => entry.total));
+
+    return (
+      <View style={styles.categorySection}>
+        <Text
+          variant="titleMedium"
+          style={[styles.sectionHeading, colorStyles.sectionHeading]}
+        >
+          By category
+        </Text>
+        <Surface style={[styles.entryCard, colorStyles.entryCard]} elevation={1}>
+          {categoryBreakdown.map((entry, index) => (
+            <View
+              key={entry.key}
+              style={[styles.categoryRow, index > 0 && { marginTop: 12 }]}
+            >
+              <Avatar.Icon
+                size={32}
+                icon={entry.icon}
+                color="#FFFFFF"
+                style={{ backgroundColor: entry.color }}
+              />
+              <View style={styles.categoryInfo}>
+                <View style={styles.entryHeader}>
+                  <Text variant="bodyMedium" style={{ fontWeight: "600", flexShrink: 1 }}>
+                    {entry.name}
+                  </Text>
+                  <Text variant="bodyMedium">
+                    {formatTotals(entry.amounts, defaultCurrency)}
+                  </Text>
+                </View>
+                <View style={[styles.categoryTrack, { backgroundColor: theme.colors.surfaceVariant }]}>
+                  <View
+                    style={[
+                      styles.categoryBar,
+                      {
+                        backgroundColor: entry.color,
+                        width: `${largest > 0 ? Math.max((entry.total / largest) * 100, 2) : 0}%`,
+                      },
+                    ]}
+                  />
+                </View>
+              </View>
+            </View>
+          ))}
+        </Surface>
+      </View>
+    );
+  };
+
   const renderSettlementPlan = () => {
      if (settlementEdges.length === 0) return null;
 
@@ -738,6 +878,8 @@ export const GroupStatsScreen: React.FC<GroupStatsScreenProps> = ({
             />
         )}
 
+        {renderCategoryBreakdown()}
+
         <Text
           variant="titleMedium"
           style={[styles.sectionHeading, colorStyles.sectionHeading]}
@@ -792,6 +934,7 @@ export const GroupStatsScreen: React.FC<GroupStatsScreenProps> = ({
           setSettlingBalance(balance);
           setShowSettlementForm(true);
         }}
+        onRemind={handleRemind}
       />
 
       {!balancesLoading && filteredBalances.length === 0 && (
@@ -912,6 +1055,27 @@ const styles = StyleSheet.create({
     flex: 1,
     justifyContent: 'center',
   },
+  categorySection: {
+    marginBottom: 12,
+  },
+  categoryRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  categoryInfo: {
+    flex: 1,
+  },
+  categoryTrack: {
+    height: 6,
+    borderRadius: 3,
+    marginTop: 6,
+    overflow: "hidden",
+  },
+  categoryBar: {
+    height: 6,
+    borderRadius: 3,
+  },
   actionChip: {
     paddingHorizontal: 12,
     paddingVertical: 6,
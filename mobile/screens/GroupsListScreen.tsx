@@ -42,6 +42,7 @@ export const GroupsListScreen: React.FC<GroupsListScreenProps> = ({
 }) => {
   const [showCreateGroup, setShowCreateGroup] = useState<boolean>(false);
   const [formerGroupsExpanded, setFormerGroupsExpanded] = useState<boolean>(false);
+  const [archivedGroupsExpanded, setArchivedGroupsExpanded] = useState<boolean>(false);
   const theme = useTheme();
   const { signOut, user } = useAuth();
   const { data: groups, isLoading: loading, error, refetch } = useGroups();
@@ -76,9 +77,12 @@ export const GroupsListScreen: React.FC<GroupsListScreenProps> = ({
 
   const isInitialLoading = loading && groups.length === 0;
 
-  // Separate groups into active and former
+  // Separate groups into active, archived and former
   const activeGroups = groups.filter(
-    (group) => group.user_status !== "left"
+    (group) => group.user_status !== "left" && !group.archived_at
+  );
+  const archivedGroups = groups.filter(
+    (group) => group.user_status !== "left" && !!group.archived_at
   );
   const formerGroups = groups.filter(
     (group) => group.user_status === "left"
@@ -104,7 +108,7 @@ export const GroupsListScreen: React.FC<GroupsListScreenProps> = ({
             <Surface
               style={[
                 styles.groupIcon,
-                { backgroundColor: theme.colors.primaryContainer },
+                { backgroundColor: group.cover_color || theme.colors.primaryContainer },
               ]}
               elevation={0}
             >
@@ -112,10 +116,10 @@ export const GroupsListScreen: React.FC<GroupsListScreenProps> = ({
                 style={{
                   fontSize: 20,
                   fontWeight: "bold",
-                  color: theme.colors.onPrimaryContainer,
+                  color: group.cover_color ? "#FFFFFF" : theme.colors.onPrimaryContainer,
                 }}
               >
-                {group.name.charAt(0).toUpperCase()}
+                {group.emoji || group.name.charAt(0).toUpperCase()}
               </Text>
             </Surface>
           </View>
@@ -290,6 +294,27 @@ export const GroupsListScreen: React.FC<GroupsListScreenProps> = ({
               {/* Active Groups */}
               {activeGroups.map((group) => renderGroupItem(group))}
 
+              {/* Archived Groups in Accordion */}
+              {archivedGroups.length > 0 && (
+                <List.Accordion
+                  title={`Archived Groups (${archivedGroups.length})`}
+                  titleStyle={styles.accordionTitle}
+                  style={[
+                    styles.accordion,
+                    { backgroundColor: theme.colors.surface },
+                  ]}
+                  left={(props) => (
+                    <List.Icon {...props} icon="archive-outline" />
+                  )}
+                  expanded={archivedGroupsExpanded}
+                  onPress={() => setArchivedGroupsExpanded(!archivedGroupsExpanded)}
+                >
+                  <View style={styles.accordionContent}>
+                    {archivedGroups.map((group) => renderGroupItem(group))}
+                  </View>
+                </List.Accordion>
+              )}
+
               {/* Former Groups in Accordion */}
               {formerGroups.length > 0 && (
                 <List.Accordion
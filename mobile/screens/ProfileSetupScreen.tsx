@@ -19,6 +19,7 @@ import {
 } from "react-native-paper";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { CountryCodePicker } from "../components/CountryCodePicker";
+import { NotificationSettings } from "../components/NotificationSettings";
 import { useAuth } from "../contexts/AuthContext";
 import { useProfile } from "../hooks/useProfile";
 import {
@@ -46,6 +47,9 @@ export const ProfileSetupScreen: React.FC<ProfileSetupScreenProps> = ({
     getDefaultCountry()
   );
   const [showCountryPicker, setShowCountryPicker] = useState(false);
+  const [upiVpa, setUpiVpa] = useState("");
+  const [paypalMe, setPaypalMe] = useState("");
+  const [iban, setIban] = useState("");
   const [loading, setLoading] = useState(false);
   const theme = useTheme();
   const insets = useSafeAreaInsets();
@@ -55,6 +59,9 @@ export const ProfileSetupScreen: React.FC<ProfileSetupScreenProps> = ({
   useEffect(() => {
     if (profile) {
       setFullName(profile.full_name || "");
+      setUpiVpa(profile.upi_vpa || "");
+      setPaypalMe(profile.paypal_me || "");
+      setIban(profile.iban || "");
       const phoneValue = profile.phone || "";
 
       // Parse existing phone number to extract country code
@@ -139,12 +146,18 @@ export const ProfileSetupScreen: React.FC<ProfileSetupScreenProps> = ({
     const countryChanged =
       currentPhone !== "" && originalCountryCode !== currentCountryCode;
 
+    const paymentHandlesChanged =
+      (profile.upi_vpa || "") !== upiVpa.trim() ||
+      (profile.paypal_me || "") !== paypalMe.trim() ||
+      (profile.iban || "") !== iban.trim();
+
     return (
       originalFullName !== currentFullName ||
       originalPhone !== currentPhone ||
-      countryChanged
+      countryChanged ||
+      paymentHandlesChanged
     );
-  }, [profile, fullName, phone, selectedCountry]);
+  }, [profile, fullName, phone, selectedCountry, upiVpa, paypalMe, iban]);
 
   const handleComplete = async () => {
     // Validation
@@ -155,6 +168,9 @@ export const ProfileSetupScreen: React.FC<ProfileSetupScreenProps> = ({
         full_name: fullName.trim(),
         phone: phone.trim() || undefined,
         country_code: selectedCountry.code,
+        upi_vpa: upiVpa.trim() || null,
+        paypal_me: paypalMe.trim() || null,
+        iban: iban.trim() || null,
         profile_completed: true,
       });
       onComplete();
@@ -312,6 +328,51 @@ export const ProfileSetupScreen: React.FC<ProfileSetupScreenProps> = ({
               />
             </View>
 
+            <Text variant="titleSmall" style={[styles.paymentTitle, { color: theme.colors.onSurface }]}>
+              Payment details (Optional)
+            </Text>
+            <Text variant="bodySmall" style={[styles.paymentHint, { color: theme.colors.onSurfaceVariant }]}>
+              Shown to people in your groups so they can pay you when settling up
+            </Text>
+
+            <TextInput
+              label="UPI ID"
+              value={upiVpa}
+              onChangeText={setUpiVpa}
+              mode="outlined"
+              disabled={loading}
+              style={styles.input}
+              left={<TextInput.Icon icon="bank-transfer" />}
+              placeholder="name@bank"
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+
+            <TextInput
+              label="PayPal.me username"
+              value={paypalMe}
+              onChangeText={setPaypalMe}
+              mode="outlined"
+              disabled={loading}
+              style={styles.input}
+              left={<TextInput.Affix text="paypal.me/" />}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+
+            <TextInput
+              label="IBAN"
+              value={iban}
+              onChangeText={setIban}
+              mode="outlined"
+              disabled={loading}
+              style={styles.input}
+              left={<TextInput.Icon icon="bank" />}
+              placeholder="DE89 3704 0044 0532 0130 00"
+              autoCapitalize="characters"
+              autoCorrect={false}
+            />
+
             <Button
               mode="contained"
               onPress={handleComplete}
@@ -323,6 +384,18 @@ export const ProfileSetupScreen: React.FC<ProfileSetupScreenProps> = ({
               Save Changes
             </Button>
           </Surface>
+
+          {profile?.profile_completed && (
+            <Surface
+              style={[styles.formCard, styles.sectionCard, { backgroundColor: theme.colors.surface }]}
+              elevation={2}
+            >
+              <Text variant="titleMedium" style={[styles.sectionTitle, { color: theme.colors.onSurface }]}>
+                Notifications
+              </Text>
+              <NotificationSettings />
+            </Surface>
+          )}
         </ScrollView>
       </KeyboardAvoidingView>
 
@@ -380,6 +453,21 @@ const styles = StyleSheet.create({
     padding: 16,
     paddingVertical: 24,
   },
+  sectionCard: {
+    marginTop: 16,
+    paddingVertical: 16,
+  },
+  sectionTitle: {
+    fontWeight: "bold",
+    marginBottom: 8,
+  },
+  paymentTitle: {
+    fontWeight: "bold",
+    marginTop: 8,
+  },
+  paymentHint: {
+    marginBottom: 8,
+  },
   input: {
     marginBottom: 16,
     backgroundColor: "transparent",
@@ -0,0 +1,198 @@
+import React, { useMemo } from "react";
+import { Alert, Modal, ScrollView, StyleSheet, View } from "react-native";
+import {
+  ActivityIndicator,
+  Appbar,
+  Chip,
+  IconButton,
+  Text,
+  useTheme,
+} from "react-native-paper";
+import { WEB_MAX_WIDTH } from "../constants/layout";
+import { useParticipants } from "../hooks/useParticipants";
+import {
+  useDeleteRecurringTransaction,
+  useRecurringTransactions,
+  useUpdateRecurringTransaction,
+} from "../hooks/useRecurringTransactions";
+import { RecurrenceFrequency, RecurringTransaction } from "../types";
+import { formatCurrency } from "../utils/currency";
+import { getUserFriendlyErrorMessage } from "../utils/errorMessages";
+
+interface RecurringTransactionsScreenProps {
+  visible: boolean;
+  groupId: string;
+  onDismiss: () => void;
+}
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+  daily: "day",
+  weekly: "week",
+  monthly: "month",
+  yearly: "year",
+};
+
+function formatSchedule(series: RecurringTransaction): string {
+  const unit = FREQUENCY_UNITS[series.frequency];
+  const every = series.interval_count > 1 ? `Every ${series.interval_count} ${unit}s` : `Every ${unit}`;
+  return series.end_date ? `${every} until ${series.end_date}` : every;
+}
+
+export const RecurringTransactionsScreen: React.FC<RecurringTransactionsScreenProps> = ({
+  visible,
+  groupId,
+  onDismiss,
+}) => {
+  const theme = useTheme();
+
+  const { data: series, isLoading } = useRecurringTransactions(visible ? groupId : null);
+  const { data: participants } = useParticipants(visible ? groupId : null);
+  const updateSeries = useUpdateRecurringTransaction();
+  const deleteSeries = useDeleteRecurringTransaction();
+
+  const participantNames = useMemo(() => {
+    const names = new Map<string, string>();
+    (participants || []).forEach((p) => names.set(p.id, p.full_name || p.email || "Unknown"));
+    return names;
+  }, [participants]);
+
+  const handleToggleStatus = async (item: RecurringTransaction) => {
+    try {
+      await updateSeries.mutate({
+        id: item.id,
+        groupId,
+        status: item.status === "active" ? "paused" : "active",
+      });
+    } catch (error) {
+      Alert.alert("Error", getUserFriendlyErrorMessage(error));
+    }
+  };
+
+  const handleDelete = (item: RecurringTransaction) => {
+    Alert.alert(
+      "Delete Recurring Expense",
+      `Stop repeating "${item.description}"? Expenses already added are kept.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deleteSeries.mutate({ id: item.id, groupId });
+            } catch (error) {
+              Alert.alert("Error", getUserFriendlyErrorMessage(error));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={onDismiss}
+      presentationStyle="pageSheet"
+    >
+      <View style={[styles.rootContainer, { backgroundColor: theme.colors.background }]}>
+        <View style={styles.container}>
+          <Appbar.Header>
+            <Appbar.Action icon="close" onPress={onDismiss} />
+            <Appbar.Content title="Recurring Expenses" />
+          </Appbar.Header>
+
+          <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+            {isLoading ? (
+              <ActivityIndicator style={styles.loading} />
+            ) : series.length === 0 ? (
+              <Text variant="bodyMedium" style={[styles.emptyText, { color: theme.colors.onSurfaceVariant }]}>
+                No recurring expenses yet. Choose a repeat option when adding an expense.
+              </Text>
+            ) : (
+              series.map((item) => (
+                <View
+                  key={item.id}
+                  style={[styles.seriesRow, { borderBottomColor: theme.colors.outlineVariant }]}
+                >
+                  <View style={styles.seriesText}>
+                    <Text variant="bodyLarge">{item.description}</Text>
+                    <Text variant="bodyMedium">
+                      {formatCurrency(Number(item.amount), item.currency)}
+                      {" · paid by "}
+                      {participantNames.get(item.paid_by_participant_id) || "Unknown"}
+                    </Text>
+                    <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                      {formatSchedule(item)}
+                      {item.status === "active" ? ` · next ${item.next_occurrence_date}` : ""}
+                    </Text>
+                  </View>
+                  {item.status !== "active" && (
+                    <Chip compact style={styles.statusChip}>
+                      {item.status === "paused" ? "Paused" : "Ended"}
+                    </Chip>
+                  )}
+                  {item.status !== "ended" && (
+                    <IconButton
+                      icon={item.status === "active" ? "pause" : "play"}
+                      size={20}
+                      onPress={() => handleToggleStatus(item)}
+                      disabled={updateSeries.isLoading}
+                      accessibilityLabel={item.status === "active" ? "Pause" : "Resume"}
+                    />
+                  )}
+                  <IconButton
+                    icon="delete-outline"
+                    size={20}
+                    onPress={() => handleDelete(item)}
+                    disabled={deleteSeries.isLoading}
+                    accessibilityLabel="Delete"
+                  />
+                </View>
+              ))
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  rootContainer: {
+    flex: 1,
+    width: "100%",
+  },
+  container: {
+    flex: 1,
+    width: "100%",
+    maxWidth: WEB_MAX_WIDTH,
+    alignSelf: "center",
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  loading: {
+    marginTop: 24,
+  },
+  emptyText: {
+    textAlign: "center",
+    marginTop: 24,
+  },
+  seriesRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  seriesText: {
+    flex: 1,
+  },
+  statusChip: {
+    marginLeft: 8,
+  },
+});
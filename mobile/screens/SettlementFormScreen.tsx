@@ -2,22 +2,39 @@ import React, { useEffect, useMemo, useState } from "react";
 import {
     Alert,
     KeyboardAvoidingView,
+    Linking,
     Modal,
     Platform,
     ScrollView,
     StyleSheet,
     View,
 } from "react-native";
-import { Appbar, Button, Text, TextInput, useTheme } from "react-native-paper";
+import { Appbar, Button, Chip, Text, TextInput, useTheme } from "react-native-paper";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { WEB_MAX_WIDTH } from "../constants/layout";
-import { Balance, GroupMember, Participant, Settlement } from "../types";
+import { useUserProfiles } from "../hooks/useUserProfiles";
+import { Balance, GroupMember, Participant, Settlement, SettlementStatus } from "../types";
+import { getVersionConflict } from "../utils/api";
 import {
     formatCurrency,
     getCurrencySymbol,
     getDefaultCurrency,
 } from "../utils/currency";
+import {
+    compareEdits,
+    describeEditConflict,
+    getChangedSettlementFields,
+    SETTLEMENT_FIELD_GROUP_LABELS,
+    SettlementFieldGroup,
+} from "../utils/editConflicts";
 import { getUserFriendlyErrorMessage } from "../utils/errorMessages";
+import {
+    buildPayPalLink,
+    buildUpiLink,
+    canPayWithUpi,
+    formatIban,
+} from "../utils/paymentLinks";
+import { CommentsScreen } from "./CommentsScreen";
 
 interface SettlementFormScreenProps {
   visible: boolean;
@@ -42,6 +59,13 @@ interface SettlementFormScreenProps {
     notes?: string;
     from_participant_id?: string;
     to_participant_id?: string;
+    version?: number; // The version the edit is based on
+  }) => Promise<void>;
+  // Receiver confirms or disputes the settlement being edited
+  onRespond?: (data: {
+    id: string;
+    status: Exclude<SettlementStatus, "pending">;
+    reason?: string;
   }) => Promise<void>;
   onDismiss: () => void;
   // Admin mode: explicit sender/receiver
@@ -62,6 +86,7 @@ export const SettlementFormScreen: React.FC<SettlementFormScreenProps> = ({
   defaultCurrency,
   onSave,
   onUpdate,
+  onRespond,
   onDismiss,
   fromParticipantId,
   toParticipantId,
@@ -70,11 +95,15 @@ export const SettlementFormScreen: React.FC<SettlementFormScreenProps> = ({
   participants = [],
 }) => {
   const isEditing = !!settlement;
+  const [showComments, setShowComments] = useState(false);
+  // The copy being edited; replaced when someone else's changes are merged in
+  const [editBase, setEditBase] = useState<Settlement | null>(null);
   const isAdminMode = !!(fromParticipantId && toParticipantId);
 
   // If settling a specific balance, use that currency. Otherwise use default.
   // Note: The form currently does not allow changing currency, so it is effectively locked.
   const effectiveDefaultCurrency =
+    editBase?.currency ||
     settlement?.currency ||
     balance?.currency ||
     initialCurrency ||
@@ -88,6 +117,11 @@ export const SettlementFormScreen: React.FC<SettlementFormScreenProps> = ({
   const [selectedToParticipantId, setSelectedToParticipantId] = useState<string>("");
   const [loading, setLoading] = useState(false);
   const [amountError, setAmountError] = useState<string>("");
+  const [showDisputeReason, setShowDisputeReason] = useState(false);
+  const [disputeReason, setDisputeReason] = useState("");
+  const [responding, setResponding] = useState(false);
+  // Set after opening a UPI or PayPal link, until the payment is recorded or dismissed
+  const [paidExternallyVia, setPaidExternallyVia] = useState<string | null>(null);
 
   // Determine the other user based on balance or selection
   const otherMember = useMemo(() => {
@@ -120,6 +154,20 @@ export const SettlementFormScreen: React.FC<SettlementFormScreenProps> = ({
      return groupMembers.find(m => m.participant_id === toParticipantId);
   }, [toParticipantId, groupMembers]);
 
+  // Who the current user is paying, when they are the payer of a new settlement
+  const payee = useMemo((): { userId: string; name: string } | null => {
+    if (isEditing) return null;
+    if (isAdminMode) {
+      if (adminPayer?.user_id !== currentUserId || !adminReceiver?.user_id) return null;
+      return { userId: adminReceiver.user_id, name: adminReceiver.full_name || adminReceiver.email || "" };
+    }
+    if (!isPaying || !otherMember?.user_id) return null;
+    return { userId: otherMember.user_id, name: otherMember.full_name || otherMember.email || "" };
+  }, [isEditing, isAdminMode, adminPayer, adminReceiver, currentUserId, isPaying, otherMember]);
+
+  const { data: payeeProfiles } = useUserProfiles(payee ? [payee.userId] : []);
+  const payeeProfile = payee ? payeeProfiles.get(payee.userId) : undefined;
+
   // Get available users to settle with (excluding current user)
   const availableUsers = useMemo(() => {
     return groupMembers.filter((m) => m.user_id !== currentUserId);
@@ -132,11 +180,16 @@ export const SettlementFormScreen: React.FC<SettlementFormScreenProps> = ({
       setNotes("");
       setSelectedToParticipantId("");
       setAmountError("");
+      setShowDisputeReason(false);
+      setDisputeReason("");
+      setPaidExternallyVia(null);
+      setEditBase(null);
       return;
     }
 
     // If editing, pre-fill from settlement
     if (settlement) {
+      setEditBase(settlement);
       setAmount(settlement.amount.toString());
       setNotes(settlement.notes || "");
       // Determine which participant is the "other" participant
@@ -186,7 +239,33 @@ export const SettlementFormScreen: React.FC<SettlementFormScreenProps> = ({
     return isValid;
   };
 
-  const handleSave = async () => {
+  // Takes their changes to anything not also edited here
+  const mergeVersion = (current: Settlement, theirs: SettlementFieldGroup[]) => {
+    setEditBase(current);
+    if (theirs.includes("amount")) setAmount(current.amount.toString());
+    if (theirs.includes("notes")) setNotes(current.notes || "");
+  };
+
+  const handleVersionConflict = (current: Settlement) => {
+    const conflict = compareEdits(
+      getChangedSettlementFields,
+      editBase || settlement || current,
+      { amount: parseFloat(amount), currency: effectiveDefaultCurrency, notes: notes.trim() },
+      current
+    );
+    Alert.alert(
+      "Changed by Someone Else",
+      describeEditConflict(conflict, SETTLEMENT_FIELD_GROUP_LABELS),
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Merge", onPress: () => mergeVersion(current, conflict.merged) },
+        { text: "Overwrite", style: "destructive", onPress: () => handleSave(current.version) },
+      ]
+    );
+  };
+
+  // editVersion: the version the edit is based on, newer after choosing to overwrite
+  const handleSave = async (editVersion = editBase?.version) => {
     if (!validateForm()) {
       return;
     }
@@ -203,6 +282,7 @@ export const SettlementFormScreen: React.FC<SettlementFormScreenProps> = ({
           amount: amountNum,
           currency: effectiveDefaultCurrency,
           notes: notes.trim() || undefined,
+          version: editVersion,
         });
       } else if (isAdminMode) {
             // Explicit mode
@@ -267,12 +347,70 @@ export const SettlementFormScreen: React.FC<SettlementFormScreenProps> = ({
       setSelectedToParticipantId("");
       setAmountError("");
     } catch (error) {
-      Alert.alert("Error", getUserFriendlyErrorMessage(error));
+      const current = getVersionConflict<Settlement>(error);
+      if (current) {
+        handleVersionConflict(current);
+      } else {
+        Alert.alert("Error", getUserFriendlyErrorMessage(error));
+      }
     } finally {
       setLoading(false);
     }
   };
 
+  // Only the receiver can confirm or dispute
+  const isReceiver = useMemo(() => {
+    if (!settlement) return false;
+    const currentMember = groupMembers.find((m) => m.user_id === currentUserId);
+    return !!currentMember?.participant_id && settlement.to_participant_id === currentMember.participant_id;
+  }, [settlement, groupMembers, currentUserId]);
+
+  const handleRespond = async (status: Exclude<SettlementStatus, "pending">) => {
+    if (!settlement || !onRespond) return;
+    try {
+      setResponding(true);
+      await onRespond({
+        id: settlement.id,
+        status,
+        reason: status === "disputed" ? disputeReason.trim() || undefined : undefined,
+      });
+      setShowDisputeReason(false);
+      setDisputeReason("");
+    } catch (error) {
+      Alert.alert("Error", getUserFriendlyErrorMessage(error));
+    } finally {
+      setResponding(false);
+    }
+  };
+
+  const handlePayExternally = async (method: "upi" | "paypal") => {
+    if (!payee || !payeeProfile || !validateForm()) return;
+
+    const request = {
+      payeeName: payee.name,
+      amount: parseFloat(amount),
+      currency: effectiveDefaultCurrency,
+      note: notes.trim() || "Settle up",
+    };
+    const url =
+      method === "upi"
+        ? buildUpiLink(payeeProfile.upi_vpa || "", request)
+        : buildPayPalLink(payeeProfile.paypal_me || "", request);
+
+    try {
+      await Linking.openURL(url);
+      setPaidExternallyVia(method === "upi" ? "UPI" : "PayPal");
+    } catch {
+      // openURL rejects when no installed app handles upi://
+      Alert.alert(
+        "Couldn't open payment app",
+        method === "upi"
+          ? "Install a UPI app such as Google Pay, PhonePe or Paytm to pay with UPI."
+          : "Unable to open PayPal."
+      );
+    }
+  };
+
   const getParticipantDisplayName = (participantId: string): string => {
     // 1. Try participants list (source of truth including names/emails)
     const participant = participants.find((p: Participant) => p.id === participantId);
@@ -316,6 +454,13 @@ export const SettlementFormScreen: React.FC<SettlementFormScreenProps> = ({
           <Appbar.Header>
             <Appbar.Action icon="close" onPress={onDismiss} />
             <Appbar.Content title={isEditing ? "Edit Settlement" : "Settle Up"} />
+            {isEditing && (
+              <Appbar.Action
+                icon={settlement?.comment_count ? "comment-text-multiple-outline" : "comment-outline"}
+                onPress={() => setShowComments(true)}
+                accessibilityLabel="Comments"
+              />
+            )}
           </Appbar.Header>
 
           <ScrollView
@@ -404,6 +549,70 @@ export const SettlementFormScreen: React.FC<SettlementFormScreenProps> = ({
               )}
             </View>
 
+            {isEditing && settlement && (
+              <View style={styles.section}>
+                <View style={styles.statusRow}>
+                  <Chip
+                    compact
+                    icon={STATUS_DISPLAY[settlement.status].icon}
+                    style={{ backgroundColor: theme.colors.surfaceVariant }}
+                  >
+                    {STATUS_DISPLAY[settlement.status].label}
+                  </Chip>
+                </View>
+                {settlement.status === "disputed" && settlement.dispute_reason ? (
+                  <Text variant="bodyMedium" style={[styles.statusReason, { color: theme.colors.onSurfaceVariant }]}>
+                    "{settlement.dispute_reason}"
+                  </Text>
+                ) : null}
+
+                {isReceiver && onRespond && (
+                  <>
+                    {showDisputeReason && (
+                      <TextInput
+                        label="What's wrong? (optional)"
+                        value={disputeReason}
+                        onChangeText={setDisputeReason}
+                        mode="outlined"
+                        maxLength={500}
+                        multiline
+                        style={styles.statusReason}
+                      />
+                    )}
+                    <View style={styles.statusActions}>
+                      {settlement.status !== "confirmed" && !showDisputeReason && (
+                        <Button
+                          mode="contained-tonal"
+                          icon="check"
+                          onPress={() => handleRespond("confirmed")}
+                          loading={responding}
+                          disabled={responding || loading}
+                          style={styles.statusButton}
+                        >
+                          Confirm received
+                        </Button>
+                      )}
+                      {settlement.status !== "disputed" && (
+                        <Button
+                          mode="outlined"
+                          icon="alert-circle-outline"
+                          textColor={theme.colors.error}
+                          onPress={() =>
+                            showDisputeReason ? handleRespond("disputed") : setShowDisputeReason(true)
+                          }
+                          loading={responding && showDisputeReason}
+                          disabled={responding || loading}
+                          style={styles.statusButton}
+                        >
+                          {showDisputeReason ? "Submit dispute" : "Dispute"}
+                        </Button>
+                      )}
+                    </View>
+                  </>
+                )}
+              </View>
+            )}
+
             {!isEditing && !balance && !isAdminMode && (
               <View style={styles.section}>
                 <Text variant="labelLarge" style={styles.label}>
@@ -479,10 +688,78 @@ export const SettlementFormScreen: React.FC<SettlementFormScreenProps> = ({
               />
             </View>
 
+            {payeeProfile && (payeeProfile.upi_vpa || payeeProfile.paypal_me || payeeProfile.iban) && (
+              <View style={styles.section}>
+                <Text variant="labelLarge" style={styles.label}>
+                  Pay {payee?.name || "them"}
+                </Text>
+                <View style={styles.statusActions}>
+                  {payeeProfile.upi_vpa && canPayWithUpi(effectiveDefaultCurrency) && (
+                    <Button
+                      mode="contained-tonal"
+                      icon="cellphone-arrow-down"
+                      onPress={() => handlePayExternally("upi")}
+                      disabled={loading || !amount}
+                      style={styles.statusButton}
+                    >
+                      Pay with UPI
+                    </Button>
+                  )}
+                  {payeeProfile.paypal_me && (
+                    <Button
+                      mode="contained-tonal"
+                      icon="open-in-new"
+                      onPress={() => handlePayExternally("paypal")}
+                      disabled={loading || !amount}
+                      style={styles.statusButton}
+                    >
+                      Pay with PayPal
+                    </Button>
+                  )}
+                </View>
+                {payeeProfile.iban && (
+                  <Text
+                    variant="bodyMedium"
+                    selectable
+                    style={[styles.statusReason, { color: theme.colors.onSurfaceVariant }]}
+                  >
+                    IBAN: {formatIban(payeeProfile.iban)}
+                  </Text>
+                )}
+              </View>
+            )}
+
+            {paidExternallyVia && (
+              <View style={[styles.balanceInfo, { backgroundColor: theme.colors.primaryContainer }]}>
+                <Text variant="bodyMedium" style={{ color: theme.colors.onPrimaryContainer, textAlign: "center" }}>
+                  Finished paying with {paidExternallyVia}? Record the settlement so balances are updated.
+                </Text>
+                <View style={styles.statusActions}>
+                  <Button
+                    mode="contained"
+                    onPress={() => handleSave()}
+                    loading={loading}
+                    disabled={loading}
+                    style={styles.statusButton}
+                  >
+                    Record payment
+                  </Button>
+                  <Button
+                    mode="text"
+                    onPress={() => setPaidExternallyVia(null)}
+                    disabled={loading}
+                    style={styles.statusButton}
+                  >
+                    Not yet
+                  </Button>
+                </View>
+              </View>
+            )}
+
             <View style={styles.buttonContainer}>
               <Button
                 mode="contained"
-                onPress={handleSave}
+                onPress={() => handleSave()}
                 loading={loading}
                 disabled={loading || !amount || (!isEditing && !isAdminMode && !selectedToParticipantId)}
                 style={styles.saveButton}
@@ -506,10 +783,25 @@ export const SettlementFormScreen: React.FC<SettlementFormScreenProps> = ({
           </ScrollView>
         </KeyboardAvoidingView>
       </View>
+
+      {/* Rendered inside this modal so it can stack on top of it */}
+      <CommentsScreen
+        visible={showComments}
+        groupId={groupId}
+        target={settlement ? { type: "settlement", id: settlement.id } : null}
+        title="Settlement comments"
+        onDismiss={() => setShowComments(false)}
+      />
     </Modal>
   );
 };
 
+const STATUS_DISPLAY: Record<SettlementStatus, { label: string; icon: string }> = {
+  pending: { label: "Waiting for the receiver to confirm", icon: "clock-outline" },
+  confirmed: { label: "Confirmed by the receiver", icon: "check-circle-outline" },
+  disputed: { label: "Disputed by the receiver", icon: "alert-circle-outline" },
+};
+
 const styles = StyleSheet.create({
   rootContainer: {
     flex: 1,
@@ -553,6 +845,21 @@ const styles = StyleSheet.create({
   userButton: {
     marginRight: 8,
   },
+  statusRow: {
+    flexDirection: "row",
+  },
+  statusReason: {
+    marginTop: 8,
+  },
+  statusActions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginTop: 8,
+  },
+  statusButton: {
+    marginRight: 8,
+    marginTop: 4,
+  },
   errorText: {
     marginTop: 4,
   },
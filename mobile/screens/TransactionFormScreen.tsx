@@ -4,6 +4,7 @@ import {
     Alert,
     BackHandler,
     FlatList,
+    Image,
     KeyboardAvoidingView,
     Modal,
     Platform,
@@ -30,23 +31,56 @@ import {
     SafeAreaView,
     useSafeAreaInsets,
 } from "react-native-safe-area-context";
+import { getBudgetLabel } from "../components/BudgetProgress";
+import { createItemDraft, ItemDraft, ItemizedEditor, itemDraftsToItems } from "../components/ItemizedEditor";
+import { ReceiptPreviewModal } from "../components/ReceiptPreviewModal";
+import { SplitEditor } from "../components/SplitEditor";
 import { WEB_MAX_WIDTH } from "../constants/layout";
 import { useAuth } from "../contexts/AuthContext";
+import { useCategories } from "../hooks/useCategories";
 import { useParticipants } from "../hooks/useParticipants";
-import { Participant, Transaction } from "../types";
+import { useCreateRecurringTransaction } from "../hooks/useRecurringTransactions";
+import {
+    BudgetWarning,
+    Participant,
+    ReceiptChanges,
+    ReceiptUpload,
+    RecurrenceFrequency,
+    SplitMode,
+    Transaction,
+} from "../types";
 import {
     CURRENCIES,
     formatCurrency,
     getCurrencySymbol,
     getDefaultCurrency,
 } from "../utils/currency";
+import { getVersionConflict } from "../utils/api";
+import {
+    compareEdits,
+    describeEditConflict,
+    getChangedTransactionFields,
+    TRANSACTION_FIELD_GROUP_LABELS,
+    TransactionFieldGroup,
+} from "../utils/editConflicts";
 import { getUserFriendlyErrorMessage } from "../utils/errorMessages";
+import { MAX_RECEIPTS_PER_TRANSACTION, pickReceiptImage, ReceiptSource } from "../utils/receipts";
+import { calculateItemizedPreview, calculateSplitPreview } from "../utils/splits";
+
+const REPEAT_OPTIONS: { label: string; value: RecurrenceFrequency | null }[] = [
+  { label: "Never", value: null },
+  { label: "Daily", value: "daily" },
+  { label: "Weekly", value: "weekly" },
+  { label: "Monthly", value: "monthly" },
+  { label: "Yearly", value: "yearly" },
+];
 
 interface TransactionFormScreenProps {
   transaction?: Transaction | null;
   onSave: (
-    transaction: Omit<Transaction, "id" | "created_at" | "user_id">
-  ) => Promise<void>;
+    transaction: Omit<Transaction, "id" | "created_at" | "user_id">,
+    receipts?: ReceiptChanges
+  ) => Promise<BudgetWarning[] | void>; // Budgets the new expense pushed past 80% / 100%
   onDismiss: () => void;
   onDelete?: () => Promise<void>;
   defaultCurrency?: string;
@@ -73,6 +107,7 @@ export const TransactionFormScreen: React.FC<TransactionFormScreenProps> = ({
   const [date, setDate] = useState("");
   const [type, setType] = useState<"income" | "expense">("expense");
   const [category, setCategory] = useState("");
+  const [categoryId, setCategoryId] = useState<string | null>(null);
   const [currency, setCurrency] = useState<string>(effectiveDefaultCurrency);
   const [showCurrencyPicker, setShowCurrencyPicker] = useState(false);
   const [loading, setLoading] = useState(false);
@@ -80,8 +115,22 @@ export const TransactionFormScreen: React.FC<TransactionFormScreenProps> = ({
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [paidBy, setPaidBy] = useState<string>("");
   const [splitAmong, setSplitAmong] = useState<string[]>([]);
+  const [splitMode, setSplitMode] = useState<SplitMode>("equal");
+  const [splitValues, setSplitValues] = useState<Record<string, string>>({});
+  const [itemDrafts, setItemDrafts] = useState<ItemDraft[]>([]);
+  const [taxAmount, setTaxAmount] = useState("");
+  const [tipAmount, setTipAmount] = useState("");
+  const [multiplePayers, setMultiplePayers] = useState(false);
+  const [payerAmounts, setPayerAmounts] = useState<Record<string, string>>({});
   const [showPaidByPicker, setShowPaidByPicker] = useState(false);
   const [showMoreOptions, setShowMoreOptions] = useState(false);
+  const [repeatFrequency, setRepeatFrequency] = useState<RecurrenceFrequency | null>(null);
+  const [repeatEndDate, setRepeatEndDate] = useState("");
+  const [newReceipts, setNewReceipts] = useState<ReceiptUpload[]>([]);
+  const [removedAttachmentIds, setRemovedAttachmentIds] = useState<string[]>([]);
+  const [previewUri, setPreviewUri] = useState<string | null>(null);
+  // The copy being edited; replaced when someone else's changes are merged in
+  const [editBase, setEditBase] = useState<Transaction | null>(null);
 
   // Error states
   const [descriptionError, setDescriptionError] = useState<string>("");
@@ -89,6 +138,7 @@ export const TransactionFormScreen: React.FC<TransactionFormScreenProps> = ({
   const [dateError, setDateError] = useState<string>("");
   const [paidByError, setPaidByError] = useState<string>("");
   const [splitAmongError, setSplitAmongError] = useState<string>("");
+  const [repeatError, setRepeatError] = useState<string>("");
 
   // Fetch participants
   const {
@@ -96,6 +146,9 @@ export const TransactionFormScreen: React.FC<TransactionFormScreenProps> = ({
     isLoading: isLoadingParticipants,
     error: participantsError,
   } = useParticipants(groupId || null);
+  const { data: categories } = useCategories(groupId || null);
+
+  const { mutate: createRecurringTransaction } = useCreateRecurringTransaction();
 
   // Memoized values
   const isGroupExpense = useMemo(
@@ -103,6 +156,26 @@ export const TransactionFormScreen: React.FC<TransactionFormScreenProps> = ({
     [type, groupId, participants?.length]
   );
 
+  const savedAttachments = useMemo(
+    () => (transaction?.attachments || []).filter((a) => !removedAttachmentIds.includes(a.id)),
+    [transaction?.attachments, removedAttachmentIds]
+  );
+  const receiptCount = savedAttachments.length + newReceipts.length;
+
+  const isItemized = !!isGroupExpense && splitMode === "itemized";
+
+  // Only new group expenses can start a recurring series, and not itemized ones
+  const isRecurring = !transaction && !!isGroupExpense && !isItemized && repeatFrequency !== null;
+
+  const itemizedPreview = useMemo(
+    () => calculateItemizedPreview(
+      itemDraftsToItems(itemDrafts),
+      parseFloat(taxAmount) || 0,
+      parseFloat(tipAmount) || 0
+    ),
+    [itemDrafts, taxAmount, tipAmount]
+  );
+
   const activeParticipants = useMemo(
     () => (participants || []).filter((p) => p.type === "member"),
     [participants]
@@ -195,9 +268,17 @@ export const TransactionFormScreen: React.FC<TransactionFormScreenProps> = ({
     setSelectedDate(today);
     setType("expense");
     setCategory("");
+    setCategoryId(null);
     setCurrency(effectiveDefaultCurrency);
     setPaidBy("");
     setSplitAmong([]);
+    setSplitMode("equal");
+    setSplitValues({});
+    setItemDrafts([]);
+    setTaxAmount("");
+    setTipAmount("");
+    setMultiplePayers(false);
+    setPayerAmounts({});
     setDescriptionError("");
     setAmountError("");
     setDateError("");
@@ -207,6 +288,7 @@ export const TransactionFormScreen: React.FC<TransactionFormScreenProps> = ({
 
   const loadTransactionData = useCallback(
     (tx: Transaction) => {
+      setEditBase(tx);
       setDescription(tx.description || "");
       setAmount(tx.amount.toString());
       const transactionDate = tx.date ? new Date(tx.date) : new Date();
@@ -214,6 +296,7 @@ export const TransactionFormScreen: React.FC<TransactionFormScreenProps> = ({
       setDate(tx.date || "");
       setType(tx.type || "expense");
       setCategory(tx.category || "");
+      setCategoryId(tx.category_id || null);
       setCurrency(tx.currency || effectiveDefaultCurrency);
 
       if (tx.paid_by_participant_id) {
@@ -232,6 +315,31 @@ export const TransactionFormScreen: React.FC<TransactionFormScreenProps> = ({
       } else {
         setSplitAmong([]);
       }
+
+      setSplitMode(tx.split_mode || "equal");
+      const values: Record<string, string> = {};
+      (tx.splits || []).forEach((s) => {
+        if (s.participant_id && s.share_value != null) {
+          values[s.participant_id] = String(s.share_value);
+        }
+      });
+      setSplitValues(values);
+
+      setItemDrafts((tx.items || []).map((item) => createItemDraft(item)));
+      setTaxAmount(tx.tax_amount ? String(tx.tax_amount) : "");
+      setTipAmount(tx.tip_amount ? String(tx.tip_amount) : "");
+
+      if (Array.isArray(tx.payers) && tx.payers.length > 1) {
+        const amounts: Record<string, string> = {};
+        tx.payers.forEach((payer) => {
+          amounts[payer.participant_id] = String(payer.amount);
+        });
+        setMultiplePayers(true);
+        setPayerAmounts(amounts);
+      } else {
+        setMultiplePayers(false);
+        setPayerAmounts({});
+      }
       
       // Show more options if type is income or category is set
       if (tx.type === "income" || tx.category) {
@@ -277,6 +385,13 @@ export const TransactionFormScreen: React.FC<TransactionFormScreenProps> = ({
     }
   }, [isGroupExpense, transaction, allParticipantIds, splitAmong.length, user, participants, paidBy]);
 
+  // The total of an itemized expense comes from its items, tax and tip
+  useEffect(() => {
+    if (isItemized) {
+      setAmount(itemizedPreview.total > 0 ? itemizedPreview.total.toFixed(2) : "");
+    }
+  }, [isItemized, itemizedPreview.total]);
+
   const formatDateForInput = (date: Date): string => {
     return date.toISOString().split("T")[0];
   };
@@ -337,6 +452,35 @@ export const TransactionFormScreen: React.FC<TransactionFormScreenProps> = ({
     if (splitAmongError) setSplitAmongError("");
   };
 
+  const getSplitValueNumbers = (): Record<string, number> => {
+    const values: Record<string, number> = {};
+    splitAmong.forEach((id) => {
+      const parsed = parseFloat(splitValues[id] || "");
+      values[id] = isNaN(parsed) ? 0 : parsed;
+    });
+    return values;
+  };
+
+  const handleToggleItemized = () => {
+    if (isItemized) {
+      setSplitMode("equal");
+    } else {
+      setSplitMode("itemized");
+      if (itemDrafts.length === 0) {
+        setItemDrafts([{ ...createItemDraft(), participantIds: splitAmong }]);
+      }
+    }
+    if (splitAmongError) setSplitAmongError("");
+  };
+
+  const getItemizedParticipantIds = () =>
+    [...new Set(itemDrafts.flatMap((item) => item.participantIds))];
+
+  const getPayers = () =>
+    availableParticipants
+      .map((p) => ({ participant_id: p.id, amount: parseFloat(payerAmounts[p.id] || "") }))
+      .filter((payer) => payer.amount > 0);
+
   const validateForm = (): boolean => {
     let isValid = true;
     setDescriptionError("");
@@ -344,6 +488,7 @@ export const TransactionFormScreen: React.FC<TransactionFormScreenProps> = ({
     setDateError("");
     setPaidByError("");
     setSplitAmongError("");
+    setRepeatError("");
 
     if (!description.trim()) {
       setDescriptionError("Please enter a description");
@@ -373,37 +518,225 @@ export const TransactionFormScreen: React.FC<TransactionFormScreenProps> = ({
     }
 
     if (isGroupExpense) {
-      if (!paidBy) {
+      if (multiplePayers) {
+        const payers = getPayers();
+        const paidTotal = payers.reduce((sum, payer) => sum + payer.amount, 0);
+        if (payers.length < 2) {
+          setPaidByError("Please enter amounts for at least two people, or switch to a single payer");
+          isValid = false;
+        } else if (Math.abs(paidTotal - (parseFloat(amount) || 0)) >= 0.01) {
+          setPaidByError("Paid amounts must add up to the total");
+          isValid = false;
+        }
+      } else if (!paidBy) {
         setPaidByError("Please select who paid for this expense");
         isValid = false;
       }
-      if (splitAmong.length === 0) {
+      if (isItemized) {
+        const items = itemDraftsToItems(itemDrafts);
+        if (items.length === 0) {
+          setSplitAmongError("Please add at least one item");
+          isValid = false;
+        } else if (items.some((item) => !item.name)) {
+          setSplitAmongError("Please enter a name for every item");
+          isValid = false;
+        } else if (items.some((item) => item.participant_ids.length === 0)) {
+          setSplitAmongError("Please assign every item to at least one person");
+          isValid = false;
+        } else if (Object.keys(itemizedPreview.amounts).length === 0) {
+          setSplitAmongError("Please enter item prices");
+          isValid = false;
+        }
+      } else if (splitAmong.length === 0) {
         setSplitAmongError("Please select at least one person to split the expense among");
         isValid = false;
+      } else if (splitMode !== "equal") {
+        const values = getSplitValueNumbers();
+        const preview = calculateSplitPreview(parseFloat(amount) || 0, splitMode, splitAmong, values);
+        if (splitAmong.some((id) => !(values[id] > 0))) {
+          setSplitAmongError("Please enter a value for everyone in the split");
+          isValid = false;
+        } else if (splitMode === "exact" && Math.abs(preview.remainingAmount) >= 0.01) {
+          setSplitAmongError("Split amounts must add up to the total");
+          isValid = false;
+        } else if (splitMode === "percentage" && Math.abs(preview.remainingPercentage) >= 0.01) {
+          setSplitAmongError("Percentages must add up to 100%");
+          isValid = false;
+        }
+      }
+    }
+
+    if (isRecurring) {
+      if (multiplePayers) {
+        setRepeatError("Recurring expenses support a single payer");
+        isValid = false;
+      } else if (repeatEndDate.trim()) {
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(repeatEndDate.trim())) {
+          setRepeatError("Please enter the end date as YYYY-MM-DD");
+          isValid = false;
+        } else if (repeatEndDate.trim() < date.trim()) {
+          setRepeatError("End date cannot be before the first expense");
+          isValid = false;
+        }
       }
     }
 
     return isValid;
   };
 
-  const handleSave = async () => {
+  // The category name is kept in sync so recurring series store it too
+  const handleSelectCategory = (id: string | null) => {
+    setCategoryId(id);
+    setCategory(categories.find((c) => c.id === id)?.name || "");
+  };
+
+  const handleAddReceipt = async (source: ReceiptSource) => {
+    try {
+      const receipt = await pickReceiptImage(source);
+      if (receipt) {
+        setNewReceipts((prev) => [...prev, receipt]);
+      }
+    } catch (error) {
+      Alert.alert("Error", getUserFriendlyErrorMessage(error));
+    }
+  };
+
+  // What the form saves, in the shape onSave takes
+  const getTransactionData = (): Omit<Transaction, "id" | "created_at" | "user_id"> => {
+    const splitValueNumbers = getSplitValueNumbers();
+    return {
+      description: description.trim(),
+      amount: parseFloat(amount),
+      date: date.trim(),
+      type,
+      category: category.trim() || undefined,
+      category_id: groupId ? categoryId : undefined,
+      currency: currency || effectiveDefaultCurrency,
+      paid_by_participant_id: isGroupExpense && !multiplePayers ? paidBy : undefined,
+      payers: isGroupExpense && multiplePayers ? getPayers() : undefined,
+      split_among_participant_ids: isGroupExpense
+        ? isItemized ? getItemizedParticipantIds() : splitAmong
+        : undefined,
+      split_mode: isGroupExpense ? splitMode : undefined,
+      split_values: isGroupExpense && splitMode !== "equal" && !isItemized
+        ? splitAmong.map((id) => ({ participant_id: id, value: splitValueNumbers[id] }))
+        : undefined,
+      items: isItemized ? itemDraftsToItems(itemDrafts) : undefined,
+      tax_amount: isItemized ? parseFloat(taxAmount) || 0 : undefined,
+      tip_amount: isItemized ? parseFloat(tipAmount) || 0 : undefined,
+    };
+  };
+
+  // Loads the server's copy, keeping the edits made here to anything they didn't change
+  const mergeVersion = (current: Transaction, theirs: TransactionFieldGroup[]) => {
+    const keepMine: Record<TransactionFieldGroup, () => void> = {
+      description: () => setDescription(description),
+      amount: () => setAmount(amount),
+      date: () => {
+        setDate(date);
+        setSelectedDate(selectedDate);
+      },
+      type: () => setType(type),
+      category: () => {
+        setCategory(category);
+        setCategoryId(categoryId);
+      },
+      currency: () => setCurrency(currency),
+      payers: () => {
+        setPaidBy(paidBy);
+        setMultiplePayers(multiplePayers);
+        setPayerAmounts(payerAmounts);
+      },
+      splits: () => {
+        setSplitAmong(splitAmong);
+        setSplitMode(splitMode);
+        setSplitValues(splitValues);
+        setItemDrafts(itemDrafts);
+        setTaxAmount(taxAmount);
+        setTipAmount(tipAmount);
+      },
+    };
+
+    loadTransactionData(current);
+    (Object.keys(keepMine) as TransactionFieldGroup[])
+      .filter((group) => !theirs.includes(group))
+      .forEach((group) => keepMine[group]());
+  };
+
+  const handleVersionConflict = (current: Transaction) => {
+    const conflict = compareEdits(
+      getChangedTransactionFields,
+      editBase || transaction || current,
+      getTransactionData(),
+      current
+    );
+    Alert.alert(
+      "Changed by Someone Else",
+      describeEditConflict(conflict, TRANSACTION_FIELD_GROUP_LABELS),
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Merge", onPress: () => mergeVersion(current, conflict.merged) },
+        { text: "Overwrite", style: "destructive", onPress: () => handleSave(current.version) },
+      ]
+    );
+  };
+
+  // editVersion: the version the edit is based on, newer after choosing to overwrite
+  const handleSave = async (editVersion = editBase?.version) => {
     if (!validateForm()) return;
 
     const amountValue = parseFloat(amount);
+    const splitValueNumbers = getSplitValueNumbers();
     setLoading(true);
     try {
-      await onSave({
-        description: description.trim(),
-        amount: amountValue,
-        date: date.trim(),
-        type,
-        category: category.trim() || undefined,
-        currency: currency || effectiveDefaultCurrency,
-        paid_by_participant_id: isGroupExpense ? paidBy : undefined,
-        split_among_participant_ids: isGroupExpense ? splitAmong : undefined,
-      });
+      if (isRecurring && groupId && repeatFrequency) {
+        // The first occurrence is created right away when the date is today or earlier
+        await createRecurringTransaction({
+          group_id: groupId,
+          description: description.trim(),
+          amount: amountValue,
+          currency: currency || effectiveDefaultCurrency,
+          category: category.trim() || undefined,
+          paid_by_participant_id: paidBy,
+          split_among_participant_ids: splitAmong,
+          split_mode: splitMode,
+          split_values: splitMode !== "equal"
+            ? splitAmong.map((id) => ({ participant_id: id, value: splitValueNumbers[id] }))
+            : undefined,
+          frequency: repeatFrequency,
+          start_date: date.trim(),
+          end_date: repeatEndDate.trim() || null,
+        });
+        onDismiss();
+        return;
+      }
+
+      const receiptChanges: ReceiptChanges | undefined = groupId
+        ? { added: newReceipts, removedIds: removedAttachmentIds }
+        : undefined;
+      const budgetWarnings = await onSave(
+        { ...getTransactionData(), version: transaction ? editVersion : undefined },
+        receiptChanges
+      );
+
+      if (budgetWarnings && budgetWarnings.length > 0) {
+        Alert.alert(
+          budgetWarnings.some((w) => w.status === "exceeded") ? "Over Budget" : "Budget Alert",
+          budgetWarnings
+            .map((w) =>
+              `${getBudgetLabel(w, categories)}: ${formatCurrency(w.spent, w.currency)} of ` +
+              `${formatCurrency(w.amount, w.currency)} (${Math.floor(w.percent_used)}%)`
+            )
+            .join("\n")
+        );
+      }
     } catch (error) {
-      Alert.alert("Error", getUserFriendlyErrorMessage(error));
+      const current = getVersionConflict<Transaction>(error);
+      if (current) {
+        handleVersionConflict(current);
+      } else {
+        Alert.alert("Error", getUserFriendlyErrorMessage(error));
+      }
     } finally {
       setLoading(false);
     }
@@ -413,7 +746,9 @@ export const TransactionFormScreen: React.FC<TransactionFormScreenProps> = ({
     if (!onDelete || !transaction) return;
     Alert.alert(
       "Delete Transaction",
-      `Are you sure you want to delete "${transaction.description || "this transaction"}"?`,
+      `Are you sure you want to delete "${transaction.description || "this transaction"}"?${
+        transaction.group_id ? " You can restore it from Recently Deleted in the group menu." : ""
+      }`,
       [
         { text: "Cancel", style: "cancel" },
         {
@@ -465,11 +800,23 @@ export const TransactionFormScreen: React.FC<TransactionFormScreenProps> = ({
     return p.full_name || p.email || `Participant`;
   };
 
-  // Calculate split amount per person
-  const splitAmountPerPerson = useMemo(() => {
-    if (splitAmong.length === 0 || !amount || parseFloat(amount) <= 0) return null;
-    return parseFloat(amount) / splitAmong.length;
-  }, [amount, splitAmong.length]);
+  const payerEditorParticipants = useMemo(
+    () =>
+      availableParticipants.map((p) => ({
+        id: p.id,
+        name: `${p.full_name || p.email || "Unknown"}${p.type === "former" ? " (Former)" : ""}${p.type === "invited" ? " (Invited)" : ""}`,
+      })),
+    [availableParticipants]
+  );
+
+  const splitEditorParticipants = useMemo(
+    () =>
+      splitAmong.map((id) => ({
+        id,
+        name: getParticipantDisplayName(id) || "Unknown",
+      })),
+    [splitAmong, availableParticipants, participants]
+  );
 
   return (
     <SafeAreaView
@@ -531,6 +878,7 @@ export const TransactionFormScreen: React.FC<TransactionFormScreenProps> = ({
                   }
                 ]}
                 testID="amount-input"
+                editable={!isItemized}
                 autoFocus={!transaction}
                 selectTextOnFocus
               />
@@ -604,10 +952,22 @@ export const TransactionFormScreen: React.FC<TransactionFormScreenProps> = ({
             <Card style={styles.card} mode="outlined">
               <Card.Content>
                 {/* Paid By Section */}
-                <View style={styles.sectionHeader}>
+                <View style={styles.sectionHeaderWithAction}>
                   <Text variant="labelLarge" style={{ color: theme.colors.onSurfaceVariant }}>
                     Paid by
                   </Text>
+                  <Button
+                    mode="text"
+                    compact
+                    onPress={() => {
+                      setMultiplePayers(!multiplePayers);
+                      if (paidByError) setPaidByError("");
+                    }}
+                    disabled={loading}
+                    testID="multiple-payers-toggle"
+                  >
+                    {multiplePayers ? "Single person" : "Multiple people"}
+                  </Button>
                 </View>
                 {paidByError && (
                   <Text variant="bodySmall" style={{ color: theme.colors.error, marginBottom: 8 }}>
@@ -615,7 +975,22 @@ export const TransactionFormScreen: React.FC<TransactionFormScreenProps> = ({
                   </Text>
                 )}
                 
-                {useInlineChipsForPaidBy ? (
+                {multiplePayers ? (
+                  <SplitEditor
+                    mode="exact"
+                    onModeChange={() => {}}
+                    participants={payerEditorParticipants}
+                    values={payerAmounts}
+                    onValueChange={(participantId, value) => {
+                      setPayerAmounts((prev) => ({ ...prev, [participantId]: value }));
+                      if (paidByError) setPaidByError("");
+                    }}
+                    amount={parseFloat(amount) || 0}
+                    currency={currency}
+                    disabled={loading}
+                    hideModeSelector
+                  />
+                ) : useInlineChipsForPaidBy ? (
                   <ScrollView 
                     horizontal 
                     showsHorizontalScrollIndicator={false}
@@ -670,16 +1045,29 @@ export const TransactionFormScreen: React.FC<TransactionFormScreenProps> = ({
                 {/* Split Among Section */}
                 <View style={styles.sectionHeaderWithAction}>
                   <Text variant="labelLarge" style={{ color: theme.colors.onSurfaceVariant }}>
-                    Split among
+                    {isItemized ? "Items" : "Split among"}
                   </Text>
-                  <Button 
-                    mode="text" 
-                    compact 
-                    onPress={handleToggleAllMembers}
-                    disabled={loading}
-                  >
-                    {areAllParticipantsSelected ? "None" : "All"}
-                  </Button>
+                  <View style={styles.headerActions}>
+                    {!isItemized && (
+                      <Button 
+                        mode="text" 
+                        compact 
+                        onPress={handleToggleAllMembers}
+                        disabled={loading}
+                      >
+                        {areAllParticipantsSelected ? "None" : "All"}
+                      </Button>
+                    )}
+                    <Button
+                      mode="text"
+                      compact
+                      onPress={handleToggleItemized}
+                      disabled={loading}
+                      testID="itemize-toggle"
+                    >
+                      {isItemized ? "Simple split" : "Itemize"}
+                    </Button>
+                  </View>
                 </View>
                 {splitAmongError && (
                   <Text variant="bodySmall" style={{ color: theme.colors.error, marginBottom: 8 }}>
@@ -687,44 +1075,199 @@ export const TransactionFormScreen: React.FC<TransactionFormScreenProps> = ({
                   </Text>
                 )}
 
+                {isItemized ? (
+                  <ItemizedEditor
+                    items={itemDrafts}
+                    onItemsChange={(items) => {
+                      setItemDrafts(items);
+                      if (splitAmongError) setSplitAmongError("");
+                    }}
+                    taxAmount={taxAmount}
+                    onTaxAmountChange={setTaxAmount}
+                    tipAmount={tipAmount}
+                    onTipAmountChange={setTipAmount}
+                    participants={payerEditorParticipants}
+                    currency={currency}
+                    disabled={loading}
+                  />
+                ) : (
+                  <>
+                    <View style={styles.chipWrap}>
+                      {availableParticipants.map((p) => {
+                        const isSelected = splitAmong.includes(p.id);
+                        const displayName = p.full_name || p.email || "Unknown";
+                        const isFormer = p.type === "former";
+                        const isInvited = p.type === "invited";
+                        return (
+                          <Chip
+                            key={p.id}
+                            selected={isSelected}
+                            onPress={() => handleToggleSplitMember(p.id)}
+                            style={[
+                              styles.wrapChip,
+                              isFormer && styles.formerChip,
+                              isInvited && styles.invitedChip,
+                              !isSelected && { backgroundColor: theme.colors.surfaceVariant },
+                            ]}
+                            disabled={loading}
+                            showSelectedCheck={true}
+                            testID={`split-among-chip-${p.email || p.id}`}
+                          >
+                            {displayName}
+                            {isFormer && " (Former)"}
+                            {isInvited && " (Invited)"}
+                          </Chip>
+                        );
+                      })}
+                    </View>
+
+                    {/* Split mode, per-person values and remaining amount */}
+                    <SplitEditor
+                      mode={splitMode}
+                      onModeChange={(mode) => {
+                        setSplitMode(mode);
+                        if (splitAmongError) setSplitAmongError("");
+                      }}
+                      participants={splitEditorParticipants}
+                      values={splitValues}
+                      onValueChange={(participantId, value) => {
+                        setSplitValues((prev) => ({ ...prev, [participantId]: value }));
+                        if (splitAmongError) setSplitAmongError("");
+                      }}
+                      amount={parseFloat(amount) || 0}
+                      currency={currency}
+                      disabled={loading}
+                    />
+                  </>
+                )}
+              </Card.Content>
+            </Card>
+          )}
+
+          {/* REPEAT - Only when adding a group expense */}
+          {isGroupExpense && !transaction && !isItemized && (
+            <Card style={styles.card} mode="outlined">
+              <Card.Content>
+                <Text variant="labelLarge" style={{ color: theme.colors.onSurfaceVariant, marginBottom: 8 }}>
+                  Repeat
+                </Text>
                 <View style={styles.chipWrap}>
-                  {availableParticipants.map((p) => {
-                    const isSelected = splitAmong.includes(p.id);
-                    const displayName = p.full_name || p.email || "Unknown";
-                    const isFormer = p.type === "former";
-                    const isInvited = p.type === "invited";
-                    return (
-                      <Chip
-                        key={p.id}
-                        selected={isSelected}
-                        onPress={() => handleToggleSplitMember(p.id)}
-                        style={[
-                          styles.wrapChip,
-                          isFormer && styles.formerChip,
-                          isInvited && styles.invitedChip,
-                          !isSelected && { backgroundColor: theme.colors.surfaceVariant },
-                        ]}
-                        disabled={loading}
-                        showSelectedCheck={true}
-                        testID={`split-among-chip-${p.email || p.id}`}
-                      >
-                        {displayName}
-                        {isFormer && " (Former)"}
-                        {isInvited && " (Invited)"}
-                      </Chip>
-                    );
-                  })}
+                  {REPEAT_OPTIONS.map((option) => (
+                    <Chip
+                      key={option.label}
+                      selected={repeatFrequency === option.value}
+                      onPress={() => {
+                        setRepeatFrequency(option.value);
+                        if (repeatError) setRepeatError("");
+                      }}
+                      style={[
+                        styles.wrapChip,
+                        repeatFrequency !== option.value && { backgroundColor: theme.colors.surfaceVariant },
+                      ]}
+                      disabled={loading}
+                      showSelectedCheck={true}
+                      testID={`repeat-chip-${option.value || "never"}`}
+                    >
+                      {option.label}
+                    </Chip>
+                  ))}
                 </View>
+                {repeatFrequency && (
+                  <TextInput
+                    label="Ends on (Optional)"
+                    value={repeatEndDate}
+                    onChangeText={(text) => {
+                      setRepeatEndDate(text);
+                      if (repeatError) setRepeatError("");
+                    }}
+                    mode="flat"
+                    disabled={loading}
+                    style={styles.flatInput}
+                    left={<TextInput.Icon icon="calendar-end" />}
+                    placeholder="YYYY-MM-DD"
+                  />
+                )}
+                {repeatError && (
+                  <Text variant="bodySmall" style={{ color: theme.colors.error, marginTop: 4 }}>
+                    {repeatError}
+                  </Text>
+                )}
+              </Card.Content>
+            </Card>
+          )}
 
-                {/* Split amount preview */}
-                {splitAmountPerPerson && splitAmountPerPerson > 0 && (
-                  <View style={styles.splitPreview}>
-                    <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
-                      Each person pays: {" "}
-                      <Text style={{ color: theme.colors.primary, fontWeight: "600" }}>
-                        {formatCurrency(splitAmountPerPerson, currency)}
-                      </Text>
-                    </Text>
+          {/* RECEIPTS - Group transactions only (stored per group) */}
+          {!!groupId && !isRecurring && (
+            <Card style={styles.card} mode="outlined">
+              <Card.Content>
+                <Text variant="labelLarge" style={{ color: theme.colors.onSurfaceVariant, marginBottom: 8 }}>
+                  Receipts
+                </Text>
+                {receiptCount > 0 && (
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipScrollView}>
+                    {savedAttachments.map((attachment) => (
+                      <View key={attachment.id} style={styles.receiptThumbnailContainer}>
+                        <Pressable onPress={() => attachment.url && setPreviewUri(attachment.url)}>
+                          <Image
+                            source={attachment.url ? { uri: attachment.url } : undefined}
+                            style={[styles.receiptThumbnail, { backgroundColor: theme.colors.surfaceVariant }]}
+                            accessibilityLabel={attachment.file_name}
+                          />
+                        </Pressable>
+                        <IconButton
+                          icon="close-circle"
+                          size={18}
+                          style={styles.receiptRemoveButton}
+                          onPress={() => setRemovedAttachmentIds((prev) => [...prev, attachment.id])}
+                          disabled={loading}
+                          accessibilityLabel="Remove receipt"
+                        />
+                      </View>
+                    ))}
+                    {newReceipts.map((receipt, index) => (
+                      <View key={receipt.uri} style={styles.receiptThumbnailContainer}>
+                        <Pressable onPress={() => setPreviewUri(receipt.uri)}>
+                          <Image
+                            source={{ uri: receipt.uri }}
+                            style={[styles.receiptThumbnail, { backgroundColor: theme.colors.surfaceVariant }]}
+                            accessibilityLabel={receipt.file_name}
+                          />
+                        </Pressable>
+                        <IconButton
+                          icon="close-circle"
+                          size={18}
+                          style={styles.receiptRemoveButton}
+                          onPress={() => setNewReceipts((prev) => prev.filter((_, i) => i !== index))}
+                          disabled={loading}
+                          accessibilityLabel="Remove receipt"
+                        />
+                      </View>
+                    ))}
+                  </ScrollView>
+                )}
+                {receiptCount < MAX_RECEIPTS_PER_TRANSACTION && (
+                  <View style={styles.receiptActions}>
+                    {Platform.OS !== "web" && (
+                      <Button
+                        mode="outlined"
+                        icon="camera-outline"
+                        onPress={() => handleAddReceipt("camera")}
+                        disabled={loading}
+                        compact
+                      >
+                        Take Photo
+                      </Button>
+                    )}
+                    <Button
+                      mode="outlined"
+                      icon="image-outline"
+                      onPress={() => handleAddReceipt("library")}
+                      disabled={loading}
+                      compact
+                      testID="add-receipt-button"
+                    >
+                      Choose Photo
+                    </Button>
                   </View>
                 )}
               </Card.Content>
@@ -747,16 +1290,52 @@ export const TransactionFormScreen: React.FC<TransactionFormScreenProps> = ({
           {showMoreOptions && (
             <Card style={styles.card} mode="outlined">
               <Card.Content>
-                <TextInput
-                  label="Category (Optional)"
-                  value={category}
-                  onChangeText={setCategory}
-                  mode="flat"
-                  disabled={loading}
-                  style={styles.flatInput}
-                  left={<TextInput.Icon icon="tag-outline" />}
-                  placeholder="e.g., Food, Transportation"
-                />
+                {groupId && categories.length > 0 ? (
+                  <>
+                    <Text variant="labelLarge" style={{ color: theme.colors.onSurfaceVariant, marginBottom: 8 }}>
+                      Category
+                    </Text>
+                    <View style={styles.categoryChips}>
+                      <Chip
+                        selected={!categoryId}
+                        onPress={() => handleSelectCategory(null)}
+                        mode={!categoryId ? "flat" : "outlined"}
+                        disabled={loading}
+                        style={styles.categoryChip}
+                      >
+                        None
+                      </Chip>
+                      {categories.map((c) => (
+                        <Chip
+                          key={c.id}
+                          icon={c.icon}
+                          selected={categoryId === c.id}
+                          showSelectedCheck={false}
+                          onPress={() => handleSelectCategory(c.id)}
+                          mode={categoryId === c.id ? "flat" : "outlined"}
+                          disabled={loading}
+                          style={[
+                            styles.categoryChip,
+                            categoryId === c.id && { backgroundColor: `${c.color}33` },
+                          ]}
+                        >
+                          {c.name}
+                        </Chip>
+                      ))}
+                    </View>
+                  </>
+                ) : (
+                  <TextInput
+                    label="Category (Optional)"
+                    value={category}
+                    onChangeText={setCategory}
+                    mode="flat"
+                    disabled={loading}
+                    style={styles.flatInput}
+                    left={<TextInput.Icon icon="tag-outline" />}
+                    placeholder="e.g., Food, Transportation"
+                  />
+                )}
               </Card.Content>
             </Card>
           )}
@@ -772,7 +1351,7 @@ export const TransactionFormScreen: React.FC<TransactionFormScreenProps> = ({
         >
           <Button
             mode="contained"
-            onPress={handleSave}
+            onPress={() => handleSave()}
             disabled={loading}
             loading={loading}
             style={styles.saveButton}
@@ -834,6 +1413,13 @@ export const TransactionFormScreen: React.FC<TransactionFormScreenProps> = ({
         </>
       )}
 
+      <ReceiptPreviewModal
+        visible={!!previewUri}
+        title="Receipt"
+        uris={previewUri ? [previewUri] : []}
+        onDismiss={() => setPreviewUri(null)}
+      />
+
       {/* Paid By Picker Modal (for > 5 participants) */}
       <Modal
         visible={showPaidByPicker}
@@ -995,6 +1581,14 @@ const styles = StyleSheet.create({
   flatInput: {
     backgroundColor: "transparent",
   },
+  categoryChips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  categoryChip: {
+    marginRight: 8,
+    marginBottom: 8,
+  },
   divider: {
     marginVertical: 8,
   },
@@ -1015,6 +1609,10 @@ const styles = StyleSheet.create({
     alignItems: "center",
     marginBottom: 8,
   },
+  headerActions: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
 
   // Chips
   chipScrollView: {
@@ -1043,14 +1641,6 @@ const styles = StyleSheet.create({
   },
 
   // Split Preview
-  splitPreview: {
-    marginTop: 16,
-    paddingVertical: 12,
-    paddingHorizontal: 16,
-    backgroundColor: "rgba(0,0,0,0.04)",
-    borderRadius: 12,
-    alignItems: "center",
-  },
 
   // More Options
   moreOptionsHeader: {
@@ -1143,4 +1733,22 @@ const styles = StyleSheet.create({
     padding: 16,
     borderRadius: 12,
   },
+  receiptThumbnailContainer: {
+    marginRight: 8,
+  },
+  receiptThumbnail: {
+    width: 72,
+    height: 96,
+    borderRadius: 8,
+  },
+  receiptRemoveButton: {
+    position: "absolute",
+    top: -8,
+    right: -8,
+    margin: 0,
+  },
+  receiptActions: {
+    flexDirection: "row",
+    gap: 8,
+  },
 });
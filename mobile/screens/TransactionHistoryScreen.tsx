@@ -0,0 +1,294 @@
+import React, { useMemo } from "react";
+import { Alert, Modal, ScrollView, StyleSheet, View } from "react-native";
+import {
+  ActivityIndicator,
+  Appbar,
+  Button,
+  Chip,
+  Text,
+  useTheme,
+} from "react-native-paper";
+import { WEB_MAX_WIDTH } from "../constants/layout";
+import { useAuth } from "../contexts/AuthContext";
+import { useParticipants } from "../hooks/useParticipants";
+import {
+  useRestoreTransactionVersion,
+  useTransactionHistory,
+} from "../hooks/useTransactions";
+import { SplitMode, TransactionVersion } from "../types";
+import { formatActivityTime, getUserDisplayName } from "../utils/activityDescriptions";
+import { formatCurrency } from "../utils/currency";
+import { getUserFriendlyErrorMessage } from "../utils/errorMessages";
+
+interface TransactionHistoryScreenProps {
+  visible: boolean;
+  transactionId: number | null;
+  groupId: string;
+  readOnly?: boolean; // Former members and archived groups can look but not restore
+  onDismiss: () => void;
+}
+
+// Fields shown in the diff, in this order; other changes (exchange rates,
+// ids) aren't meaningful to people
+const FIELD_LABELS: Record<string, string> = {
+  description: "Description",
+  amount: "Amount",
+  currency: "Currency",
+  date: "Date",
+  type: "Type",
+  category: "Category",
+  paid_by_participant_id: "Paid by",
+  split_mode: "Split",
+};
+
+const SPLIT_MODE_LABELS: Record<SplitMode, string> = {
+  equal: "Equally",
+  exact: "Exact amounts",
+  percentage: "Percentages",
+  shares: "Shares",
+  itemized: "Itemized",
+};
+
+const ACTION_LABELS: Record<TransactionVersion["action"], string> = {
+  created: "Added",
+  updated: "Edited",
+  deleted: "Moved to Recently Deleted",
+  restored: "Restored from Recently Deleted",
+};
+
+export const TransactionHistoryScreen: React.FC<TransactionHistoryScreenProps> = ({
+  visible,
+  transactionId,
+  groupId,
+  readOnly = false,
+  onDismiss,
+}) => {
+  const theme = useTheme();
+  const { user } = useAuth();
+
+  const { data: versions, isLoading, error } = useTransactionHistory(visible ? transactionId : null);
+  const { data: participants } = useParticipants(visible ? groupId : null);
+  const restoreVersion = useRestoreTransactionVersion();
+
+  const participantNames = useMemo(() => {
+    const names = new Map<string, string>();
+    (participants || []).forEach((p) => names.set(p.id, p.full_name || p.email || "Unknown"));
+    return names;
+  }, [participants]);
+
+  const formatValue = (field: string, value: unknown, currency?: string | null): string => {
+    if (value === null || value === undefined || value === "") return "None";
+    switch (field) {
+      case "amount":
+        return formatCurrency(Number(value), currency || undefined);
+      case "paid_by_participant_id":
+        return participantNames.get(String(value)) || "Unknown";
+      case "type":
+        return value === "income" ? "Income" : "Expense";
+      case "split_mode":
+        return SPLIT_MODE_LABELS[value as SplitMode] || String(value);
+      default:
+        return String(value);
+    }
+  };
+
+  const handleRestore = (version: TransactionVersion) => {
+    if (!transactionId) return;
+    Alert.alert(
+      "Restore Version",
+      `Restore version ${version.version}? This saves it as a new edit, so the current version stays in the history.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Restore",
+          onPress: async () => {
+            try {
+              await restoreVersion.mutate({ transactionId, historyId: version.id, groupId });
+            } catch (err) {
+              Alert.alert("Error", getUserFriendlyErrorMessage(err));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderChanges = (version: TransactionVersion) => {
+    if (version.action === "updated") {
+      const diff = version.diff || {};
+      const fields = Object.keys(FIELD_LABELS).filter((field) => diff[field]);
+      if (fields.length === 0) {
+        return (
+          <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+            Split details changed
+          </Text>
+        );
+      }
+      const oldCurrency = diff.currency?.old ?? version.fields?.currency;
+      const newCurrency = diff.currency?.new ?? version.fields?.currency;
+      return fields.map((field) => (
+        <View key={field} style={styles.diffRow}>
+          <Text variant="bodySmall" style={[styles.diffLabel, { color: theme.colors.onSurfaceVariant }]}>
+            {FIELD_LABELS[field]}
+          </Text>
+          <Text variant="bodySmall" style={styles.diffValue}>
+            <Text variant="bodySmall" style={[styles.oldValue, { color: theme.colors.error }]}>
+              {formatValue(field, diff[field].old, oldCurrency)}
+            </Text>
+            {"  →  "}
+            <Text variant="bodySmall" style={{ color: theme.colors.primary }}>
+              {formatValue(field, diff[field].new, newCurrency)}
+            </Text>
+          </Text>
+        </View>
+      ));
+    }
+
+    if (version.action === "created" && version.fields) {
+      const { fields } = version;
+      return (
+        <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+          {fields.description} · {formatValue("amount", fields.amount, fields.currency)}
+          {fields.paid_by_participant_id ? ` · paid by ${formatValue("paid_by_participant_id", fields.paid_by_participant_id)}` : ""}
+          {` · ${fields.date}`}
+        </Text>
+      );
+    }
+
+    return null;
+  };
+
+  // Newest first, like the activity feed
+  const orderedVersions = [...versions].reverse();
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={onDismiss}
+      presentationStyle="pageSheet"
+    >
+      <View style={[styles.rootContainer, { backgroundColor: theme.colors.background }]}>
+        <View style={styles.container}>
+          <Appbar.Header>
+            <Appbar.Action icon="close" onPress={onDismiss} />
+            <Appbar.Content title="History" />
+          </Appbar.Header>
+
+          <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+            {isLoading ? (
+              <ActivityIndicator style={styles.loading} />
+            ) : error ? (
+              <Text variant="bodyMedium" style={[styles.emptyText, { color: theme.colors.onSurfaceVariant }]}>
+                This transaction's history isn't available. It may have been deleted.
+              </Text>
+            ) : (
+              orderedVersions.map((version) => (
+                <View
+                  key={version.id}
+                  style={[styles.versionRow, { borderBottomColor: theme.colors.outlineVariant }]}
+                >
+                  <View style={styles.versionHeader}>
+                    <View style={styles.versionTitle}>
+                      <Text variant="titleSmall">
+                        Version {version.version} · {ACTION_LABELS[version.action]}
+                      </Text>
+                      <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                        {getUserDisplayName(
+                          version.changed_by.id,
+                          version.changed_by.email,
+                          user?.id,
+                          version.changed_by.full_name
+                        )}
+                        {" · "}
+                        {formatActivityTime(version.changed_at)}
+                      </Text>
+                    </View>
+                    {version.is_current && (
+                      <Chip compact style={styles.currentChip}>
+                        Current
+                      </Chip>
+                    )}
+                  </View>
+
+                  {renderChanges(version)}
+
+                  {!readOnly && !version.is_current && version.fields && version.action !== "deleted" && (
+                    <Button
+                      mode="text"
+                      compact
+                      icon="restore"
+                      onPress={() => handleRestore(version)}
+                      disabled={restoreVersion.isLoading}
+                      style={styles.restoreButton}
+                    >
+                      Restore this version
+                    </Button>
+                  )}
+                </View>
+              ))
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  rootContainer: {
+    flex: 1,
+    width: "100%",
+  },
+  container: {
+    flex: 1,
+    width: "100%",
+    maxWidth: WEB_MAX_WIDTH,
+    alignSelf: "center",
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  loading: {
+    marginTop: 24,
+  },
+  emptyText: {
+    textAlign: "center",
+    marginTop: 24,
+  },
+  versionRow: {
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  versionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 4,
+  },
+  versionTitle: {
+    flex: 1,
+  },
+  currentChip: {
+    marginLeft: 8,
+  },
+  diffRow: {
+    flexDirection: "row",
+    marginTop: 2,
+  },
+  diffLabel: {
+    width: 96,
+  },
+  diffValue: {
+    flex: 1,
+  },
+  oldValue: {
+    textDecorationLine: "line-through",
+  },
+  restoreButton: {
+    alignSelf: "flex-start",
+    marginTop: 4,
+  },
+});
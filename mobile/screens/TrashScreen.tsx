@@ -0,0 +1,216 @@
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+import React, { useMemo } from "react";
+import { Alert, Modal, ScrollView, StyleSheet, View } from "react-native";
+import {
+  ActivityIndicator,
+  Appbar,
+  Button,
+  Text,
+  useTheme,
+} from "react-native-paper";
+import { WEB_MAX_WIDTH } from "../constants/layout";
+import { useAuth } from "../contexts/AuthContext";
+import { useParticipants } from "../hooks/useParticipants";
+import { useRestoreFromTrash, useTrash } from "../hooks/useTrash";
+import { TrashedSettlement, TrashedTransaction } from "../types";
+import { getUserDisplayName } from "../utils/activityDescriptions";
+import { formatCurrency } from "../utils/currency";
+import { getUserFriendlyErrorMessage } from "../utils/errorMessages";
+
+interface TrashScreenProps {
+  visible: boolean;
+  groupId: string;
+  onDismiss: () => void;
+}
+
+function formatDeletion(
+  item: TrashedTransaction | TrashedSettlement,
+  currentUserId?: string
+): string {
+  const deletedBy = item.deleted_by
+    ? getUserDisplayName(item.deleted_by, item.deleted_by_email || "", currentUserId)
+    : "Someone";
+  const daysLeft = Math.max(differenceInCalendarDays(parseISO(item.expires_at), new Date()), 0);
+  const expiry = daysLeft === 0 ? "removed today" : `${daysLeft} day${daysLeft === 1 ? "" : "s"} left`;
+  return `${deletedBy} deleted ${format(parseISO(item.deleted_at), "MMM d")} · ${expiry}`;
+}
+
+export const TrashScreen: React.FC<TrashScreenProps> = ({
+  visible,
+  groupId,
+  onDismiss,
+}) => {
+  const theme = useTheme();
+  const { user } = useAuth();
+
+  const { data: trash, isLoading } = useTrash(visible ? groupId : null);
+  const { data: participants } = useParticipants(visible ? groupId : null);
+  const restore = useRestoreFromTrash();
+
+  const participantNames = useMemo(() => {
+    const names = new Map<string, string>();
+    (participants || []).forEach((p) => names.set(p.id, p.full_name || p.email || "Unknown"));
+    return names;
+  }, [participants]);
+
+  const participantName = (id?: string | null) =>
+    (id && participantNames.get(id)) || "Unknown";
+
+  const handleRestore = async (type: "transaction" | "settlement", id: number | string) => {
+    try {
+      await restore.mutate({ type, id, groupId });
+    } catch (error) {
+      Alert.alert("Error", getUserFriendlyErrorMessage(error));
+    }
+  };
+
+  const transactions = trash?.transactions ?? [];
+  const settlements = trash?.settlements ?? [];
+  const isEmpty = transactions.length === 0 && settlements.length === 0;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={onDismiss}
+      presentationStyle="pageSheet"
+    >
+      <View style={[styles.rootContainer, { backgroundColor: theme.colors.background }]}>
+        <View style={styles.container}>
+          <Appbar.Header>
+            <Appbar.Action icon="close" onPress={onDismiss} />
+            <Appbar.Content title="Recently Deleted" />
+          </Appbar.Header>
+
+          <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+            {isLoading ? (
+              <ActivityIndicator style={styles.loading} />
+            ) : (
+              <>
+                {trash && (
+                  <Text variant="bodySmall" style={[styles.hint, { color: theme.colors.onSurfaceVariant }]}>
+                    Deleted expenses and settlements can be restored for {trash.retention_days} day
+                    {trash.retention_days === 1 ? "" : "s"}. They don't count towards balances meanwhile.
+                  </Text>
+                )}
+
+                {isEmpty && (
+                  <Text variant="bodyMedium" style={[styles.emptyText, { color: theme.colors.onSurfaceVariant }]}>
+                    Nothing has been deleted recently.
+                  </Text>
+                )}
+
+                {transactions.length > 0 && (
+                  <Text variant="titleSmall" style={styles.sectionTitle}>
+                    Expenses
+                  </Text>
+                )}
+                {transactions.map((item) => (
+                  <View
+                    key={`transaction-${item.id}`}
+                    style={[styles.itemRow, { borderBottomColor: theme.colors.outlineVariant }]}
+                  >
+                    <View style={styles.itemText}>
+                      <Text variant="bodyLarge">{item.description}</Text>
+                      <Text variant="bodyMedium">
+                        {formatCurrency(Number(item.amount), item.currency)}
+                        {item.paid_by_participant_id ? ` · paid by ${participantName(item.paid_by_participant_id)}` : ""}
+                        {` · ${item.date}`}
+                      </Text>
+                      <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                        {formatDeletion(item, user?.id)}
+                      </Text>
+                    </View>
+                    <Button
+                      mode="text"
+                      compact
+                      onPress={() => handleRestore("transaction", item.id)}
+                      disabled={restore.isLoading}
+                    >
+                      Restore
+                    </Button>
+                  </View>
+                ))}
+
+                {settlements.length > 0 && (
+                  <Text variant="titleSmall" style={styles.sectionTitle}>
+                    Settlements
+                  </Text>
+                )}
+                {settlements.map((item) => (
+                  <View
+                    key={`settlement-${item.id}`}
+                    style={[styles.itemRow, { borderBottomColor: theme.colors.outlineVariant }]}
+                  >
+                    <View style={styles.itemText}>
+                      <Text variant="bodyLarge">
+                        {participantName(item.from_participant_id)} paid {participantName(item.to_participant_id)}
+                      </Text>
+                      <Text variant="bodyMedium">
+                        {formatCurrency(Number(item.amount), item.currency)}
+                        {item.notes ? ` · ${item.notes}` : ""}
+                      </Text>
+                      <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                        {formatDeletion(item, user?.id)}
+                      </Text>
+                    </View>
+                    <Button
+                      mode="text"
+                      compact
+                      onPress={() => handleRestore("settlement", item.id)}
+                      disabled={restore.isLoading}
+                    >
+                      Restore
+                    </Button>
+                  </View>
+                ))}
+              </>
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  rootContainer: {
+    flex: 1,
+    width: "100%",
+  },
+  container: {
+    flex: 1,
+    width: "100%",
+    maxWidth: WEB_MAX_WIDTH,
+    alignSelf: "center",
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  loading: {
+    marginTop: 24,
+  },
+  hint: {
+    marginBottom: 8,
+  },
+  emptyText: {
+    textAlign: "center",
+    marginTop: 24,
+  },
+  sectionTitle: {
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  itemRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  itemText: {
+    flex: 1,
+  },
+});
@@ -20,6 +20,7 @@ export interface TransactionSplit {
   user_id?: string | null; // Legacy: kept for backward compatibility
   email?: string | null; // Legacy: kept for backward compatibility
   amount: number; // Individual split amount (for equal splits: transaction.amount / split_count)
+  share_value?: number | null; // Raw value entered for exact/percentage/shares splits
   created_at?: string;
   full_name?: string | null; // Populated from participant or API join
   avatar_url?: string | null; // Populated from participant or API join
@@ -32,7 +33,8 @@ export interface Transaction {
   description: string;
   date: string;
   type: 'income' | 'expense';
-  category?: string;
+  category?: string; // Category name as of the last save
+  category_id?: string | null; // Group category (see Category)
   created_at?: string;
   user_id?: string;
   group_id?: string;
@@ -41,7 +43,118 @@ export interface Transaction {
   paid_by_participant_id?: string; // Participant who paid
   split_among?: string[]; // Legacy: Array of user IDs/emails (deprecated, use split_among_participant_ids)
   split_among_participant_ids?: string[]; // Array of participant IDs to split among
+  split_mode?: SplitMode; // How the amount is divided among splits (defaults to equal)
+  split_values?: SplitValue[]; // Per-participant values sent for non-equal split modes
+  payers?: TransactionPayer[]; // Set only when more than one participant paid
+  items?: TransactionItem[]; // Receipt line items of an itemized split
+  tax_amount?: number | null; // Itemized splits: tax shared in proportion to item subtotals
+  tip_amount?: number | null; // Itemized splits: tip shared in proportion to item subtotals
+  exchange_rate?: number | null; // Rate into the group settlement currency recorded when saved
+  exchange_rate_currency?: string | null; // Settlement currency the recorded rate converts into
+  recurring_transaction_id?: string | null; // Recurring series this expense was generated from
+  attachments?: TransactionAttachment[]; // Receipt images, oldest first
+  comment_count?: number; // Comments in the transaction's thread
   splits?: TransactionSplit[]; // From transaction_splits table (preferred for reading)
+  budget_warnings?: BudgetWarning[]; // POST responses only: budgets this expense pushed past 80% / 100%
+  version?: number; // Incremented on every edit; sent back with edits so stale ones are rejected
+  pending_sync?: boolean; // Client only: change is queued until the app is back online
+}
+
+// Fields of a transaction that a version restores
+export type TransactionVersionFields = Pick<Transaction, 'description' | 'amount' | 'currency' | 'date' | 'type' | 'category' | 'category_id' | 'paid_by_participant_id'>;
+
+// One entry of GET /transactions/:id/history, oldest first
+export interface TransactionVersion {
+  id: string; // transaction_history id, sent back to restore this version
+  version: number;
+  action: 'created' | 'updated' | 'deleted' | 'restored'; // deleted / restored: moved to the trash and back
+  changed_by: {
+    id: string;
+    email: string;
+    full_name?: string | null;
+    avatar_url?: string | null;
+  };
+  changed_at: string;
+  diff: Record<string, { old: any; new: any }> | null; // Updates only
+  fields: TransactionVersionFields | null; // null when no copy was saved
+  is_current: boolean; // Fields match the transaction as it is now
+}
+
+// GET /transactions/:id/history
+export interface TransactionHistoryResponse {
+  versions: TransactionVersion[];
+  transaction_version: number; // The version PUT /transactions expects an edit to be based on
+}
+
+// One page of GET /transactions, newest first
+export interface TransactionsPage {
+  transactions: Transaction[];
+  next_cursor: string | null; // Pass back as cursor to get the next page; null on the last page
+}
+
+// Server-side filters for GET /transactions
+export interface TransactionFilters {
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  category?: string;
+  category_id?: string;
+  type?: 'income' | 'expense';
+  payer_id?: string; // Participant who paid
+  participant_id?: string; // Participant who paid or shares in the expense
+  min_amount?: number;
+  max_amount?: number;
+  q?: string; // Text in the description
+}
+
+export interface TransactionPayer {
+  participant_id: string;
+  amount: number; // Amount this participant paid
+  user_id?: string | null; // Populated from participant
+  email?: string | null; // Populated from participant
+  full_name?: string | null; // Populated from participant
+  avatar_url?: string | null; // Populated from participant
+}
+
+export interface TransactionItem {
+  id?: string;
+  name: string;
+  unit_price: number;
+  quantity: number;
+  participant_ids: string[]; // Participants sharing this item equally
+  position?: number;
+}
+
+export interface TransactionAttachment {
+  id: string;
+  transaction_id: number;
+  group_id: string;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  uploaded_by?: string | null;
+  created_at?: string;
+  url?: string | null; // Signed URL, expires after an hour
+}
+
+// A receipt picked on the device that hasn't been uploaded yet
+export interface ReceiptUpload {
+  uri: string; // Local URI for previewing before upload
+  file_name: string;
+  content_type: string;
+  data: string; // Base64 image data
+}
+
+// Receipt changes made in the transaction form, applied after the transaction is saved
+export interface ReceiptChanges {
+  added: ReceiptUpload[];
+  removedIds: string[];
+}
+
+export type SplitMode = 'equal' | 'exact' | 'percentage' | 'shares' | 'itemized';
+
+export interface SplitValue {
+  participant_id: string;
+  value: number; // Amount, percentage or share count depending on split mode
 }
 
 export interface Currency {
@@ -63,6 +176,13 @@ export interface Group {
   created_at: string;
   updated_at: string;
   user_status?: 'active' | 'left' | 'invited';
+  settlement_currency?: string | null; // Currency balances are converted into when settling up
+  default_currency?: string | null; // Currency new expenses start with
+  emoji?: string | null;
+  cover_color?: string | null; // #RRGGBB behind the group icon
+  archived_at?: string | null; // Archived groups are read-only
+  archived_by?: string | null;
+  trash_retention_days?: number; // Days deleted transactions and settlements stay restorable
 }
 
 export interface GroupMember {
@@ -113,6 +233,16 @@ export interface GroupBalance {
   group_id: string;
   group_name: string;
   balances: Balance[];
+  converted_currency?: string | null; // Set when requested with convert=true
+  missing_rates?: string[]; // Currencies left unconverted because no rate is known
+  simplified_debts?: SimplifiedDebt[]; // Minimum set of transfers, when requested with simplify=true
+}
+
+export interface SimplifiedDebt {
+  from_participant_id: string;
+  to_participant_id: string;
+  amount: number;
+  currency: string;
 }
 
 export interface BalancesResponse {
@@ -120,6 +250,8 @@ export interface BalancesResponse {
   overall_balances: Balance[];
 }
 
+export type SettlementStatus = 'pending' | 'confirmed' | 'disputed';
+
 export interface Settlement {
   id: string;
   group_id: string;
@@ -134,15 +266,153 @@ export interface Settlement {
   created_at: string;
   from_user_email?: string;
   to_user_email?: string;
+  comment_count?: number; // Comments in the settlement's thread
+  status: SettlementStatus; // pending until the receiver confirms or disputes it
+  status_changed_by?: string | null;
+  status_changed_at?: string | null;
+  dispute_reason?: string | null; // Receiver's explanation when disputed
+  version?: number; // Incremented on every edit; sent back with edits so stale ones are rejected
 }
 
 export interface SettlementsResponse {
   settlements: Settlement[];
 }
 
+// When and by whom an item was moved to the trash
+interface TrashInfo {
+  deleted_at: string;
+  deleted_by: string | null;
+  deleted_by_email: string | null;
+  expires_at: string; // Purged for good after this
+}
+
+export type TrashedTransaction = Pick<Transaction, 'id' | 'group_id' | 'description' | 'amount' | 'currency' | 'date' | 'type' | 'category' | 'paid_by_participant_id' | 'user_id'> & TrashInfo;
+
+export type TrashedSettlement = Pick<Settlement, 'id' | 'group_id' | 'from_participant_id' | 'to_participant_id' | 'amount' | 'currency' | 'notes' | 'created_by' | 'created_at'> & TrashInfo;
+
+export interface TrashResponse {
+  retention_days: number;
+  transactions: TrashedTransaction[];
+  settlements: TrashedSettlement[];
+}
+
+export interface ExchangeRate {
+  id: string;
+  group_id: string;
+  base_currency: string;
+  quote_currency: string;
+  rate: number; // 1 base_currency = rate quote_currency
+  effective_date: string; // YYYY-MM-DD
+  source: 'manual' | 'import';
+  created_by?: string | null;
+  created_at?: string;
+}
+
+export interface Category {
+  id: string;
+  group_id: string;
+  name: string;
+  icon: string; // MaterialCommunityIcons name
+  color: string; // Hex color, e.g. #4CAF50
+  position: number; // Sort order in the category picker
+  created_by?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type BudgetPeriod = 'total' | 'monthly';
+export type BudgetState = 'ok' | 'warning' | 'exceeded';
+
+// A budget with its spending in the current period (GET /budgets)
+export interface Budget {
+  id: string;
+  group_id: string;
+  category_id: string | null; // null budgets count every expense
+  amount: number;
+  currency: string;
+  period: BudgetPeriod;
+  spent: number;
+  remaining: number;
+  percent_used: number;
+  status: BudgetState; // warning from 80%, exceeded from 100%
+  period_start: string | null; // null for 'total' budgets
+  period_end: string | null;
+  created_by?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface BudgetWarning {
+  budget_id: string;
+  category_id: string | null;
+  period: BudgetPeriod;
+  currency: string;
+  amount: number;
+  spent: number;
+  percent_used: number;
+  threshold: number; // 80 or 100
+  status: BudgetState;
+}
+
+// A comment on a transaction or settlement (exactly one of the ids is set)
+export interface Comment {
+  id: string;
+  group_id: string;
+  transaction_id: number | null;
+  settlement_id: string | null;
+  body: string;
+  mentioned_participant_ids: string[]; // Participants mentioned as @name in body
+  created_by: string | null;
+  created_at: string;
+  updated_at?: string;
+  edited_at?: string | null;
+  author: {
+    id: string;
+    email: string | null;
+    full_name: string | null;
+    avatar_url: string | null;
+  } | null;
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface RecurringTransaction {
+  id: string;
+  group_id: string;
+  created_by: string;
+  description: string;
+  amount: number;
+  currency: string;
+  category?: string | null;
+  paid_by_participant_id: string;
+  split_mode: SplitMode;
+  split_among_participant_ids: string[];
+  split_values?: SplitValue[] | null;
+  frequency: RecurrenceFrequency;
+  interval_count: number; // Repeats every interval_count days/weeks/months/years
+  start_date: string; // YYYY-MM-DD
+  end_date?: string | null; // YYYY-MM-DD, null repeats indefinitely
+  next_occurrence_date: string; // YYYY-MM-DD
+  occurrence_count: number;
+  status: 'active' | 'paused' | 'ended';
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type MembershipAction =
+  | 'member_added'
+  | 'member_left'
+  | 'member_removed'
+  | 'member_reactivated'
+  | 'invite_created'
+  | 'invite_cancelled'
+  | 'invite_accepted';
+
+export type GroupActivityAction = MembershipAction | 'reminder_sent';
+
 export interface ActivityItem {
   id: string;
-  type: 'transaction_created' | 'transaction_updated' | 'transaction_deleted' | 'settlement_created' | 'settlement_updated' | 'settlement_deleted';
+  type: 'transaction_created' | 'transaction_updated' | 'transaction_deleted' | 'transaction_restored' | 'settlement_created' | 'settlement_updated' | 'settlement_confirmed' | 'settlement_disputed' | 'settlement_deleted' | 'settlement_restored' | 'group_updated' | 'group_archived' | 'group_restored' | 'comment_created' | 'member_joined' | 'member_added' | 'member_left' | 'member_removed' | 'member_reactivated' | 'member_invited' | 'invitation_cancelled' | 'payment_reminder';
   transaction_id?: number;
   settlement_id?: string;
   group_id: string;
@@ -155,7 +425,7 @@ export interface ActivityItem {
   changed_at: string;
   description: string;
   details: {
-    action: 'created' | 'updated' | 'deleted';
+    action: 'created' | 'updated' | 'deleted' | 'archived' | 'restored' | GroupActivityAction;
     changes?: {
       [field: string]: {
         old: any;
@@ -164,12 +434,63 @@ export interface ActivityItem {
     };
     transaction?: Transaction;
     settlement?: Settlement;
+    group?: Group;
+    comment?: Pick<Comment, 'id' | 'body' | 'transaction_id' | 'settlement_id' | 'mentioned_participant_ids'>;
+    // The member joining, leaving, removed or invited (email only for invitations),
+    // or the participant reminded to pay
+    member?: {
+      user_id: string | null;
+      email: string | null;
+      full_name: string | null;
+    };
+    // What the reminded participant owed when the reminder was sent
+    reminder?: {
+      amounts: { amount: number; currency: string }[];
+    };
   };
+  // Inbox only
+  group_name?: string;
+  is_read?: boolean;
 }
 
 export interface ActivityFeedResponse {
   activities: ActivityItem[];
-  total: number;
+  next_cursor: string | null; // Pass back as cursor for the next page
   has_more: boolean;
+  unread_count?: number; // Inbox only
 }
 
+export type ActivityCategory = 'transaction' | 'settlement' | 'group' | 'comment' | 'member';
+
+// Server-side filters for GET /activity
+export interface ActivityFilters {
+  type?: string; // Comma-separated ActivityCategory values
+  actor_id?: string; // User who made the change
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  transaction_id?: number;
+  settlement_id?: string;
+}
+
+
+export type NotificationEventType = 'transactions' | 'settlements' | 'comments' | 'invitations';
+
+// Push notification settings; every event type is on until turned off
+export interface NotificationPreferences {
+  transactions: boolean;
+  settlements: boolean;
+  comments: boolean;
+  invitations: boolean;
+  weekly_digest: boolean; // Weekly email with each group's balance and new expenses
+  muted_group_ids: string[];
+}
+
+export interface PaymentReminder {
+  id: string;
+  group_id: string;
+  from_participant_id: string; // Participant of the member who sent it
+  to_participant_id: string; // Participant who owes money
+  sent_by: string;
+  amounts: { amount: number; currency: string }[];
+  created_at: string;
+}
@@ -6,4 +6,5 @@ export interface ApiErrorResponse {
   message?: string;
   details?: string;
   code?: string;
+  current?: unknown; // VERSION_CONFLICT: the server's current copy
 }
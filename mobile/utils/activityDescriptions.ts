@@ -1,5 +1,6 @@
 import { differenceInDays, format, parseISO, startOfDay } from 'date-fns';
 import { ActivityItem } from '../types';
+import { formatCurrency } from './currency';
 
 /**
  * Gets a display name for a user (full_name, email, or "You")
@@ -28,8 +29,42 @@ export function getActivityDescription(
   activity: ActivityItem,
   currentUserId?: string
 ): string {
-  // Use the description from backend, but we can enhance it here if needed
-  return activity.description;
+  const member = activity.details?.member;
+  if (!member) {
+    return activity.description;
+  }
+
+  // Membership events read better when they name the viewer as "you"
+  const isSelf = !!member.user_id && member.user_id === activity.changed_by.id;
+  const memberName = member.user_id
+    ? getUserDisplayName(member.user_id, member.email || '', currentUserId, member.full_name)
+    : member.email || 'someone';
+  const target = memberName === 'You' ? 'you' : memberName;
+
+  switch (activity.type) {
+    case 'member_joined':
+      return 'Joined the group';
+    case 'member_added':
+      return `Added ${target}`;
+    case 'member_reactivated':
+      return isSelf ? 'Rejoined the group' : `Re-added ${target}`;
+    case 'member_left':
+      return 'Left the group';
+    case 'member_removed':
+      return `Removed ${target}`;
+    case 'member_invited':
+      return `Invited ${target}`;
+    case 'invitation_cancelled':
+      return `Cancelled the invitation for ${target}`;
+    case 'payment_reminder': {
+      const owed = (activity.details.reminder?.amounts || [])
+        .map((a) => formatCurrency(a.amount, a.currency))
+        .join(' and ');
+      return owed ? `Reminded ${target} to pay ${owed}` : `Reminded ${target} to settle up`;
+    }
+    default:
+      return activity.description;
+  }
 }
 
 /**
@@ -38,15 +73,32 @@ export function getActivityDescription(
  */
 export function getActivityColor(type: ActivityItem['type']): string {
   // Action-based colors: consistent across transactions and settlements
-  if (type.endsWith('_created')) {
+  if (
+    type.endsWith('_created') ||
+    type.endsWith('_restored') ||
+    type === 'member_joined' ||
+    type === 'member_added' ||
+    type === 'member_reactivated' ||
+    type === 'member_invited' ||
+    type === 'settlement_confirmed'
+  ) {
     return '#4CAF50'; // Green - Something was added
   }
   if (type.endsWith('_updated')) {
     return '#FF9800'; // Orange - Something was changed
   }
-  if (type.endsWith('_deleted')) {
+  if (
+    type.endsWith('_deleted') ||
+    type === 'member_left' ||
+    type === 'member_removed' ||
+    type === 'invitation_cancelled' ||
+    type === 'settlement_disputed'
+  ) {
     return '#F44336'; // Red - Something was removed
   }
+  if (type === 'payment_reminder') {
+    return '#2196F3'; // Blue - A payment reminder was sent
+  }
   return '#757575'; // Gray - Fallback
 }
 
@@ -5,6 +5,9 @@ import { ApiErrorResponse } from "../types/api";
 const TOKEN_REFRESH_BUFFER_SECONDS = 60;
 const API_URL = process.env.EXPO_PUBLIC_API_URL;
 
+// Sent with creates so a retry of the same submission can't create a duplicate
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
 /**
  * Sanitizes error messages to remove sensitive information before showing to users
  */
@@ -154,7 +157,10 @@ export async function fetchWithAuth(
       userMessage = "Connection refused. Is the server running?";
     }
 
-    throw new Error(userMessage);
+    // Tagged so mutations can be queued for later instead of failing
+    const error: ApiError = new Error(userMessage);
+    error.code = "NETWORK_ERROR";
+    throw error;
   }
 
   if (response.status === 401) {
@@ -226,7 +232,22 @@ export async function fetchWithAuth(
   }
 
   if (response.status === 429) {
-    throw new Error("Too many requests. Please wait a moment and try again.");
+    // Prefer the server's message, e.g. when a reminder was already sent
+    let errorData: ApiErrorResponse | null = null;
+    try {
+      const responseText = await response.text();
+      if (responseText) {
+        errorData = JSON.parse(responseText) as ApiErrorResponse;
+      }
+    } catch {
+      // Ignore parse errors
+    }
+
+    throw new Error(
+      errorData?.error && errorData.error !== "Too many requests"
+        ? sanitizeErrorMessage(errorData.error)
+        : "Too many requests. Please wait a moment and try again."
+    );
   }
 
   if (!response.ok) {
@@ -254,9 +275,39 @@ export async function fetchWithAuth(
     // Remove potentially sensitive information like stack traces, file paths, etc.
     const sanitizedMessage = sanitizeErrorMessage(rawErrorMessage);
 
-    throw new Error(sanitizedMessage);
+    const error: ApiError = new Error(sanitizedMessage);
+    error.status = response.status;
+    error.code = errorData?.code;
+    if (errorData?.code === "VERSION_CONFLICT") {
+      error.current = errorData.current;
+    }
+    throw error;
   }
 
   return response;
 }
 
+/**
+ * What fetchWithAuth adds to the errors it throws
+ */
+export interface ApiError extends Error {
+  status?: number; // HTTP status of a failed response
+  code?: string; // Server error code, or NETWORK_ERROR / UPGRADE_REQUIRED
+  current?: unknown; // VERSION_CONFLICT: the server's current copy
+}
+
+/**
+ * True when the request never reached the server (offline, timeout, DNS)
+ */
+export function isNetworkError(error: unknown): boolean {
+  return (error as ApiError | undefined)?.code === "NETWORK_ERROR";
+}
+
+/**
+ * The server's current copy when an edit was rejected because someone else
+ * saved first, otherwise null
+ */
+export function getVersionConflict<T>(error: unknown): T | null {
+  const apiError = error as ApiError | undefined;
+  return apiError?.code === "VERSION_CONFLICT" ? ((apiError.current as T) ?? null) : null;
+}
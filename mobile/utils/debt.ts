@@ -1,4 +1,4 @@
-import { Balance } from "../types";
+import { Balance, GroupBalance } from "../types";
 
 export type DebtEdge = {
   fromUser: Balance;
@@ -7,89 +7,28 @@ export type DebtEdge = {
   currency: string;
 };
 
-// Greedy debt simplification algorithm
-export function simplifyDebts(
-  balances: Balance[],
-  currentUserId: string | undefined, // Allow undefined regarding "You" node construction but strictly logic works on user_ids
-  defaultCurrency: string,
-  currentParticipantId?: string
-): DebtEdge[] {
-  const byCurrency = new Map<string, Balance[]>();
-  // Create a copy to allow mutation during the greedy pairing process
-  const balancesCopy = balances.map(b => ({ ...b, amount: b.amount }));
-  
-  const addBalance = (b: Balance) => {
-    const list = byCurrency.get(b.currency) || [];
-    list.push(b);
-    byCurrency.set(b.currency, list);
-  };
-  balancesCopy.forEach(addBalance);
+// Resolves the server's suggested transfers (GET /balances?simplify=true)
+// into edges carrying each participant's enriched balance for display
+export function toDebtEdges(groupBalance?: GroupBalance): DebtEdge[] {
+  if (!groupBalance?.simplified_debts) return [];
 
-  const edges: DebtEdge[] = [];
-
-  byCurrency.forEach((currencyBalances, currency) => {
-    const sumOthers = currencyBalances.reduce((sum, b) => sum + b.amount, 0);
-    
-    // If currentUserId is provided, we can add a "You" node if implied.
-    // However, if the balances list is EXHAUSTIVE (contains all members including current user),
-    // we don't need to infer.
-    // In GroupDashboard, `balances` came from API which usually EXCLUDES current user?
-    // Let's check: `balancesData.group_balances[0].balances` usually excludes the viewer?
-    // Wait. If API returns "Balances relative to User", then User is 0?
-    // Actually `balances` in dashboard logic:
-    // `const myBalanceAmount = -sumOthers;`
-    // It assumes the LIST excludes self, and self is the remainder.
-    // I should preserve this behavior for now.
-    
-    const allBalances = [...currencyBalances];
-    if (currentUserId && Math.abs(sumOthers) > 0.01) {
-       // Check if the current user is already in the list
-       const userInList = allBalances.some(b => b.user_id === currentUserId);
-       
-       if (!userInList) {
-          // Only add "You" if the sum is not zero and user is missing
-          const myBalanceAmount = -sumOthers;
-          if (Math.abs(myBalanceAmount) > 0.01) {
-               allBalances.push({
-                   user_id: currentUserId,
-                   participant_id: currentParticipantId,
-                   amount: myBalanceAmount,
-                   currency: currency,
-                   full_name: "You",
-               } as Balance);
-          }
-       }
-    }
-
-    const debtors = allBalances
-      .filter((b) => b.amount < -0.01)
-      .sort((a, b) => a.amount - b.amount);
-    const creditors = allBalances
-      .filter((b) => b.amount > 0.01)
-      .sort((a, b) => b.amount - a.amount);
-
-    let i = 0;
-    let j = 0;
-
-    while (i < debtors.length && j < creditors.length) {
-      const debtor = debtors[i];
-      const creditor = creditors[j];
-      const amount = Math.min(Math.abs(debtor.amount), creditor.amount);
-
-      edges.push({
-        fromUser: debtor,
-        toUser: creditor,
-        amount: amount,
-        currency: currency,
-      });
-
-      debtor.amount += amount;
-      creditor.amount -= amount;
-
-      if (Math.abs(debtor.amount) < 0.01) i++;
-      if (creditor.amount < 0.01) j++;
-    }
+  const byParticipant = new Map<string, Balance>();
+  groupBalance.balances.forEach((b) => {
+    if (b.participant_id) byParticipant.set(b.participant_id, b);
   });
 
-  return edges;
+  const resolve = (participantId: string, currency: string): Balance =>
+    byParticipant.get(participantId) || {
+      user_id: "",
+      participant_id: participantId,
+      amount: 0,
+      currency,
+    };
+
+  return groupBalance.simplified_debts.map((debt) => ({
+    fromUser: resolve(debt.from_participant_id, debt.currency),
+    toUser: resolve(debt.to_participant_id, debt.currency),
+    amount: debt.amount,
+    currency: debt.currency,
+  }));
 }
@@ -0,0 +1,11 @@
+// Settle-up links in payment reminder emails, e.g.
+// com.vaibhavarora.sharemoney://settle-up?group_id=<uuid>
+const SETTLE_UP_LINK = /settle-up\?(?:[^#]*&)?group_id=([0-9a-f-]{36})/i;
+
+/**
+ * Returns the group of a settle-up link, or null for any other URL
+ */
+export function getSettleUpGroupId(url: string | null): string | null {
+  if (!url) return null;
+  return url.match(SETTLE_UP_LINK)?.[1] ?? null;
+}
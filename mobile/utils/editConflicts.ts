@@ -0,0 +1,137 @@
+import { Settlement, Transaction } from "../types";
+
+/**
+ * Comparing versions when an edit is rejected because someone else saved
+ * first (VERSION_CONFLICT). Fields are grouped the way the forms edit them,
+ * so splits or payers count as one change.
+ */
+
+export type TransactionFieldGroup =
+  | "description"
+  | "amount"
+  | "date"
+  | "type"
+  | "category"
+  | "currency"
+  | "payers"
+  | "splits";
+
+export type SettlementFieldGroup = "amount" | "currency" | "notes";
+
+export const TRANSACTION_FIELD_GROUP_LABELS: Record<TransactionFieldGroup, string> = {
+  description: "Description",
+  amount: "Amount",
+  date: "Date",
+  type: "Type",
+  category: "Category",
+  currency: "Currency",
+  payers: "Paid by",
+  splits: "Splits",
+};
+
+export const SETTLEMENT_FIELD_GROUP_LABELS: Record<SettlementFieldGroup, string> = {
+  amount: "Amount",
+  currency: "Currency",
+  notes: "Notes",
+};
+
+const byFirst = (a: unknown[], b: unknown[]) => String(a[0]).localeCompare(String(b[0]));
+
+// Works on server copies (splits) and form data (split_values) alike
+function splitsKey(tx: Partial<Transaction>): unknown {
+  const mode = tx.split_mode || "equal";
+  const hasValues = mode !== "equal" && mode !== "itemized";
+  const shares = tx.split_values
+    ? tx.split_values.map((v) => [v.participant_id, Number(v.value)])
+    : tx.splits && tx.splits.length > 0
+      ? tx.splits.map((s) => [s.participant_id, hasValues ? Number(s.share_value) : null])
+      : (tx.split_among_participant_ids || []).map((id) => [id, null]);
+  const items = mode === "itemized"
+    ? (tx.items || []).map((item) => [item.name, Number(item.unit_price), Number(item.quantity), [...item.participant_ids].sort()])
+    : [];
+  return [
+    mode,
+    shares.sort(byFirst),
+    items,
+    mode === "itemized" ? Number(tx.tax_amount) || 0 : 0,
+    mode === "itemized" ? Number(tx.tip_amount) || 0 : 0,
+  ];
+}
+
+function payersKey(tx: Partial<Transaction>): unknown {
+  return tx.payers && tx.payers.length > 1
+    ? tx.payers.map((p) => [p.participant_id, Number(p.amount)]).sort(byFirst)
+    : tx.paid_by_participant_id || null;
+}
+
+const TRANSACTION_KEYS: Record<TransactionFieldGroup, (tx: Partial<Transaction>) => unknown> = {
+  description: (tx) => (tx.description || "").trim(),
+  amount: (tx) => Number(tx.amount),
+  date: (tx) => tx.date || "",
+  type: (tx) => tx.type || "expense",
+  category: (tx) => [tx.category_id || null, tx.category_id ? null : tx.category || null],
+  currency: (tx) => tx.currency || "",
+  payers: payersKey,
+  splits: splitsKey,
+};
+
+const SETTLEMENT_KEYS: Record<SettlementFieldGroup, (s: Partial<Settlement>) => unknown> = {
+  amount: (s) => Number(s.amount),
+  currency: (s) => s.currency || "",
+  notes: (s) => (s.notes || "").trim(),
+};
+
+function changedGroups<T, G extends string>(keys: Record<G, (value: T) => unknown>, from: T, to: T): G[] {
+  return (Object.keys(keys) as G[]).filter(
+    (group) => JSON.stringify(keys[group](from)) !== JSON.stringify(keys[group](to))
+  );
+}
+
+export function getChangedTransactionFields(from: Partial<Transaction>, to: Partial<Transaction>): TransactionFieldGroup[] {
+  return changedGroups(TRANSACTION_KEYS, from, to);
+}
+
+export function getChangedSettlementFields(from: Partial<Settlement>, to: Partial<Settlement>): SettlementFieldGroup[] {
+  return changedGroups(SETTLEMENT_KEYS, from, to);
+}
+
+export interface EditConflict<G extends string> {
+  theirs: G[]; // Changed on the server since the form was opened
+  both: G[]; // Changed on the server and in the form
+  merged: G[]; // Theirs to take when merging: changed on the server only
+}
+
+/**
+ * Three-way comparison of the copy the form opened with, the form's edits
+ * and the server's current copy
+ */
+export function compareEdits<T, G extends string>(
+  getChanged: (from: T, to: T) => G[],
+  base: T,
+  mine: T,
+  current: T
+): EditConflict<G> {
+  const theirs = getChanged(base, current);
+  const changedByMe = new Set(getChanged(base, mine));
+  return {
+    theirs,
+    both: theirs.filter((group) => changedByMe.has(group)),
+    merged: theirs.filter((group) => !changedByMe.has(group)),
+  };
+}
+
+/**
+ * Alert text explaining a conflict and what merging does
+ */
+export function describeEditConflict<G extends string>(conflict: EditConflict<G>, labels: Record<G, string>): string {
+  const list = (groups: G[]) => groups.map((group) => labels[group]).join(", ");
+  const lines = ["Someone else saved changes while you were editing."];
+  if (conflict.theirs.length > 0) {
+    lines.push(`They changed: ${list(conflict.theirs)}.`);
+  }
+  if (conflict.both.length > 0) {
+    lines.push(`You both changed ${list(conflict.both)}; merging keeps yours.`);
+  }
+  lines.push("Merge to load their changes into the form, or overwrite to save yours as they are.");
+  return lines.join("\n\n");
+}
@@ -0,0 +1,442 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Settlement, SettlementsResponse, Transaction, TransactionHistoryResponse } from "../types";
+import { ApiError, fetchWithAuth, IDEMPOTENCY_KEY_HEADER, isNetworkError } from "./api";
+import { logError } from "./logger";
+
+const STORAGE_KEY_PREFIX = "offlineMutationQueue";
+
+export type QueuedResource = "transaction" | "settlement";
+// Request body of a queued create or update, as the mutation hooks send it
+export type QueuedPayload = Partial<Transaction> | Partial<Settlement>;
+export type QueuedAction = "create" | "update" | "delete";
+
+/**
+ * A transaction or settlement change made while offline (or while earlier
+ * changes were still waiting), replayed against the server in queue order
+ */
+export interface QueuedMutation {
+  id: string; // Client-generated, stays the same across retries; the Idempotency-Key of creates
+  resource: QueuedResource;
+  action: QueuedAction;
+  groupId?: string;
+  targetId?: number | string; // Server id, or the temporary id of a queued create
+  payload?: QueuedPayload; // Request body of creates and updates
+  baseVersion?: number; // Edits and transaction deletes: the server version they were made against
+  queuedAt: string;
+  force?: boolean; // Apply even though someone else changed the target meanwhile
+  attempted?: boolean; // Sent at least once, so the server may have it under this id's key
+}
+
+export type SyncConflictReason = "deleted" | "changed" | "rejected";
+
+export interface SyncConflict {
+  mutation: QueuedMutation;
+  reason: SyncConflictReason;
+  message?: string; // Server error of a rejected change
+  detectedAt: string;
+}
+
+export interface OfflineQueueState {
+  mutations: QueuedMutation[];
+  conflicts: SyncConflict[];
+  syncedIds: Record<string, number | string>; // Temporary id -> server id of synced creates
+  syncedVersions: Record<string, number>; // Queued target id -> server version after its last synced change
+}
+
+export interface ReplayResult {
+  synced: QueuedMutation[];
+  conflicts: SyncConflict[];
+  interrupted: boolean; // Stopped early; the rest is retried on the next sync
+}
+
+type TargetState = "unchanged" | "changed" | "deleted";
+
+let state: OfflineQueueState = { mutations: [], conflicts: [], syncedIds: {}, syncedVersions: {} };
+let storageKey: string | null = null;
+let replaying: Promise<ReplayResult> | null = null;
+let lastTemporaryId = 0;
+const listeners = new Set<() => void>();
+
+function setState(next: OfflineQueueState) {
+  state = next;
+  listeners.forEach((listener) => listener());
+  if (storageKey) {
+    AsyncStorage.setItem(storageKey, JSON.stringify(state)).catch((error) =>
+      logError(error, { context: "Saving offline queue" })
+    );
+  }
+}
+
+export function getOfflineQueueState(): OfflineQueueState {
+  return state;
+}
+
+export function subscribeToOfflineQueue(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Switches to the signed-in user's queue; each user's pending changes are
+ * kept separately and come back when they sign in again
+ */
+export async function loadOfflineQueue(userId: string | null): Promise<void> {
+  storageKey = userId ? `${STORAGE_KEY_PREFIX}:${userId}` : null;
+
+  let loaded: OfflineQueueState = { mutations: [], conflicts: [], syncedIds: {}, syncedVersions: {} };
+  if (storageKey) {
+    try {
+      const stored = await AsyncStorage.getItem(storageKey);
+      if (stored) loaded = { ...loaded, ...JSON.parse(stored) };
+    } catch (error) {
+      logError(error, { context: "Loading offline queue" });
+    }
+  }
+
+  state = loaded;
+  listeners.forEach((listener) => listener());
+}
+
+export function hasQueuedMutations(): boolean {
+  return state.mutations.length > 0;
+}
+
+export function createClientId(): string {
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (char) => {
+    const random = (Math.random() * 16) | 0;
+    return (char === "x" ? random : (random & 0x3) | 0x8).toString(16);
+  });
+}
+
+// Transactions have integer ids, so queued ones get negative ones. Each is
+// below the last, so creates queued in the same millisecond don't share one.
+function createTemporaryId(resource: QueuedResource): number | string {
+  if (resource !== "transaction") return `local-${createClientId()}`;
+  lastTemporaryId = Math.min(lastTemporaryId - 1, -Date.now());
+  return lastTemporaryId;
+}
+
+export function isTemporaryId(id: number | string | undefined | null): boolean {
+  return typeof id === "number" ? id < 0 : typeof id === "string" && id.startsWith("local-");
+}
+
+/**
+ * Adds a change to the end of the queue. Edits and deletes of a create that
+ * hasn't been sent yet are folded into it instead; once sent, its request
+ * body has to stay the same for the Idempotency-Key to match.
+ */
+export function enqueueMutation(
+  input: Omit<QueuedMutation, "id" | "queuedAt">,
+  id: string = createClientId()
+): QueuedMutation {
+  const pendingCreate = input.action !== "create"
+    ? state.mutations.find((m) =>
+        m.action === "create" &&
+        m.resource === input.resource &&
+        m.targetId === input.targetId &&
+        !m.attempted
+      )
+    : undefined;
+
+  if (pendingCreate && input.action === "delete") {
+    setState({
+      ...state,
+      mutations: state.mutations.filter((m) => m.targetId !== input.targetId),
+    });
+    return pendingCreate;
+  }
+
+  if (pendingCreate) {
+    const { id: _id, version: _version, ...changes } = input.payload || {};
+    const merged = { ...pendingCreate, payload: { ...pendingCreate.payload, ...changes } };
+    setState({
+      ...state,
+      mutations: state.mutations.map((m) => (m.id === pendingCreate.id ? merged : m)),
+    });
+    return merged;
+  }
+
+  // Only the first queued change of an item is checked against what it was made
+  // from; later ones build on it (see baseVersionOf)
+  const alreadyQueued = state.mutations.some(
+    (m) => m.resource === input.resource && m.targetId === input.targetId
+  );
+
+  const mutation: QueuedMutation = {
+    ...input,
+    id,
+    targetId: input.action === "create" ? createTemporaryId(input.resource) : input.targetId,
+    baseVersion: alreadyQueued ? undefined : input.baseVersion,
+    queuedAt: new Date().toISOString(),
+  };
+  setState({ ...state, mutations: [...state.mutations, mutation] });
+  return mutation;
+}
+
+/**
+ * Sends a change right away, or queues it when offline or when earlier
+ * changes are still waiting (so they reach the server in order). `send` gets
+ * the key to send as Idempotency-Key; a queued create keeps it, so the server
+ * can tell if the first attempt got through after all.
+ */
+export async function sendOrQueue(
+  input: Omit<QueuedMutation, "id" | "queuedAt">,
+  send: (idempotencyKey: string) => Promise<Response>
+): Promise<{ response: Response; queued: null } | { response: null; queued: QueuedMutation }> {
+  const id = createClientId();
+  if (hasQueuedMutations()) {
+    return { response: null, queued: enqueueMutation(input, id) };
+  }
+
+  try {
+    return { response: await send(id), queued: null };
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    return { response: null, queued: enqueueMutation({ ...input, attempted: true }, id) };
+  }
+}
+
+// The server's current version of an edit's target; null once it's gone
+async function fetchCurrentVersion(mutation: QueuedMutation, targetId: number | string): Promise<number | null> {
+  if (mutation.resource === "transaction") {
+    try {
+      const response = await fetchWithAuth(`/transactions/${targetId}/history`);
+      return ((await response.json()) as TransactionHistoryResponse).transaction_version;
+    } catch (error) {
+      if ((error as ApiError | undefined)?.status === 404) return null;
+      throw error;
+    }
+  }
+
+  const params = new URLSearchParams({ id: String(targetId) });
+  if (mutation.groupId) params.set("group_id", mutation.groupId);
+  const response = await fetchWithAuth(`/settlements?${params.toString()}`);
+  const { settlements }: SettlementsResponse = await response.json();
+  return settlements[0]?.version ?? null;
+}
+
+// The server version a queued change is based on: its own, or the one the
+// queued change of the same item before it left behind when it synced
+function baseVersionOf(mutation: QueuedMutation): number | undefined {
+  return mutation.baseVersion ?? state.syncedVersions[String(mutation.targetId)];
+}
+
+async function checkTarget(mutation: QueuedMutation, targetId: number | string): Promise<TargetState> {
+  const version = await fetchCurrentVersion(mutation, targetId);
+  if (version === null) return "deleted";
+  // Settlement deletes aren't made against a version, only the target has to be there
+  if (mutation.resource === "settlement" && mutation.action === "delete") return "unchanged";
+  return version === baseVersionOf(mutation) ? "unchanged" : "changed";
+}
+
+function endpointFor(resource: QueuedResource): string {
+  return resource === "transaction" ? "/transactions" : "/settlements";
+}
+
+// Sends one queued change (an edit based on `version`); returns the server
+// id and version it leaves behind
+async function sendMutation(
+  mutation: QueuedMutation,
+  targetId?: number | string,
+  version?: number
+): Promise<{ id?: number | string; version?: number }> {
+  const endpoint = endpointFor(mutation.resource);
+
+  if (mutation.action === "delete") {
+    await fetchWithAuth(`${endpoint}?id=${targetId}`, { method: "DELETE" });
+    return {};
+  }
+
+  const response = await fetchWithAuth(endpoint, {
+    method: mutation.action === "create" ? "POST" : "PUT",
+    body: JSON.stringify(mutation.action === "create" ? mutation.payload : { ...mutation.payload, id: targetId, version }),
+    headers: mutation.action === "create" ? { [IDEMPOTENCY_KEY_HEADER]: mutation.id } : undefined,
+  });
+
+  const data = await response.json();
+  const saved: Transaction | Settlement = mutation.resource === "transaction" ? data : data.settlement;
+  return { id: saved.id, version: saved.version };
+}
+
+function resolveTargetId(mutation: QueuedMutation): number | string | undefined {
+  const { targetId } = mutation;
+  if (targetId === undefined || !isTemporaryId(targetId)) return targetId;
+  return state.syncedIds[String(targetId)];
+}
+
+async function runReplay(): Promise<ReplayResult> {
+  const synced: QueuedMutation[] = [];
+  const conflicts: SyncConflict[] = [];
+
+  const settle = (
+    mutation: QueuedMutation,
+    conflict?: Omit<SyncConflict, "mutation" | "detectedAt">,
+    saved: { id?: number | string; version?: number } = {}
+  ) => {
+    const entry = conflict && { ...conflict, mutation, detectedAt: new Date().toISOString() };
+    if (entry) conflicts.push(entry);
+    else synced.push(mutation);
+
+    const mutations = state.mutations.filter((m) => m.id !== mutation.id);
+    const key = String(mutation.targetId);
+    const syncedIds = mutation.action === "create" && saved.id !== undefined
+      ? { ...state.syncedIds, [key]: saved.id }
+      : state.syncedIds;
+    const syncedVersions = saved.version !== undefined
+      ? { ...state.syncedVersions, [key]: saved.version }
+      : state.syncedVersions;
+    setState({
+      mutations,
+      conflicts: entry ? [...state.conflicts, entry] : state.conflicts,
+      // Nothing left can refer to a queued change once the queue is empty
+      syncedIds: mutations.length > 0 ? syncedIds : {},
+      syncedVersions: mutations.length > 0 ? syncedVersions : {},
+    });
+  };
+
+  while (state.mutations.length > 0) {
+    const mutation = state.mutations[0];
+
+    try {
+      const targetId = mutation.action === "create" ? undefined : resolveTargetId(mutation);
+      if (mutation.action !== "create" && targetId === undefined) {
+        // Its create never reached the server
+        settle(mutation, { reason: "deleted" });
+        continue;
+      }
+
+      if (mutation.action !== "create" && !mutation.force) {
+        const target = await checkTarget(mutation, targetId!);
+
+        if (target === "deleted" && mutation.action === "delete") {
+          settle(mutation);
+          continue;
+        }
+        if (target !== "unchanged") {
+          settle(mutation, { reason: target });
+          continue;
+        }
+      }
+
+      // An edit applied anyway overwrites whatever the server has now
+      let version: number | undefined;
+      if (mutation.action === "update") {
+        const baseVersion = mutation.force
+          ? await fetchCurrentVersion(mutation, targetId!)
+          : baseVersionOf(mutation);
+        if (baseVersion === null) {
+          settle(mutation, { reason: "deleted" });
+          continue;
+        }
+        if (baseVersion === undefined) {
+          // Builds on a queued edit that didn't go through
+          settle(mutation, { reason: "changed" });
+          continue;
+        }
+        version = baseVersion;
+      }
+
+      if (mutation.action === "create" && !mutation.attempted) {
+        setState({
+          ...state,
+          mutations: state.mutations.map((m) => (m.id === mutation.id ? { ...m, attempted: true } : m)),
+        });
+      }
+      settle(mutation, undefined, await sendMutation(mutation, targetId, version));
+    } catch (error) {
+      const { status, code } = (error ?? {}) as ApiError;
+      // Offline, signed out, rate limited, a server fault or an earlier attempt
+      // still running: try again later
+      if (isNetworkError(error) || !status || status >= 500 || code === "IDEMPOTENCY_KEY_IN_USE") {
+        return { synced, conflicts, interrupted: true };
+      }
+      settle(mutation, {
+        reason: status === 404 ? "deleted" : code === "VERSION_CONFLICT" ? "changed" : "rejected",
+        message: error instanceof Error ? error.message : undefined,
+      });
+    }
+  }
+
+  return { synced, conflicts, interrupted: false };
+}
+
+/**
+ * Replays queued changes in order until the queue is empty or the server
+ * can't be reached. Only one replay runs at a time.
+ */
+export function replayOfflineQueue(): Promise<ReplayResult> {
+  if (!replaying) {
+    replaying = runReplay().finally(() => {
+      replaying = null;
+    });
+  }
+  return replaying;
+}
+
+/**
+ * Queues a conflicting change again. One that conflicted with someone else's
+ * change is then applied over whatever the server has; a rejected one is
+ * simply retried.
+ */
+export function retryConflict(conflict: SyncConflict) {
+  setState({
+    ...state,
+    mutations: [...state.mutations, { ...conflict.mutation, force: conflict.mutation.force || conflict.reason === "changed" }],
+    conflicts: state.conflicts.filter((c) => c.mutation.id !== conflict.mutation.id),
+  });
+}
+
+export function discardConflict(conflict: SyncConflict) {
+  setState({
+    ...state,
+    conflicts: state.conflicts.filter((c) => c.mutation.id !== conflict.mutation.id),
+  });
+}
+
+/**
+ * Shows a group's queued transaction changes on top of the server's list:
+ * queued creates first, edits merged in, deletes removed
+ */
+export function applyQueuedTransactions(
+  transactions: Transaction[],
+  mutations: QueuedMutation[],
+  groupId: string
+): Transaction[] {
+  return mutations
+    .filter((m) => m.resource === "transaction" && m.groupId === groupId)
+    .reduce((result, m) => {
+      if (m.action === "create") {
+        return [{ ...(m.payload as Transaction), id: m.targetId as number, pending_sync: true }, ...result];
+      }
+      if (m.action === "update") {
+        return result.map((tx) =>
+          tx.id === m.targetId ? { ...tx, ...(m.payload as Partial<Transaction>), id: tx.id, pending_sync: true } : tx
+        );
+      }
+      return result.filter((tx) => tx.id !== m.targetId);
+    }, transactions);
+}
+
+/**
+ * Shows a group's queued settlement edits and deletes on top of the server's
+ * list; queued settlements only appear once synced
+ */
+export function applyQueuedSettlements(
+  settlements: Settlement[],
+  mutations: QueuedMutation[],
+  groupId: string
+): Settlement[] {
+  return mutations
+    .filter((m) => m.resource === "settlement" && m.groupId === groupId)
+    .reduce((result, m) => {
+      if (m.action === "update") {
+        return result.map((s) => (s.id === m.targetId ? { ...s, ...(m.payload as Partial<Settlement>), id: s.id } : s));
+      }
+      if (m.action === "delete") {
+        return result.filter((s) => s.id !== m.targetId);
+      }
+      return result;
+    }, settlements);
+}
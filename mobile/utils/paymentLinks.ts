@@ -0,0 +1,43 @@
+export interface PaymentLinkRequest {
+  payeeName: string;
+  amount: number;
+  currency: string;
+  note?: string;
+}
+
+// UPI only moves rupees
+export function canPayWithUpi(currency: string): boolean {
+  return currency.toUpperCase() === "INR";
+}
+
+/**
+ * Builds a UPI intent link (NPCI linking spec) that opens the payer's UPI app
+ * with the payee, amount and note filled in
+ */
+export function buildUpiLink(vpa: string, request: PaymentLinkRequest): string {
+  const params = [
+    ["pa", vpa],
+    ["pn", request.payeeName],
+    ["am", request.amount.toFixed(2)],
+    ["cu", request.currency.toUpperCase()],
+    ...(request.note ? [["tn", request.note.slice(0, 80)]] : []),
+  ];
+  return `upi://pay?${params
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join("&")}`;
+}
+
+/**
+ * Builds a PayPal.me link for the amount. PayPal.me has no field for a note,
+ * so the payer adds one in PayPal if they want.
+ */
+export function buildPayPalLink(username: string, request: PaymentLinkRequest): string {
+  return `https://paypal.me/${encodeURIComponent(username)}/${request.amount.toFixed(2)}${request.currency.toUpperCase()}`;
+}
+
+/**
+ * Groups an IBAN into blocks of four for reading
+ */
+export function formatIban(iban: string): string {
+  return iban.replace(/(.{4})/g, "$1 ").trim();
+}
@@ -0,0 +1,68 @@
+import Constants from "expo-constants";
+import * as Device from "expo-device";
+import * as Notifications from "expo-notifications";
+import { Platform } from "react-native";
+import { fetchWithAuth } from "./api";
+import { logError } from "./logger";
+
+// Show pushes that arrive while the app is open
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+// Token registered for the signed-in user, removed again on sign-out
+let registeredToken: string | null = null;
+
+/**
+ * Asks for permission and registers this device's Expo push token for the
+ * signed-in user. Resolves with null on web, simulators, or when the user
+ * declines.
+ */
+export async function registerForPushNotifications(): Promise<string | null> {
+  if (Platform.OS === "web" || !Device.isDevice) return null;
+
+  if (Platform.OS === "android") {
+    await Notifications.setNotificationChannelAsync("default", {
+      name: "Default",
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+  }
+
+  const existing = await Notifications.getPermissionsAsync();
+  const permission = existing.granted ? existing : await Notifications.requestPermissionsAsync();
+  if (!permission.granted) return null;
+
+  const projectId = Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId;
+  const { data: token } = await Notifications.getExpoPushTokenAsync({ projectId });
+
+  await fetchWithAuth("/notifications/tokens", {
+    method: "POST",
+    body: JSON.stringify({ token, platform: Platform.OS }),
+  });
+
+  registeredToken = token;
+  return token;
+}
+
+/**
+ * Stops pushes to this device. Call before signing out, while the session
+ * is still valid.
+ */
+export async function unregisterPushNotifications(): Promise<void> {
+  if (!registeredToken) return;
+
+  const token = registeredToken;
+  registeredToken = null;
+  try {
+    await fetchWithAuth(`/notifications/tokens?token=${encodeURIComponent(token)}`, {
+      method: "DELETE",
+    });
+  } catch (error) {
+    logError(error, { context: "unregisterPushNotifications" });
+  }
+}
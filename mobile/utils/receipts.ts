@@ -0,0 +1,51 @@
+import * as ImagePicker from "expo-image-picker";
+import { ReceiptUpload } from "../types";
+
+// Matches the receipts bucket limit on the server
+export const MAX_RECEIPT_BYTES = 5 * 1024 * 1024;
+export const MAX_RECEIPTS_PER_TRANSACTION = 5;
+
+export type ReceiptSource = "camera" | "library";
+
+/**
+ * Lets the user take or choose a receipt photo.
+ * Resolves with null when cancelled; throws when permission is denied
+ * or the image is too large to upload.
+ */
+export async function pickReceiptImage(source: ReceiptSource): Promise<ReceiptUpload | null> {
+  const permission = source === "camera"
+    ? await ImagePicker.requestCameraPermissionsAsync()
+    : await ImagePicker.requestMediaLibraryPermissionsAsync();
+  if (!permission.granted) {
+    throw new Error(
+      source === "camera"
+        ? "Camera access is needed to photograph receipts"
+        : "Photo library access is needed to attach receipts"
+    );
+  }
+
+  const options: ImagePicker.ImagePickerOptions = {
+    mediaTypes: ["images"],
+    base64: true,
+    quality: 0.6, // Receipts stay readable well below full quality
+  };
+  const result = source === "camera"
+    ? await ImagePicker.launchCameraAsync(options)
+    : await ImagePicker.launchImageLibraryAsync(options);
+
+  const asset = result.canceled ? null : result.assets[0];
+  if (!asset?.base64) return null;
+
+  // Base64 is 4 characters per 3 bytes
+  if (Math.floor((asset.base64.length * 3) / 4) > MAX_RECEIPT_BYTES) {
+    throw new Error("Receipt image is too large (max 5MB)");
+  }
+
+  const contentType = asset.mimeType || "image/jpeg";
+  return {
+    uri: asset.uri,
+    file_name: asset.fileName || `receipt.${contentType.split("/")[1] || "jpg"}`,
+    content_type: contentType,
+    data: asset.base64,
+  };
+}
@@ -0,0 +1,32 @@
+import { File, Paths } from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import { Platform } from "react-native";
+
+/**
+ * Shares a generated text file. On native the file is written to the cache
+ * directory and handed to the share sheet; on web it is downloaded.
+ */
+export async function shareTextFile(
+  content: string,
+  fileName: string,
+  mimeType: string
+): Promise<void> {
+  if (Platform.OS === "web") {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error("Sharing is not available on this device");
+  }
+
+  const file = new File(Paths.cache, fileName);
+  file.create({ overwrite: true });
+  file.write(content);
+  await Sharing.shareAsync(file.uri, { mimeType, dialogTitle: fileName });
+}
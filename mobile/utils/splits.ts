@@ -0,0 +1,112 @@
+import { SplitMode, TransactionItem } from "../types";
+
+// Itemized splits have their own editor, so they aren't offered here
+export const SPLIT_MODE_OPTIONS: { value: SplitMode; label: string }[] = [
+  { value: "equal", label: "Equal" },
+  { value: "exact", label: "Exact" },
+  { value: "percentage", label: "%" },
+  { value: "shares", label: "Shares" },
+];
+
+export type SplitPreview = {
+  amounts: Record<string, number>; // participant_id -> amount owed
+  remainingAmount: number; // Amount not yet allocated (exact/percentage)
+  remainingPercentage: number; // Percentage not yet allocated (percentage only)
+  totalShares: number; // Sum of share counts (shares only)
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Mirrors the server's split calculation so the form can show what each
+// person will owe before saving. Rounding remainder goes to the first participant.
+export function calculateSplitPreview(
+  totalAmount: number,
+  mode: SplitMode,
+  participantIds: string[],
+  values: Record<string, number>
+): SplitPreview {
+  const amounts: Record<string, number> = {};
+  const preview: SplitPreview = {
+    amounts,
+    remainingAmount: 0,
+    remainingPercentage: 0,
+    totalShares: 0,
+  };
+  if (participantIds.length === 0 || !(totalAmount > 0)) {
+    return preview;
+  }
+
+  if (mode === "exact") {
+    let allocated = 0;
+    participantIds.forEach((id) => {
+      amounts[id] = round2(values[id] || 0);
+      allocated += amounts[id];
+    });
+    preview.remainingAmount = round2(totalAmount - allocated);
+    return preview;
+  }
+
+  const weights =
+    mode === "equal"
+      ? participantIds.map(() => 1)
+      : participantIds.map((id) => values[id] || 0);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+
+  if (mode === "percentage") {
+    preview.remainingPercentage = round2(100 - totalWeight);
+    preview.remainingAmount = round2((totalAmount * preview.remainingPercentage) / 100);
+  }
+  if (mode === "shares") {
+    preview.totalShares = totalWeight;
+  }
+  if (totalWeight <= 0) {
+    return preview;
+  }
+
+  // Percentages are applied against 100 so unallocated percent stays unallocated
+  const divisor = mode === "percentage" ? Math.max(totalWeight, 100) : totalWeight;
+  let allocated = 0;
+  participantIds.forEach((id, index) => {
+    amounts[id] = Math.floor((totalAmount * 100 * weights[index]) / divisor) / 100;
+    allocated += amounts[id];
+  });
+  if (mode !== "percentage" || preview.remainingPercentage === 0) {
+    const first = participantIds[0];
+    amounts[first] = round2(amounts[first] + round2(totalAmount - allocated));
+  }
+
+  return preview;
+}
+
+export type ItemizedPreview = {
+  amounts: Record<string, number>; // participant_id -> amount owed incl. tax and tip
+  itemsTotal: number;
+  total: number; // Items plus tax and tip
+};
+
+// Mirrors the server's itemized calculation: items are shared equally by their
+// participants, then tax and tip follow each participant's item subtotal.
+export function calculateItemizedPreview(
+  items: Pick<TransactionItem, "unit_price" | "quantity" | "participant_ids">[],
+  taxAmount: number,
+  tipAmount: number
+): ItemizedPreview {
+  const subtotals: Record<string, number> = {};
+  let itemsTotal = 0;
+  items.forEach((item) => {
+    const itemTotal = round2(item.unit_price * item.quantity);
+    const participantIds = [...new Set(item.participant_ids)];
+    itemsTotal += itemTotal;
+    participantIds.forEach((id) => {
+      subtotals[id] = (subtotals[id] || 0) + itemTotal / participantIds.length;
+    });
+  });
+
+  itemsTotal = round2(itemsTotal);
+  const total = round2(itemsTotal + taxAmount + tipAmount);
+  const participantIds = Object.keys(subtotals).filter((id) => subtotals[id] > 0);
+  // Subtotals act as share weights, like the server's weighted split
+  const { amounts } = calculateSplitPreview(total, "shares", participantIds, subtotals);
+
+  return { amounts, itemsTotal, total };
+}
@@ -32,10 +32,27 @@ interface SettlementSnapshot {
   amount: number;
   currency: string;
   notes?: string;
+  status?: 'pending' | 'confirmed' | 'disputed';
+  dispute_reason?: string | null;
   created_by: string;
   created_at: string;
 }
 
+interface GroupSnapshot {
+  id: string;
+  name: string;
+  archived_at?: string | null;
+}
+
+interface CommentSnapshot {
+  id: string;
+  body: string;
+  transaction_id: number | null;
+  settlement_id: string | null;
+  mentioned_participant_ids?: string[];
+  created_by: string;
+}
+
 interface ChangesDiff {
   [field: string]: {
     old: unknown;
@@ -44,17 +61,20 @@ interface ChangesDiff {
 }
 
 interface HistoryChanges {
-  action: 'created' | 'updated' | 'deleted';
+  action: 'created' | 'updated' | 'deleted' | 'archived' | 'restored';
   diff?: ChangesDiff;
   transaction?: TransactionSnapshot;
   settlement?: SettlementSnapshot;
   transaction_id?: number;
   settlement_id?: string;
+  comment?: CommentSnapshot;
 }
 
 interface HistorySnapshot {
   transaction?: TransactionSnapshot;
   settlement?: SettlementSnapshot;
+  group?: GroupSnapshot;
+  comment?: CommentSnapshot;
 }
 
 function normalizeCurrency(value: unknown): string | undefined {
@@ -92,15 +112,37 @@ interface TransactionHistory {
   id: string;
   transaction_id: number | null;
   settlement_id: string | null;
-  activity_type: 'transaction' | 'settlement';
+  activity_type: 'transaction' | 'settlement' | 'group' | 'comment';
   group_id: string;
-  action: 'created' | 'updated' | 'deleted';
+  action: 'created' | 'updated' | 'deleted' | 'archived' | 'restored';
   changed_by: string;
   changed_at: string;
   changes: HistoryChanges;
   snapshot: HistorySnapshot | null;
 }
 
+type MembershipAction =
+  | 'member_added'
+  | 'member_left'
+  | 'member_removed'
+  | 'member_reactivated'
+  | 'invite_created'
+  | 'invite_cancelled'
+  | 'invite_accepted';
+
+type GroupActivityAction = MembershipAction | 'reminder_sent';
+
+interface GroupActivityRecord {
+  id: string;
+  group_id: string;
+  actor_id: string | null;
+  target_user_id: string | null;
+  target_email: string | null;
+  action: GroupActivityAction;
+  metadata: Record<string, unknown>;
+  created_at: string;
+}
+
 export function formatFieldName(field: string): string {
   const fieldMap: Record<string, string> = {
     'amount': 'Amount',
@@ -116,6 +158,10 @@ export function formatFieldName(field: string): string {
     'notes': 'Notes',
     'from_user_id': 'From',
     'to_user_id': 'To',
+    'status': 'Status',
+    'default_currency': 'Default currency',
+    'settlement_currency': 'Settle in',
+    'cover_color': 'Cover color',
   };
   return fieldMap[field] || field.charAt(0).toUpperCase() + field.slice(1).replace(/_/g, ' ');
 }
@@ -335,8 +381,9 @@ function generateTransactionUpdatedDescription(
   emailMap?: Map<string, string>,
   participantMap?: Map<string, Participant>
 ): string {
+  // category_id always changes together with category, which is shown instead
   const userVisibleFields = Object.keys(diff).filter(field => 
-    !['updated_at', 'created_at', 'id'].includes(field)
+    !['updated_at', 'created_at', 'id', 'category_id', 'version'].includes(field)
   );
   
   if (userVisibleFields.length === 0) {
@@ -383,6 +430,10 @@ function generateTransactionDeletedDescription(transaction: TransactionSnapshot)
   return `Deleted: ${formatCurrency(amount, currency)} - ${descriptionGlimpse}`;
 }
 
+function generateTransactionRestoredDescription(transaction: TransactionSnapshot): string {
+  return `Restored: ${generateTransactionCreatedDescription(transaction)}`;
+}
+
 function generateSettlementCreatedDescription(
   settlement: SettlementSnapshot,
   emailMap?: Map<string, string>,
@@ -411,8 +462,9 @@ function generateSettlementUpdatedDescription(
   emailMap?: Map<string, string>,
   participantMap?: Map<string, Participant>
 ): string {
+  // Set alongside status by the status rules trigger; version goes up with every edit
   const userVisibleFields = Object.keys(diff).filter(field => 
-    !['created_at', 'id'].includes(field)
+    !['created_at', 'id', 'status_changed_by', 'status_changed_at', 'dispute_reason', 'version'].includes(field)
   );
   
   if (userVisibleFields.length === 0) {
@@ -426,6 +478,14 @@ function generateSettlementUpdatedDescription(
   
   const fromName = getParticipantDisplayName(fromId, participantMap);
   const toName = getParticipantDisplayName(toId, participantMap);
+
+  // The receiver confirming or disputing
+  const newStatus = diff.status?.new;
+  if (userVisibleFields.length === 1 && (newStatus === 'confirmed' || newStatus === 'disputed')) {
+    const verb = newStatus === 'confirmed' ? 'Confirmed' : 'Disputed';
+    const reason = newStatus === 'disputed' ? settlement?.dispute_reason : null;
+    return `${verb}: ${fromName} paid ${toName} ${formatCurrency(amount, currency)}${reason ? ` - ${reason}` : ''}`;
+  }
   
   const fieldChanges: string[] = [];
   userVisibleFields.forEach(field => {
@@ -462,6 +522,87 @@ function generateSettlementDeletedDescription(
   return `Deleted settlement: ${fromName} paid ${toName} ${formatCurrency(amount, currency)}`;
 }
 
+function generateSettlementRestoredDescription(
+  settlement: SettlementSnapshot,
+  emailMap?: Map<string, string>,
+  participantMap?: Map<string, Participant>
+): string {
+  const fromName = getParticipantDisplayName(settlement.from_participant_id || settlement.from_user_id || '', participantMap);
+  const toName = getParticipantDisplayName(settlement.to_participant_id || settlement.to_user_id || '', participantMap);
+
+  return `Restored settlement: ${fromName} paid ${toName} ${formatCurrency(settlement.amount || 0, settlement.currency || 'USD')}`;
+}
+
+function generateGroupUpdatedDescription(diff: ChangesDiff): string {
+  const fieldChanges = Object.keys(diff)
+    .filter(field => field !== 'archived_at')
+    .map(field => `${formatFieldName(field)}: ${formatValue(field, diff[field].old)} → ${formatValue(field, diff[field].new)}`);
+
+  return fieldChanges.length > 0
+    ? `Group settings - ${fieldChanges.join(', ')}`
+    : 'Updated group settings';
+}
+
+function generateCommentCreatedDescription(
+  snapshot: HistorySnapshot | null,
+  participantMap?: Map<string, Participant>
+): string {
+  const body = snapshot?.comment?.body?.trim() || '';
+  const excerpt = body.length > 80 ? `${body.slice(0, 77)}...` : body;
+
+  let target = 'a transaction';
+  if (snapshot?.transaction?.description) {
+    target = `"${snapshot.transaction.description}"`;
+  } else if (snapshot?.settlement) {
+    const fromId = snapshot.settlement.from_participant_id || snapshot.settlement.from_user_id;
+    const toId = snapshot.settlement.to_participant_id || snapshot.settlement.to_user_id;
+    target = fromId && toId
+      ? `${getParticipantDisplayName(fromId, participantMap)}'s payment to ${getParticipantDisplayName(toId, participantMap)}`
+      : 'a settlement';
+  }
+
+  return excerpt ? `Commented on ${target}: "${excerpt}"` : `Commented on ${target}`;
+}
+
+/**
+ * Describes a membership, invitation or payment reminder event from
+ * group_activity
+ */
+export function generateMemberActivityDescription(
+  event: GroupActivityRecord,
+  emailMap?: Map<string, string>,
+  participantMap?: Map<string, Participant>
+): string {
+  const isSelf = !!event.target_user_id && event.actor_id === event.target_user_id;
+  const targetName = event.target_user_id
+    ? getUserName(event.target_user_id, emailMap, participantMap)
+    : event.target_email || 'someone';
+
+  switch (event.action) {
+    case 'member_added':
+      return isSelf ? 'Joined the group' : `Added ${targetName}`;
+    case 'member_reactivated':
+      return isSelf ? 'Rejoined the group' : `Re-added ${targetName}`;
+    case 'member_left':
+      return 'Left the group';
+    case 'member_removed':
+      return isSelf ? 'Left the group' : `Removed ${targetName}`;
+    case 'invite_created':
+      return `Invited ${targetName}`;
+    case 'invite_cancelled':
+      return `Cancelled the invitation for ${targetName}`;
+    case 'invite_accepted':
+      return 'Accepted the invitation';
+    case 'reminder_sent': {
+      const amounts = (event.metadata.amounts as { amount: number; currency: string }[] | undefined) || [];
+      const owed = amounts.map((a) => formatCurrency(a.amount, a.currency)).join(' and ');
+      return owed ? `Reminded ${targetName} to pay ${owed}` : `Reminded ${targetName} to settle up`;
+    }
+    default:
+      return 'Membership activity';
+  }
+}
+
 function extractTransactionFromSnapshot(
   snapshot: HistorySnapshot | null,
   changes: HistoryChanges | undefined,
@@ -505,6 +646,21 @@ export function generateActivityDescription(
   const changes = history.changes;
   const snapshot = history.snapshot;
   const activityType = history.activity_type || 'transaction';
+
+  if (activityType === 'comment') {
+    return generateCommentCreatedDescription(snapshot, participantMap);
+  }
+
+  if (activityType === 'group') {
+    const groupName = snapshot?.group?.name || 'the group';
+    if (action === 'archived') {
+      return `Archived ${groupName}`;
+    }
+    if (action === 'restored') {
+      return `Restored ${groupName}`;
+    }
+    return generateGroupUpdatedDescription(changes?.diff || {});
+  }
   
   switch (action) {
     case 'created': {
@@ -551,6 +707,22 @@ export function generateActivityDescription(
       }
     }
 
+    case 'restored': {
+      if (activityType === 'settlement') {
+        const settlement = extractTransactionFromSnapshot(snapshot, changes, 'settlement') as SettlementSnapshot | undefined;
+        if (settlement) {
+          return generateSettlementRestoredDescription(settlement, emailMap, participantMap);
+        }
+        return 'Restored settlement';
+      } else {
+        const transaction = extractTransactionFromSnapshot(snapshot, changes, 'transaction') as TransactionSnapshot | undefined;
+        if (transaction) {
+          return generateTransactionRestoredDescription(transaction);
+        }
+        return 'Restored transaction';
+      }
+    }
+
     default:
       return 'Transaction activity';
   }
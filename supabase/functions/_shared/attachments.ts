@@ -0,0 +1,147 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { log } from './logger.ts';
+
+/**
+ * Receipt attachment utilities
+ *
+ * Receipt images live in the private "receipts" Storage bucket under
+ * <group_id>/<transaction_id>/<file>, with metadata in transaction_attachments.
+ * Clients upload base64-encoded images through the transactions function and
+ * view them through short-lived signed URLs.
+ */
+
+export const RECEIPTS_BUCKET = 'receipts';
+
+/**
+ * Largest decoded image accepted (matches the bucket's file_size_limit)
+ */
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Request body limit for uploads: base64 adds a third, plus JSON overhead
+ */
+export const MAX_ATTACHMENT_BODY_SIZE = Math.ceil(MAX_ATTACHMENT_BYTES * 4 / 3) + 64 * 1024;
+
+export const MAX_ATTACHMENTS_PER_TRANSACTION = 5;
+
+const SIGNED_URL_EXPIRY_SECONDS = 60 * 60;
+
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+};
+
+export interface TransactionAttachment {
+  id: string;
+  transaction_id: number;
+  group_id: string;
+  storage_path: string;
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  uploaded_by?: string | null;
+  created_at?: string;
+  url?: string | null; // Signed URL, valid for an hour
+}
+
+export interface AttachmentUploadRequest {
+  file_name?: string;
+  content_type?: string;
+  data?: string; // Base64 image data, optionally as a data: URL
+}
+
+export interface AttachmentUploadValidationResult {
+  valid: boolean;
+  error?: string;
+  bytes?: Uint8Array;
+  fileName?: string;
+  contentType?: string;
+}
+
+/**
+ * Validates an upload request and decodes its image data
+ */
+export function validateAttachmentUpload(request: AttachmentUploadRequest): AttachmentUploadValidationResult {
+  const contentType = (request.content_type || '').toLowerCase();
+  if (!CONTENT_TYPE_EXTENSIONS[contentType]) {
+    return { valid: false, error: `content_type must be one of: ${Object.keys(CONTENT_TYPE_EXTENSIONS).join(', ')}` };
+  }
+
+  if (typeof request.data !== 'string' || !request.data) {
+    return { valid: false, error: 'Image data is required' };
+  }
+
+  let bytes: Uint8Array;
+  try {
+    const base64 = request.data.replace(/^data:[^;]+;base64,/, '');
+    bytes = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+  } catch {
+    return { valid: false, error: 'Image data must be base64 encoded' };
+  }
+
+  if (bytes.length === 0) {
+    return { valid: false, error: 'Image data cannot be empty' };
+  }
+  if (bytes.length > MAX_ATTACHMENT_BYTES) {
+    return { valid: false, error: `Image is too large (max ${MAX_ATTACHMENT_BYTES / (1024 * 1024)}MB)` };
+  }
+
+  const fileName = (request.file_name || '').trim().slice(0, 255)
+    || `receipt.${CONTENT_TYPE_EXTENSIONS[contentType]}`;
+
+  return { valid: true, bytes, fileName, contentType };
+}
+
+/**
+ * Builds the storage path for a new attachment
+ */
+export function buildAttachmentPath(groupId: string, transactionId: number, contentType: string): string {
+  return `${groupId}/${transactionId}/${crypto.randomUUID()}.${CONTENT_TYPE_EXTENSIONS[contentType]}`;
+}
+
+/**
+ * Adds signed URLs to attachments. Attachments whose URL can't be signed
+ * are returned with url: null rather than failing the request.
+ */
+export async function signAttachmentUrls<T extends { storage_path: string }>(
+  supabase: SupabaseClient,
+  attachments: T[]
+): Promise<Array<T & { url: string | null }>> {
+  if (attachments.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase.storage
+    .from(RECEIPTS_BUCKET)
+    .createSignedUrls(attachments.map((a) => a.storage_path), SIGNED_URL_EXPIRY_SECONDS);
+
+  if (error) {
+    log.warn('Failed to sign attachment URLs', 'attachments', { error: error.message });
+  }
+
+  const urls = new Map<string, string>();
+  (data || []).forEach((entry: { path: string | null; signedUrl: string | null }) => {
+    if (entry.path && entry.signedUrl) {
+      urls.set(entry.path, entry.signedUrl);
+    }
+  });
+
+  return attachments.map((a) => ({ ...a, url: urls.get(a.storage_path) || null }));
+}
+
+/**
+ * Removes attachment files from storage. Failures are logged, not thrown:
+ * the metadata rows are already gone, so a leftover file is harmless.
+ */
+export async function removeAttachmentFiles(supabase: SupabaseClient, paths: string[]): Promise<void> {
+  if (paths.length === 0) {
+    return;
+  }
+
+  const { error } = await supabase.storage.from(RECEIPTS_BUCKET).remove(paths);
+  if (error) {
+    log.warn('Failed to remove attachment files', 'attachments', { paths, error: error.message });
+  }
+}
@@ -0,0 +1,297 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ExchangeRate, findExchangeRate } from './exchange-rates.ts';
+import { log } from './logger.ts';
+import { isValidUUID } from './validation.ts';
+
+/**
+ * Group balance calculation
+ *
+ * Balances are keyed by participant: payers are credited what they paid,
+ * split participants are debited their share, and settlements move money
+ * from the sender to the receiver. Used by the balances and export functions.
+ * Pending and disputed settlements count unless confirmedOnly is set.
+ */
+
+export interface Balance {
+  user_id: string;
+  participant_id?: string;
+  email?: string;
+  full_name?: string | null;
+  avatar_url?: string | null;
+  amount: number;
+  currency: string;
+}
+
+interface GroupMember {
+  user_id: string;
+}
+
+export interface BalanceOptions {
+  confirmedOnly?: boolean; // Ignore settlements the receiver hasn't confirmed
+}
+
+export interface BalanceConversion {
+  currency: string; // Group settlement currency
+  rates: ExchangeRate[];
+  missingRates: Set<string>;
+}
+
+interface TransactionSplit {
+  participant_id?: string | null;
+  user_id?: string | null;
+  email?: string | null;
+  amount: number | string;
+}
+
+interface TransactionPayer {
+  participant_id: string;
+  amount: number | string;
+}
+
+interface TransactionWithSplits {
+  id: number;
+  amount: number | string;
+  paid_by: string | null; // Legacy
+  paid_by_participant_id?: string | null; // New
+  currency: string;
+  date: string;
+  exchange_rate?: number | string | null; // Rate recorded when the transaction was saved
+  exchange_rate_currency?: string | null;
+  split_among?: string[] | null;
+  transaction_splits?: TransactionSplit[];
+  transaction_payers?: TransactionPayer[]; // Present only for multi-payer expenses
+}
+
+/**
+ * Returns the currency an amount is booked in and the factor to multiply it by
+ */
+function resolveConversion(
+  conversion: BalanceConversion | undefined,
+  currency: string,
+  date: string,
+  recordedRate?: number | string | null,
+  recordedCurrency?: string | null
+): { currency: string; factor: number } {
+  if (!conversion || currency === conversion.currency) {
+    return { currency, factor: 1 };
+  }
+
+  const recorded = typeof recordedRate === 'string' ? parseFloat(recordedRate) : recordedRate;
+  if (recorded && recorded > 0 && recordedCurrency === conversion.currency) {
+    return { currency: conversion.currency, factor: recorded };
+  }
+
+  const rate = findExchangeRate(conversion.rates, currency, conversion.currency, date);
+  if (rate === null) {
+    conversion.missingRates.add(currency);
+    return { currency, factor: 1 };
+  }
+
+  return { currency: conversion.currency, factor: rate };
+}
+
+/**
+ * Calculates every participant's balance in a group, per currency
+ * (or in the settlement currency when a conversion is given)
+ */
+export async function calculateGroupBalances(
+  supabase: SupabaseClient,
+  groupId: string,
+  currentUserId: string,
+  conversion?: BalanceConversion,
+  options: BalanceOptions = {}
+): Promise<Balance[]> {
+  const { data: transactions, error } = await supabase
+    .from('transactions')
+    .select(`
+      id,
+      amount,
+      paid_by_participant_id,
+      currency,
+      date,
+      exchange_rate,
+      exchange_rate_currency,
+      transaction_splits (
+        participant_id,
+        amount
+      ),
+      transaction_payers (
+        participant_id,
+        amount
+      )
+    `)
+    .eq('group_id', groupId)
+    .eq('type', 'expense')
+    .is('deleted_at', null);
+
+  if (error) {
+    log.error('Error fetching transactions', 'balance-calculation', { groupId, error: error.message });
+    throw error;
+  }
+
+  const { data: members } = await supabase
+    .from('group_members')
+    .select('user_id')
+    .eq('group_id', groupId);
+
+  const memberIds = new Set((members || []).map((m: GroupMember) => m.user_id));
+  
+  // Map<ParticipantId/UserId, Map<Currency, Amount>>
+  // We'll track by user_id where possible, fallback to participant_id for invited users
+  const balanceMap = new Map<string, Map<string, number>>();
+
+  const updateBalance = (key: string, currency: string, amount: number) => {
+    if (!balanceMap.has(key)) {
+      balanceMap.set(key, new Map());
+    }
+    const userBalances = balanceMap.get(key)!;
+    const currentAmount = userBalances.get(currency) || 0;
+    userBalances.set(currency, currentAmount + amount);
+  };
+
+  // 1. Fetch all participants to resolve user_ids and names
+  const { data: participants } = await supabase
+    .from('participants')
+    .select('id, user_id, email, full_name, avatar_url')
+    .eq('group_id', groupId);
+  
+  const participantToUserMap = new Map<string, string>();
+  const participantToEmailMap = new Map<string, string>();
+  const participantToFullNameMap = new Map<string, string>();
+  const participantToAvatarMap = new Map<string, string>();
+
+  if (participants) {
+    participants.forEach((p: any) => {
+      if (p.user_id) participantToUserMap.set(p.id, p.user_id);
+      if (p.email) participantToEmailMap.set(p.id, p.email);
+      if (p.full_name) participantToFullNameMap.set(p.id, p.full_name);
+      if (p.avatar_url) participantToAvatarMap.set(p.id, p.avatar_url);
+    });
+  }
+
+  // Process Transactions
+  for (const tx of (transactions || []) as TransactionWithSplits[]) {
+    const { currency, factor } = resolveConversion(
+      conversion,
+      tx.currency,
+      tx.date,
+      tx.exchange_rate,
+      tx.exchange_rate_currency
+    );
+    const rawAmount = typeof tx.amount === 'string' ? parseFloat(tx.amount) : tx.amount;
+    const totalAmount = rawAmount * factor;
+    
+    if (isNaN(totalAmount)) continue;
+
+    const paidByPid = tx.paid_by_participant_id;
+    if (!paidByPid) continue;
+    
+    // Use Participant ID as the key for strict correctness
+    const paidByKey = paidByPid;
+
+      if (tx.transaction_splits && Array.isArray(tx.transaction_splits)) {
+        const splits = tx.transaction_splits
+          .map((s: TransactionSplit) => {
+            if (!s) return undefined;
+            const amount = (typeof s.amount === 'string' ? parseFloat(s.amount) : s.amount) * factor;
+            if (!s.participant_id || isNaN(amount)) return undefined;
+            
+            return { pid: s.participant_id, amount };
+          })
+          .filter((s): s is { pid: string; amount: number } => !!s);
+
+        if (splits.length === 0) continue;
+
+        // Add credit to each payer (multi-payer) or the single payer
+        const payers = (tx.transaction_payers || [])
+          .map((p: TransactionPayer) => ({
+            pid: p.participant_id,
+            amount: (typeof p.amount === 'string' ? parseFloat(p.amount) : p.amount) * factor,
+          }))
+          .filter((p) => !!p.pid && !isNaN(p.amount));
+
+        if (payers.length > 0) {
+          for (const payer of payers) {
+            updateBalance(payer.pid, currency, payer.amount);
+          }
+        } else {
+          updateBalance(paidByKey, currency, totalAmount);
+        }
+
+        // Add debit to each split participant
+        for (const split of splits) {
+          updateBalance(split.pid, currency, -split.amount);
+        }
+      }
+    }
+
+  // From settlements
+  let settlementsQuery = supabase
+    .from('settlements')
+    .select('id, group_id, from_participant_id, to_participant_id, amount, currency, created_at')
+    .eq('group_id', groupId)
+    .is('deleted_at', null);
+  if (options.confirmedOnly) {
+    settlementsQuery = settlementsQuery.eq('status', 'confirmed');
+  }
+  const { data: settlements, error: settlementsError } = await settlementsQuery;
+
+  if (settlementsError) {
+    log.error('Error fetching settlements', 'balance-calculation', { groupId, error: settlementsError.message });
+    throw settlementsError;
+  }
+
+  // Process Settlements
+  for (const settlement of (settlements || [])) {
+    // strict PID usage
+    const fromKey = settlement.from_participant_id;
+    const toKey = settlement.to_participant_id;
+
+    if (!fromKey || !toKey) continue; 
+    
+    const { currency, factor } = resolveConversion(
+      conversion,
+      settlement.currency,
+      String(settlement.created_at || '').split('T')[0]
+    );
+    const settlementAmount = (typeof settlement.amount === 'string' 
+      ? parseFloat(settlement.amount) 
+      : settlement.amount) * factor;
+
+    if (isNaN(settlementAmount) || settlementAmount <= 0) continue;
+
+    // From (sender) is less in debt (Credit)
+    updateBalance(fromKey, currency, settlementAmount);
+    // To (receiver) is less a creditor (Debit)
+    updateBalance(toKey, currency, -settlementAmount);
+  }
+
+  const balances: Balance[] = [];
+  
+  for (const [key, currencyMap] of balanceMap.entries()) {
+    // Return all balances (including current user) so frontend can calculate full graph
+    
+    for (const [currency, amount] of currencyMap.entries()) {
+      const roundedAmount = Math.round(amount * 100) / 100;
+      if (Math.abs(roundedAmount) > 0.01) {
+        // Find user_id, email and full_name using PID maps
+        const userId = participantToUserMap.get(key);
+        const email = participantToEmailMap.get(key);
+        const fullName = participantToFullNameMap.get(key);
+        const avatarUrl = participantToAvatarMap.get(key);
+        
+        balances.push({
+          user_id: userId || (isValidUUID(key) ? key : ''), // Return UserID if exists (crucial for aggregation)
+          participant_id: key, // KEY is now GUARANTEED to be Participant ID (UUID)
+          email: email,
+          full_name: fullName || null,
+          avatar_url: avatarUrl || null,
+          amount: roundedAmount,
+          currency: currency
+        });
+      }
+    }
+  }
+
+  return balances;
+}
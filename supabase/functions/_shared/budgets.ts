@@ -0,0 +1,148 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BudgetPeriod } from './validation.ts';
+
+/**
+ * Group budget status
+ *
+ * Spending comes from get_group_budget_spending, which sums the group's
+ * expenses in each budget's currency (and category, if any) for the period
+ * containing a given date. Used by the budgets function and by POST
+ * /transactions to warn when a new expense crosses a threshold.
+ */
+
+export const BUDGET_WARNING_PERCENT = 80;
+
+export type BudgetState = 'ok' | 'warning' | 'exceeded';
+
+export interface Budget {
+  id: string;
+  group_id: string;
+  category_id: string | null;
+  amount: number | string;
+  currency: string;
+  period: BudgetPeriod;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BudgetStatus extends Omit<Budget, 'amount'> {
+  amount: number;
+  spent: number;
+  remaining: number;
+  percent_used: number;
+  status: BudgetState;
+  period_start: string | null; // null for 'total' budgets
+  period_end: string | null;
+}
+
+export interface BudgetWarning {
+  budget_id: string;
+  category_id: string | null;
+  period: BudgetPeriod;
+  currency: string;
+  amount: number;
+  spent: number;
+  percent_used: number;
+  threshold: number; // The threshold the expense crossed (80 or 100)
+  status: BudgetState;
+}
+
+interface BudgetSpending {
+  budget_id: string;
+  spent: number | string;
+  period_start: string | null;
+  period_end: string | null;
+}
+
+export const BUDGET_FIELDS = 'id, group_id, category_id, amount, currency, period, created_by, created_at, updated_at';
+
+function getBudgetState(percentUsed: number): BudgetState {
+  if (percentUsed >= 100) return 'exceeded';
+  if (percentUsed >= BUDGET_WARNING_PERCENT) return 'warning';
+  return 'ok';
+}
+
+function toPercent(spent: number, amount: number): number {
+  return amount > 0 ? Math.round((spent / amount) * 1000) / 10 : 0;
+}
+
+/**
+ * Returns every budget of a group with its spending in the period containing asOf (YYYY-MM-DD, defaults to today)
+ */
+export async function getBudgetStatuses(supabase: SupabaseClient, groupId: string, asOf?: string): Promise<BudgetStatus[]> {
+  const { data: budgets, error: budgetsError } = await supabase
+    .from('group_budgets')
+    .select(BUDGET_FIELDS)
+    .eq('group_id', groupId)
+    .order('created_at', { ascending: true });
+
+  if (budgetsError) throw budgetsError;
+  if (!budgets || budgets.length === 0) return [];
+
+  const { data: spending, error: spendingError } = await supabase.rpc('get_group_budget_spending', {
+    p_group_id: groupId,
+    ...(asOf ? { p_as_of: asOf } : {}),
+  });
+
+  if (spendingError) throw spendingError;
+
+  const spendingByBudget = new Map<string, BudgetSpending>(
+    ((spending || []) as BudgetSpending[]).map((s) => [s.budget_id, s])
+  );
+
+  return (budgets as Budget[]).map((budget) => {
+    const amount = Number(budget.amount);
+    const budgetSpending = spendingByBudget.get(budget.id);
+    const spent = Math.round(Number(budgetSpending?.spent ?? 0) * 100) / 100;
+    const percentUsed = toPercent(spent, amount);
+
+    return {
+      ...budget,
+      amount,
+      spent,
+      remaining: Math.round((amount - spent) * 100) / 100,
+      percent_used: percentUsed,
+      status: getBudgetState(percentUsed),
+      period_start: budgetSpending?.period_start ?? null,
+      period_end: budgetSpending?.period_end ?? null,
+    };
+  });
+}
+
+/**
+ * Budgets that a newly added expense pushed past 80% or 100%.
+ * statuses must already include the expense (computed as of its date).
+ */
+export function getCrossedBudgets(
+  statuses: BudgetStatus[],
+  expense: { amount: number | string; currency?: string | null; category_id?: string | null }
+): BudgetWarning[] {
+  const expenseAmount = Number(expense.amount);
+
+  return statuses
+    .filter((budget) =>
+      budget.currency === expense.currency &&
+      (budget.category_id === null || budget.category_id === expense.category_id)
+    )
+    .map((budget) => {
+      const before = toPercent(budget.spent - expenseAmount, budget.amount);
+      const threshold = [100, BUDGET_WARNING_PERCENT].find(
+        (t) => before < t && budget.percent_used >= t
+      );
+      if (threshold === undefined) return null;
+
+      return {
+        budget_id: budget.id,
+        category_id: budget.category_id,
+        period: budget.period,
+        currency: budget.currency,
+        amount: budget.amount,
+        spent: budget.spent,
+        percent_used: budget.percent_used,
+        threshold,
+        status: budget.status,
+      };
+    })
+    .filter((warning): warning is BudgetWarning => warning !== null);
+}
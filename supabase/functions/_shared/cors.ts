@@ -45,8 +45,8 @@ export function getCorsHeaders(req?: Request): Record<string, string> {
   
   return {
     'Access-Control-Allow-Origin': originToAllow,
-    'Access-Control-Allow-Headers': requestedHeaders || 'authorization, x-client-info, apikey, content-type, x-app-version, prefer',
+    'Access-Control-Allow-Headers': requestedHeaders || 'authorization, x-client-info, apikey, content-type, x-app-version, prefer, idempotency-key',
     'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-    'Access-Control-Expose-Headers': 'Content-Length, X-JSON',
+    'Access-Control-Expose-Headers': 'Content-Length, Content-Disposition, X-JSON, Idempotent-Replayed',
   };
 }
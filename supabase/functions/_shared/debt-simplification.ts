@@ -0,0 +1,192 @@
+/**
+ * Debt simplification utilities
+ *
+ * Turns net balances into a list of suggested transfers that settles
+ * everyone. Balances are settled per currency.
+ *
+ * The minimum number of transfers is n - k, where n is the number of people
+ * with a non-zero balance and k is the largest number of disjoint groups
+ * whose balances each sum to zero (each group of size s settles in s - 1
+ * transfers). Finding k is NP-hard, so an exact bitmask search is used for
+ * small groups and a heuristic for larger ones.
+ */
+
+export interface NetBalance {
+  participant_id: string;
+  amount: number;
+  currency: string;
+}
+
+export interface SimplifiedDebt {
+  from_participant_id: string;
+  to_participant_id: string;
+  amount: number;
+  currency: string;
+}
+
+interface Entry {
+  id: string;
+  cents: number; // Positive = is owed, negative = owes
+}
+
+/**
+ * Largest number of non-zero balances searched exactly (2^n subsets)
+ */
+export const EXACT_SEARCH_LIMIT = 15;
+
+/**
+ * Settles a zero-sum list by repeatedly pairing the largest debtor with the
+ * largest creditor. Produces at most n - 1 transfers.
+ */
+function settleGreedy(entries: Entry[], currency: string): SimplifiedDebt[] {
+  const debtors = entries.filter((e) => e.cents < 0).map((e) => ({ ...e }));
+  const creditors = entries.filter((e) => e.cents > 0).map((e) => ({ ...e }));
+  const debts: SimplifiedDebt[] = [];
+
+  while (debtors.length > 0 && creditors.length > 0) {
+    debtors.sort((a, b) => a.cents - b.cents || a.id.localeCompare(b.id));
+    creditors.sort((a, b) => b.cents - a.cents || a.id.localeCompare(b.id));
+
+    const debtor = debtors[0];
+    const creditor = creditors[0];
+    const cents = Math.min(-debtor.cents, creditor.cents);
+
+    debts.push({
+      from_participant_id: debtor.id,
+      to_participant_id: creditor.id,
+      amount: cents / 100,
+      currency,
+    });
+
+    debtor.cents += cents;
+    creditor.cents -= cents;
+    if (debtor.cents === 0) debtors.shift();
+    if (creditor.cents === 0) creditors.shift();
+  }
+
+  return debts;
+}
+
+/**
+ * Splits entries into the largest number of zero-sum groups using dynamic
+ * programming over subsets: best[mask] is the most zero-sum groups that the
+ * people in mask can be partitioned into (remainder allowed in one group).
+ */
+function partitionExact(entries: Entry[]): Entry[][] {
+  const n = entries.length;
+  const size = 1 << n;
+  const sums = new Float64Array(size);
+  const best = new Int8Array(size);
+
+  for (let mask = 1; mask < size; mask++) {
+    const lowBit = mask & -mask;
+    const index = 31 - Math.clz32(lowBit);
+    sums[mask] = sums[mask ^ lowBit] + entries[index].cents;
+
+    let max = 0;
+    for (let i = 0; i < n; i++) {
+      if (mask & (1 << i)) {
+        const value = best[mask ^ (1 << i)];
+        if (value > max) max = value;
+      }
+    }
+    best[mask] = max + (sums[mask] === 0 ? 1 : 0);
+  }
+
+  // Walk back from the full set, removing one person at a time while keeping
+  // the optimum. Every zero-sum mask along the way closes a group.
+  const groups: Entry[][] = [];
+  let current: Entry[] = [];
+  let mask = size - 1;
+  while (mask) {
+    const bonus = sums[mask] === 0 ? 1 : 0;
+    if (bonus && current.length > 0) {
+      groups.push(current);
+      current = [];
+    }
+    for (let i = 0; i < n; i++) {
+      const bit = 1 << i;
+      if ((mask & bit) && best[mask ^ bit] === best[mask] - bonus) {
+        current.push(entries[i]);
+        mask ^= bit;
+        break;
+      }
+    }
+  }
+  if (current.length > 0) groups.push(current);
+
+  return groups;
+}
+
+/**
+ * Heuristic for large groups: settle exact opposite pairs first (each saves a
+ * transfer), then fall back to greedy matching for the rest.
+ */
+function partitionHeuristic(entries: Entry[]): Entry[][] {
+  const groups: Entry[][] = [];
+  const remaining: Entry[] = [];
+  const unmatchedCreditors = new Map<number, Entry[]>();
+
+  for (const entry of entries.filter((e) => e.cents > 0)) {
+    const list = unmatchedCreditors.get(entry.cents) || [];
+    list.push(entry);
+    unmatchedCreditors.set(entry.cents, list);
+  }
+
+  for (const debtor of entries.filter((e) => e.cents < 0)) {
+    const matches = unmatchedCreditors.get(-debtor.cents);
+    if (matches && matches.length > 0) {
+      groups.push([debtor, matches.shift()!]);
+    } else {
+      remaining.push(debtor);
+    }
+  }
+  for (const list of unmatchedCreditors.values()) {
+    remaining.push(...list);
+  }
+
+  if (remaining.length > 0) groups.push(remaining);
+  return groups;
+}
+
+/**
+ * Returns the suggested transfers that settle all balances, per currency.
+ * Amounts are rounded to cents; balances that don't sum to zero (rounding
+ * drift) are absorbed by the largest balance in that currency.
+ */
+export function simplifyDebts(balances: NetBalance[]): SimplifiedDebt[] {
+  const byCurrency = new Map<string, Map<string, number>>();
+  for (const balance of balances) {
+    if (!balance.participant_id || !isFinite(balance.amount)) continue;
+    const currencyMap = byCurrency.get(balance.currency) || new Map<string, number>();
+    const cents = Math.round(balance.amount * 100);
+    currencyMap.set(balance.participant_id, (currencyMap.get(balance.participant_id) || 0) + cents);
+    byCurrency.set(balance.currency, currencyMap);
+  }
+
+  const debts: SimplifiedDebt[] = [];
+
+  for (const [currency, currencyMap] of byCurrency.entries()) {
+    const entries: Entry[] = Array.from(currencyMap.entries())
+      .map(([id, cents]) => ({ id, cents }))
+      .filter((e) => e.cents !== 0)
+      .sort((a, b) => a.id.localeCompare(b.id));
+    if (entries.length < 2) continue;
+
+    const drift = entries.reduce((sum, e) => sum + e.cents, 0);
+    if (drift !== 0) {
+      const largest = entries.reduce((a, b) => (Math.abs(b.cents) > Math.abs(a.cents) ? b : a));
+      largest.cents -= drift;
+    }
+
+    const groups = entries.length <= EXACT_SEARCH_LIMIT
+      ? partitionExact(entries.filter((e) => e.cents !== 0))
+      : partitionHeuristic(entries.filter((e) => e.cents !== 0));
+
+    for (const group of groups) {
+      debts.push(...settleGreedy(group, currency));
+    }
+  }
+
+  return debts;
+}
@@ -28,3 +28,18 @@ export const SUPABASE_ANON_KEY = getRequiredEnv('SUPABASE_ANON_KEY');
 // Optional environment variables
 export const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 export const ALLOWED_ORIGIN = Deno.env.get('ALLOWED_ORIGIN') || undefined;
+
+// Push notifications: PUSH_SENDER=fake logs pushes instead of sending them
+export const PUSH_SENDER = getOptionalEnv('PUSH_SENDER', 'expo');
+export const EXPO_ACCESS_TOKEN = Deno.env.get('EXPO_ACCESS_TOKEN') || undefined;
+
+// Email: MAIL_TRANSPORT=smtp sends through SMTP_HOST, anything else logs emails
+export const MAIL_TRANSPORT = getOptionalEnv('MAIL_TRANSPORT', 'log');
+export const SMTP_HOST = Deno.env.get('SMTP_HOST') || undefined;
+export const SMTP_PORT = Number(getOptionalEnv('SMTP_PORT', '587'));
+export const SMTP_USER = Deno.env.get('SMTP_USER') || undefined;
+export const SMTP_PASS = Deno.env.get('SMTP_PASS') || undefined;
+export const MAIL_FROM = getOptionalEnv('MAIL_FROM', 'ShareMoney <no-reply@sharemoney.app>');
+
+// Base of links in emails, e.g. the settle-up link in payment reminders
+export const APP_URL = getOptionalEnv('APP_URL', 'com.vaibhavarora.sharemoney://');
@@ -81,6 +81,7 @@ export interface ErrorResponse {
   code?: string;
   details?: string;
   timestamp?: string;
+  current?: unknown; // VERSION_CONFLICT only
 }
 
 /**
@@ -118,6 +119,30 @@ export function createErrorResponse(
   });
 }
 
+/**
+ * Creates the 409 response for an edit based on an outdated version. It
+ * carries the server's current copy so the client can merge or overwrite.
+ */
+export function createVersionConflictResponse(current: unknown, req?: Request): Response {
+  const errorResponse: ErrorResponse = {
+    error: 'This was changed by someone else since you opened it',
+    code: 'VERSION_CONFLICT',
+    current,
+    timestamp: new Date().toISOString(),
+  };
+
+  return new Response(JSON.stringify(errorResponse), {
+    status: 409,
+    headers: {
+      ...getCorsHeaders(req),
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-cache, no-store, must-revalidate',
+      'Pragma': 'no-cache',
+      'Expires': '0',
+    },
+  });
+}
+
 /**
  * Handles errors and returns standardized error response
  * Logs sanitized error information
@@ -160,6 +185,12 @@ export function handleError(error: unknown, context?: string, req?: Request): Re
     return createErrorResponse(500, 'Internal server error', 'INTERNAL_ERROR', error.message, req);
   }
 
+  // Database permission errors (RLS, or writes to an archived group)
+  const postgrestError = error as { code?: string; message?: string } | null;
+  if (postgrestError?.code === '42501') {
+    return createErrorResponse(403, postgrestError.message || 'Forbidden', 'PERMISSION_DENIED', undefined, req);
+  }
+
   // Unknown / non-Error (e.g. PostgREST error objects)
   const stringified = stringifyUnknownError(error);
 
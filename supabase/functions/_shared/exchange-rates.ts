@@ -0,0 +1,244 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { isValidDate } from './validation.ts';
+
+/**
+ * Exchange rate utilities
+ *
+ * Rates are stored per group in the exchange_rates table.
+ * A rate means 1 base_currency = rate quote_currency on effective_date.
+ */
+
+export interface ExchangeRate {
+  id?: string;
+  group_id?: string;
+  base_currency: string;
+  quote_currency: string;
+  rate: number | string;
+  effective_date: string;
+  source?: 'manual' | 'import';
+  created_by?: string | null;
+  created_at?: string;
+}
+
+export interface ParsedExchangeRate {
+  base_currency: string;
+  quote_currency: string;
+  rate: number;
+  effective_date?: string;
+}
+
+export interface ExchangeRateParseResult {
+  rates: ParsedExchangeRate[];
+  error?: string;
+}
+
+/**
+ * Fetches all exchange rates for a group, newest first
+ */
+export async function fetchGroupExchangeRates(
+  supabase: SupabaseClient,
+  groupId: string
+): Promise<ExchangeRate[]> {
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .select('id, group_id, base_currency, quote_currency, rate, effective_date, source, created_by, created_at')
+    .eq('group_id', groupId)
+    .order('effective_date', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []) as ExchangeRate[];
+}
+
+/**
+ * Finds the rate to convert `from` into `to` on a given date.
+ * Uses the latest rate effective on or before the date (or the oldest rate if
+ * none is that old), falling back to the inverse pair. Returns null when no
+ * rate is known.
+ */
+export function findExchangeRate(
+  rates: ExchangeRate[],
+  from: string,
+  to: string,
+  date?: string | null
+): number | null {
+  if (from === to) {
+    return 1;
+  }
+
+  const pick = (base: string, quote: string): number | null => {
+    const candidates = rates
+      .filter((r) => r.base_currency === base && r.quote_currency === quote)
+      .sort((a, b) => b.effective_date.localeCompare(a.effective_date));
+    if (candidates.length === 0) return null;
+
+    const onOrBefore = date
+      ? candidates.find((r) => r.effective_date <= date)
+      : candidates[0];
+    const match = onOrBefore || candidates[candidates.length - 1];
+    const rate = typeof match.rate === 'string' ? parseFloat(match.rate) : match.rate;
+    return isFinite(rate) && rate > 0 ? rate : null;
+  };
+
+  const direct = pick(from, to);
+  if (direct !== null) return direct;
+
+  const inverse = pick(to, from);
+  if (inverse !== null) return 1 / inverse;
+
+  return null;
+}
+
+/**
+ * Validates a single parsed rate entry
+ */
+function normalizeRate(entry: Record<string, unknown>, index: number): ParsedExchangeRate | string {
+  const base = String(entry.base_currency ?? entry.base ?? entry.from ?? '').trim().toUpperCase();
+  const quote = String(entry.quote_currency ?? entry.quote ?? entry.to ?? '').trim().toUpperCase();
+  const rawRate = entry.rate;
+  const rate = typeof rawRate === 'number' ? rawRate : parseFloat(String(rawRate ?? ''));
+  const rawDate = entry.effective_date ?? entry.date;
+  const effectiveDate = rawDate !== undefined && rawDate !== null && String(rawDate).trim() !== ''
+    ? String(rawDate).trim()
+    : undefined;
+
+  if (base.length !== 3 || quote.length !== 3) {
+    return `Row ${index + 1}: currencies must be 3-character codes`;
+  }
+  if (base === quote) {
+    return `Row ${index + 1}: base and quote currency must differ`;
+  }
+  if (!isFinite(rate) || rate <= 0) {
+    return `Row ${index + 1}: rate must be a positive number`;
+  }
+  if (effectiveDate !== undefined && !isValidDate(effectiveDate)) {
+    return `Row ${index + 1}: invalid date format (expected YYYY-MM-DD)`;
+  }
+
+  return { base_currency: base, quote_currency: quote, rate, effective_date: effectiveDate };
+}
+
+/**
+ * Parses exchange rates from CSV text.
+ * Expects a header row with base_currency, quote_currency, rate and an
+ * optional effective_date column (base/from, quote/to and date are accepted
+ * as aliases).
+ */
+export function parseExchangeRatesCsv(content: string): ExchangeRateParseResult {
+  const lines = content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith('#'));
+
+  if (lines.length < 2) {
+    return { rates: [], error: 'CSV must contain a header row and at least one rate' };
+  }
+
+  const headers = lines[0].split(',').map((h) => h.trim().toLowerCase());
+  const rates: ParsedExchangeRate[] = [];
+
+  for (let i = 1; i < lines.length; i++) {
+    const cells = lines[i].split(',').map((c) => c.trim());
+    const entry: Record<string, unknown> = {};
+    headers.forEach((header, index) => {
+      entry[header] = cells[index];
+    });
+
+    const result = normalizeRate(entry, i - 1);
+    if (typeof result === 'string') {
+      return { rates: [], error: result };
+    }
+    rates.push(result);
+  }
+
+  return { rates };
+}
+
+/**
+ * Parses exchange rates from JSON text.
+ * Accepts either an array of rate objects or an object of the form
+ * { "base": "EUR", "date": "2025-01-01", "rates": { "USD": 1.08, ... } }.
+ */
+export function parseExchangeRatesJson(content: string): ExchangeRateParseResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return { rates: [], error: 'Invalid JSON content' };
+  }
+
+  let entries: Record<string, unknown>[];
+  if (Array.isArray(parsed)) {
+    entries = parsed.filter((e) => e && typeof e === 'object') as Record<string, unknown>[];
+  } else if (parsed && typeof parsed === 'object' && (parsed as any).rates && typeof (parsed as any).rates === 'object') {
+    const { base, date, rates } = parsed as { base?: unknown; date?: unknown; rates: Record<string, unknown> };
+    entries = Object.entries(rates).map(([quote, rate]) => ({
+      base_currency: base,
+      quote_currency: quote,
+      rate,
+      effective_date: date,
+    }));
+  } else {
+    return { rates: [], error: 'JSON must be an array of rates or an object with base and rates' };
+  }
+
+  if (entries.length === 0) {
+    return { rates: [], error: 'No rates found in JSON content' };
+  }
+
+  const rates: ParsedExchangeRate[] = [];
+  for (let i = 0; i < entries.length; i++) {
+    const result = normalizeRate(entries[i], i);
+    if (typeof result === 'string') {
+      return { rates: [], error: result };
+    }
+    rates.push(result);
+  }
+
+  return { rates };
+}
+
+export interface TransactionExchangeRate {
+  exchange_rate: number | null;
+  exchange_rate_currency: string | null;
+}
+
+/**
+ * Resolves the rate to record on a transaction: its currency converted into
+ * the group's settlement currency on the transaction date. Both fields are
+ * null when the group has no settlement currency or no rate is known.
+ */
+export async function resolveTransactionExchangeRate(
+  supabase: SupabaseClient,
+  groupId: string | null | undefined,
+  currency: string,
+  date: string
+): Promise<TransactionExchangeRate> {
+  const none: TransactionExchangeRate = { exchange_rate: null, exchange_rate_currency: null };
+  if (!groupId) {
+    return none;
+  }
+
+  const { data: group, error } = await supabase
+    .from('groups')
+    .select('settlement_currency')
+    .eq('id', groupId)
+    .single();
+
+  if (error || !group?.settlement_currency) {
+    return none;
+  }
+
+  const settlementCurrency = group.settlement_currency as string;
+  if (currency === settlementCurrency) {
+    return { exchange_rate: 1, exchange_rate_currency: settlementCurrency };
+  }
+
+  const rates = await fetchGroupExchangeRates(supabase, groupId);
+  const rate = findExchangeRate(rates, currency, settlementCurrency, date);
+  return rate === null
+    ? none
+    : { exchange_rate: rate, exchange_rate_currency: settlementCurrency };
+}
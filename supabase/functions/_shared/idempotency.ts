@@ -0,0 +1,144 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { createErrorResponse, handleError } from './error-handler.ts';
+import { log } from './logger.ts';
+import { createSuccessResponse } from './response.ts';
+
+/**
+ * Idempotency-Key support for create endpoints
+ *
+ * A client sends the same Idempotency-Key header when it retries a request
+ * whose response it never got. The first request with a key claims it for
+ * the caller; once it succeeds, its response is stored and any retry with the
+ * key gets that response back (marked with Idempotent-Replayed: true) instead
+ * of running again. Failed requests release their key so a retry runs for
+ * real. Keys expire after IDEMPOTENCY_KEY_TTL_HOURS (see the idempotency keys
+ * migration).
+ */
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENCY_REPLAYED_HEADER = 'Idempotent-Replayed';
+export const IDEMPOTENCY_KEY_TTL_HOURS = 24;
+
+const MAX_KEY_LENGTH = 255;
+
+interface IdempotencyKeyRow {
+  id: string;
+  request_hash: string;
+  status_code: number | null;
+  response_body: unknown;
+  created_at: string;
+}
+
+async function hashBody(body: string | null): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(body ?? ''));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function isExpired(row: IdempotencyKeyRow): boolean {
+  return Date.now() - new Date(row.created_at).getTime() > IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000;
+}
+
+/**
+ * Runs a create handler at most once per Idempotency-Key. Requests without
+ * the header run as usual.
+ */
+export async function withIdempotencyKey(
+  req: Request,
+  supabase: SupabaseClient,
+  userId: string,
+  body: string | null,
+  handler: () => Promise<Response>
+): Promise<Response> {
+  const key = req.headers.get(IDEMPOTENCY_KEY_HEADER);
+  if (key === null) {
+    return handler();
+  }
+
+  if (!key.trim() || key.length > MAX_KEY_LENGTH) {
+    return createErrorResponse(400, `${IDEMPOTENCY_KEY_HEADER} must be between 1 and ${MAX_KEY_LENGTH} characters`, 'VALIDATION_ERROR', undefined, req);
+  }
+
+  const endpoint = `${req.method} ${new URL(req.url).pathname}`;
+  const requestHash = await hashBody(body);
+
+  let claimId: string | null = null;
+  // A second pass only happens after removing an expired key
+  for (let attempt = 0; attempt < 2 && !claimId; attempt++) {
+    const { data: claimed, error: claimError } = await supabase
+      .from('idempotency_keys')
+      .insert({ user_id: userId, idempotency_key: key, endpoint, request_hash: requestHash })
+      .select('id')
+      .single();
+
+    if (!claimError) {
+      claimId = claimed.id;
+      break;
+    }
+    if (claimError.code !== '23505') {
+      return handleError(claimError, 'claiming idempotency key', req);
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('idempotency_keys')
+      .select('id, request_hash, status_code, response_body, created_at')
+      .eq('user_id', userId)
+      .eq('endpoint', endpoint)
+      .eq('idempotency_key', key)
+      .maybeSingle();
+
+    if (fetchError) {
+      return handleError(fetchError, 'fetching idempotency key', req);
+    }
+
+    const row = existing as IdempotencyKeyRow | null;
+    if (row && isExpired(row)) {
+      await supabase.from('idempotency_keys').delete().eq('id', row.id);
+      continue;
+    }
+
+    if (row && row.request_hash !== requestHash) {
+      return createErrorResponse(422, `This ${IDEMPOTENCY_KEY_HEADER} was already used for a different request`, 'IDEMPOTENCY_KEY_REUSED', undefined, req);
+    }
+
+    if (!row || row.status_code === null) {
+      return createErrorResponse(409, 'A request with this Idempotency-Key is still being processed. Try again shortly.', 'IDEMPOTENCY_KEY_IN_USE', undefined, req);
+    }
+
+    const replayed = createSuccessResponse(row.response_body, row.status_code, 0, req);
+    replayed.headers.set(IDEMPOTENCY_REPLAYED_HEADER, 'true');
+    return replayed;
+  }
+
+  if (!claimId) {
+    return createErrorResponse(409, 'A request with this Idempotency-Key is still being processed. Try again shortly.', 'IDEMPOTENCY_KEY_IN_USE', undefined, req);
+  }
+
+  let response: Response;
+  try {
+    response = await handler();
+  } catch (error) {
+    await supabase.from('idempotency_keys').delete().eq('id', claimId);
+    throw error;
+  }
+
+  if (!response.ok) {
+    await supabase.from('idempotency_keys').delete().eq('id', claimId);
+    return response;
+  }
+
+  const responseBody = await response.clone().json().catch(() => null);
+  const { error: saveError } = await supabase
+    .from('idempotency_keys')
+    .update({ status_code: response.status, response_body: responseBody })
+    .eq('id', claimId);
+
+  if (saveError) {
+    // Releasing the key beats leaving retries stuck on "still being processed"
+    log.warn('Failed to save idempotent response', 'idempotency', { error: saveError.message });
+    await supabase.from('idempotency_keys').delete().eq('id', claimId);
+  }
+
+  return response;
+}
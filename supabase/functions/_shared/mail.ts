@@ -0,0 +1,92 @@
+import nodemailer from 'npm:nodemailer@6.9.16';
+import { MAIL_FROM, MAIL_TRANSPORT, SMTP_HOST, SMTP_PASS, SMTP_PORT, SMTP_USER } from './env.ts';
+import { log } from './logger.ts';
+
+/**
+ * Email
+ *
+ * Emails go through a MailTransport: SMTP with MAIL_TRANSPORT=smtp, or a
+ * transport that only logs them otherwise. The local Supabase stack's
+ * Inbucket accepts SMTP on port 54325 and shows what was sent at
+ * http://localhost:54324.
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Sends over SMTP
+ */
+export function createSmtpTransport(options: {
+  host: string;
+  port: number;
+  user?: string;
+  pass?: string;
+  from: string;
+}): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.port === 465,
+    ...(options.user && { auth: { user: options.user, pass: options.pass } }),
+  });
+
+  return {
+    async send(message) {
+      await transporter.sendMail({ from: options.from, ...message });
+    },
+  };
+}
+
+/**
+ * Logs emails and keeps them in memory instead of sending them
+ */
+export function createLogMailTransport(): MailTransport & { sent: MailMessage[] } {
+  const sent: MailMessage[] = [];
+  return {
+    sent,
+    send(message) {
+      sent.push(message);
+      log.info('Email not sent (log transport)', 'mail', { to: message.to, subject: message.subject });
+      return Promise.resolve();
+    },
+  };
+}
+
+let mailTransport: MailTransport = MAIL_TRANSPORT === 'smtp' && SMTP_HOST
+  ? createSmtpTransport({ host: SMTP_HOST, port: SMTP_PORT, user: SMTP_USER, pass: SMTP_PASS, from: MAIL_FROM })
+  : createLogMailTransport();
+
+/**
+ * Replaces the transport, e.g. with createLogMailTransport() in tests
+ */
+export function setMailTransport(transport: MailTransport): void {
+  mailTransport = transport;
+}
+
+/**
+ * Sends an email; throws when the transport fails
+ */
+export function sendMail(message: MailMessage): Promise<void> {
+  return mailTransport.send(message);
+}
+
+/**
+ * Escapes text for use in an HTML email body
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
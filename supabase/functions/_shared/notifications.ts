@@ -0,0 +1,238 @@
+import { createClient, SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { EXPO_ACCESS_TOKEN, PUSH_SENDER, SUPABASE_SERVICE_ROLE_KEY, SUPABASE_URL } from './env.ts';
+import { log } from './logger.ts';
+
+/**
+ * Push notifications
+ *
+ * dispatchNotification sends a push to the users affected by a change: the
+ * users behind the given participants plus any given user ids, minus the
+ * user who made the change. Users who turned the event type off, or muted
+ * the group, are skipped (see notification_preferences).
+ *
+ * Sending goes through a PushSender: the Expo push service by default, or an
+ * in-memory fake with PUSH_SENDER=fake (local development and tests).
+ * Notifications are best effort and never fail the request that caused them.
+ */
+
+export const NOTIFICATION_EVENT_TYPES = ['transactions', 'settlements', 'comments', 'invitations'] as const;
+export type NotificationEventType = typeof NOTIFICATION_EVENT_TYPES[number];
+
+export interface PushMessage {
+  to: string;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+}
+
+export interface PushSendResult {
+  // Tokens the push service no longer accepts; they are deleted
+  invalidTokens: string[];
+}
+
+export interface PushSender {
+  send(messages: PushMessage[]): Promise<PushSendResult>;
+}
+
+export interface NotificationEvent {
+  type: NotificationEventType;
+  actorId: string;
+  groupId?: string | null;
+  participantIds?: string[];
+  userIds?: string[];
+  // Follows the actor's name, e.g. 'added "Dinner" ($42.00)'
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+interface ExpoPushTicket {
+  status: 'ok' | 'error';
+  message?: string;
+  details?: { error?: string };
+}
+
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+// Expo accepts at most 100 messages per request
+const EXPO_PUSH_BATCH_SIZE = 100;
+
+/**
+ * Sends through the Expo push service
+ */
+export function createExpoPushSender(accessToken?: string): PushSender {
+  return {
+    async send(messages) {
+      const invalidTokens: string[] = [];
+
+      for (let i = 0; i < messages.length; i += EXPO_PUSH_BATCH_SIZE) {
+        const batch = messages.slice(i, i + EXPO_PUSH_BATCH_SIZE);
+        const response = await fetch(EXPO_PUSH_URL, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Accept': 'application/json',
+            ...(accessToken && { 'Authorization': `Bearer ${accessToken}` }),
+          },
+          body: JSON.stringify(batch.map(message => ({ ...message, sound: 'default' }))),
+        });
+
+        if (!response.ok) {
+          log.warn('Expo push request failed', 'notifications', {
+            status: response.status,
+            messageCount: batch.length,
+          });
+          continue;
+        }
+
+        const { data: tickets } = await response.json() as { data?: ExpoPushTicket[] };
+        (tickets || []).forEach((ticket, index) => {
+          if (ticket.status === 'error' && ticket.details?.error === 'DeviceNotRegistered') {
+            invalidTokens.push(batch[index].to);
+          } else if (ticket.status === 'error') {
+            log.warn('Expo push ticket error', 'notifications', { message: ticket.message });
+          }
+        });
+      }
+
+      return { invalidTokens };
+    },
+  };
+}
+
+/**
+ * Keeps messages in memory instead of sending them
+ */
+export function createFakePushSender(): PushSender & { sent: PushMessage[] } {
+  const sent: PushMessage[] = [];
+  return {
+    sent,
+    send(messages) {
+      sent.push(...messages);
+      messages.forEach(message => {
+        log.info('Fake push sent', 'notifications', { to: message.to, title: message.title, body: message.body });
+      });
+      return Promise.resolve({ invalidTokens: [] });
+    },
+  };
+}
+
+let pushSender: PushSender = PUSH_SENDER === 'fake'
+  ? createFakePushSender()
+  : createExpoPushSender(EXPO_ACCESS_TOKEN);
+
+/**
+ * Replaces the sender, e.g. with createFakePushSender() in tests
+ */
+export function setPushSender(sender: PushSender): void {
+  pushSender = sender;
+}
+
+function unique(ids: (string | null | undefined)[]): string[] {
+  return [...new Set(ids.filter((id): id is string => !!id))];
+}
+
+/**
+ * Returns the recipients of an event: affected users minus the actor and
+ * anyone who opted out of this event type or muted the group
+ */
+async function resolveRecipients(serviceClient: SupabaseClient, event: NotificationEvent): Promise<string[]> {
+  const participantIds = unique(event.participantIds || []);
+  let participantUserIds: string[] = [];
+
+  if (participantIds.length > 0) {
+    const { data: participants, error } = await serviceClient
+      .from('participants')
+      .select('user_id')
+      .in('id', participantIds);
+
+    if (error) throw error;
+    participantUserIds = (participants || []).map((p: { user_id: string | null }) => p.user_id);
+  }
+
+  const userIds = unique([...participantUserIds, ...(event.userIds || [])])
+    .filter(userId => userId !== event.actorId);
+  if (userIds.length === 0) return [];
+
+  const { data: preferences, error: preferencesError } = await serviceClient
+    .from('notification_preferences')
+    .select('user_id, transactions, settlements, comments, invitations, muted_group_ids')
+    .in('user_id', userIds);
+
+  if (preferencesError) throw preferencesError;
+
+  const optedOut = new Set(
+    (preferences || [])
+      .filter((p: Record<string, unknown>) =>
+        p[event.type] === false
+        || (!!event.groupId && (p.muted_group_ids as string[] || []).includes(event.groupId))
+      )
+      .map((p: { user_id: string }) => p.user_id)
+  );
+
+  return userIds.filter(userId => !optedOut.has(userId));
+}
+
+async function getTitleAndActorName(serviceClient: SupabaseClient, event: NotificationEvent): Promise<{ title: string; actorName: string }> {
+  const [{ data: group }, { data: actor }] = await Promise.all([
+    event.groupId
+      ? serviceClient.from('groups').select('name').eq('id', event.groupId).maybeSingle()
+      : Promise.resolve({ data: null }),
+    serviceClient.from('profiles').select('full_name').eq('id', event.actorId).maybeSingle(),
+  ]);
+
+  return {
+    title: group?.name || 'ShareMoney',
+    actorName: actor?.full_name || 'Someone',
+  };
+}
+
+/**
+ * Sends a push for an event to everyone it affects. Never throws.
+ */
+export async function dispatchNotification(event: NotificationEvent): Promise<void> {
+  if (!SUPABASE_SERVICE_ROLE_KEY) {
+    log.warn('SUPABASE_SERVICE_ROLE_KEY not set, skipping push notifications', 'notifications');
+    return;
+  }
+
+  try {
+    const serviceClient = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    });
+
+    const recipients = await resolveRecipients(serviceClient, event);
+    if (recipients.length === 0) return;
+
+    const { data: tokens, error: tokensError } = await serviceClient
+      .from('push_tokens')
+      .select('token')
+      .in('user_id', recipients);
+
+    if (tokensError) throw tokensError;
+    if (!tokens || tokens.length === 0) return;
+
+    const { title, actorName } = await getTitleAndActorName(serviceClient, event);
+    const data = { type: event.type, group_id: event.groupId ?? null, ...event.data };
+
+    const { invalidTokens } = await pushSender.send(
+      tokens.map((t: { token: string }) => ({
+        to: t.token,
+        title,
+        body: `${actorName} ${event.message}`,
+        data,
+      }))
+    );
+
+    if (invalidTokens.length > 0) {
+      await serviceClient.from('push_tokens').delete().in('token', invalidTokens);
+    }
+  } catch (error) {
+    log.warn('Could not send push notifications', 'notifications', {
+      type: event.type,
+      groupId: event.groupId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
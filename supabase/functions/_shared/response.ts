@@ -29,6 +29,28 @@ export function createSuccessResponse(
   });
 }
 
+/**
+ * Creates a file download response (e.g. ledger exports)
+ */
+export function createFileResponse(
+  content: string,
+  contentType: string,
+  fileName: string,
+  req?: Request
+): Response {
+  return new Response(content, {
+    status: 200,
+    headers: {
+      ...getCorsHeaders(req),
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+      'Cache-Control': 'no-cache, no-store, must-revalidate',
+      'Pragma': 'no-cache',
+      'Expires': '0',
+    },
+  });
+}
+
 /**
  * Creates an empty response (for DELETE, etc.)
  */
@@ -83,12 +83,148 @@ export function validateTransactionData(data: {
   return { valid: true };
 }
 
+export const SPLIT_MODES = ['equal', 'exact', 'percentage', 'shares', 'itemized'] as const;
+export type SplitMode = typeof SPLIT_MODES[number];
+
+/**
+ * Validates split mode and per-participant split values.
+ * Sums are checked against the transaction amount by the caller.
+ */
+export function validateSplitValues(
+  mode: unknown,
+  values: unknown
+): TransactionValidationResult {
+  if (typeof mode !== 'string' || !SPLIT_MODES.includes(mode as SplitMode)) {
+    return { valid: false, error: `split_mode must be one of: ${SPLIT_MODES.join(', ')}` };
+  }
+
+  // Itemized splits are described by items instead (see validateItemizedSplit)
+  if (mode === 'equal' || mode === 'itemized') {
+    return { valid: true };
+  }
+
+  if (!Array.isArray(values) || values.length === 0) {
+    return { valid: false, error: `split_values are required for ${mode} splits` };
+  }
+
+  const seen = new Set<string>();
+  for (const entry of values) {
+    if (!entry || typeof entry !== 'object') {
+      return { valid: false, error: 'Each split value must be an object with participant_id and value' };
+    }
+    const { participant_id, value } = entry as { participant_id?: unknown; value?: unknown };
+    if (typeof participant_id !== 'string' || !isValidUUID(participant_id)) {
+      return { valid: false, error: 'Invalid participant_id in split_values. Expected UUID.' };
+    }
+    if (seen.has(participant_id)) {
+      return { valid: false, error: `Duplicate participant_id in split_values: ${participant_id}` };
+    }
+    seen.add(participant_id);
+    if (typeof value !== 'number' || !isFinite(value) || value <= 0) {
+      return { valid: false, error: 'Split values must be positive numbers' };
+    }
+    if (mode === 'percentage' && value > 100) {
+      return { valid: false, error: 'Split percentages cannot exceed 100' };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validates the line items, tax and tip of an itemized split.
+ * The total is checked against the transaction amount by the caller.
+ */
+export function validateItemizedSplit(
+  items: unknown,
+  taxAmount: unknown,
+  tipAmount: unknown
+): TransactionValidationResult {
+  if (!Array.isArray(items) || items.length === 0) {
+    return { valid: false, error: 'items are required for itemized splits' };
+  }
+  if (items.length > 100) {
+    return { valid: false, error: 'An itemized split can have at most 100 items' };
+  }
+
+  for (const item of items) {
+    if (!item || typeof item !== 'object') {
+      return { valid: false, error: 'Each item must be an object with name, unit_price, quantity and participant_ids' };
+    }
+    const { name, unit_price, quantity, participant_ids } = item as {
+      name?: unknown;
+      unit_price?: unknown;
+      quantity?: unknown;
+      participant_ids?: unknown;
+    };
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      return { valid: false, error: 'Item name is required' };
+    }
+    if (name.length > 255) {
+      return { valid: false, error: 'Item name must be 255 characters or less' };
+    }
+    if (typeof unit_price !== 'number' || !isFinite(unit_price) || unit_price < 0) {
+      return { valid: false, error: 'Item unit_price must be a non-negative number' };
+    }
+    if (quantity !== undefined && (typeof quantity !== 'number' || !isFinite(quantity) || quantity <= 0)) {
+      return { valid: false, error: 'Item quantity must be a positive number' };
+    }
+    if (!Array.isArray(participant_ids) || participant_ids.length === 0) {
+      return { valid: false, error: `Item "${name}" must be assigned to at least one participant` };
+    }
+    if (participant_ids.some((id) => typeof id !== 'string' || !isValidUUID(id))) {
+      return { valid: false, error: 'Invalid participant_id in item participant_ids. Expected UUID.' };
+    }
+  }
+
+  for (const [field, value] of [['tax_amount', taxAmount], ['tip_amount', tipAmount]] as const) {
+    if (value !== undefined && value !== null && (typeof value !== 'number' || !isFinite(value) || value < 0)) {
+      return { valid: false, error: `${field} must be a non-negative number` };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validates the payers of a multi-payer expense.
+ * The sum is checked against the transaction amount by the caller.
+ */
+export function validatePayers(payers: unknown): TransactionValidationResult {
+  if (!Array.isArray(payers) || payers.length === 0) {
+    return { valid: false, error: 'payers must be a non-empty array' };
+  }
+
+  const seen = new Set<string>();
+  for (const payer of payers) {
+    if (!payer || typeof payer !== 'object') {
+      return { valid: false, error: 'Each payer must be an object with participant_id and amount' };
+    }
+    const { participant_id, amount } = payer as { participant_id?: unknown; amount?: unknown };
+    if (typeof participant_id !== 'string' || !isValidUUID(participant_id)) {
+      return { valid: false, error: 'Invalid participant_id in payers. Expected UUID.' };
+    }
+    if (seen.has(participant_id)) {
+      return { valid: false, error: `Duplicate participant_id in payers: ${participant_id}` };
+    }
+    seen.add(participant_id);
+    if (typeof amount !== 'number' || !isFinite(amount) || amount <= 0) {
+      return { valid: false, error: 'Payer amounts must be positive numbers' };
+    }
+  }
+
+  return { valid: true };
+}
+
 /**
  * Validates group data
  */
 export function validateGroupData(data: {
   name?: string;
-  description?: string;
+  description?: string | null;
+  default_currency?: string | null;
+  emoji?: string | null;
+  cover_color?: string | null;
 }): TransactionValidationResult {
   if (data.name !== undefined) {
     if (typeof data.name !== 'string') {
@@ -112,6 +248,196 @@ export function validateGroupData(data: {
     }
   }
 
+  if (data.default_currency !== undefined && data.default_currency !== null) {
+    if (typeof data.default_currency !== 'string' || data.default_currency.trim().length !== 3) {
+      return { valid: false, error: 'Currency must be a 3-character code (e.g., USD)' };
+    }
+  }
+
+  if (data.emoji !== undefined && data.emoji !== null) {
+    if (typeof data.emoji !== 'string' || data.emoji.length > 16) {
+      return { valid: false, error: 'Emoji must be a single emoji' };
+    }
+  }
+
+  if (data.cover_color !== undefined && data.cover_color !== null) {
+    if (typeof data.cover_color !== 'string' || !/^#[0-9A-Fa-f]{6}$/.test(data.cover_color)) {
+      return { valid: false, error: 'Cover color must be a hex color (e.g., #4CAF50)' };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validates category data. Fields are optional so updates can send a subset.
+ */
+export function validateCategoryData(data: {
+  name?: string;
+  icon?: string;
+  color?: string;
+  position?: number;
+}): TransactionValidationResult {
+  if (data.name !== undefined) {
+    if (typeof data.name !== 'string' || data.name.trim().length === 0) {
+      return { valid: false, error: 'Name cannot be empty' };
+    }
+    if (data.name.trim().length > 50) {
+      return { valid: false, error: 'Name too long (max 50 characters)' };
+    }
+  }
+
+  if (data.icon !== undefined) {
+    if (typeof data.icon !== 'string' || !/^[a-z0-9-]{1,64}$/.test(data.icon)) {
+      return { valid: false, error: 'Icon must be an icon name (e.g., food)' };
+    }
+  }
+
+  if (data.color !== undefined) {
+    if (typeof data.color !== 'string' || !/^#[0-9A-Fa-f]{6}$/.test(data.color)) {
+      return { valid: false, error: 'Color must be a hex color (e.g., #4CAF50)' };
+    }
+  }
+
+  if (data.position !== undefined) {
+    if (typeof data.position !== 'number' || !Number.isInteger(data.position) || data.position < 0) {
+      return { valid: false, error: 'Position must be a non-negative integer' };
+    }
+  }
+
+  return { valid: true };
+}
+
+export const BUDGET_PERIODS = ['total', 'monthly'] as const;
+export type BudgetPeriod = typeof BUDGET_PERIODS[number];
+
+/**
+ * Validates budget data. Fields are optional so updates can send a subset.
+ */
+export function validateBudgetData(data: {
+  category_id?: string | null;
+  amount?: number;
+  currency?: string;
+  period?: string;
+}): TransactionValidationResult {
+  if (data.category_id !== undefined && data.category_id !== null && !isValidUUID(data.category_id)) {
+    return { valid: false, error: 'Invalid category_id format. Expected UUID.' };
+  }
+
+  if (data.amount !== undefined) {
+    if (typeof data.amount !== 'number' || isNaN(data.amount) || data.amount <= 0) {
+      return { valid: false, error: 'Amount must be a positive number' };
+    }
+    if (data.amount > 1000000000) {
+      return { valid: false, error: 'Amount exceeds maximum limit (1,000,000,000)' };
+    }
+  }
+
+  if (data.currency !== undefined) {
+    if (typeof data.currency !== 'string' || data.currency.trim().length !== 3) {
+      return { valid: false, error: 'Currency must be a 3-character code (e.g., USD)' };
+    }
+  }
+
+  if (data.period !== undefined && !BUDGET_PERIODS.includes(data.period as BudgetPeriod)) {
+    return { valid: false, error: `Period must be one of: ${BUDGET_PERIODS.join(', ')}` };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validates comment data. Fields are optional so edits can send a subset.
+ */
+export function validateCommentData(data: {
+  body?: string;
+  mentioned_participant_ids?: unknown;
+}): TransactionValidationResult {
+  if (data.body !== undefined) {
+    if (typeof data.body !== 'string' || data.body.trim().length === 0) {
+      return { valid: false, error: 'Comment cannot be empty' };
+    }
+    if (data.body.length > 2000) {
+      return { valid: false, error: 'Comment too long (max 2000 characters)' };
+    }
+  }
+
+  if (data.mentioned_participant_ids !== undefined) {
+    if (!Array.isArray(data.mentioned_participant_ids)) {
+      return { valid: false, error: 'mentioned_participant_ids must be an array' };
+    }
+    if (data.mentioned_participant_ids.length > 50) {
+      return { valid: false, error: 'Too many mentions (max 50)' };
+    }
+    if (data.mentioned_participant_ids.some(id => typeof id !== 'string' || !isValidUUID(id))) {
+      return { valid: false, error: 'Invalid mentioned_participant_ids format. Expected UUIDs.' };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validates the optional reason given when disputing a settlement
+ */
+export function validateDisputeReason(reason: unknown): TransactionValidationResult {
+  if (reason === undefined || reason === null) {
+    return { valid: true };
+  }
+  if (typeof reason !== 'string') {
+    return { valid: false, error: 'reason must be a string' };
+  }
+  if (reason.length > 500) {
+    return { valid: false, error: 'reason too long (max 500 characters)' };
+  }
+  return { valid: true };
+}
+
+export const PUSH_PLATFORMS = ['ios', 'android', 'web'] as const;
+
+/**
+ * Validates a push token registration
+ */
+export function validatePushTokenData(data: {
+  token?: unknown;
+  platform?: unknown;
+}): TransactionValidationResult {
+  if (typeof data.token !== 'string' || data.token.trim().length === 0) {
+    return { valid: false, error: 'token is required' };
+  }
+  if (data.token.length > 255) {
+    return { valid: false, error: 'token too long (max 255 characters)' };
+  }
+
+  if (!PUSH_PLATFORMS.includes(data.platform as typeof PUSH_PLATFORMS[number])) {
+    return { valid: false, error: `platform must be one of: ${PUSH_PLATFORMS.join(', ')}` };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validates notification preferences. Fields are optional so updates can send a subset.
+ */
+export function validateNotificationPreferences(data: Record<string, unknown>): TransactionValidationResult {
+  for (const key of ['transactions', 'settlements', 'comments', 'invitations', 'weekly_digest']) {
+    if (data[key] !== undefined && typeof data[key] !== 'boolean') {
+      return { valid: false, error: `${key} must be a boolean value` };
+    }
+  }
+
+  if (data.muted_group_ids !== undefined) {
+    if (!Array.isArray(data.muted_group_ids)) {
+      return { valid: false, error: 'muted_group_ids must be an array' };
+    }
+    if (data.muted_group_ids.length > 500) {
+      return { valid: false, error: 'Too many muted groups (max 500)' };
+    }
+    if (data.muted_group_ids.some(id => typeof id !== 'string' || !isValidUUID(id))) {
+      return { valid: false, error: 'Invalid muted_group_ids format. Expected UUIDs.' };
+    }
+  }
+
   return { valid: true };
 }
 
@@ -1,4 +1,5 @@
-import { generateActivityDescription } from '../_shared/activityDescriptions.ts';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { generateActivityDescription, generateMemberActivityDescription } from '../_shared/activityDescriptions.ts';
 import { verifyAuth } from '../_shared/auth.ts';
 import { ACTIVITY_FEED_CONFIG } from '../_shared/constants.ts';
 import { createErrorResponse, handleError } from '../_shared/error-handler.ts';
@@ -6,15 +7,32 @@ import { log } from '../_shared/logger.ts';
 import { createEmptyResponse, createSuccessResponse } from '../_shared/response.ts';
 import { fetchUserEmails } from '../_shared/user-email.ts';
 import { fetchUserProfiles } from '../_shared/user-profiles.ts';
-import { isValidUUID } from '../_shared/validation.ts';
+import { parsePath } from '../_shared/path-parser.ts';
+import { isValidDate, isValidUUID, validateBodySize } from '../_shared/validation.ts';
 
 /**
  * Activity Edge Function
  * 
- * Returns activity feed for a group showing transaction and settlement history:
- * - GET /activity?group_id=xxx&limit=50&offset=0 - Get activity feed with pagination
+ * Returns activity feed for a group showing transaction, settlement and group
+ * settings history, comments and membership changes:
+ * - GET /activity?group_id=xxx&limit=50 - A page of the group's activity,
+ *   newest first. Returns { activities, next_cursor, has_more }; pass
+ *   next_cursor back as cursor for the following page. Also accepts type
+ *   (comma-separated: transaction, settlement, group, comment, member),
+ *   actor_id (user who made the change), from and to (dates), and
+ *   transaction_id or settlement_id.
+ * - GET /activity - Inbox: the same feed merged across all of the user's
+ *   groups, with group_name and is_read on each item and unread_count
+ * - POST /activity/read - Mark the inbox read up to read_until (default now)
  * 
- * Activity items include created/updated/deleted transactions and settlements.
+ * Activity items include created/updated/deleted/restored transactions and
+ * settlements (deleting moves them to the trash),
+ * group settings changes, archiving and restoring, new comments, members
+ * joining, leaving, being removed or re-added and being invited, and payment
+ * reminders (in the settlement category).
+ * 
+ * Membership events and payment reminders come from group_activity and are
+ * merged with transaction_history by time.
  * 
  * @route /functions/v1/activity
  * @requires Authentication
@@ -44,6 +62,29 @@ interface SettlementSnapshot {
   amount: number;
   currency: string;
   notes?: string;
+  status?: 'pending' | 'confirmed' | 'disputed';
+  dispute_reason?: string | null;
+  created_by: string;
+  created_at: string;
+}
+
+interface GroupSnapshot {
+  id: string;
+  name: string;
+  description?: string | null;
+  default_currency?: string | null;
+  settlement_currency?: string | null;
+  emoji?: string | null;
+  cover_color?: string | null;
+  archived_at?: string | null;
+}
+
+interface CommentSnapshot {
+  id: string;
+  body: string;
+  transaction_id: number | null;
+  settlement_id: string | null;
+  mentioned_participant_ids?: string[];
   created_by: string;
   created_at: string;
 }
@@ -55,27 +96,64 @@ interface ChangesDiff {
   };
 }
 
+type HistoryAction = 'created' | 'updated' | 'deleted' | 'archived' | 'restored';
+
+type MembershipAction =
+  | 'member_added'
+  | 'member_left'
+  | 'member_removed'
+  | 'member_reactivated'
+  | 'invite_created'
+  | 'invite_cancelled'
+  | 'invite_accepted';
+
+type GroupActivityAction = MembershipAction | 'reminder_sent';
+
+interface GroupActivityRecord {
+  id: string;
+  group_id: string;
+  actor_id: string | null;
+  target_user_id: string | null;
+  target_email: string | null;
+  action: GroupActivityAction;
+  metadata: Record<string, unknown>;
+  created_at: string;
+}
+
+interface MemberDetails {
+  user_id: string | null;
+  email: string | null;
+  full_name: string | null;
+}
+
+interface ReminderDetails {
+  amounts: { amount: number; currency: string }[];
+}
+
 interface HistoryChanges {
-  action: 'created' | 'updated' | 'deleted';
+  action: HistoryAction;
   diff?: ChangesDiff;
   transaction?: TransactionSnapshot;
   settlement?: SettlementSnapshot;
   transaction_id?: number;
   settlement_id?: string;
+  comment?: CommentSnapshot;
 }
 
 interface HistorySnapshot {
   transaction?: TransactionSnapshot;
   settlement?: SettlementSnapshot;
+  group?: GroupSnapshot;
+  comment?: CommentSnapshot;
 }
 
 interface TransactionHistory {
   id: string;
   transaction_id: number | null;
   settlement_id: string | null;
-  activity_type: 'transaction' | 'settlement';
+  activity_type: 'transaction' | 'settlement' | 'group' | 'comment';
   group_id: string;
-  action: 'created' | 'updated' | 'deleted';
+  action: HistoryAction;
   changed_by: string;
   changed_at: string;
   changes: HistoryChanges;
@@ -83,15 +161,19 @@ interface TransactionHistory {
 }
 
 interface ActivityItemDetails {
-  action: 'created' | 'updated' | 'deleted';
+  action: HistoryAction | GroupActivityAction;
   changes?: ChangesDiff;
   transaction?: TransactionSnapshot;
   settlement?: SettlementSnapshot;
+  group?: GroupSnapshot;
+  comment?: CommentSnapshot;
+  member?: MemberDetails;
+  reminder?: ReminderDetails;
 }
 
 interface ActivityItem {
   id: string;
-  type: 'transaction_created' | 'transaction_updated' | 'transaction_deleted' | 'settlement_created' | 'settlement_updated' | 'settlement_deleted';
+  type: 'transaction_created' | 'transaction_updated' | 'transaction_deleted' | 'transaction_restored' | 'settlement_created' | 'settlement_updated' | 'settlement_deleted' | 'settlement_restored' | 'settlement_confirmed' | 'settlement_disputed' | 'group_updated' | 'group_archived' | 'group_restored' | 'comment_created' | 'member_joined' | 'member_added' | 'member_left' | 'member_removed' | 'member_reactivated' | 'member_invited' | 'invitation_cancelled' | 'payment_reminder';
   transaction_id?: number;
   settlement_id?: string;
   group_id: string;
@@ -104,6 +186,9 @@ interface ActivityItem {
   changed_at: string;
   description: string;
   details: ActivityItemDetails;
+  // Inbox only
+  group_name?: string;
+  is_read?: boolean;
 }
 
 // Email fetching now handled by shared utility
@@ -208,7 +293,8 @@ async function buildEmailMapForHistory(
   currentUserId: string,
   currentUserEmail: string | null,
   supabase: any,
-  groupId: string
+  groupId: string,
+  memberEvents: GroupActivityRecord[] = []
 ): Promise<{ 
   emailMap: Map<string, string>; 
   profileMap: Map<string, { full_name: string | null; avatar_url: string | null }>;
@@ -218,11 +304,15 @@ async function buildEmailMapForHistory(
   const profileMap = new Map<string, { full_name: string | null; avatar_url: string | null }>();
   const participantMap = new Map<string, Participant>();
   
-  if (historyRecords.length === 0) {
+  if (historyRecords.length === 0 && memberEvents.length === 0) {
     return { emailMap, profileMap, participantMap };
   }
 
   const userIds = collectUserIdsFromHistory(historyRecords);
+  memberEvents.forEach((event) => {
+    if (event.actor_id) userIds.add(event.actor_id);
+    if (event.target_user_id) userIds.add(event.target_user_id);
+  });
   const participantIds = new Set<string>();
 
   historyRecords.forEach((h: TransactionHistory) => {
@@ -319,6 +409,11 @@ function extractSnapshot(
     return {};
   }
 
+  // Comments keep the commented transaction or settlement
+  if (history.activity_type === 'comment') {
+    return { transaction: snapshot.transaction, settlement: snapshot.settlement };
+  }
+
   if (history.activity_type === 'settlement') {
     if ((snapshot as any).settlement) {
       return { settlement: (snapshot as any).settlement as SettlementSnapshot };
@@ -352,11 +447,31 @@ function transformHistoryToActivity(
   const activityType = history.activity_type || 'transaction';
   const action = history.action;
   
-  const typeMap: Record<string, ActivityItem['type']> = {
-    'created': activityType === 'settlement' ? 'settlement_created' : 'transaction_created',
-    'updated': activityType === 'settlement' ? 'settlement_updated' : 'transaction_updated',
-    'deleted': activityType === 'settlement' ? 'settlement_deleted' : 'transaction_deleted',
-  };
+  const typeMap: Record<string, ActivityItem['type']> = activityType === 'comment'
+    ? {
+      'created': 'comment_created',
+    }
+    : activityType === 'group'
+    ? {
+      'updated': 'group_updated',
+      'archived': 'group_archived',
+      'restored': 'group_restored',
+    }
+    : {
+      'created': activityType === 'settlement' ? 'settlement_created' : 'transaction_created',
+      'updated': activityType === 'settlement' ? 'settlement_updated' : 'transaction_updated',
+      'deleted': activityType === 'settlement' ? 'settlement_deleted' : 'transaction_deleted',
+      'restored': activityType === 'settlement' ? 'settlement_restored' : 'transaction_restored',
+    };
+
+  // A settlement update that only changes its status is the receiver responding
+  const diffFields = Object.keys(history.changes?.diff || {})
+    .filter(field => !['status_changed_by', 'status_changed_at', 'dispute_reason'].includes(field));
+  const newStatus = history.changes?.diff?.status?.new;
+  if (activityType === 'settlement' && action === 'updated' && diffFields.length === 1) {
+    if (newStatus === 'confirmed') typeMap.updated = 'settlement_confirmed';
+    if (newStatus === 'disputed') typeMap.updated = 'settlement_disputed';
+  }
 
   const details: ActivityItemDetails = {
     action: action,
@@ -368,7 +483,13 @@ function transformHistoryToActivity(
 
   const snapshot = extractSnapshot(history);
 
-  if (activityType === 'settlement') {
+  if (activityType === 'comment') {
+    details.comment = history.snapshot?.comment;
+    details.transaction = snapshot.transaction;
+    details.settlement = snapshot.settlement;
+  } else if (activityType === 'group') {
+    details.group = history.snapshot?.group;
+  } else if (activityType === 'settlement') {
     if (snapshot.settlement) {
       details.settlement = snapshot.settlement;
     } else if (history.changes?.settlement) {
@@ -400,16 +521,294 @@ function transformHistoryToActivity(
   };
 }
 
+function transformMemberEventToActivity(
+  event: GroupActivityRecord,
+  emailMap: Map<string, string>,
+  profileMap: Map<string, { full_name: string | null; avatar_url: string | null }>,
+  participantMap: Map<string, Participant>
+): ActivityItem {
+  const isSelf = !!event.target_user_id && event.actor_id === event.target_user_id;
+  const typeMap: Record<GroupActivityAction, ActivityItem['type']> = {
+    'member_added': isSelf ? 'member_joined' : 'member_added',
+    'member_reactivated': 'member_reactivated',
+    'member_left': 'member_left',
+    'member_removed': isSelf ? 'member_left' : 'member_removed',
+    'invite_created': 'member_invited',
+    'invite_cancelled': 'invitation_cancelled',
+    'invite_accepted': 'member_joined',
+    'reminder_sent': 'payment_reminder',
+  };
+
+  const actorId = event.actor_id || event.target_user_id || '';
+
+  return {
+    id: event.id,
+    type: typeMap[event.action],
+    group_id: event.group_id,
+    changed_by: {
+      id: actorId,
+      email: emailMap.get(actorId) || 'Unknown User',
+      full_name: profileMap.get(actorId)?.full_name || null,
+      avatar_url: profileMap.get(actorId)?.avatar_url || null,
+    },
+    changed_at: event.created_at,
+    description: generateMemberActivityDescription(event, emailMap, participantMap),
+    details: {
+      action: event.action,
+      member: {
+        user_id: event.target_user_id,
+        email: event.target_user_id ? emailMap.get(event.target_user_id) || null : event.target_email,
+        full_name: event.target_user_id ? profileMap.get(event.target_user_id)?.full_name || null : null,
+      },
+      ...(event.action === 'reminder_sent' && {
+        reminder: { amounts: (event.metadata.amounts as ReminderDetails['amounts']) || [] },
+      }),
+    },
+  };
+}
+
+const HISTORY_FIELDS = 'id, transaction_id, settlement_id, activity_type, group_id, action, changed_by, changed_at, changes, snapshot';
+const MEMBER_EVENT_FIELDS = 'id, group_id, actor_id, target_user_id, target_email, action, metadata, created_at';
+
+const ACTIVITY_CATEGORIES = ['transaction', 'settlement', 'group', 'comment', 'member'] as const;
+type ActivityCategory = typeof ACTIVITY_CATEGORIES[number];
+
+interface ActivityFilters {
+  categories?: ActivityCategory[];
+  actorId?: string;
+  from?: string;
+  to?: string;
+  transactionId?: number;
+  settlementId?: string;
+  before?: { at: string; id: string };
+}
+
+type FeedEntry =
+  | { at: string; id: string; history: TransactionHistory }
+  | { at: string; id: string; member: GroupActivityRecord };
+
+/**
+ * Cursors are opaque to clients: the time and id of the last item on the
+ * previous page, base64 encoded.
+ */
+function encodeCursor(entry: { at: string; id: string }): string {
+  return btoa(`${entry.at}|${entry.id}`);
+}
+
+function decodeCursor(cursor: string): { at: string; id: string } | null {
+  try {
+    const [at, id] = atob(cursor).split('|');
+    if (!at || isNaN(Date.parse(at)) || !isValidUUID(id)) {
+      return null;
+    }
+    return { at, id };
+  } catch {
+    return null;
+  }
+}
+
+function nextDay(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString().slice(0, 10);
+}
+
+/**
+ * Reads the feed filters from the query string. Returns an error message for
+ * the first invalid one.
+ */
+function parseActivityParams(params: URLSearchParams): { filters?: ActivityFilters; error?: string } {
+  const filters: ActivityFilters = {};
+
+  const cursor = params.get('cursor');
+  if (cursor) {
+    const decoded = decodeCursor(cursor);
+    if (!decoded) {
+      return { error: 'Invalid cursor' };
+    }
+    filters.before = decoded;
+  }
+
+  const type = params.get('type');
+  if (type) {
+    const categories = type.split(',').map((value) => value.trim()).filter(Boolean);
+    const invalid = categories.find((value) => !(ACTIVITY_CATEGORIES as readonly string[]).includes(value));
+    if (invalid) {
+      return { error: `type must be a comma-separated list of ${ACTIVITY_CATEGORIES.join(', ')}` };
+    }
+    filters.categories = categories as ActivityCategory[];
+  }
+
+  const actorId = params.get('actor_id');
+  if (actorId) {
+    if (!isValidUUID(actorId)) {
+      return { error: 'Invalid actor_id format. Expected UUID.' };
+    }
+    filters.actorId = actorId;
+  }
+
+  for (const param of ['from', 'to'] as const) {
+    const value = params.get(param);
+    if (value) {
+      if (!isValidDate(value)) {
+        return { error: `${param} must be a date (YYYY-MM-DD)` };
+      }
+      filters[param] = value;
+    }
+  }
+
+  const transactionId = params.get('transaction_id');
+  if (transactionId) {
+    if (!/^\d+$/.test(transactionId)) {
+      return { error: 'Invalid transaction_id' };
+    }
+    filters.transactionId = parseInt(transactionId, 10);
+  }
+
+  const settlementId = params.get('settlement_id');
+  if (settlementId) {
+    if (!isValidUUID(settlementId)) {
+      return { error: 'Invalid settlement_id format. Expected UUID.' };
+    }
+    filters.settlementId = settlementId;
+  }
+
+  return { filters };
+}
+
+/**
+ * One page (plus one row) of transaction_history matching the filters
+ */
+function queryHistory(supabase: SupabaseClient, groupIds: string[], filters: ActivityFilters, limit: number) {
+  const categories = filters.categories?.filter((category) => category !== 'member');
+  if (categories && categories.length === 0) {
+    return Promise.resolve({ data: [] as TransactionHistory[], error: null });
+  }
+
+  let query = supabase
+    .from('transaction_history')
+    .select(HISTORY_FIELDS)
+    .in('group_id', groupIds);
+
+  if (categories) query = query.in('activity_type', categories);
+  if (filters.actorId) query = query.eq('changed_by', filters.actorId);
+  if (filters.from) query = query.gte('changed_at', filters.from);
+  if (filters.to) query = query.lt('changed_at', nextDay(filters.to));
+  if (filters.transactionId) query = query.eq('transaction_id', filters.transactionId);
+  if (filters.settlementId) query = query.eq('settlement_id', filters.settlementId);
+  if (filters.before) {
+    const { at, id } = filters.before;
+    query = query.or(`changed_at.lt."${at}",and(changed_at.eq."${at}",id.lt.${id})`);
+  }
+
+  return query
+    .order('changed_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1);
+}
+
+/**
+ * One page (plus one row) of membership events and payment reminders
+ * matching the filters
+ */
+function queryMemberEvents(supabase: SupabaseClient, groupIds: string[], filters: ActivityFilters, limit: number) {
+  const includeMembers = !filters.categories || filters.categories.includes('member');
+  const includeReminders = !filters.categories || filters.categories.includes('settlement');
+
+  // Neither is tied to a transaction or a recorded settlement
+  if ((!includeMembers && !includeReminders) || filters.transactionId || filters.settlementId) {
+    return Promise.resolve({ data: [] as GroupActivityRecord[], error: null });
+  }
+
+  let query = supabase
+    .from('group_activity')
+    .select(MEMBER_EVENT_FIELDS)
+    .in('group_id', groupIds)
+    // The member_added or member_reactivated row already covers it
+    .neq('action', 'invite_accepted');
+
+  if (!includeMembers) query = query.eq('action', 'reminder_sent');
+  if (!includeReminders) query = query.neq('action', 'reminder_sent');
+
+  if (filters.actorId) query = query.eq('actor_id', filters.actorId);
+  if (filters.from) query = query.gte('created_at', filters.from);
+  if (filters.to) query = query.lt('created_at', nextDay(filters.to));
+  if (filters.before) {
+    const { at, id } = filters.before;
+    query = query.or(`created_at.lt."${at}",and(created_at.eq."${at}",id.lt.${id})`);
+  }
+
+  return query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1);
+}
+
+/**
+ * Newest first, ties broken by id like the queries. PostgREST returns every
+ * timestamp in the same UTC format, so they compare as strings.
+ */
+function compareEntries(a: FeedEntry, b: FeedEntry): number {
+  if (a.at !== b.at) return a.at < b.at ? 1 : -1;
+  if (a.id !== b.id) return a.id < b.id ? 1 : -1;
+  return 0;
+}
+
+/**
+ * Number of items in the inbox by other members since the read watermark
+ */
+async function countUnread(
+  supabase: SupabaseClient,
+  groupIds: string[],
+  userId: string,
+  lastReadAt: string | null
+): Promise<number> {
+  let historyQuery = supabase
+    .from('transaction_history')
+    .select('id', { count: 'exact', head: true })
+    .in('group_id', groupIds)
+    .neq('changed_by', userId);
+  let memberQuery = supabase
+    .from('group_activity')
+    .select('id', { count: 'exact', head: true })
+    .in('group_id', groupIds)
+    .neq('action', 'invite_accepted')
+    .neq('actor_id', userId);
+
+  if (lastReadAt) {
+    historyQuery = historyQuery.gt('changed_at', lastReadAt);
+    memberQuery = memberQuery.gt('created_at', lastReadAt);
+  }
+
+  const [historyResult, memberResult] = await Promise.all([historyQuery, memberQuery]);
+  const error = historyResult.error || memberResult.error;
+  if (error) {
+    log.error('Unread count query error', 'activity-feed', {
+      error: error.message,
+      code: error.code,
+    });
+    return 0;
+  }
+
+  return (historyResult.count || 0) + (memberResult.count || 0);
+}
+
 Deno.serve(async (req: Request) => {
   if (req.method === 'OPTIONS') {
     return createEmptyResponse(200, req);
   }
 
   try {
-    if (req.method !== 'GET') {
+    if (req.method !== 'GET' && req.method !== 'POST') {
       return createErrorResponse(405, 'Method not allowed', 'METHOD_NOT_ALLOWED', undefined, req);
     }
 
+    const body = await req.text().catch(() => null);
+    const bodySizeValidation = validateBodySize(body);
+    if (!bodySizeValidation.valid) {
+      return createErrorResponse(413, bodySizeValidation.error || 'Request body too large', 'VALIDATION_ERROR', undefined, req);
+    }
+
     let authResult;
     try {
       authResult = await verifyAuth(req);
@@ -420,85 +819,180 @@ Deno.serve(async (req: Request) => {
     const { user, supabase } = authResult;
 
     const url = new URL(req.url);
-    const groupId = url.searchParams.get('group_id');
-    
-    if (!groupId) {
-      return createErrorResponse(400, 'Missing required parameter: group_id', 'VALIDATION_ERROR', undefined, req);
+
+    if (req.method === 'POST') {
+      if (parsePath(url.pathname).id !== 'read') {
+        return createErrorResponse(404, 'Not found', 'NOT_FOUND', undefined, req);
+      }
+
+      let requestData: { read_until?: string };
+      try {
+        requestData = body ? JSON.parse(body) : {};
+      } catch {
+        return createErrorResponse(400, 'Invalid JSON in request body', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      if (requestData.read_until !== undefined && isNaN(Date.parse(requestData.read_until))) {
+        return createErrorResponse(400, 'read_until must be a timestamp', 'VALIDATION_ERROR', undefined, req);
+      }
+      const readUntil = requestData.read_until
+        ? new Date(requestData.read_until).toISOString()
+        : new Date().toISOString();
+
+      const { data: state } = await supabase
+        .from('activity_inbox_state')
+        .select('last_read_at')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      // The watermark only moves forward
+      if (state && new Date(state.last_read_at) >= new Date(readUntil)) {
+        return createSuccessResponse({ last_read_at: state.last_read_at }, 200, 0, req);
+      }
+
+      const { data: updatedState, error: upsertError } = await supabase
+        .from('activity_inbox_state')
+        .upsert(
+          { user_id: user.id, last_read_at: readUntil, updated_at: new Date().toISOString() },
+          { onConflict: 'user_id' }
+        )
+        .select('last_read_at')
+        .single();
+
+      if (upsertError) {
+        return handleError(upsertError, 'marking activity read', req);
+      }
+
+      return createSuccessResponse(updatedState, 200, 0, req);
     }
 
-    if (!isValidUUID(groupId)) {
+    const groupId = url.searchParams.get('group_id');
+
+    if (groupId && !isValidUUID(groupId)) {
       return createErrorResponse(400, 'Invalid group_id format. Expected UUID.', 'VALIDATION_ERROR', undefined, req);
     }
 
-    const { data: membership, error: membershipError } = await supabase
-      .from('group_members')
-      .select('id')
-      .eq('group_id', groupId)
-      .eq('user_id', user.id)
-      .eq('status', 'active')
-      .single();
-
-    if (membershipError || !membership) {
-      return createErrorResponse(403, 'You must be a member of the group to view activity', 'PERMISSION_DENIED', undefined, req);
+    const { filters, error: paramsError } = parseActivityParams(url.searchParams);
+    if (paramsError || !filters) {
+      return createErrorResponse(400, paramsError || 'Invalid parameters', 'VALIDATION_ERROR', undefined, req);
     }
 
+    const limitParam = parseInt(url.searchParams.get('limit') || String(ACTIVITY_FEED_CONFIG.DEFAULT_LIMIT), 10);
     const limit = Math.min(
-      parseInt(url.searchParams.get('limit') || String(ACTIVITY_FEED_CONFIG.DEFAULT_LIMIT)), 
+      isNaN(limitParam) || limitParam < 1 ? ACTIVITY_FEED_CONFIG.DEFAULT_LIMIT : limitParam,
       ACTIVITY_FEED_CONFIG.MAX_LIMIT
     );
-    const offset = parseInt(url.searchParams.get('offset') || '0');
 
-    const { data: historyRecords, error: historyError } = await supabase
-      .from('transaction_history')
-      .select('id, transaction_id, settlement_id, activity_type, group_id, action, changed_by, changed_at, changes, snapshot')
-      .eq('group_id', groupId)
-      .order('changed_at', { ascending: false })
-      .range(offset, offset + limit - 1);
+    let groupIds: string[];
+    if (groupId) {
+      const { data: membership, error: membershipError } = await supabase
+        .from('group_members')
+        .select('id')
+        .eq('group_id', groupId)
+        .eq('user_id', user.id)
+        .eq('status', 'active')
+        .single();
+
+      if (membershipError || !membership) {
+        return createErrorResponse(403, 'You must be a member of the group to view activity', 'PERMISSION_DENIED', undefined, req);
+      }
+      groupIds = [groupId];
+    } else {
+      // Inbox: every group the user is an active member of
+      const { data: memberships, error: membershipsError } = await supabase
+        .from('group_members')
+        .select('group_id')
+        .eq('user_id', user.id)
+        .eq('status', 'active');
+
+      if (membershipsError) {
+        return handleError(membershipsError, 'fetching group memberships', req);
+      }
+      groupIds = (memberships || []).map((m: { group_id: string }) => m.group_id);
+
+      if (groupIds.length === 0) {
+        return createSuccessResponse({ activities: [], next_cursor: null, has_more: false, unread_count: 0 }, 200, 0, req);
+      }
+    }
+
+    const [
+      { data: historyRecords, error: historyError },
+      { data: memberRecords, error: memberError },
+    ] = await Promise.all([
+      queryHistory(supabase, groupIds, filters, limit),
+      queryMemberEvents(supabase, groupIds, filters, limit),
+    ]);
 
     if (historyError) {
       return handleError(historyError, 'fetching transaction history', req);
     }
 
+    if (memberError) {
+      return handleError(memberError, 'fetching membership activity', req);
+    }
+
+    const entries: FeedEntry[] = [
+      ...(historyRecords || []).map((h: TransactionHistory) => ({ at: h.changed_at, id: h.id, history: h })),
+      ...(memberRecords || []).map((m: GroupActivityRecord) => ({ at: m.created_at, id: m.id, member: m })),
+    ].sort(compareEntries);
+
+    const page = entries.slice(0, limit);
+    const hasMore = entries.length > limit;
+
+    const pageHistory = page.flatMap((entry) => ('history' in entry ? [entry.history] : []));
+    const pageMembers = page.flatMap((entry) => ('member' in entry ? [entry.member] : []));
+
     const { emailMap, profileMap, participantMap } = await buildEmailMapForHistory(
-      historyRecords || [],
+      pageHistory,
       user.id,
       user.email || null,
       supabase,
-      groupId
+      groupId || '',
+      pageMembers
     );
 
-    const activities: ActivityItem[] = (historyRecords || []).map((h: TransactionHistory) => 
-      transformHistoryToActivity(h, emailMap, profileMap, participantMap)
+    const activities: ActivityItem[] = page.map((entry) =>
+      'history' in entry
+        ? transformHistoryToActivity(entry.history, emailMap, profileMap, participantMap)
+        : transformMemberEventToActivity(entry.member, emailMap, profileMap, participantMap)
     );
 
-    const countQuery = supabase
-      .from('transaction_history')
-      .select('id', { count: 'exact', head: true })
-      .eq('group_id', groupId);
-    
-    const { count, error: countError } = await countQuery;
+    const response: {
+      activities: ActivityItem[];
+      next_cursor: string | null;
+      has_more: boolean;
+      unread_count?: number;
+    } = {
+      activities,
+      next_cursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
+      has_more: hasMore,
+    };
 
-    let total: number;
-    let hasMore: boolean;
-    
-    if (countError) {
-      log.error('Count query error', 'activity-feed', {
-        error: countError.message,
-        code: countError.code,
-        groupId,
+    if (!groupId) {
+      const [{ data: state }, { data: groups }] = await Promise.all([
+        supabase
+          .from('activity_inbox_state')
+          .select('last_read_at')
+          .eq('user_id', user.id)
+          .maybeSingle(),
+        supabase
+          .from('groups')
+          .select('id, name')
+          .in('id', [...new Set(activities.map((a) => a.group_id))]),
+      ]);
+
+      const lastReadAt: string | null = state?.last_read_at || null;
+      const groupNames = new Map<string, string>((groups || []).map((g: { id: string; name: string }) => [g.id, g.name]));
+
+      activities.forEach((activity) => {
+        activity.group_name = groupNames.get(activity.group_id);
+        activity.is_read = activity.changed_by.id === user.id ||
+          (!!lastReadAt && new Date(activity.changed_at) <= new Date(lastReadAt));
       });
-      total = activities.length;
-      hasMore = activities.length >= limit;
-    } else {
-      total = count || 0;
-      hasMore = offset + activities.length < total;
+      response.unread_count = await countUnread(supabase, groupIds, user.id, lastReadAt);
     }
 
-    return createSuccessResponse({
-      activities,
-      total,
-      has_more: hasMore,
-    }, 200, 0, req);
+    return createSuccessResponse(response, 200, 0, req);
   } catch (error: unknown) {
     return handleError(error, 'activity handler', req);
   }
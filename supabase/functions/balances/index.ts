@@ -1,25 +1,20 @@
 import { verifyAuth } from '../_shared/auth.ts';
+import { Balance, BalanceConversion, calculateGroupBalances } from '../_shared/balances.ts';
+import { SimplifiedDebt, simplifyDebts } from '../_shared/debt-simplification.ts';
 import { createErrorResponse, handleError } from '../_shared/error-handler.ts';
-import { log } from '../_shared/logger.ts';
+import { fetchGroupExchangeRates } from '../_shared/exchange-rates.ts';
 import { createEmptyResponse, createSuccessResponse } from '../_shared/response.ts';
 import { fetchUserEmails } from '../_shared/user-email.ts';
 import { fetchUserProfiles } from '../_shared/user-profiles.ts';
 import { isValidUUID } from '../_shared/validation.ts';
 
-interface Balance {
-  user_id: string;
-  participant_id?: string;
-  email?: string;
-  full_name?: string | null;
-  avatar_url?: string | null;
-  amount: number;
-  currency: string;
-}
-
 interface GroupBalance {
   group_id: string;
   group_name: string;
   balances: Balance[];
+  converted_currency?: string | null; // Set when balances were converted (convert=true)
+  missing_rates?: string[]; // Currencies left unconverted because no rate is known
+  simplified_debts?: SimplifiedDebt[]; // Suggested transfers (simplify=true)
 }
 
 interface BalancesResponse {
@@ -27,30 +22,10 @@ interface BalancesResponse {
   overall_balances: Balance[];
 }
 
-interface GroupMember {
-  user_id: string;
-}
-
 interface Group {
   id: string;
   name: string;
-}
-
-interface TransactionSplit {
-  participant_id?: string | null;
-  user_id?: string | null;
-  email?: string | null;
-  amount: number | string;
-}
-
-interface TransactionWithSplits {
-  id: number;
-  amount: number | string;
-  paid_by: string | null; // Legacy
-  paid_by_participant_id?: string | null; // New
-  currency: string;
-  split_among?: string[] | null;
-  transaction_splits?: TransactionSplit[];
+  settlement_currency?: string | null;
 }
 
 /**
@@ -58,176 +33,22 @@ interface TransactionWithSplits {
  * 
  * Calculates and returns balances between users in groups:
  * - GET /balances?group_id=xxx - Get balances (optionally filtered by group)
+ * - GET /balances?group_id=xxx&convert=true - Convert each group's balances
+ *   into its settlement currency
+ * - GET /balances?group_id=xxx&simplify=true - Also return the minimum set of
+ *   transfers that settles each group (simplified_debts)
+ * - GET /balances?group_id=xxx&confirmed_only=true - Only count settlements
+ *   the receiver has confirmed
  * 
  * Returns both per-group balances and overall balances across all groups.
+ * When converting, transactions use the rate recorded on them and fall back to
+ * the group's exchange_rates; amounts with no known rate stay in their own
+ * currency and are listed in missing_rates.
  * 
  * @route /functions/v1/balances
  * @requires Authentication
  */
 
-async function calculateGroupBalances(
-  supabase: any,
-  groupId: string,
-  currentUserId: string
-): Promise<Balance[]> {
-  const { data: transactions, error } = await supabase
-    .from('transactions')
-    .select(`
-      id,
-      amount,
-      paid_by_participant_id,
-      currency,
-      transaction_splits (
-        participant_id,
-        amount
-      )
-    `)
-    .eq('group_id', groupId)
-    .eq('type', 'expense');
-
-  if (error) {
-    log.error('Error fetching transactions', 'balance-calculation', { groupId, error: error.message });
-    throw error;
-  }
-
-  const { data: members } = await supabase
-    .from('group_members')
-    .select('user_id')
-    .eq('group_id', groupId);
-
-  const memberIds = new Set((members || []).map((m: GroupMember) => m.user_id));
-  
-  // Map<ParticipantId/UserId, Map<Currency, Amount>>
-  // We'll track by user_id where possible, fallback to participant_id for invited users
-  const balanceMap = new Map<string, Map<string, number>>();
-
-  const updateBalance = (key: string, currency: string, amount: number) => {
-    if (!balanceMap.has(key)) {
-      balanceMap.set(key, new Map());
-    }
-    const userBalances = balanceMap.get(key)!;
-    const currentAmount = userBalances.get(currency) || 0;
-    userBalances.set(currency, currentAmount + amount);
-  };
-
-  // 1. Fetch all participants to resolve user_ids and names
-  const { data: participants } = await supabase
-    .from('participants')
-    .select('id, user_id, email, full_name, avatar_url')
-    .eq('group_id', groupId);
-  
-  const participantToUserMap = new Map<string, string>();
-  const participantToEmailMap = new Map<string, string>();
-  const participantToFullNameMap = new Map<string, string>();
-  const participantToAvatarMap = new Map<string, string>();
-
-  if (participants) {
-    participants.forEach((p: any) => {
-      if (p.user_id) participantToUserMap.set(p.id, p.user_id);
-      if (p.email) participantToEmailMap.set(p.id, p.email);
-      if (p.full_name) participantToFullNameMap.set(p.id, p.full_name);
-      if (p.avatar_url) participantToAvatarMap.set(p.id, p.avatar_url);
-    });
-  }
-
-  // Process Transactions
-  for (const tx of (transactions || []) as TransactionWithSplits[]) {
-    const totalAmount = typeof tx.amount === 'string' ? parseFloat(tx.amount) : tx.amount;
-    const currency = tx.currency;
-    
-    if (isNaN(totalAmount)) continue;
-
-    const paidByPid = tx.paid_by_participant_id;
-    if (!paidByPid) continue;
-    
-    // Use Participant ID as the key for strict correctness
-    const paidByKey = paidByPid;
-
-      if (tx.transaction_splits && Array.isArray(tx.transaction_splits)) {
-        const splits = tx.transaction_splits
-          .map((s: TransactionSplit) => {
-            if (!s) return undefined;
-            const amount = typeof s.amount === 'string' ? parseFloat(s.amount) : s.amount;
-            if (!s.participant_id || isNaN(amount)) return undefined;
-            
-            return { pid: s.participant_id, amount };
-          })
-          .filter((s): s is { pid: string; amount: number } => !!s);
-
-        if (splits.length === 0) continue;
-
-        // Add credit to payer
-        updateBalance(paidByKey, currency, totalAmount);
-
-        // Add debit to each split participant
-        for (const split of splits) {
-          updateBalance(split.pid, currency, -split.amount);
-        }
-      }
-    }
-
-  // From settlements
-  const { data: settlements, error: settlementsError } = await supabase
-    .from('settlements')
-    .select('id, group_id, from_participant_id, to_participant_id, amount, currency')
-    .eq('group_id', groupId);
-
-  if (settlementsError) {
-    log.error('Error fetching settlements', 'balance-calculation', { groupId, error: settlementsError.message });
-    throw settlementsError;
-  }
-
-  // Process Settlements
-  for (const settlement of (settlements || [])) {
-    // strict PID usage
-    const fromKey = settlement.from_participant_id;
-    const toKey = settlement.to_participant_id;
-
-    if (!fromKey || !toKey) continue; 
-    
-    const settlementAmount = typeof settlement.amount === 'string' 
-      ? parseFloat(settlement.amount) 
-      : settlement.amount;
-    const currency = settlement.currency;
-
-    if (isNaN(settlementAmount) || settlementAmount <= 0) continue;
-
-    // From (sender) is less in debt (Credit)
-    updateBalance(fromKey, currency, settlementAmount);
-    // To (receiver) is less a creditor (Debit)
-    updateBalance(toKey, currency, -settlementAmount);
-  }
-
-  const balances: Balance[] = [];
-  
-  for (const [key, currencyMap] of balanceMap.entries()) {
-    // Return all balances (including current user) so frontend can calculate full graph
-    
-    for (const [currency, amount] of currencyMap.entries()) {
-      const roundedAmount = Math.round(amount * 100) / 100;
-      if (Math.abs(roundedAmount) > 0.01) {
-        // Find user_id, email and full_name using PID maps
-        const userId = participantToUserMap.get(key);
-        const email = participantToEmailMap.get(key);
-        const fullName = participantToFullNameMap.get(key);
-        const avatarUrl = participantToAvatarMap.get(key);
-        
-        balances.push({
-          user_id: userId || (isValidUUID(key) ? key : ''), // Return UserID if exists (crucial for aggregation)
-          participant_id: key, // KEY is now GUARANTEED to be Participant ID (UUID)
-          email: email,
-          full_name: fullName || null,
-          avatar_url: avatarUrl || null,
-          amount: roundedAmount,
-          currency: currency
-        });
-      }
-    }
-  }
-
-  return balances;
-}
-
 Deno.serve(async (req: Request) => {
   if (req.method === 'OPTIONS') {
     return createEmptyResponse(200, req);
@@ -247,6 +68,9 @@ Deno.serve(async (req: Request) => {
 
     const url = new URL(req.url);
     const groupId = url.searchParams.get('group_id');
+    const convert = url.searchParams.get('convert') === 'true';
+    const simplify = url.searchParams.get('simplify') === 'true';
+    const confirmedOnly = url.searchParams.get('confirmed_only') === 'true';
     
     if (groupId && !isValidUUID(groupId)) {
       return createErrorResponse(400, 'Invalid group_id format. Expected UUID.', 'VALIDATION_ERROR', undefined, req);
@@ -275,20 +99,35 @@ Deno.serve(async (req: Request) => {
 
     const { data: groups } = await supabase
       .from('groups')
-      .select('id, name')
+      .select('id, name, settlement_currency')
       .in('id', targetGroupIds);
 
     const groupMap = new Map((groups || []).map((g: Group) => [g.id, g.name]));
+    const settlementCurrencyMap = new Map<string, string | null>((groups || []).map((g: Group) => [g.id, g.settlement_currency || null]));
 
     const balancePromises = targetGroupIds.map(async (gId: string) => {
       try {
-        const balances = await calculateGroupBalances(supabase, gId, currentUserId);
+        const settlementCurrency = convert ? settlementCurrencyMap.get(gId) : null;
+        const conversion: BalanceConversion | undefined = settlementCurrency
+          ? {
+              currency: settlementCurrency,
+              rates: await fetchGroupExchangeRates(supabase, gId),
+              missingRates: new Set<string>(),
+            }
+          : undefined;
+
+        const balances = await calculateGroupBalances(supabase, gId, currentUserId, conversion, { confirmedOnly });
         const groupName = groupMap.get(gId) || 'Unknown Group';
-        return {
+        const groupBalance: GroupBalance = {
           group_id: gId,
           group_name: groupName,
           balances,
         };
+        if (convert) {
+          groupBalance.converted_currency = conversion?.currency || null;
+          groupBalance.missing_rates = conversion ? Array.from(conversion.missingRates) : [];
+        }
+        return groupBalance;
       } catch (error) {
         return {
           group_id: gId,
@@ -378,6 +217,17 @@ Deno.serve(async (req: Request) => {
       }
     }
 
+    // Group balances cover every participant, so the plan is the same for every viewer
+    if (simplify) {
+      for (const gb of groupBalances) {
+        gb.simplified_debts = simplifyDebts(
+          gb.balances
+            .filter((b) => !!b.participant_id)
+            .map((b) => ({ participant_id: b.participant_id!, amount: b.amount, currency: b.currency }))
+        );
+      }
+    }
+
     const response: BalancesResponse = {
       group_balances: groupBalances,
       overall_balances: overallBalances,
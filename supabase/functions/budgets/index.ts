@@ -0,0 +1,257 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { verifyAuth } from '../_shared/auth.ts';
+import { BUDGET_FIELDS, getBudgetStatuses } from '../_shared/budgets.ts';
+import { createErrorResponse, handleError } from '../_shared/error-handler.ts';
+import { createEmptyResponse, createSuccessResponse } from '../_shared/response.ts';
+import { isValidUUID, validateBodySize, validateBudgetData } from '../_shared/validation.ts';
+
+/**
+ * Budgets Edge Function
+ *
+ * Manages a group's budgets and reports spending against them:
+ * - GET /budgets?group_id=xxx - List budgets with spent, remaining and status
+ * - POST /budgets - Add a budget
+ * - PUT /budgets - Change a budget's amount, currency, period or category
+ * - DELETE /budgets?id=xxx - Delete a budget
+ *
+ * A budget covers the whole group ('total') or a calendar month
+ * ('monthly'), optionally for a single category. Spending counts the
+ * group's expenses in the budget's currency; monthly budgets report the
+ * current month. Status is 'warning' from 80% and 'exceeded' from 100%.
+ *
+ * @route /functions/v1/budgets
+ * @requires Authentication
+ */
+
+interface BudgetRequest {
+  id?: string;
+  group_id?: string;
+  category_id?: string | null;
+  amount?: number;
+  currency?: string;
+  period?: string;
+}
+
+async function isActiveMember(supabase: SupabaseClient, groupId: string, userId: string): Promise<boolean> {
+  const { data: membership, error } = await supabase
+    .from('group_members')
+    .select('id')
+    .eq('group_id', groupId)
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .maybeSingle();
+
+  return !error && !!membership;
+}
+
+async function isGroupCategory(supabase: SupabaseClient, categoryId: string, groupId: string): Promise<boolean> {
+  const { data: category, error } = await supabase
+    .from('group_categories')
+    .select('id')
+    .eq('id', categoryId)
+    .eq('group_id', groupId)
+    .maybeSingle();
+
+  return !error && !!category;
+}
+
+/**
+ * Whether another budget of the group already covers the same category, period and currency
+ */
+async function isScopeTaken(
+  supabase: SupabaseClient,
+  groupId: string,
+  scope: { category_id: string | null; period: string; currency: string },
+  excludeId?: string
+): Promise<boolean> {
+  let query = supabase
+    .from('group_budgets')
+    .select('id')
+    .eq('group_id', groupId)
+    .eq('period', scope.period)
+    .eq('currency', scope.currency);
+  query = scope.category_id ? query.eq('category_id', scope.category_id) : query.is('category_id', null);
+
+  const { data: budgets } = await query;
+  return (budgets || []).some((b: { id: string }) => b.id !== excludeId);
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return createEmptyResponse(200, req);
+  }
+
+  try {
+    const body = await req.text().catch(() => null);
+    const bodySizeValidation = validateBodySize(body);
+    if (!bodySizeValidation.valid) {
+      return createErrorResponse(413, bodySizeValidation.error || 'Request body too large', 'VALIDATION_ERROR', undefined, req);
+    }
+
+    let authResult;
+    try {
+      authResult = await verifyAuth(req);
+    } catch (authError) {
+      return handleError(authError, 'authentication', req);
+    }
+
+    const { user, supabase } = authResult;
+    const url = new URL(req.url);
+
+    if (req.method === 'GET') {
+      const groupId = url.searchParams.get('group_id');
+
+      if (!groupId || !isValidUUID(groupId)) {
+        return createErrorResponse(400, 'Valid group_id is required', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      try {
+        const statuses = await getBudgetStatuses(supabase, groupId);
+        return createSuccessResponse(statuses, 200, 0, req);
+      } catch (error) {
+        return handleError(error, 'fetching budgets', req);
+      }
+    }
+
+    if (req.method === 'DELETE') {
+      const budgetId = url.searchParams.get('id');
+
+      if (!budgetId || !isValidUUID(budgetId)) {
+        return createErrorResponse(400, 'Valid budget id is required', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      const { data: existingBudget, error: fetchError } = await supabase
+        .from('group_budgets')
+        .select('id, group_id')
+        .eq('id', budgetId)
+        .single();
+
+      if (fetchError || !existingBudget) {
+        return createErrorResponse(404, 'Budget not found', 'NOT_FOUND', undefined, req);
+      }
+
+      if (!(await isActiveMember(supabase, existingBudget.group_id, user.id))) {
+        return createErrorResponse(403, 'You must be an active member of the group to manage budgets', 'PERMISSION_DENIED', undefined, req);
+      }
+
+      const { error: deleteError } = await supabase
+        .from('group_budgets')
+        .delete()
+        .eq('id', budgetId);
+
+      if (deleteError) {
+        return handleError(deleteError, 'deleting budget', req);
+      }
+
+      return createEmptyResponse(204, req);
+    }
+
+    if (req.method !== 'POST' && req.method !== 'PUT') {
+      return createErrorResponse(405, 'Method not allowed', 'METHOD_NOT_ALLOWED', undefined, req);
+    }
+
+    let requestData: BudgetRequest;
+    try {
+      requestData = body ? JSON.parse(body) : {};
+    } catch {
+      return createErrorResponse(400, 'Invalid JSON in request body', 'VALIDATION_ERROR', undefined, req);
+    }
+
+    const validation = validateBudgetData(requestData);
+    if (!validation.valid) {
+      return createErrorResponse(400, validation.error || 'Invalid budget', 'VALIDATION_ERROR', undefined, req);
+    }
+    const currency = requestData.currency?.trim().toUpperCase();
+
+    if (req.method === 'POST') {
+      if (!requestData.group_id || !isValidUUID(requestData.group_id)) {
+        return createErrorResponse(400, 'Valid group_id is required', 'VALIDATION_ERROR', undefined, req);
+      }
+      if (requestData.amount === undefined || !currency || !requestData.period) {
+        return createErrorResponse(400, 'Missing required fields: amount, currency, period', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      if (!(await isActiveMember(supabase, requestData.group_id, user.id))) {
+        return createErrorResponse(403, 'You must be an active member of the group to manage budgets', 'PERMISSION_DENIED', undefined, req);
+      }
+
+      const categoryId = requestData.category_id || null;
+      if (categoryId && !(await isGroupCategory(supabase, categoryId, requestData.group_id))) {
+        return createErrorResponse(400, 'category_id must be a category of the group', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      if (await isScopeTaken(supabase, requestData.group_id, { category_id: categoryId, period: requestData.period, currency })) {
+        return createErrorResponse(400, 'A budget for this category, period and currency already exists', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      const { data: budget, error: insertError } = await supabase
+        .from('group_budgets')
+        .insert({
+          group_id: requestData.group_id,
+          category_id: categoryId,
+          amount: requestData.amount,
+          currency,
+          period: requestData.period,
+          created_by: user.id,
+        })
+        .select(BUDGET_FIELDS)
+        .single();
+
+      if (insertError) {
+        return handleError(insertError, 'creating budget', req);
+      }
+
+      return createSuccessResponse(budget, 201, 0, req);
+    }
+
+    // PUT
+    if (!requestData.id || !isValidUUID(requestData.id)) {
+      return createErrorResponse(400, 'Valid budget id is required', 'VALIDATION_ERROR', undefined, req);
+    }
+
+    const { data: existingBudget, error: fetchError } = await supabase
+      .from('group_budgets')
+      .select(BUDGET_FIELDS)
+      .eq('id', requestData.id)
+      .single();
+
+    if (fetchError || !existingBudget) {
+      return createErrorResponse(404, 'Budget not found', 'NOT_FOUND', undefined, req);
+    }
+
+    if (!(await isActiveMember(supabase, existingBudget.group_id, user.id))) {
+      return createErrorResponse(403, 'You must be an active member of the group to manage budgets', 'PERMISSION_DENIED', undefined, req);
+    }
+
+    if (requestData.category_id && !(await isGroupCategory(supabase, requestData.category_id, existingBudget.group_id))) {
+      return createErrorResponse(400, 'category_id must be a category of the group', 'VALIDATION_ERROR', undefined, req);
+    }
+
+    const scope = {
+      category_id: requestData.category_id !== undefined ? requestData.category_id || null : existingBudget.category_id,
+      period: requestData.period ?? existingBudget.period,
+      currency: currency ?? existingBudget.currency,
+    };
+    if (await isScopeTaken(supabase, existingBudget.group_id, scope, existingBudget.id)) {
+      return createErrorResponse(400, 'A budget for this category, period and currency already exists', 'VALIDATION_ERROR', undefined, req);
+    }
+
+    const updateData: Record<string, unknown> = { ...scope, updated_at: new Date().toISOString() };
+    if (requestData.amount !== undefined) updateData.amount = requestData.amount;
+
+    const { data: budget, error: updateError } = await supabase
+      .from('group_budgets')
+      .update(updateData)
+      .eq('id', requestData.id)
+      .select(BUDGET_FIELDS)
+      .single();
+
+    if (updateError) {
+      return handleError(updateError, 'updating budget', req);
+    }
+
+    return createSuccessResponse(budget, 200, 0, req);
+  } catch (error: unknown) {
+    return handleError(error, 'budgets handler', req);
+  }
+});
@@ -0,0 +1,246 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { verifyAuth } from '../_shared/auth.ts';
+import { createErrorResponse, handleError } from '../_shared/error-handler.ts';
+import { createEmptyResponse, createSuccessResponse } from '../_shared/response.ts';
+import { isValidUUID, validateBodySize, validateCategoryData } from '../_shared/validation.ts';
+
+/**
+ * Categories Edge Function
+ *
+ * Manages a group's expense categories (name, icon and color):
+ * - GET /categories?group_id=xxx - List categories in picker order
+ * - POST /categories - Add a category
+ * - PUT /categories - Rename or restyle a category, or move it (position)
+ * - DELETE /categories?id=xxx - Delete a category
+ *
+ * Groups start with a default set of categories. Names are unique within a
+ * group, ignoring case. Deleting a category leaves its transactions
+ * uncategorized; they keep the category name as text.
+ *
+ * @route /functions/v1/categories
+ * @requires Authentication
+ */
+
+interface CategoryRequest {
+  id?: string;
+  group_id?: string;
+  name?: string;
+  icon?: string;
+  color?: string;
+  position?: number;
+}
+
+const CATEGORY_FIELDS = 'id, group_id, name, icon, color, position, created_by, created_at, updated_at';
+
+async function isActiveMember(supabase: SupabaseClient, groupId: string, userId: string): Promise<boolean> {
+  const { data: membership, error } = await supabase
+    .from('group_members')
+    .select('id')
+    .eq('group_id', groupId)
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .maybeSingle();
+
+  return !error && !!membership;
+}
+
+/**
+ * Whether another category in the group already uses the name (ignoring case)
+ */
+async function isNameTaken(supabase: SupabaseClient, groupId: string, name: string, excludeId?: string): Promise<boolean> {
+  const { data: categories } = await supabase
+    .from('group_categories')
+    .select('id, name')
+    .eq('group_id', groupId)
+    .ilike('name', name.replace(/[\\%_]/g, (char) => `\\${char}`));
+
+  return (categories || []).some((c: { id: string }) => c.id !== excludeId);
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return createEmptyResponse(200, req);
+  }
+
+  try {
+    const body = await req.text().catch(() => null);
+    const bodySizeValidation = validateBodySize(body);
+    if (!bodySizeValidation.valid) {
+      return createErrorResponse(413, bodySizeValidation.error || 'Request body too large', 'VALIDATION_ERROR', undefined, req);
+    }
+
+    let authResult;
+    try {
+      authResult = await verifyAuth(req);
+    } catch (authError) {
+      return handleError(authError, 'authentication', req);
+    }
+
+    const { user, supabase } = authResult;
+    const url = new URL(req.url);
+
+    if (req.method === 'GET') {
+      const groupId = url.searchParams.get('group_id');
+
+      if (!groupId || !isValidUUID(groupId)) {
+        return createErrorResponse(400, 'Valid group_id is required', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      const { data: categories, error } = await supabase
+        .from('group_categories')
+        .select(CATEGORY_FIELDS)
+        .eq('group_id', groupId)
+        .order('position', { ascending: true })
+        .order('name', { ascending: true });
+
+      if (error) {
+        return handleError(error, 'fetching categories', req);
+      }
+
+      return createSuccessResponse(categories || [], 200, 0, req);
+    }
+
+    if (req.method === 'DELETE') {
+      const categoryId = url.searchParams.get('id');
+
+      if (!categoryId || !isValidUUID(categoryId)) {
+        return createErrorResponse(400, 'Valid category id is required', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      const { data: existingCategory, error: fetchError } = await supabase
+        .from('group_categories')
+        .select('id, group_id')
+        .eq('id', categoryId)
+        .single();
+
+      if (fetchError || !existingCategory) {
+        return createErrorResponse(404, 'Category not found', 'NOT_FOUND', undefined, req);
+      }
+
+      if (!(await isActiveMember(supabase, existingCategory.group_id, user.id))) {
+        return createErrorResponse(403, 'You must be an active member of the group to manage categories', 'PERMISSION_DENIED', undefined, req);
+      }
+
+      const { error: deleteError } = await supabase
+        .from('group_categories')
+        .delete()
+        .eq('id', categoryId);
+
+      if (deleteError) {
+        return handleError(deleteError, 'deleting category', req);
+      }
+
+      return createEmptyResponse(204, req);
+    }
+
+    if (req.method !== 'POST' && req.method !== 'PUT') {
+      return createErrorResponse(405, 'Method not allowed', 'METHOD_NOT_ALLOWED', undefined, req);
+    }
+
+    let requestData: CategoryRequest;
+    try {
+      requestData = body ? JSON.parse(body) : {};
+    } catch {
+      return createErrorResponse(400, 'Invalid JSON in request body', 'VALIDATION_ERROR', undefined, req);
+    }
+
+    const validation = validateCategoryData(requestData);
+    if (!validation.valid) {
+      return createErrorResponse(400, validation.error || 'Invalid category', 'VALIDATION_ERROR', undefined, req);
+    }
+    const name = requestData.name?.trim();
+
+    if (req.method === 'POST') {
+      if (!requestData.group_id || !isValidUUID(requestData.group_id)) {
+        return createErrorResponse(400, 'Valid group_id is required', 'VALIDATION_ERROR', undefined, req);
+      }
+      if (!name) {
+        return createErrorResponse(400, 'Name is required', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      if (!(await isActiveMember(supabase, requestData.group_id, user.id))) {
+        return createErrorResponse(403, 'You must be an active member of the group to manage categories', 'PERMISSION_DENIED', undefined, req);
+      }
+
+      if (await isNameTaken(supabase, requestData.group_id, name)) {
+        return createErrorResponse(400, 'A category with this name already exists', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      // New categories go to the end of the picker unless a position is given
+      let position = requestData.position;
+      if (position === undefined) {
+        const { data: last } = await supabase
+          .from('group_categories')
+          .select('position')
+          .eq('group_id', requestData.group_id)
+          .order('position', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        position = (last?.position ?? -1) + 1;
+      }
+
+      const { data: category, error: insertError } = await supabase
+        .from('group_categories')
+        .insert({
+          group_id: requestData.group_id,
+          name,
+          icon: requestData.icon || undefined,
+          color: requestData.color || undefined,
+          position,
+          created_by: user.id,
+        })
+        .select(CATEGORY_FIELDS)
+        .single();
+
+      if (insertError) {
+        return handleError(insertError, 'creating category', req);
+      }
+
+      return createSuccessResponse(category, 201, 0, req);
+    }
+
+    // PUT
+    if (!requestData.id || !isValidUUID(requestData.id)) {
+      return createErrorResponse(400, 'Valid category id is required', 'VALIDATION_ERROR', undefined, req);
+    }
+
+    const { data: existingCategory, error: fetchError } = await supabase
+      .from('group_categories')
+      .select('id, group_id')
+      .eq('id', requestData.id)
+      .single();
+
+    if (fetchError || !existingCategory) {
+      return createErrorResponse(404, 'Category not found', 'NOT_FOUND', undefined, req);
+    }
+
+    if (!(await isActiveMember(supabase, existingCategory.group_id, user.id))) {
+      return createErrorResponse(403, 'You must be an active member of the group to manage categories', 'PERMISSION_DENIED', undefined, req);
+    }
+
+    if (name && await isNameTaken(supabase, existingCategory.group_id, name, existingCategory.id)) {
+      return createErrorResponse(400, 'A category with this name already exists', 'VALIDATION_ERROR', undefined, req);
+    }
+
+    const updateData: Record<string, unknown> = { updated_at: new Date().toISOString() };
+    if (name) updateData.name = name;
+    if (requestData.icon !== undefined) updateData.icon = requestData.icon;
+    if (requestData.color !== undefined) updateData.color = requestData.color;
+    if (requestData.position !== undefined) updateData.position = requestData.position;
+
+    const { data: category, error: updateError } = await supabase
+      .from('group_categories')
+      .update(updateData)
+      .eq('id', requestData.id)
+      .select(CATEGORY_FIELDS)
+      .single();
+
+    if (updateError) {
+      return handleError(updateError, 'updating category', req);
+    }
+
+    return createSuccessResponse(category, 200, 0, req);
+  } catch (error: unknown) {
+    return handleError(error, 'categories handler', req);
+  }
+});
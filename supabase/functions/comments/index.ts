@@ -0,0 +1,379 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { verifyAuth } from '../_shared/auth.ts';
+import { createErrorResponse, handleError } from '../_shared/error-handler.ts';
+import { dispatchNotification } from '../_shared/notifications.ts';
+import { createEmptyResponse, createSuccessResponse } from '../_shared/response.ts';
+import { fetchUserEmails } from '../_shared/user-email.ts';
+import { fetchUserProfiles } from '../_shared/user-profiles.ts';
+import { isValidUUID, validateBodySize, validateCommentData } from '../_shared/validation.ts';
+
+/**
+ * Comments Edge Function
+ *
+ * Discussion threads on group transactions and settlements:
+ * - GET /comments?transaction_id=123 or ?settlement_id=xxx - List the thread, oldest first
+ * - POST /comments - Add a comment (transaction_id or settlement_id, body)
+ * - PUT /comments - Edit your comment (id, body)
+ * - DELETE /comments?id=xxx - Delete your comment
+ *
+ * mentioned_participant_ids lists the participants mentioned (@name) in the
+ * body; they must belong to the group. New comments appear in the activity
+ * feed. Adding, editing or deleting a comment sends a push notification to
+ * the participants of its transaction or settlement and to those mentioned.
+ *
+ * @route /functions/v1/comments
+ * @requires Authentication
+ */
+
+interface CommentRequest {
+  id?: string;
+  transaction_id?: number;
+  settlement_id?: string;
+  body?: string;
+  mentioned_participant_ids?: string[];
+}
+
+interface CommentRow {
+  id: string;
+  group_id: string;
+  transaction_id: number | null;
+  settlement_id: string | null;
+  body: string;
+  mentioned_participant_ids: string[];
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  edited_at: string | null;
+}
+
+const COMMENT_FIELDS = 'id, group_id, transaction_id, settlement_id, body, mentioned_participant_ids, created_by, created_at, updated_at, edited_at';
+
+async function isActiveMember(supabase: SupabaseClient, groupId: string, userId: string): Promise<boolean> {
+  const { data: membership, error } = await supabase
+    .from('group_members')
+    .select('id')
+    .eq('group_id', groupId)
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .maybeSingle();
+
+  return !error && !!membership;
+}
+
+/**
+ * Returns the mentioned ids that are not participants of the group
+ */
+async function findInvalidMentions(supabase: SupabaseClient, groupId: string, participantIds: string[]): Promise<string[]> {
+  const uniqueIds = [...new Set(participantIds)];
+  if (uniqueIds.length === 0) return [];
+
+  const { data: participants } = await supabase
+    .from('participants')
+    .select('id')
+    .eq('group_id', groupId)
+    .in('id', uniqueIds);
+
+  const found = new Set((participants || []).map((p: { id: string }) => p.id));
+  return uniqueIds.filter(id => !found.has(id));
+}
+
+// Length of the comment excerpt in push notifications
+const NOTIFICATION_EXCERPT_LENGTH = 100;
+
+/**
+ * Notifies the participants of a comment's transaction or settlement, and
+ * the participants it mentions
+ */
+async function notifyCommentParticipants(
+  supabase: SupabaseClient,
+  comment: Pick<CommentRow, 'id' | 'group_id' | 'transaction_id' | 'settlement_id' | 'body' | 'mentioned_participant_ids'>,
+  actorId: string,
+  action: 'added' | 'edited' | 'deleted'
+): Promise<void> {
+  let label = 'a settlement';
+  let participantIds: string[] = [];
+
+  if (comment.transaction_id !== null) {
+    const { data: transaction } = await supabase
+      .from('transactions')
+      .select('description, paid_by_participant_id, transaction_splits ( participant_id ), transaction_payers ( participant_id )')
+      .eq('id', comment.transaction_id)
+      .maybeSingle();
+
+    if (transaction) {
+      label = `"${transaction.description}"`;
+      participantIds = [
+        transaction.paid_by_participant_id,
+        ...(transaction.transaction_splits || []).map((s: { participant_id: string | null }) => s.participant_id),
+        ...(transaction.transaction_payers || []).map((p: { participant_id: string }) => p.participant_id),
+      ];
+    }
+  } else if (comment.settlement_id) {
+    const { data: settlement } = await supabase
+      .from('settlements')
+      .select('from_participant_id, to_participant_id')
+      .eq('id', comment.settlement_id)
+      .maybeSingle();
+
+    if (settlement) {
+      participantIds = [settlement.from_participant_id, settlement.to_participant_id];
+    }
+  }
+
+  const excerpt = comment.body.length > NOTIFICATION_EXCERPT_LENGTH
+    ? `${comment.body.slice(0, NOTIFICATION_EXCERPT_LENGTH - 1)}…`
+    : comment.body;
+  const message = action === 'added'
+    ? `commented on ${label}: ${excerpt}`
+    : `${action} a comment on ${label}`;
+
+  await dispatchNotification({
+    type: 'comments',
+    actorId,
+    groupId: comment.group_id,
+    participantIds: [...participantIds, ...(comment.mentioned_participant_ids || [])],
+    message,
+    data: {
+      comment_id: comment.id,
+      transaction_id: comment.transaction_id,
+      settlement_id: comment.settlement_id,
+    },
+  });
+}
+
+/**
+ * Adds author details (name, email, avatar) to comments
+ */
+async function withAuthors(supabase: SupabaseClient, comments: CommentRow[], user: { id: string; email: string | null }) {
+  const authorIds = [...new Set(comments.map(c => c.created_by).filter((id): id is string => !!id))];
+  const [emailMap, profileMap] = await Promise.all([
+    fetchUserEmails(authorIds, user.id, user.email || null),
+    fetchUserProfiles(supabase, authorIds),
+  ]);
+
+  return comments.map(comment => ({
+    ...comment,
+    author: comment.created_by
+      ? {
+        id: comment.created_by,
+        email: emailMap.get(comment.created_by) || null,
+        full_name: profileMap.get(comment.created_by)?.full_name || null,
+        avatar_url: profileMap.get(comment.created_by)?.avatar_url || null,
+      }
+      : null,
+  }));
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return createEmptyResponse(200, req);
+  }
+
+  try {
+    const body = await req.text().catch(() => null);
+    const bodySizeValidation = validateBodySize(body);
+    if (!bodySizeValidation.valid) {
+      return createErrorResponse(413, bodySizeValidation.error || 'Request body too large', 'VALIDATION_ERROR', undefined, req);
+    }
+
+    let authResult;
+    try {
+      authResult = await verifyAuth(req);
+    } catch (authError) {
+      return handleError(authError, 'authentication', req);
+    }
+
+    const { user, supabase } = authResult;
+    const url = new URL(req.url);
+
+    if (req.method === 'GET') {
+      const transactionId = url.searchParams.get('transaction_id');
+      const settlementId = url.searchParams.get('settlement_id');
+
+      let query = supabase
+        .from('comments')
+        .select(COMMENT_FIELDS)
+        .order('created_at', { ascending: true });
+
+      if (transactionId && /^\d+$/.test(transactionId)) {
+        query = query.eq('transaction_id', parseInt(transactionId, 10));
+      } else if (settlementId && isValidUUID(settlementId)) {
+        query = query.eq('settlement_id', settlementId);
+      } else {
+        return createErrorResponse(400, 'Valid transaction_id or settlement_id is required', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      const { data: comments, error } = await query;
+
+      if (error) {
+        return handleError(error, 'fetching comments', req);
+      }
+
+      return createSuccessResponse(await withAuthors(supabase, comments || [], user), 200, 0, req);
+    }
+
+    if (req.method === 'DELETE') {
+      const commentId = url.searchParams.get('id');
+
+      if (!commentId || !isValidUUID(commentId)) {
+        return createErrorResponse(400, 'Valid comment id is required', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      const { data: existingComment, error: fetchError } = await supabase
+        .from('comments')
+        .select(COMMENT_FIELDS)
+        .eq('id', commentId)
+        .single();
+
+      if (fetchError || !existingComment) {
+        return createErrorResponse(404, 'Comment not found', 'NOT_FOUND', undefined, req);
+      }
+
+      if (existingComment.created_by !== user.id) {
+        return createErrorResponse(403, 'You can only delete your own comments', 'PERMISSION_DENIED', undefined, req);
+      }
+
+      const { error: deleteError } = await supabase
+        .from('comments')
+        .delete()
+        .eq('id', commentId);
+
+      if (deleteError) {
+        return handleError(deleteError, 'deleting comment', req);
+      }
+
+      await notifyCommentParticipants(supabase, existingComment, user.id, 'deleted');
+
+      return createEmptyResponse(204, req);
+    }
+
+    if (req.method !== 'POST' && req.method !== 'PUT') {
+      return createErrorResponse(405, 'Method not allowed', 'METHOD_NOT_ALLOWED', undefined, req);
+    }
+
+    let requestData: CommentRequest;
+    try {
+      requestData = body ? JSON.parse(body) : {};
+    } catch {
+      return createErrorResponse(400, 'Invalid JSON in request body', 'VALIDATION_ERROR', undefined, req);
+    }
+
+    const validation = validateCommentData(requestData);
+    if (!validation.valid) {
+      return createErrorResponse(400, validation.error || 'Invalid comment', 'VALIDATION_ERROR', undefined, req);
+    }
+    const commentBody = requestData.body?.trim();
+    const mentions = requestData.mentioned_participant_ids
+      ? [...new Set(requestData.mentioned_participant_ids)]
+      : undefined;
+
+    if (req.method === 'POST') {
+      if (!commentBody) {
+        return createErrorResponse(400, 'Comment body is required', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      const hasTransaction = requestData.transaction_id !== undefined && requestData.transaction_id !== null;
+      const hasSettlement = requestData.settlement_id !== undefined && requestData.settlement_id !== null;
+      if (hasTransaction === hasSettlement) {
+        return createErrorResponse(400, 'Provide either transaction_id or settlement_id', 'VALIDATION_ERROR', undefined, req);
+      }
+      if (hasTransaction && !Number.isInteger(requestData.transaction_id)) {
+        return createErrorResponse(400, 'Invalid transaction_id', 'VALIDATION_ERROR', undefined, req);
+      }
+      if (hasSettlement && !isValidUUID(requestData.settlement_id as string)) {
+        return createErrorResponse(400, 'Invalid settlement_id format. Expected UUID.', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      const { data: item, error: itemError } = hasTransaction
+        ? await supabase.from('transactions').select('id, group_id').eq('id', requestData.transaction_id).is('deleted_at', null).single()
+        : await supabase.from('settlements').select('id, group_id').eq('id', requestData.settlement_id).is('deleted_at', null).single();
+
+      if (itemError || !item) {
+        return createErrorResponse(404, hasTransaction ? 'Transaction not found' : 'Settlement not found', 'NOT_FOUND', undefined, req);
+      }
+      if (!item.group_id) {
+        return createErrorResponse(400, 'Only group transactions can have comments', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      if (!(await isActiveMember(supabase, item.group_id, user.id))) {
+        return createErrorResponse(403, 'You must be an active member of the group to comment', 'PERMISSION_DENIED', undefined, req);
+      }
+
+      const invalidMentions = await findInvalidMentions(supabase, item.group_id, mentions || []);
+      if (invalidMentions.length > 0) {
+        return createErrorResponse(400, `Invalid mentioned_participant_ids: ${invalidMentions.join(', ')}`, 'VALIDATION_ERROR', undefined, req);
+      }
+
+      const { data: comment, error: insertError } = await supabase
+        .from('comments')
+        .insert({
+          group_id: item.group_id,
+          transaction_id: hasTransaction ? requestData.transaction_id : null,
+          settlement_id: hasSettlement ? requestData.settlement_id : null,
+          body: commentBody,
+          mentioned_participant_ids: mentions || [],
+          created_by: user.id,
+        })
+        .select(COMMENT_FIELDS)
+        .single();
+
+      if (insertError) {
+        return handleError(insertError, 'creating comment', req);
+      }
+
+      await notifyCommentParticipants(supabase, comment, user.id, 'added');
+
+      const [commentWithAuthor] = await withAuthors(supabase, [comment], user);
+      return createSuccessResponse(commentWithAuthor, 201, 0, req);
+    }
+
+    // PUT
+    if (!requestData.id || !isValidUUID(requestData.id)) {
+      return createErrorResponse(400, 'Valid comment id is required', 'VALIDATION_ERROR', undefined, req);
+    }
+
+    const { data: existingComment, error: fetchError } = await supabase
+      .from('comments')
+      .select('id, group_id, created_by')
+      .eq('id', requestData.id)
+      .single();
+
+    if (fetchError || !existingComment) {
+      return createErrorResponse(404, 'Comment not found', 'NOT_FOUND', undefined, req);
+    }
+
+    if (existingComment.created_by !== user.id) {
+      return createErrorResponse(403, 'You can only edit your own comments', 'PERMISSION_DENIED', undefined, req);
+    }
+
+    if (mentions) {
+      const invalidMentions = await findInvalidMentions(supabase, existingComment.group_id, mentions);
+      if (invalidMentions.length > 0) {
+        return createErrorResponse(400, `Invalid mentioned_participant_ids: ${invalidMentions.join(', ')}`, 'VALIDATION_ERROR', undefined, req);
+      }
+    }
+
+    const now = new Date().toISOString();
+    const updateData: Record<string, unknown> = { updated_at: now, edited_at: now };
+    if (commentBody) updateData.body = commentBody;
+    if (mentions) updateData.mentioned_participant_ids = mentions;
+
+    const { data: comment, error: updateError } = await supabase
+      .from('comments')
+      .update(updateData)
+      .eq('id', requestData.id)
+      .select(COMMENT_FIELDS)
+      .single();
+
+    if (updateError) {
+      return handleError(updateError, 'updating comment', req);
+    }
+
+    await notifyCommentParticipants(supabase, comment, user.id, 'edited');
+
+    const [commentWithAuthor] = await withAuthors(supabase, [comment], user);
+    return createSuccessResponse(commentWithAuthor, 200, 0, req);
+  } catch (error: unknown) {
+    return handleError(error, 'comments handler', req);
+  }
+});
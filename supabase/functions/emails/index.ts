@@ -0,0 +1,447 @@
+import { createClient, SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { verifyAuth } from '../_shared/auth.ts';
+import { Balance, calculateGroupBalances } from '../_shared/balances.ts';
+import { formatCurrency } from '../_shared/currency.ts';
+import { simplifyDebts } from '../_shared/debt-simplification.ts';
+import { APP_URL, SUPABASE_SERVICE_ROLE_KEY, SUPABASE_URL } from '../_shared/env.ts';
+import { createErrorResponse, handleError } from '../_shared/error-handler.ts';
+import { log } from '../_shared/logger.ts';
+import { escapeHtml, MailMessage, sendMail } from '../_shared/mail.ts';
+import { parsePath } from '../_shared/path-parser.ts';
+import { createEmptyResponse, createSuccessResponse } from '../_shared/response.ts';
+import { fetchUserEmails } from '../_shared/user-email.ts';
+import { isValidUUID, validateBodySize } from '../_shared/validation.ts';
+
+/**
+ * Emails Edge Function
+ *
+ * Payment reminders and weekly digests:
+ * - POST /emails/reminders - Email a participant who owes money what they
+ *   owe and a settle-up link (group_id, participant_id). At most one reminder
+ *   per pair of participants every REMINDER_COOLDOWN_HOURS; sent reminders
+ *   show in the activity feed.
+ * - POST /emails/digests - Send the weekly digests that are due, in batches
+ *   of DIGEST_BATCH_SIZE. Called hourly by pg_cron with the service role key.
+ *
+ * Emails are sent through the transport in _shared/mail.ts.
+ *
+ * @route /functions/v1/emails
+ * @requires Authentication (service role key for /emails/digests)
+ */
+
+const REMINDER_COOLDOWN_HOURS = 24;
+const DIGEST_INTERVAL_DAYS = 7;
+const DIGEST_BATCH_SIZE = 50;
+// New expenses listed per group; the rest are counted
+const DIGEST_EXPENSES_LISTED = 5;
+
+interface Participant {
+  id: string;
+  user_id: string | null;
+  email: string | null;
+  full_name: string | null;
+}
+
+interface Amount {
+  amount: number;
+  currency: string;
+}
+
+interface DigestExpense {
+  group_id: string;
+  description: string;
+  amount: number | string;
+  currency: string;
+}
+
+interface DigestGroup {
+  name: string;
+  owes: Amount[];
+  owed: Amount[];
+  expenseCount: number;
+  expenses: DigestExpense[];
+}
+
+async function isActiveMember(supabase: SupabaseClient, groupId: string, userId: string): Promise<boolean> {
+  const { data: membership, error } = await supabase
+    .from('group_members')
+    .select('id')
+    .eq('group_id', groupId)
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .maybeSingle();
+
+  return !error && !!membership;
+}
+
+function formatAmounts(amounts: Amount[]): string {
+  return amounts.map(a => formatCurrency(a.amount, a.currency)).join(' and ');
+}
+
+function participantName(participant: { full_name?: string | null; email?: string | null } | undefined): string {
+  return participant?.full_name || participant?.email || 'Someone';
+}
+
+/**
+ * Builds a message from paragraphs; lines starting with "- " become list items
+ */
+function buildMessage(to: string, subject: string, paragraphs: string[], link?: { label: string; url: string }): MailMessage {
+  const text = [...paragraphs, ...(link ? [`${link.label}: ${link.url}`] : [])].join('\n\n');
+
+  const html = paragraphs.map(paragraph => {
+    const lines = paragraph.split('\n');
+    const items = lines.filter(line => line.startsWith('- '));
+    const heading = lines.filter(line => !line.startsWith('- ')).map(escapeHtml).join('<br>');
+    const list = items.length > 0
+      ? `<ul>${items.map(item => `<li>${escapeHtml(item.slice(2))}</li>`).join('')}</ul>`
+      : '';
+    return `${heading ? `<p>${heading}</p>` : ''}${list}`;
+  }).join('');
+
+  return {
+    to,
+    subject,
+    text,
+    html: link
+      ? `${html}<p><a href="${escapeHtml(link.url)}">${escapeHtml(link.label)}</a></p>`
+      : html,
+  };
+}
+
+async function handleReminder(req: Request, body: string | null): Promise<Response> {
+  let authResult;
+  try {
+    authResult = await verifyAuth(req);
+  } catch (authError) {
+    return handleError(authError, 'authentication', req);
+  }
+
+  const { user, supabase } = authResult;
+
+  let requestData: { group_id?: string; participant_id?: string };
+  try {
+    requestData = body ? JSON.parse(body) : {};
+  } catch {
+    return createErrorResponse(400, 'Invalid JSON in request body', 'VALIDATION_ERROR', undefined, req);
+  }
+
+  const { group_id: groupId, participant_id: participantId } = requestData;
+  if (!groupId || !isValidUUID(groupId) || !participantId || !isValidUUID(participantId)) {
+    return createErrorResponse(400, 'group_id and participant_id are required', 'VALIDATION_ERROR', undefined, req);
+  }
+
+  if (!(await isActiveMember(supabase, groupId, user.id))) {
+    return createErrorResponse(403, 'You must be an active member of the group to send reminders', 'PERMISSION_DENIED', undefined, req);
+  }
+
+  const { data: participants, error: participantsError } = await supabase
+    .from('participants')
+    .select('id, user_id, email, full_name')
+    .eq('group_id', groupId);
+
+  if (participantsError) {
+    return handleError(participantsError, 'fetching participants', req);
+  }
+
+  const participantMap = new Map<string, Participant>(
+    (participants || []).map((p: Participant) => [p.id, p])
+  );
+  const sender = (participants || []).find((p: Participant) => p.user_id === user.id) as Participant | undefined;
+  const debtor = participantMap.get(participantId);
+
+  if (!sender) {
+    return createErrorResponse(403, 'You are not a participant of this group', 'PERMISSION_DENIED', undefined, req);
+  }
+  if (!debtor) {
+    return createErrorResponse(404, 'Participant not found', 'NOT_FOUND', undefined, req);
+  }
+  if (debtor.id === sender.id) {
+    return createErrorResponse(400, 'You cannot send a reminder to yourself', 'VALIDATION_ERROR', undefined, req);
+  }
+
+  const cooldownStart = new Date(Date.now() - REMINDER_COOLDOWN_HOURS * 60 * 60 * 1000).toISOString();
+  const { data: recentReminder, error: recentError } = await supabase
+    .from('payment_reminders')
+    .select('id')
+    .eq('from_participant_id', sender.id)
+    .eq('to_participant_id', debtor.id)
+    .gte('created_at', cooldownStart)
+    .limit(1)
+    .maybeSingle();
+
+  if (recentError) {
+    return handleError(recentError, 'checking recent reminders', req);
+  }
+  if (recentReminder) {
+    return createErrorResponse(
+      429,
+      `You already reminded ${participantName(debtor)} in the last ${REMINDER_COOLDOWN_HOURS} hours`,
+      'RATE_LIMIT',
+      undefined,
+      req
+    );
+  }
+
+  const balances = await calculateGroupBalances(supabase, groupId, user.id);
+  const owed: Amount[] = balances
+    .filter(b => b.participant_id === debtor.id && b.amount < 0)
+    .map(b => ({ amount: Math.abs(b.amount), currency: b.currency }));
+
+  if (owed.length === 0) {
+    return createErrorResponse(400, `${participantName(debtor)} doesn't owe anything in this group`, 'VALIDATION_ERROR', undefined, req);
+  }
+
+  let recipient = debtor.email;
+  if (!recipient && debtor.user_id) {
+    const emailMap = await fetchUserEmails([debtor.user_id], user.id, user.email);
+    recipient = emailMap.get(debtor.user_id) || null;
+  }
+  if (!recipient) {
+    return createErrorResponse(400, `${participantName(debtor)} has no email address`, 'VALIDATION_ERROR', undefined, req);
+  }
+
+  const { data: group } = await supabase
+    .from('groups')
+    .select('name')
+    .eq('id', groupId)
+    .maybeSingle();
+  const groupName = group?.name || 'your group';
+
+  const transfers = simplifyDebts(
+    balances
+      .filter(b => !!b.participant_id)
+      .map(b => ({ participant_id: b.participant_id as string, amount: b.amount, currency: b.currency }))
+  )
+    .filter(debt => debt.from_participant_id === debtor.id)
+    .map(debt => `- ${formatCurrency(debt.amount, debt.currency)} to ${participantName(participantMap.get(debt.to_participant_id))}`);
+
+  const senderName = participantName(sender);
+  const message = buildMessage(
+    recipient,
+    `Reminder: you owe ${formatAmounts(owed)} in ${groupName}`,
+    [
+      `Hi ${debtor.full_name || 'there'},`,
+      `${senderName} sent you a reminder about your balance in "${groupName}". You owe ${formatAmounts(owed)}.`,
+      ...(transfers.length > 0 ? [`To settle up, pay:\n${transfers.join('\n')}`] : []),
+    ],
+    { label: 'Settle up in ShareMoney', url: `${APP_URL}settle-up?group_id=${groupId}` }
+  );
+
+  try {
+    await sendMail(message);
+  } catch (mailError) {
+    return handleError(mailError, 'sending reminder email', req);
+  }
+
+  const { data: reminder, error: insertError } = await supabase
+    .from('payment_reminders')
+    .insert({
+      group_id: groupId,
+      from_participant_id: sender.id,
+      to_participant_id: debtor.id,
+      sent_by: user.id,
+      amounts: owed,
+    })
+    .select()
+    .single();
+
+  if (insertError) {
+    return handleError(insertError, 'recording reminder', req);
+  }
+
+  return createSuccessResponse(reminder, 201, 0, req);
+}
+
+/**
+ * Collects each active group's balance and new expenses for one user
+ */
+async function buildDigestGroups(
+  serviceClient: SupabaseClient,
+  userId: string,
+  since: string,
+  balanceCache: Map<string, Promise<Balance[]>>
+): Promise<DigestGroup[]> {
+  const { data: memberships, error: membershipsError } = await serviceClient
+    .from('group_members')
+    .select('group_id, groups ( name )')
+    .eq('user_id', userId)
+    .eq('status', 'active');
+
+  if (membershipsError) throw membershipsError;
+  if (!memberships || memberships.length === 0) return [];
+
+  const groupIds = memberships.map((m: { group_id: string }) => m.group_id);
+
+  const [{ data: participants, error: participantsError }, { data: expenses, error: expensesError }] = await Promise.all([
+    serviceClient
+      .from('participants')
+      .select('id, group_id')
+      .eq('user_id', userId)
+      .in('group_id', groupIds),
+    serviceClient
+      .from('transactions')
+      .select('group_id, description, amount, currency')
+      .in('group_id', groupIds)
+      .eq('type', 'expense')
+      .is('deleted_at', null)
+      .gt('created_at', since)
+      .order('created_at', { ascending: false }),
+  ]);
+
+  if (participantsError) throw participantsError;
+  if (expensesError) throw expensesError;
+
+  const participantByGroup = new Map<string, string>(
+    (participants || []).map((p: { id: string; group_id: string }) => [p.group_id, p.id])
+  );
+
+  const groups: DigestGroup[] = [];
+  for (const membership of memberships as { group_id: string; groups: { name: string } | null }[]) {
+    const groupId = membership.group_id;
+    if (!balanceCache.has(groupId)) {
+      balanceCache.set(groupId, calculateGroupBalances(serviceClient, groupId, userId));
+    }
+    const participantId = participantByGroup.get(groupId);
+    const balances = (await balanceCache.get(groupId)!).filter(b => b.participant_id === participantId);
+    const groupExpenses = (expenses || []).filter((e: DigestExpense) => e.group_id === groupId);
+
+    groups.push({
+      name: membership.groups?.name || 'Group',
+      owes: balances.filter(b => b.amount < 0).map(b => ({ amount: Math.abs(b.amount), currency: b.currency })),
+      owed: balances.filter(b => b.amount > 0).map(b => ({ amount: b.amount, currency: b.currency })),
+      expenseCount: groupExpenses.length,
+      expenses: groupExpenses.slice(0, DIGEST_EXPENSES_LISTED),
+    });
+  }
+
+  return groups;
+}
+
+function buildDigestMessage(to: string, fullName: string | null, groups: DigestGroup[]): MailMessage {
+  const sections = groups.map(group => {
+    const balance = [
+      ...(group.owes.length > 0 ? [`You owe ${formatAmounts(group.owes)}`] : []),
+      ...(group.owed.length > 0 ? [`You are owed ${formatAmounts(group.owed)}`] : []),
+    ].join('; ') || 'You are settled up';
+
+    const expenses = group.expenseCount === 0
+      ? ['No new expenses']
+      : [
+        `${group.expenseCount} new expense${group.expenseCount === 1 ? '' : 's'}:`,
+        ...group.expenses.map(e => `- ${e.description}: ${formatCurrency(e.amount, e.currency)}`),
+        ...(group.expenseCount > group.expenses.length
+          ? [`- and ${group.expenseCount - group.expenses.length} more`]
+          : []),
+      ];
+
+    return [group.name, balance, ...expenses].join('\n');
+  });
+
+  return buildMessage(
+    to,
+    'Your weekly ShareMoney summary',
+    [`Hi ${fullName || 'there'},`, 'Here is what happened in your groups this week.', ...sections],
+    { label: 'Open ShareMoney', url: APP_URL }
+  );
+}
+
+async function handleDigests(req: Request): Promise<Response> {
+  if (!SUPABASE_SERVICE_ROLE_KEY || req.headers.get('Authorization') !== `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) {
+    return createErrorResponse(401, 'Service role key required', 'AUTH_ERROR', undefined, req);
+  }
+
+  const serviceClient = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  });
+
+  const now = new Date();
+  const dueBefore = new Date(now.getTime() - DIGEST_INTERVAL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data: due, error: dueError } = await serviceClient
+    .from('notification_preferences')
+    .select('user_id, last_digest_sent_at')
+    .eq('weekly_digest', true)
+    .or(`last_digest_sent_at.is.null,last_digest_sent_at.lt.${dueBefore}`)
+    .order('last_digest_sent_at', { ascending: true, nullsFirst: true })
+    .limit(DIGEST_BATCH_SIZE);
+
+  if (dueError) {
+    return handleError(dueError, 'fetching due digests', req);
+  }
+
+  const userIds = (due || []).map((d: { user_id: string }) => d.user_id);
+  const [emailMap, { data: profiles }] = await Promise.all([
+    fetchUserEmails(userIds, '', null),
+    serviceClient.from('profiles').select('id, full_name').in('id', userIds.length > 0 ? userIds : ['']),
+  ]);
+  const nameMap = new Map<string, string | null>(
+    (profiles || []).map((p: { id: string; full_name: string | null }) => [p.id, p.full_name])
+  );
+
+  // Members of the same group share that group's balances
+  const balanceCache = new Map<string, Promise<Balance[]>>();
+  let sent = 0;
+  let skipped = 0;
+  let failed = 0;
+
+  for (const { user_id: userId, last_digest_sent_at: lastSentAt } of (due || []) as { user_id: string; last_digest_sent_at: string | null }[]) {
+    try {
+      const email = emailMap.get(userId);
+      const groups = email ? await buildDigestGroups(serviceClient, userId, lastSentAt || dueBefore, balanceCache) : [];
+
+      if (email && groups.length > 0) {
+        await sendMail(buildDigestMessage(email, nameMap.get(userId) || null, groups));
+        sent++;
+      } else {
+        skipped++;
+      }
+
+      const { error: updateError } = await serviceClient
+        .from('notification_preferences')
+        .update({ last_digest_sent_at: now.toISOString() })
+        .eq('user_id', userId);
+
+      if (updateError) throw updateError;
+    } catch (error) {
+      failed++;
+      log.warn('Could not send weekly digest', 'emails', {
+        userId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return createSuccessResponse({ sent, skipped, failed }, 200, 0, req);
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return createEmptyResponse(200, req);
+  }
+
+  try {
+    const body = await req.text().catch(() => null);
+    const bodySizeValidation = validateBodySize(body);
+    if (!bodySizeValidation.valid) {
+      return createErrorResponse(413, bodySizeValidation.error || 'Request body too large', 'VALIDATION_ERROR', undefined, req);
+    }
+
+    const route = parsePath(new URL(req.url).pathname).id;
+    if (route !== 'reminders' && route !== 'digests') {
+      return createErrorResponse(404, 'Not found', 'NOT_FOUND', undefined, req);
+    }
+
+    if (req.method !== 'POST') {
+      return createErrorResponse(405, 'Method not allowed', 'METHOD_NOT_ALLOWED', undefined, req);
+    }
+
+    return route === 'reminders'
+      ? await handleReminder(req, body)
+      : await handleDigests(req);
+  } catch (error: unknown) {
+    return handleError(error, 'emails handler', req);
+  }
+});
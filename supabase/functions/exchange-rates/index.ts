@@ -0,0 +1,212 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { verifyAuth } from '../_shared/auth.ts';
+import { createErrorResponse, handleError } from '../_shared/error-handler.ts';
+import {
+  ExchangeRateParseResult,
+  ParsedExchangeRate,
+  fetchGroupExchangeRates,
+  parseExchangeRatesCsv,
+  parseExchangeRatesJson,
+} from '../_shared/exchange-rates.ts';
+import { createEmptyResponse, createSuccessResponse } from '../_shared/response.ts';
+import { isValidDate, isValidUUID, validateBodySize } from '../_shared/validation.ts';
+
+/**
+ * Exchange Rates Edge Function
+ *
+ * Manages the exchange rates a group uses to convert balances into its
+ * settlement currency:
+ * - GET /exchange-rates?group_id=xxx - List rates for a group
+ * - POST /exchange-rates - Add a rate, or import rates from CSV/JSON content
+ * - DELETE /exchange-rates?id=xxx - Delete a rate
+ *
+ * Rates are upserted on (group, base, quote, effective_date), so re-importing
+ * a file replaces rates for the same day.
+ *
+ * @route /functions/v1/exchange-rates
+ * @requires Authentication
+ */
+
+interface CreateExchangeRateRequest {
+  group_id: string;
+  base_currency?: string;
+  quote_currency?: string;
+  rate?: number;
+  effective_date?: string;
+  format?: 'csv' | 'json';
+  content?: string;
+}
+
+const MAX_IMPORT_ROWS = 500;
+
+async function isActiveMember(supabase: SupabaseClient, groupId: string, userId: string): Promise<boolean> {
+  const { data: membership, error } = await supabase
+    .from('group_members')
+    .select('id')
+    .eq('group_id', groupId)
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .maybeSingle();
+
+  return !error && !!membership;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return createEmptyResponse(200, req);
+  }
+
+  try {
+    const body = await req.text().catch(() => null);
+    const bodySizeValidation = validateBodySize(body);
+    if (!bodySizeValidation.valid) {
+      return createErrorResponse(413, bodySizeValidation.error || 'Request body too large', 'VALIDATION_ERROR', undefined, req);
+    }
+
+    let authResult;
+    try {
+      authResult = await verifyAuth(req);
+    } catch (authError) {
+      return handleError(authError, 'authentication', req);
+    }
+
+    const { user, supabase } = authResult;
+    const url = new URL(req.url);
+
+    if (req.method === 'GET') {
+      const groupId = url.searchParams.get('group_id');
+
+      if (!groupId || !isValidUUID(groupId)) {
+        return createErrorResponse(400, 'Valid group_id is required', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      const rates = await fetchGroupExchangeRates(supabase, groupId);
+      return createSuccessResponse(rates, 200, 0, req);
+    }
+
+    if (req.method === 'POST') {
+      let requestData: CreateExchangeRateRequest;
+      try {
+        requestData = body ? JSON.parse(body) : {};
+      } catch {
+        return createErrorResponse(400, 'Invalid JSON in request body', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      if (!requestData.group_id || !isValidUUID(requestData.group_id)) {
+        return createErrorResponse(400, 'Valid group_id is required', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      if (!(await isActiveMember(supabase, requestData.group_id, user.id))) {
+        return createErrorResponse(403, 'You must be an active member of the group to manage exchange rates', 'PERMISSION_DENIED', undefined, req);
+      }
+
+      const isImport = requestData.content !== undefined;
+      let parsedRates: ParsedExchangeRate[];
+
+      if (isImport) {
+        if (typeof requestData.content !== 'string' || !requestData.content.trim()) {
+          return createErrorResponse(400, 'Import content cannot be empty', 'VALIDATION_ERROR', undefined, req);
+        }
+        if (requestData.format !== 'csv' && requestData.format !== 'json') {
+          return createErrorResponse(400, 'format must be either "csv" or "json"', 'VALIDATION_ERROR', undefined, req);
+        }
+
+        const result: ExchangeRateParseResult = requestData.format === 'csv'
+          ? parseExchangeRatesCsv(requestData.content)
+          : parseExchangeRatesJson(requestData.content);
+        if (result.error) {
+          return createErrorResponse(400, result.error, 'VALIDATION_ERROR', undefined, req);
+        }
+        if (result.rates.length > MAX_IMPORT_ROWS) {
+          return createErrorResponse(400, `Too many rates in import (max ${MAX_IMPORT_ROWS})`, 'VALIDATION_ERROR', undefined, req);
+        }
+        parsedRates = result.rates;
+      } else {
+        const base = (requestData.base_currency || '').trim().toUpperCase();
+        const quote = (requestData.quote_currency || '').trim().toUpperCase();
+        if (base.length !== 3 || quote.length !== 3) {
+          return createErrorResponse(400, 'Currency must be a 3-character code (e.g., USD)', 'VALIDATION_ERROR', undefined, req);
+        }
+        if (base === quote) {
+          return createErrorResponse(400, 'Base and quote currency must differ', 'VALIDATION_ERROR', undefined, req);
+        }
+        if (typeof requestData.rate !== 'number' || !isFinite(requestData.rate) || requestData.rate <= 0) {
+          return createErrorResponse(400, 'Rate must be a positive number', 'VALIDATION_ERROR', undefined, req);
+        }
+        if (requestData.effective_date !== undefined && !isValidDate(requestData.effective_date)) {
+          return createErrorResponse(400, 'Invalid date format (expected YYYY-MM-DD)', 'VALIDATION_ERROR', undefined, req);
+        }
+        parsedRates = [{
+          base_currency: base,
+          quote_currency: quote,
+          rate: requestData.rate,
+          effective_date: requestData.effective_date,
+        }];
+      }
+
+      const today = new Date().toISOString().split('T')[0];
+      // Last entry wins when a file lists the same pair and day twice
+      const rows = new Map<string, Record<string, unknown>>();
+      for (const rate of parsedRates) {
+        const effectiveDate = rate.effective_date || today;
+        rows.set(`${rate.base_currency}:${rate.quote_currency}:${effectiveDate}`, {
+          group_id: requestData.group_id,
+          base_currency: rate.base_currency,
+          quote_currency: rate.quote_currency,
+          rate: rate.rate,
+          effective_date: effectiveDate,
+          source: isImport ? 'import' : 'manual',
+          created_by: user.id,
+        });
+      }
+
+      const { data: savedRates, error: upsertError } = await supabase
+        .from('exchange_rates')
+        .upsert(Array.from(rows.values()), { onConflict: 'group_id,base_currency,quote_currency,effective_date' })
+        .select('id, group_id, base_currency, quote_currency, rate, effective_date, source, created_by, created_at');
+
+      if (upsertError) {
+        return handleError(upsertError, 'saving exchange rates', req);
+      }
+
+      return createSuccessResponse(savedRates || [], 201, 0, req);
+    }
+
+    if (req.method === 'DELETE') {
+      const rateId = url.searchParams.get('id');
+
+      if (!rateId || !isValidUUID(rateId)) {
+        return createErrorResponse(400, 'Valid exchange rate id is required', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      const { data: existingRate, error: fetchError } = await supabase
+        .from('exchange_rates')
+        .select('id, group_id')
+        .eq('id', rateId)
+        .single();
+
+      if (fetchError || !existingRate) {
+        return createErrorResponse(404, 'Exchange rate not found', 'NOT_FOUND', undefined, req);
+      }
+
+      if (!(await isActiveMember(supabase, existingRate.group_id, user.id))) {
+        return createErrorResponse(403, 'You must be an active member of the group to manage exchange rates', 'PERMISSION_DENIED', undefined, req);
+      }
+
+      const { error: deleteError } = await supabase
+        .from('exchange_rates')
+        .delete()
+        .eq('id', rateId);
+
+      if (deleteError) {
+        return handleError(deleteError, 'deleting exchange rate', req);
+      }
+
+      return createEmptyResponse(204, req);
+    }
+
+    return createErrorResponse(405, 'Method not allowed', 'METHOD_NOT_ALLOWED', undefined, req);
+  } catch (error: unknown) {
+    return handleError(error, 'exchange-rates handler', req);
+  }
+});
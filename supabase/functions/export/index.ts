@@ -0,0 +1,386 @@
+import { verifyAuth } from '../_shared/auth.ts';
+import { calculateGroupBalances } from '../_shared/balances.ts';
+import { toCsvCell } from '../_shared/csv.ts';
+import { createErrorResponse, handleError } from '../_shared/error-handler.ts';
+import { createEmptyResponse, createFileResponse } from '../_shared/response.ts';
+import { isValidUUID } from '../_shared/validation.ts';
+
+/**
+ * Export Edge Function
+ *
+ * Exports a group's ledger as a downloadable file:
+ * - GET /export?group_id=xxx&format=json - Participants, transactions with
+ *   their splits, payers and items, settlements and balances (default)
+ * - GET /export?group_id=xxx&format=csv - One row per transaction or
+ *   settlement with a column per participant showing how it changed their
+ *   balance, followed by a total balance row per currency
+ *
+ * Visibility follows GET /transactions: former members only get the
+ * transactions and settlements they are part of, and only their own balance.
+ *
+ * @route /functions/v1/export
+ * @requires Authentication
+ */
+
+const EXPORT_FORMATS = ['csv', 'json'] as const;
+type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// Matches max_rows in supabase/config.toml; larger ledgers are fetched in pages
+const PAGE_SIZE = 1000;
+
+interface ExportParticipant {
+  id: string;
+  user_id?: string | null;
+  email?: string | null;
+  full_name?: string | null;
+  type: 'member' | 'invited' | 'former';
+}
+
+interface ExportTransaction {
+  id: number;
+  date: string;
+  description: string;
+  category?: string | null;
+  type: 'income' | 'expense';
+  amount: number;
+  currency: string;
+  paid_by_participant_id?: string | null;
+  split_mode?: string;
+  tax_amount?: number | null;
+  tip_amount?: number | null;
+  exchange_rate?: number | null;
+  exchange_rate_currency?: string | null;
+  splits: { participant_id: string | null; amount: number; share_value?: number | null }[];
+  payers: { participant_id: string; amount: number }[];
+  items: { name: string; unit_price: number; quantity: number; participant_ids: string[]; position?: number }[];
+}
+
+interface ExportSettlement {
+  id: string;
+  from_participant_id: string | null;
+  to_participant_id: string | null;
+  amount: number;
+  currency: string;
+  notes?: string | null;
+  created_at: string;
+}
+
+interface ExportBalance {
+  participant_id: string;
+  amount: number;
+  currency: string;
+}
+
+/**
+ * Fetches every row of a query, one page at a time
+ */
+async function fetchAllRows<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) {
+      throw error;
+    }
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * How a transaction changes each participant's balance: what they paid
+ * minus their share. Income doesn't affect balances.
+ */
+function getTransactionBalanceChanges(tx: ExportTransaction): Map<string, number> {
+  const changes = new Map<string, number>();
+  if (tx.type !== 'expense' || !tx.paid_by_participant_id) {
+    return changes;
+  }
+
+  const add = (participantId: string, amount: number) => {
+    changes.set(participantId, (changes.get(participantId) || 0) + amount);
+  };
+
+  if (tx.payers.length > 0) {
+    tx.payers.forEach((payer) => add(payer.participant_id, payer.amount));
+  } else {
+    add(tx.paid_by_participant_id, tx.amount);
+  }
+  tx.splits.forEach((split) => {
+    if (split.participant_id) add(split.participant_id, -split.amount);
+  });
+
+  return changes;
+}
+
+function buildCsv(
+  participants: ExportParticipant[],
+  transactions: ExportTransaction[],
+  settlements: ExportSettlement[],
+  balances: ExportBalance[]
+): string {
+  const nameOf = (participantId: string | null) => {
+    const participant = participants.find((p) => p.id === participantId);
+    return participant?.full_name || participant?.email || 'Unknown';
+  };
+
+  const rows: { date: string; cells: (string | number | null | undefined)[]; changes: Map<string, number> }[] = [];
+
+  transactions.forEach((tx) => {
+    rows.push({
+      date: tx.date,
+      cells: [tx.date, tx.description, tx.category, tx.type, tx.amount, tx.currency],
+      changes: getTransactionBalanceChanges(tx),
+    });
+  });
+
+  settlements.forEach((settlement) => {
+    const date = String(settlement.created_at || '').split('T')[0];
+    const changes = new Map<string, number>();
+    if (settlement.from_participant_id) changes.set(settlement.from_participant_id, settlement.amount);
+    if (settlement.to_participant_id) changes.set(settlement.to_participant_id, -settlement.amount);
+    rows.push({
+      date,
+      cells: [
+        date,
+        `${nameOf(settlement.from_participant_id)} paid ${nameOf(settlement.to_participant_id)}`,
+        settlement.notes,
+        'settlement',
+        settlement.amount,
+        settlement.currency,
+      ],
+      changes,
+    });
+  });
+
+  rows.sort((a, b) => a.date.localeCompare(b.date));
+
+  const lines = [
+    ['Date', 'Description', 'Category', 'Type', 'Amount', 'Currency', ...participants.map((p) => nameOf(p.id))]
+      .map(toCsvCell)
+      .join(','),
+    ...rows.map((row) => [
+      ...row.cells,
+      ...participants.map((p) => (row.changes.has(p.id) ? round2(row.changes.get(p.id)!) : null)),
+    ].map(toCsvCell).join(',')),
+    '',
+  ];
+
+  const currencies = [...new Set(balances.map((b) => b.currency))].sort();
+  currencies.forEach((currency) => {
+    lines.push([
+      '',
+      'Total balance',
+      '',
+      '',
+      '',
+      currency,
+      ...participants.map((p) => balances.find((b) => b.participant_id === p.id && b.currency === currency)?.amount ?? 0),
+    ].map(toCsvCell).join(','));
+  });
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return createEmptyResponse(200, req);
+  }
+
+  try {
+    if (req.method !== 'GET') {
+      return createErrorResponse(405, 'Method not allowed', 'METHOD_NOT_ALLOWED', undefined, req);
+    }
+
+    let authResult;
+    try {
+      authResult = await verifyAuth(req);
+    } catch (authError) {
+      return handleError(authError, 'authentication', req);
+    }
+
+    const { user, supabase } = authResult;
+    const url = new URL(req.url);
+    const groupId = url.searchParams.get('group_id');
+    const format = (url.searchParams.get('format') || 'json') as ExportFormat;
+
+    if (!groupId || !isValidUUID(groupId)) {
+      return createErrorResponse(400, 'Valid group_id is required', 'VALIDATION_ERROR', undefined, req);
+    }
+    if (!EXPORT_FORMATS.includes(format)) {
+      return createErrorResponse(400, `format must be one of: ${EXPORT_FORMATS.join(', ')}`, 'VALIDATION_ERROR', undefined, req);
+    }
+
+    const { data: currentParticipant, error: participantAuthError } = await supabase
+      .from('participants')
+      .select('id, type')
+      .eq('group_id', groupId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (participantAuthError || !currentParticipant) {
+      return createErrorResponse(403, 'Forbidden: You are not a participant in this group', 'PERMISSION_DENIED', undefined, req);
+    }
+
+    const { data: group, error: groupError } = await supabase
+      .from('groups')
+      .select('id, name, settlement_currency')
+      .eq('id', groupId)
+      .single();
+
+    if (groupError || !group) {
+      return createErrorResponse(404, 'Group not found', 'NOT_FOUND', undefined, req);
+    }
+
+    const { data: participants, error: participantsError } = await supabase
+      .from('participants')
+      .select('id, user_id, email, full_name, type')
+      .eq('group_id', groupId)
+      .order('created_at', { ascending: true });
+
+    if (participantsError) {
+      return handleError(participantsError, 'fetching participants', req);
+    }
+
+    const transactionRows = await fetchAllRows<any>((from, to) => supabase
+      .from('transactions')
+      .select(`
+        id,
+        date,
+        description,
+        category,
+        type,
+        amount,
+        currency,
+        paid_by_participant_id,
+        split_mode,
+        tax_amount,
+        tip_amount,
+        exchange_rate,
+        exchange_rate_currency,
+        group_categories (
+          name
+        ),
+        transaction_splits (
+          participant_id,
+          amount,
+          share_value
+        ),
+        transaction_payers (
+          participant_id,
+          amount
+        ),
+        transaction_items (
+          name,
+          unit_price,
+          quantity,
+          participant_ids,
+          position
+        )
+      `)
+      .eq('group_id', groupId)
+      .is('deleted_at', null)
+      .order('date', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to));
+
+    const settlementRows = await fetchAllRows<any>((from, to) => supabase
+      .from('settlements')
+      .select('id, from_participant_id, to_participant_id, amount, currency, notes, created_at')
+      .eq('group_id', groupId)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: true })
+      .range(from, to));
+
+    let transactions: ExportTransaction[] = transactionRows.map((tx) => ({
+      id: tx.id,
+      date: tx.date,
+      description: tx.description,
+      // Current name of the linked category, which may have been renamed since
+      category: tx.group_categories?.name || tx.category || null,
+      type: tx.type,
+      amount: Number(tx.amount),
+      currency: tx.currency || 'USD',
+      paid_by_participant_id: tx.paid_by_participant_id || null,
+      split_mode: tx.split_mode || 'equal',
+      tax_amount: tx.tax_amount != null ? Number(tx.tax_amount) : null,
+      tip_amount: tx.tip_amount != null ? Number(tx.tip_amount) : null,
+      exchange_rate: tx.exchange_rate != null ? Number(tx.exchange_rate) : null,
+      exchange_rate_currency: tx.exchange_rate_currency || null,
+      splits: (tx.transaction_splits || []).map((s: any) => ({
+        participant_id: s.participant_id,
+        amount: Number(s.amount),
+        share_value: s.share_value != null ? Number(s.share_value) : null,
+      })),
+      payers: (tx.transaction_payers || []).map((p: any) => ({
+        participant_id: p.participant_id,
+        amount: Number(p.amount),
+      })),
+      items: (tx.transaction_items || [])
+        .map((item: any) => ({
+          name: item.name,
+          unit_price: Number(item.unit_price),
+          quantity: Number(item.quantity),
+          participant_ids: item.participant_ids || [],
+          position: item.position,
+        }))
+        .sort((a: { position?: number }, b: { position?: number }) => (a.position ?? 0) - (b.position ?? 0)),
+    }));
+
+    let settlements: ExportSettlement[] = settlementRows.map((s) => ({
+      id: s.id,
+      from_participant_id: s.from_participant_id,
+      to_participant_id: s.to_participant_id,
+      amount: Number(s.amount),
+      currency: s.currency || 'USD',
+      notes: s.notes || null,
+      created_at: s.created_at,
+    }));
+
+    // Balances cover the whole group, so they're calculated from all rows
+    let balances: ExportBalance[] = (await calculateGroupBalances(supabase, groupId, user.id))
+      .filter((b) => !!b.participant_id)
+      .map((b) => ({ participant_id: b.participant_id!, amount: b.amount, currency: b.currency }));
+
+    // Former members only see what they were part of (as in GET /transactions)
+    if (currentParticipant.type === 'former') {
+      const pId = currentParticipant.id;
+      transactions = transactions.filter((tx) =>
+        tx.paid_by_participant_id === pId
+        || tx.payers.some((p) => p.participant_id === pId)
+        || tx.splits.some((s) => s.participant_id === pId)
+      );
+      settlements = settlements.filter((s) => s.from_participant_id === pId || s.to_participant_id === pId);
+      balances = balances.filter((b) => b.participant_id === pId);
+    }
+
+    const slug = String(group.name).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'group';
+    const fileName = `${slug}-${new Date().toISOString().split('T')[0]}.${format}`;
+
+    if (format === 'csv') {
+      const csv = buildCsv(participants || [], transactions, settlements, balances);
+      return createFileResponse(csv, 'text/csv; charset=utf-8', fileName, req);
+    }
+
+    const ledger = {
+      group: {
+        id: group.id,
+        name: group.name,
+        settlement_currency: group.settlement_currency || null,
+      },
+      exported_at: new Date().toISOString(),
+      participants: participants || [],
+      transactions,
+      settlements,
+      balances,
+    };
+    return createFileResponse(JSON.stringify(ledger, null, 2), 'application/json', fileName, req);
+  } catch (error: unknown) {
+    return handleError(error, 'export handler', req);
+  }
+});
@@ -14,7 +14,15 @@ import { requireMinVersion } from '../_shared/version-check.ts';
  * - GET /groups - List all groups user belongs to
  * - GET /groups/:id - Get group details with members
  * - POST /groups - Create new group
- * - DELETE /groups/:id - Delete group (owners only)
+ * - PUT /groups/:id - Update group settings (name, description, default and
+ *   settlement currency, emoji, cover color, days deleted items stay in the
+ *   trash)
+ * - PUT /groups/:id with { archived: true | false } - Archive or restore a group
+ * 
+ * Groups can't be deleted. A group whose balances are all zero can be
+ * archived instead: it is read-only until restored. Any active member can
+ * change settings or archive (groups are admin-free); changes show up in the
+ * activity feed.
  * 
  * @route /functions/v1/groups
  * @requires Authentication
@@ -27,8 +35,33 @@ interface Group {
   created_by: string;
   created_at: string;
   updated_at: string;
+  settlement_currency?: string | null;
+  default_currency?: string | null;
+  emoji?: string | null;
+  cover_color?: string | null;
+  archived_at?: string | null;
+  archived_by?: string | null;
+  trash_retention_days?: number;
+}
+
+interface UpdateGroupRequest {
+  name?: string;
+  description?: string | null;
+  default_currency?: string | null;
+  settlement_currency?: string | null;
+  emoji?: string | null;
+  cover_color?: string | null;
+  trash_retention_days?: number;
+  archived?: boolean;
 }
 
+const GROUP_FIELDS = 'id, name, description, created_by, created_at, updated_at, settlement_currency, default_currency, emoji, cover_color, archived_at, archived_by, trash_retention_days';
+const SETTINGS_FIELDS = ['name', 'description', 'default_currency', 'settlement_currency', 'emoji', 'cover_color'] as const;
+
+// Raised by set_group_archived while the group still has open balances
+const CHECK_VIOLATION_CODE = '23514';
+const MAX_TRASH_RETENTION_DAYS = 365;
+
 interface GroupMember {
   id: string;
   group_id: string;
@@ -89,6 +122,12 @@ Deno.serve(async (req: Request) => {
           created_by, 
           created_at, 
           updated_at,
+          settlement_currency,
+          default_currency,
+          emoji,
+          cover_color,
+          archived_at,
+          archived_by,
           group_members!inner(status)
         `)
         .eq('group_members.user_id', user.id)
@@ -126,7 +165,7 @@ Deno.serve(async (req: Request) => {
       // Get group details
       const { data: group, error: groupError } = await supabase
         .from('groups')
-        .select('id, name, description, created_by, created_at, updated_at')
+        .select(GROUP_FIELDS)
         .eq('id', groupId)
         .single();
 
@@ -213,7 +252,7 @@ Deno.serve(async (req: Request) => {
       // Fetch the created group to return full details
       const { data: group, error: fetchError } = await supabase
         .from('groups')
-        .select('id, name, description, created_by, created_at, updated_at')
+        .select(GROUP_FIELDS)
         .eq('id', groupResult)
         .single();
 
@@ -224,6 +263,105 @@ Deno.serve(async (req: Request) => {
       return createSuccessResponse(group, 201);
     }
 
+    // Handle PUT /groups/:id - Update group settings
+    if (httpMethod === 'PUT' && groupId) {
+      if (!isValidUUID(groupId)) {
+        return createErrorResponse(400, 'Invalid group_id format. Expected UUID.', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      let groupData: UpdateGroupRequest;
+      try {
+        groupData = body ? JSON.parse(body) : {};
+      } catch {
+        return createErrorResponse(400, 'Invalid JSON in request body', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      if (groupData.archived !== undefined) {
+        if (typeof groupData.archived !== 'boolean') {
+          return createErrorResponse(400, 'archived must be true or false', 'VALIDATION_ERROR', undefined, req);
+        }
+        if (SETTINGS_FIELDS.some((field) => groupData[field] !== undefined) || groupData.trash_retention_days !== undefined) {
+          return createErrorResponse(400, 'Archive or restore a group separately from other changes', 'VALIDATION_ERROR', undefined, req);
+        }
+
+        const { error } = await supabase.rpc('set_group_archived', {
+          p_group_id: groupId,
+          p_archived: groupData.archived,
+        });
+
+        if (error) {
+          // The RPC refuses to archive while balances are open
+          if (error.code === CHECK_VIOLATION_CODE) {
+            return createErrorResponse(400, 'Settle all balances before archiving the group', 'VALIDATION_ERROR', undefined, req);
+          }
+          return handleError(error, groupData.archived ? 'archiving group' : 'restoring group', req);
+        }
+      } else {
+        const validation = validateGroupData(groupData);
+        if (!validation.valid) {
+          return createErrorResponse(400, validation.error || 'Invalid group data', 'VALIDATION_ERROR', undefined, req);
+        }
+        const settlementCurrency = groupData.settlement_currency;
+        if (settlementCurrency !== undefined && settlementCurrency !== null
+          && (typeof settlementCurrency !== 'string' || settlementCurrency.trim().length !== 3)) {
+          return createErrorResponse(400, 'Currency must be a 3-character code (e.g., USD)', 'VALIDATION_ERROR', undefined, req);
+        }
+
+        const retentionDays = groupData.trash_retention_days;
+        if (retentionDays !== undefined
+          && (!Number.isInteger(retentionDays) || retentionDays < 1 || retentionDays > MAX_TRASH_RETENTION_DAYS)) {
+          return createErrorResponse(400, `trash_retention_days must be a whole number from 1 to ${MAX_TRASH_RETENTION_DAYS}`, 'VALIDATION_ERROR', undefined, req);
+        }
+
+        // Empty strings clear optional fields
+        const changes: Record<string, string | number | null> = {};
+        SETTINGS_FIELDS.forEach((field) => {
+          const value = groupData[field];
+          if (value !== undefined) {
+            changes[field] = typeof value === 'string' ? value.trim() || null : null;
+          }
+        });
+        if (retentionDays !== undefined) {
+          changes.trash_retention_days = retentionDays;
+        }
+
+        if (Object.keys(changes).length === 0) {
+          return createErrorResponse(400, 'No updatable fields provided', 'VALIDATION_ERROR', undefined, req);
+        }
+
+        const { data: currentGroup } = await supabase
+          .from('groups')
+          .select('archived_at')
+          .eq('id', groupId)
+          .single();
+
+        if (currentGroup?.archived_at) {
+          return createErrorResponse(403, 'Archived groups are read-only. Restore the group to make changes', 'PERMISSION_DENIED', undefined, req);
+        }
+
+        const { error } = await supabase.rpc('update_group_settings', {
+          p_group_id: groupId,
+          p_changes: changes,
+        });
+
+        if (error) {
+          return handleError(error, 'updating group', req);
+        }
+      }
+
+      const { data: group, error: fetchError } = await supabase
+        .from('groups')
+        .select(GROUP_FIELDS)
+        .eq('id', groupId)
+        .single();
+
+      if (fetchError || !group) {
+        return handleError(fetchError || new Error('Group not found after update'), 'fetching updated group', req);
+      }
+
+      return createSuccessResponse(group, 200, 0, req);
+    }
+
     // Method not allowed
     return createErrorResponse(405, 'Method not allowed', 'METHOD_NOT_ALLOWED', undefined, req);
   } catch (error: unknown) {
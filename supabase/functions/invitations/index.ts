@@ -1,6 +1,7 @@
 import { verifyAuth } from '../_shared/auth.ts';
 import { SUPABASE_SERVICE_ROLE_KEY, SUPABASE_URL } from '../_shared/env.ts';
 import { createErrorResponse, handleError } from '../_shared/error-handler.ts';
+import { dispatchNotification } from '../_shared/notifications.ts';
 import { parsePath } from '../_shared/path-parser.ts';
 import { createEmptyResponse, createSuccessResponse } from '../_shared/response.ts';
 import { isValidEmail, isValidUUID, validateBodySize } from '../_shared/validation.ts';
@@ -14,6 +15,8 @@ import { isValidEmail, isValidUUID, validateBodySize } from '../_shared/validati
  * - POST /invitations/:id/accept - Accept invitation
  * - DELETE /invitations/:id - Cancel invitation (owners only)
  * 
+ * Inviting someone who already has an account sends them a push notification.
+ * 
  * @route /functions/v1/invitations
  * @requires Authentication
  */
@@ -105,6 +108,7 @@ Deno.serve(async (req: Request) => {
         return createErrorResponse(403, 'You must be a group member to create invitations', 'PERMISSION_DENIED', undefined, req);
       }
 
+      let invitedUserId: string | undefined;
       if (SUPABASE_SERVICE_ROLE_KEY) {
         const findUserResponse = await fetch(
           `${SUPABASE_URL}/auth/v1/admin/users?email=${encodeURIComponent(normalizedEmail)}`,
@@ -123,6 +127,8 @@ Deno.serve(async (req: Request) => {
             : usersData.users?.[0];
 
           if (targetUser && targetUser.id) {
+            invitedUserId = targetUser.id;
+
             const { data: existingMember } = await supabase
               .from('group_members')
               .select('id')
@@ -172,6 +178,17 @@ Deno.serve(async (req: Request) => {
         return handleError(createError, 'creating invitation', req);
       }
 
+      if (invitedUserId) {
+        await dispatchNotification({
+          type: 'invitations',
+          actorId: currentUser.id,
+          groupId: requestData.group_id,
+          userIds: [invitedUserId],
+          message: 'invited you to join the group',
+          data: { invitation_id: invitation.id },
+        });
+      }
+
       return createSuccessResponse(invitation, 201, 0, req);
     }
 
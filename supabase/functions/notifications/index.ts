@@ -0,0 +1,173 @@
+import { verifyAuth } from '../_shared/auth.ts';
+import { createErrorResponse, handleError } from '../_shared/error-handler.ts';
+import { parsePath } from '../_shared/path-parser.ts';
+import { createEmptyResponse, createSuccessResponse } from '../_shared/response.ts';
+import { validateBodySize, validateNotificationPreferences, validatePushTokenData } from '../_shared/validation.ts';
+
+/**
+ * Notifications Edge Function
+ *
+ * Push token registration and notification preferences:
+ * - POST /notifications/tokens - Register this device's Expo push token (token, platform)
+ * - DELETE /notifications/tokens?token=xxx - Unregister a token, e.g. on sign-out
+ * - GET /notifications/preferences - Event types, muted groups and the
+ *   weekly email digest opt-in
+ * - PUT /notifications/preferences - Update transactions, settlements,
+ *   comments, invitations, weekly_digest (booleans) and/or muted_group_ids
+ *
+ * Pushes themselves are sent by the functions that change data (see
+ * _shared/notifications.ts); weekly digests by the emails function.
+ *
+ * @route /functions/v1/notifications
+ * @requires Authentication
+ */
+
+interface NotificationPreferences {
+  transactions: boolean;
+  settlements: boolean;
+  comments: boolean;
+  invitations: boolean;
+  weekly_digest: boolean;
+  muted_group_ids: string[];
+}
+
+const PREFERENCE_FIELDS = 'transactions, settlements, comments, invitations, weekly_digest, muted_group_ids';
+
+// Returned until the user saves preferences for the first time
+const DEFAULT_PREFERENCES: NotificationPreferences = {
+  transactions: true,
+  settlements: true,
+  comments: true,
+  invitations: true,
+  weekly_digest: false,
+  muted_group_ids: [],
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return createEmptyResponse(200, req);
+  }
+
+  try {
+    const body = await req.text().catch(() => null);
+    const bodySizeValidation = validateBodySize(body);
+    if (!bodySizeValidation.valid) {
+      return createErrorResponse(413, bodySizeValidation.error || 'Request body too large', 'VALIDATION_ERROR', undefined, req);
+    }
+
+    let authResult;
+    try {
+      authResult = await verifyAuth(req);
+    } catch (authError) {
+      return handleError(authError, 'authentication', req);
+    }
+
+    const { user, supabase } = authResult;
+    const url = new URL(req.url);
+    const route = parsePath(url.pathname).id;
+
+    if (route === 'tokens') {
+      if (req.method === 'POST') {
+        let requestData: { token?: string; platform?: string };
+        try {
+          requestData = body ? JSON.parse(body) : {};
+        } catch {
+          return createErrorResponse(400, 'Invalid JSON in request body', 'VALIDATION_ERROR', undefined, req);
+        }
+
+        const validation = validatePushTokenData(requestData);
+        if (!validation.valid) {
+          return createErrorResponse(400, validation.error || 'Invalid push token', 'VALIDATION_ERROR', undefined, req);
+        }
+
+        const { data: pushToken, error } = await supabase.rpc('register_push_token', {
+          p_token: (requestData.token as string).trim(),
+          p_platform: requestData.platform,
+        });
+
+        if (error) {
+          return handleError(error, 'registering push token', req);
+        }
+
+        return createSuccessResponse(pushToken, 201, 0, req);
+      }
+
+      if (req.method === 'DELETE') {
+        const token = url.searchParams.get('token');
+        if (!token) {
+          return createErrorResponse(400, 'token is required', 'VALIDATION_ERROR', undefined, req);
+        }
+
+        const { error } = await supabase
+          .from('push_tokens')
+          .delete()
+          .eq('token', token)
+          .eq('user_id', user.id);
+
+        if (error) {
+          return handleError(error, 'unregistering push token', req);
+        }
+
+        return createEmptyResponse(204, req);
+      }
+
+      return createErrorResponse(405, 'Method not allowed', 'METHOD_NOT_ALLOWED', undefined, req);
+    }
+
+    if (route !== 'preferences') {
+      return createErrorResponse(404, 'Not found', 'NOT_FOUND', undefined, req);
+    }
+
+    if (req.method === 'GET') {
+      const { data: preferences, error } = await supabase
+        .from('notification_preferences')
+        .select(PREFERENCE_FIELDS)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) {
+        return handleError(error, 'fetching notification preferences', req);
+      }
+
+      return createSuccessResponse(preferences || DEFAULT_PREFERENCES, 200, 0, req);
+    }
+
+    if (req.method === 'PUT') {
+      let requestData: Partial<NotificationPreferences>;
+      try {
+        requestData = body ? JSON.parse(body) : {};
+      } catch {
+        return createErrorResponse(400, 'Invalid JSON in request body', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      const validation = validateNotificationPreferences(requestData as Record<string, unknown>);
+      if (!validation.valid) {
+        return createErrorResponse(400, validation.error || 'Invalid notification preferences', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      const updates: Record<string, unknown> = { user_id: user.id, updated_at: new Date().toISOString() };
+      (['transactions', 'settlements', 'comments', 'invitations', 'weekly_digest'] as const).forEach(key => {
+        if (requestData[key] !== undefined) updates[key] = requestData[key];
+      });
+      if (requestData.muted_group_ids !== undefined) {
+        updates.muted_group_ids = [...new Set(requestData.muted_group_ids)];
+      }
+
+      const { data: preferences, error } = await supabase
+        .from('notification_preferences')
+        .upsert(updates, { onConflict: 'user_id' })
+        .select(PREFERENCE_FIELDS)
+        .single();
+
+      if (error) {
+        return handleError(error, 'updating notification preferences', req);
+      }
+
+      return createSuccessResponse(preferences, 200, 0, req);
+    }
+
+    return createErrorResponse(405, 'Method not allowed', 'METHOD_NOT_ALLOWED', undefined, req);
+  } catch (error: unknown) {
+    return handleError(error, 'notifications handler', req);
+  }
+});
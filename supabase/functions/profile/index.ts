@@ -12,12 +12,18 @@ interface Profile {
   avatar_url?: string | null;
   phone?: string | null;
   country_code?: string | null;
+  upi_vpa?: string | null;
+  paypal_me?: string | null;
+  iban?: string | null;
   profile_completed: boolean;
   created_at: string;
   updated_at: string;
 }
 
-type ProfileUpdates = Partial<Pick<Profile, 'full_name' | 'avatar_url' | 'phone' | 'country_code' | 'profile_completed'>>;
+type ProfileUpdates = Partial<Pick<Profile, 'full_name' | 'avatar_url' | 'phone' | 'country_code' | 'upi_vpa' | 'paypal_me' | 'iban' | 'profile_completed'>>;
+
+// Only returned to users who share a group with the profile's owner
+const PAYMENT_HANDLE_FIELDS = ['upi_vpa', 'paypal_me', 'iban'] as const;
 
 interface ValidationResult {
   valid: boolean;
@@ -56,6 +62,36 @@ function trimOrUndefined(value?: string | null): string | undefined {
   return trimmed.length > 0 ? trimmed : undefined;
 }
 
+// Accepts a bare username or a paypal.me link
+function normalizePayPalMe(value: string): string {
+  return value
+    .trim()
+    .replace(/^(https?:\/\/)?(www\.)?paypal\.me\//i, '')
+    .replace(/\/+$/, '');
+}
+
+function normalizeIban(value: string): string {
+  return value.replace(/\s+/g, '').toUpperCase();
+}
+
+// ISO 13616: move the first four characters to the end, turn letters into
+// numbers (A=10 ... Z=35) and the result mod 97 must be 1
+function isValidIban(iban: string): boolean {
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) {
+    return false;
+  }
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const digits = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
 function validateProfileUpdates(updates: ProfileUpdates): ValidationResult {
   if (updates.full_name !== undefined && updates.full_name !== null) {
     if (typeof updates.full_name !== 'string') {
@@ -123,6 +159,43 @@ function validateProfileUpdates(updates: ProfileUpdates): ValidationResult {
     }
   }
 
+  if (updates.upi_vpa !== undefined && updates.upi_vpa !== null) {
+    if (typeof updates.upi_vpa !== 'string') {
+      return { valid: false, error: 'UPI ID must be a string' };
+    }
+
+    const trimmedVpa = updates.upi_vpa.trim();
+    if (trimmedVpa.length > 255) {
+      return { valid: false, error: 'UPI ID must be 255 characters or less' };
+    }
+
+    if (trimmedVpa.length > 0 && !/^[A-Za-z0-9.\-_]{2,}@[A-Za-z][A-Za-z0-9]{1,}$/.test(trimmedVpa)) {
+      return { valid: false, error: 'Invalid UPI ID format (e.g., name@bank)' };
+    }
+  }
+
+  if (updates.paypal_me !== undefined && updates.paypal_me !== null) {
+    if (typeof updates.paypal_me !== 'string') {
+      return { valid: false, error: 'PayPal.me username must be a string' };
+    }
+
+    const username = normalizePayPalMe(updates.paypal_me);
+    if (username.length > 0 && !/^[A-Za-z0-9]{1,20}$/.test(username)) {
+      return { valid: false, error: 'PayPal.me username must be 1-20 letters or numbers' };
+    }
+  }
+
+  if (updates.iban !== undefined && updates.iban !== null) {
+    if (typeof updates.iban !== 'string') {
+      return { valid: false, error: 'IBAN must be a string' };
+    }
+
+    const iban = normalizeIban(updates.iban);
+    if (iban.length > 0 && !isValidIban(iban)) {
+      return { valid: false, error: 'Invalid IBAN' };
+    }
+  }
+
   if (updates.profile_completed !== undefined && typeof updates.profile_completed !== 'boolean') {
     return { valid: false, error: 'profile_completed must be a boolean value' };
   }
@@ -193,12 +266,38 @@ Deno.serve(async (req: Request): Promise<Response> => {
           // Fetch all profile fields using service role client (bypasses RLS)
           const { data: profiles, error } = await serviceClient
             .from('profiles')
-            .select('id, full_name, avatar_url, phone, country_code, profile_completed, created_at, updated_at')
+            .select('id, full_name, avatar_url, phone, country_code, upi_vpa, paypal_me, iban, profile_completed, created_at, updated_at')
             .in('id', userIds);
           
           if (error) {
             return handleError(error, 'fetching profiles', req);
           }
+
+          // Payment handles are only shared with people in the same group
+          const { data: ownMemberships } = await serviceClient
+            .from('group_members')
+            .select('group_id')
+            .eq('user_id', user.id)
+            .eq('status', 'active');
+          const ownGroupIds = (ownMemberships || []).map((m: { group_id: string }) => m.group_id);
+
+          const groupmateIds = new Set<string>([user.id]);
+          if (ownGroupIds.length > 0) {
+            const { data: sharedMemberships } = await serviceClient
+              .from('group_members')
+              .select('user_id')
+              .in('group_id', ownGroupIds)
+              .in('user_id', userIds);
+            (sharedMemberships || []).forEach((m: { user_id: string }) => groupmateIds.add(m.user_id));
+          }
+
+          for (const profile of profiles || []) {
+            if (!groupmateIds.has(profile.id)) {
+              for (const field of PAYMENT_HANDLE_FIELDS) {
+                profile[field] = null;
+              }
+            }
+          }
           
           // Enrich profiles with email addresses
           const emailMap = await fetchUserEmails(userIds, user.id, user.email || null);
@@ -225,6 +324,9 @@ Deno.serve(async (req: Request): Promise<Response> => {
                 avatar_url: null,
                 phone: null,
                 country_code: null,
+                upi_vpa: null,
+                paypal_me: null,
+                iban: null,
                 profile_completed: false,
                 created_at: new Date().toISOString(),
                 updated_at: new Date().toISOString(),
@@ -318,6 +420,18 @@ Deno.serve(async (req: Request): Promise<Response> => {
         sanitizedUpdates.country_code = trimmedCode ?? null;
       }
 
+      if (updates.upi_vpa !== undefined) {
+        sanitizedUpdates.upi_vpa = trimOrUndefined(updates.upi_vpa) ?? null;
+      }
+
+      if (updates.paypal_me !== undefined) {
+        sanitizedUpdates.paypal_me = updates.paypal_me ? normalizePayPalMe(updates.paypal_me) || null : null;
+      }
+
+      if (updates.iban !== undefined) {
+        sanitizedUpdates.iban = updates.iban ? normalizeIban(updates.iban) || null : null;
+      }
+
       if (updates.profile_completed !== undefined) {
         sanitizedUpdates.profile_completed = updates.profile_completed;
       }
@@ -339,6 +453,9 @@ Deno.serve(async (req: Request): Promise<Response> => {
               avatar_url: sanitizedUpdates.avatar_url ?? null,
               phone: sanitizedUpdates.phone ?? null,
               country_code: sanitizedUpdates.country_code ?? null,
+              upi_vpa: sanitizedUpdates.upi_vpa ?? null,
+              paypal_me: sanitizedUpdates.paypal_me ?? null,
+              iban: sanitizedUpdates.iban ?? null,
               profile_completed: sanitizedUpdates.profile_completed ?? false,
             })
             .select('*')
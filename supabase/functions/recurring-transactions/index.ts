@@ -0,0 +1,440 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { verifyAuth } from '../_shared/auth.ts';
+import { formatCurrency } from '../_shared/currency.ts';
+import { createErrorResponse, handleError } from '../_shared/error-handler.ts';
+import { parsePath } from '../_shared/path-parser.ts';
+import { createEmptyResponse, createSuccessResponse } from '../_shared/response.ts';
+import { isValidDate, isValidUUID, SplitMode, validateBodySize, validateSplitValues, validateTransactionData } from '../_shared/validation.ts';
+
+/**
+ * Recurring Transactions Edge Function
+ *
+ * Manages recurring expense series for a group:
+ * - GET /recurring-transactions?group_id=xxx - List series for a group
+ * - POST /recurring-transactions - Create a series
+ * - POST /recurring-transactions/run - Materialize due occurrences ({ group_id })
+ * - PUT /recurring-transactions/:id - Pause/resume a series or change its details
+ * - DELETE /recurring-transactions/:id - Delete a series (created expenses are kept)
+ *
+ * Occurrences are turned into regular transactions by the
+ * materialize_recurring_transactions RPC, which also runs when a group's
+ * transactions are fetched and on a daily schedule where pg_cron is enabled.
+ *
+ * @route /functions/v1/recurring-transactions
+ * @requires Authentication
+ */
+
+const FREQUENCIES = ['daily', 'weekly', 'monthly', 'yearly'] as const;
+type Frequency = typeof FREQUENCIES[number];
+
+const MAX_INTERVAL_COUNT = 365;
+
+const RECURRING_TRANSACTION_COLUMNS = `
+  id, group_id, created_by, description, amount, currency, category,
+  paid_by_participant_id, split_mode, split_among_participant_ids, split_values,
+  frequency, interval_count, start_date, end_date, next_occurrence_date,
+  occurrence_count, status, created_at, updated_at
+`;
+
+interface SplitValue {
+  participant_id: string;
+  value: number;
+}
+
+interface CreateRecurringTransactionRequest {
+  group_id: string;
+  description: string;
+  amount: number;
+  currency: string;
+  category?: string;
+  paid_by_participant_id: string;
+  split_among_participant_ids?: string[];
+  split_mode?: SplitMode;
+  split_values?: SplitValue[];
+  frequency: Frequency;
+  interval_count?: number;
+  start_date: string;
+  end_date?: string | null;
+}
+
+interface UpdateRecurringTransactionRequest {
+  status?: 'active' | 'paused';
+  description?: string;
+  amount?: number;
+  category?: string | null;
+  end_date?: string | null;
+}
+
+async function isActiveMember(supabase: SupabaseClient, groupId: string, userId: string): Promise<boolean> {
+  const { data: membership, error } = await supabase
+    .from('group_members')
+    .select('id')
+    .eq('group_id', groupId)
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .maybeSingle();
+
+  return !error && !!membership;
+}
+
+/**
+ * Date of the nth occurrence (0-based) of a series, as YYYY-MM-DD.
+ * Matches recurring_occurrence_date in SQL: month/year steps are counted
+ * from the start date and clamped to the last day of shorter months.
+ */
+function occurrenceDate(startDate: string, frequency: Frequency, intervalCount: number, occurrence: number): string {
+  const [year, month, day] = startDate.split('-').map(Number);
+  const steps = occurrence * intervalCount;
+  let date: Date;
+
+  if (frequency === 'daily' || frequency === 'weekly') {
+    date = new Date(Date.UTC(year, month - 1, day + steps * (frequency === 'weekly' ? 7 : 1)));
+  } else {
+    const monthIndex = month - 1 + steps * (frequency === 'yearly' ? 12 : 1);
+    const lastDay = new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+    date = new Date(Date.UTC(year, monthIndex, Math.min(day, lastDay)));
+  }
+
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Validates the split configuration against the series amount the same way
+ * the transactions function does, so every occurrence can be materialized.
+ */
+function validateRecurringSplit(data: CreateRecurringTransactionRequest): string | null {
+  const splitMode = data.split_mode || 'equal';
+  if (splitMode === 'itemized') {
+    return 'Recurring expenses cannot be itemized';
+  }
+
+  const splitValuesValidation = validateSplitValues(splitMode, data.split_values);
+  if (!splitValuesValidation.valid) {
+    return splitValuesValidation.error || 'Invalid split values';
+  }
+
+  if (splitMode === 'equal') {
+    const participantIds = data.split_among_participant_ids;
+    if (!Array.isArray(participantIds) || participantIds.length === 0) {
+      return 'split_among_participant_ids must be a non-empty array';
+    }
+    if (participantIds.some((id) => typeof id !== 'string' || !isValidUUID(id))) {
+      return 'Invalid participant_id in split_among_participant_ids. Expected UUID.';
+    }
+    return null;
+  }
+
+  const total = (data.split_values || []).reduce((acc, v) => acc + v.value, 0);
+  if (splitMode === 'exact' && Math.abs(total - data.amount) > 0.01) {
+    return `Split amounts sum (${formatCurrency(total, data.currency)}) does not equal amount (${formatCurrency(data.amount, data.currency)})`;
+  }
+  if (splitMode === 'percentage' && Math.abs(total - 100) > 0.01) {
+    return `Split percentages must add up to 100% (got ${Math.round(total * 100) / 100}%)`;
+  }
+
+  return null;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return createEmptyResponse(200, req);
+  }
+
+  try {
+    const body = await req.text().catch(() => null);
+    const bodySizeValidation = validateBodySize(body);
+    if (!bodySizeValidation.valid) {
+      return createErrorResponse(413, bodySizeValidation.error || 'Request body too large', 'VALIDATION_ERROR', undefined, req);
+    }
+
+    let authResult;
+    try {
+      authResult = await verifyAuth(req);
+    } catch (authError) {
+      return handleError(authError, 'authentication', req);
+    }
+
+    const { user, supabase } = authResult;
+    const url = new URL(req.url);
+    const parsedPath = parsePath(url.pathname);
+    const pathId = parsedPath.resource === 'recurring-transactions' ? parsedPath.id : undefined;
+
+    if (req.method === 'GET') {
+      const groupId = url.searchParams.get('group_id');
+
+      if (!groupId || !isValidUUID(groupId)) {
+        return createErrorResponse(400, 'Valid group_id is required', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      const { data: series, error } = await supabase
+        .from('recurring_transactions')
+        .select(RECURRING_TRANSACTION_COLUMNS)
+        .eq('group_id', groupId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        return handleError(error, 'fetching recurring transactions', req);
+      }
+
+      return createSuccessResponse(series || [], 200, 0, req);
+    }
+
+    if (req.method === 'POST' && pathId === 'run') {
+      let requestData: { group_id?: string };
+      try {
+        requestData = body ? JSON.parse(body) : {};
+      } catch {
+        return createErrorResponse(400, 'Invalid JSON in request body', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      if (!requestData.group_id || !isValidUUID(requestData.group_id)) {
+        return createErrorResponse(400, 'Valid group_id is required', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      const { data: createdCount, error: rpcError } = await supabase.rpc('materialize_recurring_transactions', {
+        p_group_id: requestData.group_id,
+      });
+
+      if (rpcError) {
+        return handleError(rpcError, 'materializing recurring transactions', req);
+      }
+
+      return createSuccessResponse({ created: createdCount ?? 0 }, 200, 0, req);
+    }
+
+    if (req.method === 'POST') {
+      let requestData: CreateRecurringTransactionRequest;
+      try {
+        requestData = body ? JSON.parse(body) : {};
+      } catch {
+        return createErrorResponse(400, 'Invalid JSON in request body', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      if (!requestData.group_id || !isValidUUID(requestData.group_id)) {
+        return createErrorResponse(400, 'Valid group_id is required', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      if (requestData.amount === undefined || !requestData.description || !requestData.currency || !requestData.start_date) {
+        return createErrorResponse(400, 'Missing required fields: amount, description, currency, start_date', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      const validation = validateTransactionData({
+        amount: requestData.amount,
+        description: requestData.description,
+        date: requestData.start_date,
+        currency: requestData.currency,
+      });
+      if (!validation.valid) {
+        return createErrorResponse(400, validation.error || 'Invalid recurring transaction data', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      if (!FREQUENCIES.includes(requestData.frequency)) {
+        return createErrorResponse(400, `frequency must be one of: ${FREQUENCIES.join(', ')}`, 'VALIDATION_ERROR', undefined, req);
+      }
+
+      const intervalCount = requestData.interval_count ?? 1;
+      if (!Number.isInteger(intervalCount) || intervalCount < 1 || intervalCount > MAX_INTERVAL_COUNT) {
+        return createErrorResponse(400, `interval_count must be a whole number between 1 and ${MAX_INTERVAL_COUNT}`, 'VALIDATION_ERROR', undefined, req);
+      }
+
+      if (requestData.end_date) {
+        if (!isValidDate(requestData.end_date)) {
+          return createErrorResponse(400, 'Invalid end_date format (expected YYYY-MM-DD)', 'VALIDATION_ERROR', undefined, req);
+        }
+        if (requestData.end_date < requestData.start_date) {
+          return createErrorResponse(400, 'end_date cannot be before start_date', 'VALIDATION_ERROR', undefined, req);
+        }
+      }
+
+      if (!requestData.paid_by_participant_id || !isValidUUID(requestData.paid_by_participant_id)) {
+        return createErrorResponse(400, 'Valid paid_by_participant_id is required', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      const splitError = validateRecurringSplit(requestData);
+      if (splitError) {
+        return createErrorResponse(400, splitError, 'VALIDATION_ERROR', undefined, req);
+      }
+
+      if (!(await isActiveMember(supabase, requestData.group_id, user.id))) {
+        return createErrorResponse(403, 'You must be an active member of the group to create recurring expenses', 'PERMISSION_DENIED', undefined, req);
+      }
+
+      const splitMode = requestData.split_mode || 'equal';
+      const splitParticipantIds = splitMode === 'equal'
+        ? requestData.split_among_participant_ids!
+        : requestData.split_values!.map((v) => v.participant_id);
+
+      // Every referenced participant must belong to this group
+      const referencedIds = Array.from(new Set([requestData.paid_by_participant_id, ...splitParticipantIds]));
+      const { data: groupParticipants, error: participantsError } = await supabase
+        .from('participants')
+        .select('id')
+        .eq('group_id', requestData.group_id)
+        .in('id', referencedIds);
+
+      if (participantsError) {
+        return handleError(participantsError, 'validating participants', req);
+      }
+      if ((groupParticipants || []).length !== referencedIds.length) {
+        return createErrorResponse(400, 'All participants must belong to the group', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      const { data: series, error: insertError } = await supabase
+        .from('recurring_transactions')
+        .insert({
+          group_id: requestData.group_id,
+          created_by: user.id,
+          description: requestData.description.trim(),
+          amount: requestData.amount,
+          currency: requestData.currency.toUpperCase(),
+          category: requestData.category || null,
+          paid_by_participant_id: requestData.paid_by_participant_id,
+          split_mode: splitMode,
+          split_among_participant_ids: splitParticipantIds,
+          split_values: splitMode === 'equal' ? null : requestData.split_values,
+          frequency: requestData.frequency,
+          interval_count: intervalCount,
+          start_date: requestData.start_date,
+          end_date: requestData.end_date || null,
+          next_occurrence_date: requestData.start_date,
+        })
+        .select(RECURRING_TRANSACTION_COLUMNS)
+        .single();
+
+      if (insertError) {
+        return handleError(insertError, 'creating recurring transaction', req);
+      }
+
+      // Create the first occurrence right away when the series starts today or earlier
+      const { error: rpcError } = await supabase.rpc('materialize_recurring_transactions', {
+        p_group_id: requestData.group_id,
+      });
+      if (rpcError) {
+        return handleError(rpcError, 'materializing recurring transactions', req);
+      }
+
+      return createSuccessResponse(series, 201, 0, req);
+    }
+
+    if (req.method === 'PUT' || req.method === 'DELETE') {
+      if (!pathId || !isValidUUID(pathId)) {
+        return createErrorResponse(400, 'Valid recurring transaction id is required', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      const { data: existing, error: fetchError } = await supabase
+        .from('recurring_transactions')
+        .select(RECURRING_TRANSACTION_COLUMNS)
+        .eq('id', pathId)
+        .single();
+
+      if (fetchError || !existing) {
+        return createErrorResponse(404, 'Recurring transaction not found', 'NOT_FOUND', undefined, req);
+      }
+
+      if (!(await isActiveMember(supabase, existing.group_id, user.id))) {
+        return createErrorResponse(403, 'You must be an active member of the group to manage recurring expenses', 'PERMISSION_DENIED', undefined, req);
+      }
+
+      if (req.method === 'DELETE') {
+        const { error: deleteError } = await supabase
+          .from('recurring_transactions')
+          .delete()
+          .eq('id', pathId);
+
+        if (deleteError) {
+          return handleError(deleteError, 'deleting recurring transaction', req);
+        }
+
+        return createEmptyResponse(204, req);
+      }
+
+      let requestData: UpdateRecurringTransactionRequest;
+      try {
+        requestData = body ? JSON.parse(body) : {};
+      } catch {
+        return createErrorResponse(400, 'Invalid JSON in request body', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      const validation = validateTransactionData({
+        amount: requestData.amount,
+        description: requestData.description,
+      });
+      if (!validation.valid) {
+        return createErrorResponse(400, validation.error || 'Invalid recurring transaction data', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      const updateData: Record<string, unknown> = { updated_at: new Date().toISOString() };
+
+      if (requestData.description !== undefined) updateData.description = requestData.description.trim();
+      if (requestData.category !== undefined) updateData.category = requestData.category || null;
+
+      if (requestData.amount !== undefined) {
+        // Exact splits hold fixed amounts, so the total can't change independently
+        if (existing.split_mode === 'exact' && Math.abs(requestData.amount - Number(existing.amount)) > 0.01) {
+          return createErrorResponse(400, 'Amount of a series with exact splits cannot be changed', 'VALIDATION_ERROR', undefined, req);
+        }
+        updateData.amount = requestData.amount;
+      }
+
+      const endDate = requestData.end_date !== undefined ? requestData.end_date : existing.end_date;
+      if (requestData.end_date !== undefined) {
+        if (requestData.end_date !== null) {
+          if (!isValidDate(requestData.end_date)) {
+            return createErrorResponse(400, 'Invalid end_date format (expected YYYY-MM-DD)', 'VALIDATION_ERROR', undefined, req);
+          }
+          if (requestData.end_date < existing.start_date) {
+            return createErrorResponse(400, 'end_date cannot be before start_date', 'VALIDATION_ERROR', undefined, req);
+          }
+        }
+        updateData.end_date = requestData.end_date;
+      }
+
+      let status: string = existing.status;
+      if (requestData.status !== undefined) {
+        if (requestData.status !== 'active' && requestData.status !== 'paused') {
+          return createErrorResponse(400, 'status must be either "active" or "paused"', 'VALIDATION_ERROR', undefined, req);
+        }
+        if (existing.status === 'ended' && requestData.end_date === undefined) {
+          return createErrorResponse(400, 'This recurring expense has ended. Extend its end date to resume it.', 'VALIDATION_ERROR', undefined, req);
+        }
+        status = requestData.status;
+      }
+
+      if (status === 'active' && (existing.status !== 'active' || requestData.end_date !== undefined)) {
+        // Resuming skips the occurrences that fell due while paused
+        const today = new Date().toISOString().split('T')[0];
+        let occurrenceCount = existing.occurrence_count;
+        let nextDate = existing.next_occurrence_date;
+        if (existing.status !== 'active') {
+          while (nextDate < today) {
+            occurrenceCount += 1;
+            nextDate = occurrenceDate(existing.start_date, existing.frequency, existing.interval_count, occurrenceCount);
+          }
+        }
+        updateData.occurrence_count = occurrenceCount;
+        updateData.next_occurrence_date = nextDate;
+        if (endDate && nextDate > endDate) {
+          status = 'ended';
+        }
+      }
+      updateData.status = status;
+
+      const { data: series, error: updateError } = await supabase
+        .from('recurring_transactions')
+        .update(updateData)
+        .eq('id', pathId)
+        .select(RECURRING_TRANSACTION_COLUMNS)
+        .single();
+
+      if (updateError) {
+        return handleError(updateError, 'updating recurring transaction', req);
+      }
+
+      return createSuccessResponse(series, 200, 0, req);
+    }
+
+    return createErrorResponse(405, 'Method not allowed', 'METHOD_NOT_ALLOWED', undefined, req);
+  } catch (error: unknown) {
+    return handleError(error, 'recurring-transactions handler', req);
+  }
+});
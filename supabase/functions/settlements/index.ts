@@ -1,27 +1,52 @@
 import { verifyAuth } from '../_shared/auth.ts';
-import { createErrorResponse, handleError } from '../_shared/error-handler.ts';
+import { formatCurrency } from '../_shared/currency.ts';
+import { createErrorResponse, createVersionConflictResponse, handleError } from '../_shared/error-handler.ts';
+import { withIdempotencyKey } from '../_shared/idempotency.ts';
+import { dispatchNotification } from '../_shared/notifications.ts';
+import { parsePath } from '../_shared/path-parser.ts';
 import { createEmptyResponse, createSuccessResponse } from '../_shared/response.ts';
 import { fetchUserEmails } from '../_shared/user-email.ts';
-import { isValidUUID, validateBodySize, validateSettlementData } from '../_shared/validation.ts';
+import { isValidUUID, validateBodySize, validateDisputeReason, validateSettlementData } from '../_shared/validation.ts';
 
 /**
  * Settlements Edge Function
  * 
  * Handles CRUD operations for settlements (payments between users):
- * - GET /settlements?group_id=xxx - List settlements (optionally filtered by group)
- * - POST /settlements - Create new settlement
- * - PUT /settlements - Update existing settlement
- * - DELETE /settlements?id=xxx - Delete settlement
+ * - GET /settlements?group_id=xxx - List settlements (optionally filtered by group).
+ *   Adding id=xxx returns just that settlement, if it still exists.
+ * - POST /settlements - Create new settlement. Accepts an Idempotency-Key
+ *   header so a retried request doesn't record the payment twice.
+ * - PUT /settlements - Update existing settlement. Like transactions, it
+ *   requires the version the edit is based on; an outdated one fails with 409
+ *   VERSION_CONFLICT and the current settlement.
+ * - DELETE /settlements?id=xxx - Move settlement to the group's trash, where
+ *   it can be restored (see the trash function)
+ * - POST /settlements/:id/confirm - Receiver confirms they got the money
+ * - POST /settlements/:id/dispute - Receiver says they didn't (optional reason)
+ * 
+ * Settlements start out pending until the receiver confirms or disputes
+ * them, unless the receiver recorded them or has no account (see the
+ * settlement status migration).
+ * 
+ * The payer and the receiver get a push notification when a settlement
+ * between them is recorded, edited or deleted; the payer and the recorder
+ * when it is confirmed or disputed.
  * 
  * @route /functions/v1/settlements
  * @requires Authentication
  */
 
+type SettlementStatus = 'pending' | 'confirmed' | 'disputed';
+
 interface Settlement {
   id: string;
   group_id: string;
   from_participant_id: string;
   to_participant_id: string;
+  status: SettlementStatus;
+  status_changed_by?: string | null;
+  status_changed_at?: string | null;
+  dispute_reason?: string | null;
   from_user_id?: string; // Kept for logic, but participant is primary
   to_user_id?: string;
   amount: number;
@@ -29,10 +54,13 @@ interface Settlement {
   notes?: string;
   created_by: string;
   created_at: string;
+  version: number; // Incremented on every edit; PUT rejects older versions
   from_user_email?: string;
   to_user_email?: string;
   from_full_name?: string;
   to_full_name?: string;
+  comment_count?: number; // GET only
+  comments?: { count: number }[];
 }
 
 interface CreateSettlementRequest {
@@ -93,6 +121,21 @@ async function enrichSettlementsWithParticipants(
   });
 }
 
+function notifySettlementParticipants(
+  settlement: Pick<Settlement, 'id' | 'group_id' | 'from_participant_id' | 'to_participant_id' | 'amount' | 'currency'>,
+  actorId: string,
+  verb: string
+): Promise<void> {
+  return dispatchNotification({
+    type: 'settlements',
+    actorId,
+    groupId: settlement.group_id,
+    participantIds: [settlement.from_participant_id, settlement.to_participant_id],
+    message: `${verb} a settlement of ${formatCurrency(settlement.amount, settlement.currency)}`,
+    data: { settlement_id: settlement.id },
+  });
+}
+
 Deno.serve(async (req: Request) => {
   if (req.method === 'OPTIONS') {
     return createEmptyResponse(200, req);
@@ -115,18 +158,101 @@ Deno.serve(async (req: Request) => {
     const { user, supabase } = authResult;
     const currentUserId = user.id;
     const currentUserEmail = user.email;
+    const parsedPath = parsePath(new URL(req.url).pathname);
+    const settlementId = parsedPath.resource === 'settlements' ? parsedPath.id : undefined;
+    const statusAction = parsedPath.resource === 'settlements' ? parsedPath.action : undefined;
+
+    // POST /settlements/:id/confirm and /settlements/:id/dispute
+    if (req.method === 'POST' && settlementId && (statusAction === 'confirm' || statusAction === 'dispute')) {
+      if (!isValidUUID(settlementId)) {
+        return createErrorResponse(400, 'Invalid settlement id format. Expected UUID.', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      let requestData: { reason?: string | null };
+      try {
+        requestData = body ? JSON.parse(body) : {};
+      } catch {
+        return createErrorResponse(400, 'Invalid JSON in request body', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      const reasonValidation = validateDisputeReason(requestData.reason);
+      if (!reasonValidation.valid) {
+        return createErrorResponse(400, reasonValidation.error || 'Invalid reason', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      const { data: existingSettlement, error: fetchError } = await supabase
+        .from('settlements')
+        .select('id, to_participant_id, created_by')
+        .eq('id', settlementId)
+        .is('deleted_at', null)
+        .maybeSingle();
+
+      if (fetchError || !existingSettlement) {
+        return createErrorResponse(404, 'Settlement not found', 'NOT_FOUND', undefined, req);
+      }
+
+      const { data: receiver } = await supabase
+        .from('participants')
+        .select('user_id')
+        .eq('id', existingSettlement.to_participant_id)
+        .maybeSingle();
+
+      if (receiver?.user_id !== currentUserId) {
+        return createErrorResponse(403, 'Forbidden: Only the receiver can confirm or dispute a settlement', 'PERMISSION_DENIED', undefined, req);
+      }
+
+      const status: SettlementStatus = statusAction === 'confirm' ? 'confirmed' : 'disputed';
+      const { data: updatedSettlement, error: updateError } = await supabase
+        .from('settlements')
+        .update({
+          status,
+          dispute_reason: status === 'disputed' ? requestData.reason?.trim() || null : null,
+        })
+        .eq('id', settlementId)
+        .select()
+        .single();
+
+      if (updateError) {
+        return handleError(updateError, 'updating settlement status', req);
+      }
+
+      const enrichedSettlement = updatedSettlement as Settlement;
+      await enrichSettlementsWithParticipants(
+        supabase,
+        [enrichedSettlement],
+        currentUserId,
+        currentUserEmail
+      );
+
+      await dispatchNotification({
+        type: 'settlements',
+        actorId: currentUserId,
+        groupId: enrichedSettlement.group_id,
+        participantIds: [enrichedSettlement.from_participant_id],
+        userIds: [existingSettlement.created_by],
+        message: `${status} your settlement of ${formatCurrency(enrichedSettlement.amount, enrichedSettlement.currency)}`,
+        data: { settlement_id: enrichedSettlement.id },
+      });
+
+      return createSuccessResponse({ settlement: enrichedSettlement }, 200, 0, req);
+    }
 
     if (req.method === 'GET') {
       const url = new URL(req.url);
       const groupId = url.searchParams.get('group_id');
+      const settlementIdParam = url.searchParams.get('id');
       
       if (groupId && !isValidUUID(groupId)) {
         return createErrorResponse(400, 'Invalid group_id format. Expected UUID.', 'VALIDATION_ERROR', undefined, req);
       }
+      if (settlementIdParam && !isValidUUID(settlementIdParam)) {
+        return createErrorResponse(400, 'Invalid id format. Expected UUID.', 'VALIDATION_ERROR', undefined, req);
+      }
 
       let query = supabase
         .from('settlements')
-        .select('id, group_id, from_participant_id, to_participant_id, amount, currency, notes, created_by, created_at')
+        .select('id, group_id, from_participant_id, to_participant_id, amount, currency, notes, status, status_changed_by, status_changed_at, dispute_reason, created_by, created_at, version, comments ( count )')
+        .is('deleted_at', null)
         .order('created_at', { ascending: false });
 
       if (groupId) {
@@ -149,6 +275,10 @@ Deno.serve(async (req: Request) => {
         query = query.eq('created_by', currentUserId);
       }
 
+      if (settlementIdParam) {
+        query = query.eq('id', settlementIdParam);
+      }
+
       const { data: settlements, error } = await query;
 
       if (error) {
@@ -156,6 +286,10 @@ Deno.serve(async (req: Request) => {
       }
 
       const enrichedSettlements = (settlements || []) as Settlement[];
+      enrichedSettlements.forEach((settlement) => {
+        settlement.comment_count = settlement.comments?.[0]?.count ?? 0;
+        delete settlement.comments;
+      });
       await enrichSettlementsWithParticipants(
         supabase,
         enrichedSettlements,
@@ -166,70 +300,75 @@ Deno.serve(async (req: Request) => {
       return createSuccessResponse({ settlements: enrichedSettlements }, 200, 0);
     }
 
+    // Create, at most once per Idempotency-Key
     if (req.method === 'POST') {
-      if (!body) {
-        return createErrorResponse(400, 'Request body is required', 'VALIDATION_ERROR');
-      }
+      return await withIdempotencyKey(req, supabase, currentUserId, body, async () => {
+        if (!body) {
+          return createErrorResponse(400, 'Request body is required', 'VALIDATION_ERROR');
+        }
 
-      let settlementData: CreateSettlementRequest;
-      try {
-        settlementData = JSON.parse(body);
-      } catch {
-        return createErrorResponse(400, 'Invalid JSON in request body', 'VALIDATION_ERROR');
-      }
+        let settlementData: CreateSettlementRequest;
+        try {
+          settlementData = JSON.parse(body);
+        } catch {
+          return createErrorResponse(400, 'Invalid JSON in request body', 'VALIDATION_ERROR');
+        }
 
-      const validation = validateSettlementData(settlementData);
-      if (!validation.valid) {
-        return createErrorResponse(400, validation.error || 'Invalid settlement data', 'VALIDATION_ERROR');
-      }
+        const validation = validateSettlementData(settlementData);
+        if (!validation.valid) {
+          return createErrorResponse(400, validation.error || 'Invalid settlement data', 'VALIDATION_ERROR');
+        }
 
-      if (!settlementData.group_id || !settlementData.from_participant_id || !settlementData.to_participant_id || !settlementData.amount) {
-        return createErrorResponse(400, 'Missing required fields: group_id, from_participant_id, to_participant_id, amount', 'VALIDATION_ERROR', undefined, req);
-      }
+        if (!settlementData.group_id || !settlementData.from_participant_id || !settlementData.to_participant_id || !settlementData.amount) {
+          return createErrorResponse(400, 'Missing required fields: group_id, from_participant_id, to_participant_id, amount', 'VALIDATION_ERROR', undefined, req);
+        }
 
-      // Verify group membership of the creator
-      const { data: creatorParticipant } = await supabase
-        .from('participants')
-        .select('id')
-        .eq('group_id', settlementData.group_id)
-        .eq('user_id', currentUserId)
-        .maybeSingle();
+        // Verify group membership of the creator
+        const { data: creatorParticipant } = await supabase
+          .from('participants')
+          .select('id')
+          .eq('group_id', settlementData.group_id)
+          .eq('user_id', currentUserId)
+          .maybeSingle();
 
-      if (!creatorParticipant) {
-        return createErrorResponse(403, 'Forbidden: Not a member of this group', 'PERMISSION_DENIED');
-      }
+        if (!creatorParticipant) {
+          return createErrorResponse(403, 'Forbidden: Not a member of this group', 'PERMISSION_DENIED');
+        }
 
-      // Ensure at least one of the participants is the creator (or creator is an owner)
-      // Actually, if you're in the group, you can record a settlement between any two participants
-      // but usually you record one where YOU are involved.
+        // Ensure at least one of the participants is the creator (or creator is an owner)
+        // Actually, if you're in the group, you can record a settlement between any two participants
+        // but usually you record one where YOU are involved.
       
-      const { data: settlement, error } = await supabase
-        .from('settlements')
-        .insert({
-          group_id: settlementData.group_id,
-          from_participant_id: settlementData.from_participant_id,
-          to_participant_id: settlementData.to_participant_id,
-          amount: settlementData.amount,
-          currency: settlementData.currency || 'USD',
-          notes: settlementData.notes || null,
-          created_by: currentUserId,
-        })
-        .select()
-        .single();
+        const { data: settlement, error } = await supabase
+          .from('settlements')
+          .insert({
+            group_id: settlementData.group_id,
+            from_participant_id: settlementData.from_participant_id,
+            to_participant_id: settlementData.to_participant_id,
+            amount: settlementData.amount,
+            currency: settlementData.currency || 'USD',
+            notes: settlementData.notes || null,
+            created_by: currentUserId,
+          })
+          .select()
+          .single();
+
+        if (error) {
+          return handleError(error, 'creating settlement', req);
+        }
 
-      if (error) {
-        return handleError(error, 'creating settlement', req);
-      }
+        const enrichedSettlement = settlement as Settlement;
+        await enrichSettlementsWithParticipants(
+          supabase,
+          [enrichedSettlement],
+          currentUserId,
+          currentUserEmail
+        );
 
-      const enrichedSettlement = settlement as Settlement;
-      await enrichSettlementsWithParticipants(
-        supabase,
-        [enrichedSettlement],
-        currentUserId,
-        currentUserEmail
-      );
+        await notifySettlementParticipants(enrichedSettlement, currentUserId, 'recorded');
 
-      return createSuccessResponse({ settlement: enrichedSettlement }, 201);
+        return createSuccessResponse({ settlement: enrichedSettlement }, 201);
+      });
     }
 
     if (req.method === 'PUT') {
@@ -237,7 +376,7 @@ Deno.serve(async (req: Request) => {
         return createErrorResponse(400, 'Request body is required', 'VALIDATION_ERROR');
       }
 
-      let updateData: { id: string; amount?: number; currency?: string; notes?: string };
+      let updateData: { id: string; amount?: number; currency?: string; notes?: string; version?: number };
       try {
         updateData = JSON.parse(body);
       } catch {
@@ -250,8 +389,9 @@ Deno.serve(async (req: Request) => {
 
       const { data: existingSettlement, error: fetchError } = await supabase
         .from('settlements')
-        .select('id, created_by')
+        .select('*')
         .eq('id', updateData.id)
+        .is('deleted_at', null)
         .single();
 
       if (fetchError || !existingSettlement) {
@@ -262,22 +402,57 @@ Deno.serve(async (req: Request) => {
         return createErrorResponse(403, 'Forbidden: You can only update settlements you created', 'PERMISSION_DENIED');
       }
 
+      // The current copy comes back in the same shape as a successful edit
+      const conflictResponse = async (current: Settlement) => {
+        await enrichSettlementsWithParticipants(supabase, [current], currentUserId, currentUserEmail);
+        return createVersionConflictResponse(current, req);
+      };
+
+      if (!Number.isInteger(updateData.version)) {
+        return createErrorResponse(400, 'version is required and must be an integer', 'VALIDATION_ERROR');
+      }
+      if (updateData.version !== existingSettlement.version) {
+        return conflictResponse(existingSettlement as Settlement);
+      }
+
       const updateFields: any = {};
       if (updateData.amount !== undefined) updateFields.amount = updateData.amount;
       if (updateData.currency !== undefined) updateFields.currency = updateData.currency;
       if (updateData.notes !== undefined) updateFields.notes = updateData.notes || null;
 
+      // Nothing to save: the settlement stays at its current version
+      if (Object.keys(updateFields).length === 0) {
+        const currentSettlement = existingSettlement as Settlement;
+        await enrichSettlementsWithParticipants(supabase, [currentSettlement], currentUserId, currentUserEmail);
+        return createSuccessResponse({ settlement: currentSettlement }, 200);
+      }
+
+      // Only applies if nobody saved since it was fetched above
       const { data: updatedSettlement, error: updateError } = await supabase
         .from('settlements')
         .update(updateFields)
         .eq('id', updateData.id)
+        .eq('version', existingSettlement.version)
         .select()
-        .single();
+        .maybeSingle();
 
       if (updateError) {
         return handleError(updateError, 'updating settlement', req);
       }
 
+      if (!updatedSettlement) {
+        const { data: currentSettlement } = await supabase
+          .from('settlements')
+          .select('*')
+          .eq('id', updateData.id)
+          .is('deleted_at', null)
+          .maybeSingle();
+
+        return currentSettlement
+          ? conflictResponse(currentSettlement as Settlement)
+          : createErrorResponse(404, 'Settlement not found', 'NOT_FOUND');
+      }
+
       const enrichedSettlement = updatedSettlement as Settlement;
       await enrichSettlementsWithParticipants(
         supabase,
@@ -286,6 +461,8 @@ Deno.serve(async (req: Request) => {
         currentUserEmail
       );
 
+      await notifySettlementParticipants(enrichedSettlement, currentUserId, 'edited');
+
       return createSuccessResponse({ settlement: enrichedSettlement }, 200);
     }
 
@@ -299,8 +476,9 @@ Deno.serve(async (req: Request) => {
 
       const { data: existingSettlement, error: fetchError } = await supabase
         .from('settlements')
-        .select('id, created_by')
+        .select('id, group_id, from_participant_id, to_participant_id, amount, currency, created_by')
         .eq('id', settlementId)
+        .is('deleted_at', null)
         .single();
 
       if (fetchError || !existingSettlement) {
@@ -313,13 +491,15 @@ Deno.serve(async (req: Request) => {
 
       const { error: deleteError } = await supabase
         .from('settlements')
-        .delete()
+        .update({ deleted_at: new Date().toISOString(), deleted_by: currentUserId })
         .eq('id', settlementId);
 
       if (deleteError) {
         return handleError(deleteError, 'deleting settlement', req);
       }
 
+      await notifySettlementParticipants(existingSettlement, currentUserId, 'deleted');
+
       return createEmptyResponse(204);
     }
 
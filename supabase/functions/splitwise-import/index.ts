@@ -0,0 +1,447 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { verifyAuth } from '../_shared/auth.ts';
+import { parseCsv } from '../_shared/csv.ts';
+import { createErrorResponse, handleError } from '../_shared/error-handler.ts';
+import { fetchGroupExchangeRates, findExchangeRate, ExchangeRate } from '../_shared/exchange-rates.ts';
+import { log } from '../_shared/logger.ts';
+import { createEmptyResponse, createSuccessResponse } from '../_shared/response.ts';
+import { isValidEmail, isValidUUID, validateBodySize, validateTransactionData } from '../_shared/validation.ts';
+
+/**
+ * Splitwise Import Edge Function
+ *
+ * Imports a group's history from a Splitwise CSV export:
+ * - POST /splitwise-import - Returns a dry-run report of the transactions and
+ *   settlements that would be created, how each person column was mapped and
+ *   which rows were skipped
+ * - POST /splitwise-import with commit: true - Creates them (201) in one
+ *   transaction: if any row fails, nothing is imported.
+ *
+ * A Splitwise export has Date, Description, Category, Cost and Currency
+ * columns followed by one column per person with how the row changed their
+ * balance. Person columns are mapped to participants by the `mappings` sent
+ * with the request (column name to participant id or email), otherwise by
+ * matching a participant's name or email. A column named after an email that
+ * isn't in the group is invited, which creates an invited participant.
+ *
+ * Expenses are created with exact splits. Only balance changes are exported,
+ * so each person who owes gets a share equal to what they owe and the rest of
+ * the cost is the payers' own share. "Payment" rows become settlements,
+ * recorded as confirmed since they are past payments.
+ *
+ * @route /functions/v1/splitwise-import
+ * @requires Authentication
+ */
+
+interface SplitwiseImportRequest {
+  group_id: string;
+  content: string;
+  mappings?: Record<string, string>; // Column name -> participant id or email
+  commit?: boolean;
+}
+
+interface ImportParticipant {
+  id: string;
+  email?: string | null;
+  full_name?: string | null;
+}
+
+interface PersonMapping {
+  column: string;
+  participant_id: string | null;
+  email: string | null;
+  status: 'mapped' | 'invite' | 'unmapped';
+}
+
+interface ImportShare {
+  column: string;
+  amount: number;
+}
+
+interface ImportTransaction {
+  row: number;
+  date: string;
+  description: string;
+  category: string | null;
+  amount: number;
+  currency: string;
+  payers: ImportShare[];
+  splits: ImportShare[];
+}
+
+interface ImportSettlement {
+  row: number;
+  date: string;
+  description: string;
+  from: string;
+  to: string;
+  amount: number;
+  currency: string;
+}
+
+interface SkippedRow {
+  row: number;
+  description: string;
+  reason: string;
+}
+
+const REQUIRED_COLUMNS = ['date', 'description', 'category', 'cost', 'currency'];
+const PAYMENT_CATEGORY = 'payment';
+const MAX_IMPORT_ROWS = 2000;
+// Import files are larger than regular request bodies
+const MAX_BODY_SIZE = 5 * 1024 * 1024;
+
+async function isActiveMember(supabase: SupabaseClient, groupId: string, userId: string): Promise<boolean> {
+  const { data: membership, error } = await supabase
+    .from('group_members')
+    .select('id')
+    .eq('group_id', groupId)
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .maybeSingle();
+
+  return !error && !!membership;
+}
+
+const toCents = (value: number) => Math.round(value * 100);
+const fromCents = (cents: number) => cents / 100;
+
+function parseAmount(value: string | undefined): number | null {
+  const text = (value || '').trim();
+  if (!text) {
+    return 0;
+  }
+  const amount = Number(text);
+  return isFinite(amount) ? amount : null;
+}
+
+/**
+ * Maps each person column to a participant: explicit mappings first, then a
+ * participant with the same name or email.
+ */
+function mapPeople(
+  columns: string[],
+  participants: ImportParticipant[],
+  mappings: Record<string, string>
+): PersonMapping[] {
+  return columns.map((column) => {
+    const target = (mappings[column] ?? column).trim();
+    const normalized = target.toLowerCase();
+
+    const participant = isValidUUID(target)
+      ? participants.find((p) => p.id === target)
+      : participants.find((p) =>
+        p.email?.toLowerCase() === normalized || p.full_name?.trim().toLowerCase() === normalized
+      );
+
+    if (participant) {
+      return { column, participant_id: participant.id, email: participant.email || null, status: 'mapped' };
+    }
+    if (isValidEmail(normalized)) {
+      return { column, participant_id: null, email: normalized, status: 'invite' };
+    }
+    return { column, participant_id: null, email: null, status: 'unmapped' };
+  });
+}
+
+/**
+ * Rebuilds what each person paid and owed from their balance changes.
+ * People who owe get a share equal to what they owe; the rest of the cost is
+ * shared by the payers in proportion to what they're owed.
+ */
+function reconstructExpense(
+  costCents: number,
+  nets: { column: string; cents: number }[]
+): { payers: ImportShare[]; splits: ImportShare[] } | { error: string } {
+  const debtors = nets.filter((n) => n.cents < 0);
+  const creditors = nets.filter((n) => n.cents > 0);
+  if (creditors.length === 0) {
+    return { error: 'No one paid for this expense' };
+  }
+
+  const owedCents = debtors.reduce((sum, n) => sum - n.cents, 0);
+  const remainingCents = costCents - owedCents;
+  if (remainingCents < 0) {
+    return { error: 'Balance changes exceed the cost' };
+  }
+
+  const creditedCents = creditors.reduce((sum, n) => sum + n.cents, 0);
+  const payerShares = creditors.map((n) => Math.floor((remainingCents * n.cents) / creditedCents));
+  payerShares[0] += remainingCents - payerShares.reduce((sum, cents) => sum + cents, 0);
+
+  const paid = creditors.map((n, i) => ({ column: n.column, cents: n.cents + payerShares[i] }));
+  // Absorb rounding in the export so payers cover the cost exactly
+  paid[0].cents += costCents - paid.reduce((sum, p) => sum + p.cents, 0);
+
+  const splits = [
+    ...debtors.map((n) => ({ column: n.column, amount: fromCents(-n.cents) })),
+    ...creditors.map((n, i) => ({ column: n.column, amount: fromCents(payerShares[i]) })),
+  ].filter((s) => s.amount > 0);
+
+  return {
+    payers: paid.map((p) => ({ column: p.column, amount: fromCents(p.cents) })),
+    splits,
+  };
+}
+
+/**
+ * Parses a Splitwise export into transactions and settlements
+ */
+function parseSplitwiseCsv(
+  content: string,
+  people: Map<string, PersonMapping>
+): { transactions: ImportTransaction[]; settlements: ImportSettlement[]; skipped: SkippedRow[] } {
+  const rows = parseCsv(content);
+  const header = rows[0].map((cell) => cell.trim());
+  const index = (name: string) => header.findIndex((cell) => cell.toLowerCase() === name);
+  const currencyIndex = index('currency');
+  const personColumns = header.slice(currencyIndex + 1);
+
+  const transactions: ImportTransaction[] = [];
+  const settlements: ImportSettlement[] = [];
+  const skipped: SkippedRow[] = [];
+
+  rows.slice(1).forEach((cells, i) => {
+    const row = i + 2;
+    if (cells.every((cell) => !cell.trim())) {
+      return;
+    }
+
+    const description = (cells[index('description')] || '').trim();
+    if (description.toLowerCase() === 'total balance') {
+      return;
+    }
+
+    const skip = (reason: string) => skipped.push({ row, description, reason });
+    const date = (cells[index('date')] || '').trim().split(' ')[0];
+    const category = (cells[index('category')] || '').trim();
+    const cost = parseAmount(cells[index('cost')]);
+    const currency = (cells[currencyIndex] || '').trim().toUpperCase();
+
+    if (cost === null) {
+      return skip('Invalid cost');
+    }
+    const validation = validateTransactionData({ amount: cost, description, date, currency });
+    if (!validation.valid) {
+      return skip(validation.error || 'Invalid row');
+    }
+
+    const nets: { column: string; cents: number }[] = [];
+    for (let p = 0; p < personColumns.length; p++) {
+      const net = parseAmount(cells[currencyIndex + 1 + p]);
+      if (net === null) {
+        return skip(`Invalid amount for ${personColumns[p]}`);
+      }
+      if (toCents(net) !== 0) {
+        nets.push({ column: personColumns[p], cents: toCents(net) });
+      }
+    }
+
+    if (nets.length === 0) {
+      return skip("Row doesn't change anyone's balance");
+    }
+    if (Math.abs(nets.reduce((sum, n) => sum + n.cents, 0)) > 1) {
+      return skip("Balance changes don't add up to zero");
+    }
+    const unmapped = nets.find((n) => people.get(n.column)?.status === 'unmapped');
+    if (unmapped) {
+      return skip(`No participant for ${unmapped.column}`);
+    }
+
+    if (category.toLowerCase() === PAYMENT_CATEGORY) {
+      const from = nets.filter((n) => n.cents > 0);
+      const to = nets.filter((n) => n.cents < 0);
+      if (from.length !== 1 || to.length !== 1) {
+        return skip('Payments must be between exactly two people');
+      }
+      settlements.push({ row, date, description, from: from[0].column, to: to[0].column, amount: cost, currency });
+      return;
+    }
+
+    const expense = reconstructExpense(toCents(cost), nets);
+    if ('error' in expense) {
+      return skip(expense.error);
+    }
+    transactions.push({
+      row,
+      date,
+      description,
+      category: category || null,
+      amount: cost,
+      currency,
+      payers: expense.payers,
+      splits: expense.splits,
+    });
+  });
+
+  return { transactions, settlements, skipped };
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return createEmptyResponse(200, req);
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return createErrorResponse(405, 'Method not allowed', 'METHOD_NOT_ALLOWED', undefined, req);
+    }
+
+    const body = await req.text().catch(() => null);
+    const bodySizeValidation = validateBodySize(body, MAX_BODY_SIZE);
+    if (!bodySizeValidation.valid) {
+      return createErrorResponse(413, bodySizeValidation.error || 'Request body too large', 'VALIDATION_ERROR', undefined, req);
+    }
+
+    let authResult;
+    try {
+      authResult = await verifyAuth(req);
+    } catch (authError) {
+      return handleError(authError, 'authentication', req);
+    }
+
+    const { user, supabase } = authResult;
+
+    let requestData: SplitwiseImportRequest;
+    try {
+      requestData = body ? JSON.parse(body) : {};
+    } catch {
+      return createErrorResponse(400, 'Invalid JSON in request body', 'VALIDATION_ERROR', undefined, req);
+    }
+
+    if (!requestData.group_id || !isValidUUID(requestData.group_id)) {
+      return createErrorResponse(400, 'Valid group_id is required', 'VALIDATION_ERROR', undefined, req);
+    }
+    if (typeof requestData.content !== 'string' || !requestData.content.trim()) {
+      return createErrorResponse(400, 'Import content cannot be empty', 'VALIDATION_ERROR', undefined, req);
+    }
+    const mappings = requestData.mappings ?? {};
+    if (typeof mappings !== 'object' || Array.isArray(mappings)
+      || Object.values(mappings).some((value) => typeof value !== 'string')) {
+      return createErrorResponse(400, 'mappings must map column names to a participant id or email', 'VALIDATION_ERROR', undefined, req);
+    }
+
+    const groupId = requestData.group_id;
+    if (!(await isActiveMember(supabase, groupId, user.id))) {
+      return createErrorResponse(403, 'You must be an active member of the group to import expenses', 'PERMISSION_DENIED', undefined, req);
+    }
+
+    const rows = parseCsv(requestData.content);
+    const header = (rows[0] || []).map((cell) => cell.trim().toLowerCase());
+    const missingColumns = REQUIRED_COLUMNS.filter((column) => !header.includes(column));
+    if (missingColumns.length > 0) {
+      return createErrorResponse(400, `Not a Splitwise export: missing columns ${missingColumns.join(', ')}`, 'VALIDATION_ERROR', undefined, req);
+    }
+    if (rows.length - 1 > MAX_IMPORT_ROWS) {
+      return createErrorResponse(400, `Too many rows in import (max ${MAX_IMPORT_ROWS})`, 'VALIDATION_ERROR', undefined, req);
+    }
+    const personColumns = rows[0].slice(header.indexOf('currency') + 1).map((cell) => cell.trim());
+    if (personColumns.length === 0 || personColumns.some((column) => !column)) {
+      return createErrorResponse(400, 'Every person column must have a name', 'VALIDATION_ERROR', undefined, req);
+    }
+
+    const { data: participants, error: participantsError } = await supabase
+      .from('participants')
+      .select('id, email, full_name')
+      .eq('group_id', groupId);
+
+    if (participantsError) {
+      return handleError(participantsError, 'fetching participants', req);
+    }
+
+    const people = mapPeople(personColumns, participants || [], mappings);
+    const peopleByColumn = new Map(people.map((person) => [person.column, person]));
+    const { transactions, settlements, skipped } = parseSplitwiseCsv(requestData.content, peopleByColumn);
+
+    // Only invite people who appear in a row that will be imported
+    const usedColumns = new Set([
+      ...transactions.flatMap((tx) => [...tx.payers, ...tx.splits].map((share) => share.column)),
+      ...settlements.flatMap((s) => [s.from, s.to]),
+    ]);
+    const report = {
+      dry_run: !requestData.commit,
+      people: people.map((person) =>
+        person.status === 'invite' && !usedColumns.has(person.column) ? { ...person, status: 'unmapped' as const } : person
+      ),
+      transactions,
+      settlements,
+      skipped,
+    };
+
+    if (!requestData.commit) {
+      return createSuccessResponse(report, 200, 0, req);
+    }
+
+    const { data: group, error: groupError } = await supabase
+      .from('groups')
+      .select('settlement_currency')
+      .eq('id', groupId)
+      .single();
+
+    if (groupError || !group) {
+      return createErrorResponse(404, 'Group not found', 'NOT_FOUND', undefined, req);
+    }
+
+    const settlementCurrency: string | null = group.settlement_currency || null;
+    const rates: ExchangeRate[] = settlementCurrency ? await fetchGroupExchangeRates(supabase, groupId) : [];
+
+    // Rows refer to people by column; invited emails get a participant in the RPC
+    const importedPeople = report.people
+      .filter((person) => person.status !== 'unmapped')
+      .map((person) => {
+        if (person.status === 'mapped') {
+          return { column: person.column, participant_id: person.participant_id };
+        }
+        const tokenArray = new Uint8Array(32);
+        crypto.getRandomValues(tokenArray);
+        return {
+          column: person.column,
+          email: person.email,
+          token: Array.from(tokenArray).map(b => b.toString(16).padStart(2, '0')).join(''),
+        };
+      });
+
+    const { data: created, error: importError } = await supabase.rpc('import_splitwise_history', {
+      p_group_id: groupId,
+      p_people: importedPeople,
+      p_transactions: transactions.map((tx) => {
+        const payers = [...tx.payers].sort((a, b) => b.amount - a.amount);
+        const rate = settlementCurrency ? findExchangeRate(rates, tx.currency, settlementCurrency, tx.date) : null;
+        return {
+          date: tx.date,
+          description: tx.description,
+          category: tx.category,
+          amount: tx.amount,
+          currency: tx.currency,
+          exchange_rate: rate,
+          exchange_rate_currency: rate === null ? null : settlementCurrency,
+          paid_by: payers[0].column,
+          splits: tx.splits,
+          payers: tx.payers.length > 1 ? tx.payers : [],
+        };
+      }),
+      p_settlements: settlements.map((s) => ({
+        from: s.from,
+        to: s.to,
+        amount: s.amount,
+        currency: s.currency,
+        notes: s.description,
+        date: s.date,
+      })),
+    });
+
+    // Nothing is kept when the import fails part way
+    if (importError) {
+      log.error('Failed to commit Splitwise import', 'splitwise-import', {
+        groupId,
+        error: importError.message,
+        code: importError.code,
+      });
+      return handleError(importError, 'importing from Splitwise', req);
+    }
+
+    return createSuccessResponse({ ...report, created }, 201, 0, req);
+  } catch (error: unknown) {
+    return handleError(error, 'splitwise-import handler', req);
+  }
+});
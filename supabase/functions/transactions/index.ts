@@ -1,20 +1,99 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  AttachmentUploadRequest,
+  buildAttachmentPath,
+  MAX_ATTACHMENT_BODY_SIZE,
+  MAX_ATTACHMENTS_PER_TRANSACTION,
+  RECEIPTS_BUCKET,
+  removeAttachmentFiles,
+  signAttachmentUrls,
+  TransactionAttachment,
+  validateAttachmentUpload,
+} from '../_shared/attachments.ts';
 import { verifyAuth } from '../_shared/auth.ts';
+import { BudgetWarning, getBudgetStatuses, getCrossedBudgets } from '../_shared/budgets.ts';
 import { formatCurrency } from '../_shared/currency.ts';
-import { createErrorResponse, handleError } from '../_shared/error-handler.ts';
+import { createErrorResponse, createVersionConflictResponse, handleError } from '../_shared/error-handler.ts';
+import { resolveTransactionExchangeRate } from '../_shared/exchange-rates.ts';
+import { withIdempotencyKey } from '../_shared/idempotency.ts';
 import { log } from '../_shared/logger.ts';
+import { dispatchNotification } from '../_shared/notifications.ts';
+import { parsePath } from '../_shared/path-parser.ts';
 import { createEmptyResponse, createSuccessResponse } from '../_shared/response.ts';
-import { isValidUUID, validateBodySize, validateTransactionData } from '../_shared/validation.ts';
+import { fetchUserEmails } from '../_shared/user-email.ts';
+import { fetchUserProfiles } from '../_shared/user-profiles.ts';
+import {
+  isValidDate,
+  isValidUUID,
+  SplitMode,
+  validateBodySize,
+  validateItemizedSplit,
+  validatePayers,
+  validateSplitValues,
+  validateTransactionData,
+} from '../_shared/validation.ts';
 
 /**
  * Transactions Edge Function
  * 
  * Handles CRUD operations for transactions:
- * - GET /transactions?group_id=xxx - Fetch transactions (optionally filtered by group)
- * - POST /transactions - Create new transaction
- * - PUT /transactions - Update existing transaction
- * - DELETE /transactions?id=xxx - Delete transaction
+ * - GET /transactions?group_id=xxx - Fetch a page of transactions, newest first
+ *   (optionally filtered by group). With limit (max 200) or cursor it returns
+ *   { transactions, next_cursor }; pass next_cursor back as cursor for the
+ *   following page. Without either it returns the latest 200 as a plain
+ *   array, as older app versions expect. Also accepts from and to (dates),
+ *   category (name) or category_id, type, payer_id and participant_id
+ *   (participant who paid / is involved), min_amount, max_amount and q (text
+ *   in the description).
+ * - POST /transactions - Create new transaction. When a group expense pushes
+ *   a budget past 80% or 100%, the response includes budget_warnings. Send an
+ *   Idempotency-Key header to make retries safe: a repeat gets the original
+ *   response instead of a duplicate (see _shared/idempotency.ts).
+ * - PUT /transactions - Update existing transaction. Requires the version it
+ *   was loaded with: if the transaction changed since, it fails with 409
+ *   VERSION_CONFLICT and the current transaction (current) instead of
+ *   overwriting the other change.
+ * - DELETE /transactions?id=xxx - Move a transaction to the trash, where it
+ *   can be restored (see the trash function): the group's trash, or the
+ *   owner's own trash for personal transactions.
+ * - POST /transactions/:id/attachments - Attach a receipt image (base64)
+ * - DELETE /transactions/:id/attachments?attachment_id=xxx - Remove a receipt
+ * - GET /transactions/:id/history - Every version of a transaction, oldest
+ *   first, with what changed in each, and the version PUT currently expects
+ *   (transaction_version)
+ * - POST /transactions/:id/history - Restore an earlier version
+ *   ({ history_id }). This saves a new edit, so it shows up in the history
+ *   and activity feed like any other.
  * 
- * Supports expense splitting with automatic calculation of equal splits.
+ * Supports expense splitting in five modes (split_mode):
+ * - equal: amount divided equally among split_among_participant_ids
+ * - exact: split_values hold the amount each participant owes
+ * - percentage: split_values hold percentages that must add up to 100
+ * - shares: split_values hold share counts (e.g. 2 shares vs 1 share)
+ * - itemized: items (name, unit_price, quantity, participant_ids) plus
+ *   tax_amount and tip_amount, which are distributed in proportion to each
+ *   participant's item subtotal. Items are stored alongside the splits.
+ * 
+ * Expenses paid by several people send payers (participant + amount), which
+ * must add up to the total. paid_by_participant_id is then the largest payer.
+ * 
+ * Group transactions record exchange_rate: the rate from their currency into
+ * the group's settlement currency on the transaction date, when one is known.
+ * 
+ * Fetching a group's transactions first materializes any recurring expenses
+ * that are due (see recurring-transactions). Former members only get the
+ * transactions they are part of (see search_transactions).
+ * 
+ * Receipts are stored in the receipts Storage bucket; fetched transactions
+ * include their attachments with signed URLs and their comment_count (see
+ * comments).
+ * 
+ * Restoring a version brings back the transaction's own fields (description,
+ * amount, currency, date, type, category, payer). When the amount changes,
+ * the splits are recalculated as for any edit of the amount.
+ * 
+ * Adding, editing or deleting a group transaction sends a push notification
+ * to the members it involves (see notifications).
  * 
  * @route /functions/v1/transactions
  * @requires Authentication
@@ -26,12 +105,48 @@ interface Transaction {
   description: string;
   date: string;
   type: 'income' | 'expense';
-  category?: string;
+  category?: string | null;
+  category_id?: string | null; // Group category; its name is copied into category
   user_id?: string;
   group_id?: string;
   currency?: string;
   paid_by_participant_id?: string; // Participant who paid
   split_among_participant_ids?: string[]; // Array of participant IDs to split among
+  split_mode?: SplitMode;
+  split_values?: SplitValue[]; // Per-participant values for non-equal split modes
+  payers?: TransactionPayer[]; // Set when more than one participant paid
+  items?: TransactionItem[]; // Receipt line items of an itemized split
+  tax_amount?: number | null; // Itemized splits only
+  tip_amount?: number | null; // Itemized splits only
+  attachments?: TransactionAttachment[]; // Receipt images with signed URLs
+  comment_count?: number; // Comments on the transaction (GET only)
+  exchange_rate?: number | null; // Rate into the group settlement currency when saved
+  exchange_rate_currency?: string | null;
+  version?: number; // Incremented on every edit; PUT rejects older versions
+}
+
+interface TransactionPayer {
+  transaction_id?: number;
+  participant_id: string;
+  amount: number;
+  user_id?: string | null;
+  email?: string | null;
+  full_name?: string | null;
+  avatar_url?: string | null;
+}
+
+interface SplitValue {
+  participant_id: string;
+  value: number;
+}
+
+interface TransactionItem {
+  id?: string;
+  name: string;
+  unit_price: number;
+  quantity?: number; // Defaults to 1
+  participant_ids: string[]; // Participants sharing the item equally
+  position?: number;
 }
 
 interface TransactionSplit {
@@ -40,6 +155,7 @@ interface TransactionSplit {
   user_id?: string | null; // Legacy: kept for backward compatibility
   email?: string | null; // Legacy: kept for backward compatibility
   amount: number;
+  share_value?: number | null; // Raw value entered for exact/percentage/shares splits
   full_name?: string | null;
   avatar_url?: string | null;
 }
@@ -58,6 +174,10 @@ interface Participant {
 interface TransactionWithSplits extends Transaction {
   transaction_splits?: TransactionSplit[];
   splits?: TransactionSplit[];
+  transaction_payers?: TransactionPayer[];
+  transaction_attachments?: TransactionAttachment[];
+  transaction_items?: TransactionItem[];
+  comments?: { count: number }[];
 }
 
 /**
@@ -116,6 +236,740 @@ function validateSplitSum(
   return { valid: true };
 }
 
+/**
+ * Calculates split amounts proportional to each participant's weight
+ * (percentage or share count). Like calculateEqualSplits, the rounding
+ * remainder goes to the first participant.
+ */
+function calculateWeightedSplits(
+  totalAmount: number,
+  values: SplitValue[]
+): TransactionSplit[] {
+  const totalWeight = values.reduce((acc, v) => acc + v.value, 0);
+  if (values.length === 0 || totalWeight <= 0) {
+    return [];
+  }
+
+  const splits: TransactionSplit[] = values.map((v) => ({
+    transaction_id: 0,
+    participant_id: v.participant_id,
+    amount: Math.floor((totalAmount * 100 * v.value) / totalWeight) / 100,
+    share_value: v.value,
+  }));
+
+  const baseSum = splits.reduce((acc, split) => acc + split.amount, 0);
+  const remainder = Math.round((totalAmount - baseSum) * 100) / 100;
+  splits[0].amount = Math.round((splits[0].amount + remainder) * 100) / 100;
+
+  return splits;
+}
+
+/**
+ * Builds transaction splits for the given split mode.
+ * Returns an error message when the split values don't add up to the
+ * transaction amount (exact) or to 100 (percentage).
+ */
+function calculateSplits(
+  totalAmount: number,
+  splitMode: SplitMode,
+  participantIds: string[],
+  splitValues: SplitValue[] | undefined,
+  currencyCode: string = 'USD'
+): { splits: TransactionSplit[]; error?: string } {
+  if (splitMode === 'equal') {
+    return { splits: calculateEqualSplits(totalAmount, participantIds) };
+  }
+
+  const values = splitValues || [];
+
+  if (splitMode === 'exact') {
+    const splits: TransactionSplit[] = values.map((v) => ({
+      transaction_id: 0,
+      participant_id: v.participant_id,
+      amount: Math.round(v.value * 100) / 100,
+      share_value: v.value,
+    }));
+    const sumValidation = validateSplitSum(splits, totalAmount, currencyCode);
+    if (!sumValidation.valid) {
+      return { splits: [], error: sumValidation.error };
+    }
+    return { splits };
+  }
+
+  if (splitMode === 'percentage') {
+    const totalPercentage = values.reduce((acc, v) => acc + v.value, 0);
+    if (Math.abs(totalPercentage - 100) > 0.01) {
+      return {
+        splits: [],
+        error: `Split percentages must add up to 100% (got ${Math.round(totalPercentage * 100) / 100}%)`,
+      };
+    }
+  }
+
+  return { splits: calculateWeightedSplits(totalAmount, values) };
+}
+
+/**
+ * Builds splits for an itemized expense. Each item's total is shared equally
+ * by its participants; tax and tip are then distributed in proportion to each
+ * participant's item subtotal, which is kept as the split's share_value.
+ */
+function calculateItemizedSplits(
+  totalAmount: number,
+  items: TransactionItem[],
+  taxAmount: number,
+  tipAmount: number,
+  currencyCode: string = 'USD'
+): { splits: TransactionSplit[]; error?: string } {
+  const subtotals = new Map<string, number>();
+  let itemsTotal = 0;
+
+  items.forEach((item) => {
+    const itemTotal = Math.round(item.unit_price * (item.quantity ?? 1) * 100) / 100;
+    const participantIds = [...new Set(item.participant_ids)];
+    itemsTotal += itemTotal;
+    participantIds.forEach((participantId) => {
+      subtotals.set(participantId, (subtotals.get(participantId) || 0) + itemTotal / participantIds.length);
+    });
+  });
+
+  const difference = Math.abs(itemsTotal + taxAmount + tipAmount - totalAmount);
+  if (difference > 0.01) {
+    return {
+      splits: [],
+      error: `Items (${formatCurrency(itemsTotal, currencyCode)}) plus tax and tip (${formatCurrency(taxAmount + tipAmount, currencyCode)}) do not equal transaction amount (${formatCurrency(totalAmount, currencyCode)})`,
+    };
+  }
+
+  // Participants whose items are all free owe nothing
+  const values: SplitValue[] = [...subtotals.entries()]
+    .filter(([, subtotal]) => subtotal > 0)
+    .map(([participant_id, subtotal]) => ({ participant_id, value: Math.round(subtotal * 10000) / 10000 }));
+
+  if (values.length === 0) {
+    return { splits: [], error: 'At least one item must have a price' };
+  }
+
+  return { splits: calculateWeightedSplits(totalAmount, values) };
+}
+
+/**
+ * Maps itemized split items to transaction_items rows, keeping receipt order.
+ */
+function buildItemRows(transactionId: number, items: TransactionItem[]) {
+  return items.map((item, index) => ({
+    transaction_id: transactionId,
+    name: item.name.trim(),
+    unit_price: item.unit_price,
+    quantity: item.quantity ?? 1,
+    participant_ids: [...new Set(item.participant_ids)],
+    position: index,
+  }));
+}
+
+/**
+ * Validates that the payers of a multi-payer expense paid the full amount.
+ */
+function validatePayerSum(
+  payers: TransactionPayer[],
+  transactionAmount: number,
+  currencyCode: string = 'USD'
+): { valid: boolean; error?: string } {
+  const sum = payers.reduce((acc, payer) => acc + payer.amount, 0);
+  const difference = Math.abs(sum - transactionAmount);
+
+  if (difference > 0.01) {
+    return {
+      valid: false,
+      error: `Payer amounts sum (${formatCurrency(sum, currencyCode)}) does not equal transaction amount (${formatCurrency(transactionAmount, currencyCode)}). Difference: ${formatCurrency(difference, currencyCode)}`,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Returns the participant who paid the most, used as paid_by_participant_id
+ * for multi-payer expenses.
+ */
+function getPrimaryPayerId(payers: TransactionPayer[]): string {
+  return payers.reduce((max, payer) => (payer.amount > max.amount ? payer : max), payers[0]).participant_id;
+}
+
+/**
+ * Whether a category belongs to the group the transaction is saved in
+ */
+async function isGroupCategory(supabase: SupabaseClient, categoryId: string, groupId: string | null | undefined): Promise<boolean> {
+  if (!isValidUUID(categoryId) || !groupId) {
+    return false;
+  }
+  const { data: category, error } = await supabase
+    .from('group_categories')
+    .select('id')
+    .eq('id', categoryId)
+    .eq('group_id', groupId)
+    .maybeSingle();
+
+  return !error && !!category;
+}
+
+interface InvolvedParticipants {
+  paid_by_participant_id?: string | null;
+  splits?: { participant_id: string | null }[];
+  payers?: { participant_id: string }[];
+}
+
+/**
+ * Participants a transaction involves: whoever paid and everyone sharing it
+ */
+function getInvolvedParticipantIds(tx: InvolvedParticipants): string[] {
+  return [
+    tx.paid_by_participant_id,
+    ...(tx.splits || []).map(s => s.participant_id),
+    ...(tx.payers || []).map(p => p.participant_id),
+  ].filter((id): id is string => !!id);
+}
+
+async function fetchInvolvedParticipantIds(supabase: SupabaseClient, transactionId: number): Promise<string[]> {
+  const { data } = await supabase
+    .from('transactions')
+    .select('paid_by_participant_id, splits:transaction_splits ( participant_id ), payers:transaction_payers ( participant_id )')
+    .eq('id', transactionId)
+    .maybeSingle();
+
+  return data ? getInvolvedParticipantIds(data) : [];
+}
+
+/**
+ * A transaction as PUT returns it: with splits, payers and items
+ */
+async function fetchTransactionWithDetails(supabase: SupabaseClient, transactionId: number): Promise<any | null> {
+  const { data: transaction } = await supabase
+    .from('transactions')
+    .select(`
+      *,
+      transaction_splits (
+        id,
+        participant_id,
+        amount,
+        share_value,
+        created_at
+      ),
+      transaction_payers (
+        participant_id,
+        amount
+      ),
+      transaction_items (
+        id,
+        name,
+        unit_price,
+        quantity,
+        participant_ids,
+        position
+      )
+    `)
+    .eq('id', transactionId)
+    .single();
+
+  if (!transaction) {
+    return null;
+  }
+
+  if (transaction.transaction_splits) {
+    transaction.splits = transaction.transaction_splits;
+    delete transaction.transaction_splits;
+  }
+  if (transaction.transaction_payers) {
+    transaction.payers = transaction.transaction_payers;
+    delete transaction.transaction_payers;
+  }
+  if (transaction.transaction_items) {
+    transaction.items = [...transaction.transaction_items]
+      .sort((a: TransactionItem, b: TransactionItem) => (a.position ?? 0) - (b.position ?? 0));
+    delete transaction.transaction_items;
+  }
+
+  // Populate split_among_participant_ids from splits for backward compatibility in response
+  if (transaction.splits && Array.isArray(transaction.splits)) {
+    transaction.split_among_participant_ids = transaction.splits
+      .map((s: TransactionSplit) => s.participant_id)
+      .filter((id: string | null | undefined): id is string => !!id);
+  }
+
+  return transaction;
+}
+
+/**
+ * Splits for a new amount, keeping the participants and split mode. Exact
+ * and itemized splits can't be rescaled, so they return an error instead.
+ * Returns null splits when the transaction has none.
+ */
+async function rescaleSplits(
+  supabase: SupabaseClient,
+  transactionId: number,
+  splitMode: SplitMode | null | undefined,
+  newAmount: number,
+  currencyCode: string
+): Promise<{ splits: TransactionSplit[] | null; error?: string }> {
+  const { data: existingSplits, error: splitsFetchError } = await supabase
+    .from('transaction_splits')
+    .select('participant_id, share_value')
+    .eq('transaction_id', transactionId);
+
+  if (splitsFetchError || !existingSplits || existingSplits.length === 0) {
+    return { splits: null };
+  }
+
+  const existingMode: SplitMode = splitMode || 'equal';
+  if (existingMode === 'exact') {
+    return { splits: null, error: 'split_values are required when changing the amount of an exact split' };
+  }
+  if (existingMode === 'itemized') {
+    return { splits: null, error: 'items are required when changing the amount of an itemized split' };
+  }
+
+  const rows = existingSplits as { participant_id: string | null; share_value: number | null }[];
+  const participantIds = rows.map(s => s.participant_id).filter((id): id is string => !!id);
+  const existingValues = rows
+    .filter(s => !!s.participant_id)
+    .map(s => ({ participant_id: s.participant_id as string, value: Number(s.share_value) }));
+  const { splits, error } = calculateSplits(newAmount, existingMode, participantIds, existingValues, currencyCode);
+  return error ? { splits: null, error } : { splits };
+}
+
+// What restoring a version brings back; the splits follow the amount
+const VERSION_FIELDS = ['description', 'amount', 'currency', 'date', 'type', 'category', 'category_id', 'paid_by_participant_id'] as const;
+
+type VersionField = typeof VERSION_FIELDS[number];
+
+// A transaction as fetched to list or restore its versions
+type VersionedTransaction = Record<VersionField, unknown> & {
+  id: number;
+  version: number;
+  group_id: string | null;
+  user_id: string;
+  split_mode: SplitMode;
+};
+
+interface TransactionHistoryRow {
+  id: string;
+  action: 'created' | 'updated' | 'deleted' | 'restored';
+  changed_by: string;
+  changed_at: string;
+  changes: { diff?: Record<string, { old: unknown; new: unknown }> } | null;
+  snapshot: Record<string, unknown> | null;
+}
+
+function pickVersionFields(row: Record<string, unknown>): Record<VersionField, unknown> {
+  return Object.fromEntries(VERSION_FIELDS.map(field => [field, row[field] ?? null])) as Record<VersionField, unknown>;
+}
+
+// Snapshots are JSONB, so numbers and dates are compared by their text
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === null || a === undefined || b === null || b === undefined) {
+    return (a ?? null) === (b ?? null);
+  }
+  return typeof a === 'number' || typeof b === 'number' ? Number(a) === Number(b) : String(a) === String(b);
+}
+
+async function canEditTransaction(supabase: SupabaseClient, transaction: { user_id?: string; group_id?: string | null }, userId: string): Promise<boolean> {
+  if (transaction.user_id === userId) {
+    return true;
+  }
+  if (!transaction.group_id) {
+    return false;
+  }
+  const { data: membership, error } = await supabase
+    .from('group_members')
+    .select('id')
+    .eq('group_id', transaction.group_id)
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .maybeSingle();
+
+  return !error && !!membership;
+}
+
+/**
+ * GET /transactions/:id/history - Every version of the transaction, oldest
+ * first. Moving it to the trash and back is listed too. is_current marks
+ * versions whose fields match the transaction as it is now; transaction_version
+ * is the version an edit has to be based on.
+ */
+async function listTransactionVersions(
+  req: Request,
+  supabase: SupabaseClient,
+  user: { id: string; email?: string | null },
+  transactionId: number
+): Promise<Response> {
+  const { data: transaction, error: fetchError } = await supabase
+    .from('transactions')
+    .select(`id, version, ${VERSION_FIELDS.join(', ')}`)
+    .eq('id', transactionId)
+    .is('deleted_at', null)
+    .single<VersionedTransaction>();
+
+  if (fetchError || !transaction) {
+    return createErrorResponse(404, 'Transaction not found', 'NOT_FOUND', undefined, req);
+  }
+
+  const { data: history, error } = await supabase
+    .from('transaction_history')
+    .select('id, action, changed_by, changed_at, changes, snapshot')
+    .eq('transaction_id', transactionId)
+    .order('changed_at', { ascending: true });
+
+  if (error) {
+    return handleError(error, 'fetching transaction history', req);
+  }
+
+  const rows: TransactionHistoryRow[] = history || [];
+  const userIds = [...new Set(rows.map(row => row.changed_by))];
+  const [emailMap, profileMap] = await Promise.all([
+    fetchUserEmails(userIds, user.id, user.email || null),
+    fetchUserProfiles(supabase, userIds),
+  ]);
+  const current = pickVersionFields(transaction);
+
+  const versions = rows.map((row, index) => {
+    const fields = row.snapshot ? pickVersionFields(row.snapshot) : null;
+    return {
+      id: row.id,
+      version: index + 1,
+      action: row.action,
+      changed_by: {
+        id: row.changed_by,
+        email: emailMap.get(row.changed_by) || 'Unknown User',
+        full_name: profileMap.get(row.changed_by)?.full_name || null,
+        avatar_url: profileMap.get(row.changed_by)?.avatar_url || null,
+      },
+      changed_at: row.changed_at,
+      diff: row.action === 'updated' ? row.changes?.diff || {} : null,
+      fields,
+      is_current: !!fields && VERSION_FIELDS.every(field => isSameValue(fields[field], current[field])),
+    };
+  });
+
+  return createSuccessResponse({ versions, transaction_version: transaction.version }, 200, 0, req);
+}
+
+/**
+ * POST /transactions/:id/history - Saves the fields of an earlier version as
+ * a new edit
+ */
+async function restoreTransactionVersion(
+  req: Request,
+  body: string | null,
+  supabase: SupabaseClient,
+  userId: string,
+  transactionId: number
+): Promise<Response> {
+  let requestData: { history_id?: string };
+  try {
+    requestData = body ? JSON.parse(body) : {};
+  } catch {
+    return createErrorResponse(400, 'Invalid JSON in request body', 'VALIDATION_ERROR', undefined, req);
+  }
+
+  if (!requestData.history_id || !isValidUUID(requestData.history_id)) {
+    return createErrorResponse(400, 'Valid history_id is required', 'VALIDATION_ERROR', undefined, req);
+  }
+
+  const { data: existingTransaction, error: fetchError } = await supabase
+    .from('transactions')
+    .select(`id, group_id, user_id, split_mode, version, ${VERSION_FIELDS.join(', ')}`)
+    .eq('id', transactionId)
+    .is('deleted_at', null)
+    .single<VersionedTransaction>();
+
+  if (fetchError || !existingTransaction) {
+    return createErrorResponse(404, 'Transaction not found', 'NOT_FOUND', undefined, req);
+  }
+
+  if (!(await canEditTransaction(supabase, existingTransaction, userId))) {
+    return createErrorResponse(403, 'You can only update transactions you own or transactions in groups you belong to', 'PERMISSION_DENIED', undefined, req);
+  }
+
+  const { data: version, error: versionError } = await supabase
+    .from('transaction_history')
+    .select('id, snapshot')
+    .eq('id', requestData.history_id)
+    .eq('transaction_id', transactionId)
+    .maybeSingle();
+
+  if (versionError || !version) {
+    return createErrorResponse(404, 'Version not found', 'NOT_FOUND', undefined, req);
+  }
+  if (!version.snapshot) {
+    return createErrorResponse(400, 'This version has no saved copy to restore', 'VALIDATION_ERROR', undefined, req);
+  }
+
+  const restored = pickVersionFields(version.snapshot);
+  const current = pickVersionFields(existingTransaction);
+  const updateData: Record<string, unknown> = {};
+  VERSION_FIELDS.forEach(field => {
+    if (!isSameValue(restored[field], current[field])) {
+      updateData[field] = restored[field];
+    }
+  });
+
+  // A category deleted since keeps its name on the transaction
+  if (updateData.category_id && !(await isGroupCategory(supabase, updateData.category_id as string, existingTransaction.group_id))) {
+    delete updateData.category_id;
+  }
+
+  if (Object.keys(updateData).length === 0) {
+    return createErrorResponse(400, 'The transaction already matches this version', 'VALIDATION_ERROR', undefined, req);
+  }
+
+  const newAmount = Number(restored.amount);
+  const currencyCode = String(restored.currency || 'USD');
+  const changesAmount = updateData.amount !== undefined;
+  const changesPayer = updateData.paid_by_participant_id !== undefined;
+
+  if (changesPayer && existingTransaction.group_id && restored.paid_by_participant_id) {
+    const { data: participant } = await supabase
+      .from('participants')
+      .select('id')
+      .eq('id', restored.paid_by_participant_id)
+      .eq('group_id', existingTransaction.group_id)
+      .maybeSingle();
+
+    if (!participant) {
+      return createErrorResponse(400, 'The payer of this version is no longer part of the group', 'VALIDATION_ERROR', undefined, req);
+    }
+  }
+
+  // Like a PUT, restoring the payer makes the expense single-payer again
+  if (changesAmount && !changesPayer) {
+    const { count: payerCount } = await supabase
+      .from('transaction_payers')
+      .select('id', { count: 'exact', head: true })
+      .eq('transaction_id', transactionId);
+
+    if (payerCount && payerCount > 0) {
+      return createErrorResponse(400, 'Edit the payers to change the amount of an expense with multiple payers', 'VALIDATION_ERROR', undefined, req);
+    }
+  }
+
+  let replacementSplits: TransactionSplit[] | null = null;
+  if (changesAmount) {
+    const { splits, error: splitError } = await rescaleSplits(
+      supabase,
+      transactionId,
+      existingTransaction.split_mode,
+      newAmount,
+      currencyCode
+    );
+    if (splitError) {
+      return createErrorResponse(400, splitError, 'VALIDATION_ERROR', undefined, req);
+    }
+    replacementSplits = splits;
+  }
+
+  if (updateData.currency !== undefined || updateData.date !== undefined) {
+    const exchangeRate = await resolveTransactionExchangeRate(
+      supabase,
+      existingTransaction.group_id,
+      currencyCode,
+      String(restored.date)
+    );
+    updateData.exchange_rate = exchangeRate.exchange_rate;
+    updateData.exchange_rate_currency = exchangeRate.exchange_rate_currency;
+  }
+
+  const previousParticipantIds = existingTransaction.group_id
+    ? await fetchInvolvedParticipantIds(supabase, transactionId)
+    : [];
+
+  const { data: updated, error: updateError } = await supabase
+    .from('transactions')
+    .update(updateData)
+    .eq('id', transactionId)
+    .eq('version', existingTransaction.version)
+    .select('id')
+    .maybeSingle();
+
+  if (updateError) {
+    return handleError(updateError, 'restoring transaction version', req);
+  }
+
+  if (!updated) {
+    return createVersionConflictResponse(await fetchTransactionWithDetails(supabase, transactionId), req);
+  }
+
+  if (replacementSplits) {
+    await supabase
+      .from('transaction_splits')
+      .delete()
+      .eq('transaction_id', transactionId);
+
+    if (replacementSplits.length > 0) {
+      const { error: splitsError } = await supabase
+        .from('transaction_splits')
+        .insert(replacementSplits.map(split => ({ ...split, transaction_id: transactionId })));
+
+      if (splitsError) {
+        log.error('Failed to update transaction_splits', 'transaction-version-restore', {
+          transactionId,
+          error: splitsError.message,
+          code: splitsError.code,
+        });
+      }
+    }
+  }
+
+  if (changesPayer) {
+    await supabase
+      .from('transaction_payers')
+      .delete()
+      .eq('transaction_id', transactionId);
+  }
+
+  const { data: transaction, error: refetchError } = await supabase
+    .from('transactions')
+    .select('*, splits:transaction_splits ( id, participant_id, amount, share_value, created_at ), payers:transaction_payers ( participant_id, amount )')
+    .eq('id', transactionId)
+    .single();
+
+  if (refetchError || !transaction) {
+    return handleError(refetchError || new Error('Transaction not found after restore'), 'fetching restored transaction', req);
+  }
+
+  transaction.split_among_participant_ids = (transaction.splits || [])
+    .map((split: { participant_id: string | null }) => split.participant_id)
+    .filter((id: string | null): id is string => !!id);
+
+  if (transaction.group_id) {
+    await dispatchNotification({
+      type: 'transactions',
+      actorId: userId,
+      groupId: transaction.group_id,
+      participantIds: [...previousParticipantIds, ...getInvolvedParticipantIds(transaction)],
+      message: `restored an earlier version of "${transaction.description}" (${formatCurrency(transaction.amount, transaction.currency)})`,
+      data: { transaction_id: transaction.id },
+    });
+  }
+
+  return createSuccessResponse(transaction, 200, 0, req);
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * Arguments for the search_transactions RPC, built from the GET query string
+ */
+interface TransactionSearchParams {
+  p_group_id?: string;
+  p_before_date?: string;
+  p_before_id?: number;
+  p_from_date?: string;
+  p_to_date?: string;
+  p_category?: string;
+  p_category_id?: string;
+  p_type?: 'income' | 'expense';
+  p_payer_participant_id?: string;
+  p_involved_participant_id?: string;
+  p_min_amount?: number;
+  p_max_amount?: number;
+  p_search?: string;
+}
+
+/**
+ * Cursors are opaque to clients: the date and id of the last transaction on
+ * the previous page, base64 encoded.
+ */
+function encodeCursor(tx: { date: string; id: number }): string {
+  return btoa(`${tx.date}|${tx.id}`);
+}
+
+function decodeCursor(cursor: string): { date: string; id: number } | null {
+  try {
+    const [date, id] = atob(cursor).split('|');
+    const parsedId = parseInt(id, 10);
+    if (!isValidDate(date) || isNaN(parsedId)) {
+      return null;
+    }
+    return { date, id: parsedId };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads the list filters from the query string. Returns an error message for
+ * the first invalid one.
+ */
+function parseSearchParams(params: URLSearchParams): { search?: TransactionSearchParams; error?: string } {
+  const search: TransactionSearchParams = {};
+
+  const cursor = params.get('cursor');
+  if (cursor) {
+    const decoded = decodeCursor(cursor);
+    if (!decoded) {
+      return { error: 'Invalid cursor' };
+    }
+    search.p_before_date = decoded.date;
+    search.p_before_id = decoded.id;
+  }
+
+  for (const [param, key] of [['from', 'p_from_date'], ['to', 'p_to_date']] as const) {
+    const value = params.get(param);
+    if (value) {
+      if (!isValidDate(value)) {
+        return { error: `${param} must be a date (YYYY-MM-DD)` };
+      }
+      search[key] = value;
+    }
+  }
+
+  const type = params.get('type');
+  if (type) {
+    if (type !== 'income' && type !== 'expense') {
+      return { error: 'type must be income or expense' };
+    }
+    search.p_type = type;
+  }
+
+  for (const [param, key] of [
+    ['category_id', 'p_category_id'],
+    ['payer_id', 'p_payer_participant_id'],
+    ['participant_id', 'p_involved_participant_id'],
+  ] as const) {
+    const value = params.get(param);
+    if (value) {
+      if (!isValidUUID(value)) {
+        return { error: `Invalid ${param} format. Expected UUID.` };
+      }
+      search[key] = value;
+    }
+  }
+
+  for (const [param, key] of [['min_amount', 'p_min_amount'], ['max_amount', 'p_max_amount']] as const) {
+    const value = params.get(param);
+    if (value) {
+      const amount = Number(value);
+      if (!Number.isFinite(amount)) {
+        return { error: `${param} must be a number` };
+      }
+      search[key] = amount;
+    }
+  }
+
+  const category = params.get('category')?.trim();
+  if (category) {
+    search.p_category = category;
+  }
+
+  const text = params.get('q')?.trim();
+  if (text) {
+    search.p_search = text;
+  }
+
+  return { search };
+}
+
 Deno.serve(async (req: Request) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -123,9 +977,14 @@ Deno.serve(async (req: Request) => {
   }
 
   try {
-    // Validate request body size
+    const url = new URL(req.url);
+    const parsedPath = parsePath(url.pathname);
+    const isAttachmentRoute = parsedPath.resource === 'transactions' && parsedPath.action === 'attachments';
+    const isHistoryRoute = parsedPath.resource === 'transactions' && parsedPath.action === 'history';
+
+    // Validate request body size (receipt uploads carry base64 image data)
     const body = await req.text().catch(() => null);
-    const bodySizeValidation = validateBodySize(body);
+    const bodySizeValidation = validateBodySize(body, isAttachmentRoute ? MAX_ATTACHMENT_BODY_SIZE : undefined);
     if (!bodySizeValidation.valid) {
       return createErrorResponse(413, bodySizeValidation.error || 'Request body too large', 'VALIDATION_ERROR', undefined, req);
     }
@@ -140,7 +999,140 @@ Deno.serve(async (req: Request) => {
 
     const { user, supabase } = authResult;
     const httpMethod = req.method;
-    const url = new URL(req.url);
+
+    // Handle /transactions/:id/history - List versions or restore one
+    if (isHistoryRoute) {
+      const transactionId = parseInt(parsedPath.id || '', 10);
+      if (isNaN(transactionId) || transactionId <= 0) {
+        return createErrorResponse(400, 'Invalid transaction id', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      if (httpMethod === 'GET') {
+        return await listTransactionVersions(req, supabase, user, transactionId);
+      }
+      if (httpMethod === 'POST') {
+        return await restoreTransactionVersion(req, body, supabase, user.id, transactionId);
+      }
+      return createErrorResponse(405, 'Method not allowed', 'METHOD_NOT_ALLOWED', undefined, req);
+    }
+
+    // Handle /transactions/:id/attachments - Upload or remove receipt images
+    if (isAttachmentRoute) {
+      const transactionId = parseInt(parsedPath.id || '', 10);
+      if (isNaN(transactionId) || transactionId <= 0) {
+        return createErrorResponse(400, 'Invalid transaction id', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      const { data: transaction, error: fetchError } = await supabase
+        .from('transactions')
+        .select('id, group_id')
+        .eq('id', transactionId)
+        .is('deleted_at', null)
+        .single();
+
+      if (fetchError || !transaction) {
+        return createErrorResponse(404, 'Transaction not found', 'NOT_FOUND', undefined, req);
+      }
+
+      if (!transaction.group_id) {
+        return createErrorResponse(400, 'Receipts can only be attached to group transactions', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      const { data: membership, error: membershipError } = await supabase
+        .from('group_members')
+        .select('id')
+        .eq('group_id', transaction.group_id)
+        .eq('user_id', user.id)
+        .eq('status', 'active')
+        .maybeSingle();
+
+      if (membershipError || !membership) {
+        return createErrorResponse(403, 'You must be an active member of the group to manage receipts', 'PERMISSION_DENIED', undefined, req);
+      }
+
+      if (httpMethod === 'POST') {
+        let uploadData: AttachmentUploadRequest;
+        try {
+          uploadData = body ? JSON.parse(body) : {};
+        } catch {
+          return createErrorResponse(400, 'Invalid JSON in request body', 'VALIDATION_ERROR', undefined, req);
+        }
+
+        const upload = validateAttachmentUpload(uploadData);
+        if (!upload.valid || !upload.bytes || !upload.contentType) {
+          return createErrorResponse(400, upload.error || 'Invalid attachment', 'VALIDATION_ERROR', undefined, req);
+        }
+
+        const { count: attachmentCount, error: countError } = await supabase
+          .from('transaction_attachments')
+          .select('id', { count: 'exact', head: true })
+          .eq('transaction_id', transactionId);
+
+        if (countError) {
+          return handleError(countError, 'counting attachments', req);
+        }
+        if ((attachmentCount || 0) >= MAX_ATTACHMENTS_PER_TRANSACTION) {
+          return createErrorResponse(400, `A transaction can have at most ${MAX_ATTACHMENTS_PER_TRANSACTION} receipts`, 'VALIDATION_ERROR', undefined, req);
+        }
+
+        const storagePath = buildAttachmentPath(transaction.group_id, transactionId, upload.contentType);
+        const { error: uploadError } = await supabase.storage
+          .from(RECEIPTS_BUCKET)
+          .upload(storagePath, upload.bytes, { contentType: upload.contentType, upsert: false });
+
+        if (uploadError) {
+          return handleError(uploadError, 'uploading receipt', req);
+        }
+
+        const { data: attachment, error: insertError } = await supabase
+          .from('transaction_attachments')
+          .insert({
+            transaction_id: transactionId,
+            group_id: transaction.group_id,
+            storage_path: storagePath,
+            file_name: upload.fileName,
+            content_type: upload.contentType,
+            size_bytes: upload.bytes.length,
+            uploaded_by: user.id,
+          })
+          .select('id, transaction_id, group_id, storage_path, file_name, content_type, size_bytes, uploaded_by, created_at')
+          .single();
+
+        if (insertError) {
+          await removeAttachmentFiles(supabase, [storagePath]);
+          return handleError(insertError, 'saving receipt', req);
+        }
+
+        const [signedAttachment] = await signAttachmentUrls(supabase, [attachment]);
+        return createSuccessResponse(signedAttachment, 201, 0, req);
+      }
+
+      if (httpMethod === 'DELETE') {
+        const attachmentId = url.searchParams.get('attachment_id');
+        if (!attachmentId || !isValidUUID(attachmentId)) {
+          return createErrorResponse(400, 'Valid attachment_id is required', 'VALIDATION_ERROR', undefined, req);
+        }
+
+        const { data: deletedAttachments, error: deleteError } = await supabase
+          .from('transaction_attachments')
+          .delete()
+          .eq('id', attachmentId)
+          .eq('transaction_id', transactionId)
+          .select('storage_path');
+
+        if (deleteError) {
+          return handleError(deleteError, 'deleting receipt', req);
+        }
+        if (!deletedAttachments || deletedAttachments.length === 0) {
+          return createErrorResponse(404, 'Attachment not found', 'NOT_FOUND', undefined, req);
+        }
+
+        await removeAttachmentFiles(supabase, deletedAttachments.map((a: { storage_path: string }) => a.storage_path));
+        return createEmptyResponse(204, req);
+      }
+
+      return createErrorResponse(405, 'Method not allowed', 'METHOD_NOT_ALLOWED', undefined, req);
+    }
 
     // Handle GET - Fetch transactions (optionally filtered by group_id)
     if (httpMethod === 'GET') {
@@ -149,26 +1141,27 @@ Deno.serve(async (req: Request) => {
       if (groupId && !isValidUUID(groupId)) {
         return createErrorResponse(400, 'Invalid group_id format. Expected UUID.', 'VALIDATION_ERROR', undefined, req);
       }
-      
-      let query = supabase
-        .from('transactions')
-        .select(`
-          *,
-          transaction_splits (
-            id,
-            participant_id,
-            amount,
-            created_at
-          )
-        `);
+
+      const limitParam = url.searchParams.get('limit');
+      // Apps from before paging send neither and expect a plain array
+      const paged = limitParam !== null || url.searchParams.has('cursor');
+      const limit = limitParam ? parseInt(limitParam, 10) : paged ? DEFAULT_PAGE_SIZE : MAX_PAGE_SIZE;
+      if (isNaN(limit) || limit < 1) {
+        return createErrorResponse(400, 'limit must be a positive number', 'VALIDATION_ERROR', undefined, req);
+      }
+
+      const { search, error: searchError } = parseSearchParams(url.searchParams);
+      if (!search) {
+        return createErrorResponse(400, searchError || 'Invalid filters', 'VALIDATION_ERROR', undefined, req);
+      }
 
       if (groupId) {
-        query = query.eq('group_id', groupId);
+        search.p_group_id = groupId;
 
-        // Fetch user's participant record to check status and ID
+        // Only participants (including former members) can list a group's transactions
         const { data: participantData, error: participantAuthError } = await supabase
           .from('participants')
-          .select('id, type')
+          .select('id')
           .eq('group_id', groupId)
           .eq('user_id', user.id)
           .single();
@@ -177,47 +1170,71 @@ Deno.serve(async (req: Request) => {
           return createErrorResponse(403, 'Forbidden: You are not a participant in this group', 'PERMISSION_DENIED');
         }
 
-        // If user is not active (e.g. 'former'), restrict visibility
-        // Showing only transactions they are involved in (Personal Relevance View)
-        if (participantData.type === 'former') {
-          // We can't easily filter by "split inclusion" in the main query without complex RPC
-          // So we'll fetch broader range and filter in memory.
-          // Note: This might miss older transactions if limit(100) cuts them off.
-          // For now, this tradeoff is acceptable or we could increase limit for former members.
+        // Catch up on recurring expenses that came due since the last run
+        // (once per listing, on its first page)
+        if (!search.p_before_date) {
+          const { error: materializeError } = await supabase.rpc('materialize_recurring_transactions', {
+            p_group_id: groupId,
+          });
+          if (materializeError) {
+            log.warn('Failed to materialize recurring transactions', 'transactions-fetch', {
+              groupId,
+              error: materializeError.message,
+            });
+          }
         }
       }
 
-      const { data: transactionsData, error } = await query
+      const pageSize = Math.min(limit, MAX_PAGE_SIZE);
+      // One extra row tells us whether there is a next page
+      const { data: transactionsData, error } = await supabase
+        .rpc('search_transactions', search)
+        .select(`
+          *,
+          transaction_splits (
+            id,
+            participant_id,
+            amount,
+            share_value,
+            created_at
+          ),
+          transaction_payers (
+            participant_id,
+            amount
+          ),
+          transaction_items (
+            id,
+            name,
+            unit_price,
+            quantity,
+            participant_ids,
+            position
+          ),
+          transaction_attachments (
+            id,
+            transaction_id,
+            group_id,
+            storage_path,
+            file_name,
+            content_type,
+            size_bytes,
+            uploaded_by,
+            created_at
+          ),
+          comments ( count )
+        `)
         .order('date', { ascending: false })
-        .limit(200); // Increased limit to accommodate filtering
+        .order('id', { ascending: false })
+        .limit(pageSize + 1);
 
       if (error) {
         return handleError(error, 'fetching transactions');
       }
 
-      let transactions = transactionsData || [];
-      if (groupId) {
-         const { data: participantCheck } = await supabase
-          .from('participants')
-          .select('id, type')
-          .eq('group_id', groupId)
-          .eq('user_id', user.id)
-          .maybeSingle();
-         
-         if (participantCheck && participantCheck.type === 'former') {
-             const pId = participantCheck.id;
-             transactions = transactions.filter((tx: any) => {
-                 const isPayer = tx.paid_by_participant_id === pId;
-                 // Check splits (fetched via join as transaction_splits)
-                 const isInSplits = tx.transaction_splits?.some((s: any) => s.participant_id === pId);
-                 // Check legacy fields just in case
-                 const isLegacyPayer = tx.paid_by === user.id || tx.user_id === user.id;
-                 const isLegacySplit = tx.split_among?.includes(user.id);
-                 
-                 return isPayer || isInSplits || isLegacyPayer || isLegacySplit;
-             });
-         }
-      }
+      const transactions = (transactionsData || []).slice(0, pageSize);
+      const nextCursor = (transactionsData || []).length > pageSize
+        ? encodeCursor(transactions[transactions.length - 1])
+        : null;
 
       // Collect all participant IDs from splits and paid_by to enrich with participant data
       const allParticipantIds = new Set<string>();
@@ -233,6 +1250,9 @@ Deno.serve(async (req: Request) => {
         if (tx.paid_by_participant_id) {
           allParticipantIds.add(tx.paid_by_participant_id);
         }
+        tx.transaction_payers?.forEach((payer) => {
+          allParticipantIds.add(payer.participant_id);
+        });
       });
 
       // Fetch participant data for enrichment
@@ -268,6 +1288,26 @@ Deno.serve(async (req: Request) => {
           delete tx.transaction_splits;
         }
 
+        // Enrich payers with participant data
+        if (tx.transaction_payers) {
+          tx.payers = tx.transaction_payers.map((payer) => {
+            const participant = participantMap.get(payer.participant_id);
+            return {
+              ...payer,
+              user_id: participant?.user_id || null,
+              email: participant?.email || null,
+              full_name: participant?.full_name || null,
+              avatar_url: participant?.avatar_url || null,
+            };
+          });
+          delete tx.transaction_payers;
+        }
+
+        if (tx.transaction_items) {
+          tx.items = [...tx.transaction_items].sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+          delete tx.transaction_items;
+        }
+
         // Populate split_among_participant_ids for the frontend
         if (tx.splits) {
           tx.split_among_participant_ids = tx.splits
@@ -275,62 +1315,132 @@ Deno.serve(async (req: Request) => {
             .filter((id): id is string => !!id);
         }
 
+        tx.comment_count = tx.comments?.[0]?.count ?? 0;
+        delete tx.comments;
+
         return tx;
       });
 
-      return createSuccessResponse(parsedTransactions, 200, 0);
+      // Sign receipt URLs in one request for all transactions
+      const signedAttachments = await signAttachmentUrls(
+        supabase,
+        parsedTransactions.flatMap((tx: TransactionWithSplits) => tx.transaction_attachments || [])
+      );
+      const attachmentsByTransaction = new Map<number, TransactionAttachment[]>();
+      signedAttachments.forEach((attachment) => {
+        const list = attachmentsByTransaction.get(attachment.transaction_id) || [];
+        list.push(attachment);
+        attachmentsByTransaction.set(attachment.transaction_id, list);
+      });
+      parsedTransactions.forEach((tx: TransactionWithSplits) => {
+        tx.attachments = (attachmentsByTransaction.get(tx.id) || [])
+          .sort((a, b) => (a.created_at || '').localeCompare(b.created_at || ''));
+        delete tx.transaction_attachments;
+      });
+
+      return paged
+        ? createSuccessResponse({ transactions: parsedTransactions, next_cursor: nextCursor }, 200, 0)
+        : createSuccessResponse(parsedTransactions, 200, 0);
     }
 
-    // Handle POST - Create new transaction
+    // Handle POST - Create new transaction (at most once per Idempotency-Key)
     if (httpMethod === 'POST') {
-      let transactionData: Partial<Transaction>;
-      try {
-        transactionData = body ? JSON.parse(body) : {};
-      } catch {
-        return createErrorResponse(400, 'Invalid JSON in request body', 'VALIDATION_ERROR');
-      }
+      return await withIdempotencyKey(req, supabase, user.id, body, async () => {
+        let transactionData: Partial<Transaction>;
+        try {
+          transactionData = body ? JSON.parse(body) : {};
+        } catch {
+          return createErrorResponse(400, 'Invalid JSON in request body', 'VALIDATION_ERROR');
+        }
 
-      if (!transactionData.amount || !transactionData.description || !transactionData.date || !transactionData.type) {
-        return createErrorResponse(400, 'Missing required fields: amount, description, date, type', 'VALIDATION_ERROR');
-      }
+        if (!transactionData.amount || !transactionData.description || !transactionData.date || !transactionData.type) {
+          return createErrorResponse(400, 'Missing required fields: amount, description, date, type', 'VALIDATION_ERROR');
+        }
 
-      const validation = validateTransactionData(transactionData);
-      if (!validation.valid) {
-        return createErrorResponse(400, validation.error || 'Invalid transaction data', 'VALIDATION_ERROR');
-      }
+        const validation = validateTransactionData(transactionData);
+        if (!validation.valid) {
+          return createErrorResponse(400, validation.error || 'Invalid transaction data', 'VALIDATION_ERROR');
+        }
 
-      if (transactionData.group_id) {
-        const { data: membership, error: membershipError } = await supabase
-          .from('group_members')
-          .select('id')
-          .eq('group_id', transactionData.group_id)
-          .eq('user_id', user.id)
-          .eq('status', 'active')
-          .single();
+        const splitMode: SplitMode = transactionData.split_mode || 'equal';
+        const splitValuesValidation = validateSplitValues(splitMode, transactionData.split_values);
+        if (!splitValuesValidation.valid) {
+          return createErrorResponse(400, splitValuesValidation.error || 'Invalid split values', 'VALIDATION_ERROR');
+        }
 
-        if (membershipError || !membership) {
-          return createErrorResponse(403, 'You must be an active member of the group to add transactions', 'PERMISSION_DENIED');
+        // For non-equal modes the participants come from split_values
+        if (splitMode !== 'equal' && transactionData.split_values) {
+          transactionData.split_among_participant_ids = transactionData.split_values.map(v => v.participant_id);
         }
-      }
 
-      if (transactionData.group_id && transactionData.type === 'expense') {
-        // Validate paid_by_participant_id
-        if (transactionData.paid_by_participant_id) {
-          const { data: participant, error: participantError } = await supabase
-            .from('participants')
-            .select('id, type')
-            .eq('id', transactionData.paid_by_participant_id)
+        // Itemized splits: the participants are everyone assigned to an item
+        const items = splitMode === 'itemized' ? transactionData.items || [] : [];
+        if (splitMode === 'itemized') {
+          if (!transactionData.group_id || transactionData.type !== 'expense') {
+            return createErrorResponse(400, 'Itemized splits are only supported for group expenses', 'VALIDATION_ERROR');
+          }
+          const itemsValidation = validateItemizedSplit(transactionData.items, transactionData.tax_amount, transactionData.tip_amount);
+          if (!itemsValidation.valid) {
+            return createErrorResponse(400, itemsValidation.error || 'Invalid items', 'VALIDATION_ERROR');
+          }
+          transactionData.split_among_participant_ids = [...new Set(items.flatMap(item => item.participant_ids))];
+        }
+
+        // Multiple payers: amounts must cover the total and the largest payer becomes paid_by_participant_id
+        const payers = transactionData.payers;
+        if (payers !== undefined && payers !== null) {
+          if (!transactionData.group_id || transactionData.type !== 'expense') {
+            return createErrorResponse(400, 'payers are only supported for group expenses', 'VALIDATION_ERROR');
+          }
+          const payersValidation = validatePayers(payers);
+          if (!payersValidation.valid) {
+            return createErrorResponse(400, payersValidation.error || 'Invalid payers', 'VALIDATION_ERROR');
+          }
+          const payerSumValidation = validatePayerSum(payers, transactionData.amount, transactionData.currency || 'USD');
+          if (!payerSumValidation.valid) {
+            return createErrorResponse(400, payerSumValidation.error || 'Invalid payer amounts', 'VALIDATION_ERROR');
+          }
+          transactionData.paid_by_participant_id = getPrimaryPayerId(payers);
+        }
+
+        if (transactionData.group_id) {
+          const { data: membership, error: membershipError } = await supabase
+            .from('group_members')
+            .select('id')
             .eq('group_id', transactionData.group_id)
+            .eq('user_id', user.id)
+            .eq('status', 'active')
             .single();
 
-          if (participantError || !participant) {
-            return createErrorResponse(400, 'paid_by_participant_id must be a valid participant in the group', 'VALIDATION_ERROR');
+          if (membershipError || !membership) {
+            return createErrorResponse(403, 'You must be an active member of the group to add transactions', 'PERMISSION_DENIED');
           }
         }
 
-        // Validate split_among_participant_ids
-        if (transactionData.split_among_participant_ids && Array.isArray(transactionData.split_among_participant_ids)) {
-          const uniqueParticipantIds = [...new Set(transactionData.split_among_participant_ids)];
+        if (transactionData.category_id && !(await isGroupCategory(supabase, transactionData.category_id, transactionData.group_id))) {
+          return createErrorResponse(400, 'category_id must be a category of the group', 'VALIDATION_ERROR');
+        }
+
+        if (transactionData.group_id && transactionData.type === 'expense') {
+          // Validate paid_by_participant_id
+          if (transactionData.paid_by_participant_id) {
+            const { data: participant, error: participantError } = await supabase
+              .from('participants')
+              .select('id, type')
+              .eq('id', transactionData.paid_by_participant_id)
+              .eq('group_id', transactionData.group_id)
+              .single();
+
+            if (participantError || !participant) {
+              return createErrorResponse(400, 'paid_by_participant_id must be a valid participant in the group', 'VALIDATION_ERROR');
+            }
+          }
+
+          // Validate split_among_participant_ids and payers
+          const uniqueParticipantIds = [...new Set([
+            ...(Array.isArray(transactionData.split_among_participant_ids) ? transactionData.split_among_participant_ids : []),
+            ...(payers || []).map(p => p.participant_id),
+          ])];
           if (uniqueParticipantIds.length > 0) {
             // Validate all participant_ids exist and belong to the group
             const { data: participants, error: participantsError } = await supabase
@@ -345,123 +1455,269 @@ Deno.serve(async (req: Request) => {
 
             const foundParticipantIds = new Set((participants || []).map(p => p.id));
             const invalidParticipantIds = uniqueParticipantIds.filter(id => !foundParticipantIds.has(id));
-            
+          
             if (invalidParticipantIds.length > 0) {
               return createErrorResponse(400, `Invalid participant_ids: ${invalidParticipantIds.join(', ')}`, 'VALIDATION_ERROR');
             }
           }
         }
-      }
 
-      // Use split_among_participant_ids directly
-      const participantIds = transactionData.split_among_participant_ids && Array.isArray(transactionData.split_among_participant_ids)
-        ? [...new Set(transactionData.split_among_participant_ids)]
-        : [];
+        // Use split_among_participant_ids directly
+        const participantIds = transactionData.split_among_participant_ids && Array.isArray(transactionData.split_among_participant_ids)
+          ? [...new Set(transactionData.split_among_participant_ids)]
+          : [];
+
+        // Calculate splits up front so invalid split values are rejected before anything is written
+        const { splits: calculatedSplits, error: splitError } = splitMode === 'itemized'
+          ? calculateItemizedSplits(
+            transactionData.amount,
+            items,
+            transactionData.tax_amount || 0,
+            transactionData.tip_amount || 0,
+            transactionData.currency || 'USD'
+          )
+          : calculateSplits(
+            transactionData.amount,
+            splitMode,
+            participantIds,
+            transactionData.split_values,
+            transactionData.currency || 'USD'
+          );
+        if (splitError) {
+          return createErrorResponse(400, splitError, 'VALIDATION_ERROR');
+        }
 
-      const { data: transaction, error } = await supabase
-        .from('transactions')
-        .insert({
-          user_id: user.id,
-          amount: transactionData.amount,
-          description: transactionData.description,
-          date: transactionData.date,
-          type: transactionData.type,
-          category: transactionData.category || null,
-          group_id: transactionData.group_id || null,
-          currency: transactionData.currency,
-          paid_by_participant_id: transactionData.paid_by_participant_id || null,
-        })
-        .select()
-        .single();
+        const exchangeRate = await resolveTransactionExchangeRate(
+          supabase,
+          transactionData.group_id,
+          transactionData.currency || 'USD',
+          transactionData.date
+        );
 
-      if (error) {
-        return handleError(error, 'creating transaction');
-      }
+        const { data: transaction, error } = await supabase
+          .from('transactions')
+          .insert({
+            user_id: user.id,
+            amount: transactionData.amount,
+            description: transactionData.description,
+            date: transactionData.date,
+            type: transactionData.type,
+            category: transactionData.category || null,
+            category_id: transactionData.category_id || null,
+            group_id: transactionData.group_id || null,
+            currency: transactionData.currency,
+            paid_by_participant_id: transactionData.paid_by_participant_id || null,
+            split_mode: splitMode,
+            tax_amount: splitMode === 'itemized' ? transactionData.tax_amount ?? null : null,
+            tip_amount: splitMode === 'itemized' ? transactionData.tip_amount ?? null : null,
+            exchange_rate: exchangeRate.exchange_rate,
+            exchange_rate_currency: exchangeRate.exchange_rate_currency,
+          })
+          .select()
+          .single();
 
-      if (transaction && participantIds.length > 0) {
-        const splits = calculateEqualSplits(transaction.amount, participantIds);
-        splits.forEach(split => {
-          split.transaction_id = transaction.id;
-        });
+        if (error) {
+          return handleError(error, 'creating transaction');
+        }
 
-        const splitValidation = validateSplitSum(splits, transaction.amount, transaction.currency || 'USD');
-        if (!splitValidation.valid) {
-          log.error('Split validation failed', 'transaction-creation', {
-            transactionId: transaction.id,
-            error: splitValidation.error,
-            splits,
-            amount: transaction.amount,
-            currency: transaction.currency || 'USD',
+        if (transaction && calculatedSplits.length > 0) {
+          const splits = calculatedSplits;
+          splits.forEach(split => {
+            split.transaction_id = transaction.id;
           });
+
+          const splitValidation = validateSplitSum(splits, transaction.amount, transaction.currency || 'USD');
+          if (!splitValidation.valid) {
+            log.error('Split validation failed', 'transaction-creation', {
+              transactionId: transaction.id,
+              error: splitValidation.error,
+              splits,
+              amount: transaction.amount,
+              currency: transaction.currency || 'USD',
+            });
+          }
+
+          const { error: splitsError } = await supabase
+            .from('transaction_splits')
+            .insert(splits);
+
+          if (splitsError) {
+            log.error('Failed to create transaction_splits, rolling back transaction', 'transaction-creation', {
+              transactionId: transaction.id,
+              error: splitsError.message,
+              code: splitsError.code,
+            });
+
+            const { error: rollbackError } = await supabase
+              .from('transactions')
+              .delete()
+              .eq('id', transaction.id);
+
+            if (rollbackError) {
+              log.error('Failed to rollback transaction after split insert failure', 'transaction-creation', {
+                transactionId: transaction.id,
+                error: rollbackError.message,
+                code: rollbackError.code,
+              });
+            }
+
+            return createErrorResponse(500, 'Failed to create transaction splits', 'TRANSACTION_SPLIT_ERROR');
+          }
         }
 
-        const { error: splitsError } = await supabase
-          .from('transaction_splits')
-          .insert(splits);
+        // Single-payer expenses only use paid_by_participant_id
+        if (transaction && payers && payers.length > 1) {
+          const { error: payersError } = await supabase
+            .from('transaction_payers')
+            .insert(payers.map(payer => ({
+              transaction_id: transaction.id,
+              participant_id: payer.participant_id,
+              amount: payer.amount,
+            })));
+
+          if (payersError) {
+            log.error('Failed to create transaction_payers, rolling back transaction', 'transaction-creation', {
+              transactionId: transaction.id,
+              error: payersError.message,
+              code: payersError.code,
+            });
 
-        if (splitsError) {
-          log.error('Failed to create transaction_splits, rolling back transaction', 'transaction-creation', {
-            transactionId: transaction.id,
-            error: splitsError.message,
-            code: splitsError.code,
-          });
+            const { error: rollbackError } = await supabase
+              .from('transactions')
+              .delete()
+              .eq('id', transaction.id);
 
-          const { error: rollbackError } = await supabase
-            .from('transactions')
-            .delete()
-            .eq('id', transaction.id);
+            if (rollbackError) {
+              log.error('Failed to rollback transaction after payer insert failure', 'transaction-creation', {
+                transactionId: transaction.id,
+                error: rollbackError.message,
+                code: rollbackError.code,
+              });
+            }
+
+            return createErrorResponse(500, 'Failed to create transaction payers', 'TRANSACTION_SPLIT_ERROR');
+          }
+        }
+
+        if (transaction && items.length > 0) {
+          const { error: itemsError } = await supabase
+            .from('transaction_items')
+            .insert(buildItemRows(transaction.id, items));
 
-          if (rollbackError) {
-            log.error('Failed to rollback transaction after split insert failure', 'transaction-creation', {
+          if (itemsError) {
+            log.error('Failed to create transaction_items, rolling back transaction', 'transaction-creation', {
               transactionId: transaction.id,
-              error: rollbackError.message,
-              code: rollbackError.code,
+              error: itemsError.message,
+              code: itemsError.code,
             });
+
+            const { error: rollbackError } = await supabase
+              .from('transactions')
+              .delete()
+              .eq('id', transaction.id);
+
+            if (rollbackError) {
+              log.error('Failed to rollback transaction after item insert failure', 'transaction-creation', {
+                transactionId: transaction.id,
+                error: rollbackError.message,
+                code: rollbackError.code,
+              });
+            }
+
+            return createErrorResponse(500, 'Failed to create transaction items', 'TRANSACTION_SPLIT_ERROR');
           }
+        }
+
+        let responseTransaction = transaction;
+        try {
+          const { data: transactionWithSplits, error: fetchError } = await supabase
+            .from('transactions')
+            .select(`
+              *,
+              transaction_splits (
+                id,
+                participant_id,
+                amount,
+                share_value,
+                created_at
+              ),
+              transaction_payers (
+                participant_id,
+                amount
+              ),
+              transaction_items (
+                id,
+                name,
+                unit_price,
+                quantity,
+                participant_ids,
+                position
+              )
+            `)
+            .eq('id', transaction.id)
+            .single();
 
-          return createErrorResponse(500, 'Failed to create transaction splits', 'TRANSACTION_SPLIT_ERROR');
+          if (!fetchError && transactionWithSplits) {
+            responseTransaction = transactionWithSplits;
+            if (responseTransaction.transaction_splits) {
+              responseTransaction.splits = responseTransaction.transaction_splits;
+              delete responseTransaction.transaction_splits;
+            }
+            if (responseTransaction.transaction_payers) {
+              responseTransaction.payers = responseTransaction.transaction_payers;
+              delete responseTransaction.transaction_payers;
+            }
+            if (responseTransaction.transaction_items) {
+              responseTransaction.items = [...responseTransaction.transaction_items]
+                .sort((a: TransactionItem, b: TransactionItem) => (a.position ?? 0) - (b.position ?? 0));
+              delete responseTransaction.transaction_items;
+            }
+          }
+        } catch (e) {
+          log.warn('Could not fetch transaction with splits, using basic transaction', 'transaction-creation', {
+            transactionId: transaction.id,
+            error: e instanceof Error ? e.message : String(e),
+          });
         }
-      }
 
-      let responseTransaction = transaction;
-      try {
-        const { data: transactionWithSplits, error: fetchError } = await supabase
-          .from('transactions')
-          .select(`
-            *,
-            transaction_splits (
-              id,
-              participant_id,
-              amount,
-              created_at
-            )
-          `)
-          .eq('id', transaction.id)
-          .single();
+        if (responseTransaction && responseTransaction.split_among) {
+          if (Array.isArray(responseTransaction.split_among)) {
+            responseTransaction.split_among = [...new Set(responseTransaction.split_among)];
+          } else {
+            responseTransaction.split_among = [];
+          }
+        }
 
-        if (!fetchError && transactionWithSplits) {
-          responseTransaction = transactionWithSplits;
-          if (responseTransaction.transaction_splits) {
-            responseTransaction.splits = responseTransaction.transaction_splits;
-            delete responseTransaction.transaction_splits;
+        // Warn about budgets this expense pushed past a threshold (as of its date, for monthly budgets)
+        let budgetWarnings: BudgetWarning[] = [];
+        if (transaction.group_id && transaction.type === 'expense') {
+          try {
+            const budgetStatuses = await getBudgetStatuses(supabase, transaction.group_id, transaction.date);
+            budgetWarnings = getCrossedBudgets(budgetStatuses, transaction);
+          } catch (e) {
+            log.warn('Could not check budgets for new transaction', 'transaction-creation', {
+              transactionId: transaction.id,
+              error: e instanceof Error ? e.message : String(e),
+            });
           }
         }
-      } catch (e) {
-        log.warn('Could not fetch transaction with splits, using basic transaction', 'transaction-creation', {
-          transactionId: transaction.id,
-          error: e instanceof Error ? e.message : String(e),
-        });
-      }
 
-      if (responseTransaction && responseTransaction.split_among) {
-        if (Array.isArray(responseTransaction.split_among)) {
-          responseTransaction.split_among = [...new Set(responseTransaction.split_among)];
-        } else {
-          responseTransaction.split_among = [];
+        if (transaction.group_id) {
+          await dispatchNotification({
+            type: 'transactions',
+            actorId: user.id,
+            groupId: transaction.group_id,
+            participantIds: getInvolvedParticipantIds(responseTransaction),
+            message: `added "${transaction.description}" (${formatCurrency(transaction.amount, transaction.currency)})`,
+            data: { transaction_id: transaction.id },
+          });
         }
-      }
 
-      return createSuccessResponse(responseTransaction, 201);
+        return createSuccessResponse(
+          budgetWarnings.length > 0 ? { ...responseTransaction, budget_warnings: budgetWarnings } : responseTransaction,
+          201
+        );
+      });
     }
 
     // Handle PUT - Update existing transaction
@@ -482,10 +1738,37 @@ Deno.serve(async (req: Request) => {
         return createErrorResponse(400, validation.error || 'Invalid transaction data', 'VALIDATION_ERROR');
       }
 
+      // Splits are replaced when any split field is sent. Clients that only send
+      // split_among_participant_ids get an equal split, as before split modes existed.
+      const replacesSplits = transactionData.split_among_participant_ids !== undefined
+        || transactionData.split_mode !== undefined
+        || transactionData.split_values !== undefined
+        || transactionData.items !== undefined;
+      const splitMode: SplitMode = transactionData.split_mode || 'equal';
+      const items = replacesSplits && splitMode === 'itemized' ? transactionData.items || [] : [];
+
+      if (replacesSplits) {
+        const splitValuesValidation = validateSplitValues(splitMode, transactionData.split_values);
+        if (!splitValuesValidation.valid) {
+          return createErrorResponse(400, splitValuesValidation.error || 'Invalid split values', 'VALIDATION_ERROR');
+        }
+        if (splitMode !== 'equal' && transactionData.split_values) {
+          transactionData.split_among_participant_ids = transactionData.split_values.map(v => v.participant_id);
+        }
+        if (splitMode === 'itemized') {
+          const itemsValidation = validateItemizedSplit(transactionData.items, transactionData.tax_amount, transactionData.tip_amount);
+          if (!itemsValidation.valid) {
+            return createErrorResponse(400, itemsValidation.error || 'Invalid items', 'VALIDATION_ERROR');
+          }
+          transactionData.split_among_participant_ids = [...new Set(items.flatMap(item => item.participant_ids))];
+        }
+      }
+
       const { data: existingTransaction, error: fetchError } = await supabase
         .from('transactions')
-        .select('group_id, type, user_id, paid_by_participant_id')
+        .select('group_id, type, user_id, paid_by_participant_id, amount, currency, date, split_mode, version')
         .eq('id', transactionData.id)
+        .is('deleted_at', null)
         .single();
 
       if (fetchError || !existingTransaction) {
@@ -509,12 +1792,66 @@ Deno.serve(async (req: Request) => {
         return createErrorResponse(403, 'You can only update transactions you own or transactions in groups you belong to', 'PERMISSION_DENIED');
       }
 
+      // Clients send the version they edited, so no other change is overwritten unseen
+      if (!Number.isInteger(transactionData.version)) {
+        return createErrorResponse(400, 'version is required and must be an integer', 'VALIDATION_ERROR');
+      }
+      if (transactionData.version !== existingTransaction.version) {
+        return createVersionConflictResponse(await fetchTransactionWithDetails(supabase, transactionData.id), req);
+      }
+
+      // People taken off the expense are notified too
+      const previousParticipantIds = existingTransaction.group_id
+        ? await fetchInvolvedParticipantIds(supabase, transactionData.id)
+        : [];
+
       const groupId = transactionData.group_id !== undefined 
         ? transactionData.group_id 
         : existingTransaction.group_id;
+
+      if (transactionData.category_id && !(await isGroupCategory(supabase, transactionData.category_id, groupId))) {
+        return createErrorResponse(400, 'category_id must be a category of the group', 'VALIDATION_ERROR');
+      }
       const transactionType = transactionData.type !== undefined 
         ? transactionData.type 
         : existingTransaction.type;
+      const newAmount = transactionData.amount !== undefined ? transactionData.amount : existingTransaction.amount;
+      const currencyCode = transactionData.currency || existingTransaction.currency || 'USD';
+
+      if (replacesSplits && splitMode === 'itemized' && (!groupId || transactionType !== 'expense')) {
+        return createErrorResponse(400, 'Itemized splits are only supported for group expenses', 'VALIDATION_ERROR');
+      }
+
+      // Payers are replaced when payers or paid_by_participant_id is sent.
+      // Sending only paid_by_participant_id makes the expense single-payer again.
+      const payers = transactionData.payers;
+      const replacesPayers = (payers !== undefined && payers !== null)
+        || transactionData.paid_by_participant_id !== undefined;
+
+      if (payers !== undefined && payers !== null) {
+        if (!groupId || transactionType !== 'expense') {
+          return createErrorResponse(400, 'payers are only supported for group expenses', 'VALIDATION_ERROR');
+        }
+        const payersValidation = validatePayers(payers);
+        if (!payersValidation.valid) {
+          return createErrorResponse(400, payersValidation.error || 'Invalid payers', 'VALIDATION_ERROR');
+        }
+        const payerSumValidation = validatePayerSum(payers, newAmount, currencyCode);
+        if (!payerSumValidation.valid) {
+          return createErrorResponse(400, payerSumValidation.error || 'Invalid payer amounts', 'VALIDATION_ERROR');
+        }
+        transactionData.paid_by_participant_id = getPrimaryPayerId(payers);
+      } else if (!replacesPayers && transactionData.amount !== undefined && transactionData.amount !== existingTransaction.amount) {
+        // Payer amounts can't be rescaled automatically
+        const { count: payerCount } = await supabase
+          .from('transaction_payers')
+          .select('id', { count: 'exact', head: true })
+          .eq('transaction_id', transactionData.id);
+
+        if (payerCount && payerCount > 0) {
+          return createErrorResponse(400, 'payers are required when changing the amount of an expense with multiple payers', 'VALIDATION_ERROR');
+        }
+      }
 
       // Validate participant_ids for expense transactions
       if (groupId && transactionType === 'expense') {
@@ -531,81 +1868,159 @@ Deno.serve(async (req: Request) => {
           }
         }
 
-        if (transactionData.split_among_participant_ids !== undefined && Array.isArray(transactionData.split_among_participant_ids)) {
-          const uniqueParticipantIds = [...new Set(transactionData.split_among_participant_ids)];
-          if (uniqueParticipantIds.length > 0) {
-            const { data: participants, error: participantsError } = await supabase
-              .from('participants')
-              .select('id')
-              .eq('group_id', groupId)
-              .in('id', uniqueParticipantIds);
+        const uniqueParticipantIds = [...new Set([
+          ...(Array.isArray(transactionData.split_among_participant_ids) ? transactionData.split_among_participant_ids : []),
+          ...(payers || []).map(p => p.participant_id),
+        ])];
+        if (uniqueParticipantIds.length > 0) {
+          const { data: participants, error: participantsError } = await supabase
+            .from('participants')
+            .select('id')
+            .eq('group_id', groupId)
+            .in('id', uniqueParticipantIds);
 
-            if (participantsError) {
-              return createErrorResponse(400, 'Failed to validate participants', 'VALIDATION_ERROR');
-            }
+          if (participantsError) {
+            return createErrorResponse(400, 'Failed to validate participants', 'VALIDATION_ERROR');
+          }
 
-            const foundParticipantIds = new Set((participants || []).map(p => p.id));
-            const invalidParticipantIds = uniqueParticipantIds.filter(id => !foundParticipantIds.has(id));
-            
-            if (invalidParticipantIds.length > 0) {
-              return createErrorResponse(400, `Invalid participant_ids: ${invalidParticipantIds.join(', ')}`, 'VALIDATION_ERROR');
-            }
+          const foundParticipantIds = new Set((participants || []).map(p => p.id));
+          const invalidParticipantIds = uniqueParticipantIds.filter(id => !foundParticipantIds.has(id));
+          
+          if (invalidParticipantIds.length > 0) {
+            return createErrorResponse(400, `Invalid participant_ids: ${invalidParticipantIds.join(', ')}`, 'VALIDATION_ERROR');
           }
         }
       }
 
+      let replacementSplits: TransactionSplit[] | null = null;
+
+      if (replacesSplits) {
+        let participantIds = Array.isArray(transactionData.split_among_participant_ids)
+          ? [...new Set(transactionData.split_among_participant_ids)]
+          : [];
+        // Switching to an equal split without a participant list keeps the current participants
+        if (splitMode === 'equal' && transactionData.split_among_participant_ids === undefined) {
+          const { data: currentSplits } = await supabase
+            .from('transaction_splits')
+            .select('participant_id')
+            .eq('transaction_id', transactionData.id);
+          participantIds = [...new Set(
+            ((currentSplits || []) as { participant_id: string | null }[])
+              .map(split => split.participant_id)
+              .filter((id): id is string => !!id)
+          )];
+        }
+        // Replacing the splits with none would leave nobody owing a share of the expense
+        if (groupId && transactionType === 'expense' && participantIds.length === 0) {
+          return createErrorResponse(400, 'split_among_participant_ids must include at least one participant', 'VALIDATION_ERROR');
+        }
+        const { splits, error: splitError } = splitMode === 'itemized'
+          ? calculateItemizedSplits(
+            newAmount,
+            items,
+            transactionData.tax_amount || 0,
+            transactionData.tip_amount || 0,
+            currencyCode
+          )
+          : calculateSplits(
+            newAmount,
+            splitMode,
+            participantIds,
+            transactionData.split_values,
+            currencyCode
+          );
+        if (splitError) {
+          return createErrorResponse(400, splitError, 'VALIDATION_ERROR');
+        }
+        replacementSplits = splits;
+      } else if (transactionData.amount !== undefined && transactionData.amount !== existingTransaction.amount) {
+        // Recalculate splits when amount changes but participants don't, keeping the split mode
+        const { splits, error: splitError } = await rescaleSplits(
+          supabase,
+          transactionData.id,
+          existingTransaction.split_mode,
+          newAmount,
+          currencyCode
+        );
+        if (splitError) {
+          return createErrorResponse(400, splitError, 'VALIDATION_ERROR');
+        }
+        replacementSplits = splits;
+      }
+
       const updateData: Partial<Transaction> = {};
       if (transactionData.amount !== undefined) updateData.amount = transactionData.amount;
       if (transactionData.description !== undefined) updateData.description = transactionData.description;
       if (transactionData.date !== undefined) updateData.date = transactionData.date;
       if (transactionData.type !== undefined) updateData.type = transactionData.type;
       if (transactionData.category !== undefined) updateData.category = transactionData.category || undefined;
+      if (transactionData.category_id !== undefined) {
+        updateData.category_id = transactionData.category_id || null;
+        // Clearing the category also clears its name, so it isn't matched again
+        if (!transactionData.category_id && transactionData.category === undefined) updateData.category = null;
+      }
       if (transactionData.currency !== undefined) updateData.currency = transactionData.currency;
       if (transactionData.paid_by_participant_id !== undefined) updateData.paid_by_participant_id = transactionData.paid_by_participant_id || undefined;
+      if (replacesSplits) {
+        updateData.split_mode = splitMode;
+        updateData.tax_amount = splitMode === 'itemized' ? transactionData.tax_amount ?? null : null;
+        updateData.tip_amount = splitMode === 'itemized' ? transactionData.tip_amount ?? null : null;
+      }
+
+      // Re-record the conversion rate when the currency, date or group changes
+      if (transactionData.currency !== undefined || transactionData.date !== undefined || transactionData.group_id !== undefined) {
+        const exchangeRate = await resolveTransactionExchangeRate(
+          supabase,
+          groupId,
+          currencyCode,
+          transactionData.date || existingTransaction.date
+        );
+        updateData.exchange_rate = exchangeRate.exchange_rate;
+        updateData.exchange_rate_currency = exchangeRate.exchange_rate_currency;
+      }
+
+      // Nothing to save: the transaction stays at its current version
+      if (Object.keys(updateData).length === 0 && !replacementSplits && !replacesSplits && !replacesPayers) {
+        const current = await fetchTransactionWithDetails(supabase, transactionData.id);
+        return current
+          ? createSuccessResponse(current, 200)
+          : createErrorResponse(404, 'Transaction not found', 'NOT_FOUND');
+      }
 
+      // Only applies if nobody saved since the version check above
       const { data: transaction, error } = await supabase
         .from('transactions')
         .update(updateData)
         .eq('id', transactionData.id)
+        .eq('version', existingTransaction.version)
         .select()
-        .single();
+        .maybeSingle();
 
       if (error) {
         return handleError(error, 'updating transaction');
       }
 
       if (!transaction) {
-        return createErrorResponse(404, 'Transaction not found', 'NOT_FOUND');
+        const current = await fetchTransactionWithDetails(supabase, transactionData.id);
+        return current
+          ? createVersionConflictResponse(current, req)
+          : createErrorResponse(404, 'Transaction not found', 'NOT_FOUND');
       }
 
-      if (transactionData.split_among_participant_ids !== undefined) {
+      if (replacementSplits) {
         await supabase
           .from('transaction_splits')
           .delete()
           .eq('transaction_id', transactionData.id);
 
-        if (transactionData.split_among_participant_ids && Array.isArray(transactionData.split_among_participant_ids) && transactionData.split_among_participant_ids.length > 0) {
-          const uniqueParticipantIds = [...new Set(transactionData.split_among_participant_ids)];
-          const totalAmount = transaction.amount;
-          const splits = calculateEqualSplits(totalAmount, uniqueParticipantIds);
-          splits.forEach(split => {
+        if (replacementSplits.length > 0) {
+          replacementSplits.forEach(split => {
             split.transaction_id = transaction.id;
           });
 
-          const validation = validateSplitSum(splits, totalAmount, transaction.currency || transactionData.currency || 'USD');
-          if (!validation.valid) {
-            log.error('Split validation failed during update', 'transaction-update', {
-              transactionId: transaction.id,
-              error: validation.error,
-              splits,
-              amount: totalAmount,
-              currency: transaction.currency || transactionData.currency || 'USD',
-            });
-          }
-
           const { error: splitsError } = await supabase
             .from('transaction_splits')
-            .insert(splits);
+            .insert(replacementSplits);
 
           if (splitsError) {
             log.error('Failed to update transaction_splits', 'transaction-update', {
@@ -615,76 +2030,65 @@ Deno.serve(async (req: Request) => {
             });
           }
         }
-      } else if (transactionData.amount !== undefined) {
-        // Recalculate splits when amount changes but participants don't
-        const { data: existingSplits, error: splitsFetchError } = await supabase
-          .from('transaction_splits')
-          .select('participant_id')
+      }
+
+      if (replacesSplits) {
+        await supabase
+          .from('transaction_items')
+          .delete()
           .eq('transaction_id', transactionData.id);
 
-        if (!splitsFetchError && existingSplits && existingSplits.length > 0) {
-          const newAmount = transactionData.amount;
-          const participantIds = existingSplits.map(s => s.participant_id).filter((id): id is string => !!id);
-          const newSplits = calculateEqualSplits(newAmount, participantIds);
-          newSplits.forEach(split => {
-            split.transaction_id = transaction.id;
-          });
+        if (items.length > 0) {
+          const { error: itemsError } = await supabase
+            .from('transaction_items')
+            .insert(buildItemRows(transaction.id, items));
 
-          const validation = validateSplitSum(newSplits, newAmount, transaction.currency || transactionData.currency || 'USD');
-          if (!validation.valid) {
-            log.error('Split validation failed during amount recalculation', 'transaction-update', {
+          if (itemsError) {
+            log.error('Failed to update transaction_items', 'transaction-update', {
               transactionId: transaction.id,
-              error: validation.error,
-              splits: newSplits,
-              amount: newAmount,
-              currency: transaction.currency || transactionData.currency || 'USD',
+              error: itemsError.message,
+              code: itemsError.code,
             });
           }
-
-          await supabase
-            .from('transaction_splits')
-            .delete()
-            .eq('transaction_id', transactionData.id);
-
-            const { error: insertError } = await supabase
-              .from('transaction_splits')
-              .insert(newSplits);
-
-            if (insertError) {
-              log.error('Failed to insert recalculated splits', 'transaction-update', {
-                transactionId: transaction.id,
-                error: insertError.message,
-                code: insertError.code,
-              });
-            }
         }
       }
 
-      const { data: transactionWithSplits } = await supabase
-        .from('transactions')
-        .select(`
-          *,
-          transaction_splits (
-            id,
-            participant_id,
-            amount,
-            created_at
-          )
-        `)
-        .eq('id', transaction.id)
-        .single();
+      if (replacesPayers) {
+        await supabase
+          .from('transaction_payers')
+          .delete()
+          .eq('transaction_id', transactionData.id);
 
-      const responseTransaction = transactionWithSplits || transaction;
-      if (responseTransaction.transaction_splits) {
-        responseTransaction.splits = responseTransaction.transaction_splits;
-        delete responseTransaction.transaction_splits;
+        if (payers && payers.length > 1) {
+          const { error: payersError } = await supabase
+            .from('transaction_payers')
+            .insert(payers.map(payer => ({
+              transaction_id: transaction.id,
+              participant_id: payer.participant_id,
+              amount: payer.amount,
+            })));
+
+          if (payersError) {
+            log.error('Failed to update transaction_payers', 'transaction-update', {
+              transactionId: transaction.id,
+              error: payersError.message,
+              code: payersError.code,
+            });
+          }
+        }
       }
 
-      // Populate split_among_participant_ids from splits for backward compatibility in response
-      if (responseTransaction.splits && Array.isArray(responseTransaction.splits)) {
-        responseTransaction.split_among_participant_ids = responseTransaction.splits
-          .map(s => s.participant_id)
-          .filter((id): id is string => !!id);
+      const responseTransaction = (await fetchTransactionWithDetails(supabase, transaction.id)) || transaction;
+
+      if (responseTransaction.group_id) {
+        await dispatchNotification({
+          type: 'transactions',
+          actorId: user.id,
+          groupId: responseTransaction.group_id,
+          participantIds: [...previousParticipantIds, ...getInvolvedParticipantIds(responseTransaction)],
+          message: `edited "${responseTransaction.description}" (${formatCurrency(responseTransaction.amount, responseTransaction.currency)})`,
+          data: { transaction_id: responseTransaction.id },
+        });
       }
 
       return createSuccessResponse(responseTransaction, 200);
@@ -705,8 +2109,9 @@ Deno.serve(async (req: Request) => {
 
       const { data: transaction, error: fetchError } = await supabase
         .from('transactions')
-        .select('id, user_id, group_id')
+        .select('id, user_id, group_id, description, amount, currency')
         .eq('id', id)
+        .is('deleted_at', null)
         .single();
 
       if (fetchError || !transaction) {
@@ -730,11 +2135,17 @@ Deno.serve(async (req: Request) => {
         return createErrorResponse(403, 'Forbidden: You can only delete transactions you own or transactions in groups you belong to', 'PERMISSION_DENIED');
       }
 
+      const involvedParticipantIds = transaction.group_id
+        ? await fetchInvolvedParticipantIds(supabase, id)
+        : [];
+
+      // Transactions go to the trash with their splits and receipts; the
+      // trash function removes them for good once they expire
       const { data: deletedData, error: deleteError } = await supabase
         .from('transactions')
-        .delete()
+        .update({ deleted_at: new Date().toISOString(), deleted_by: user.id })
         .eq('id', id)
-        .select();
+        .select('id');
 
       if (deleteError) {
         return handleError(deleteError, 'deleting transaction');
@@ -744,7 +2155,21 @@ Deno.serve(async (req: Request) => {
         return createErrorResponse(403, 'Transaction could not be deleted. You may not have permission.', 'PERMISSION_DENIED');
       }
 
-      return createSuccessResponse({ success: true, message: 'Transaction deleted successfully' }, 200);
+      if (transaction.group_id) {
+        await dispatchNotification({
+          type: 'transactions',
+          actorId: user.id,
+          groupId: transaction.group_id,
+          participantIds: involvedParticipantIds,
+          message: `deleted "${transaction.description}" (${formatCurrency(transaction.amount, transaction.currency)})`,
+          data: { transaction_id: id },
+        });
+      }
+
+      return createSuccessResponse({
+        success: true,
+        message: 'Transaction moved to trash',
+      }, 200);
     }
 
     return createErrorResponse(405, 'Method not allowed', 'METHOD_NOT_ALLOWED');
@@ -0,0 +1,373 @@
+import { createClient, SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { removeAttachmentFiles } from '../_shared/attachments.ts';
+import { verifyAuth } from '../_shared/auth.ts';
+import { formatCurrency } from '../_shared/currency.ts';
+import { SUPABASE_SERVICE_ROLE_KEY, SUPABASE_URL } from '../_shared/env.ts';
+import { createErrorResponse, handleError } from '../_shared/error-handler.ts';
+import { dispatchNotification } from '../_shared/notifications.ts';
+import { parsePath } from '../_shared/path-parser.ts';
+import { createEmptyResponse, createSuccessResponse } from '../_shared/response.ts';
+import { fetchUserEmails } from '../_shared/user-email.ts';
+import { isValidUUID, validateBodySize } from '../_shared/validation.ts';
+
+/**
+ * Trash Edge Function
+ *
+ * Deleted group transactions and settlements stay in the group's trash for
+ * the group's trash_retention_days (default 30). Deleted personal
+ * transactions stay in their owner's trash for 30 days.
+ * - GET /trash?group_id=xxx - The group's trashed transactions and
+ *   settlements, most recently deleted first, each with expires_at
+ * - GET /trash - Your trashed personal transactions, in the same shape
+ * - POST /trash/restore - Restore an item ({ type: 'transaction' |
+ *   'settlement', id }); a transaction comes back with its splits, payers,
+ *   items, receipts and comments
+ * - POST /trash/purge - Remove expired items for good, with their receipt
+ *   files. Called daily by pg_cron with the service role key.
+ *
+ * Any active member can see and restore the group's trash, and only the
+ * owner their personal trash; restoring shows in the activity feed. Trash in
+ * archived groups is not purged.
+ *
+ * @route /functions/v1/trash
+ * @requires Authentication (service role key for /trash/purge)
+ */
+
+type TrashItemType = 'transaction' | 'settlement';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Retention is at least a day, so anything deleted since then can't have expired
+const MIN_RETENTION_DAYS = 1;
+const PURGE_BATCH_SIZE = 500;
+// Personal transactions have no group setting
+const PERSONAL_RETENTION_DAYS = 30;
+
+const TRASHED_TRANSACTION_FIELDS = 'id, group_id, description, amount, currency, date, type, category, paid_by_participant_id, user_id, deleted_at, deleted_by';
+const TRASHED_SETTLEMENT_FIELDS = 'id, group_id, from_participant_id, to_participant_id, amount, currency, notes, created_by, created_at, deleted_at, deleted_by';
+
+interface TrashedRow {
+  id: number | string;
+  deleted_at: string;
+  deleted_by: string | null;
+  [field: string]: unknown;
+}
+
+interface ExpiringRow {
+  id: number | string;
+  deleted_at: string;
+  groups: { trash_retention_days: number; archived_at: string | null } | null;
+}
+
+async function isActiveMember(supabase: SupabaseClient, groupId: string, userId: string): Promise<boolean> {
+  const { data: membership, error } = await supabase
+    .from('group_members')
+    .select('id')
+    .eq('group_id', groupId)
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .maybeSingle();
+
+  return !error && !!membership;
+}
+
+function expiresAt(deletedAt: string, retentionDays: number): string {
+  return new Date(new Date(deletedAt).getTime() + retentionDays * DAY_MS).toISOString();
+}
+
+async function handleList(req: Request, supabase: SupabaseClient, userId: string, userEmail: string | null): Promise<Response> {
+  const groupId = new URL(req.url).searchParams.get('group_id');
+  if (groupId === null) {
+    return handlePersonalList(req, supabase, userId, userEmail);
+  }
+  if (!isValidUUID(groupId)) {
+    return createErrorResponse(400, 'A valid group_id is required', 'VALIDATION_ERROR', undefined, req);
+  }
+
+  if (!(await isActiveMember(supabase, groupId, userId))) {
+    return createErrorResponse(403, 'Forbidden: You must be an active member of this group', 'PERMISSION_DENIED', undefined, req);
+  }
+
+  const [{ data: group, error: groupError }, { data: transactions, error: transactionsError }, { data: settlements, error: settlementsError }] = await Promise.all([
+    supabase.from('groups').select('trash_retention_days').eq('id', groupId).single(),
+    supabase
+      .from('transactions')
+      .select(TRASHED_TRANSACTION_FIELDS)
+      .eq('group_id', groupId)
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false }),
+    supabase
+      .from('settlements')
+      .select(TRASHED_SETTLEMENT_FIELDS)
+      .eq('group_id', groupId)
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false }),
+  ]);
+
+  if (groupError) return handleError(groupError, 'fetching group', req);
+  if (transactionsError) return handleError(transactionsError, 'fetching trashed transactions', req);
+  if (settlementsError) return handleError(settlementsError, 'fetching trashed settlements', req);
+
+  const retentionDays: number = group.trash_retention_days;
+  const deletedByIds = [...(transactions || []), ...(settlements || [])]
+    .map((row: TrashedRow) => row.deleted_by)
+    .filter((id): id is string => !!id);
+  const emailMap = await fetchUserEmails([...new Set(deletedByIds)], userId, userEmail);
+
+  const withExpiry = (row: TrashedRow) => ({
+    ...row,
+    deleted_by_email: row.deleted_by ? emailMap.get(row.deleted_by) || null : null,
+    expires_at: expiresAt(row.deleted_at, retentionDays),
+  });
+
+  return createSuccessResponse({
+    retention_days: retentionDays,
+    transactions: (transactions || []).map(withExpiry),
+    settlements: (settlements || []).map(withExpiry),
+  }, 200, 0, req);
+}
+
+async function handlePersonalList(req: Request, supabase: SupabaseClient, userId: string, userEmail: string | null): Promise<Response> {
+  const { data: transactions, error } = await supabase
+    .from('transactions')
+    .select(TRASHED_TRANSACTION_FIELDS)
+    .is('group_id', null)
+    .eq('user_id', userId)
+    .not('deleted_at', 'is', null)
+    .order('deleted_at', { ascending: false });
+
+  if (error) return handleError(error, 'fetching trashed transactions', req);
+
+  return createSuccessResponse({
+    retention_days: PERSONAL_RETENTION_DAYS,
+    transactions: (transactions || []).map((row: TrashedRow) => ({
+      ...row,
+      deleted_by_email: row.deleted_by === userId ? userEmail : null,
+      expires_at: expiresAt(row.deleted_at, PERSONAL_RETENTION_DAYS),
+    })),
+    settlements: [],
+  }, 200, 0, req);
+}
+
+async function handleRestore(req: Request, body: string | null, supabase: SupabaseClient, userId: string): Promise<Response> {
+  if (!body) {
+    return createErrorResponse(400, 'Request body is required', 'VALIDATION_ERROR', undefined, req);
+  }
+
+  let requestData: { type?: TrashItemType; id?: number | string };
+  try {
+    requestData = JSON.parse(body);
+  } catch {
+    return createErrorResponse(400, 'Invalid JSON in request body', 'VALIDATION_ERROR', undefined, req);
+  }
+
+  const { type, id } = requestData;
+  if (type !== 'transaction' && type !== 'settlement') {
+    return createErrorResponse(400, "type must be 'transaction' or 'settlement'", 'VALIDATION_ERROR', undefined, req);
+  }
+  if (type === 'transaction' && (!Number.isInteger(Number(id)) || Number(id) <= 0)) {
+    return createErrorResponse(400, 'Invalid transaction id', 'VALIDATION_ERROR', undefined, req);
+  }
+  if (type === 'settlement' && (typeof id !== 'string' || !isValidUUID(id))) {
+    return createErrorResponse(400, 'Invalid settlement id format. Expected UUID.', 'VALIDATION_ERROR', undefined, req);
+  }
+
+  const table = type === 'transaction' ? 'transactions' : 'settlements';
+  const { data: item, error: fetchError } = await supabase
+    .from(table)
+    .select(type === 'transaction' ? 'id, group_id, user_id' : 'id, group_id')
+    .eq('id', id)
+    .not('deleted_at', 'is', null)
+    .maybeSingle();
+
+  if (fetchError || !item) {
+    return createErrorResponse(404, type === 'transaction' ? 'Transaction not found in trash' : 'Settlement not found in trash', 'NOT_FOUND', undefined, req);
+  }
+
+  if (!item.group_id) {
+    if (item.user_id !== userId) {
+      return createErrorResponse(403, 'Forbidden: You can only restore your own transactions', 'PERMISSION_DENIED', undefined, req);
+    }
+  } else if (!(await isActiveMember(supabase, item.group_id, userId))) {
+    return createErrorResponse(403, 'Forbidden: You must be an active member of this group', 'PERMISSION_DENIED', undefined, req);
+  }
+
+  const { error: restoreError } = await supabase
+    .from(table)
+    .update({ deleted_at: null, deleted_by: null })
+    .eq('id', id);
+
+  if (restoreError) {
+    return handleError(restoreError, `restoring ${type}`, req);
+  }
+
+  if (type === 'transaction') {
+    const { data: transaction, error } = await supabase
+      .from('transactions')
+      .select(`
+        *,
+        transaction_splits ( id, participant_id, amount, share_value, created_at ),
+        transaction_payers ( participant_id, amount )
+      `)
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      return handleError(error, 'fetching restored transaction', req);
+    }
+
+    if (transaction.group_id) {
+      await dispatchNotification({
+        type: 'transactions',
+        actorId: userId,
+        groupId: transaction.group_id,
+        participantIds: [
+          transaction.paid_by_participant_id,
+          ...(transaction.transaction_splits || []).map((s: { participant_id: string | null }) => s.participant_id),
+          ...(transaction.transaction_payers || []).map((p: { participant_id: string }) => p.participant_id),
+        ].filter((pid): pid is string => !!pid),
+        message: `restored "${transaction.description}" (${formatCurrency(transaction.amount, transaction.currency)})`,
+        data: { transaction_id: transaction.id },
+      });
+    }
+
+    return createSuccessResponse({ transaction }, 200, 0, req);
+  }
+
+  const { data: settlement, error } = await supabase
+    .from('settlements')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) {
+    return handleError(error, 'fetching restored settlement', req);
+  }
+
+  await dispatchNotification({
+    type: 'settlements',
+    actorId: userId,
+    groupId: settlement.group_id,
+    participantIds: [settlement.from_participant_id, settlement.to_participant_id],
+    message: `restored a settlement of ${formatCurrency(settlement.amount, settlement.currency)}`,
+    data: { settlement_id: settlement.id },
+  });
+
+  return createSuccessResponse({ settlement }, 200, 0, req);
+}
+
+async function fetchExpired(serviceClient: SupabaseClient, table: string, now: number): Promise<(number | string)[]> {
+  const { data, error } = await serviceClient
+    .from(table)
+    .select('id, deleted_at, groups!inner ( trash_retention_days, archived_at )')
+    .not('deleted_at', 'is', null)
+    .lt('deleted_at', new Date(now - MIN_RETENTION_DAYS * DAY_MS).toISOString())
+    .is('groups.archived_at', null)
+    .order('deleted_at', { ascending: true })
+    .limit(PURGE_BATCH_SIZE);
+
+  if (error) throw error;
+
+  return ((data || []) as ExpiringRow[])
+    .filter(row => row.groups && new Date(expiresAt(row.deleted_at, row.groups.trash_retention_days)).getTime() <= now)
+    .map(row => row.id);
+}
+
+async function fetchExpiredPersonal(serviceClient: SupabaseClient, now: number): Promise<number[]> {
+  const { data, error } = await serviceClient
+    .from('transactions')
+    .select('id')
+    .is('group_id', null)
+    .not('deleted_at', 'is', null)
+    .lte('deleted_at', new Date(now - PERSONAL_RETENTION_DAYS * DAY_MS).toISOString())
+    .order('deleted_at', { ascending: true })
+    .limit(PURGE_BATCH_SIZE);
+
+  if (error) throw error;
+
+  return (data || []).map((row: { id: number }) => row.id);
+}
+
+async function handlePurge(req: Request): Promise<Response> {
+  if (!SUPABASE_SERVICE_ROLE_KEY || req.headers.get('Authorization') !== `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) {
+    return createErrorResponse(401, 'Service role key required', 'AUTH_ERROR', undefined, req);
+  }
+
+  const serviceClient = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  });
+
+  const now = Date.now();
+  const [groupTransactionIds, personalTransactionIds, settlementIds] = await Promise.all([
+    fetchExpired(serviceClient, 'transactions', now),
+    fetchExpiredPersonal(serviceClient, now),
+    fetchExpired(serviceClient, 'settlements', now),
+  ]);
+  const transactionIds = [...groupTransactionIds, ...personalTransactionIds];
+
+  if (transactionIds.length > 0) {
+    // Receipt rows cascade with the transaction; their files are removed below
+    const { data: attachments } = await serviceClient
+      .from('transaction_attachments')
+      .select('storage_path')
+      .in('transaction_id', transactionIds);
+
+    const { error } = await serviceClient.from('transactions').delete().in('id', transactionIds);
+    if (error) return handleError(error, 'purging transactions', req);
+
+    await removeAttachmentFiles(serviceClient, (attachments || []).map((a: { storage_path: string }) => a.storage_path));
+  }
+
+  if (settlementIds.length > 0) {
+    const { error } = await serviceClient.from('settlements').delete().in('id', settlementIds);
+    if (error) return handleError(error, 'purging settlements', req);
+  }
+
+  return createSuccessResponse({
+    transactions: transactionIds.length,
+    settlements: settlementIds.length,
+  }, 200, 0, req);
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return createEmptyResponse(200, req);
+  }
+
+  try {
+    const body = await req.text().catch(() => null);
+    const bodySizeValidation = validateBodySize(body);
+    if (!bodySizeValidation.valid) {
+      return createErrorResponse(413, bodySizeValidation.error || 'Request body too large', 'VALIDATION_ERROR', undefined, req);
+    }
+
+    const route = parsePath(new URL(req.url).pathname).id;
+
+    if (req.method === 'POST' && route === 'purge') {
+      return await handlePurge(req);
+    }
+
+    let authResult;
+    try {
+      authResult = await verifyAuth(req);
+    } catch (authError) {
+      return handleError(authError, 'authentication', req);
+    }
+
+    const { user, supabase } = authResult;
+
+    if (req.method === 'GET' && !route) {
+      return await handleList(req, supabase, user.id, user.email || null);
+    }
+
+    if (req.method === 'POST' && route === 'restore') {
+      return await handleRestore(req, body, supabase, user.id);
+    }
+
+    return createErrorResponse(405, 'Method not allowed', 'METHOD_NOT_ALLOWED', undefined, req);
+  } catch (error: unknown) {
+    return handleError(error, 'trash handler', req);
+  }
+});
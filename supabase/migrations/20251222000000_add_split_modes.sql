@@ -0,0 +1,46 @@
+-- Unequal Splits: split modes and per-participant share values
+-- Created: 2025-12-22
+--
+-- Transactions can now be split equally, by exact amounts, by percentage
+-- or by shares. The mode is stored on the transaction and the raw value
+-- entered for each participant (amount, percentage or share count) is
+-- stored on the split so the split can be re-opened for editing and
+-- recalculated when the transaction amount changes.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. transactions.split_mode
+-- ============================================================================
+
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS split_mode VARCHAR(20) NOT NULL DEFAULT 'equal';
+
+ALTER TABLE public.transactions
+  DROP CONSTRAINT IF EXISTS transactions_split_mode_check;
+
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_split_mode_check
+  CHECK (split_mode IN ('equal', 'exact', 'percentage', 'shares'));
+
+COMMENT ON COLUMN public.transactions.split_mode IS
+  'How the amount is divided among transaction_splits: equal, exact, percentage or shares';
+
+-- ============================================================================
+-- 2. transaction_splits.share_value
+-- ============================================================================
+
+ALTER TABLE public.transaction_splits
+  ADD COLUMN IF NOT EXISTS share_value DECIMAL(12, 4);
+
+ALTER TABLE public.transaction_splits
+  DROP CONSTRAINT IF EXISTS transaction_splits_share_value_positive;
+
+ALTER TABLE public.transaction_splits
+  ADD CONSTRAINT transaction_splits_share_value_positive
+  CHECK (share_value IS NULL OR share_value > 0);
+
+COMMENT ON COLUMN public.transaction_splits.share_value IS
+  'Raw value entered for this participant: exact amount, percentage or share count depending on transactions.split_mode. NULL for equal splits.';
+
+COMMIT;
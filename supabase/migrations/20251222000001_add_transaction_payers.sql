@@ -0,0 +1,176 @@
+-- Multiple Payers: transaction_payers table
+-- Created: 2025-12-22
+--
+-- An expense can be paid by more than one participant. transaction_payers
+-- holds one row per payer with the amount they paid; the amounts must add up
+-- to the transaction amount (validated by the transactions function).
+--
+-- Single-payer expenses keep using transactions.paid_by_participant_id and
+-- have no transaction_payers rows. For multi-payer expenses
+-- paid_by_participant_id is set to the payer who paid the most.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.transaction_payers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id INTEGER NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  participant_id UUID NOT NULL REFERENCES public.participants(id) ON DELETE CASCADE,
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (transaction_id, participant_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_payers_transaction_id
+  ON public.transaction_payers(transaction_id);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_payers_participant_id
+  ON public.transaction_payers(participant_id);
+
+-- ============================================================================
+-- 2. RLS POLICIES (mirror transaction_splits)
+-- ============================================================================
+
+ALTER TABLE public.transaction_payers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view payers for accessible transactions" ON public.transaction_payers;
+CREATE POLICY "Users can view payers for accessible transactions"
+  ON public.transaction_payers
+  FOR SELECT
+  USING (
+    transaction_id IN (
+      SELECT id FROM public.transactions
+      WHERE user_id = auth.uid()
+      OR (group_id IS NOT NULL AND group_id IN (
+        SELECT group_id FROM public.group_members WHERE user_id = auth.uid()
+      ))
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can create payers for group transactions" ON public.transaction_payers;
+CREATE POLICY "Users can create payers for group transactions"
+  ON public.transaction_payers
+  FOR INSERT
+  WITH CHECK (
+    transaction_id IN (
+      SELECT id FROM public.transactions
+      WHERE user_id = auth.uid()
+      OR (group_id IS NOT NULL AND is_user_group_member(group_id, auth.uid()))
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can update payers for group transactions" ON public.transaction_payers;
+CREATE POLICY "Users can update payers for group transactions"
+  ON public.transaction_payers
+  FOR UPDATE
+  USING (
+    transaction_id IN (
+      SELECT id FROM public.transactions
+      WHERE user_id = auth.uid()
+      OR (group_id IS NOT NULL AND is_user_group_member(group_id, auth.uid()))
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can delete payers for group transactions" ON public.transaction_payers;
+CREATE POLICY "Users can delete payers for group transactions"
+  ON public.transaction_payers
+  FOR DELETE
+  USING (
+    transaction_id IN (
+      SELECT id FROM public.transactions
+      WHERE user_id = auth.uid()
+      OR (group_id IS NOT NULL AND is_user_group_member(group_id, auth.uid()))
+    )
+  );
+
+COMMENT ON TABLE public.transaction_payers IS 'Participants who paid for a multi-payer expense and how much each paid';
+COMMENT ON COLUMN public.transaction_payers.amount IS 'Amount paid by this participant. Sum across payers equals transactions.amount.';
+
+-- ============================================================================
+-- 3. Keep payers when an invited participant is merged into a user participant
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.sync_participant_state(
+  p_group_id UUID,
+  p_user_id UUID DEFAULT NULL,
+  p_email TEXT DEFAULT NULL,
+  p_role TEXT DEFAULT 'member',
+  p_target_type TEXT DEFAULT 'member'
+)
+RETURNS UUID AS $$
+DECLARE
+  v_participant_id UUID;
+  v_normalized_email TEXT;
+BEGIN
+  v_normalized_email := LOWER(TRIM(p_email));
+
+  -- 1. If user_id is provided, prioritize it.
+  IF p_user_id IS NOT NULL THEN
+    INSERT INTO public.participants (group_id, user_id, email, type, role, joined_at)
+    VALUES (
+      p_group_id, 
+      p_user_id, 
+      NULL, -- Explicitly clear email when linked to user_id
+      p_target_type, 
+      p_role, 
+      CASE WHEN p_target_type = 'member' THEN CURRENT_TIMESTAMP ELSE NULL END
+    )
+    ON CONFLICT (group_id, user_id)
+    DO UPDATE SET
+      email = NULL, -- Ensure email is cleared on update too
+      type = EXCLUDED.type,
+      role = COALESCE(p_role, participants.role),
+      left_at = CASE WHEN EXCLUDED.type = 'former' THEN CURRENT_TIMESTAMP ELSE participants.left_at END,
+      joined_at = COALESCE(participants.joined_at, EXCLUDED.joined_at),
+      updated_at = CURRENT_TIMESTAMP
+    RETURNING id INTO v_participant_id;
+
+    -- Cleanup: If there was a participant record for this email that isn't linked to a user yet,
+    -- and we just linked the user, we should ideally merge them.
+    IF v_normalized_email IS NOT NULL THEN
+      -- Safety: Move any transaction splits from the old email participant to the new user participant
+      UPDATE public.transaction_splits
+      SET participant_id = v_participant_id
+      WHERE participant_id IN (
+        SELECT id FROM public.participants 
+        WHERE group_id = p_group_id AND LOWER(email) = v_normalized_email AND user_id IS NULL
+      );
+
+      -- Same for transaction payers
+      UPDATE public.transaction_payers
+      SET participant_id = v_participant_id
+      WHERE participant_id IN (
+        SELECT id FROM public.participants 
+        WHERE group_id = p_group_id AND LOWER(email) = v_normalized_email AND user_id IS NULL
+      );
+
+      -- Now it's safe to delete the old participant record
+      DELETE FROM public.participants 
+      WHERE group_id = p_group_id AND LOWER(email) = v_normalized_email AND user_id IS NULL;
+    END IF;
+
+    RETURN v_participant_id;
+  END IF;
+
+  -- 2. If no user_id, use email.
+  IF v_normalized_email IS NOT NULL THEN
+    INSERT INTO public.participants (group_id, email, type, role)
+    VALUES (p_group_id, v_normalized_email, p_target_type, p_role)
+    ON CONFLICT (group_id, email)
+    DO UPDATE SET
+      type = EXCLUDED.type,
+      role = COALESCE(p_role, participants.role),
+      updated_at = CURRENT_TIMESTAMP
+    RETURNING id INTO v_participant_id;
+
+    RETURN v_participant_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMIT;
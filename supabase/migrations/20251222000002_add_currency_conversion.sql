@@ -0,0 +1,140 @@
+-- Currency Conversion: exchange rates and per-group settlement currency
+-- Created: 2025-12-22
+--
+-- Groups can pick a "settle in" currency. Balances and debt simplification
+-- can then convert every amount into that currency so multi-currency groups
+-- net out into a single set of debts.
+--
+-- exchange_rates stores group-scoped rates (entered manually or imported from
+-- a CSV/JSON file). A rate means 1 base_currency = rate quote_currency on
+-- effective_date. When a transaction is saved in a group with a settlement
+-- currency, the rate used is recorded on the transaction so later rate
+-- changes do not rewrite past expenses.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. groups.settlement_currency
+-- ============================================================================
+
+ALTER TABLE public.groups
+  ADD COLUMN IF NOT EXISTS settlement_currency VARCHAR(3);
+
+COMMENT ON COLUMN public.groups.settlement_currency IS
+  'Currency balances are converted into when settling up. NULL keeps balances per currency.';
+
+-- ============================================================================
+-- 2. exchange_rates TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id UUID NOT NULL REFERENCES public.groups(id) ON DELETE CASCADE,
+  base_currency VARCHAR(3) NOT NULL,
+  quote_currency VARCHAR(3) NOT NULL,
+  rate DECIMAL(18, 8) NOT NULL CHECK (rate > 0),
+  effective_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  source VARCHAR(10) NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'import')),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CHECK (base_currency <> quote_currency),
+  UNIQUE (group_id, base_currency, quote_currency, effective_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_group_pair
+  ON public.exchange_rates(group_id, base_currency, quote_currency, effective_date DESC);
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Group members can view exchange rates" ON public.exchange_rates;
+CREATE POLICY "Group members can view exchange rates"
+  ON public.exchange_rates
+  FOR SELECT
+  USING (is_user_group_member(group_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Group members can create exchange rates" ON public.exchange_rates;
+CREATE POLICY "Group members can create exchange rates"
+  ON public.exchange_rates
+  FOR INSERT
+  WITH CHECK (is_user_group_member(group_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Group members can update exchange rates" ON public.exchange_rates;
+CREATE POLICY "Group members can update exchange rates"
+  ON public.exchange_rates
+  FOR UPDATE
+  USING (is_user_group_member(group_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Group members can delete exchange rates" ON public.exchange_rates;
+CREATE POLICY "Group members can delete exchange rates"
+  ON public.exchange_rates
+  FOR DELETE
+  USING (is_user_group_member(group_id, auth.uid()));
+
+COMMENT ON TABLE public.exchange_rates IS 'Group-scoped exchange rates used to convert balances into the group settlement currency';
+COMMENT ON COLUMN public.exchange_rates.rate IS '1 base_currency = rate quote_currency';
+COMMENT ON COLUMN public.exchange_rates.source IS 'How the rate was added: manual or import (CSV/JSON file)';
+
+-- ============================================================================
+-- 3. transactions.exchange_rate
+-- ============================================================================
+
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(18, 8),
+  ADD COLUMN IF NOT EXISTS exchange_rate_currency VARCHAR(3);
+
+ALTER TABLE public.transactions
+  DROP CONSTRAINT IF EXISTS transactions_exchange_rate_positive;
+
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_exchange_rate_positive
+  CHECK (exchange_rate IS NULL OR exchange_rate > 0);
+
+COMMENT ON COLUMN public.transactions.exchange_rate IS
+  'Rate used to convert amount into exchange_rate_currency when the transaction was saved';
+COMMENT ON COLUMN public.transactions.exchange_rate_currency IS
+  'Settlement currency the recorded exchange_rate converts into';
+
+-- ============================================================================
+-- 4. RPC: set_group_settlement_currency
+-- ============================================================================
+-- Groups are admin-free, so any active member may change the settlement
+-- currency. The groups UPDATE policy is owner-only, hence SECURITY DEFINER.
+
+CREATE OR REPLACE FUNCTION public.set_group_settlement_currency(
+  p_group_id UUID,
+  p_currency VARCHAR(3)
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  current_user_id UUID;
+BEGIN
+  current_user_id := auth.uid();
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.group_members
+    WHERE group_id = p_group_id
+      AND user_id = current_user_id
+      AND status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'You must be an active member of the group to change its settlement currency';
+  END IF;
+
+  IF p_currency IS NOT NULL AND length(p_currency) <> 3 THEN
+    RAISE EXCEPTION 'Currency must be a 3-character code';
+  END IF;
+
+  UPDATE public.groups
+  SET settlement_currency = UPPER(p_currency),
+      updated_at = NOW()
+  WHERE id = p_group_id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.set_group_settlement_currency(UUID, VARCHAR) TO authenticated;
+
+COMMIT;
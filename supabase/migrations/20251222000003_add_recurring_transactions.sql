@@ -0,0 +1,351 @@
+-- Recurring Expenses: recurring_transactions templates and materialization
+-- Created: 2025-12-22
+--
+-- A recurring_transactions row is a template for a group expense that repeats
+-- every interval_count days/weeks/months/years from start_date until end_date.
+-- materialize_recurring_transactions() turns every due occurrence into a
+-- regular transactions row with its transaction_splits, so balances, activity
+-- and history treat them like hand-entered expenses.
+--
+-- Occurrences are computed from start_date and occurrence_count (not from the
+-- previous occurrence) so monthly series starting on the 31st don't drift.
+-- A unique index on (recurring_transaction_id, date) guarantees an occurrence
+-- is only materialized once, even when called concurrently.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.recurring_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id UUID NOT NULL REFERENCES public.groups(id) ON DELETE CASCADE,
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  description TEXT NOT NULL,
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  currency VARCHAR(3) NOT NULL,
+  category VARCHAR(50),
+  paid_by_participant_id UUID NOT NULL REFERENCES public.participants(id) ON DELETE CASCADE,
+  split_mode VARCHAR(20) NOT NULL DEFAULT 'equal'
+    CHECK (split_mode IN ('equal', 'exact', 'percentage', 'shares')),
+  split_among_participant_ids UUID[] NOT NULL,
+  split_values JSONB, -- [{ participant_id, value }] for non-equal split modes
+  frequency VARCHAR(10) NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly', 'yearly')),
+  interval_count INTEGER NOT NULL DEFAULT 1 CHECK (interval_count BETWEEN 1 AND 365),
+  start_date DATE NOT NULL,
+  end_date DATE CHECK (end_date IS NULL OR end_date >= start_date),
+  next_occurrence_date DATE NOT NULL,
+  occurrence_count INTEGER NOT NULL DEFAULT 0,
+  status VARCHAR(10) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'ended')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_transactions_group_id
+  ON public.recurring_transactions(group_id);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_transactions_due
+  ON public.recurring_transactions(next_occurrence_date)
+  WHERE status = 'active';
+
+COMMENT ON TABLE public.recurring_transactions IS 'Templates for group expenses that repeat on a schedule';
+COMMENT ON COLUMN public.recurring_transactions.occurrence_count IS 'Number of occurrences already materialized into transactions';
+COMMENT ON COLUMN public.recurring_transactions.status IS 'active: materialized when due, paused: skipped until resumed, ended: past end_date';
+
+-- ============================================================================
+-- 2. transactions.recurring_transaction_id
+-- ============================================================================
+
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS recurring_transaction_id UUID
+    REFERENCES public.recurring_transactions(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_recurring_occurrence
+  ON public.transactions(recurring_transaction_id, date)
+  WHERE recurring_transaction_id IS NOT NULL;
+
+COMMENT ON COLUMN public.transactions.recurring_transaction_id IS
+  'Recurring series this transaction was generated from (NULL for one-off transactions)';
+
+-- ============================================================================
+-- 3. RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE public.recurring_transactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Group members can view recurring transactions" ON public.recurring_transactions;
+CREATE POLICY "Group members can view recurring transactions"
+  ON public.recurring_transactions
+  FOR SELECT
+  USING (is_user_group_member(group_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Group members can create recurring transactions" ON public.recurring_transactions;
+CREATE POLICY "Group members can create recurring transactions"
+  ON public.recurring_transactions
+  FOR INSERT
+  WITH CHECK (
+    created_by = auth.uid()
+    AND is_user_group_member(group_id, auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Group members can update recurring transactions" ON public.recurring_transactions;
+CREATE POLICY "Group members can update recurring transactions"
+  ON public.recurring_transactions
+  FOR UPDATE
+  USING (is_user_group_member(group_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Group members can delete recurring transactions" ON public.recurring_transactions;
+CREATE POLICY "Group members can delete recurring transactions"
+  ON public.recurring_transactions
+  FOR DELETE
+  USING (is_user_group_member(group_id, auth.uid()));
+
+-- ============================================================================
+-- 4. HELPERS
+-- ============================================================================
+
+-- Date of the nth occurrence (0-based) of a series
+CREATE OR REPLACE FUNCTION public.recurring_occurrence_date(
+  p_start_date DATE,
+  p_frequency VARCHAR,
+  p_interval_count INTEGER,
+  p_occurrence INTEGER
+)
+RETURNS DATE AS $$
+BEGIN
+  RETURN (p_start_date + (p_occurrence * p_interval_count) * CASE p_frequency
+    WHEN 'daily' THEN INTERVAL '1 day'
+    WHEN 'weekly' THEN INTERVAL '1 week'
+    WHEN 'monthly' THEN INTERVAL '1 month'
+    WHEN 'yearly' THEN INTERVAL '1 year'
+  END)::DATE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Inserts the splits for one materialized occurrence. Mirrors the
+-- transactions function: amounts are floored to cents and the rounding
+-- remainder goes to the first participant.
+CREATE OR REPLACE FUNCTION public.insert_recurring_transaction_splits(
+  p_transaction_id INTEGER,
+  p_series public.recurring_transactions
+)
+RETURNS VOID AS $$
+DECLARE
+  participant_ids UUID[];
+  weights NUMERIC[];
+  total_weight NUMERIC;
+  split_amount NUMERIC;
+  allocated NUMERIC := 0;
+  i INTEGER;
+  inserted_split_id UUID;
+  first_split_id UUID;
+BEGIN
+  IF p_series.split_mode = 'equal' THEN
+    participant_ids := p_series.split_among_participant_ids;
+    weights := array_fill(1::NUMERIC, ARRAY[array_length(participant_ids, 1)]);
+  ELSE
+    SELECT array_agg((v->>'participant_id')::UUID ORDER BY ord),
+           array_agg((v->>'value')::NUMERIC ORDER BY ord)
+    INTO participant_ids, weights
+    FROM jsonb_array_elements(p_series.split_values) WITH ORDINALITY AS t(v, ord);
+  END IF;
+
+  IF participant_ids IS NULL OR array_length(participant_ids, 1) IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT SUM(w) INTO total_weight FROM unnest(weights) AS w;
+
+  FOR i IN 1..array_length(participant_ids, 1) LOOP
+    IF p_series.split_mode = 'exact' THEN
+      split_amount := ROUND(weights[i], 2);
+    ELSE
+      split_amount := FLOOR(p_series.amount * 100 * weights[i] / total_weight) / 100;
+    END IF;
+    allocated := allocated + split_amount;
+
+    INSERT INTO public.transaction_splits (transaction_id, participant_id, amount, share_value)
+    VALUES (
+      p_transaction_id,
+      participant_ids[i],
+      split_amount,
+      CASE WHEN p_series.split_mode = 'equal' THEN NULL ELSE weights[i] END
+    )
+    RETURNING id INTO inserted_split_id;
+
+    IF i = 1 THEN
+      first_split_id := inserted_split_id;
+    END IF;
+  END LOOP;
+
+  IF p_series.split_mode <> 'exact' AND allocated <> p_series.amount THEN
+    UPDATE public.transaction_splits
+    SET amount = amount + (p_series.amount - allocated)
+    WHERE id = first_split_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 5. EXCHANGE RATE LOOKUP
+-- ============================================================================
+-- Same rule as findExchangeRate in _shared/exchange-rates.ts: the latest rate
+-- effective on or before the date (or the oldest one if none is that old),
+-- falling back to the inverse pair. NULL when no rate is known.
+
+CREATE OR REPLACE FUNCTION public.group_exchange_rate(
+  p_group_id UUID,
+  p_from VARCHAR,
+  p_to VARCHAR,
+  p_date DATE
+)
+RETURNS NUMERIC AS $$
+  SELECT CASE WHEN p_from = p_to THEN 1 ELSE (
+    SELECT CASE WHEN r.base_currency = p_from THEN r.rate ELSE 1 / r.rate END
+    FROM public.exchange_rates r
+    WHERE r.group_id = p_group_id
+      AND ((r.base_currency = p_from AND r.quote_currency = p_to)
+        OR (r.base_currency = p_to AND r.quote_currency = p_from))
+    ORDER BY (r.base_currency = p_from) DESC,
+             (r.effective_date <= p_date) DESC,
+             CASE WHEN r.effective_date <= p_date THEN r.effective_date END DESC,
+             r.effective_date ASC
+    LIMIT 1
+  ) END;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- 6. RPC: materialize_recurring_transactions
+-- ============================================================================
+-- Creates transactions for every due occurrence up to today. When called by a
+-- user only series in groups they are an active member of are processed; when
+-- called without a user (the scheduled job or the service role) all groups
+-- are processed, so anonymous callers are not allowed to run it.
+-- Each occurrence records the group's exchange rate for its date, like
+-- POST /transactions does. Returns the number of transactions created.
+
+CREATE OR REPLACE FUNCTION public.materialize_recurring_transactions(
+  p_group_id UUID DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  current_user_id UUID;
+  series public.recurring_transactions;
+  occurrence DATE;
+  new_transaction_id INTEGER;
+  created_count INTEGER := 0;
+  group_settlement_currency VARCHAR(3);
+  occurrence_rate NUMERIC;
+BEGIN
+  current_user_id := auth.uid();
+
+  FOR series IN
+    SELECT rt.* FROM public.recurring_transactions rt
+    WHERE rt.status = 'active'
+      AND rt.next_occurrence_date <= CURRENT_DATE
+      AND (p_group_id IS NULL OR rt.group_id = p_group_id)
+      AND (
+        current_user_id IS NULL
+        OR EXISTS (
+          SELECT 1 FROM public.group_members gm
+          WHERE gm.group_id = rt.group_id
+            AND gm.user_id = current_user_id
+            AND gm.status = 'active'
+        )
+      )
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    occurrence := series.next_occurrence_date;
+
+    SELECT g.settlement_currency INTO group_settlement_currency
+    FROM public.groups g
+    WHERE g.id = series.group_id;
+
+    WHILE occurrence <= CURRENT_DATE
+      AND (series.end_date IS NULL OR occurrence <= series.end_date)
+    LOOP
+      occurrence_rate := CASE
+        WHEN group_settlement_currency IS NULL THEN NULL
+        ELSE public.group_exchange_rate(series.group_id, series.currency, group_settlement_currency, occurrence)
+      END;
+
+      INSERT INTO public.transactions (
+        user_id,
+        amount,
+        description,
+        date,
+        type,
+        category,
+        group_id,
+        currency,
+        paid_by_participant_id,
+        split_mode,
+        exchange_rate,
+        exchange_rate_currency,
+        recurring_transaction_id
+      ) VALUES (
+        series.created_by,
+        series.amount,
+        series.description,
+        occurrence,
+        'expense',
+        series.category,
+        series.group_id,
+        series.currency,
+        series.paid_by_participant_id,
+        series.split_mode,
+        occurrence_rate,
+        CASE WHEN occurrence_rate IS NULL THEN NULL ELSE group_settlement_currency END,
+        series.id
+      )
+      ON CONFLICT DO NOTHING
+      RETURNING id INTO new_transaction_id;
+
+      IF new_transaction_id IS NOT NULL THEN
+        PERFORM public.insert_recurring_transaction_splits(new_transaction_id, series);
+        created_count := created_count + 1;
+      END IF;
+
+      series.occurrence_count := series.occurrence_count + 1;
+      occurrence := public.recurring_occurrence_date(
+        series.start_date, series.frequency, series.interval_count, series.occurrence_count
+      );
+    END LOOP;
+
+    UPDATE public.recurring_transactions
+    SET next_occurrence_date = occurrence,
+        occurrence_count = series.occurrence_count,
+        status = CASE
+          WHEN series.end_date IS NOT NULL AND occurrence > series.end_date THEN 'ended'
+          ELSE status
+        END,
+        updated_at = NOW()
+    WHERE id = series.id;
+  END LOOP;
+
+  RETURN created_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.materialize_recurring_transactions(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.materialize_recurring_transactions(UUID) TO authenticated, service_role;
+
+-- ============================================================================
+-- 7. SCHEDULE (when pg_cron is available)
+-- ============================================================================
+-- Transactions are also materialized lazily when a group's transactions are
+-- fetched, so the schedule is an optimisation rather than a requirement.
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'materialize-recurring-transactions',
+      '15 0 * * *',
+      'SELECT public.materialize_recurring_transactions()'
+    );
+  END IF;
+END $$;
+
+COMMIT;
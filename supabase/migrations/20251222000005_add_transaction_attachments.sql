@@ -0,0 +1,111 @@
+-- Receipt Attachments: transaction_attachments table and receipts storage bucket
+-- Created: 2025-12-22
+--
+-- Receipt images are stored in the private "receipts" Storage bucket under
+-- <group_id>/<transaction_id>/<file>. transaction_attachments records the
+-- metadata for each file; the transactions function returns short-lived
+-- signed URLs for viewing them.
+--
+-- Both the table and the storage objects are limited to the transaction's
+-- group: anyone in the group can view receipts, active members can add or
+-- remove them.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.transaction_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id INTEGER NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  group_id UUID NOT NULL REFERENCES public.groups(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  content_type VARCHAR(100) NOT NULL,
+  size_bytes INTEGER NOT NULL CHECK (size_bytes > 0),
+  uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_attachments_transaction_id
+  ON public.transaction_attachments(transaction_id);
+
+COMMENT ON TABLE public.transaction_attachments IS 'Receipt images attached to transactions, stored in the receipts bucket';
+COMMENT ON COLUMN public.transaction_attachments.group_id IS 'Denormalized from transactions for RLS and the storage path';
+COMMENT ON COLUMN public.transaction_attachments.storage_path IS 'Object path in the receipts bucket: <group_id>/<transaction_id>/<file>';
+
+-- ============================================================================
+-- 2. RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE public.transaction_attachments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Group members can view transaction attachments" ON public.transaction_attachments;
+CREATE POLICY "Group members can view transaction attachments"
+  ON public.transaction_attachments
+  FOR SELECT
+  USING (is_user_group_member(group_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Active group members can add transaction attachments" ON public.transaction_attachments;
+CREATE POLICY "Active group members can add transaction attachments"
+  ON public.transaction_attachments
+  FOR INSERT
+  WITH CHECK (
+    uploaded_by = auth.uid()
+    AND is_user_active_group_member(group_id, auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM public.transactions t
+      WHERE t.id = transaction_id AND t.group_id = transaction_attachments.group_id
+    )
+  );
+
+DROP POLICY IF EXISTS "Active group members can delete transaction attachments" ON public.transaction_attachments;
+CREATE POLICY "Active group members can delete transaction attachments"
+  ON public.transaction_attachments
+  FOR DELETE
+  USING (is_user_active_group_member(group_id, auth.uid()));
+
+-- ============================================================================
+-- 3. STORAGE BUCKET
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'receipts',
+  'receipts',
+  false,
+  5242880, -- 5 MiB
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/heic']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- The first folder of every object path is the group id
+DROP POLICY IF EXISTS "Group members can view receipts" ON storage.objects;
+CREATE POLICY "Group members can view receipts"
+  ON storage.objects
+  FOR SELECT
+  USING (
+    bucket_id = 'receipts'
+    AND is_user_group_member(((storage.foldername(name))[1])::UUID, auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Active group members can upload receipts" ON storage.objects;
+CREATE POLICY "Active group members can upload receipts"
+  ON storage.objects
+  FOR INSERT
+  WITH CHECK (
+    bucket_id = 'receipts'
+    AND is_user_active_group_member(((storage.foldername(name))[1])::UUID, auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Active group members can delete receipts" ON storage.objects;
+CREATE POLICY "Active group members can delete receipts"
+  ON storage.objects
+  FOR DELETE
+  USING (
+    bucket_id = 'receipts'
+    AND is_user_active_group_member(((storage.foldername(name))[1])::UUID, auth.uid())
+  );
+
+COMMIT;
@@ -0,0 +1,220 @@
+-- Itemized Splits: receipt line items with tax and tip
+-- Created: 2025-12-22
+--
+-- Restaurant bills can be entered line by line. Each item (name, unit price,
+-- quantity) is assigned to one or more participants who share it equally;
+-- tax and tip are then distributed in proportion to each participant's
+-- item subtotal.
+--
+-- The result is still stored as transaction_splits (with share_value holding
+-- the participant's item subtotal) so balances work unchanged. The items,
+-- tax and tip are stored as well so the expense can be reopened and edited.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. transactions.split_mode, tax_amount and tip_amount
+-- ============================================================================
+
+ALTER TABLE public.transactions
+  DROP CONSTRAINT IF EXISTS transactions_split_mode_check;
+
+ALTER TABLE public.transactions
+  ADD CONSTRAINT transactions_split_mode_check
+  CHECK (split_mode IN ('equal', 'exact', 'percentage', 'shares', 'itemized'));
+
+COMMENT ON COLUMN public.transactions.split_mode IS
+  'How the amount is divided among transaction_splits: equal, exact, percentage, shares or itemized';
+
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS tax_amount DECIMAL(10, 2) CHECK (tax_amount >= 0),
+  ADD COLUMN IF NOT EXISTS tip_amount DECIMAL(10, 2) CHECK (tip_amount >= 0);
+
+COMMENT ON COLUMN public.transactions.tax_amount IS 'Tax on an itemized expense, distributed in proportion to item subtotals';
+COMMENT ON COLUMN public.transactions.tip_amount IS 'Tip on an itemized expense, distributed in proportion to item subtotals';
+
+-- ============================================================================
+-- 2. transaction_items
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.transaction_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id INTEGER NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  unit_price DECIMAL(10, 2) NOT NULL CHECK (unit_price >= 0),
+  quantity DECIMAL(10, 3) NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  participant_ids UUID[] NOT NULL CHECK (cardinality(participant_ids) > 0),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_items_transaction_id
+  ON public.transaction_items(transaction_id);
+
+COMMENT ON TABLE public.transaction_items IS 'Receipt line items of an itemized expense';
+COMMENT ON COLUMN public.transaction_items.participant_ids IS 'Participants sharing this item equally';
+COMMENT ON COLUMN public.transaction_items.position IS 'Order of the item on the receipt';
+
+-- ============================================================================
+-- 3. RLS POLICIES (mirror transaction_splits)
+-- ============================================================================
+
+ALTER TABLE public.transaction_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view items for accessible transactions" ON public.transaction_items;
+CREATE POLICY "Users can view items for accessible transactions"
+  ON public.transaction_items
+  FOR SELECT
+  USING (
+    transaction_id IN (
+      SELECT id FROM public.transactions
+      WHERE user_id = auth.uid()
+      OR (group_id IS NOT NULL AND group_id IN (
+        SELECT group_id FROM public.group_members WHERE user_id = auth.uid()
+      ))
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can create items for group transactions" ON public.transaction_items;
+CREATE POLICY "Users can create items for group transactions"
+  ON public.transaction_items
+  FOR INSERT
+  WITH CHECK (
+    transaction_id IN (
+      SELECT id FROM public.transactions
+      WHERE user_id = auth.uid()
+      OR (group_id IS NOT NULL AND is_user_group_member(group_id, auth.uid()))
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can update items for group transactions" ON public.transaction_items;
+CREATE POLICY "Users can update items for group transactions"
+  ON public.transaction_items
+  FOR UPDATE
+  USING (
+    transaction_id IN (
+      SELECT id FROM public.transactions
+      WHERE user_id = auth.uid()
+      OR (group_id IS NOT NULL AND is_user_group_member(group_id, auth.uid()))
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can delete items for group transactions" ON public.transaction_items;
+CREATE POLICY "Users can delete items for group transactions"
+  ON public.transaction_items
+  FOR DELETE
+  USING (
+    transaction_id IN (
+      SELECT id FROM public.transactions
+      WHERE user_id = auth.uid()
+      OR (group_id IS NOT NULL AND is_user_group_member(group_id, auth.uid()))
+    )
+  );
+
+-- ============================================================================
+-- 4. Keep item assignments when an invited participant is merged
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.sync_participant_state(
+  p_group_id UUID,
+  p_user_id UUID DEFAULT NULL,
+  p_email TEXT DEFAULT NULL,
+  p_role TEXT DEFAULT 'member',
+  p_target_type TEXT DEFAULT 'member'
+)
+RETURNS UUID AS $$
+DECLARE
+  v_participant_id UUID;
+  v_normalized_email TEXT;
+  v_old_participant_id UUID;
+BEGIN
+  v_normalized_email := LOWER(TRIM(p_email));
+
+  -- 1. If user_id is provided, prioritize it.
+  IF p_user_id IS NOT NULL THEN
+    INSERT INTO public.participants (group_id, user_id, email, type, role, joined_at)
+    VALUES (
+      p_group_id, 
+      p_user_id, 
+      NULL, -- Explicitly clear email when linked to user_id
+      p_target_type, 
+      p_role, 
+      CASE WHEN p_target_type = 'member' THEN CURRENT_TIMESTAMP ELSE NULL END
+    )
+    ON CONFLICT (group_id, user_id)
+    DO UPDATE SET
+      email = NULL, -- Ensure email is cleared on update too
+      type = EXCLUDED.type,
+      role = COALESCE(p_role, participants.role),
+      left_at = CASE WHEN EXCLUDED.type = 'former' THEN CURRENT_TIMESTAMP ELSE participants.left_at END,
+      joined_at = COALESCE(participants.joined_at, EXCLUDED.joined_at),
+      updated_at = CURRENT_TIMESTAMP
+    RETURNING id INTO v_participant_id;
+
+    -- Cleanup: If there was a participant record for this email that isn't linked to a user yet,
+    -- and we just linked the user, we should ideally merge them.
+    IF v_normalized_email IS NOT NULL THEN
+      -- Safety: Move any transaction splits from the old email participant to the new user participant
+      UPDATE public.transaction_splits
+      SET participant_id = v_participant_id
+      WHERE participant_id IN (
+        SELECT id FROM public.participants 
+        WHERE group_id = p_group_id AND LOWER(email) = v_normalized_email AND user_id IS NULL
+      );
+
+      -- Same for transaction payers
+      UPDATE public.transaction_payers
+      SET participant_id = v_participant_id
+      WHERE participant_id IN (
+        SELECT id FROM public.participants 
+        WHERE group_id = p_group_id AND LOWER(email) = v_normalized_email AND user_id IS NULL
+      );
+
+      -- Same for recurring expense series (payer, split list and split values)
+      -- and itemized receipt items
+      SELECT id INTO v_old_participant_id
+      FROM public.participants
+      WHERE group_id = p_group_id AND LOWER(email) = v_normalized_email AND user_id IS NULL;
+
+      IF v_old_participant_id IS NOT NULL THEN
+        UPDATE public.recurring_transactions
+        SET paid_by_participant_id = v_participant_id
+        WHERE paid_by_participant_id = v_old_participant_id;
+
+        UPDATE public.recurring_transactions
+        SET split_among_participant_ids = array_replace(split_among_participant_ids, v_old_participant_id, v_participant_id),
+            split_values = REPLACE(split_values::TEXT, v_old_participant_id::TEXT, v_participant_id::TEXT)::JSONB
+        WHERE v_old_participant_id = ANY(split_among_participant_ids);
+
+        UPDATE public.transaction_items
+        SET participant_ids = array_replace(participant_ids, v_old_participant_id, v_participant_id)
+        WHERE v_old_participant_id = ANY(participant_ids);
+      END IF;
+
+      -- Now it's safe to delete the old participant record
+      DELETE FROM public.participants 
+      WHERE group_id = p_group_id AND LOWER(email) = v_normalized_email AND user_id IS NULL;
+    END IF;
+
+    RETURN v_participant_id;
+  END IF;
+
+  -- 2. If no user_id, use email.
+  IF v_normalized_email IS NOT NULL THEN
+    INSERT INTO public.participants (group_id, email, type, role)
+    VALUES (p_group_id, v_normalized_email, p_target_type, p_role)
+    ON CONFLICT (group_id, email)
+    DO UPDATE SET
+      type = EXCLUDED.type,
+      role = COALESCE(p_role, participants.role),
+      updated_at = CURRENT_TIMESTAMP
+    RETURNING id INTO v_participant_id;
+
+    RETURN v_participant_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMIT;
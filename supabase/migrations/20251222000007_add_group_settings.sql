@@ -0,0 +1,304 @@
+-- Group Settings: editable details and archiving
+-- Created: 2025-12-22
+--
+-- Groups get a default currency for new expenses, an emoji and a cover
+-- color. Any active member can edit them (groups are admin-free).
+--
+-- Groups can't be deleted, so settled groups can be archived instead. An
+-- archived group is read-only: its expenses, settlements, recurring series,
+-- exchange rates and invitations can't change until it is restored. The edge
+-- function only archives groups whose balances are all zero.
+--
+-- Edits, archiving and restoring are recorded in transaction_history with
+-- activity_type 'group', so they show up in the activity feed.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. groups COLUMNS
+-- ============================================================================
+
+ALTER TABLE public.groups
+  ADD COLUMN IF NOT EXISTS default_currency VARCHAR(3),
+  ADD COLUMN IF NOT EXISTS emoji VARCHAR(16),
+  ADD COLUMN IF NOT EXISTS cover_color VARCHAR(7)
+    CHECK (cover_color IS NULL OR cover_color ~ '^#[0-9A-Fa-f]{6}$'),
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS archived_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.groups.default_currency IS 'Currency new expenses in the group start with. NULL uses the app default.';
+COMMENT ON COLUMN public.groups.emoji IS 'Emoji shown as the group icon';
+COMMENT ON COLUMN public.groups.cover_color IS 'Hex color (#RRGGBB) behind the group icon';
+COMMENT ON COLUMN public.groups.archived_at IS 'When the group was archived. Archived groups are read-only; NULL means active.';
+COMMENT ON COLUMN public.groups.archived_by IS 'User who archived the group';
+
+-- ============================================================================
+-- 2. READ-ONLY ARCHIVED GROUPS
+-- ============================================================================
+-- The only change allowed on an archived group is restoring it.
+
+CREATE OR REPLACE FUNCTION public.prevent_archived_group_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.archived_at IS NOT NULL AND NEW.archived_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Archived groups are read-only. Restore the group to make changes'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_prevent_archived_group_update ON public.groups;
+CREATE TRIGGER trg_prevent_archived_group_update
+BEFORE UPDATE ON public.groups
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_archived_group_update();
+
+-- Shared by every table with a group_id whose rows belong to the group's ledger
+CREATE OR REPLACE FUNCTION public.prevent_archived_group_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_group_id UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_group_id := OLD.group_id;
+  ELSE
+    v_group_id := NEW.group_id;
+  END IF;
+
+  IF v_group_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.groups
+    WHERE id = v_group_id
+      AND archived_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Archived groups are read-only. Restore the group to make changes'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_transactions_archived_group ON public.transactions;
+CREATE TRIGGER trg_transactions_archived_group
+BEFORE INSERT OR UPDATE OR DELETE ON public.transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_archived_group_changes();
+
+DROP TRIGGER IF EXISTS trg_settlements_archived_group ON public.settlements;
+CREATE TRIGGER trg_settlements_archived_group
+BEFORE INSERT OR UPDATE OR DELETE ON public.settlements
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_archived_group_changes();
+
+DROP TRIGGER IF EXISTS trg_recurring_transactions_archived_group ON public.recurring_transactions;
+CREATE TRIGGER trg_recurring_transactions_archived_group
+BEFORE INSERT OR UPDATE OR DELETE ON public.recurring_transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_archived_group_changes();
+
+DROP TRIGGER IF EXISTS trg_exchange_rates_archived_group ON public.exchange_rates;
+CREATE TRIGGER trg_exchange_rates_archived_group
+BEFORE INSERT OR UPDATE OR DELETE ON public.exchange_rates
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_archived_group_changes();
+
+DROP TRIGGER IF EXISTS trg_transaction_attachments_archived_group ON public.transaction_attachments;
+CREATE TRIGGER trg_transaction_attachments_archived_group
+BEFORE INSERT OR UPDATE OR DELETE ON public.transaction_attachments
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_archived_group_changes();
+
+DROP TRIGGER IF EXISTS trg_group_invitations_archived_group ON public.group_invitations;
+CREATE TRIGGER trg_group_invitations_archived_group
+BEFORE INSERT OR UPDATE ON public.group_invitations
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_archived_group_changes();
+
+-- ============================================================================
+-- 3. GROUP ACTIVITY IN transaction_history
+-- ============================================================================
+-- Group rows have neither transaction_id nor settlement_id, which the
+-- existing check allows as long as a snapshot is stored.
+
+ALTER TABLE public.transaction_history
+  DROP CONSTRAINT IF EXISTS transaction_history_activity_type_check,
+  DROP CONSTRAINT IF EXISTS transaction_history_action_check;
+
+ALTER TABLE public.transaction_history
+  ADD CONSTRAINT transaction_history_activity_type_check
+    CHECK (activity_type IN ('transaction', 'settlement', 'group')),
+  ADD CONSTRAINT transaction_history_action_check
+    CHECK (action IN ('created', 'updated', 'deleted', 'archived', 'restored'));
+
+ALTER TABLE public.transaction_history_archive
+  DROP CONSTRAINT IF EXISTS transaction_history_activity_type_check,
+  DROP CONSTRAINT IF EXISTS transaction_history_action_check;
+
+ALTER TABLE public.transaction_history_archive
+  ADD CONSTRAINT transaction_history_activity_type_check
+    CHECK (activity_type IN ('transaction', 'settlement', 'group')),
+  ADD CONSTRAINT transaction_history_action_check
+    CHECK (action IN ('created', 'updated', 'deleted', 'archived', 'restored'));
+
+CREATE OR REPLACE FUNCTION public.track_group_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_data JSONB := to_jsonb(OLD);
+  new_data JSONB := to_jsonb(NEW);
+  diff JSONB := '{}'::JSONB;
+  field TEXT;
+  v_action VARCHAR(20);
+BEGIN
+  FOR field IN SELECT jsonb_object_keys(new_data) LOOP
+    IF field NOT IN ('id', 'created_by', 'created_at', 'updated_at', 'archived_by')
+       AND old_data->field IS DISTINCT FROM new_data->field THEN
+      diff := diff || jsonb_build_object(
+        field,
+        jsonb_build_object('old', old_data->field, 'new', new_data->field)
+      );
+    END IF;
+  END LOOP;
+
+  IF diff = '{}'::JSONB THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.archived_at IS NULL AND NEW.archived_at IS NOT NULL THEN
+    v_action := 'archived';
+  ELSIF OLD.archived_at IS NOT NULL AND NEW.archived_at IS NULL THEN
+    v_action := 'restored';
+  ELSE
+    v_action := 'updated';
+  END IF;
+
+  INSERT INTO public.transaction_history (
+    activity_type,
+    group_id,
+    action,
+    changed_by,
+    changes,
+    snapshot
+  ) VALUES (
+    'group',
+    NEW.id,
+    v_action,
+    COALESCE(auth.uid(), NEW.archived_by, NEW.created_by),
+    jsonb_build_object('action', v_action, 'diff', diff, 'group_id', NEW.id),
+    jsonb_build_object('group', new_data)
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS group_history_trigger ON public.groups;
+CREATE TRIGGER group_history_trigger
+AFTER UPDATE ON public.groups
+FOR EACH ROW
+EXECUTE FUNCTION public.track_group_changes();
+
+-- ============================================================================
+-- 4. RPC: update_group_settings
+-- ============================================================================
+-- The groups UPDATE policy is owner-only, hence SECURITY DEFINER. Only keys
+-- present in p_changes are updated, so fields can be cleared with null.
+-- Values are validated by the groups edge function.
+
+CREATE OR REPLACE FUNCTION public.update_group_settings(
+  p_group_id UUID,
+  p_changes JSONB
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  current_user_id UUID;
+BEGIN
+  current_user_id := auth.uid();
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.group_members
+    WHERE group_id = p_group_id
+      AND user_id = current_user_id
+      AND status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'You must be an active member of the group to change its settings';
+  END IF;
+
+  UPDATE public.groups
+  SET name = CASE WHEN p_changes ? 'name' THEN p_changes->>'name' ELSE name END,
+      description = CASE WHEN p_changes ? 'description' THEN p_changes->>'description' ELSE description END,
+      default_currency = CASE WHEN p_changes ? 'default_currency' THEN UPPER(p_changes->>'default_currency') ELSE default_currency END,
+      settlement_currency = CASE WHEN p_changes ? 'settlement_currency' THEN UPPER(p_changes->>'settlement_currency') ELSE settlement_currency END,
+      emoji = CASE WHEN p_changes ? 'emoji' THEN p_changes->>'emoji' ELSE emoji END,
+      cover_color = CASE WHEN p_changes ? 'cover_color' THEN p_changes->>'cover_color' ELSE cover_color END,
+      updated_at = NOW()
+  WHERE id = p_group_id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.update_group_settings(UUID, JSONB) TO authenticated;
+
+-- ============================================================================
+-- 5. RPC: set_group_archived
+-- ============================================================================
+-- Archiving pauses the group's recurring series so nothing is added to it
+-- while it is archived. Restoring leaves them paused.
+
+CREATE OR REPLACE FUNCTION public.set_group_archived(
+  p_group_id UUID,
+  p_archived BOOLEAN
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  current_user_id UUID;
+BEGIN
+  current_user_id := auth.uid();
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.group_members
+    WHERE group_id = p_group_id
+      AND user_id = current_user_id
+      AND status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'You must be an active member of the group to archive or restore it';
+  END IF;
+
+  IF p_archived THEN
+    UPDATE public.recurring_transactions
+    SET status = 'paused'
+    WHERE group_id = p_group_id
+      AND status = 'active';
+
+    UPDATE public.groups
+    SET archived_at = NOW(),
+        archived_by = current_user_id,
+        updated_at = NOW()
+    WHERE id = p_group_id
+      AND archived_at IS NULL;
+  ELSE
+    UPDATE public.groups
+    SET archived_at = NULL,
+        archived_by = NULL,
+        updated_at = NOW()
+    WHERE id = p_group_id
+      AND archived_at IS NOT NULL;
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.set_group_archived(UUID, BOOLEAN) TO authenticated;
+
+COMMIT;
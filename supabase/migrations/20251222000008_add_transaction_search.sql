@@ -0,0 +1,113 @@
+-- Transaction Search: cursor pagination and server-side filters
+-- Created: 2025-12-22
+--
+-- GET /transactions used to fetch the latest 200 rows and then hide, in
+-- memory, the transactions a former member isn't part of, so older history
+-- could go missing. search_transactions() applies that visibility rule and
+-- the list filters in SQL. The edge function embeds splits, payers, items
+-- and attachments on its result and pages through it by (date, id).
+
+BEGIN;
+
+-- ============================================================================
+-- 1. INDEXES
+-- ============================================================================
+
+-- Keyset pagination orders a group's transactions by date, then id
+CREATE INDEX IF NOT EXISTS idx_transactions_group_date_id
+  ON public.transactions(group_id, date DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_transactions_category
+  ON public.transactions(group_id, category);
+
+-- ============================================================================
+-- 2. transaction_involves_participant
+-- ============================================================================
+
+-- True when the participant paid for (or shares in) the transaction
+CREATE OR REPLACE FUNCTION public.transaction_involves_participant(
+  p_transaction_id INTEGER,
+  p_participant_id UUID
+)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.transactions t
+    WHERE t.id = p_transaction_id AND t.paid_by_participant_id = p_participant_id
+  )
+  OR EXISTS (
+    SELECT 1 FROM public.transaction_payers tp
+    WHERE tp.transaction_id = p_transaction_id AND tp.participant_id = p_participant_id
+  )
+  OR EXISTS (
+    SELECT 1 FROM public.transaction_splits ts
+    WHERE ts.transaction_id = p_transaction_id AND ts.participant_id = p_participant_id
+  );
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.transaction_involves_participant(INTEGER, UUID) TO authenticated;
+
+-- ============================================================================
+-- 3. search_transactions
+-- ============================================================================
+
+-- Runs as the caller, so RLS still decides which groups are visible. On top
+-- of that, former members only see transactions they are involved in.
+-- Results are unordered; callers order by date DESC, id DESC and pass the
+-- last row seen as p_before_date / p_before_id to get the next page.
+CREATE OR REPLACE FUNCTION public.search_transactions(
+  p_group_id UUID DEFAULT NULL,
+  p_before_date DATE DEFAULT NULL,
+  p_before_id INTEGER DEFAULT NULL,
+  p_from_date DATE DEFAULT NULL,
+  p_to_date DATE DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_type TEXT DEFAULT NULL,
+  p_payer_participant_id UUID DEFAULT NULL,
+  p_involved_participant_id UUID DEFAULT NULL,
+  p_min_amount NUMERIC DEFAULT NULL,
+  p_max_amount NUMERIC DEFAULT NULL,
+  p_search TEXT DEFAULT NULL
+)
+RETURNS SETOF public.transactions AS $$
+  SELECT t.*
+  FROM public.transactions t
+  WHERE (p_group_id IS NULL OR t.group_id = p_group_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.participants me
+      WHERE me.group_id = t.group_id
+        AND me.user_id = auth.uid()
+        AND me.type = 'former'
+        AND NOT public.transaction_involves_participant(t.id, me.id)
+    )
+    AND (p_before_date IS NULL OR (t.date, t.id) < (p_before_date, p_before_id))
+    AND (p_from_date IS NULL OR t.date >= p_from_date)
+    AND (p_to_date IS NULL OR t.date <= p_to_date)
+    AND (p_category IS NULL OR t.category = p_category)
+    AND (p_type IS NULL OR t.type = p_type)
+    AND (
+      p_payer_participant_id IS NULL
+      OR t.paid_by_participant_id = p_payer_participant_id
+      OR EXISTS (
+        SELECT 1 FROM public.transaction_payers tp
+        WHERE tp.transaction_id = t.id AND tp.participant_id = p_payer_participant_id
+      )
+    )
+    AND (
+      p_involved_participant_id IS NULL
+      OR public.transaction_involves_participant(t.id, p_involved_participant_id)
+    )
+    AND (p_min_amount IS NULL OR t.amount >= p_min_amount)
+    AND (p_max_amount IS NULL OR t.amount <= p_max_amount)
+    AND (
+      p_search IS NULL
+      OR t.description ILIKE '%' || replace(replace(replace(p_search, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    );
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.search_transactions(
+  UUID, DATE, INTEGER, DATE, DATE, TEXT, TEXT, UUID, UUID, NUMERIC, NUMERIC, TEXT
+) TO authenticated;
+
+COMMENT ON FUNCTION public.search_transactions IS 'Transactions visible to the caller matching the list filters. Former members only get the ones they are part of.';
+
+COMMIT;
@@ -0,0 +1,328 @@
+-- Group Categories: per-group categories with icons and colors
+-- Created: 2025-12-22
+--
+-- Transaction categories used to be free text, so one group could end up
+-- with "Food", "food" and "Restaurant" as three different categories. Each
+-- group now has its own list of categories (name, icon, color), seeded with
+-- a default set when the group is created.
+--
+-- transactions.category_id links an expense to its category. The category
+-- name is still copied into transactions.category when a transaction is
+-- saved, and free text sent by older clients, imports or recurring series is
+-- matched to a category by name (case-insensitive).
+--
+-- Existing free-text categories are normalized once: well-known spellings
+-- map to a default category, anything else becomes a custom category.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. group_categories TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.group_categories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id UUID NOT NULL REFERENCES public.groups(id) ON DELETE CASCADE,
+  name VARCHAR(50) NOT NULL CHECK (length(trim(name)) > 0),
+  icon VARCHAR(64) NOT NULL DEFAULT 'tag',
+  color VARCHAR(7) NOT NULL DEFAULT '#607D8B' CHECK (color ~ '^#[0-9A-Fa-f]{6}$'),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_group_categories_group_name
+  ON public.group_categories(group_id, lower(name));
+
+ALTER TABLE public.group_categories ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Group members can view categories" ON public.group_categories;
+CREATE POLICY "Group members can view categories"
+  ON public.group_categories
+  FOR SELECT
+  USING (is_user_group_member(group_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Group members can create categories" ON public.group_categories;
+CREATE POLICY "Group members can create categories"
+  ON public.group_categories
+  FOR INSERT
+  WITH CHECK (is_user_group_member(group_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Group members can update categories" ON public.group_categories;
+CREATE POLICY "Group members can update categories"
+  ON public.group_categories
+  FOR UPDATE
+  USING (is_user_group_member(group_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Group members can delete categories" ON public.group_categories;
+CREATE POLICY "Group members can delete categories"
+  ON public.group_categories
+  FOR DELETE
+  USING (is_user_group_member(group_id, auth.uid()));
+
+DROP TRIGGER IF EXISTS trg_group_categories_archived_group ON public.group_categories;
+CREATE TRIGGER trg_group_categories_archived_group
+BEFORE INSERT OR UPDATE OR DELETE ON public.group_categories
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_archived_group_changes();
+
+COMMENT ON TABLE public.group_categories IS 'Expense categories of a group, seeded from a default set';
+COMMENT ON COLUMN public.group_categories.icon IS 'MaterialCommunityIcons name';
+COMMENT ON COLUMN public.group_categories.position IS 'Sort order in the category picker';
+
+-- ============================================================================
+-- 2. transactions.category_id
+-- ============================================================================
+
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS category_id UUID REFERENCES public.group_categories(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_category_id
+  ON public.transactions(category_id);
+
+COMMENT ON COLUMN public.transactions.category_id IS
+  'Category of the transaction. category holds its name as of the last save.';
+
+-- ============================================================================
+-- 3. DEFAULT CATEGORIES
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.seed_group_categories(p_group_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO public.group_categories (group_id, name, icon, color, position)
+  SELECT p_group_id, d.name, d.icon, d.color, d.position
+  FROM (VALUES
+    ('General', 'receipt', '#607D8B', 0),
+    ('Food & Drink', 'food', '#FF9800', 1),
+    ('Groceries', 'cart', '#4CAF50', 2),
+    ('Transport', 'taxi', '#2196F3', 3),
+    ('Travel', 'airplane', '#009688', 4),
+    ('Housing', 'home', '#795548', 5),
+    ('Utilities', 'lightning-bolt', '#FFC107', 6),
+    ('Entertainment', 'movie', '#9C27B0', 7),
+    ('Shopping', 'shopping', '#F44336', 8),
+    ('Health', 'medical-bag', '#3F51B5', 9)
+  ) AS d(name, icon, color, position)
+  ON CONFLICT DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.seed_new_group_categories()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.seed_group_categories(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_seed_group_categories ON public.groups;
+CREATE TRIGGER trg_seed_group_categories
+AFTER INSERT ON public.groups
+FOR EACH ROW
+EXECUTE FUNCTION public.seed_new_group_categories();
+
+-- ============================================================================
+-- 4. RESOLVE CATEGORIES ON SAVE
+-- ============================================================================
+
+-- category_id wins when it is set; otherwise free text is matched by name.
+-- Text that matches no category is kept as is, uncategorized.
+CREATE OR REPLACE FUNCTION public.resolve_transaction_category()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_category RECORD;
+BEGIN
+  -- Only the text changed (e.g. an older client editing the category)
+  IF TG_OP = 'UPDATE'
+    AND NEW.category_id IS NOT DISTINCT FROM OLD.category_id
+    AND NEW.category IS DISTINCT FROM OLD.category THEN
+    NEW.category_id := NULL;
+  END IF;
+
+  IF NEW.category_id IS NOT NULL THEN
+    SELECT id, name INTO v_category
+    FROM public.group_categories
+    WHERE id = NEW.category_id
+      AND group_id = NEW.group_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Category does not belong to this group'
+        USING ERRCODE = 'foreign_key_violation';
+    END IF;
+    NEW.category := v_category.name;
+  ELSIF NEW.category IS NOT NULL AND trim(NEW.category) <> '' THEN
+    SELECT id, name INTO v_category
+    FROM public.group_categories
+    WHERE group_id = NEW.group_id
+      AND lower(name) = lower(trim(NEW.category));
+
+    IF FOUND THEN
+      NEW.category_id := v_category.id;
+      NEW.category := v_category.name;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_resolve_transaction_category ON public.transactions;
+CREATE TRIGGER trg_resolve_transaction_category
+BEFORE INSERT OR UPDATE OF category, category_id ON public.transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.resolve_transaction_category();
+
+-- ============================================================================
+-- 5. NORMALIZE EXISTING CATEGORIES
+-- ============================================================================
+
+-- A one-time clean-up, not a user edit: it stays out of the activity feed
+-- and also applies to archived groups
+ALTER TABLE public.transactions DISABLE TRIGGER transaction_history_trigger;
+ALTER TABLE public.transactions DISABLE TRIGGER trg_transactions_archived_group;
+ALTER TABLE public.recurring_transactions DISABLE TRIGGER trg_recurring_transactions_archived_group;
+ALTER TABLE public.group_categories DISABLE TRIGGER trg_group_categories_archived_group;
+
+DO $$
+DECLARE
+  v_group RECORD;
+BEGIN
+  FOR v_group IN SELECT id FROM public.groups LOOP
+    PERFORM public.seed_group_categories(v_group.id);
+  END LOOP;
+END;
+$$;
+
+CREATE TEMP TABLE category_synonyms (synonym TEXT PRIMARY KEY, name TEXT NOT NULL) ON COMMIT DROP;
+INSERT INTO category_synonyms (synonym, name) VALUES
+  ('other', 'General'), ('misc', 'General'), ('miscellaneous', 'General'),
+  ('food', 'Food & Drink'), ('food and drink', 'Food & Drink'), ('restaurant', 'Food & Drink'),
+  ('restaurants', 'Food & Drink'), ('dining', 'Food & Drink'), ('eating out', 'Food & Drink'),
+  ('drinks', 'Food & Drink'), ('bar', 'Food & Drink'), ('coffee', 'Food & Drink'),
+  ('breakfast', 'Food & Drink'), ('lunch', 'Food & Drink'), ('dinner', 'Food & Drink'),
+  ('grocery', 'Groceries'), ('supermarket', 'Groceries'), ('market', 'Groceries'),
+  ('transportation', 'Transport'), ('taxi', 'Transport'), ('uber', 'Transport'),
+  ('fuel', 'Transport'), ('gas', 'Transport'), ('parking', 'Transport'),
+  ('bus', 'Transport'), ('train', 'Transport'),
+  ('flight', 'Travel'), ('flights', 'Travel'), ('hotel', 'Travel'), ('trip', 'Travel'),
+  ('rent', 'Housing'), ('home', 'Housing'), ('household', 'Housing'),
+  ('utility', 'Utilities'), ('electricity', 'Utilities'), ('water', 'Utilities'),
+  ('internet', 'Utilities'), ('phone', 'Utilities'), ('bills', 'Utilities'),
+  ('movie', 'Entertainment'), ('movies', 'Entertainment'), ('games', 'Entertainment'),
+  ('fun', 'Entertainment'),
+  ('clothes', 'Shopping'), ('clothing', 'Shopping'), ('gifts', 'Shopping'),
+  ('medical', 'Health'), ('pharmacy', 'Health'), ('doctor', 'Health'), ('fitness', 'Health');
+
+-- Spellings that match neither a category nor a synonym become custom categories
+INSERT INTO public.group_categories (group_id, name, position)
+SELECT DISTINCT ON (t.group_id, lower(trim(t.category)))
+  t.group_id,
+  left(initcap(trim(t.category)), 50),
+  100
+FROM (
+  SELECT group_id, category FROM public.transactions
+  UNION ALL
+  SELECT group_id, category FROM public.recurring_transactions
+) t
+WHERE t.group_id IS NOT NULL
+  AND t.category IS NOT NULL
+  AND trim(t.category) <> ''
+  AND NOT EXISTS (SELECT 1 FROM category_synonyms s WHERE s.synonym = lower(trim(t.category)))
+ORDER BY t.group_id, lower(trim(t.category))
+ON CONFLICT DO NOTHING;
+
+UPDATE public.transactions t
+SET category_id = c.id,
+    category = c.name
+FROM public.group_categories c
+WHERE c.group_id = t.group_id
+  AND t.category IS NOT NULL
+  AND lower(c.name) = COALESCE(
+    (SELECT lower(s.name) FROM category_synonyms s WHERE s.synonym = lower(trim(t.category))),
+    lower(trim(t.category))
+  );
+
+UPDATE public.recurring_transactions r
+SET category = c.name
+FROM public.group_categories c
+WHERE c.group_id = r.group_id
+  AND r.category IS NOT NULL
+  AND lower(c.name) = COALESCE(
+    (SELECT lower(s.name) FROM category_synonyms s WHERE s.synonym = lower(trim(r.category))),
+    lower(trim(r.category))
+  );
+
+ALTER TABLE public.transactions ENABLE TRIGGER transaction_history_trigger;
+ALTER TABLE public.transactions ENABLE TRIGGER trg_transactions_archived_group;
+ALTER TABLE public.recurring_transactions ENABLE TRIGGER trg_recurring_transactions_archived_group;
+ALTER TABLE public.group_categories ENABLE TRIGGER trg_group_categories_archived_group;
+
+-- ============================================================================
+-- 6. search_transactions: filter by category_id
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.search_transactions(
+  UUID, DATE, INTEGER, DATE, DATE, TEXT, TEXT, UUID, UUID, NUMERIC, NUMERIC, TEXT
+);
+
+CREATE OR REPLACE FUNCTION public.search_transactions(
+  p_group_id UUID DEFAULT NULL,
+  p_before_date DATE DEFAULT NULL,
+  p_before_id INTEGER DEFAULT NULL,
+  p_from_date DATE DEFAULT NULL,
+  p_to_date DATE DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_category_id UUID DEFAULT NULL,
+  p_type TEXT DEFAULT NULL,
+  p_payer_participant_id UUID DEFAULT NULL,
+  p_involved_participant_id UUID DEFAULT NULL,
+  p_min_amount NUMERIC DEFAULT NULL,
+  p_max_amount NUMERIC DEFAULT NULL,
+  p_search TEXT DEFAULT NULL
+)
+RETURNS SETOF public.transactions AS $$
+  SELECT t.*
+  FROM public.transactions t
+  WHERE (p_group_id IS NULL OR t.group_id = p_group_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.participants me
+      WHERE me.group_id = t.group_id
+        AND me.user_id = auth.uid()
+        AND me.type = 'former'
+        AND NOT public.transaction_involves_participant(t.id, me.id)
+    )
+    AND (p_before_date IS NULL OR (t.date, t.id) < (p_before_date, p_before_id))
+    AND (p_from_date IS NULL OR t.date >= p_from_date)
+    AND (p_to_date IS NULL OR t.date <= p_to_date)
+    AND (p_category IS NULL OR lower(t.category) = lower(p_category))
+    AND (p_category_id IS NULL OR t.category_id = p_category_id)
+    AND (p_type IS NULL OR t.type = p_type)
+    AND (
+      p_payer_participant_id IS NULL
+      OR t.paid_by_participant_id = p_payer_participant_id
+      OR EXISTS (
+        SELECT 1 FROM public.transaction_payers tp
+        WHERE tp.transaction_id = t.id AND tp.participant_id = p_payer_participant_id
+      )
+    )
+    AND (
+      p_involved_participant_id IS NULL
+      OR public.transaction_involves_participant(t.id, p_involved_participant_id)
+    )
+    AND (p_min_amount IS NULL OR t.amount >= p_min_amount)
+    AND (p_max_amount IS NULL OR t.amount <= p_max_amount)
+    AND (
+      p_search IS NULL
+      OR t.description ILIKE '%' || replace(replace(replace(p_search, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    );
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.search_transactions(
+  UUID, DATE, INTEGER, DATE, DATE, TEXT, UUID, TEXT, UUID, UUID, NUMERIC, NUMERIC, TEXT
+) TO authenticated;
+
+COMMENT ON FUNCTION public.search_transactions IS 'Transactions visible to the caller matching the list filters. Former members only get the ones they are part of.';
+
+COMMIT;
@@ -0,0 +1,123 @@
+-- Group Budgets: spending limits per group, category and period
+-- Created: 2025-12-22
+--
+-- A budget caps a group's expenses in one currency, either for the whole
+-- life of the group ('total', e.g. a trip) or per calendar month
+-- ('monthly'). A budget with a category only counts that category's
+-- expenses; without one it counts every expense of the group.
+--
+-- Spending is computed from transactions on read (get_group_budget_spending),
+-- so budgets never drift from the ledger.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. group_budgets TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.group_budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id UUID NOT NULL REFERENCES public.groups(id) ON DELETE CASCADE,
+  category_id UUID REFERENCES public.group_categories(id) ON DELETE CASCADE,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  currency VARCHAR(3) NOT NULL,
+  period VARCHAR(10) NOT NULL CHECK (period IN ('total', 'monthly')),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One budget per group, category (or none), period and currency
+CREATE UNIQUE INDEX IF NOT EXISTS idx_group_budgets_scope
+  ON public.group_budgets(
+    group_id,
+    COALESCE(category_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    period,
+    currency
+  );
+
+ALTER TABLE public.group_budgets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Group members can view budgets" ON public.group_budgets;
+CREATE POLICY "Group members can view budgets"
+  ON public.group_budgets
+  FOR SELECT
+  USING (is_user_group_member(group_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Group members can create budgets" ON public.group_budgets;
+CREATE POLICY "Group members can create budgets"
+  ON public.group_budgets
+  FOR INSERT
+  WITH CHECK (is_user_group_member(group_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Group members can update budgets" ON public.group_budgets;
+CREATE POLICY "Group members can update budgets"
+  ON public.group_budgets
+  FOR UPDATE
+  USING (is_user_group_member(group_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Group members can delete budgets" ON public.group_budgets;
+CREATE POLICY "Group members can delete budgets"
+  ON public.group_budgets
+  FOR DELETE
+  USING (is_user_group_member(group_id, auth.uid()));
+
+DROP TRIGGER IF EXISTS trg_group_budgets_archived_group ON public.group_budgets;
+CREATE TRIGGER trg_group_budgets_archived_group
+BEFORE INSERT OR UPDATE OR DELETE ON public.group_budgets
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_archived_group_changes();
+
+COMMENT ON TABLE public.group_budgets IS 'Spending limits of a group, optionally for one category';
+COMMENT ON COLUMN public.group_budgets.category_id IS 'NULL budgets count every expense of the group';
+COMMENT ON COLUMN public.group_budgets.period IS 'total (whole group) or monthly (calendar month)';
+
+-- ============================================================================
+-- 2. RPC: get_group_budget_spending
+-- ============================================================================
+-- Spending of every budget of a group in the period containing p_as_of.
+-- Only expenses in the budget's currency count.
+
+CREATE OR REPLACE FUNCTION public.get_group_budget_spending(
+  p_group_id UUID,
+  p_as_of DATE DEFAULT CURRENT_DATE
+)
+RETURNS TABLE (
+  budget_id UUID,
+  spent NUMERIC,
+  period_start DATE,
+  period_end DATE
+) AS $$
+  WITH periods AS (
+    SELECT
+      b.*,
+      CASE WHEN b.period = 'monthly'
+        THEN date_trunc('month', p_as_of)::date
+      END AS start_date,
+      CASE WHEN b.period = 'monthly'
+        THEN (date_trunc('month', p_as_of) + INTERVAL '1 month - 1 day')::date
+      END AS end_date
+    FROM public.group_budgets b
+    WHERE b.group_id = p_group_id
+  )
+  SELECT
+    p.id,
+    COALESCE(SUM(t.amount), 0),
+    p.start_date,
+    p.end_date
+  FROM periods p
+  LEFT JOIN public.transactions t
+    ON t.group_id = p.group_id
+    AND t.type = 'expense'
+    AND t.currency = p.currency
+    AND (p.category_id IS NULL OR t.category_id = p.category_id)
+    AND (p.start_date IS NULL OR t.date >= p.start_date)
+    AND (p.end_date IS NULL OR t.date <= p.end_date)
+  GROUP BY p.id, p.start_date, p.end_date;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.get_group_budget_spending(UUID, DATE) TO authenticated;
+
+COMMENT ON FUNCTION public.get_group_budget_spending IS 'Amount spent against each budget of a group in the period containing p_as_of';
+
+COMMIT;
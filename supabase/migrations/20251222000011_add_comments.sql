@@ -0,0 +1,293 @@
+-- Comments: discussion threads on transactions and settlements
+-- Created: 2025-12-22
+--
+-- Group members can comment on any expense or settlement of the group, e.g.
+-- to question an amount. A comment can mention participants; their ids are
+-- stored in mentioned_participant_ids.
+--
+-- New comments are recorded in transaction_history (activity_type 'comment')
+-- so they show up in the group's activity feed.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. comments TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id UUID NOT NULL REFERENCES public.groups(id) ON DELETE CASCADE,
+  transaction_id INTEGER REFERENCES public.transactions(id) ON DELETE CASCADE,
+  settlement_id UUID REFERENCES public.settlements(id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0 AND length(body) <= 2000),
+  mentioned_participant_ids UUID[] NOT NULL DEFAULT '{}',
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  edited_at TIMESTAMP WITH TIME ZONE,
+  -- A comment belongs to exactly one transaction or settlement
+  CHECK ((transaction_id IS NOT NULL) <> (settlement_id IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_comments_transaction_id
+  ON public.comments(transaction_id, created_at)
+  WHERE transaction_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_comments_settlement_id
+  ON public.comments(settlement_id, created_at)
+  WHERE settlement_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_comments_group_id
+  ON public.comments(group_id);
+
+ALTER TABLE public.comments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Group members can view comments" ON public.comments;
+CREATE POLICY "Group members can view comments"
+  ON public.comments
+  FOR SELECT
+  USING (is_user_group_member(group_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Group members can add comments" ON public.comments;
+CREATE POLICY "Group members can add comments"
+  ON public.comments
+  FOR INSERT
+  WITH CHECK (
+    created_by = auth.uid()
+    AND is_user_group_member(group_id, auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Authors can edit their comments" ON public.comments;
+CREATE POLICY "Authors can edit their comments"
+  ON public.comments
+  FOR UPDATE
+  USING (created_by = auth.uid() AND is_user_group_member(group_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Authors can delete their comments" ON public.comments;
+CREATE POLICY "Authors can delete their comments"
+  ON public.comments
+  FOR DELETE
+  USING (created_by = auth.uid() AND is_user_group_member(group_id, auth.uid()));
+
+COMMENT ON TABLE public.comments IS 'Discussion threads on transactions and settlements';
+COMMENT ON COLUMN public.comments.mentioned_participant_ids IS 'Participants mentioned (@name) in the comment';
+COMMENT ON COLUMN public.comments.edited_at IS 'Set when the author edits the comment';
+
+-- ============================================================================
+-- 2. group_id FOLLOWS THE COMMENTED ITEM
+-- ============================================================================
+-- group_id is copied from the transaction or settlement so RLS cannot be
+-- bypassed by sending another group's id.
+
+CREATE OR REPLACE FUNCTION public.set_comment_group_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.transaction_id IS NOT NULL THEN
+    SELECT group_id INTO NEW.group_id
+    FROM public.transactions
+    WHERE id = NEW.transaction_id;
+  ELSE
+    SELECT group_id INTO NEW.group_id
+    FROM public.settlements
+    WHERE id = NEW.settlement_id;
+  END IF;
+
+  IF NEW.group_id IS NULL THEN
+    RAISE EXCEPTION 'Only group transactions and settlements can have comments'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_set_comment_group_id ON public.comments;
+CREATE TRIGGER trg_set_comment_group_id
+BEFORE INSERT ON public.comments
+FOR EACH ROW
+EXECUTE FUNCTION public.set_comment_group_id();
+
+DROP TRIGGER IF EXISTS trg_comments_archived_group ON public.comments;
+CREATE TRIGGER trg_comments_archived_group
+BEFORE INSERT OR UPDATE OR DELETE ON public.comments
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_archived_group_changes();
+
+-- ============================================================================
+-- 3. COMMENT ACTIVITY IN transaction_history
+-- ============================================================================
+
+ALTER TABLE public.transaction_history
+  DROP CONSTRAINT IF EXISTS transaction_history_activity_type_check;
+
+ALTER TABLE public.transaction_history
+  ADD CONSTRAINT transaction_history_activity_type_check
+    CHECK (activity_type IN ('transaction', 'settlement', 'group', 'comment'));
+
+ALTER TABLE public.transaction_history_archive
+  DROP CONSTRAINT IF EXISTS transaction_history_activity_type_check;
+
+ALTER TABLE public.transaction_history_archive
+  ADD CONSTRAINT transaction_history_activity_type_check
+    CHECK (activity_type IN ('transaction', 'settlement', 'group', 'comment'));
+
+-- The snapshot keeps the commented item so the feed can name it after it
+-- has been deleted
+CREATE OR REPLACE FUNCTION public.track_comment_created()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_item JSONB;
+BEGIN
+  IF NEW.transaction_id IS NOT NULL THEN
+    SELECT jsonb_build_object('transaction', to_jsonb(t))
+    INTO v_item
+    FROM public.transactions t
+    WHERE t.id = NEW.transaction_id;
+  ELSE
+    SELECT jsonb_build_object('settlement', to_jsonb(s))
+    INTO v_item
+    FROM public.settlements s
+    WHERE s.id = NEW.settlement_id;
+  END IF;
+
+  INSERT INTO public.transaction_history (
+    transaction_id,
+    settlement_id,
+    activity_type,
+    group_id,
+    action,
+    changed_by,
+    changes,
+    snapshot
+  ) VALUES (
+    NEW.transaction_id,
+    NEW.settlement_id,
+    'comment',
+    NEW.group_id,
+    'created',
+    COALESCE(NEW.created_by, auth.uid()),
+    jsonb_build_object('action', 'created', 'comment', to_jsonb(NEW)),
+    COALESCE(v_item, '{}'::JSONB) || jsonb_build_object('comment', to_jsonb(NEW))
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS comment_history_trigger ON public.comments;
+CREATE TRIGGER comment_history_trigger
+AFTER INSERT ON public.comments
+FOR EACH ROW
+EXECUTE FUNCTION public.track_comment_created();
+
+-- ============================================================================
+-- 4. Keep mentions when an invited participant is merged
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.sync_participant_state(
+  p_group_id UUID,
+  p_user_id UUID DEFAULT NULL,
+  p_email TEXT DEFAULT NULL,
+  p_role TEXT DEFAULT 'member',
+  p_target_type TEXT DEFAULT 'member'
+)
+RETURNS UUID AS $$
+DECLARE
+  v_participant_id UUID;
+  v_normalized_email TEXT;
+  v_old_participant_id UUID;
+BEGIN
+  v_normalized_email := LOWER(TRIM(p_email));
+
+  -- 1. If user_id is provided, prioritize it.
+  IF p_user_id IS NOT NULL THEN
+    INSERT INTO public.participants (group_id, user_id, email, type, role, joined_at)
+    VALUES (
+      p_group_id, 
+      p_user_id, 
+      NULL, -- Explicitly clear email when linked to user_id
+      p_target_type, 
+      p_role, 
+      CASE WHEN p_target_type = 'member' THEN CURRENT_TIMESTAMP ELSE NULL END
+    )
+    ON CONFLICT (group_id, user_id)
+    DO UPDATE SET
+      email = NULL, -- Ensure email is cleared on update too
+      type = EXCLUDED.type,
+      role = COALESCE(p_role, participants.role),
+      left_at = CASE WHEN EXCLUDED.type = 'former' THEN CURRENT_TIMESTAMP ELSE participants.left_at END,
+      joined_at = COALESCE(participants.joined_at, EXCLUDED.joined_at),
+      updated_at = CURRENT_TIMESTAMP
+    RETURNING id INTO v_participant_id;
+
+    -- Cleanup: If there was a participant record for this email that isn't linked to a user yet,
+    -- and we just linked the user, we should ideally merge them.
+    IF v_normalized_email IS NOT NULL THEN
+      -- Safety: Move any transaction splits from the old email participant to the new user participant
+      UPDATE public.transaction_splits
+      SET participant_id = v_participant_id
+      WHERE participant_id IN (
+        SELECT id FROM public.participants 
+        WHERE group_id = p_group_id AND LOWER(email) = v_normalized_email AND user_id IS NULL
+      );
+
+      -- Same for transaction payers
+      UPDATE public.transaction_payers
+      SET participant_id = v_participant_id
+      WHERE participant_id IN (
+        SELECT id FROM public.participants 
+        WHERE group_id = p_group_id AND LOWER(email) = v_normalized_email AND user_id IS NULL
+      );
+
+      -- Same for recurring expense series (payer, split list and split values),
+      -- itemized receipt items and comment mentions
+      SELECT id INTO v_old_participant_id
+      FROM public.participants
+      WHERE group_id = p_group_id AND LOWER(email) = v_normalized_email AND user_id IS NULL;
+
+      IF v_old_participant_id IS NOT NULL THEN
+        UPDATE public.recurring_transactions
+        SET paid_by_participant_id = v_participant_id
+        WHERE paid_by_participant_id = v_old_participant_id;
+
+        UPDATE public.recurring_transactions
+        SET split_among_participant_ids = array_replace(split_among_participant_ids, v_old_participant_id, v_participant_id),
+            split_values = REPLACE(split_values::TEXT, v_old_participant_id::TEXT, v_participant_id::TEXT)::JSONB
+        WHERE v_old_participant_id = ANY(split_among_participant_ids);
+
+        UPDATE public.transaction_items
+        SET participant_ids = array_replace(participant_ids, v_old_participant_id, v_participant_id)
+        WHERE v_old_participant_id = ANY(participant_ids);
+
+        UPDATE public.comments
+        SET mentioned_participant_ids = array_replace(mentioned_participant_ids, v_old_participant_id, v_participant_id)
+        WHERE v_old_participant_id = ANY(mentioned_participant_ids);
+      END IF;
+
+      -- Now it's safe to delete the old participant record
+      DELETE FROM public.participants 
+      WHERE group_id = p_group_id AND LOWER(email) = v_normalized_email AND user_id IS NULL;
+    END IF;
+
+    RETURN v_participant_id;
+  END IF;
+
+  -- 2. If no user_id, use email.
+  IF v_normalized_email IS NOT NULL THEN
+    INSERT INTO public.participants (group_id, email, type, role)
+    VALUES (p_group_id, v_normalized_email, p_target_type, p_role)
+    ON CONFLICT (group_id, email)
+    DO UPDATE SET
+      type = EXCLUDED.type,
+      role = COALESCE(p_role, participants.role),
+      updated_at = CURRENT_TIMESTAMP
+    RETURNING id INTO v_participant_id;
+
+    RETURN v_participant_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMIT;
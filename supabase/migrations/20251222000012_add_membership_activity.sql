@@ -0,0 +1,198 @@
+-- Membership Activity
+-- Created: 2025-12-22
+--
+-- group_activity already records members being added and invitations being
+-- created, cancelled and accepted, but members leave, get removed and get
+-- re-added by updating group_members.status, which was never logged.
+--
+-- The member trigger now logs status changes too:
+-- - active -> left by the member themselves: 'member_left'
+-- - active -> left by someone else (remove_group_member): 'member_removed'
+-- - left -> active (re-added, or a former member accepting an invitation):
+--   'member_reactivated'
+--
+-- group_activity becomes readable by group members so the activity feed can
+-- show these events. Rows are only written by the triggers below.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. ACTIONS
+-- ============================================================================
+
+ALTER TABLE public.group_activity
+  DROP CONSTRAINT IF EXISTS group_activity_action_check;
+
+ALTER TABLE public.group_activity
+  ADD CONSTRAINT group_activity_action_check
+    CHECK (action IN (
+      'member_added',
+      'member_left',
+      'member_removed',
+      'member_reactivated',
+      'invite_created',
+      'invite_cancelled',
+      'invite_accepted'
+    ));
+
+-- ============================================================================
+-- 2. RLS
+-- ============================================================================
+
+ALTER TABLE public.group_activity ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Group members can view group activity" ON public.group_activity;
+CREATE POLICY "Group members can view group activity"
+  ON public.group_activity
+  FOR SELECT
+  USING (is_user_group_member(group_id, auth.uid()));
+
+-- ============================================================================
+-- 3. MEMBER TRIGGER
+-- ============================================================================
+-- SECURITY DEFINER now that group_activity has RLS without an INSERT policy
+
+CREATE OR REPLACE FUNCTION public.log_group_member_activity()
+RETURNS TRIGGER AS $$
+DECLARE
+  actor UUID;
+  v_action TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.group_activity (
+      group_id,
+      actor_id,
+      target_user_id,
+      action,
+      metadata
+    ) VALUES (
+      NEW.group_id,
+      COALESCE(auth.uid(), NEW.user_id),
+      NEW.user_id,
+      'member_added',
+      jsonb_build_object('role', NEW.role)
+    );
+    RETURN NEW;
+  ELSIF TG_OP = 'UPDATE' THEN
+    IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+      RETURN NEW;
+    END IF;
+
+    actor := COALESCE(auth.uid(), NEW.user_id);
+
+    IF NEW.status = 'left' THEN
+      v_action := CASE WHEN actor = NEW.user_id THEN 'member_left' ELSE 'member_removed' END;
+    ELSIF NEW.status = 'active' THEN
+      v_action := 'member_reactivated';
+    ELSE
+      RETURN NEW;
+    END IF;
+
+    INSERT INTO public.group_activity (
+      group_id,
+      actor_id,
+      target_user_id,
+      action,
+      metadata
+    ) VALUES (
+      NEW.group_id,
+      actor,
+      NEW.user_id,
+      v_action,
+      jsonb_build_object('role', NEW.role, 'old_status', OLD.status, 'new_status', NEW.status)
+    );
+    RETURN NEW;
+  ELSIF TG_OP = 'DELETE' THEN
+    INSERT INTO public.group_activity (
+      group_id,
+      actor_id,
+      target_user_id,
+      action,
+      metadata
+    ) VALUES (
+      OLD.group_id,
+      COALESCE(auth.uid(), OLD.user_id),
+      OLD.user_id,
+      'member_removed',
+      jsonb_build_object('role', OLD.role)
+    );
+    RETURN OLD;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_group_members_activity ON public.group_members;
+CREATE TRIGGER trg_group_members_activity
+AFTER INSERT OR UPDATE OF status OR DELETE ON public.group_members
+FOR EACH ROW
+EXECUTE FUNCTION public.log_group_member_activity();
+
+-- ============================================================================
+-- 4. INVITATION TRIGGER
+-- ============================================================================
+-- Unchanged apart from SECURITY DEFINER (see above)
+
+CREATE OR REPLACE FUNCTION public.log_group_invitation_activity()
+RETURNS TRIGGER AS $$
+DECLARE
+  actor UUID;
+BEGIN
+  actor := COALESCE(auth.uid(), NEW.invited_by);
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.group_activity (
+      group_id,
+      actor_id,
+      target_email,
+      action,
+      metadata
+    ) VALUES (
+      NEW.group_id,
+      actor,
+      LOWER(NEW.email),
+      'invite_created',
+      jsonb_build_object('status', NEW.status, 'invitation_id', NEW.id)
+    );
+    RETURN NEW;
+  ELSIF TG_OP = 'UPDATE' THEN
+    -- Log status transitions
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+      IF NEW.status = 'cancelled' THEN
+        INSERT INTO public.group_activity (
+          group_id,
+          actor_id,
+          target_email,
+          action,
+          metadata
+        ) VALUES (
+          NEW.group_id,
+          actor,
+          LOWER(NEW.email),
+          'invite_cancelled',
+          jsonb_build_object('invitation_id', NEW.id)
+        );
+      ELSIF NEW.status = 'accepted' THEN
+        INSERT INTO public.group_activity (
+          group_id,
+          actor_id,
+          target_email,
+          action,
+          metadata
+        ) VALUES (
+          NEW.group_id,
+          actor,
+          LOWER(NEW.email),
+          'invite_accepted',
+          jsonb_build_object('invitation_id', NEW.id)
+        );
+      END IF;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMIT;
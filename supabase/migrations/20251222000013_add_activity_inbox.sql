@@ -0,0 +1,61 @@
+-- Activity Inbox
+-- Created: 2025-12-22
+--
+-- GET /activity without a group_id returns an inbox: activity from every
+-- group the user is an active member of. Read state is a per-user
+-- watermark: items after last_read_at by someone else are unread.
+--
+-- The feed now pages with a (time, id) keyset instead of offsets, so both
+-- activity sources get matching indexes.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. activity_inbox_state TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.activity_inbox_state (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  last_read_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.activity_inbox_state IS 'Per-user read watermark for the cross-group activity inbox';
+COMMENT ON COLUMN public.activity_inbox_state.last_read_at IS 'Activity up to this time counts as read';
+
+-- ============================================================================
+-- 2. RLS
+-- ============================================================================
+
+ALTER TABLE public.activity_inbox_state ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their inbox state" ON public.activity_inbox_state;
+CREATE POLICY "Users can view their inbox state"
+  ON public.activity_inbox_state
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can create their inbox state" ON public.activity_inbox_state;
+CREATE POLICY "Users can create their inbox state"
+  ON public.activity_inbox_state
+  FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update their inbox state" ON public.activity_inbox_state;
+CREATE POLICY "Users can update their inbox state"
+  ON public.activity_inbox_state
+  FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- ============================================================================
+-- 3. KEYSET INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_transaction_history_group_changed_at_id
+  ON public.transaction_history(group_id, changed_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_group_activity_group_created_at_id
+  ON public.group_activity(group_id, created_at DESC, id DESC);
+
+COMMIT;
@@ -0,0 +1,125 @@
+-- Push Notifications
+-- Created: 2025-12-22
+--
+-- Devices register their Expo push token after sign-in. The edge functions
+-- send a push to the users whose participants are affected when a
+-- transaction, settlement or comment is added, edited or deleted, and to an
+-- invited user when an invitation is created.
+--
+-- Each user can turn off an event type (transactions, settlements, comments,
+-- invitations) and mute individual groups. Users without a preferences row
+-- get every notification.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. push_tokens TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.push_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE CHECK (length(token) <= 255),
+  platform TEXT NOT NULL CHECK (platform IN ('ios', 'android', 'web')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_tokens_user_id
+  ON public.push_tokens(user_id);
+
+COMMENT ON TABLE public.push_tokens IS 'Expo push tokens of signed-in devices';
+COMMENT ON COLUMN public.push_tokens.token IS 'ExponentPushToken[...]; a device belongs to the user who registered it last';
+
+-- ============================================================================
+-- 2. notification_preferences TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  transactions BOOLEAN NOT NULL DEFAULT TRUE,
+  settlements BOOLEAN NOT NULL DEFAULT TRUE,
+  comments BOOLEAN NOT NULL DEFAULT TRUE,
+  invitations BOOLEAN NOT NULL DEFAULT TRUE,
+  muted_group_ids UUID[] NOT NULL DEFAULT '{}',
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.notification_preferences IS 'Per-user push notification settings; a missing row means everything is on';
+COMMENT ON COLUMN public.notification_preferences.muted_group_ids IS 'Groups the user gets no push notifications from';
+
+-- ============================================================================
+-- 3. RLS
+-- ============================================================================
+-- The edge functions read other users' tokens and preferences with the
+-- service role when sending, so users only ever see their own rows.
+
+ALTER TABLE public.push_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their push tokens" ON public.push_tokens;
+CREATE POLICY "Users can view their push tokens"
+  ON public.push_tokens
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can delete their push tokens" ON public.push_tokens;
+CREATE POLICY "Users can delete their push tokens"
+  ON public.push_tokens
+  FOR DELETE
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can view their notification preferences" ON public.notification_preferences;
+CREATE POLICY "Users can view their notification preferences"
+  ON public.notification_preferences
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can create their notification preferences" ON public.notification_preferences;
+CREATE POLICY "Users can create their notification preferences"
+  ON public.notification_preferences
+  FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update their notification preferences" ON public.notification_preferences;
+CREATE POLICY "Users can update their notification preferences"
+  ON public.notification_preferences
+  FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- ============================================================================
+-- 4. register_push_token FUNCTION
+-- ============================================================================
+-- Tokens identify a device, not a user: when someone else signs in on the
+-- same device the token moves to them, which RLS alone would not allow.
+
+CREATE OR REPLACE FUNCTION public.register_push_token(
+  p_token TEXT,
+  p_platform TEXT
+)
+RETURNS public.push_tokens AS $$
+DECLARE
+  current_user_id UUID;
+  result public.push_tokens;
+BEGIN
+  current_user_id := auth.uid();
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  INSERT INTO public.push_tokens (user_id, token, platform)
+  VALUES (current_user_id, p_token, p_platform)
+  ON CONFLICT (token) DO UPDATE
+    SET user_id = EXCLUDED.user_id,
+        platform = EXCLUDED.platform,
+        updated_at = NOW()
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.register_push_token(TEXT, TEXT) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,162 @@
+-- Email Digests and Payment Reminders
+-- Created: 2025-12-22
+--
+-- A group member can email a participant who owes money a reminder with what
+-- they owe and a link to settle up. Every reminder is stored in
+-- payment_reminders, which the emails function uses to allow at most one
+-- reminder per pair of participants a day, and logged to group_activity as
+-- 'reminder_sent' so it shows in the activity feed.
+--
+-- Users can opt in to a weekly email summarizing their balance and the new
+-- expenses in each of their groups. The emails function sends digests that
+-- are due in batches; it is called hourly by pg_cron when available.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. payment_reminders TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.payment_reminders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id UUID NOT NULL REFERENCES public.groups(id) ON DELETE CASCADE,
+  from_participant_id UUID NOT NULL REFERENCES public.participants(id) ON DELETE CASCADE,
+  to_participant_id UUID NOT NULL REFERENCES public.participants(id) ON DELETE CASCADE,
+  sent_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  amounts JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ amount, currency }] owed when sent
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CHECK (from_participant_id <> to_participant_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_reminders_pair
+  ON public.payment_reminders(from_participant_id, to_participant_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_payment_reminders_group_id
+  ON public.payment_reminders(group_id);
+
+COMMENT ON TABLE public.payment_reminders IS 'Payment reminder emails sent to participants who owe money';
+COMMENT ON COLUMN public.payment_reminders.from_participant_id IS 'Participant of the member who sent the reminder';
+COMMENT ON COLUMN public.payment_reminders.to_participant_id IS 'Participant who owes money and was emailed';
+
+ALTER TABLE public.payment_reminders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Group members can view payment reminders" ON public.payment_reminders;
+CREATE POLICY "Group members can view payment reminders"
+  ON public.payment_reminders
+  FOR SELECT
+  USING (is_user_group_member(group_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Group members can send payment reminders" ON public.payment_reminders;
+CREATE POLICY "Group members can send payment reminders"
+  ON public.payment_reminders
+  FOR INSERT
+  WITH CHECK (
+    sent_by = auth.uid()
+    AND is_user_group_member(group_id, auth.uid())
+  );
+
+-- ============================================================================
+-- 2. ACTIVITY
+-- ============================================================================
+
+ALTER TABLE public.group_activity
+  DROP CONSTRAINT IF EXISTS group_activity_action_check;
+
+ALTER TABLE public.group_activity
+  ADD CONSTRAINT group_activity_action_check
+    CHECK (action IN (
+      'member_added',
+      'member_left',
+      'member_removed',
+      'member_reactivated',
+      'invite_created',
+      'invite_cancelled',
+      'invite_accepted',
+      'reminder_sent'
+    ));
+
+CREATE OR REPLACE FUNCTION public.log_payment_reminder_activity()
+RETURNS TRIGGER AS $$
+DECLARE
+  debtor RECORD;
+BEGIN
+  SELECT user_id, email INTO debtor
+  FROM public.participants
+  WHERE id = NEW.to_participant_id;
+
+  INSERT INTO public.group_activity (
+    group_id,
+    actor_id,
+    target_user_id,
+    target_email,
+    action,
+    metadata
+  ) VALUES (
+    NEW.group_id,
+    NEW.sent_by,
+    debtor.user_id,
+    debtor.email,
+    'reminder_sent',
+    jsonb_build_object(
+      'reminder_id', NEW.id,
+      'from_participant_id', NEW.from_participant_id,
+      'to_participant_id', NEW.to_participant_id,
+      'amounts', NEW.amounts
+    )
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_payment_reminders_activity ON public.payment_reminders;
+CREATE TRIGGER trg_payment_reminders_activity
+AFTER INSERT ON public.payment_reminders
+FOR EACH ROW
+EXECUTE FUNCTION public.log_payment_reminder_activity();
+
+-- ============================================================================
+-- 3. WEEKLY DIGEST PREFERENCE
+-- ============================================================================
+
+ALTER TABLE public.notification_preferences
+  ADD COLUMN IF NOT EXISTS weekly_digest BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS last_digest_sent_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_notification_preferences_digest_due
+  ON public.notification_preferences(last_digest_sent_at NULLS FIRST)
+  WHERE weekly_digest;
+
+COMMENT ON COLUMN public.notification_preferences.weekly_digest IS 'Opted in to the weekly balance and expenses email';
+COMMENT ON COLUMN public.notification_preferences.last_digest_sent_at IS 'When the last weekly digest was emailed; the next is due 7 days later';
+
+-- ============================================================================
+-- 4. SCHEDULE (when pg_cron and pg_net are available)
+-- ============================================================================
+-- Calls POST /functions/v1/emails/digests every hour. Expects the
+-- 'project_url' and 'service_role_key' secrets in Vault. Digests are sent
+-- to a limited batch of users per call, so a user's digest can go out up to
+-- a few hours after it is due.
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'send-weekly-digests',
+      '0 * * * *',
+      $cron$
+      SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+          || '/functions/v1/emails/digests',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+      )
+      $cron$
+    );
+  END IF;
+END $$;
+
+COMMIT;
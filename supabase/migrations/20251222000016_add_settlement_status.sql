@@ -0,0 +1,106 @@
+-- Settlement Status: receiver confirms or disputes recorded settlements
+-- Created: 2025-12-22
+--
+-- Any active member can record a settlement between any two participants
+-- (see 20251221000004), so a settlement now starts out 'pending' until the
+-- receiving participant confirms it ('confirmed') or says the money never
+-- arrived ('disputed', with an optional reason).
+--
+-- A settlement starts out confirmed when the receiver records it themselves,
+-- or when the receiver has no account and so can never confirm it. Existing
+-- settlements are treated as confirmed.
+--
+-- Only the receiver can change the status. Editing the amount, currency or
+-- participants of a settlement someone else received puts it back to
+-- pending. Status changes show in the activity feed through the existing
+-- settlement history trigger.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. COLUMNS
+-- ============================================================================
+
+-- Existing rows get 'confirmed'; new rows default to 'pending' (see trigger)
+ALTER TABLE public.settlements
+  ADD COLUMN IF NOT EXISTS status VARCHAR(10) NOT NULL DEFAULT 'confirmed'
+    CHECK (status IN ('pending', 'confirmed', 'disputed')),
+  ADD COLUMN IF NOT EXISTS status_changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS dispute_reason TEXT CHECK (length(dispute_reason) <= 500);
+
+ALTER TABLE public.settlements
+  ALTER COLUMN status SET DEFAULT 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_settlements_group_status
+  ON public.settlements(group_id, status);
+
+COMMENT ON COLUMN public.settlements.status IS 'pending: awaiting the receiver, confirmed: receiver got the money, disputed: receiver says they did not';
+COMMENT ON COLUMN public.settlements.dispute_reason IS 'Optional explanation from the receiver when disputed';
+
+-- ============================================================================
+-- 2. STATUS RULES
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.apply_settlement_status_rules()
+RETURNS TRIGGER AS $$
+DECLARE
+  receiver_user_id UUID;
+BEGIN
+  SELECT user_id INTO receiver_user_id
+  FROM public.participants
+  WHERE id = NEW.to_participant_id;
+
+  IF TG_OP = 'INSERT' THEN
+    IF receiver_user_id IS NULL OR receiver_user_id = auth.uid() THEN
+      NEW.status := 'confirmed';
+      NEW.status_changed_by := auth.uid();
+      NEW.status_changed_at := NOW();
+    ELSE
+      NEW.status := 'pending';
+      NEW.status_changed_by := NULL;
+      NEW.status_changed_at := NULL;
+    END IF;
+    NEW.dispute_reason := NULL;
+    RETURN NEW;
+  END IF;
+
+  -- Service role (no auth.uid()) may change anything
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+     OR NEW.dispute_reason IS DISTINCT FROM OLD.dispute_reason THEN
+    IF receiver_user_id IS DISTINCT FROM auth.uid() THEN
+      RAISE EXCEPTION 'Only the receiver can confirm or dispute a settlement'
+        USING ERRCODE = '42501';
+    END IF;
+    NEW.status_changed_by := auth.uid();
+    NEW.status_changed_at := NOW();
+    IF NEW.status <> 'disputed' THEN
+      NEW.dispute_reason := NULL;
+    END IF;
+  ELSIF (NEW.amount IS DISTINCT FROM OLD.amount
+         OR NEW.currency IS DISTINCT FROM OLD.currency
+         OR NEW.from_participant_id IS DISTINCT FROM OLD.from_participant_id
+         OR NEW.to_participant_id IS DISTINCT FROM OLD.to_participant_id)
+        AND receiver_user_id IS NOT NULL
+        AND receiver_user_id <> auth.uid() THEN
+    NEW.status := 'pending';
+    NEW.status_changed_by := NULL;
+    NEW.status_changed_at := NULL;
+    NEW.dispute_reason := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trg_settlements_status_rules ON public.settlements;
+CREATE TRIGGER trg_settlements_status_rules
+BEFORE INSERT OR UPDATE ON public.settlements
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_settlement_status_rules();
+
+COMMIT;
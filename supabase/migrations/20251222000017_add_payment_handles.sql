@@ -0,0 +1,26 @@
+-- Payment Handles
+-- Created: 2025-12-22
+--
+-- Users can store where they want to be paid: a UPI ID (VPA), a PayPal.me
+-- username and an IBAN. The settle-up screen uses them to open the payer's
+-- UPI or PayPal app with the payee, amount and a note filled in.
+--
+-- The profile function validates and normalizes the values, and only
+-- returns them to members of a group the user is in.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. COLUMNS
+-- ============================================================================
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS upi_vpa VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS paypal_me VARCHAR(20),
+  ADD COLUMN IF NOT EXISTS iban VARCHAR(34);
+
+COMMENT ON COLUMN public.profiles.upi_vpa IS 'UPI virtual payment address, e.g. name@bank';
+COMMENT ON COLUMN public.profiles.paypal_me IS 'PayPal.me username, without the paypal.me/ prefix';
+COMMENT ON COLUMN public.profiles.iban IS 'IBAN without spaces, upper case';
+
+COMMIT;
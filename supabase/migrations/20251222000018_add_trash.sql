@@ -0,0 +1,434 @@
+-- Trash: soft delete for transactions and settlements
+-- Created: 2025-12-22
+--
+-- Groups are admin-free, so any member can delete any expense or settlement.
+-- Deleting now moves the row to the group's trash by setting deleted_at
+-- instead of removing it. Splits, payers, receipts and comments stay in place,
+-- so restoring clears deleted_at and the item is back as it was.
+--
+-- Trashed rows are ignored everywhere the ledger is read (lists, search,
+-- balances, budgets, exports). They are removed for good once they have been
+-- in the trash for the group's trash_retention_days; the trash function does
+-- this when called by the scheduled job below. Trash in archived groups is
+-- kept until the group is restored.
+--
+-- Moving to and from the trash shows in the activity feed as 'deleted' and
+-- 'restored', like archiving a group. Removing a trashed row for good is not
+-- logged again.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. COLUMNS
+-- ============================================================================
+
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.settlements
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_group_trash
+  ON public.transactions(group_id, deleted_at DESC)
+  WHERE deleted_at IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_settlements_group_trash
+  ON public.settlements(group_id, deleted_at DESC)
+  WHERE deleted_at IS NOT NULL;
+
+COMMENT ON COLUMN public.transactions.deleted_at IS 'When the transaction was moved to the trash; NULL for live transactions';
+COMMENT ON COLUMN public.settlements.deleted_at IS 'When the settlement was moved to the trash; NULL for live settlements';
+
+ALTER TABLE public.groups
+  ADD COLUMN IF NOT EXISTS trash_retention_days INTEGER NOT NULL DEFAULT 30
+    CHECK (trash_retention_days BETWEEN 1 AND 365);
+
+COMMENT ON COLUMN public.groups.trash_retention_days IS 'Days deleted transactions and settlements can be restored before they are removed for good';
+
+-- ============================================================================
+-- 2. RPC: update_group_settings (adds trash_retention_days)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.update_group_settings(
+  p_group_id UUID,
+  p_changes JSONB
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  current_user_id UUID;
+BEGIN
+  current_user_id := auth.uid();
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.group_members
+    WHERE group_id = p_group_id
+      AND user_id = current_user_id
+      AND status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'You must be an active member of the group to change its settings';
+  END IF;
+
+  UPDATE public.groups
+  SET name = CASE WHEN p_changes ? 'name' THEN p_changes->>'name' ELSE name END,
+      description = CASE WHEN p_changes ? 'description' THEN p_changes->>'description' ELSE description END,
+      default_currency = CASE WHEN p_changes ? 'default_currency' THEN UPPER(p_changes->>'default_currency') ELSE default_currency END,
+      settlement_currency = CASE WHEN p_changes ? 'settlement_currency' THEN UPPER(p_changes->>'settlement_currency') ELSE settlement_currency END,
+      emoji = CASE WHEN p_changes ? 'emoji' THEN p_changes->>'emoji' ELSE emoji END,
+      cover_color = CASE WHEN p_changes ? 'cover_color' THEN p_changes->>'cover_color' ELSE cover_color END,
+      trash_retention_days = CASE WHEN p_changes ? 'trash_retention_days' THEN (p_changes->>'trash_retention_days')::INTEGER ELSE trash_retention_days END,
+      updated_at = NOW()
+  WHERE id = p_group_id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 3. HISTORY: log trashing and restoring as 'deleted' / 'restored'
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.track_transaction_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_data JSONB;
+  new_data JSONB;
+  diff JSONB := '{}'::JSONB;
+  field TEXT;
+  v_action VARCHAR(20);
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.transaction_history (
+      transaction_id, activity_type, group_id, action, changed_by, changes, snapshot
+    ) VALUES (
+      NEW.id,
+      'transaction',
+      NEW.group_id,
+      'created',
+      COALESCE(NEW.user_id, auth.uid()),
+      jsonb_build_object('action', 'created', 'transaction', to_jsonb(NEW)),
+      to_jsonb(NEW)
+    );
+    RETURN NEW;
+
+  ELSIF TG_OP = 'UPDATE' THEN
+    -- Moving to or from the trash is logged on its own, without a diff
+    IF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+      v_action := 'deleted';
+    ELSIF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+      v_action := 'restored';
+    END IF;
+
+    IF v_action IS NOT NULL THEN
+      INSERT INTO public.transaction_history (
+        transaction_id, activity_type, group_id, action, changed_by, changes, snapshot
+      ) VALUES (
+        NEW.id,
+        'transaction',
+        NEW.group_id,
+        v_action,
+        COALESCE(auth.uid(), NEW.deleted_by, NEW.user_id),
+        jsonb_build_object('action', v_action, 'transaction', to_jsonb(NEW)),
+        to_jsonb(NEW)
+      );
+      RETURN NEW;
+    END IF;
+
+    old_data := to_jsonb(OLD);
+    new_data := to_jsonb(NEW);
+
+    FOR field IN SELECT jsonb_object_keys(old_data) LOOP
+      IF field NOT IN ('updated_at', 'created_at', 'id') THEN
+        IF old_data->>field IS DISTINCT FROM new_data->>field THEN
+          diff := diff || jsonb_build_object(
+            field,
+            jsonb_build_object('old', old_data->field, 'new', new_data->field)
+          );
+        END IF;
+      END IF;
+    END LOOP;
+
+    IF diff != '{}'::jsonb THEN
+      INSERT INTO public.transaction_history (
+        transaction_id, activity_type, group_id, action, changed_by, changes, snapshot
+      ) VALUES (
+        NEW.id,
+        'transaction',
+        COALESCE(NEW.group_id, OLD.group_id),
+        'updated',
+        COALESCE(auth.uid(), NEW.user_id, OLD.user_id),
+        jsonb_build_object('action', 'updated', 'diff', diff, 'transaction_id', NEW.id),
+        to_jsonb(NEW)
+      );
+    END IF;
+    RETURN NEW;
+
+  ELSIF TG_OP = 'DELETE' THEN
+    INSERT INTO public.transaction_history (
+      transaction_id, activity_type, group_id, action, changed_by, changes, snapshot
+    ) VALUES (
+      NULL, -- The transaction no longer exists (foreign key)
+      'transaction',
+      OLD.group_id,
+      'deleted',
+      COALESCE(auth.uid(), OLD.user_id),
+      jsonb_build_object('action', 'deleted', 'transaction', to_jsonb(OLD)),
+      to_jsonb(OLD)
+    );
+    RETURN OLD;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.track_settlement_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_data JSONB;
+  new_data JSONB;
+  diff JSONB := '{}'::JSONB;
+  field TEXT;
+  v_action VARCHAR(20);
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.transaction_history (
+      settlement_id, activity_type, group_id, action, changed_by, changes, snapshot
+    ) VALUES (
+      NEW.id,
+      'settlement',
+      NEW.group_id,
+      'created',
+      COALESCE(NEW.created_by, auth.uid()),
+      jsonb_build_object('action', 'created', 'settlement', to_jsonb(NEW)),
+      to_jsonb(NEW)
+    );
+    RETURN NEW;
+
+  ELSIF TG_OP = 'UPDATE' THEN
+    -- Moving to or from the trash is logged on its own, without a diff
+    IF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+      v_action := 'deleted';
+    ELSIF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+      v_action := 'restored';
+    END IF;
+
+    IF v_action IS NOT NULL THEN
+      INSERT INTO public.transaction_history (
+        settlement_id, activity_type, group_id, action, changed_by, changes, snapshot
+      ) VALUES (
+        NEW.id,
+        'settlement',
+        NEW.group_id,
+        v_action,
+        COALESCE(auth.uid(), NEW.deleted_by, NEW.created_by),
+        jsonb_build_object('action', v_action, 'settlement', to_jsonb(NEW)),
+        to_jsonb(NEW)
+      );
+      RETURN NEW;
+    END IF;
+
+    old_data := to_jsonb(OLD);
+    new_data := to_jsonb(NEW);
+
+    FOR field IN SELECT jsonb_object_keys(old_data) LOOP
+      IF field NOT IN ('created_at', 'id') THEN
+        IF old_data->>field IS DISTINCT FROM new_data->>field THEN
+          diff := diff || jsonb_build_object(
+            field,
+            jsonb_build_object('old', old_data->field, 'new', new_data->field)
+          );
+        END IF;
+      END IF;
+    END LOOP;
+
+    IF diff != '{}'::jsonb THEN
+      INSERT INTO public.transaction_history (
+        settlement_id, activity_type, group_id, action, changed_by, changes, snapshot
+      ) VALUES (
+        NEW.id,
+        'settlement',
+        NEW.group_id,
+        'updated',
+        COALESCE(auth.uid(), NEW.created_by, OLD.created_by),
+        jsonb_build_object('action', 'updated', 'diff', diff, 'settlement_id', NEW.id),
+        to_jsonb(NEW)
+      );
+    END IF;
+    RETURN NEW;
+
+  ELSIF TG_OP = 'DELETE' THEN
+    INSERT INTO public.transaction_history (
+      settlement_id, activity_type, group_id, action, changed_by, changes, snapshot
+    ) VALUES (
+      NULL, -- The settlement no longer exists (foreign key)
+      'settlement',
+      OLD.group_id,
+      'deleted',
+      COALESCE(auth.uid(), OLD.created_by),
+      jsonb_build_object('action', 'deleted', 'settlement', to_jsonb(OLD)),
+      to_jsonb(OLD)
+    );
+    RETURN OLD;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Rows removed from the trash were already logged as deleted
+DROP TRIGGER IF EXISTS transaction_history_trigger ON public.transactions;
+CREATE TRIGGER transaction_history_trigger
+  AFTER INSERT OR UPDATE ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_transaction_changes();
+
+DROP TRIGGER IF EXISTS transaction_history_delete_trigger ON public.transactions;
+CREATE TRIGGER transaction_history_delete_trigger
+  AFTER DELETE ON public.transactions
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NULL)
+  EXECUTE FUNCTION public.track_transaction_changes();
+
+DROP TRIGGER IF EXISTS settlement_history_trigger ON public.settlements;
+CREATE TRIGGER settlement_history_trigger
+  AFTER INSERT OR UPDATE ON public.settlements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_settlement_changes();
+
+DROP TRIGGER IF EXISTS settlement_history_delete_trigger ON public.settlements;
+CREATE TRIGGER settlement_history_delete_trigger
+  AFTER DELETE ON public.settlements
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NULL)
+  EXECUTE FUNCTION public.track_settlement_changes();
+
+-- ============================================================================
+-- 4. LEDGER QUERIES IGNORE THE TRASH
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.search_transactions(
+  p_group_id UUID DEFAULT NULL,
+  p_before_date DATE DEFAULT NULL,
+  p_before_id INTEGER DEFAULT NULL,
+  p_from_date DATE DEFAULT NULL,
+  p_to_date DATE DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_category_id UUID DEFAULT NULL,
+  p_type TEXT DEFAULT NULL,
+  p_payer_participant_id UUID DEFAULT NULL,
+  p_involved_participant_id UUID DEFAULT NULL,
+  p_min_amount NUMERIC DEFAULT NULL,
+  p_max_amount NUMERIC DEFAULT NULL,
+  p_search TEXT DEFAULT NULL
+)
+RETURNS SETOF public.transactions AS $$
+  SELECT t.*
+  FROM public.transactions t
+  WHERE t.deleted_at IS NULL
+    AND (p_group_id IS NULL OR t.group_id = p_group_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.participants me
+      WHERE me.group_id = t.group_id
+        AND me.user_id = auth.uid()
+        AND me.type = 'former'
+        AND NOT public.transaction_involves_participant(t.id, me.id)
+    )
+    AND (p_before_date IS NULL OR (t.date, t.id) < (p_before_date, p_before_id))
+    AND (p_from_date IS NULL OR t.date >= p_from_date)
+    AND (p_to_date IS NULL OR t.date <= p_to_date)
+    AND (p_category IS NULL OR lower(t.category) = lower(p_category))
+    AND (p_category_id IS NULL OR t.category_id = p_category_id)
+    AND (p_type IS NULL OR t.type = p_type)
+    AND (
+      p_payer_participant_id IS NULL
+      OR t.paid_by_participant_id = p_payer_participant_id
+      OR EXISTS (
+        SELECT 1 FROM public.transaction_payers tp
+        WHERE tp.transaction_id = t.id AND tp.participant_id = p_payer_participant_id
+      )
+    )
+    AND (
+      p_involved_participant_id IS NULL
+      OR public.transaction_involves_participant(t.id, p_involved_participant_id)
+    )
+    AND (p_min_amount IS NULL OR t.amount >= p_min_amount)
+    AND (p_max_amount IS NULL OR t.amount <= p_max_amount)
+    AND (
+      p_search IS NULL
+      OR t.description ILIKE '%' || replace(replace(replace(p_search, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    );
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.get_group_budget_spending(
+  p_group_id UUID,
+  p_as_of DATE DEFAULT CURRENT_DATE
+)
+RETURNS TABLE (
+  budget_id UUID,
+  spent NUMERIC,
+  period_start DATE,
+  period_end DATE
+) AS $$
+  WITH periods AS (
+    SELECT
+      b.*,
+      CASE WHEN b.period = 'monthly'
+        THEN date_trunc('month', p_as_of)::date
+      END AS start_date,
+      CASE WHEN b.period = 'monthly'
+        THEN (date_trunc('month', p_as_of) + INTERVAL '1 month - 1 day')::date
+      END AS end_date
+    FROM public.group_budgets b
+    WHERE b.group_id = p_group_id
+  )
+  SELECT
+    p.id,
+    COALESCE(SUM(t.amount), 0),
+    p.start_date,
+    p.end_date
+  FROM periods p
+  LEFT JOIN public.transactions t
+    ON t.group_id = p.group_id
+    AND t.deleted_at IS NULL
+    AND t.type = 'expense'
+    AND t.currency = p.currency
+    AND (p.category_id IS NULL OR t.category_id = p.category_id)
+    AND (p.start_date IS NULL OR t.date >= p.start_date)
+    AND (p.end_date IS NULL OR t.date <= p.end_date)
+  GROUP BY p.id, p.start_date, p.end_date;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- 5. SCHEDULE (when pg_cron and pg_net are available)
+-- ============================================================================
+-- Calls POST /functions/v1/trash/purge daily. Expects the 'project_url' and
+-- 'service_role_key' secrets in Vault (see 20251222000015).
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'purge-expired-trash',
+      '30 3 * * *',
+      $cron$
+      SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+          || '/functions/v1/trash/purge',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+      )
+      $cron$
+    );
+  END IF;
+END $$;
+
+COMMIT;
@@ -0,0 +1,88 @@
+-- Idempotency Keys
+-- Created: 2025-12-22
+--
+-- POST /transactions and POST /settlements accept an Idempotency-Key header.
+-- The first request with a key claims it for the caller and stores the
+-- response once it succeeds; a retry with the same key (for example after the
+-- app timed out waiting) gets that response back instead of creating a
+-- duplicate. Failed requests release their key so they can be retried.
+--
+-- Keys are kept for 24 hours, after which the scheduled job below removes
+-- them and the key can be used again.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. idempotency_keys TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.idempotency_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  idempotency_key TEXT NOT NULL CHECK (length(idempotency_key) BETWEEN 1 AND 255),
+  endpoint TEXT NOT NULL,
+  request_hash TEXT NOT NULL,
+  status_code INTEGER,
+  response_body JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, endpoint, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_created_at
+  ON public.idempotency_keys(created_at);
+
+COMMENT ON TABLE public.idempotency_keys IS 'Responses of create requests sent with an Idempotency-Key header, replayed on retries';
+COMMENT ON COLUMN public.idempotency_keys.request_hash IS 'SHA-256 of the request body; a key can only be reused for the same request';
+COMMENT ON COLUMN public.idempotency_keys.status_code IS 'NULL while the first request is still being handled';
+
+-- ============================================================================
+-- 2. RLS
+-- ============================================================================
+-- Keys are scoped to the caller, so users only ever see their own rows.
+
+ALTER TABLE public.idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their idempotency keys" ON public.idempotency_keys;
+CREATE POLICY "Users can view their idempotency keys"
+  ON public.idempotency_keys
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can create their idempotency keys" ON public.idempotency_keys;
+CREATE POLICY "Users can create their idempotency keys"
+  ON public.idempotency_keys
+  FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update their idempotency keys" ON public.idempotency_keys;
+CREATE POLICY "Users can update their idempotency keys"
+  ON public.idempotency_keys
+  FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can delete their idempotency keys" ON public.idempotency_keys;
+CREATE POLICY "Users can delete their idempotency keys"
+  ON public.idempotency_keys
+  FOR DELETE
+  USING (user_id = auth.uid());
+
+-- ============================================================================
+-- 3. SCHEDULE (when pg_cron is available)
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'purge-expired-idempotency-keys',
+      '15 * * * *',
+      $cron$
+      DELETE FROM public.idempotency_keys
+      WHERE created_at < NOW() - INTERVAL '24 hours'
+      $cron$
+    );
+  END IF;
+END $$;
+
+COMMIT;
@@ -0,0 +1,59 @@
+-- Edit Versions
+-- Created: 2025-12-22
+--
+-- Transactions and settlements get a version number that goes up by one
+-- with every update that changes the row, whichever function makes it
+-- (edits, restored versions, confirming or disputing a settlement, the
+-- trash). Saving a row unchanged keeps its version.
+-- Clients send back the version they loaded; when the row changed in the
+-- meantime the edit is rejected with a VERSION_CONFLICT error carrying the
+-- current copy, instead of silently overwriting the other change.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. version COLUMNS
+-- ============================================================================
+
+ALTER TABLE public.transactions
+  ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE public.settlements
+  ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+COMMENT ON COLUMN public.transactions.version IS 'Incremented on every edit; edits based on an older version are rejected';
+COMMENT ON COLUMN public.settlements.version IS 'Incremented on every edit; edits based on an older version are rejected';
+
+-- ============================================================================
+-- 2. BUMP ON EVERY CHANGE
+-- ============================================================================
+-- version and updated_at are left out of the comparison: they change on
+-- every save, even one that leaves the rest of the row as it was.
+
+CREATE OR REPLACE FUNCTION public.bump_row_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (to_jsonb(NEW) - 'version' - 'updated_at') IS NOT DISTINCT FROM (to_jsonb(OLD) - 'version' - 'updated_at') THEN
+    NEW.version := OLD.version;
+  ELSE
+    NEW.version := OLD.version + 1;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION public.bump_row_version() IS 'Increments version on each update that changes the row; callers never set it themselves';
+
+DROP TRIGGER IF EXISTS trg_transactions_bump_version ON public.transactions;
+CREATE TRIGGER trg_transactions_bump_version
+BEFORE UPDATE ON public.transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.bump_row_version();
+
+DROP TRIGGER IF EXISTS trg_settlements_bump_version ON public.settlements;
+CREATE TRIGGER trg_settlements_bump_version
+BEFORE UPDATE ON public.settlements
+FOR EACH ROW
+EXECUTE FUNCTION public.bump_row_version();
+
+COMMIT;
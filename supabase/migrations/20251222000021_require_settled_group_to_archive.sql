@@ -0,0 +1,176 @@
+-- Require Settled Groups to Archive
+-- Created: 2025-12-22
+--
+-- set_group_archived can be called directly by any member, so the "only
+-- settled groups can be archived" rule moves from the groups function into
+-- the RPC. The group row is locked while balances are checked, and writes to
+-- the group's ledger take a share lock on it, so an expense saved at the same
+-- time either lands before the check or is rejected once the group is
+-- archived.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. group_has_open_balances
+-- ============================================================================
+-- Mirrors calculateGroupBalances in _shared/balances.ts without currency
+-- conversion: each participant's balance per currency, counting pending and
+-- disputed settlements.
+
+CREATE OR REPLACE FUNCTION public.group_has_open_balances(p_group_id UUID)
+RETURNS BOOLEAN AS $$
+  WITH ledger_expenses AS (
+    SELECT t.id, t.amount, t.currency, t.paid_by_participant_id
+    FROM public.transactions t
+    WHERE t.group_id = p_group_id
+      AND t.type = 'expense'
+      AND t.deleted_at IS NULL
+      AND t.paid_by_participant_id IS NOT NULL
+      AND EXISTS (
+        SELECT 1 FROM public.transaction_splits s
+        WHERE s.transaction_id = t.id
+          AND s.participant_id IS NOT NULL
+      )
+  ),
+  entries AS (
+    -- Multi-payer expenses credit each payer
+    SELECT p.participant_id, e.currency, p.amount
+    FROM ledger_expenses e
+    JOIN public.transaction_payers p ON p.transaction_id = e.id
+    UNION ALL
+    SELECT e.paid_by_participant_id, e.currency, e.amount
+    FROM ledger_expenses e
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.transaction_payers p WHERE p.transaction_id = e.id
+    )
+    UNION ALL
+    SELECT s.participant_id, e.currency, -s.amount
+    FROM ledger_expenses e
+    JOIN public.transaction_splits s ON s.transaction_id = e.id
+    WHERE s.participant_id IS NOT NULL
+    UNION ALL
+    SELECT st.from_participant_id, st.currency, st.amount
+    FROM public.settlements st
+    WHERE st.group_id = p_group_id
+      AND st.deleted_at IS NULL
+      AND st.amount > 0
+      AND st.from_participant_id IS NOT NULL
+      AND st.to_participant_id IS NOT NULL
+    UNION ALL
+    SELECT st.to_participant_id, st.currency, -st.amount
+    FROM public.settlements st
+    WHERE st.group_id = p_group_id
+      AND st.deleted_at IS NULL
+      AND st.amount > 0
+      AND st.from_participant_id IS NOT NULL
+      AND st.to_participant_id IS NOT NULL
+  )
+  SELECT EXISTS (
+    SELECT 1
+    FROM entries
+    GROUP BY participant_id, currency
+    HAVING ABS(ROUND(SUM(amount), 2)) > 0.01
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+COMMENT ON FUNCTION public.group_has_open_balances(UUID) IS 'True while anyone in the group owes or is owed money in some currency';
+
+-- ============================================================================
+-- 2. LEDGER WRITES LOCK THE GROUP ROW
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.prevent_archived_group_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_group_id UUID;
+  v_archived_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_group_id := OLD.group_id;
+  ELSE
+    v_group_id := NEW.group_id;
+  END IF;
+
+  IF v_group_id IS NOT NULL THEN
+    -- Waits for an archive in progress, then sees its result
+    SELECT archived_at INTO v_archived_at
+    FROM public.groups
+    WHERE id = v_group_id
+    FOR SHARE;
+
+    IF v_archived_at IS NOT NULL THEN
+      RAISE EXCEPTION 'Archived groups are read-only. Restore the group to make changes'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 3. RPC: set_group_archived
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.set_group_archived(
+  p_group_id UUID,
+  p_archived BOOLEAN
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  current_user_id UUID;
+BEGIN
+  current_user_id := auth.uid();
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.group_members
+    WHERE group_id = p_group_id
+      AND user_id = current_user_id
+      AND status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'You must be an active member of the group to archive or restore it';
+  END IF;
+
+  -- Held until commit, so no ledger write can slip in after the balance check
+  PERFORM 1 FROM public.groups WHERE id = p_group_id FOR UPDATE;
+
+  IF p_archived THEN
+    IF public.group_has_open_balances(p_group_id) THEN
+      RAISE EXCEPTION 'Settle all balances before archiving the group'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE public.recurring_transactions
+    SET status = 'paused'
+    WHERE group_id = p_group_id
+      AND status = 'active';
+
+    UPDATE public.groups
+    SET archived_at = NOW(),
+        archived_by = current_user_id,
+        updated_at = NOW()
+    WHERE id = p_group_id
+      AND archived_at IS NULL;
+  ELSE
+    UPDATE public.groups
+    SET archived_at = NULL,
+        archived_by = NULL,
+        updated_at = NOW()
+    WHERE id = p_group_id
+      AND archived_at IS NOT NULL;
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.group_has_open_balances(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.set_group_archived(UUID, BOOLEAN) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,215 @@
+-- Splitwise Import Commit
+-- Created: 2025-12-22
+--
+-- Committing a Splitwise import creates invitations (each one an invited
+-- participant), transactions with their splits and payers, and settlements.
+-- They are written by one RPC, so a failure at any step leaves nothing
+-- behind and no separate rollback is needed.
+--
+-- Imported payments already happened, so they are recorded as confirmed
+-- rather than waiting for each receiver to confirm them.
+
+BEGIN;
+
+-- ============================================================================
+-- 1. STATUS RULES: IMPORTED PAYMENTS
+-- ============================================================================
+-- Same as in 20251222000016_add_settlement_status.sql, except that
+-- settlements inserted by import_splitwise_history start out confirmed. The
+-- setting is local to the RPC's transaction and can't be set by clients.
+
+CREATE OR REPLACE FUNCTION public.apply_settlement_status_rules()
+RETURNS TRIGGER AS $$
+DECLARE
+  receiver_user_id UUID;
+BEGIN
+  SELECT user_id INTO receiver_user_id
+  FROM public.participants
+  WHERE id = NEW.to_participant_id;
+
+  IF TG_OP = 'INSERT' THEN
+    IF receiver_user_id IS NULL
+       OR receiver_user_id = auth.uid()
+       OR current_setting('app.importing_history', true) = 'on' THEN
+      NEW.status := 'confirmed';
+      NEW.status_changed_by := auth.uid();
+      NEW.status_changed_at := NOW();
+    ELSE
+      NEW.status := 'pending';
+      NEW.status_changed_by := NULL;
+      NEW.status_changed_at := NULL;
+    END IF;
+    NEW.dispute_reason := NULL;
+    RETURN NEW;
+  END IF;
+
+  -- Service role (no auth.uid()) may change anything
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+     OR NEW.dispute_reason IS DISTINCT FROM OLD.dispute_reason THEN
+    IF receiver_user_id IS DISTINCT FROM auth.uid() THEN
+      RAISE EXCEPTION 'Only the receiver can confirm or dispute a settlement'
+        USING ERRCODE = '42501';
+    END IF;
+    NEW.status_changed_by := auth.uid();
+    NEW.status_changed_at := NOW();
+    IF NEW.status <> 'disputed' THEN
+      NEW.dispute_reason := NULL;
+    END IF;
+  ELSIF (NEW.amount IS DISTINCT FROM OLD.amount
+         OR NEW.currency IS DISTINCT FROM OLD.currency
+         OR NEW.from_participant_id IS DISTINCT FROM OLD.from_participant_id
+         OR NEW.to_participant_id IS DISTINCT FROM OLD.to_participant_id)
+        AND receiver_user_id IS NOT NULL
+        AND receiver_user_id <> auth.uid() THEN
+    NEW.status := 'pending';
+    NEW.status_changed_by := NULL;
+    NEW.status_changed_at := NULL;
+    NEW.dispute_reason := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 2. RPC: import_splitwise_history
+-- ============================================================================
+-- Rows refer to people by their Splitwise column name; p_people maps each
+-- column to a participant of the group, or to an email to invite:
+--   p_people:       [{ column, participant_id?, email?, token? }]
+--   p_transactions: [{ date, description, category, amount, currency,
+--                      exchange_rate, exchange_rate_currency, paid_by,
+--                      splits: [{ column, amount }], payers: [{ column, amount }] }]
+--   p_settlements:  [{ from, to, amount, currency, notes, date }]
+
+CREATE OR REPLACE FUNCTION public.import_splitwise_history(
+  p_group_id UUID,
+  p_people JSONB,
+  p_transactions JSONB,
+  p_settlements JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  current_user_id UUID;
+  v_person JSONB;
+  v_participant_id UUID;
+  v_participant_ids JSONB := '{}'::JSONB;
+  v_invited INTEGER := 0;
+  v_tx JSONB;
+  v_transaction_id INTEGER;
+  v_transactions INTEGER := 0;
+  v_settlements INTEGER := 0;
+BEGIN
+  current_user_id := auth.uid();
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.group_members
+    WHERE group_id = p_group_id
+      AND user_id = current_user_id
+      AND status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'You must be an active member of the group to import expenses'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  FOR v_person IN SELECT * FROM jsonb_array_elements(COALESCE(p_people, '[]'::JSONB)) LOOP
+    IF v_person->>'participant_id' IS NOT NULL THEN
+      SELECT id INTO v_participant_id
+      FROM public.participants
+      WHERE id = (v_person->>'participant_id')::UUID
+        AND group_id = p_group_id;
+    ELSE
+      -- Inviting an email creates an invited participant for it
+      INSERT INTO public.group_invitations (group_id, email, invited_by, token, status)
+      VALUES (p_group_id, v_person->>'email', current_user_id, v_person->>'token', 'pending');
+      v_invited := v_invited + 1;
+
+      SELECT id INTO v_participant_id
+      FROM public.participants
+      WHERE group_id = p_group_id
+        AND LOWER(email) = LOWER(v_person->>'email');
+    END IF;
+
+    IF v_participant_id IS NULL THEN
+      RAISE EXCEPTION 'No participant for column %', v_person->>'column'
+        USING ERRCODE = 'foreign_key_violation';
+    END IF;
+    v_participant_ids := v_participant_ids || jsonb_build_object(v_person->>'column', v_participant_id);
+  END LOOP;
+
+  FOR v_tx IN SELECT * FROM jsonb_array_elements(COALESCE(p_transactions, '[]'::JSONB)) LOOP
+    INSERT INTO public.transactions (
+      user_id, amount, description, date, type, category, group_id, currency,
+      paid_by_participant_id, split_mode, exchange_rate, exchange_rate_currency
+    )
+    VALUES (
+      current_user_id,
+      (v_tx->>'amount')::NUMERIC,
+      v_tx->>'description',
+      (v_tx->>'date')::DATE,
+      'expense',
+      v_tx->>'category',
+      p_group_id,
+      v_tx->>'currency',
+      (v_participant_ids->>(v_tx->>'paid_by'))::UUID,
+      'exact',
+      (v_tx->>'exchange_rate')::NUMERIC,
+      v_tx->>'exchange_rate_currency'
+    )
+    RETURNING id INTO v_transaction_id;
+    v_transactions := v_transactions + 1;
+
+    INSERT INTO public.transaction_splits (transaction_id, participant_id, amount, share_value)
+    SELECT v_transaction_id,
+           (v_participant_ids->>(split->>'column'))::UUID,
+           (split->>'amount')::NUMERIC,
+           (split->>'amount')::NUMERIC
+    FROM jsonb_array_elements(v_tx->'splits') AS split;
+
+    -- Only multi-payer expenses have payer rows
+    INSERT INTO public.transaction_payers (transaction_id, participant_id, amount)
+    SELECT v_transaction_id,
+           (v_participant_ids->>(payer->>'column'))::UUID,
+           (payer->>'amount')::NUMERIC
+    FROM jsonb_array_elements(COALESCE(v_tx->'payers', '[]'::JSONB)) AS payer;
+  END LOOP;
+
+  -- Imported payments are past history: confirmed (see section 1)
+  PERFORM set_config('app.importing_history', 'on', true);
+
+  INSERT INTO public.settlements (
+    group_id, from_participant_id, to_participant_id, amount, currency, notes, created_by, created_at
+  )
+  SELECT p_group_id,
+         (v_participant_ids->>(s->>'from'))::UUID,
+         (v_participant_ids->>(s->>'to'))::UUID,
+         (s->>'amount')::NUMERIC,
+         s->>'currency',
+         s->>'notes',
+         current_user_id,
+         ((s->>'date') || 'T00:00:00Z')::TIMESTAMPTZ
+  FROM jsonb_array_elements(COALESCE(p_settlements, '[]'::JSONB)) AS s;
+  GET DIAGNOSTICS v_settlements = ROW_COUNT;
+
+  PERFORM set_config('app.importing_history', 'off', true);
+
+  RETURN jsonb_build_object(
+    'transactions', v_transactions,
+    'settlements', v_settlements,
+    'invited_participants', v_invited
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION public.import_splitwise_history(UUID, JSONB, JSONB, JSONB) IS 'Commits a Splitwise import in one transaction: invitations, transactions with splits and payers, settlements';
+
+GRANT EXECUTE ON FUNCTION public.import_splitwise_history(UUID, JSONB, JSONB, JSONB) TO authenticated;
+
+COMMIT;